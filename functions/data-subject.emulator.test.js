@@ -0,0 +1,170 @@
+'use strict';
+
+// Runs against the Firestore and Realtime Database emulators: `npm run test:emulators`. Skipped otherwise.
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeApp } = require('firebase-admin/app');
+const { getDatabase } = require('firebase-admin/database');
+const { Timestamp, getFirestore } = require('firebase-admin/firestore');
+const { eraseStudentRecords, findStudentRecords, pseudonymFor } = require('./data-subject');
+
+const PROJECT_ID = 'demo-classfully';
+const skip = !process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_DATABASE_EMULATOR_HOST
+  ? 'Firestore and Realtime Database emulators are not running'
+  : false;
+const COLLECTIONS = ['courses', 'sessions', 'students', 'responses', 'highlights', 'studentProgress', 'rewardRequests', 'rewardLedgers', 'teamModules', 'studentGrades', 'gradeAudits', 'ltiUsers'];
+
+function emulators() {
+  const app = initializeApp({ projectId: PROJECT_ID, databaseURL: `https://${PROJECT_ID}-default-rtdb.firebaseio.com` }, `data-subject-${Date.now()}`);
+  return { firestore: getFirestore(app), database: getDatabase(app) };
+}
+
+async function seed({ firestore, database }) {
+  await database.ref().set(null);
+  await Promise.all(COLLECTIONS.map((name) => firestore.recursiveDelete(firestore.collection(name))));
+  const now = Timestamp.now();
+
+  await database.ref('liveV2/teacher-1').set({
+    'session-1': {
+      meta: { status: 'ended', updatedAt: Date.now() },
+      attendanceClaims: {
+        'uid-a': { studentUid: 'uid-a', studentNumber: 'S001', status: 'participated' },
+        'uid-b': { studentUid: 'uid-b', studentNumber: 'S002', status: 'participated' },
+        'uid-lab': { studentUid: 'uid-lab', studentNumber: 'S001', status: 'participated' },
+      },
+      responses: { 'run-1': { 'uid-a': { optionIndex: 1 }, 'uid-b': { optionIndex: 0 }, 'uid-lab': { optionIndex: 3 } } },
+      archives: { 'archive-1': { responses: { 'run-0': { 'uid-a': { optionIndex: 2 } } } } },
+    },
+    'session-2': {
+      meta: { status: 'ended', updatedAt: Date.now() },
+      attendanceClaims: {
+        'uid-c': { studentUid: 'uid-c', studentNumber: 'S001', status: 'claimed' },
+        // A lab computer that S002 used in the next session.
+        'uid-lab': { studentUid: 'uid-lab', studentNumber: 'S002', status: 'claimed' },
+      },
+      welcomeResponses: { 'run-3': { 'uid-c': { mood: 4 }, 'uid-lab': { mood: 2 } } },
+    },
+  });
+
+  const batch = firestore.batch();
+  batch.set(firestore.doc('courses/course-1'), {
+    teacherId: 'teacher-1',
+    coldCall: { optedOut: ['S001', 'S002'] },
+    studentIds: ['student-1', 'student-2'],
+    gradebook: { overrides: { 'student-1:session-1': { status: 'excused', note: 'Medical' }, 'student-2:session-1': { status: 'late' } } },
+    attendance: { marks: { 'student-1:session-1': { status: 'excused', reason: 'Hospital visit' }, 'student-2:session-1': { status: 'confirmed' } } },
+  });
+  batch.set(firestore.doc('courses/course-1/coldCalls/call-1'), { teacherId: 'teacher-1', studentNumber: 'S001', studentName: 'Ada' });
+  batch.set(firestore.doc('courses/course-1/coldCalls/call-2'), { teacherId: 'teacher-1', studentNumber: 'S002', studentName: 'Ben' });
+  batch.set(firestore.doc('courses/course-1/seatingCharts/chart-1'), {
+    teacherId: 'teacher-1',
+    room: 'Room 4',
+    seats: { 'r1-s1': { studentNumber: 'S001', name: 'Ada' }, 'r1-s2': { studentNumber: 'S002', name: 'Ben' } },
+  });
+  batch.set(firestore.doc('sessions/session-1'), { teacherId: 'teacher-1', studentsJoined: ['S001', 'S002'] });
+  batch.set(firestore.doc('sessions/other-session'), { teacherId: 'teacher-2', studentsJoined: ['S001'] });
+  batch.set(firestore.doc('students/student-1'), { studentId: 'S001', studentIdNormalized: 's001', authorUid: 'uid-legacy', courseIds: ['course-1'], name: 'Ada' });
+  batch.set(firestore.doc('students/student-2'), { studentId: 'S002', studentIdNormalized: 's002', courseIds: ['course-1'], name: 'Ben' });
+  batch.set(firestore.doc('studentGrades/grade-1'), { studentId: 'student-1', courseId: 'course-1', participationRate: 80, contribution: { rate: 50, marks: 2, points: 3, averageMark: 1.5, sessions: 1 } });
+  batch.set(firestore.doc('studentGrades/grade-2'), { studentId: 'student-2', courseId: 'course-1', participationRate: 60 });
+  batch.set(firestore.doc('gradeAudits/audit-1'), { teacherId: 'teacher-1', responseId: 'response-1', studentId: 'S001', points: 4, feedback: 'Clear argument', createdAt: now });
+  batch.set(firestore.doc('gradeAudits/audit-2'), { teacherId: 'teacher-1', responseId: 'response-3', studentId: 'S002', points: 3, createdAt: now });
+  batch.set(firestore.doc('ltiUsers/lms-ada'), { platformId: 'lms-1', subject: 'ada-lms', studentDocId: 'student-1', courseIds: ['course-1'] });
+  batch.set(firestore.doc('responses/response-1'), { studentId: 'S001', authorUid: 'uid-legacy', sessionId: 'session-1', response: 'Mine' });
+  batch.set(firestore.doc('responses/response-2'), { studentId: 'S001', sessionId: 'other-session', response: 'Another instructor' });
+  batch.set(firestore.doc('rewardLedgers/ledger-1'), { teacherId: 'teacher-1', studentNumber: 'S001', deviceUids: ['uid-a', 'uid-d'], seminarPoints: 4 });
+  batch.set(firestore.doc('rewardLedgers/ledger-1/entries/entry-1'), { eventKey: 'session-1:run-1:response', amount: 2, createdAt: now });
+  batch.set(firestore.doc('rewardRequests/request-1'), {
+    teacherId: 'teacher-1', studentNumber: 'S001', studentDisplayName: 'Ada', authorUid: 'uid-a', deviceUids: ['uid-a'], status: 'used', requestedAt: now,
+  });
+  batch.set(firestore.doc('rewardRequests/request-2'), {
+    teacherId: 'teacher-1', studentNumber: 'S002', studentDisplayName: 'Ben', authorUid: 'uid-lab', deviceUids: ['uid-lab'], status: 'pending', requestedAt: now,
+  });
+  await batch.commit();
+}
+
+test('finds one student across both databases and erases only their records, even on a shared device', { skip }, async () => {
+  const clients = emulators();
+  await seed(clients);
+
+  const found = await findStudentRecords({ ...clients, ownerUid: 'teacher-1', studentNumber: 's001' });
+  assert.deepEqual([...found.subject.uids].sort(), ['uid-a', 'uid-c', 'uid-d', 'uid-lab', 'uid-legacy']);
+  const firestorePaths = found.firestoreRecords.map((record) => record.path).sort();
+  assert.deepEqual(firestorePaths, [
+    'courses/course-1',
+    'courses/course-1/coldCalls/call-1',
+    'courses/course-1/seatingCharts/chart-1',
+    'gradeAudits/audit-1',
+    'ltiUsers/lms-ada',
+    'responses/response-1',
+    'rewardLedgers/ledger-1',
+    'rewardLedgers/ledger-1/entries/entry-1',
+    'rewardRequests/request-1',
+    'sessions/session-1',
+    'studentGrades/grade-1',
+    'students/student-1',
+  ]);
+  assert.deepEqual(found.firestoreRecords.find((record) => record.path === 'courses/course-1').data, {
+    coldCall: { optedOut: ['S001'] },
+    studentIds: ['student-1'],
+    gradebook: { overrides: { 'student-1:session-1': { status: 'excused', note: 'Medical' } } },
+    attendance: { marks: { 'student-1:session-1': { status: 'excused', reason: 'Hospital visit' } } },
+  });
+  assert.deepEqual(found.firestoreRecords.find((record) => record.path === 'courses/course-1/seatingCharts/chart-1').data.seats, {
+    'r1-s1': { studentNumber: 'S001', name: 'Ada' },
+  });
+  assert.equal(found.liveRecords.length, 7);
+
+  const totals = await eraseStudentRecords({ ...clients, ownerUid: 'teacher-1', ...found });
+  assert.deepEqual(totals, { liveDeleted: 7, firestoreDeleted: 7, firestorePseudonymized: 5 });
+
+  const room = (await clients.database.ref('liveV2/teacher-1').once('value')).val();
+  assert.deepEqual(Object.keys(room['session-1'].attendanceClaims), ['uid-b']);
+  assert.deepEqual(room['session-1'].responses['run-1'], { 'uid-b': { optionIndex: 0 } });
+  assert.equal(room['session-1'].archives, undefined);
+  assert.deepEqual(Object.keys(room['session-2'].attendanceClaims), ['uid-lab'], 'the shared device keeps the other student\'s session');
+  assert.deepEqual(room['session-2'].welcomeResponses['run-3'], { 'uid-lab': { mood: 2 } });
+
+  const [course, chart, session, otherResponse, request, ledger, student, otherCall, otherRequest, grade, otherGrade, audit, otherAudit, mapping] = await Promise.all([
+    clients.firestore.doc('courses/course-1').get(),
+    clients.firestore.doc('courses/course-1/seatingCharts/chart-1').get(),
+    clients.firestore.doc('sessions/session-1').get(),
+    clients.firestore.doc('responses/response-2').get(),
+    clients.firestore.doc('rewardRequests/request-1').get(),
+    clients.firestore.doc('rewardLedgers/ledger-1').get(),
+    clients.firestore.doc('students/student-1').get(),
+    clients.firestore.doc('courses/course-1/coldCalls/call-2').get(),
+    clients.firestore.doc('rewardRequests/request-2').get(),
+    clients.firestore.doc('studentGrades/grade-1').get(),
+    clients.firestore.doc('studentGrades/grade-2').get(),
+    clients.firestore.doc('gradeAudits/audit-1').get(),
+    clients.firestore.doc('gradeAudits/audit-2').get(),
+    clients.firestore.doc('ltiUsers/lms-ada').get(),
+  ]);
+  assert.deepEqual(course.data().coldCall.optedOut, ['S002']);
+  assert.deepEqual(course.data().studentIds, ['student-2']);
+  assert.deepEqual(Object.keys(course.data().gradebook.overrides), ['student-2:session-1']);
+  assert.deepEqual(Object.keys(course.data().attendance.marks), ['student-2:session-1']);
+  assert.equal(grade.exists, false);
+  assert.equal(otherGrade.exists, true);
+  assert.equal(mapping.exists, false);
+  assert.equal(audit.data().points, 4, 'grade history keeps its points');
+  assert.equal(audit.data().studentId, pseudonymFor('teacher-1', found.subject));
+  assert.equal(audit.data().feedback, undefined);
+  assert.equal(otherAudit.data().studentId, 'S002');
+  assert.deepEqual(Object.keys(chart.data().seats), ['r1-s2']);
+  assert.deepEqual(session.data().studentsJoined, ['S002']);
+  assert.equal(otherResponse.exists, true, 'another instructor\'s records stay');
+  assert.equal(otherCall.exists, true);
+  assert.equal(ledger.exists, false);
+  assert.equal(student.exists, false);
+  assert.equal(request.data().status, 'used');
+  assert.equal(request.data().studentNumber, pseudonymFor('teacher-1', found.subject));
+  assert.equal(request.data().studentDisplayName, undefined);
+  assert.deepEqual(request.data().deviceUids, []);
+  assert.equal(otherRequest.data().studentNumber, 'S002', 'the shared device\'s request for another student stays');
+
+  const again = await findStudentRecords({ ...clients, ownerUid: 'teacher-1', studentNumber: 'S001' });
+  assert.equal(again.liveRecords.length, 0);
+  assert.deepEqual(again.firestoreRecords, []);
+});
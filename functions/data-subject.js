@@ -0,0 +1,423 @@
+'use strict';
+
+const { createHash, createHmac, timingSafeEqual } = require('node:crypto');
+const { FieldValue } = require('firebase-admin/firestore');
+const { pulseReceipt } = require('./wellbeing-pulse');
+
+/** Live room nodes keyed directly by the student's device uid. Archives reuse the same layout. */
+const UID_KEYED_NODES = ['attendanceClaims', 'presence', 'quizAwards', 'studentQuestions', 'questionPointClaims'];
+/** Nodes keyed `<run or question>/<uid>`. */
+const RUN_KEYED_NODES = ['responses', 'welcomeResponses', 'questionVotes', 'debateArguments'];
+/** Legacy case-study records keyed by the student number the student typed, scoped by session. */
+const SESSION_COLLECTIONS = ['responses', 'highlights', 'studentProgress'];
+const FIRESTORE_IN_LIMIT = 30;
+const BATCH_LIMIT = 400;
+const RECEIPT_ALGORITHM = 'HMAC-SHA256';
+
+// Mirrors coldCallKey in src/lib/cold-call.ts, the loosest of the student number forms the app stores.
+function studentMatchKey(value) {
+  return String(value || '').trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+// Mirrors normalizeStudentId in src/lib/utils so LMS launches match students added by hand.
+function normalizeStudentRecordId(value) {
+  return String(value || '').toLowerCase().trim().replace(/\s+/g, '').replace(/_/g, '').replace(/[^a-z0-9\-.@]/g, '');
+}
+
+function entries(value) {
+  return value && typeof value === 'object' ? Object.entries(value) : [];
+}
+
+function chunks(values, size) {
+  const list = [...values];
+  return Array.from({ length: Math.ceil(list.length / size) }, (_, index) => list.slice(index * size, (index + 1) * size));
+}
+
+/**
+ * Who a request is about: the student number the instructor entered and the devices that claimed it, or
+ * one device on its own. `expandSubject` adds the claiming devices; it never follows a device on to other
+ * student numbers, so a shared device does not merge two students.
+ */
+function createSubject({ studentNumber = '', studentUid = '' }) {
+  const key = studentMatchKey(studentNumber);
+  return {
+    seed: key || `uid:${studentUid}`,
+    numberKeys: new Set(key ? [key] : []),
+    studentNumbers: new Set(key ? [String(studentNumber).trim()] : []),
+    uids: new Set(studentUid ? [studentUid] : []),
+    // Devices that also claimed a different student number somewhere. Only their rooms that name this
+    // student count.
+    sharedUids: new Set(),
+  };
+}
+
+function addStudentNumber(subject, value) {
+  const key = studentMatchKey(value);
+  if (!key || !subject.numberKeys.has(key)) return false;
+  subject.studentNumbers.add(String(value).trim());
+  return true;
+}
+
+function matchesNumber(subject, value) {
+  const key = studentMatchKey(value);
+  return Boolean(key) && subject.numberKeys.has(key);
+}
+
+function claimNumbers(claim) {
+  return [claim?.studentNumber, claim?.rosterStudentNumber].filter(Boolean);
+}
+
+/** Adds every device that claimed the subject's student number in an owner's live rooms, and its spellings. */
+function expandSubject(subject, ownerRooms) {
+  if (!subject.numberKeys.size) return subject;
+  const claims = entries(ownerRooms).flatMap(([, room]) => [room, ...entries(room?.archives).map(([, archive]) => archive)])
+    .flatMap((tree) => entries(tree?.attendanceClaims));
+  for (const [uid, claim] of claims) {
+    const numbers = claimNumbers(claim);
+    if (numbers.some((number) => matchesNumber(subject, number))) {
+      subject.uids.add(uid);
+      numbers.forEach((number) => addStudentNumber(subject, number));
+    } else if (numbers.length) {
+      subject.sharedUids.add(uid);
+    }
+  }
+  return subject;
+}
+
+/** The subject's devices in one room: a shared device counts only where its claim names this student. */
+function roomUids(subject, tree) {
+  return [...subject.uids].filter((uid) => {
+    if (!subject.sharedUids.has(uid)) return true;
+    return claimNumbers(tree?.attendanceClaims?.[uid]).some((number) => matchesNumber(subject, number));
+  });
+}
+
+function treeRecords(tree, uids, prefix) {
+  const records = [];
+  const take = (path, value) => {
+    if (value !== undefined && value !== null) records.push({ path: `${prefix}${path}`, value });
+  };
+  for (const node of UID_KEYED_NODES) {
+    for (const uid of uids) take(`${node}/${uid}`, tree?.[node]?.[uid]);
+  }
+  for (const node of RUN_KEYED_NODES) {
+    for (const [runId, run] of entries(tree?.[node])) {
+      for (const uid of uids) take(`${node}/${runId}/${uid}`, run?.[uid]);
+    }
+  }
+  for (const [runId, run] of entries(tree?.debateVotes)) {
+    for (const [argumentId, votes] of entries(run)) {
+      for (const uid of uids) take(`debateVotes/${runId}/${argumentId}/${uid}`, votes?.[uid]);
+    }
+  }
+  // Anonymous pulses keep only a salted receipt that the device answered, never the answer.
+  for (const [runId, tally] of entries(tree?.pulseTallies)) {
+    for (const uid of uids) {
+      const receipt = tally?.salt ? pulseReceipt(tally.salt, uid) : '';
+      if (receipt) take(`pulseTallies/${runId}/receipts/${receipt}`, tally.receipts?.[receipt]);
+    }
+  }
+  return records;
+}
+
+/**
+ * Whether a saved record is the subject's. A record that names a student number must name theirs, so a
+ * shared device's records for another student stay; one that names none is matched by its devices.
+ */
+function isSubjectRecord(subject, studentNumber, recordUids) {
+  if (subject.numberKeys.size && studentNumber) return matchesNumber(subject, studentNumber);
+  return recordUids.some((uid) => subject.uids.has(uid));
+}
+
+/** Every live-room record a subject's devices wrote, with paths relative to `liveV2/<ownerUid>`. Reset archives are included. */
+function collectLiveRecords(ownerRooms, subject) {
+  return entries(ownerRooms).flatMap(([sessionId, room]) => [
+    ...treeRecords(room, roomUids(subject, room), `${sessionId}/`),
+    ...entries(room?.archives).flatMap(([archiveId, archive]) => treeRecords(archive, roomUids(subject, archive), `${sessionId}/archives/${archiveId}/`)),
+  ]);
+}
+
+/** A stable stand-in for an erased student on records the class keeps, such as fulfilled reward requests. */
+function pseudonymFor(ownerUid, subject) {
+  return `ERASED-${subjectHash(ownerUid, subject).slice(0, 10).toUpperCase()}`;
+}
+
+/**
+ * Identifies the subject in receipts and logs without storing their student number. It hashes what the
+ * instructor entered, so the institution can find a receipt again from the number it was given.
+ */
+function subjectHash(ownerUid, subject) {
+  return createHash('sha256').update(`${ownerUid}:${subject.seed}`).digest('hex');
+}
+
+/** The student numbers and devices a request resolved to, as shown to the instructor. */
+function subjectIdentities(subject) {
+  return { studentNumbers: [...subject.studentNumbers].sort(), deviceUids: [...subject.uids].sort() };
+}
+
+/**
+ * Pins an erasure to the identities the instructor confirmed. If a later claim changes who the request
+ * resolves to, the fingerprint no longer matches and nothing is erased.
+ */
+function identityFingerprint(ownerUid, subject) {
+  return createHash('sha256').update(canonicalJson({ ownerUid, ...subjectIdentities(subject) })).digest('hex');
+}
+
+/** Firestore timestamps and nested maps as plain JSON for the export bundle. */
+function toPlain(value) {
+  if (value === null || value === undefined) return value ?? null;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlain(item)]));
+  return value;
+}
+
+async function queryIn(collection, field, values) {
+  const snapshots = await Promise.all(chunks(values, FIRESTORE_IN_LIMIT).map((list) => collection.where(field, 'in', list).get()));
+  return snapshots.flatMap((snapshot) => snapshot.docs);
+}
+
+function uniqueDocs(docs) {
+  return [...new Map(docs.map((document) => [document.ref.path, document])).values()];
+}
+
+/**
+ * Finds the subject's Firestore records in one instructor's workspace. Each record says how erasure treats
+ * it: `delete`, or an `update` that pseudonymizes a record the class keeps. Devices on the student's roster
+ * entry and reward ledger claimed their number too, so they are added to the subject for the live records.
+ */
+async function collectFirestoreRecords(firestore, ownerUid, subject) {
+  const records = [];
+  // `data` is what the export shows. Shared documents export only the part about this student.
+  const add = (document, action, update, data = document.data()) => records.push({ path: document.ref.path, data, action, ...(update ? { update } : {}) });
+  const pseudonym = pseudonymFor(ownerUid, subject);
+
+  const [coursesSnapshot, sessionsSnapshot, requestsSnapshot, ledgersSnapshot] = await Promise.all([
+    firestore.collection('courses').where('teacherId', '==', ownerUid).get(),
+    firestore.collection('sessions').where('teacherId', '==', ownerUid).get(),
+    firestore.collection('rewardRequests').where('teacherId', '==', ownerUid).get(),
+    firestore.collection('rewardLedgers').where('teacherId', '==', ownerUid).get(),
+  ]);
+  const courseIds = new Set(coursesSnapshot.docs.map((document) => document.id));
+  const sessionIds = new Set(sessionsSnapshot.docs.map((document) => document.id));
+
+  // Roster entry ids key the subject's grades, gradebook overrides, register marks and LMS mappings.
+  const studentDocIds = new Set();
+  const deletedStudentIds = new Set();
+  const normalizedIds = [...subject.studentNumbers].map(normalizeStudentRecordId).filter(Boolean);
+  const students = uniqueDocs([
+    ...await queryIn(firestore.collection('students'), 'studentIdNormalized', [...new Set(normalizedIds)]),
+    ...await queryIn(firestore.collection('students'), 'authorUid', subject.uids),
+  ]);
+  for (const student of students) {
+    const data = student.data();
+    const studentCourses = Array.isArray(data.courseIds) ? data.courseIds : [];
+    const ownCourses = studentCourses.filter((courseId) => courseIds.has(courseId));
+    if (!ownCourses.length || !isSubjectRecord(subject, data.studentId, [data.authorUid])) continue;
+    addStudentNumber(subject, data.studentId);
+    if (data.authorUid) subject.uids.add(data.authorUid);
+    studentDocIds.add(student.id);
+    // A roster entry shared with another instructor's class stays for them, minus this workspace's classes.
+    if (ownCourses.length === studentCourses.length) {
+      deletedStudentIds.add(student.id);
+      add(student, 'delete');
+    } else {
+      add(student, 'update', { courseIds: FieldValue.arrayRemove(...ownCourses) });
+    }
+  }
+
+  const [grades, ltiUsers, auditsSnapshot] = await Promise.all([
+    queryIn(firestore.collection('studentGrades'), 'studentId', studentDocIds),
+    queryIn(firestore.collection('ltiUsers'), 'studentDocId', studentDocIds),
+    firestore.collection('gradeAudits').where('teacherId', '==', ownerUid).get(),
+  ]);
+  grades.filter((document) => courseIds.has(document.data().courseId)).forEach((document) => add(document, 'delete'));
+  for (const mapping of ltiUsers) {
+    const linked = Array.isArray(mapping.data().courseIds) ? mapping.data().courseIds : [];
+    const ownLinked = linked.filter((courseId) => courseIds.has(courseId));
+    // A mapping to a deleted roster entry is dropped; one shared with another workspace loses these classes.
+    if (deletedStudentIds.has(mapping.data().studentDocId)) add(mapping, 'delete');
+    else if (ownLinked.length) add(mapping, 'update', { courseIds: FieldValue.arrayRemove(...ownLinked) });
+  }
+
+  for (const ledger of ledgersSnapshot.docs) {
+    const data = ledger.data();
+    if (!matchesNumber(subject, data.studentNumber)) continue;
+    (data.deviceUids || []).forEach((uid) => subject.uids.add(uid));
+    const entriesSnapshot = await ledger.ref.collection('entries').get();
+    entriesSnapshot.docs.forEach((entry) => add(entry, 'delete'));
+    add(ledger, 'delete');
+  }
+  for (const request of requestsSnapshot.docs) {
+    const data = request.data();
+    if (!isSubjectRecord(subject, data.studentNumber, [data.authorUid, ...(data.deviceUids || [])])) continue;
+    // Redemption records can back course credit, so they keep their outcome under a pseudonym.
+    add(request, 'update', { studentNumber: pseudonym, studentDisplayName: FieldValue.delete(), authorUid: '', deviceUids: [] });
+  }
+
+  const typedIds = [...subject.studentNumbers];
+  const responseIds = new Set();
+  for (const name of SESSION_COLLECTIONS) {
+    const collection = firestore.collection(name);
+    const found = uniqueDocs([
+      ...await queryIn(collection, 'studentId', typedIds),
+      ...await queryIn(collection, 'authorUid', subject.uids),
+    ]);
+    const own = found.filter((document) => sessionIds.has(document.data().sessionId) && isSubjectRecord(subject, document.data().studentId, [document.data().authorUid]));
+    own.forEach((document) => add(document, 'delete'));
+    if (name === 'responses') own.forEach((document) => responseIds.add(document.id));
+  }
+  // Grade audits back the grades the class keeps, so they keep their points under a pseudonym.
+  for (const audit of auditsSnapshot.docs) {
+    const data = audit.data();
+    if (!responseIds.has(data.responseId) && !matchesNumber(subject, data.studentId)) continue;
+    add(audit, 'update', { studentId: pseudonym, feedback: FieldValue.delete() });
+  }
+  for (const session of sessionsSnapshot.docs) {
+    const joined = (session.data().studentsJoined || []).filter((studentId) => matchesNumber(subject, studentId));
+    if (joined.length) add(session, 'update', { studentsJoined: FieldValue.arrayRemove(...joined) }, { studentsJoined: joined });
+  }
+
+  for (const course of coursesSnapshot.docs) {
+    const courseRef = course.ref;
+    const [coldCalls, marks, charts, memberships] = await Promise.all([
+      courseRef.collection('coldCalls').get(),
+      courseRef.collection('contributionMarks').get(),
+      courseRef.collection('seatingCharts').get(),
+      firestore.collection('teamModules').doc(course.id).collection('memberships').get(),
+    ]);
+    [...coldCalls.docs, ...marks.docs]
+      .filter((document) => matchesNumber(subject, document.data().studentNumber))
+      .forEach((document) => add(document, 'delete'));
+    for (const chart of charts.docs) {
+      const seats = entries(chart.data().seats).filter(([, seat]) => matchesNumber(subject, seat?.studentNumber));
+      if (seats.length) {
+        add(chart, 'update', Object.fromEntries(seats.map(([seatId]) => [`seats.${seatId}`, FieldValue.delete()])), { room: chart.data().room, seats: Object.fromEntries(seats) });
+      }
+    }
+    memberships.docs
+      .filter((document) => isSubjectRecord(subject, document.data().studentNumber, [document.id]))
+      .forEach((document) => add(document, 'delete'));
+    // The course document names the student in its opt-outs, roster, gradebook overrides and register marks.
+    const courseData = course.data();
+    const update = {};
+    const data = {};
+    const optedOut = (courseData.coldCall?.optedOut || []).filter((key) => matchesNumber(subject, key));
+    if (optedOut.length) {
+      update['coldCall.optedOut'] = FieldValue.arrayRemove(...optedOut);
+      data.coldCall = { optedOut };
+    }
+    const rostered = (courseData.studentIds || []).filter((id) => studentDocIds.has(id));
+    if (rostered.length) {
+      update.studentIds = FieldValue.arrayRemove(...rostered);
+      data.studentIds = rostered;
+    }
+    const isSubjectKey = ([key]) => studentDocIds.has(key.split(':')[0]);
+    for (const [group, field] of [['gradebook', 'overrides'], ['attendance', 'marks']]) {
+      const own = entries(courseData[group]?.[field]).filter(isSubjectKey);
+      own.forEach(([key]) => { update[`${group}.${field}.${key}`] = FieldValue.delete(); });
+      if (own.length) data[group] = { [field]: Object.fromEntries(own) };
+    }
+    if (Object.keys(update).length) add(course, 'update', update, data);
+  }
+
+  return records;
+}
+
+/** Looks up everything for one student in an owner's workspace across both databases. */
+async function findStudentRecords({ database, firestore, ownerUid, studentNumber, studentUid }) {
+  const subject = createSubject({ studentNumber, studentUid });
+  const ownerRooms = (await database.ref(`liveV2/${ownerUid}`).once('value')).val() || {};
+  expandSubject(subject, ownerRooms);
+  const firestoreRecords = await collectFirestoreRecords(firestore, ownerUid, subject);
+  return { subject, liveRecords: collectLiveRecords(ownerRooms, subject), firestoreRecords };
+}
+
+/** The export a student receives: every record, as stored, with where it came from. */
+function buildExportBundle({ ownerUid, subject, liveRecords, firestoreRecords }, generatedAt = new Date()) {
+  return {
+    format: 'classfully-student-data/1',
+    generatedAt: generatedAt.toISOString(),
+    ownerUid,
+    subject: subjectIdentities(subject),
+    realtimeDatabase: liveRecords.map(({ path, value }) => ({ path: `liveV2/${ownerUid}/${path}`, value })),
+    firestore: firestoreRecords.map(({ path, data }) => ({ path, data: toPlain(data) })),
+  };
+}
+
+/** Per-collection counts for a receipt, e.g. `{ 'liveV2/responses': 3, 'firestore/rewardRequests': 1 }`. */
+function recordCounts(liveRecords, firestoreRecords) {
+  const counts = {};
+  const count = (key) => { counts[key] = (counts[key] || 0) + 1; };
+  for (const { path } of liveRecords) {
+    const parts = path.split('/');
+    count(`liveV2/${parts[1] === 'archives' ? `archives/${parts[3]}` : parts[1]}`);
+  }
+  for (const { path } of firestoreRecords) {
+    const parts = path.split('/');
+    count(`firestore/${parts[parts.length - 2]}`);
+  }
+  return counts;
+}
+
+/** Deletes live records and deletes or pseudonymizes Firestore records, in batches Firestore accepts. */
+async function eraseStudentRecords({ database, firestore, ownerUid, liveRecords, firestoreRecords }) {
+  if (liveRecords.length) {
+    await database.ref().update(Object.fromEntries(liveRecords.map(({ path }) => [`liveV2/${ownerUid}/${path}`, null])));
+  }
+  for (const group of chunks(firestoreRecords, BATCH_LIMIT)) {
+    const batch = firestore.batch();
+    for (const record of group) {
+      const ref = firestore.doc(record.path);
+      if (record.action === 'delete') batch.delete(ref);
+      else batch.update(ref, record.update);
+    }
+    await batch.commit();
+  }
+  return {
+    liveDeleted: liveRecords.length,
+    firestoreDeleted: firestoreRecords.filter((record) => record.action === 'delete').length,
+    firestorePseudonymized: firestoreRecords.filter((record) => record.action === 'update').length,
+  };
+}
+
+function canonicalJson(value) {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Signs a deletion receipt so the institution can later show it was issued by Classfully and not edited. */
+function signReceipt(receipt, secret) {
+  const body = { ...receipt, algorithm: RECEIPT_ALGORITHM };
+  return { ...body, signature: createHmac('sha256', secret).update(canonicalJson(body)).digest('hex') };
+}
+
+function verifyReceipt(signedReceipt, secret) {
+  const { signature, ...body } = signedReceipt || {};
+  if (typeof signature !== 'string' || body.algorithm !== RECEIPT_ALGORITHM) return false;
+  const expected = Buffer.from(createHmac('sha256', secret).update(canonicalJson(body)).digest('hex'));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+module.exports = {
+  buildExportBundle,
+  collectFirestoreRecords,
+  collectLiveRecords,
+  createSubject,
+  eraseStudentRecords,
+  expandSubject,
+  findStudentRecords,
+  identityFingerprint,
+  normalizeStudentRecordId,
+  pseudonymFor,
+  recordCounts,
+  signReceipt,
+  studentMatchKey,
+  subjectHash,
+  subjectIdentities,
+  verifyReceipt,
+};
@@ -0,0 +1,148 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  buildExportBundle,
+  collectLiveRecords,
+  createSubject,
+  expandSubject,
+  identityFingerprint,
+  pseudonymFor,
+  recordCounts,
+  signReceipt,
+  subjectHash,
+  verifyReceipt,
+} = require('./data-subject');
+const { pulseReceipt } = require('./wellbeing-pulse');
+
+const rooms = {
+  'session-1': {
+    attendanceClaims: {
+      'uid-a': { studentNumber: 'S001', status: 'participated' },
+      'uid-b': { studentNumber: 'S002', status: 'participated' },
+      'uid-n': { participationMode: 'session-name', studentDisplayName: 'Fern', rosterStudentNumber: 's-001' },
+    },
+    responses: { 'run-1': { 'uid-a': { optionIndex: 1 }, 'uid-b': { optionIndex: 0 } } },
+    questionVotes: { 'question-9': { 'uid-a': true, 'uid-b': true } },
+    debateVotes: { 'run-2': { 'arg-1': { 'uid-n': true, 'uid-b': true } } },
+    presence: { 'uid-a': { connected: true } },
+    archives: { 'archive-1': { welcomeResponses: { 'run-0': { 'uid-a': { mood: 3 } } } } },
+  },
+  'session-2': {
+    attendanceClaims: { 'uid-c': { studentNumber: 's001', status: 'claimed' } },
+    studentQuestions: { 'uid-c': { 'question-1': { text: 'Why?' } } },
+    pulseTallies: { 17: { salt: 'salt-1', counts: { tired: 2 }, total: 2, receipts: { [pulseReceipt('salt-1', 'uid-c')]: true, [pulseReceipt('salt-1', 'uid-b')]: true } } },
+  },
+};
+
+test('finds every device that claimed a student number, in any spelling', () => {
+  const subject = expandSubject(createSubject({ studentNumber: ' s001 ' }), rooms);
+  assert.deepEqual([...subject.uids].sort(), ['uid-a', 'uid-c', 'uid-n']);
+  assert.deepEqual([...subject.numberKeys], ['S001']);
+
+  const byDevice = expandSubject(createSubject({ studentUid: 'uid-c' }), rooms);
+  assert.deepEqual([...byDevice.uids], ['uid-c'], 'a device lookup does not follow the device to its student numbers');
+  assert.equal(expandSubject(createSubject({ studentNumber: 'S404' }), rooms).uids.size, 0);
+});
+
+test('a device shared by two students does not merge them', () => {
+  const shared = {
+    'session-1': {
+      attendanceClaims: {
+        'uid-lab': { studentNumber: 'S001', status: 'participated' },
+        'uid-b': { studentNumber: 'S002', status: 'participated' },
+      },
+      responses: { 'run-1': { 'uid-lab': { optionIndex: 1 }, 'uid-b': { optionIndex: 0 } } },
+    },
+    'session-2': {
+      attendanceClaims: {
+        'uid-lab': { studentNumber: 'S002', status: 'participated' },
+        'uid-e': { studentNumber: 'S003', status: 'participated' },
+      },
+      responses: { 'run-4': { 'uid-lab': { optionIndex: 2 }, 'uid-e': { optionIndex: 3 } } },
+    },
+  };
+  const subject = expandSubject(createSubject({ studentNumber: 'S001' }), shared);
+  assert.deepEqual([...subject.uids], ['uid-lab']);
+  assert.deepEqual([...subject.numberKeys], ['S001'], 'S002 on the shared device is another student');
+  assert.deepEqual(collectLiveRecords(shared, subject).map((record) => record.path).sort(), [
+    'session-1/attendanceClaims/uid-lab',
+    'session-1/responses/run-1/uid-lab',
+  ]);
+
+  const other = expandSubject(createSubject({ studentNumber: 'S002' }), shared);
+  assert.deepEqual([...other.uids].sort(), ['uid-b', 'uid-lab']);
+  assert.deepEqual(collectLiveRecords(shared, other).map((record) => record.path).sort(), [
+    'session-1/attendanceClaims/uid-b',
+    'session-1/responses/run-1/uid-b',
+    'session-2/attendanceClaims/uid-lab',
+    'session-2/responses/run-4/uid-lab',
+  ]);
+});
+
+test('pins an erasure to the identities the instructor reviewed', () => {
+  const reviewed = identityFingerprint('teacher-1', expandSubject(createSubject({ studentNumber: 'S001' }), rooms));
+  assert.equal(identityFingerprint('teacher-1', expandSubject(createSubject({ studentNumber: 's001' }), rooms)), reviewed);
+  const laterRooms = { ...rooms, 'session-3': { attendanceClaims: { 'uid-z': { studentNumber: 'S001' } } } };
+  assert.notEqual(identityFingerprint('teacher-1', expandSubject(createSubject({ studentNumber: 'S001' }), laterRooms)), reviewed);
+  assert.notEqual(identityFingerprint('teacher-2', expandSubject(createSubject({ studentNumber: 'S001' }), rooms)), reviewed);
+});
+
+test('collects only the subject\'s own live records, including reset archives', () => {
+  const subject = expandSubject(createSubject({ studentNumber: 'S001' }), rooms);
+  const paths = collectLiveRecords(rooms, subject).map((record) => record.path).sort();
+  assert.deepEqual(paths, [
+    'session-1/archives/archive-1/welcomeResponses/run-0/uid-a',
+    'session-1/attendanceClaims/uid-a',
+    'session-1/attendanceClaims/uid-n',
+    'session-1/debateVotes/run-2/arg-1/uid-n',
+    'session-1/presence/uid-a',
+    'session-1/questionVotes/question-9/uid-a',
+    'session-1/responses/run-1/uid-a',
+    'session-2/attendanceClaims/uid-c',
+    `session-2/pulseTallies/17/receipts/${pulseReceipt('salt-1', 'uid-c')}`,
+    'session-2/studentQuestions/uid-c',
+  ]);
+});
+
+test('exports records with full paths and plain timestamps, and counts them by collection', () => {
+  const subject = expandSubject(createSubject({ studentNumber: 'S001' }), rooms);
+  const liveRecords = collectLiveRecords(rooms, subject);
+  const when = new Date(Date.UTC(2026, 9, 1));
+  const firestoreRecords = [{ path: 'rewardRequests/req-1', data: { studentNumber: 'S001', requestedAt: { toDate: () => when } }, action: 'update' }];
+  const bundle = buildExportBundle({ ownerUid: 'teacher-1', subject, liveRecords, firestoreRecords }, when);
+
+  assert.equal(bundle.realtimeDatabase[0].path.startsWith('liveV2/teacher-1/session-1/'), true);
+  assert.deepEqual(bundle.firestore, [{ path: 'rewardRequests/req-1', data: { studentNumber: 'S001', requestedAt: when.toISOString() } }]);
+  assert.deepEqual(bundle.subject.deviceUids, ['uid-a', 'uid-c', 'uid-n']);
+  assert.deepEqual(recordCounts(liveRecords, firestoreRecords), {
+    'liveV2/archives/welcomeResponses': 1,
+    'liveV2/attendanceClaims': 3,
+    'liveV2/debateVotes': 1,
+    'firestore/rewardRequests': 1,
+    'liveV2/presence': 1,
+    'liveV2/pulseTallies': 1,
+    'liveV2/questionVotes': 1,
+    'liveV2/responses': 1,
+    'liveV2/studentQuestions': 1,
+  });
+});
+
+test('names the subject by a hash of what was entered, never the student number', () => {
+  const subject = createSubject({ studentNumber: 'S001' });
+  assert.equal(subjectHash('teacher-1', subject), subjectHash('teacher-1', createSubject({ studentNumber: 's-001' })));
+  assert.notEqual(subjectHash('teacher-1', subject), subjectHash('teacher-2', subject));
+  assert.match(pseudonymFor('teacher-1', subject), /^ERASED-[0-9A-F]{10}$/);
+  assert.doesNotMatch(pseudonymFor('teacher-1', subject), /S001/);
+});
+
+test('signs receipts so any edit or a different key fails verification', () => {
+  const receipt = signReceipt({ receiptId: 'r-1', ownerUid: 'teacher-1', counts: { 'liveV2/responses': 2 }, liveDeleted: 2 }, 'key-1');
+  assert.equal(receipt.algorithm, 'HMAC-SHA256');
+  assert.equal(verifyReceipt(receipt, 'key-1'), true);
+  assert.equal(verifyReceipt({ ...receipt, liveDeleted: 0 }, 'key-1'), false);
+  assert.equal(verifyReceipt({ ...receipt, counts: { 'liveV2/responses': 1 } }, 'key-1'), false);
+  assert.equal(verifyReceipt(receipt, 'key-2'), false);
+  assert.equal(verifyReceipt({ ...receipt, signature: undefined }, 'key-1'), false);
+});
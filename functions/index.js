@@ -1,6 +1,7 @@
 'use strict';
 
 const { initializeApp } = require('firebase-admin/app');
+const { getAuth } = require('firebase-admin/auth');
 const { getDatabase } = require('firebase-admin/database');
 const { FieldValue, Timestamp, getFirestore } = require('firebase-admin/firestore');
 const { defineSecret, defineString } = require('firebase-functions/params');
@@ -9,12 +10,76 @@ const { onDocumentCreated, onDocumentUpdated } = require('firebase-functions/v2/
 const { onSchedule } = require('firebase-functions/v2/scheduler');
 const Stripe = require('stripe');
 const { createHash, randomBytes } = require('node:crypto');
+const { resolveTxt } = require('node:dns/promises');
 const { renderWelcomeEmail, renderTeachingTeamWelcomeEmail, renderAfterClassReportEmail, renderWeeklyDigestEmail } = require('./email');
 const { collectSessionMetrics, collectWeeklyMetrics } = require('./reporting');
-const { isWeeklyDigestSendTime, localPeriodKey } = require('./scheduling');
-const { RETENTION_DAYS, collectExpiredRooms } = require('./retention');
+const {
+  MAX_GENERATED_SESSIONS,
+  isSessionIdle,
+  isValidTimeZone,
+  isWeeklyDigestSendTime,
+  localPeriodKey,
+  meetingOccurrences,
+  shouldOpenScheduledSession,
+} = require('./scheduling');
+const {
+  LIVE_CATEGORIES,
+  categoryRecordCounts,
+  courseEndsAt,
+  isExpired,
+  nextRetentionRun,
+  planRetention,
+  planSavedRetention,
+  resolveRetentionPolicy,
+  sessionLastActivityAt,
+} = require('./retention');
 const { accessSnapshot, canCreateCourse } = require('./billing');
+const { SCORED_INTERACTION_TYPES, choiceQuestionPoints, scoreResponse, validateSubmission } = require('./quiz-scoring');
+const { availablePoints, ledgerDeviceStanding, linkDevice, requestDevice, rewardEntryId, rewardLedgerId, rewardScopeFor, verifyRewardEvent } = require('./rewards');
+const {
+  buildExportBundle,
+  eraseStudentRecords,
+  findStudentRecords,
+  identityFingerprint,
+  normalizeStudentRecordId,
+  recordCounts,
+  signReceipt,
+  subjectHash,
+  subjectIdentities,
+} = require('./data-subject');
 const { sendPurchase } = require('./analytics');
+const { MOOD_KEYS, addPulseAnswer, publicPulseCounts, pulseMinimum } = require('./wellbeing-pulse');
+const {
+  cleanInstitutionDefaults,
+  cleanSsoSettings,
+  domainVerificationRecord,
+  domainVerificationToken,
+  emailDomain,
+  hasVerificationRecord,
+  normalizeDomain,
+  satisfiesSsoPolicy,
+  seatsAvailable,
+  sessionDefaults,
+  ssoPolicyClaim,
+} = require('./institution');
+const { SsoError, discoverOidc, exchangeCode, fetchJwks, oidcAuthorizationUrl, pkcePair, ssoIdentity, verifyIdToken } = require('./sso');
+const {
+  LtiError,
+  buildDeepLinkingResponse,
+  buildLoginRedirect,
+  buildScore,
+  decodeJwt,
+  ensureCourseLineItem,
+  launchTarget,
+  ltiKey,
+  parseLaunch,
+  postScore,
+  publicJwk,
+  requestAgsToken,
+  signJwt,
+  studentNumberForLaunch,
+  verifyJwt,
+} = require('./lti');
 
 initializeApp();
 
@@ -28,6 +93,12 @@ const stripeBillingEnabled = defineString('STRIPE_BILLING_ENABLED', { default: '
 // it; see docs/analytics-tracking-plan.md for creating the API secret.
 const ga4ApiSecret = defineSecret('GA4_API_SECRET');
 const ga4MeasurementId = defineString('GA4_MEASUREMENT_ID', { default: '' });
+// LTI 1.3 tool key. Platforms fetch the public half from ltiJwks; see docs/lti-setup.md.
+const ltiToolPrivateKey = defineSecret('LTI_TOOL_PRIVATE_KEY');
+const ltiToolKeyId = defineString('LTI_TOOL_KEY_ID', { default: 'classfully-lti-1' });
+const ltiLaunchUrl = defineString('LTI_LAUNCH_URL', { default: '' });
+// Signs the receipts issued when a student's data is erased; see PDPA_COMPLIANCE.md.
+const dataReceiptSigningKey = defineSecret('DATA_RECEIPT_SIGNING_KEY');
 const FUNCTION_REGION = 'asia-southeast1';
 const EMAIL_FROM = 'Classfully <no-reply@classfully.com>';
 const EMAIL_REPLY_TO = 'tareef@happily.ai';
@@ -38,6 +109,9 @@ function requireInstructor(request) {
   if (!request.auth?.uid || request.auth.token?.firebase?.sign_in_provider === 'anonymous') {
     throw new HttpsError('unauthenticated', 'Sign in with your instructor account to continue.');
   }
+  if (!satisfiesSsoPolicy(request.auth.token)) {
+    throw new HttpsError('permission-denied', 'Your institution requires single sign-on. Sign in again with your institution account.');
+  }
   return request.auth.uid;
 }
 
@@ -279,6 +353,11 @@ async function registerInstructorHandler(request) {
     return { teacherId, name: teacher.name || name, email: teacher.email || email, created: false };
   }
 
+  const institution = await institutionForEmail(getFirestore(), email);
+  if (institution && !satisfiesSsoPolicy({ ...request.auth.token, institutionId: institution.id, ssoPolicy: ssoPolicyClaim(institution) })) {
+    throw new HttpsError('permission-denied', `${institution.name} requires single sign-on. Choose Use single sign-on on the sign-in page.`);
+  }
+
   let signupContext = null;
   if (invitationToken) {
     const tokenHash = createHash('sha256').update(invitationToken).digest('hex');
@@ -314,6 +393,9 @@ async function registerInstructorHandler(request) {
     ...(photoURL ? { photoURL } : {}),
     ...(signupContext ? { signupContext } : {}),
   });
+  if (institution && canJoinInstitution(request.auth.token, institution)) {
+    await addInstitutionMember(getFirestore(), institution, teacherId, 'instructor');
+  }
   return { teacherId, name, email, created: true };
 }
 
@@ -710,6 +792,45 @@ exports.revokeTeachingTeamMember = onCall(
   revokeTeachingTeamMemberHandler,
 );
 
+// Opening a session counts it against the pilot allowance once, whether an instructor starts it
+// or its schedule opens it.
+function claimSessionStart(firestore, sessionRef, sessionOwnerUid) {
+  const teacherRef = firestore.collection('teachers').doc(sessionOwnerUid);
+  return firestore.runTransaction(async (transaction) => {
+    const [teacherSnapshot, sessionSnapshot] = await Promise.all([
+      transaction.get(teacherRef),
+      transaction.get(sessionRef),
+    ]);
+    if (!teacherSnapshot.exists || !sessionSnapshot.exists) throw new HttpsError('not-found', 'That session could not be found.');
+    const session = sessionSnapshot.data();
+    if (session.teacherId !== sessionOwnerUid) throw new HttpsError('permission-denied', 'This session belongs to another instructor.');
+    const teacher = teacherSnapshot.data();
+    const access = accessSnapshot(teacher.billing);
+    if (session.startedAt || session.billingSessionClaimedAt) {
+      if (!session.active) transaction.update(sessionRef, { active: true, lastActivityAt: Timestamp.now() });
+      return { alreadyCounted: true, billing: billingPayload(teacher) };
+    }
+    if (!access.canStartSession) {
+      throw new HttpsError('resource-exhausted', 'Your six-session pilot is complete. Choose a plan to start another live class.');
+    }
+
+    const now = Timestamp.now();
+    transaction.update(sessionRef, { active: true, startedAt: now, lastActivityAt: now, billingSessionClaimedAt: now });
+    if (!access.paid) {
+      transaction.set(teacherRef, {
+        billing: {
+          ...(teacher.billing || {}),
+          plan: 'pilot',
+          status: 'pilot',
+          pilotSessionsUsed: access.pilotSessionsUsed + 1,
+          updatedAt: now,
+        },
+      }, { merge: true });
+    }
+    return { alreadyCounted: false, billing: billingPayload({ ...teacher, billing: { ...(teacher.billing || {}), pilotSessionsUsed: access.paid ? access.pilotSessionsUsed : access.pilotSessionsUsed + 1 } }) };
+  });
+}
+
 exports.startInstructorSession = onCall(
   { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
   async (request) => {
@@ -723,41 +844,93 @@ exports.startInstructorSession = onCall(
     const sessionOwnerUid = sessionPreview.data().teacherId;
     const permission = await activeInstructorMembership(firestore, teacherId, sessionOwnerUid, sessionPreview.data().courseId, ['co-instructor']);
     if (!permission) throw new HttpsError('permission-denied', 'You do not have permission to run this class.');
-    const teacherRef = firestore.collection('teachers').doc(sessionOwnerUid);
+    return claimSessionStart(firestore, sessionRef, sessionOwnerUid);
+  },
+);
 
-    return firestore.runTransaction(async (transaction) => {
-      const [teacherSnapshot, sessionSnapshot] = await Promise.all([
-        transaction.get(teacherRef),
-        transaction.get(sessionRef),
-      ]);
-      if (!teacherSnapshot.exists || !sessionSnapshot.exists) throw new HttpsError('not-found', 'That session could not be found.');
-      const session = sessionSnapshot.data();
-      if (session.teacherId !== sessionOwnerUid) throw new HttpsError('permission-denied', 'This session belongs to another instructor.');
-      const teacher = teacherSnapshot.data();
-      const access = accessSnapshot(teacher.billing);
-      if (session.startedAt || session.billingSessionClaimedAt) {
-        if (!session.active) transaction.update(sessionRef, { active: true, lastActivityAt: Timestamp.now() });
-        return { alreadyCounted: true, billing: billingPayload(teacher) };
-      }
-      if (!access.canStartSession) {
-        throw new HttpsError('resource-exhausted', 'Your six-session pilot is complete. Choose a plan to start another live class.');
-      }
+const SESSION_CODE_CHARACTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LIVE_ROOM_LIFETIME_MS = 12 * 60 * 60 * 1000;
 
-      const now = Timestamp.now();
-      transaction.update(sessionRef, { active: true, startedAt: now, lastActivityAt: now, billingSessionClaimedAt: now });
-      if (!access.paid) {
-        transaction.set(teacherRef, {
-          billing: {
-            ...(teacher.billing || {}),
-            plan: 'pilot',
-            status: 'pilot',
-            pilotSessionsUsed: access.pilotSessionsUsed + 1,
-            updatedAt: now,
-          },
-        }, { merge: true });
-      }
-      return { alreadyCounted: false, billing: billingPayload({ ...teacher, billing: { ...(teacher.billing || {}), pilotSessionsUsed: access.paid ? access.pilotSessionsUsed : access.pilotSessionsUsed + 1 } }) };
+function generateSessionCode() {
+  const bytes = randomBytes(6);
+  return Array.from(bytes, (byte) => SESSION_CODE_CHARACTERS[byte % SESSION_CODE_CHARACTERS.length]).join('');
+}
+
+function joinCodePath(sessionCode) {
+  return `liveJoinCodes/${String(sessionCode || '').replace(/[^a-z0-9]/gi, '').toUpperCase()}`;
+}
+
+exports.generateCourseSessions = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const userUid = requireInstructor(request);
+    const courseId = cleanString(request.data?.courseId, 160);
+    if (!courseId) throw new HttpsError('invalid-argument', 'Choose the class to schedule.');
+    const firestore = getFirestore();
+    const courseSnapshot = await firestore.collection('courses').doc(courseId).get();
+    if (!courseSnapshot.exists) throw new HttpsError('not-found', 'That class could not be found.');
+    const course = courseSnapshot.data();
+    if (course.archived) throw new HttpsError('failed-precondition', 'Archived classes cannot be scheduled.');
+    const ownerUid = course.teacherId;
+    if (userUid !== ownerUid && !(await activeInstructorMembership(firestore, userUid, ownerUid, courseId, ['co-instructor']))) {
+      throw new HttpsError('permission-denied', 'You do not have permission to schedule this class.');
+    }
+
+    const pattern = course.meetingPattern;
+    if (!pattern?.weekdays?.length || !pattern.startTime || !pattern.startDate || !pattern.endDate) {
+      throw new HttpsError('failed-precondition', 'Save the meeting days, time and term dates first.');
+    }
+    const ownerRef = firestore.collection('teachers').doc(ownerUid);
+    let timeZone = (await ownerRef.get()).data()?.timeZone;
+    // Time zones are otherwise only saved with email preferences, so an owner scheduling for the
+    // first time adopts the browser's zone.
+    const browserTimeZone = cleanString(request.data?.timeZone, 80);
+    if (!timeZone && userUid === ownerUid && browserTimeZone && isValidTimeZone(browserTimeZone)) {
+      timeZone = browserTimeZone;
+      await ownerRef.set({ timeZone }, { merge: true });
+    }
+    if (!timeZone || !isValidTimeZone(timeZone)) {
+      throw new HttpsError('failed-precondition', 'The class owner needs to set a time zone in account settings before sessions can be scheduled.');
+    }
+
+    const occurrences = meetingOccurrences(pattern, timeZone, { limit: MAX_GENERATED_SESSIONS });
+    const existingSnapshot = await firestore.collection('sessions').where('courseId', '==', courseId).get();
+    const scheduledDates = new Set(existingSnapshot.docs.map((document) => document.data().meetingDate).filter(Boolean));
+    const pending = occurrences.filter((occurrence) => !scheduledDates.has(occurrence.meetingDate));
+    const templates = Array.isArray(course.interactionTemplates) ? course.interactionTemplates : [];
+    const dateLabel = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' });
+
+    const batch = firestore.batch();
+    const createdAt = Timestamp.now();
+    pending.forEach((occurrence) => {
+      const sessionRef = firestore.collection('sessions').doc();
+      batch.set(sessionRef, {
+        sessionType: 'standalone',
+        title: `${course.name || 'Class'} · ${dateLabel.format(occurrence.startsAt)}`,
+        sessionCode: generateSessionCode(),
+        courseId,
+        courseCode: course.code || '',
+        rewardScopeId: course.rewardScopeId || course.code || '',
+        courseName: course.name || '',
+        teacherId: ownerUid,
+        presentationMode: 'external',
+        interactions: templates.map((interaction, index) => ({ ...interaction, id: `session-${interaction.type}-${createdAt.toMillis()}-${index}` })),
+        scheduledFor: occurrence.scheduledFor,
+        opensAt: Timestamp.fromDate(occurrence.startsAt),
+        autoOpen: pattern.autoOpen === true,
+        ...(pattern.idleCloseMinutes ? { idleCloseMinutes: pattern.idleCloseMinutes } : {}),
+        meetingDate: occurrence.meetingDate,
+        draft: true,
+        active: false,
+        studentsJoined: [],
+        releasedSections: [],
+        currentReleasedSection: -1,
+        sections: [],
+        createdAt,
+      });
     });
+    if (pending.length) await batch.commit();
+    return { created: pending.length, skipped: occurrences.length - pending.length, timeZone };
   },
 );
 
@@ -841,6 +1014,8 @@ exports.claimStudentAttendance = onCall(
         updatedAt: now,
         ...(participationMode !== 'anonymous' ? { privacyNoticeVersion: '2026-08-08', privacyNoticeAcknowledgedAt: now } : {}),
         ...(current?.participatedAt ? { participatedAt: current.participatedAt } : {}),
+        // Keep the roster match an instructor made for this nickname when the student rejoins.
+        ...(participationMode === 'session-name' && current?.rosterStudentNumber ? { rosterStudentNumber: current.rosterStudentNumber, ...(current.rosterStudentId ? { rosterStudentId: current.rosterStudentId } : {}) } : {}),
       };
     }, undefined, false);
     const claim = result.snapshot.val();
@@ -851,178 +1026,1138 @@ exports.claimStudentAttendance = onCall(
   },
 );
 
-async function teacherForStripeCustomer(customerId, metadata = {}) {
-  const firestore = getFirestore();
-  const firebaseUid = metadata.firebaseUid;
-  if (firebaseUid) return firestore.collection('teachers').doc(firebaseUid);
-  const snapshot = await firestore.collection('teachers').where('billing.stripeCustomerId', '==', customerId).limit(1).get();
-  return snapshot.empty ? null : snapshot.docs[0].ref;
-}
-
-async function applyStripeSubscription(subscription, eventCreatedAt = 0) {
-  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer?.id;
-  if (!customerId) return;
-  const item = subscription.items?.data?.[0];
-  const plan = subscription.metadata?.classfullyPlan || planFromPriceId(item?.price?.id);
-  if (!plan) throw new Error(`Unknown Classfully price ${item?.price?.id || 'without an ID'}.`);
-  const teacherRef = await teacherForStripeCustomer(customerId, subscription.metadata || {});
-  if (!teacherRef) throw new Error(`No Classfully instructor found for Stripe customer ${customerId}.`);
-  const teacherSnapshot = await teacherRef.get();
-  const currentBilling = teacherSnapshot.data()?.billing || {};
-  if (eventCreatedAt && Number(currentBilling.lastStripeEventCreated || 0) > eventCreatedAt) return;
-  const status = stripeStatus(subscription.status);
-  const periodEndSeconds = item?.current_period_end || subscription.current_period_end;
-  const graceEndsAt = status === 'past_due'
-    ? currentBilling.status === 'past_due' && currentBilling.graceEndsAt
-      ? currentBilling.graceEndsAt
-      : Timestamp.fromMillis(Date.now() + 7 * 24 * 60 * 60 * 1000)
-    : null;
-  await teacherRef.set({
-    billing: {
-      ...currentBilling,
-      plan,
-      status,
-      stripeCustomerId: customerId,
-      stripeSubscriptionId: subscription.id,
-      stripePriceId: item?.price?.id || null,
-      currentPeriodEnd: dateTimestamp(periodEndSeconds),
-      cancelAtPeriodEnd: Boolean(subscription.cancel_at_period_end),
-      graceEndsAt,
-      lastStripeEventCreated: eventCreatedAt || currentBilling.lastStripeEventCreated || 0,
-      updatedAt: Timestamp.now(),
-    },
-  }, { merge: true });
-}
-
-exports.stripeBillingWebhook = onRequest(
-  { region: FUNCTION_REGION, secrets: [stripeRestrictedKey, stripeWebhookSecret, stripeTermPriceId, stripeAnnualPriceId, ga4ApiSecret], cors: false },
-  async (request, response) => {
-    if (request.method !== 'POST') {
-      response.status(405).send('Method not allowed');
-      return;
-    }
-    const signature = request.headers['stripe-signature'];
-    if (!signature) {
-      response.status(400).send('Missing Stripe signature');
-      return;
+// Knowledge check answers go through the server so the receipt time, not the browser clock,
+// decides the speed bonus. Students cannot write quiz responses to the database directly.
+exports.submitLiveQuizResponse = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const studentUid = request.auth?.uid;
+    if (!studentUid || request.auth.token?.firebase?.sign_in_provider !== 'anonymous') {
+      throw new HttpsError('unauthenticated', 'Join from the student class page to continue.');
     }
-    let event;
-    try {
-      event = stripeClient().webhooks.constructEvent(request.rawBody, signature, stripeWebhookSecret.value());
-    } catch (error) {
-      console.warn('Stripe webhook signature rejected.', error instanceof Error ? error.message : error);
-      response.status(400).send('Invalid signature');
-      return;
+    const ownerUid = cleanString(request.data?.ownerUid, 160);
+    const sessionId = cleanString(request.data?.sessionId, 160);
+    const runId = cleanString(request.data?.runId, 240);
+    const optionIndex = Number(request.data?.optionIndex);
+    if (!ownerUid || !sessionId || !runId) throw new HttpsError('invalid-argument', 'This class link is incomplete.');
+
+    const roomRef = getDatabase().ref(`liveV2/${ownerUid}/${sessionId}`);
+    const [metaSnapshot, stateSnapshot] = await Promise.all([
+      roomRef.child('meta').once('value'),
+      roomRef.child('publicState').once('value'),
+    ]);
+    const meta = metaSnapshot.val();
+    if (meta?.status !== 'live' || !(Number(meta.expiresAt) >= Date.now())) {
+      throw new HttpsError('failed-precondition', 'This class is not open for students right now.');
     }
+    const publicState = stateSnapshot.val();
+    const problem = validateSubmission(publicState, runId, optionIndex);
+    if (problem) throw new HttpsError('failed-precondition', problem);
 
-    const eventRef = getFirestore().collection('stripeWebhookEvents').doc(event.id);
-    const claimed = await getFirestore().runTransaction(async (transaction) => {
-      const snapshot = await transaction.get(eventRef);
-      const current = snapshot.data();
-      const updatedAt = current?.updatedAt?.toMillis?.() || 0;
-      const activeClaim = current?.status === 'processing' && Date.now() - updatedAt < 15 * 60 * 1000;
-      if (current?.status === 'processed' || activeClaim) return false;
-      transaction.set(eventRef, { type: event.type, status: 'processing', updatedAt: Timestamp.now() }, { merge: true });
-      return true;
-    });
-    if (!claimed) {
-      response.status(200).json({ received: true, duplicate: true });
-      return;
+    const result = await roomRef.child(`responses/${runId}/${studentUid}`).transaction((current) => {
+      if (current) return;
+      return {
+        id: `${runId}:${studentUid}`,
+        runId,
+        interactionId: publicState.activeInteraction.id,
+        studentUid,
+        optionIndex,
+        submittedAt: Date.now(),
+      };
+    }, undefined, false);
+    return result.snapshot.val();
+  },
+);
+
+// Classes with anonymous pulses keep no per-student welcome answers: the answer goes into a private
+// tally and instructors read only breakdowns of at least the class's minimum group size.
+exports.submitAnonymousPulse = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const studentUid = requireStudent(request);
+    const ownerUid = cleanString(request.data?.ownerUid, 160);
+    const sessionId = cleanString(request.data?.sessionId, 160);
+    const runId = Number(request.data?.runId);
+    const mood = cleanString(request.data?.mood, 32);
+    if (!ownerUid || !sessionId || !Number.isSafeInteger(runId) || runId <= 0) throw new HttpsError('invalid-argument', 'This class link is incomplete.');
+    if (!MOOD_KEYS.includes(mood)) throw new HttpsError('invalid-argument', 'Choose one of the pulse answers.');
+
+    const roomRef = getDatabase().ref(`liveV2/${ownerUid}/${sessionId}`);
+    const [metaSnapshot, stateSnapshot] = await Promise.all([
+      roomRef.child('meta').once('value'),
+      roomRef.child('publicState').once('value'),
+    ]);
+    const meta = metaSnapshot.val();
+    if (meta?.status !== 'live' || !(Number(meta.expiresAt) >= Date.now())) {
+      throw new HttpsError('failed-precondition', 'This class is not open for students right now.');
+    }
+    if (meta.anonymousPulse !== true) throw new HttpsError('failed-precondition', 'This class is not running anonymous pulses.');
+    const publicState = stateSnapshot.val();
+    if (publicState?.onboardingStep !== 3 || Number(publicState.onboardingRunId) !== runId) {
+      throw new HttpsError('failed-precondition', 'This pulse has closed.');
     }
 
-    try {
-      if (event.type.startsWith('customer.subscription.')) {
-        await applyStripeSubscription(event.data.object, event.created);
-      } else if (event.type === 'checkout.session.completed' && event.data.object.subscription) {
-        const subscription = typeof event.data.object.subscription === 'string'
-          ? await stripeClient().subscriptions.retrieve(event.data.object.subscription)
-          : event.data.object.subscription;
-        await applyStripeSubscription(subscription, event.created);
-        // After the subscription is applied, and never allowed to fail the
-        // webhook: a retry would re-run the write that already succeeded.
-        await sendPurchase(event.data.object, {
-          measurementId: ga4MeasurementId.value(),
-          apiSecret: ga4ApiSecret.value(),
+    const minimum = pulseMinimum(meta.pulseMinimum);
+    const result = await roomRef.child(`pulseTallies/${runId}`).transaction(
+      (current) => addPulseAnswer(current, studentUid, mood, minimum),
+      undefined,
+      false,
+    );
+    if (!result.committed) throw new HttpsError('already-exists', 'Your pulse is already counted.');
+
+    const summary = publicPulseCounts(result.snapshot.val(), minimum);
+    await roomRef.child(`pulseCounts/${runId}`).transaction((current) => (
+      current && Number(current.received) >= summary.received ? undefined : summary
+    ), undefined, false);
+    // Saved on the session so the next class can compare against it without any per-student record.
+    if (summary.total && summary.total === summary.received) {
+      const sessionRef = getFirestore().collection('sessions').doc(sessionId);
+      const session = await sessionRef.get();
+      if (session.exists && session.data().teacherId === ownerUid) {
+        await sessionRef.update({
+          wellbeingPulse: { runId, counts: summary.counts, total: summary.total, minimum, anonymous: true, recordedAt: Timestamp.now() },
         });
       }
-      await eventRef.set({ status: 'processed', processedAt: Timestamp.now(), updatedAt: Timestamp.now() }, { merge: true });
-      response.status(200).json({ received: true });
-    } catch (error) {
-      await eventRef.set({ status: 'failed', error: error instanceof Error ? error.message.slice(0, 500) : 'Unknown webhook error', updatedAt: Timestamp.now() }, { merge: true });
-      console.error(`Stripe webhook ${event.id} failed.`, error);
-      response.status(500).send('Webhook processing failed');
     }
+    return { counted: true };
   },
 );
 
-exports.sendInstructorWelcome = onDocumentCreated(
-  {
-    document: 'teachers/{teacherId}',
-    region: FUNCTION_REGION,
-    secrets: [postmarkServerToken],
-    retry: true,
-  },
-  async (event) => {
-    const teacher = event.data?.data();
-    if (!teacher?.email) return;
-    if (teacher.signupContext?.source === 'teaching-team-invitation') return;
-    const teacherId = event.params.teacherId;
-    await deliverEmail({
-      deliveryId: `welcome_${teacherId}`,
-      teacherId,
-      to: teacher.email,
-      email: renderWelcomeEmail({ recipientName: teacher.name || 'there' }),
-      tag: 'instructor-welcome',
-      metadata: { teacherId },
+// Runs when an instructor reveals a knowledge check. Awards land in quizAwards, which students can
+// read but only this function writes; calling it again for the same run changes nothing.
+exports.scoreLiveQuizRun = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const instructorUid = requireInstructor(request);
+    const ownerUid = cleanString(request.data?.ownerUid, 160);
+    const sessionId = cleanString(request.data?.sessionId, 160);
+    const runId = cleanString(request.data?.runId, 240);
+    if (!ownerUid || !sessionId || !runId) throw new HttpsError('invalid-argument', 'Choose the question to score.');
+
+    const roomRef = getDatabase().ref(`liveV2/${ownerUid}/${sessionId}`);
+    const [metaSnapshot, stateSnapshot, answerKeySnapshot, responsesSnapshot, awardsSnapshot] = await Promise.all([
+      roomRef.child('meta').once('value'),
+      roomRef.child('publicState').once('value'),
+      roomRef.child(`answerKeys/${runId}`).once('value'),
+      roomRef.child(`responses/${runId}`).once('value'),
+      roomRef.child('quizAwards').once('value'),
+    ]);
+    const meta = metaSnapshot.val();
+    if (!meta) throw new HttpsError('not-found', 'This live class could not be found.');
+    const permission = await activeInstructorMembership(getFirestore(), instructorUid, ownerUid, meta.courseId, ['co-instructor']);
+    if (!permission) throw new HttpsError('permission-denied', 'You do not have permission to run this class.');
+
+    const publicState = stateSnapshot.val();
+    const interaction = publicState?.activeInteraction;
+    const results = publicState?.interactionResults;
+    const answerKey = answerKeySnapshot.val();
+    if (!interaction || !SCORED_INTERACTION_TYPES.includes(interaction.type) || results?.runId !== runId || results.revealed !== true) {
+      throw new HttpsError('failed-precondition', 'Reveal the answer before scoring this question.');
+    }
+    if (!answerKey || answerKey.interactionId !== interaction.id) {
+      throw new HttpsError('failed-precondition', 'This question has no answer key. Relaunch it to score answers.');
+    }
+
+    const existingAwards = awardsSnapshot.val() || {};
+    const updates = {};
+    const createdAt = Date.now();
+    Object.entries(responsesSnapshot.val() || {}).forEach(([studentUid, response]) => {
+      const awards = scoreResponse({ interaction, answerKey, startedAt: answerKey.openedAt ?? results.startedAt, response });
+      Object.entries(awards).forEach(([kind, award]) => {
+        const eventId = `${runId}:${kind}`;
+        if (existingAwards[studentUid]?.[eventId]) return;
+        updates[`quizAwards/${studentUid}/${eventId}`] = { runId, amount: award.amount, label: award.label, createdAt };
+      });
     });
+    if (Object.keys(updates).length) await roomRef.update(updates);
+    return { awarded: Object.keys(updates).length };
   },
 );
 
-exports.sendAfterClassReport = onDocumentUpdated(
-  {
-    document: 'sessions/{sessionId}',
-    region: FUNCTION_REGION,
-    secrets: [postmarkServerToken],
-    retry: true,
-  },
-  async (event) => {
-    const before = event.data?.before.data() || {};
-    const session = event.data?.after.data() || {};
-    const closedNow = session.active === false && session.endedAt && (before.active !== false || !before.endedAt);
-    if (!closedNow || !session.teacherId) return;
+const REWARD_LEDGERS = 'rewardLedgers';
+const REWARD_REQUESTS = 'rewardRequests';
+const RTDB_KEY_PATTERN = /^[^.#$[\]/]+$/;
 
-    const teacherSnapshot = await getFirestore().collection('teachers').doc(session.teacherId).get();
-    const teacher = teacherSnapshot.data();
-    if (!teacher?.email || !notificationPreferences(teacher).afterClassReport) return;
+function requireStudent(request) {
+  if (!request.auth?.uid || request.auth.token?.firebase?.sign_in_provider !== 'anonymous') {
+    throw new HttpsError('unauthenticated', 'Join from the student class page to continue.');
+  }
+  return request.auth.uid;
+}
 
-    const sessionId = event.params.sessionId;
-    const report = await loadSessionReport(sessionId, session);
-    const email = renderAfterClassReportEmail({
-      recipientName: teacher.name || 'there',
-      courseCode: report.courseCode,
-      courseName: report.courseName,
-      sessionTitle: report.sessionTitle,
-      sessionDate: formatDate(report.endedAt, teacher.timeZone || 'UTC'),
-      metrics: report.metrics,
-      insightTitle: report.insightTitle,
-      insightBody: report.insightBody,
-      actions: report.actions,
-      dashboardUrl: `https://classfully.com/dashboard/sessions/${sessionId}`,
+/**
+ * The live room and reward ledger for the calling device. Points are kept for students who joined with
+ * their student number; the number comes from the server-written attendance claim, never the request.
+ */
+async function studentRewardContext(request) {
+  const studentUid = requireStudent(request);
+  const ownerUid = cleanString(request.data?.ownerUid, 160);
+  const sessionId = cleanString(request.data?.sessionId, 160);
+  if (!ownerUid || !sessionId || !RTDB_KEY_PATTERN.test(ownerUid) || !RTDB_KEY_PATTERN.test(sessionId)) {
+    throw new HttpsError('invalid-argument', 'This class link is incomplete.');
+  }
+  const roomRef = getDatabase().ref(`liveV2/${ownerUid}/${sessionId}`);
+  const [metaSnapshot, claimSnapshot] = await Promise.all([
+    roomRef.child('meta').once('value'),
+    roomRef.child(`attendanceClaims/${studentUid}`).once('value'),
+  ]);
+  const meta = metaSnapshot.val();
+  if (meta?.status !== 'live' || !(Number(meta.expiresAt) >= Date.now())) {
+    throw new HttpsError('failed-precondition', 'This class is not open for students right now.');
+  }
+  const claim = claimSnapshot.val();
+  if ((meta.participationMode || 'course-record') !== 'course-record' || claim?.participationMode !== 'course-record' || !claim.studentNumber) {
+    throw new HttpsError('failed-precondition', 'Points are saved for students who join with their student number.');
+  }
+  const rewardScopeId = rewardScopeFor(meta, sessionId);
+  const ledgerRef = getFirestore().collection(REWARD_LEDGERS).doc(rewardLedgerId(ownerUid, rewardScopeId, claim.studentNumber));
+  return { studentUid, ownerUid, sessionId, meta, claim, roomRef, rewardScopeId, ledgerRef };
+}
+
+function rewardLedgerFields(context, current, now) {
+  return {
+    teacherId: context.ownerUid,
+    rewardScopeId: context.rewardScopeId,
+    courseId: context.meta.courseId || current?.courseId || '',
+    courseCode: context.meta.courseCode || current?.courseCode || '',
+    studentNumber: context.claim.studentNumber,
+    ...(context.claim.studentDisplayName ? { studentDisplayName: context.claim.studentDisplayName } : {}),
+    // The first device starts the ledger. Later devices are added only when the instructor approves them.
+    deviceUids: current ? current.deviceUids || [] : [context.studentUid],
+    seminarPoints: Number(current?.seminarPoints) || 0,
+    classScore: Number(current?.classScore) || 0,
+    spentPoints: Number(current?.spentPoints) || 0,
+    createdAt: current?.createdAt || now,
+    updatedAt: now,
+  };
+}
+
+function ledgerRequestsQuery(firestore, ledgerId) {
+  return firestore.collection(REWARD_REQUESTS).where('ledgerId', '==', ledgerId);
+}
+
+function requireLinkedDevice(context, ledger) {
+  if (ledgerDeviceStanding(ledger, context.studentUid) === 'pending') {
+    throw new HttpsError('failed-precondition', 'Your instructor needs to approve this device before it can use the points saved for your student number.');
+  }
+}
+
+// Links this device to the student's ledger for the room's reward scope. A device that finds a ledger
+// it is not on joins the instructor's approval queue instead, so typing a classmate's student number
+// does not reveal or spend their points.
+exports.linkStudentRewardLedger = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const context = await studentRewardContext(request);
+    const firestore = getFirestore();
+    const deviceUids = await firestore.runTransaction(async (transaction) => {
+      const [ledgerSnapshot, requestsSnapshot] = await Promise.all([
+        transaction.get(context.ledgerRef),
+        transaction.get(ledgerRequestsQuery(firestore, context.ledgerRef.id)),
+      ]);
+      const ledger = ledgerSnapshot.data();
+      const now = Timestamp.now();
+      if (ledgerDeviceStanding(ledger, context.studentUid) === 'pending') {
+        transaction.update(context.ledgerRef, {
+          pendingDevices: requestDevice(ledger.pendingDevices, {
+            uid: context.studentUid,
+            ...(context.claim.studentDisplayName ? { studentDisplayName: context.claim.studentDisplayName } : {}),
+            requestedAt: now,
+          }),
+        });
+        return null;
+      }
+      const fields = rewardLedgerFields(context, ledger, now);
+      transaction.set(context.ledgerRef, fields, { merge: true });
+      requestsSnapshot.docs.forEach((requestDoc) => transaction.update(requestDoc.ref, { deviceUids: fields.deviceUids }));
+      return fields.deviceUids;
     });
-    await deliverEmail({
-      deliveryId: `after-class_${sessionId}_${session.teacherId}`,
-      teacherId: session.teacherId,
-      to: teacher.email,
-      email,
-      tag: 'after-class-report',
-      metadata: { teacherId: session.teacherId, sessionId },
+    return deviceUids
+      ? { ledgerId: context.ledgerRef.id, pending: false, devices: deviceUids.length }
+      : { ledgerId: '', pending: true, devices: 0 };
+  },
+);
+
+// The instructor confirms a waiting device belongs to the student before it can see or spend their points.
+exports.reviewRewardLedgerDevice = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const instructorUid = requireInstructor(request);
+    const ledgerId = cleanString(request.data?.ledgerId, 160);
+    const deviceUid = cleanString(request.data?.deviceUid, 160);
+    const decision = cleanString(request.data?.decision, 16);
+    if (!ledgerId || ledgerId.includes('/') || !deviceUid || !['approve', 'decline'].includes(decision)) {
+      throw new HttpsError('invalid-argument', 'Choose whether to approve this device.');
+    }
+    const firestore = getFirestore();
+    const ledgerRef = firestore.collection(REWARD_LEDGERS).doc(ledgerId);
+    const deviceUids = await firestore.runTransaction(async (transaction) => {
+      const [ledgerSnapshot, requestsSnapshot] = await Promise.all([
+        transaction.get(ledgerRef),
+        transaction.get(ledgerRequestsQuery(firestore, ledgerId)),
+      ]);
+      const ledger = ledgerSnapshot.data();
+      if (!ledgerSnapshot.exists) throw new HttpsError('not-found', 'This student ledger could not be found.');
+      if (ledger.teacherId !== instructorUid) throw new HttpsError('permission-denied', 'This ledger belongs to another instructor.');
+      const waiting = Array.isArray(ledger.pendingDevices) ? ledger.pendingDevices : [];
+      const pendingDevices = waiting.filter((device) => device.uid !== deviceUid);
+      if (pendingDevices.length === waiting.length) {
+        throw new HttpsError('failed-precondition', 'This device is no longer waiting for approval. Refresh to see the latest.');
+      }
+      const linked = decision === 'approve' ? linkDevice(ledger.deviceUids, deviceUid) : ledger.deviceUids || [];
+      transaction.update(ledgerRef, { pendingDevices, deviceUids: linked, updatedAt: Timestamp.now() });
+      if (decision === 'approve') requestsSnapshot.docs.forEach((requestDoc) => transaction.update(requestDoc.ref, { deviceUids: linked }));
+      return linked;
     });
+    return { decision, devices: deviceUids.length };
   },
 );
 
-exports.sendWeeklyInstructorDigests = onSchedule(
-  {
-    schedule: '5 * * * *',
+// Records one reward event. The amount is worked out here from the live room, and the entry id is a hash
+// of the event key, so a retry or a second device claiming the same moment changes nothing.
+exports.recordStudentReward = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const context = await studentRewardContext(request);
+    const eventKey = cleanString(request.data?.eventKey, 300);
+    const runId = eventKey.slice(0, eventKey.lastIndexOf(':'));
+    if (!runId || !RTDB_KEY_PATTERN.test(runId)) throw new HttpsError('invalid-argument', 'Choose the reward to record.');
+
+    const { roomRef, studentUid, sessionId, ledgerRef } = context;
+    const [stateSnapshot, responseSnapshot, quizAwardsSnapshot, questionClaimsSnapshot, debateArgumentsSnapshot] = await Promise.all([
+      roomRef.child('publicState').once('value'),
+      roomRef.child(`responses/${runId}/${studentUid}`).once('value'),
+      roomRef.child(`quizAwards/${studentUid}`).once('value'),
+      roomRef.child(`questionPointClaims/${studentUid}`).once('value'),
+      roomRef.child(`debateArguments/${runId}/${studentUid}`).once('value'),
+    ]);
+    const entryKey = `${sessionId}:${eventKey}`;
+    const entryRef = ledgerRef.collection('entries').doc(rewardEntryId(entryKey));
+    const predictionRef = ledgerRef.collection('entries').doc(rewardEntryId(`${sessionId}:${runId}:prediction`));
+
+    const firestore = getFirestore();
+    const result = await firestore.runTransaction(async (transaction) => {
+      const [ledgerSnapshot, entrySnapshot, predictionSnapshot] = await Promise.all([
+        transaction.get(ledgerRef),
+        transaction.get(entryRef),
+        transaction.get(predictionRef),
+      ]);
+      requireLinkedDevice(context, ledgerSnapshot.data());
+      if (entrySnapshot.exists) return { created: false, entry: entrySnapshot.data() };
+      const verdict = verifyRewardEvent(eventKey, {
+        publicState: stateSnapshot.val(),
+        response: responseSnapshot.val(),
+        quizAwards: quizAwardsSnapshot.val() || {},
+        questionClaims: questionClaimsSnapshot.val() || {},
+        debateArguments: debateArgumentsSnapshot.val() || {},
+        prediction: predictionSnapshot.data(),
+        optionIndex: request.data?.optionIndex,
+      });
+      if (verdict.error) throw new HttpsError('failed-precondition', verdict.error);
+
+      const now = Timestamp.now();
+      const entry = { eventKey: entryKey, sessionId, ...verdict.award, createdAt: now };
+      const fields = rewardLedgerFields(context, ledgerSnapshot.data(), now);
+      transaction.set(entryRef, entry);
+      transaction.set(ledgerRef, {
+        ...fields,
+        seminarPoints: fields.seminarPoints + (entry.balance === 'seminar' ? entry.amount : 0),
+        classScore: fields.classScore + (entry.balance === 'score' ? entry.amount : 0),
+      }, { merge: true });
+      return { created: true, entry };
+    });
+    return {
+      created: result.created,
+      entry: { id: entryRef.id, eventKey: result.entry.eventKey, balance: result.entry.balance, amount: result.entry.amount, label: result.entry.label, createdAt: result.entry.createdAt.toMillis() },
+    };
+  },
+);
+
+// Students ask for a reward against their ledger balance. Points already held by other open requests
+// cannot be spent twice, and the balance recorded on the request is the server's, not the browser's.
+exports.requestStudentReward = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const context = await studentRewardContext(request);
+    const rewardId = cleanString(request.data?.rewardId, 160);
+    if (!rewardId || rewardId.includes('/')) throw new HttpsError('invalid-argument', 'Choose the reward you want.');
+    const firestore = getFirestore();
+    const rewardSnapshot = await firestore.collection('rewardDefinitions').doc(rewardId).get();
+    const reward = rewardSnapshot.data();
+    if (!rewardSnapshot.exists || reward.enabled !== true || reward.teacherId !== context.ownerUid
+      || (reward.courseId !== context.meta.courseId && reward.courseCode !== context.meta.courseCode)) {
+      throw new HttpsError('not-found', 'This reward is no longer available.');
+    }
+
+    const requestRef = firestore.collection(REWARD_REQUESTS).doc();
+    await firestore.runTransaction(async (transaction) => {
+      const [ledgerSnapshot, requestsSnapshot] = await Promise.all([
+        transaction.get(context.ledgerRef),
+        transaction.get(ledgerRequestsQuery(firestore, context.ledgerRef.id)),
+      ]);
+      requireLinkedDevice(context, ledgerSnapshot.data());
+      const requests = requestsSnapshot.docs.map((requestDoc) => ({ id: requestDoc.id, ...requestDoc.data() }));
+      const sameReward = requests.filter((item) => item.rewardId === rewardId);
+      if (sameReward.some((item) => item.status === 'pending' || item.status === 'approved')) {
+        throw new HttpsError('already-exists', 'You already have an active request for this reward.');
+      }
+      if (sameReward.filter((item) => item.status === 'used').length >= (Number(reward.limitPerStudent) || 1)) {
+        throw new HttpsError('failed-precondition', 'You have already used the available limit for this reward.');
+      }
+      const now = Timestamp.now();
+      const fields = rewardLedgerFields(context, ledgerSnapshot.data(), now);
+      const available = availablePoints(fields, requests);
+      if (available < reward.pointsRequired) {
+        throw new HttpsError('failed-precondition', `You need ${reward.pointsRequired - available} more points to request this reward.`);
+      }
+      transaction.set(context.ledgerRef, fields, { merge: true });
+      transaction.set(requestRef, {
+        authorUid: context.studentUid,
+        deviceUids: fields.deviceUids,
+        ledgerId: context.ledgerRef.id,
+        teacherId: context.ownerUid,
+        courseId: reward.courseId,
+        courseCode: reward.courseCode,
+        studentNumber: fields.studentNumber,
+        ...(fields.studentDisplayName ? { studentDisplayName: fields.studentDisplayName } : {}),
+        rewardId,
+        rewardName: reward.name,
+        pointsRequired: reward.pointsRequired,
+        pointsAtRequest: fields.seminarPoints,
+        status: 'pending',
+        requestedAt: now,
+      });
+    });
+    return { requestId: requestRef.id };
+  },
+);
+
+// Approving checks the ledger can still cover the reward; marking it used spends the points with a
+// redemption entry. Requests made before the server ledger only change status.
+exports.reviewStudentRewardRequest = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const instructorUid = requireInstructor(request);
+    const requestId = cleanString(request.data?.requestId, 160);
+    const status = cleanString(request.data?.status, 16);
+    const instructorNote = cleanString(request.data?.instructorNote, 500);
+    if (!requestId || requestId.includes('/') || !['approved', 'declined', 'used'].includes(status)) {
+      throw new HttpsError('invalid-argument', 'Choose how to answer this request.');
+    }
+    const firestore = getFirestore();
+    const requestRef = firestore.collection(REWARD_REQUESTS).doc(requestId);
+    await firestore.runTransaction(async (transaction) => {
+      const requestSnapshot = await transaction.get(requestRef);
+      const rewardRequest = requestSnapshot.data();
+      if (!requestSnapshot.exists) throw new HttpsError('not-found', 'This reward request could not be found.');
+      if (rewardRequest.teacherId !== instructorUid) throw new HttpsError('permission-denied', 'This request belongs to another instructor.');
+      if (rewardRequest.status !== (status === 'used' ? 'approved' : 'pending')) {
+        throw new HttpsError('failed-precondition', 'This request has already been reviewed. Refresh to see its status.');
+      }
+      const ledgerRef = rewardRequest.ledgerId ? firestore.collection(REWARD_LEDGERS).doc(rewardRequest.ledgerId) : null;
+      const [ledgerSnapshot, requestsSnapshot] = ledgerRef
+        ? await Promise.all([transaction.get(ledgerRef), transaction.get(ledgerRequestsQuery(firestore, rewardRequest.ledgerId))])
+        : [null, null];
+      const ledger = ledgerSnapshot?.data();
+      const now = Timestamp.now();
+      if (ledger && status === 'approved') {
+        const requests = requestsSnapshot.docs.map((requestDoc) => ({ id: requestDoc.id, ...requestDoc.data() }));
+        const available = availablePoints(ledger, requests, requestId);
+        if (available < rewardRequest.pointsRequired) {
+          throw new HttpsError('failed-precondition', `This student has ${available} points available, short of the ${rewardRequest.pointsRequired} this reward needs.`);
+        }
+      }
+      if (ledger && status === 'used') {
+        const amount = Number(rewardRequest.pointsRequired) || 0;
+        const eventKey = `redemption:${requestId}`;
+        transaction.set(ledgerRef.collection('entries').doc(rewardEntryId(eventKey)), {
+          eventKey,
+          balance: 'seminar',
+          amount: -amount,
+          label: `Used ${rewardRequest.rewardName}`,
+          createdAt: now,
+        });
+        transaction.update(ledgerRef, {
+          seminarPoints: Math.max(0, (Number(ledger.seminarPoints) || 0) - amount),
+          spentPoints: (Number(ledger.spentPoints) || 0) + amount,
+          updatedAt: now,
+        });
+      }
+      transaction.update(requestRef, { status, reviewedAt: now, instructorNote });
+    });
+    return { status };
+  },
+);
+
+const DATA_SUBJECT_REQUESTS = 'dataSubjectRequests';
+
+/**
+ * The workspace and student a data request is about. Requests reach every class in a workspace, so only
+ * the owner and workspace co-instructors may make them.
+ */
+async function dataSubjectContext(request) {
+  const requestedBy = requireInstructor(request);
+  const ownerUid = cleanString(request.data?.ownerUid, 160) || requestedBy;
+  const studentNumber = cleanString(request.data?.studentNumber, 64);
+  const studentUid = cleanString(request.data?.studentUid, 160);
+  if (!RTDB_KEY_PATTERN.test(ownerUid) || (!studentNumber && !studentUid) || (studentUid && !RTDB_KEY_PATTERN.test(studentUid))) {
+    throw new HttpsError('invalid-argument', 'Enter a student number or device ID.');
+  }
+  const firestore = getFirestore();
+  if (!await activeInstructorMembership(firestore, requestedBy, ownerUid, '', ['co-instructor'])) {
+    throw new HttpsError('permission-denied', 'Only the workspace owner or a workspace co-instructor can handle student data requests.');
+  }
+  const found = await findStudentRecords({ database: getDatabase(), firestore, ownerUid, studentNumber, studentUid });
+  if (!found.liveRecords.length && !found.firestoreRecords.length) {
+    throw new HttpsError('not-found', 'No records were found for this student in your classes.');
+  }
+  return { requestedBy, ownerUid, firestore, ...found };
+}
+
+// Exports everything held about one student in the workspace. The log keeps counts and a hash of the
+// student number, never the records themselves.
+exports.exportStudentData = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/], timeoutSeconds: 120, memory: '512MiB' },
+  async (request) => {
+    const context = await dataSubjectContext(request);
+    await context.firestore.collection(DATA_SUBJECT_REQUESTS).add({
+      type: 'access',
+      ownerUid: context.ownerUid,
+      requestedBy: context.requestedBy,
+      subjectHash: subjectHash(context.ownerUid, context.subject),
+      counts: recordCounts(context.liveRecords, context.firestoreRecords),
+      createdAt: Timestamp.now(),
+    });
+    return buildExportBundle(context);
+  },
+);
+
+// First step of an erasure: shows which student numbers and devices the request resolved to, and how many
+// records each collection holds, without changing anything. The instructor confirms these identities.
+exports.previewStudentErasure = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/], timeoutSeconds: 120, memory: '512MiB' },
+  async (request) => {
+    const context = await dataSubjectContext(request);
+    return {
+      subject: subjectIdentities(context.subject),
+      counts: recordCounts(context.liveRecords, context.firestoreRecords),
+      identityFingerprint: identityFingerprint(context.ownerUid, context.subject),
+    };
+  },
+);
+
+// Erases one student's records across both databases and returns a signed receipt. It only runs for the
+// identities confirmed from `previewStudentErasure`. Reward requests are pseudonymized rather than deleted
+// because they can back course credit.
+exports.eraseStudentData = onCall(
+  {
+    region: FUNCTION_REGION,
+    cors: ['https://classfully.com', /localhost:\d+$/],
+    secrets: [dataReceiptSigningKey],
+    timeoutSeconds: 300,
+    memory: '512MiB',
+  },
+  async (request) => {
+    const signingKey = dataReceiptSigningKey.value();
+    if (!signingKey) throw new HttpsError('failed-precondition', 'Deletion receipts are not set up yet, so nothing was erased.');
+    const confirmed = cleanString(request.data?.identityFingerprint, 64);
+    if (!confirmed) throw new HttpsError('invalid-argument', 'Review the student numbers and devices to erase before confirming.');
+    const context = await dataSubjectContext(request);
+    if (identityFingerprint(context.ownerUid, context.subject) !== confirmed) {
+      throw new HttpsError('failed-precondition', 'The devices for this student changed since you reviewed them. Review them again, then confirm.');
+    }
+    const counts = recordCounts(context.liveRecords, context.firestoreRecords);
+    const totals = await eraseStudentRecords({ database: getDatabase(), ...context });
+    const receiptRef = context.firestore.collection(DATA_SUBJECT_REQUESTS).doc();
+    const receipt = signReceipt({
+      receiptId: receiptRef.id,
+      ownerUid: context.ownerUid,
+      requestedBy: context.requestedBy,
+      subjectHash: subjectHash(context.ownerUid, context.subject),
+      erasedAt: new Date().toISOString(),
+      counts,
+      ...totals,
+    }, signingKey);
+    await receiptRef.set({
+      type: 'erasure',
+      ownerUid: context.ownerUid,
+      requestedBy: context.requestedBy,
+      subjectHash: receipt.subjectHash,
+      counts,
+      receipt,
+      createdAt: Timestamp.now(),
+    });
+    return receipt;
+  },
+);
+
+const LTI_STATE_TTL_MS = 10 * 60 * 1000;
+const ltiJwksCache = new Map();
+
+function ltiRedirectUri(request) {
+  return ltiLaunchUrl.value() || `https://${request.get('host')}/ltiLaunch`;
+}
+
+function sendLtiPage(response, status, title, message) {
+  response.status(status).set('Content-Type', 'text/html; charset=utf-8').send(`<!doctype html><html><head><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(title)}</title></head><body style="margin:0;background:#f5f3ef;font-family:Arial,sans-serif;color:#101a38"><main style="max-width:520px;margin:64px auto;padding:32px;background:#fffefa;border:1px solid #e3e5ed;border-radius:22px"><p style="margin:0 0 10px;color:#5146e5;font-size:12px;font-weight:700;letter-spacing:.08em;text-transform:uppercase">Classfully</p><h1 style="margin:0 0 12px;font-family:Georgia,serif;font-size:28px">${escapeHtml(title)}</h1><p style="margin:0;color:#555d73;line-height:1.6">${escapeHtml(message)}</p></main></body></html>`);
+}
+
+async function findLtiPlatform(firestore, issuer, clientId) {
+  let platformQuery = firestore.collection('ltiPlatforms').where('issuer', '==', issuer);
+  if (clientId) platformQuery = platformQuery.where('clientId', '==', clientId);
+  const snapshot = await platformQuery.limit(2).get();
+  if (snapshot.empty) throw new LtiError('This LMS is not registered with Classfully.', 404);
+  if (snapshot.size > 1) throw new LtiError('More than one Classfully registration matches this LMS. Ask your LMS administrator to send client_id with the login.');
+  return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() };
+}
+
+async function loadLtiPlatform(firestore, platformId) {
+  const snapshot = await firestore.collection('ltiPlatforms').doc(platformId).get();
+  if (!snapshot.exists) throw new LtiError('This LMS is no longer registered with Classfully.', 404);
+  return { id: snapshot.id, ...snapshot.data() };
+}
+
+/** Platform keys are cached briefly and refetched when a launch names a key we have not seen. */
+async function platformJwks(platform, kid) {
+  const cached = ltiJwksCache.get(platform.jwksUrl);
+  const knowsKey = !kid || cached?.jwks?.keys?.some?.((key) => key.kid === kid);
+  if (cached && cached.expiresAt > Date.now() && knowsKey) return cached.jwks;
+  const response = await fetch(platform.jwksUrl);
+  if (!response.ok) throw new LtiError('Classfully could not load the signing keys for this LMS.', 502);
+  const jwks = await response.json();
+  ltiJwksCache.set(platform.jwksUrl, { jwks, expiresAt: Date.now() + LTI_STATE_TTL_MS });
+  return jwks;
+}
+
+function ltiToolKey() {
+  const privateKeyPem = ltiToolPrivateKey.value();
+  if (!privateKeyPem) throw new HttpsError('failed-precondition', 'LTI setup is not finished yet. Add the tool key before connecting an LMS.');
+  return { privateKeyPem, kid: ltiToolKeyId.value() };
+}
+
+function ltiContextId(launch) {
+  return launch.context ? ltiKey(launch.issuer, launch.deploymentId, launch.context.id) : '';
+}
+
+/**
+ * The roster entry an LMS learner already has: the one this LMS account launched into before, or one in
+ * the linked course with the same student number. Rosters outside the linked course are never matched on
+ * the number, because any registered LMS can send any student number.
+ */
+async function findLtiStudentRef(firestore, launch, link, normalized) {
+  const mapping = await firestore.collection('ltiUsers').doc(ltiKey(launch.issuer, launch.user.subject)).get();
+  const mappedId = mapping.exists ? mapping.data().studentDocId : '';
+  if (mappedId) {
+    const mapped = await firestore.collection('students').doc(mappedId).get();
+    if (mapped.exists) return mapped.ref;
+  }
+  const course = await firestore.collection('courses').doc(link.courseId).get();
+  if (!course.exists || course.data().teacherId !== link.ownerUid) return null;
+  const rosterIds = (course.data().studentIds || []).filter((id) => typeof id === 'string' && id);
+  if (!rosterIds.length) return null;
+  const roster = await firestore.getAll(...rosterIds.map((id) => firestore.collection('students').doc(id)));
+  return roster.find((student) => student.exists && student.data().studentIdNormalized === normalized)?.ref || null;
+}
+
+async function ensureLtiStudent(firestore, launch, link) {
+  const studentNumber = studentNumberForLaunch(launch);
+  const normalized = normalizeStudentRecordId(studentNumber);
+  const existingRef = await findLtiStudentRef(firestore, launch, link, normalized);
+  const studentRef = existingRef || firestore.collection('students').doc();
+  const now = Timestamp.now();
+  if (!existingRef) {
+    await studentRef.set({
+      studentId: studentNumber,
+      studentIdNormalized: normalized,
+      name: launch.user.name || studentNumber,
+      ...(launch.user.email ? { email: launch.user.email } : {}),
+      courseIds: [link.courseId],
+      createdAt: now,
+    });
+  } else {
+    await studentRef.update({ courseIds: FieldValue.arrayUnion(link.courseId) });
+  }
+  await Promise.all([
+    firestore.collection('courses').doc(link.courseId).update({ studentIds: FieldValue.arrayUnion(studentRef.id), updatedAt: now }),
+    firestore.collection('ltiUsers').doc(ltiKey(launch.issuer, launch.user.subject)).set({
+      platformId: link.platformId,
+      subject: launch.user.subject,
+      studentDocId: studentRef.id,
+      courseIds: FieldValue.arrayUnion(link.courseId),
+      updatedAt: now,
+    }, { merge: true }),
+  ]);
+  return { studentDocId: studentRef.id, studentNumber };
+}
+
+/** Where a learner lands: the live class for the linked session, or the join page ready for its code. */
+async function learnerDestination(firestore, launch, link, studentNumber) {
+  const url = new URL('/join', APP_URL);
+  url.searchParams.set('student', studentNumber);
+  if (launch.user.name) url.searchParams.set('name', launch.user.name);
+  const target = launchTarget(launch);
+  let session = null;
+  if (target?.type === 'session') {
+    const snapshot = await firestore.collection('sessions').doc(target.id).get();
+    session = snapshot.exists && snapshot.data().teacherId === link.ownerUid ? snapshot.data() : null;
+  } else if (target?.type === 'caseStudy') {
+    const snapshot = await firestore.collection('sessions')
+      .where('teacherId', '==', link.ownerUid)
+      .where('caseStudyId', '==', target.id)
+      .where('active', '==', true)
+      .limit(1)
+      .get();
+    session = snapshot.empty ? null : snapshot.docs[0].data();
+  }
+  if (session?.active && session.sessionCode) url.searchParams.set('code', session.sessionCode);
+  return url.toString();
+}
+
+exports.ltiJwks = onRequest(
+  { region: FUNCTION_REGION, secrets: [ltiToolPrivateKey], cors: true },
+  async (request, response) => {
+    const privateKeyPem = ltiToolPrivateKey.value();
+    response.set('Cache-Control', 'public, max-age=300').json({ keys: privateKeyPem ? [publicJwk(privateKeyPem, ltiToolKeyId.value())] : [] });
+  },
+);
+
+exports.ltiLogin = onRequest(
+  { region: FUNCTION_REGION, cors: false },
+  async (request, response) => {
+    const params = { ...(request.query || {}), ...(request.method === 'POST' ? request.body || {} : {}) };
+    try {
+      const firestore = getFirestore();
+      const platform = await findLtiPlatform(firestore, cleanString(params.iss, 500), cleanString(params.client_id, 255));
+      const state = randomBytes(24).toString('hex');
+      const nonce = randomBytes(24).toString('hex');
+      const redirect = buildLoginRedirect(params, platform, { redirectUri: ltiRedirectUri(request), state, nonce });
+      await firestore.collection('ltiLaunchStates').doc(state).set({
+        nonce,
+        platformId: platform.id,
+        expiresAt: Timestamp.fromMillis(Date.now() + LTI_STATE_TTL_MS),
+      });
+      response.redirect(302, redirect);
+    } catch (error) {
+      if (!(error instanceof LtiError)) console.error('LTI login failed.', error);
+      sendLtiPage(response, error instanceof LtiError ? error.status : 500, 'We could not start this launch', error instanceof LtiError ? error.message : 'Open the link from your LMS again.');
+    }
+  },
+);
+
+exports.ltiLaunch = onRequest(
+  { region: FUNCTION_REGION, cors: false },
+  async (request, response) => {
+    if (request.method !== 'POST') {
+      response.status(405).send('Method not allowed');
+      return;
+    }
+    try {
+      const firestore = getFirestore();
+      const idToken = cleanString(request.body?.id_token, 20000);
+      const state = cleanString(request.body?.state, 100);
+      if (!idToken || !state) throw new LtiError('The LMS did not send a launch token.');
+      const stateRef = firestore.collection('ltiLaunchStates').doc(state);
+      // Each state is used once, so a captured launch cannot be replayed.
+      const loginState = await firestore.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(stateRef);
+        if (!snapshot.exists) return null;
+        transaction.delete(stateRef);
+        return snapshot.data();
+      });
+      if (!loginState || loginState.expiresAt.toMillis() < Date.now()) throw new LtiError('This launch has expired. Open the link from your LMS again.', 401);
+
+      const platform = await loadLtiPlatform(firestore, loginState.platformId);
+      const jwks = await platformJwks(platform, decodeJwt(idToken).header.kid);
+      const claims = verifyJwt(idToken, jwks, { issuer: platform.issuer, audience: platform.clientId, nonce: loginState.nonce });
+      const launch = parseLaunch(claims, platform);
+      const contextId = ltiContextId(launch);
+      const linkSnapshot = contextId ? await firestore.collection('ltiContexts').doc(contextId).get() : null;
+      const link = linkSnapshot?.exists ? linkSnapshot.data() : null;
+      if (link && launch.ags?.lineItems && launch.ags.lineItems !== link.lineItemsUrl) {
+        await Promise.all([
+          linkSnapshot.ref.update({ lineItemsUrl: launch.ags.lineItems }),
+          firestore.collection('courses').doc(link.courseId).update({ 'lti.lineItemsUrl': launch.ags.lineItems }),
+        ]);
+      }
+
+      if (launch.messageType === 'LtiDeepLinkingRequest' || launch.user.isInstructor) {
+        const ticket = randomBytes(24).toString('hex');
+        await firestore.collection('ltiLaunchTickets').doc(ticket).set({
+          platformId: platform.id,
+          contextId,
+          launch,
+          ...(link ? { courseId: link.courseId, ownerUid: link.ownerUid } : {}),
+          expiresAt: Timestamp.fromMillis(Date.now() + LTI_STATE_TTL_MS),
+          createdAt: Timestamp.now(),
+        });
+        response.redirect(302, `${APP_URL}/dashboard/lti?ticket=${ticket}`);
+        return;
+      }
+
+      if (!link) throw new LtiError('Your instructor has not connected this LMS course to Classfully yet.', 409);
+      const { studentNumber } = await ensureLtiStudent(firestore, launch, { ...link, platformId: platform.id });
+      response.redirect(302, await learnerDestination(firestore, launch, link, studentNumber));
+    } catch (error) {
+      if (!(error instanceof LtiError)) console.error('LTI launch failed.', error);
+      sendLtiPage(response, error instanceof LtiError ? error.status : 500, 'We could not open Classfully', error instanceof LtiError ? error.message : 'Open the link from your LMS again.');
+    }
+  },
+);
+
+async function claimLtiTicket(firestore, request) {
+  const userUid = requireInstructor(request);
+  const ticketId = cleanString(request.data?.ticket, 100);
+  if (!ticketId) throw new HttpsError('invalid-argument', 'Open Classfully from your LMS again.');
+  const ticketRef = firestore.collection('ltiLaunchTickets').doc(ticketId);
+  return firestore.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ticketRef);
+    const ticket = snapshot.data();
+    if (!snapshot.exists || ticket.expiresAt.toMillis() < Date.now()) throw new HttpsError('deadline-exceeded', 'This LMS launch has expired. Open Classfully from your LMS again.');
+    // The first instructor to open the ticket owns it; the link itself is not a credential.
+    if (ticket.claimedBy && ticket.claimedBy !== userUid) throw new HttpsError('permission-denied', 'This LMS launch belongs to another instructor.');
+    if (!ticket.claimedBy) transaction.update(ticketRef, { claimedBy: userUid });
+    return { userUid, ticketRef, ticket };
+  });
+}
+
+function ltiTicketPayload(ticket) {
+  const { launch } = ticket;
+  return {
+    messageType: launch.messageType,
+    platformId: ticket.platformId,
+    userName: launch.user.name,
+    context: launch.context,
+    resourceLink: launch.resourceLink,
+    target: launchTarget(launch),
+    linkedCourseId: ticket.courseId || null,
+    acceptMultiple: launch.deepLinking ? launch.deepLinking.acceptMultiple : false,
+  };
+}
+
+exports.getLtiLaunchTicket = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const { ticket } = await claimLtiTicket(getFirestore(), request);
+    return ltiTicketPayload(ticket);
+  },
+);
+
+exports.linkLtiCourse = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const firestore = getFirestore();
+    const { userUid, ticketRef, ticket } = await claimLtiTicket(firestore, request);
+    const courseId = cleanString(request.data?.courseId, 160);
+    if (!ticket.contextId || !ticket.launch.context) throw new HttpsError('failed-precondition', 'This LMS launch is not inside a course.');
+    const courseRef = firestore.collection('courses').doc(courseId);
+    const course = courseId ? (await courseRef.get()).data() : null;
+    if (!course) throw new HttpsError('not-found', 'That class could not be found.');
+    const permission = await activeInstructorMembership(firestore, userUid, course.teacherId, courseId, ['co-instructor']);
+    if (!permission) throw new HttpsError('permission-denied', 'You do not have permission to connect this class.');
+    // An LMS course stays with the class it was linked to unless the caller could manage that class too.
+    const contextRef = firestore.collection('ltiContexts').doc(ticket.contextId);
+    const previousCourseId = (await contextRef.get()).data()?.courseId;
+    const previousCourseRef = previousCourseId && previousCourseId !== courseId ? firestore.collection('courses').doc(previousCourseId) : null;
+    const previousCourse = previousCourseRef ? (await previousCourseRef.get()).data() : null;
+    if (previousCourse && !(await activeInstructorMembership(firestore, userUid, previousCourse.teacherId, previousCourseId, ['co-instructor']))) {
+      throw new HttpsError('permission-denied', 'This LMS course is already connected to a class you do not manage.');
+    }
+    const { launch } = ticket;
+    const now = Timestamp.now();
+    const lti = {
+      platformId: ticket.platformId,
+      contextId: launch.context.id,
+      contextTitle: launch.context.title || launch.context.label || launch.context.id,
+      ...(launch.ags?.lineItems ? { lineItemsUrl: launch.ags.lineItems } : {}),
+      linkedBy: userUid,
+      linkedAt: now,
+    };
+    await Promise.all([
+      contextRef.set({
+        ...lti,
+        issuer: launch.issuer,
+        deploymentId: launch.deploymentId,
+        courseId,
+        ownerUid: course.teacherId,
+      }),
+      courseRef.update({ lti, updatedAt: now }),
+      ...(previousCourse?.lti?.contextId === ticket.contextId ? [previousCourseRef.update({ lti: FieldValue.delete(), updatedAt: now })] : []),
+    ]);
+    await ticketRef.update({ courseId, ownerUid: course.teacherId });
+    return { courseId };
+  },
+);
+
+exports.createLtiDeepLinkResponse = onCall(
+  { region: FUNCTION_REGION, secrets: [ltiToolPrivateKey], cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const firestore = getFirestore();
+    const { privateKeyPem, kid } = ltiToolKey();
+    const requested = Array.isArray(request.data?.items) ? request.data.items.slice(0, 20) : [];
+    if (!requested.length) throw new HttpsError('invalid-argument', 'Choose at least one session or case study.');
+    const { userUid, ticketRef, ticket } = await claimLtiTicket(firestore, request);
+    if (ticket.launch.messageType !== 'LtiDeepLinkingRequest') throw new HttpsError('failed-precondition', 'This LMS launch is not placing content.');
+
+    const items = await Promise.all(requested.map(async (item) => {
+      const type = item?.type === 'caseStudy' ? 'caseStudy' : 'session';
+      const id = cleanString(item?.id, 160);
+      const snapshot = id ? await firestore.collection(type === 'session' ? 'sessions' : 'casestudies').doc(id).get() : null;
+      const data = snapshot?.data();
+      if (!data) throw new HttpsError('not-found', 'One of the selected items could not be found.');
+      const permission = await activeInstructorMembership(firestore, userUid, data.teacherId, data.courseId, ['co-instructor']);
+      if (!permission) throw new HttpsError('permission-denied', 'You can only place your own sessions and case studies.');
+      const scoreMaximum = Number(item?.scoreMaximum);
+      return {
+        type,
+        id,
+        title: cleanString(item?.title, 200) || data.title || (type === 'session' ? 'Classfully session' : 'Classfully case study'),
+        ...(scoreMaximum > 0 ? { scoreMaximum } : {}),
+      };
+    }));
+
+    try {
+      const toolUrl = ltiLaunchUrl.value() || `https://${FUNCTION_REGION}-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/ltiLaunch`;
+      const payload = buildDeepLinkingResponse({ launch: ticket.launch, items, toolUrl });
+      const jwt = signJwt(payload, privateKeyPem, kid);
+      await ticketRef.delete();
+      return { returnUrl: ticket.launch.deepLinking.returnUrl, jwt };
+    } catch (error) {
+      if (error instanceof LtiError) throw new HttpsError('failed-precondition', error.message);
+      throw error;
+    }
+  },
+);
+
+exports.syncLtiGrades = onCall(
+  { region: FUNCTION_REGION, secrets: [ltiToolPrivateKey], cors: ['https://classfully.com', /localhost:\d+$/], timeoutSeconds: 300 },
+  async (request) => {
+    const userUid = requireInstructor(request);
+    const courseId = cleanString(request.data?.courseId, 160);
+    const firestore = getFirestore();
+    const courseRef = firestore.collection('courses').doc(courseId);
+    const course = courseId ? (await courseRef.get()).data() : null;
+    if (!course) throw new HttpsError('not-found', 'That class could not be found.');
+    const permission = await activeInstructorMembership(firestore, userUid, course.teacherId, courseId, ['co-instructor']);
+    if (!permission) throw new HttpsError('permission-denied', 'You do not have permission to send grades for this class.');
+    if (!course.lti?.platformId || !course.lti.lineItemsUrl) {
+      throw new HttpsError('failed-precondition', 'Launch Classfully from a graded LMS link once so the gradebook column can be found.');
+    }
+    const { privateKeyPem, kid } = ltiToolKey();
+
+    const [platform, gradeSnapshot, userSnapshot] = await Promise.all([
+      loadLtiPlatform(firestore, course.lti.platformId).catch(() => null),
+      firestore.collection('studentGrades').where('courseId', '==', courseId).get(),
+      firestore.collection('ltiUsers').where('courseIds', 'array-contains', courseId).get(),
+    ]);
+    if (!platform) throw new HttpsError('failed-precondition', 'The LMS connected to this class is no longer registered.');
+    const subjects = new Map(userSnapshot.docs
+      .filter((document) => document.data().platformId === platform.id)
+      .map((document) => [document.data().studentDocId, document.data().subject]));
+    const grades = gradeSnapshot.docs.map((document) => document.data()).filter((grade) => subjects.has(grade.studentId) && grade.maxTotalPoints > 0);
+    if (!grades.length) return { posted: 0, skipped: gradeSnapshot.size, failed: 0 };
+
+    try {
+      const accessToken = await requestAgsToken({ platform, privateKeyPem, kid });
+      const lineItemUrl = await ensureCourseLineItem({
+        lineItemsUrl: course.lti.lineItemsUrl,
+        accessToken,
+        label: `${course.name} (Classfully total)`,
+        scoreMaximum: Math.max(...grades.map((grade) => grade.maxTotalPoints)),
+      });
+      const timestamp = new Date().toISOString();
+      const results = await Promise.allSettled(grades.map((grade) => postScore({
+        lineItemUrl,
+        accessToken,
+        score: buildScore({
+          userId: subjects.get(grade.studentId),
+          scoreGiven: (Number(grade.totalPoints) || 0) + (Number(grade.achievementBonusPoints) || 0),
+          scoreMaximum: grade.maxTotalPoints,
+          timestamp,
+        }),
+      })));
+      const failed = results.filter((result) => result.status === 'rejected');
+      failed.forEach((result) => console.warn('LTI score passback failed.', result.reason?.message || result.reason));
+      await courseRef.update({ 'lti.lineItemUrl': lineItemUrl, 'lti.lastGradeSyncAt': Timestamp.now() });
+      return { posted: results.length - failed.length, skipped: gradeSnapshot.size - grades.length, failed: failed.length };
+    } catch (error) {
+      if (error instanceof LtiError) throw new HttpsError('unavailable', error.message);
+      throw error;
+    }
+  },
+);
+
+async function teacherForStripeCustomer(customerId, metadata = {}) {
+  const firestore = getFirestore();
+  const firebaseUid = metadata.firebaseUid;
+  if (firebaseUid) return firestore.collection('teachers').doc(firebaseUid);
+  const snapshot = await firestore.collection('teachers').where('billing.stripeCustomerId', '==', customerId).limit(1).get();
+  return snapshot.empty ? null : snapshot.docs[0].ref;
+}
+
+async function applyStripeSubscription(subscription, eventCreatedAt = 0) {
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer?.id;
+  if (!customerId) return;
+  const item = subscription.items?.data?.[0];
+  const plan = subscription.metadata?.classfullyPlan || planFromPriceId(item?.price?.id);
+  if (!plan) throw new Error(`Unknown Classfully price ${item?.price?.id || 'without an ID'}.`);
+  const teacherRef = await teacherForStripeCustomer(customerId, subscription.metadata || {});
+  if (!teacherRef) throw new Error(`No Classfully instructor found for Stripe customer ${customerId}.`);
+  const teacherSnapshot = await teacherRef.get();
+  const currentBilling = teacherSnapshot.data()?.billing || {};
+  if (eventCreatedAt && Number(currentBilling.lastStripeEventCreated || 0) > eventCreatedAt) return;
+  const status = stripeStatus(subscription.status);
+  const periodEndSeconds = item?.current_period_end || subscription.current_period_end;
+  const graceEndsAt = status === 'past_due'
+    ? currentBilling.status === 'past_due' && currentBilling.graceEndsAt
+      ? currentBilling.graceEndsAt
+      : Timestamp.fromMillis(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    : null;
+  await teacherRef.set({
+    billing: {
+      ...currentBilling,
+      plan,
+      status,
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscription.id,
+      stripePriceId: item?.price?.id || null,
+      currentPeriodEnd: dateTimestamp(periodEndSeconds),
+      cancelAtPeriodEnd: Boolean(subscription.cancel_at_period_end),
+      graceEndsAt,
+      lastStripeEventCreated: eventCreatedAt || currentBilling.lastStripeEventCreated || 0,
+      updatedAt: Timestamp.now(),
+    },
+  }, { merge: true });
+}
+
+exports.stripeBillingWebhook = onRequest(
+  { region: FUNCTION_REGION, secrets: [stripeRestrictedKey, stripeWebhookSecret, stripeTermPriceId, stripeAnnualPriceId, ga4ApiSecret], cors: false },
+  async (request, response) => {
+    if (request.method !== 'POST') {
+      response.status(405).send('Method not allowed');
+      return;
+    }
+    const signature = request.headers['stripe-signature'];
+    if (!signature) {
+      response.status(400).send('Missing Stripe signature');
+      return;
+    }
+    let event;
+    try {
+      event = stripeClient().webhooks.constructEvent(request.rawBody, signature, stripeWebhookSecret.value());
+    } catch (error) {
+      console.warn('Stripe webhook signature rejected.', error instanceof Error ? error.message : error);
+      response.status(400).send('Invalid signature');
+      return;
+    }
+
+    const eventRef = getFirestore().collection('stripeWebhookEvents').doc(event.id);
+    const claimed = await getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(eventRef);
+      const current = snapshot.data();
+      const updatedAt = current?.updatedAt?.toMillis?.() || 0;
+      const activeClaim = current?.status === 'processing' && Date.now() - updatedAt < 15 * 60 * 1000;
+      if (current?.status === 'processed' || activeClaim) return false;
+      transaction.set(eventRef, { type: event.type, status: 'processing', updatedAt: Timestamp.now() }, { merge: true });
+      return true;
+    });
+    if (!claimed) {
+      response.status(200).json({ received: true, duplicate: true });
+      return;
+    }
+
+    try {
+      if (event.type.startsWith('customer.subscription.')) {
+        await applyStripeSubscription(event.data.object, event.created);
+      } else if (event.type === 'checkout.session.completed' && event.data.object.subscription) {
+        const subscription = typeof event.data.object.subscription === 'string'
+          ? await stripeClient().subscriptions.retrieve(event.data.object.subscription)
+          : event.data.object.subscription;
+        await applyStripeSubscription(subscription, event.created);
+        // After the subscription is applied, and never allowed to fail the
+        // webhook: a retry would re-run the write that already succeeded.
+        await sendPurchase(event.data.object, {
+          measurementId: ga4MeasurementId.value(),
+          apiSecret: ga4ApiSecret.value(),
+        });
+      }
+      await eventRef.set({ status: 'processed', processedAt: Timestamp.now(), updatedAt: Timestamp.now() }, { merge: true });
+      response.status(200).json({ received: true });
+    } catch (error) {
+      await eventRef.set({ status: 'failed', error: error instanceof Error ? error.message.slice(0, 500) : 'Unknown webhook error', updatedAt: Timestamp.now() }, { merge: true });
+      console.error(`Stripe webhook ${event.id} failed.`, error);
+      response.status(500).send('Webhook processing failed');
+    }
+  },
+);
+
+exports.sendInstructorWelcome = onDocumentCreated(
+  {
+    document: 'teachers/{teacherId}',
+    region: FUNCTION_REGION,
+    secrets: [postmarkServerToken],
+    retry: true,
+  },
+  async (event) => {
+    const teacher = event.data?.data();
+    if (!teacher?.email) return;
+    if (teacher.signupContext?.source === 'teaching-team-invitation') return;
+    const teacherId = event.params.teacherId;
+    await deliverEmail({
+      deliveryId: `welcome_${teacherId}`,
+      teacherId,
+      to: teacher.email,
+      email: renderWelcomeEmail({ recipientName: teacher.name || 'there' }),
+      tag: 'instructor-welcome',
+      metadata: { teacherId },
+    });
+  },
+);
+
+exports.sendAfterClassReport = onDocumentUpdated(
+  {
+    document: 'sessions/{sessionId}',
+    region: FUNCTION_REGION,
+    secrets: [postmarkServerToken],
+    retry: true,
+  },
+  async (event) => {
+    const before = event.data?.before.data() || {};
+    const session = event.data?.after.data() || {};
+    const closedNow = session.active === false && session.endedAt && (before.active !== false || !before.endedAt);
+    if (!closedNow || !session.teacherId) return;
+
+    const teacherSnapshot = await getFirestore().collection('teachers').doc(session.teacherId).get();
+    const teacher = teacherSnapshot.data();
+    if (!teacher?.email || !notificationPreferences(teacher).afterClassReport) return;
+
+    const sessionId = event.params.sessionId;
+    const report = await loadSessionReport(sessionId, session);
+    const email = renderAfterClassReportEmail({
+      recipientName: teacher.name || 'there',
+      courseCode: report.courseCode,
+      courseName: report.courseName,
+      sessionTitle: report.sessionTitle,
+      sessionDate: formatDate(report.endedAt, teacher.timeZone || 'UTC'),
+      metrics: report.metrics,
+      insightTitle: report.insightTitle,
+      insightBody: report.insightBody,
+      actions: report.actions,
+      dashboardUrl: `https://classfully.com/dashboard/sessions/${sessionId}`,
+    });
+    await deliverEmail({
+      deliveryId: `after-class_${sessionId}_${session.teacherId}`,
+      teacherId: session.teacherId,
+      to: teacher.email,
+      email,
+      tag: 'after-class-report',
+      metadata: { teacherId: session.teacherId, sessionId },
+    });
+  },
+);
+
+exports.sendWeeklyInstructorDigests = onSchedule(
+  {
+    schedule: '5 * * * *',
     timeZone: 'UTC',
     region: FUNCTION_REGION,
     timeoutSeconds: 540,
@@ -1072,6 +2207,98 @@ exports.sendWeeklyInstructorDigests = onSchedule(
   },
 );
 
+function timestampMillis(value) {
+  return typeof value?.toMillis === 'function' ? value.toMillis() : Number(value) || 0;
+}
+
+async function getDocsById(firestore, collectionName, ids) {
+  const refs = [...ids].filter(Boolean).map((id) => firestore.collection(collectionName).doc(id));
+  const snapshots = refs.length ? await firestore.getAll(...refs) : [];
+  return new Map(snapshots.filter((snapshot) => snapshot.exists).map((snapshot) => [snapshot.id, snapshot.data()]));
+}
+
+/**
+ * Loads the retention policies that apply and works out what the purge deletes at `now`. With `ownerUid`
+ * it covers only that workspace, for the dry-run report.
+ */
+async function buildRetentionPlan(now, ownerUid = '') {
+  const firestore = getFirestore();
+  const liveSnapshot = await getDatabase().ref(ownerUid ? `liveV2/${ownerUid}` : 'liveV2').get();
+  const liveRooms = ownerUid ? { [ownerUid]: liveSnapshot.val() || {} } : liveSnapshot.val() || {};
+
+  // Reward records outlive their rooms, so the courses to check come from Firestore rather than the rooms.
+  const scheduled = ['last-activity', 'course-end'];
+  const rewardCourseDocs = ownerUid
+    ? (await firestore.collection('courses').where('teacherId', '==', ownerUid).get()).docs
+    : await (async () => {
+      const [teachersSnapshot, coursesSnapshot, institutionsSnapshot] = await Promise.all([
+        firestore.collection('teachers').where('retention.rewards.after', 'in', scheduled).get(),
+        firestore.collection('courses').where('retention.rewards.after', 'in', scheduled).get(),
+        firestore.collection('institutions').where('defaults.retention.rewards.after', 'in', scheduled).get(),
+      ]);
+      const memberSnapshots = await Promise.all(institutionsSnapshot.docs.map((institution) => firestore.collection('teachers').where('institutionId', '==', institution.id).get()));
+      const teacherIds = new Set([...teachersSnapshot.docs, ...memberSnapshots.flatMap((snapshot) => snapshot.docs)].map((teacher) => teacher.id));
+      const teacherCourses = await Promise.all([...teacherIds].map((teacherId) => firestore.collection('courses').where('teacherId', '==', teacherId).get()));
+      const seen = new Set();
+      return [...coursesSnapshot.docs, ...teacherCourses.flatMap((snapshot) => snapshot.docs)].filter((course) => !seen.has(course.id) && seen.add(course.id));
+    })();
+  const courses = new Map(rewardCourseDocs.map((course) => [course.id, course.data()]));
+
+  // Saved responses, pulse totals and register marks hang off sessions, so every session is checked.
+  const sessionsQuery = ownerUid ? firestore.collection('sessions').where('teacherId', '==', ownerUid) : firestore.collection('sessions');
+  const sessionsSnapshot = await sessionsQuery
+    .select('teacherId', 'courseId', 'courseCode', 'title', 'createdAt', 'startedAt', 'endedAt', 'homework', 'wellbeingPulse', 'responsesPurgedAt')
+    .get();
+  const sessions = new Map(sessionsSnapshot.docs.map((session) => [session.id, session.data()]));
+
+  const roomCourseIds = [
+    ...Object.values(liveRooms).flatMap((rooms) => Object.values(rooms || {}).map((room) => room?.meta?.courseId)),
+    ...[...sessions.values()].map((session) => session.courseId),
+  ].filter((courseId) => typeof courseId === 'string' && courseId && !courses.has(courseId));
+  (await getDocsById(firestore, 'courses', new Set(roomCourseIds))).forEach((course, courseId) => courses.set(courseId, course));
+  const teachers = await getDocsById(firestore, 'teachers', new Set([
+    ...Object.keys(liveRooms),
+    ...[...courses.values()].map((course) => course.teacherId),
+    ...[...sessions.values()].map((session) => session.teacherId),
+  ]));
+  const institutions = await getDocsById(firestore, 'institutions', new Set([...teachers.values()].map((teacher) => teacher.institutionId)));
+
+  const policyFor = (teacherId, courseId) => {
+    const course = courses.get(courseId);
+    const ownCourse = course?.teacherId === teacherId ? course : undefined;
+    const teacher = teachers.get(teacherId);
+    return {
+      policy: resolveRetentionPolicy(teacher?.retention, ownCourse?.retention, institutions.get(teacher?.institutionId)?.defaults?.retention),
+      courseEndsAt: courseEndsAt(ownCourse),
+    };
+  };
+  const { expiredRooms, expiredNodes } = planRetention(liveRooms, policyFor, now);
+  const { expiredSessions, expiredMarks } = planSavedRetention(sessions, courses, policyFor, now);
+  for (const session of expiredSessions) {
+    if (!session.categories.includes('responses')) continue;
+    const responsesSnapshot = await firestore.collection('responses').where('sessionId', '==', session.sessionId).select().get();
+    session.responseRefs = responsesSnapshot.docs.map((response) => response.ref);
+  }
+
+  const expiredRewards = [];
+  for (const course of rewardCourseDocs) {
+    const teacherId = course.data().teacherId;
+    const { policy, courseEndsAt: endsAt } = policyFor(teacherId, course.id);
+    if (policy.rewards.after === 'never') continue;
+    const [requestsSnapshot, ledgersSnapshot] = await Promise.all([
+      firestore.collection(REWARD_REQUESTS).where('courseId', '==', course.id).get(),
+      firestore.collection(REWARD_LEDGERS).where('courseId', '==', course.id).get(),
+    ]);
+    const collect = (kind, documents, lastActivityAt) => documents
+      .filter((document) => document.data().teacherId === teacherId && isExpired(policy.rewards, { lastActivityAt: lastActivityAt(document.data()), courseEndsAt: endsAt }, now))
+      .forEach((document) => expiredRewards.push({ kind, ref: document.ref, courseId: course.id }));
+    collect('request', requestsSnapshot.docs, (request) => Math.max(timestampMillis(request.requestedAt), timestampMillis(request.reviewedAt)));
+    collect('ledger', ledgersSnapshot.docs, (ledger) => timestampMillis(ledger.updatedAt));
+  }
+
+  return { liveRooms, sessions, courses, expiredRooms, expiredNodes, expiredSessions, expiredMarks, expiredRewards };
+}
+
 exports.purgeExpiredClassroomData = onSchedule(
   {
     schedule: 'every day 03:00',
@@ -1082,8 +2309,8 @@ exports.purgeExpiredClassroomData = onSchedule(
   },
   async () => {
     const database = getDatabase();
-    const liveSnapshot = await database.ref('liveV2').get();
-    const expiredRooms = collectExpiredRooms(liveSnapshot.val());
+    const firestore = getFirestore();
+    const { expiredRooms, expiredNodes, expiredSessions, expiredMarks, expiredRewards } = await buildRetentionPlan(Date.now());
 
     const updates = {};
     for (const room of expiredRooms) {
@@ -1097,22 +2324,828 @@ exports.purgeExpiredClassroomData = onSchedule(
         updates[`liveJoinCodes/${joinCode}`] = null;
       }
     }
+    for (const node of expiredNodes) {
+      updates[`liveV2/${node.ownerUid}/${node.sessionId}/${node.path}`] = null;
+    }
 
     if (Object.keys(updates).length > 0) {
       await database.ref().update(updates);
     }
 
-    await getFirestore().collection('retentionDeletionLogs').add({
+    const expiredRequests = expiredRewards.filter((reward) => reward.kind === 'request');
+    for (let index = 0; index < expiredRequests.length; index += 400) {
+      const batch = firestore.batch();
+      expiredRequests.slice(index, index + 400).forEach((reward) => batch.delete(reward.ref));
+      await batch.commit();
+    }
+    const expiredLedgers = expiredRewards.filter((reward) => reward.kind === 'ledger');
+    for (const reward of expiredLedgers) await firestore.recursiveDelete(reward.ref);
+
+    // Each session is stamped once its responses are gone, so later runs do not look for them again.
+    const savedWrites = [
+      ...expiredSessions.flatMap((session) => [
+        ...(session.responseRefs || []).map((ref) => (batch) => batch.delete(ref)),
+        (batch) => batch.update(firestore.collection('sessions').doc(session.sessionId), {
+          ...(session.categories.includes('responses') ? { responsesPurgedAt: FieldValue.serverTimestamp() } : {}),
+          ...(session.categories.includes('wellbeing') ? { wellbeingPulse: FieldValue.delete() } : {}),
+        }),
+      ]),
+      ...expiredMarks.map((mark) => (batch) => batch.update(firestore.collection('courses').doc(mark.courseId), { [`attendance.marks.${mark.key}`]: FieldValue.delete() })),
+    ];
+    for (let index = 0; index < savedWrites.length; index += 400) {
+      const batch = firestore.batch();
+      savedWrites.slice(index, index + 400).forEach((write) => write(batch));
+      await batch.commit();
+    }
+
+    await firestore.collection('retentionDeletionLogs').add({
       ranAt: FieldValue.serverTimestamp(),
-      policyDays: RETENTION_DAYS,
       deletedRoomCount: expiredRooms.length,
-      deletedRooms: expiredRooms.map(({ ownerUid, sessionId, lastRecordedAt }) => ({
+      // Each room and node records the rules it was deleted under, since they differ by course.
+      deletedRooms: expiredRooms.map(({ ownerUid, sessionId, lastRecordedAt, policy }) => ({
         ownerUid,
         sessionId,
         lastRecordedAt,
+        policy,
+      })),
+      deletedNodes: expiredNodes.map(({ ownerUid, sessionId, category, rule, path, records }) => ({ ownerUid, sessionId, category, rule, path, records })),
+      deletedSessions: expiredSessions.map(({ ownerUid, sessionId, categories, policy, responseRefs }) => ({
+        ownerUid,
+        sessionId,
+        categories,
+        policy,
+        responses: responseRefs?.length || 0,
       })),
+      // Marks are logged by session, without the roster entry they were for.
+      deletedAttendanceMarks: expiredMarks.map(({ ownerUid, courseId, sessionId, rule }) => ({ ownerUid, courseId, sessionId, rule })),
+      deletedRewardRequestCount: expiredRequests.length,
+      deletedRewardLedgerCount: expiredLedgers.length,
+    });
+
+    console.log(`Classfully retention completed. Deleted ${expiredRooms.length} classroom rooms, ${expiredNodes.length} expired categories in other rooms, saved records from ${expiredSessions.length} sessions, ${expiredMarks.length} register marks, and ${expiredRewards.length} reward records.`);
+  },
+);
+
+// What the next purge would delete from the caller's workspace under the current policies. Read-only.
+exports.previewRetentionPurge = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/], timeoutSeconds: 120 },
+  async (request) => {
+    const ownerUid = requireInstructor(request);
+    const runAt = nextRetentionRun(Date.now());
+    const { liveRooms, sessions, courses, expiredRooms, expiredNodes, expiredSessions, expiredMarks, expiredRewards } = await buildRetentionPlan(runAt, ownerUid);
+    const rooms = new Map();
+    const roomEntry = (sessionId) => {
+      if (!rooms.has(sessionId)) {
+        const meta = liveRooms[ownerUid]?.[sessionId]?.meta || {};
+        const session = sessions.get(sessionId) || {};
+        rooms.set(sessionId, {
+          sessionId,
+          sessionTitle: meta.sessionTitle || session.title || '',
+          courseId: meta.courseId || session.courseId || '',
+          courseCode: meta.courseCode || session.courseCode || '',
+          lastRecordedAt: Number(meta.updatedAt || meta.createdAt || 0) || sessionLastActivityAt(session),
+          wholeRoom: false,
+          records: Object.fromEntries(LIVE_CATEGORIES.map((category) => [category, 0])),
+        });
+      }
+      return rooms.get(sessionId);
+    };
+    for (const room of expiredRooms) {
+      const entry = roomEntry(room.sessionId);
+      entry.wholeRoom = true;
+      entry.records = categoryRecordCounts(liveRooms[ownerUid][room.sessionId]);
+    }
+    for (const node of expiredNodes) roomEntry(node.sessionId).records[node.category] += node.records;
+    for (const session of expiredSessions) {
+      const responses = session.responseRefs?.length || 0;
+      const pulse = session.categories.includes('wellbeing') ? 1 : 0;
+      if (!responses && !pulse) continue;
+      const entry = roomEntry(session.sessionId);
+      entry.records.responses += responses;
+      entry.records.wellbeing += pulse;
+    }
+    for (const mark of expiredMarks) roomEntry(mark.sessionId).records.attendance += 1;
+
+    const rewards = new Map();
+    for (const reward of expiredRewards) {
+      const entry = rewards.get(reward.courseId) || { courseId: reward.courseId, courseCode: courses.get(reward.courseId)?.code || '', requests: 0, ledgers: 0 };
+      entry[reward.kind === 'request' ? 'requests' : 'ledgers'] += 1;
+      rewards.set(reward.courseId, entry);
+    }
+    return { runAt, rooms: [...rooms.values()], rewards: [...rewards.values()] };
+  },
+);
+
+async function openLiveRoom(database, sessionId, session, instructorName) {
+  const now = Date.now();
+  const metaRef = database.ref(`liveV2/${session.teacherId}/${sessionId}/meta`);
+  const current = (await metaRef.get()).val();
+  if (current && current.ownerUid !== session.teacherId) return;
+  const course = session.courseId ? (await getFirestore().collection('courses').doc(session.courseId).get()).data() : null;
+  const context = {
+    sessionId,
+    ...(session.courseId ? { courseId: session.courseId } : {}),
+    ownerUid: session.teacherId,
+    instructorName,
+    sessionCode: session.sessionCode,
+    courseCode: session.courseCode || 'Class',
+    rewardScopeId: session.rewardScopeId || session.courseCode || 'Class',
+    courseName: session.courseName || '',
+    sessionTitle: session.title || 'Live session',
+    participationMode: session.participationMode || 'course-record',
+    ...(course?.wellbeing?.anonymousPulse === true ? { anonymousPulse: true, pulseMinimum: pulseMinimum(course.wellbeing.minimumResponses) } : {}),
+  };
+  const expiresAt = current?.expiresAt > now ? current.expiresAt : now + LIVE_ROOM_LIFETIME_MS;
+  await metaRef.set({ ...(current || {}), ...context, status: 'live', createdAt: current?.createdAt || now, updatedAt: now, expiresAt });
+  await database.ref(joinCodePath(session.sessionCode)).set({
+    sessionId,
+    ...(session.courseId ? { courseId: session.courseId } : {}),
+    ownerUid: session.teacherId,
+    sessionCode: session.sessionCode,
+    courseCode: context.courseCode,
+    ...(session.rewardScopeId ? { rewardScopeId: session.rewardScopeId } : {}),
+    courseName: context.courseName,
+    sessionTitle: context.sessionTitle,
+    instructorName,
+    participationMode: context.participationMode,
+    status: 'live',
+    expiresAt,
+  });
+}
+
+async function endLiveRoom(database, sessionId, session) {
+  const metaRef = database.ref(`liveV2/${session.teacherId}/${sessionId}/meta`);
+  const meta = (await metaRef.get()).val();
+  if (!meta || meta.ownerUid !== session.teacherId) return;
+  await metaRef.update({ status: 'ended', updatedAt: Date.now() });
+  const joinRef = database.ref(joinCodePath(meta.sessionCode || session.sessionCode));
+  const joinRecord = (await joinRef.get()).val();
+  if (joinRecord?.ownerUid === session.teacherId && joinRecord.sessionId === sessionId) {
+    await joinRef.update({ status: 'ended' });
+  }
+}
+
+// Opens sessions whose scheduled time has arrived and closes live sessions nobody has used for
+// their idle window. Opening claims the session against the instructor's plan like a manual start.
+exports.runSessionSchedule = onSchedule(
+  {
+    schedule: 'every 5 minutes',
+    timeZone: 'UTC',
+    region: FUNCTION_REGION,
+    timeoutSeconds: 300,
+    memory: '256MiB',
+  },
+  async (event) => {
+    const firestore = getFirestore();
+    const database = getDatabase();
+    const now = event.scheduleTime ? new Date(event.scheduleTime) : new Date();
+    const teacherNames = new Map();
+    let opened = 0;
+    let closed = 0;
+
+    const scheduledSnapshot = await firestore.collection('sessions').where('autoOpen', '==', true).get();
+    for (const document of scheduledSnapshot.docs) {
+      const session = document.data();
+      if (!shouldOpenScheduledSession(session, now)) continue;
+      try {
+        await claimSessionStart(firestore, document.ref, session.teacherId);
+        await document.ref.update({ autoOpen: false, scheduleError: FieldValue.delete() });
+        if (session.sessionType === 'standalone' && session.sessionCode) {
+          if (!teacherNames.has(session.teacherId)) {
+            const teacher = (await firestore.collection('teachers').doc(session.teacherId).get()).data() || {};
+            teacherNames.set(session.teacherId, teacher.name || teacher.email?.split('@')[0] || 'Your instructor');
+          }
+          await openLiveRoom(database, document.id, session, teacherNames.get(session.teacherId));
+        }
+        opened += 1;
+      } catch (error) {
+        // Leaving autoOpen set would retry every run, so record why it did not open and let the
+        // instructor start it by hand.
+        const message = error instanceof HttpsError ? error.message : 'The session could not be opened automatically.';
+        await document.ref.update({ autoOpen: false, scheduleError: message });
+        console.error(`Scheduled session ${document.id} did not open.`, error);
+      }
+    }
+
+    const activeSnapshot = await firestore.collection('sessions').where('active', '==', true).get();
+    for (const document of activeSnapshot.docs) {
+      const session = document.data();
+      if (!isSessionIdle(session, now)) continue;
+      await document.ref.update({ active: false, endedAt: Timestamp.fromDate(now), closedReason: 'idle' });
+      if (session.sessionType === 'standalone' && session.sessionCode) {
+        await endLiveRoom(database, document.id, session).catch((error) => {
+          console.error(`Idle session ${document.id} closed but its live room did not end.`, error);
+        });
+      }
+      closed += 1;
+    }
+
+    console.log(`Classfully session schedule completed. Opened ${opened}, closed ${closed} idle sessions.`);
+  },
+);
+
+// Institutions group instructor accounts under verified email domains. Admins assign the seats
+// Classfully staff set in `seatLimit`, choose defaults for new sessions and retention, and can
+// require OIDC or SAML sign-in for every member. See docs/institution-sso-setup.md.
+const SSO_STATE_TTL_MS = 10 * 60 * 1000;
+const SSO_TICKET_TTL_MS = 2 * 60 * 1000;
+const MAX_INSTITUTION_DOMAINS = 10;
+// Where identity providers return OIDC sign-ins. Set it when ssoCallback is served from a custom domain.
+const ssoCallbackUrl = defineString('SSO_CALLBACK_URL', { default: '' });
+
+function ssoRedirectUri(rawRequest) {
+  return ssoCallbackUrl.value() || `https://${rawRequest.get('host')}/ssoCallback`;
+}
+
+function isoTime(value) {
+  return value?.toDate?.()?.toISOString?.() || null;
+}
+
+async function institutionForEmail(firestore, email) {
+  const domain = emailDomain(email);
+  if (!domain) return null;
+  const claim = (await firestore.collection('institutionDomains').doc(domain).get()).data();
+  if (!claim?.institutionId) return null;
+  const snapshot = await firestore.collection('institutions').doc(claim.institutionId).get();
+  const institution = snapshot.exists ? { id: snapshot.id, ...snapshot.data() } : null;
+  return institution?.verifiedDomains?.includes(domain) ? institution : null;
+}
+
+/** Joining needs proof of the address: a verified email, or a sign-in through the institution's own SSO. */
+function canJoinInstitution(token, institution) {
+  if (token?.ssoInstitutionId === institution.id) return true;
+  if (institution.sso?.protocol === 'saml' && token?.firebase?.sign_in_provider === institution.sso.providerId) return true;
+  return token?.email_verified === true && !ssoPolicyClaim(institution);
+}
+
+/** Keeps `institutionId` and `ssoPolicy` on the member's tokens in step with the institution. */
+async function syncInstitutionClaims(uid, institution) {
+  const user = await getAuth().getUser(uid);
+  const claims = { ...user.customClaims };
+  delete claims.institutionId;
+  delete claims.ssoPolicy;
+  const policy = institution ? ssoPolicyClaim(institution) : null;
+  await getAuth().setCustomUserClaims(uid, {
+    ...claims,
+    ...(institution ? { institutionId: institution.id } : {}),
+    ...(policy ? { ssoPolicy: policy } : {}),
+  });
+}
+
+async function addInstitutionMember(firestore, institution, uid) {
+  const teacherRef = firestore.collection('teachers').doc(uid);
+  const memberRef = firestore.collection('institutions').doc(institution.id).collection('members').doc(uid);
+  await firestore.runTransaction(async (transaction) => {
+    const teacher = (await transaction.get(teacherRef)).data();
+    if (!teacher) throw new HttpsError('not-found', 'Your instructor profile could not be found.');
+    if (teacher.institutionId === institution.id) return;
+    if (teacher.institutionId) throw new HttpsError('already-exists', 'This account already belongs to another institution.');
+    transaction.set(memberRef, {
+      uid,
+      email: teacher.email,
+      name: teacher.name || '',
+      role: 'instructor',
+      seat: false,
+      joinedAt: Timestamp.now(),
+    });
+    transaction.update(teacherRef, { institutionId: institution.id });
+  });
+  await syncInstitutionClaims(uid, institution);
+}
+
+async function institutionAdminContext(firestore, request) {
+  const uid = requireInstructor(request);
+  const teacher = (await firestore.collection('teachers').doc(uid).get()).data();
+  if (!teacher?.institutionId) throw new HttpsError('failed-precondition', 'Your account is not part of an institution.');
+  const institutionRef = firestore.collection('institutions').doc(teacher.institutionId);
+  const [institutionSnapshot, memberSnapshot] = await Promise.all([institutionRef.get(), institutionRef.collection('members').doc(uid).get()]);
+  if (!institutionSnapshot.exists || memberSnapshot.data()?.role !== 'admin') {
+    throw new HttpsError('permission-denied', 'Only institution admins can manage this institution.');
+  }
+  return { uid, institutionRef, institution: { id: institutionSnapshot.id, ...institutionSnapshot.data() } };
+}
+
+function ssoPayload(sso) {
+  if (!sso) return null;
+  return sso.protocol === 'saml'
+    ? { protocol: 'saml', providerId: sso.providerId, required: Boolean(sso.required) }
+    : { protocol: 'oidc', issuer: sso.issuer, clientId: sso.clientId, required: Boolean(sso.required) };
+}
+
+function institutionPayload(institution) {
+  return {
+    id: institution.id,
+    name: institution.name,
+    domains: (institution.domains || []).map((entry) => ({
+      domain: entry.domain,
+      verified: Boolean(entry.verified),
+      record: domainVerificationRecord(entry.verificationToken),
+      verifiedAt: isoTime(entry.verifiedAt),
+    })),
+    seatLimit: Number(institution.seatLimit) || 0,
+    seatsAssigned: Number(institution.seatsAssigned) || 0,
+    sso: ssoPayload(institution.sso),
+    defaults: institution.defaults || {},
+  };
+}
+
+/** Billing to go back to when a seat is released: what the instructor had before, with their pilot usage. */
+function billingWithoutSeat(member, teacher) {
+  return {
+    ...(member.previousBilling || { plan: 'pilot', status: 'pilot' }),
+    pilotSessionsUsed: Number(teacher?.billing?.pilotSessionsUsed) || 0,
+    updatedAt: Timestamp.now(),
+  };
+}
+
+async function institutionMembershipHandler(request) {
+  const uid = requireInstructor(request);
+  const firestore = getFirestore();
+  const teacher = (await firestore.collection('teachers').doc(uid).get()).data();
+  if (teacher?.institutionId) {
+    const institutionRef = firestore.collection('institutions').doc(teacher.institutionId);
+    const [institutionSnapshot, memberSnapshot] = await Promise.all([institutionRef.get(), institutionRef.collection('members').doc(uid).get()]);
+    if (institutionSnapshot.exists && memberSnapshot.exists) {
+      const institution = institutionSnapshot.data();
+      return {
+        institution: {
+          id: institutionSnapshot.id,
+          name: institution.name,
+          sso: institution.sso ? { protocol: institution.sso.protocol, required: Boolean(institution.sso.required) } : null,
+          defaults: institution.defaults || {},
+        },
+        role: memberSnapshot.data().role,
+        seat: Boolean(memberSnapshot.data().seat),
+        joinable: null,
+      };
+    }
+  }
+  const joinable = await institutionForEmail(firestore, normalizeEmail(request.auth.token.email));
+  return {
+    institution: null,
+    role: null,
+    seat: false,
+    joinable: joinable ? { id: joinable.id, name: joinable.name, canJoin: canJoinInstitution(request.auth.token, joinable) } : null,
+  };
+}
+
+async function joinInstitutionHandler(request) {
+  const uid = requireInstructor(request);
+  const firestore = getFirestore();
+  const institution = await institutionForEmail(firestore, normalizeEmail(request.auth.token.email));
+  if (!institution) throw new HttpsError('not-found', 'No institution has verified your email domain.');
+  if (!canJoinInstitution(request.auth.token, institution)) {
+    throw new HttpsError('failed-precondition', ssoPolicyClaim(institution)
+      ? `${institution.name} requires single sign-on. Sign in with single sign-on to join.`
+      : 'Verify your email address before joining your institution.');
+  }
+  await addInstitutionMember(firestore, institution, uid);
+  return { institutionId: institution.id };
+}
+
+async function createInstitutionHandler(request) {
+  const uid = requireInstructor(request);
+  const name = cleanString(request.data?.name, 120);
+  const domain = normalizeDomain(request.data?.domain);
+  const email = normalizeEmail(request.auth.token.email);
+  if (!name) throw new HttpsError('invalid-argument', 'Enter the institution name.');
+  if (!domain) throw new HttpsError('invalid-argument', 'Enter the email domain your institution uses, such as university.edu.');
+  if (emailDomain(email) !== domain) throw new HttpsError('permission-denied', `Create the institution from an ${domain} account.`);
+  if (request.auth.token.email_verified !== true) throw new HttpsError('failed-precondition', 'Verify your email address before creating an institution.');
+
+  const firestore = getFirestore();
+  if ((await firestore.collection('institutionDomains').doc(domain).get()).exists) {
+    throw new HttpsError('already-exists', 'Another institution has already verified this domain. Ask its admin to add you.');
+  }
+  const teacherRef = firestore.collection('teachers').doc(uid);
+  const institutionRef = firestore.collection('institutions').doc();
+  await firestore.runTransaction(async (transaction) => {
+    const teacher = (await transaction.get(teacherRef)).data();
+    if (!teacher) throw new HttpsError('not-found', 'Your instructor profile could not be found.');
+    if (teacher.institutionId) throw new HttpsError('already-exists', 'You already belong to an institution.');
+    const now = Timestamp.now();
+    transaction.create(institutionRef, {
+      name,
+      domains: [{ domain, verificationToken: domainVerificationToken(), verified: false }],
+      verifiedDomains: [],
+      adminUids: [uid],
+      // Set by Classfully staff when the institution's agreement is in place.
+      seatLimit: 0,
+      seatsAssigned: 0,
+      defaults: {},
+      createdBy: uid,
+      createdAt: now,
+      updatedAt: now,
+    });
+    transaction.create(institutionRef.collection('members').doc(uid), {
+      uid,
+      email: teacher.email,
+      name: teacher.name || '',
+      role: 'admin',
+      seat: false,
+      joinedAt: now,
+    });
+    transaction.update(teacherRef, { institutionId: institutionRef.id });
+  });
+  await syncInstitutionClaims(uid, { id: institutionRef.id });
+  return { institutionId: institutionRef.id };
+}
+
+async function institutionConsoleHandler(request) {
+  const firestore = getFirestore();
+  const { institution, institutionRef } = await institutionAdminContext(firestore, request);
+  const [membersSnapshot, secretSnapshot] = await Promise.all([
+    institutionRef.collection('members').get(),
+    firestore.collection('institutionSecrets').doc(institution.id).get(),
+  ]);
+  const members = membersSnapshot.docs.map((document) => document.data());
+  const uids = members.map((member) => member.uid);
+  const courseSnapshots = await Promise.all(Array.from({ length: Math.ceil(uids.length / 30) }, (_, index) =>
+    firestore.collection('courses').where('teacherId', 'in', uids.slice(index * 30, index * 30 + 30)).get()));
+  const courses = courseSnapshots.flatMap((snapshot) => snapshot.docs).map((document) => {
+    const course = document.data();
+    return {
+      id: document.id,
+      name: course.name || '',
+      code: course.code || '',
+      term: course.term || '',
+      teacherId: course.teacherId,
+      archived: course.archived === true,
+      studentCount: (course.studentIds || []).length,
+    };
+  });
+  return {
+    institution: institutionPayload(institution),
+    hasClientSecret: Boolean(secretSnapshot.data()?.oidcClientSecret),
+    callbackUrl: ssoRedirectUri(request.rawRequest),
+    members: members.map((member) => ({
+      uid: member.uid,
+      email: member.email,
+      name: member.name || '',
+      role: member.role,
+      seat: Boolean(member.seat),
+      joinedAt: isoTime(member.joinedAt),
+      lastSsoSignInAt: isoTime(member.lastSsoSignInAt),
+      courseCount: courses.filter((course) => course.teacherId === member.uid && !course.archived).length,
+    })).sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email)),
+    courses: courses.sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+async function manageInstitutionDomainHandler(request, action) {
+  const firestore = getFirestore();
+  const { institution, institutionRef } = await institutionAdminContext(firestore, request);
+  const domain = normalizeDomain(request.data?.domain);
+  if (!domain) throw new HttpsError('invalid-argument', 'Enter a domain your institution owns, such as university.edu.');
+  const entry = (institution.domains || []).find((candidate) => candidate.domain === domain);
+
+  if (action === 'add-domain') {
+    if (entry) throw new HttpsError('already-exists', 'This domain is already listed.');
+    if ((institution.domains || []).length >= MAX_INSTITUTION_DOMAINS) throw new HttpsError('resource-exhausted', `An institution can list up to ${MAX_INSTITUTION_DOMAINS} domains.`);
+    const added = { domain, verificationToken: domainVerificationToken(), verified: false };
+    await institutionRef.update({ domains: [...(institution.domains || []), added], updatedAt: Timestamp.now() });
+    return { domain, record: domainVerificationRecord(added.verificationToken) };
+  }
+  if (!entry) throw new HttpsError('not-found', 'This domain is not listed for your institution.');
+  const claimRef = firestore.collection('institutionDomains').doc(domain);
+
+  if (action === 'remove-domain') {
+    if (entry.verified && (institution.verifiedDomains || []).length === 1 && ssoPolicyClaim(institution)) {
+      throw new HttpsError('failed-precondition', 'Turn off required single sign-on before removing the last verified domain.');
+    }
+    await firestore.runTransaction(async (transaction) => {
+      const claim = (await transaction.get(claimRef)).data();
+      if (claim?.institutionId === institution.id) transaction.delete(claimRef);
+      transaction.update(institutionRef, {
+        domains: (institution.domains || []).filter((candidate) => candidate.domain !== domain),
+        verifiedDomains: FieldValue.arrayRemove(domain),
+        updatedAt: Timestamp.now(),
+      });
+    });
+    return { domain };
+  }
+
+  const records = await resolveTxt(domain).catch(() => []);
+  if (!hasVerificationRecord(records, entry.verificationToken)) {
+    throw new HttpsError('failed-precondition', `Classfully could not find the TXT record on ${domain} yet. DNS changes can take up to an hour to appear.`);
+  }
+  await firestore.runTransaction(async (transaction) => {
+    const claim = (await transaction.get(claimRef)).data();
+    if (claim && claim.institutionId !== institution.id) throw new HttpsError('already-exists', 'Another institution has already verified this domain.');
+    const now = Timestamp.now();
+    transaction.set(claimRef, { institutionId: institution.id, verifiedAt: now });
+    transaction.update(institutionRef, {
+      domains: (institution.domains || []).map((candidate) => candidate.domain === domain ? { ...candidate, verified: true, verifiedAt: now } : candidate),
+      verifiedDomains: FieldValue.arrayUnion(domain),
+      updatedAt: now,
+    });
+  });
+  return { domain, verified: true };
+}
+
+async function manageInstitutionMemberHandler(request, action) {
+  const firestore = getFirestore();
+  const { uid: adminUid, institution, institutionRef } = await institutionAdminContext(firestore, request);
+  const memberUid = cleanString(request.data?.uid, 128);
+  const memberRef = institutionRef.collection('members').doc(memberUid);
+  const teacherRef = firestore.collection('teachers').doc(memberUid);
+  if (!memberUid) throw new HttpsError('invalid-argument', 'Choose an instructor.');
+  if (action === 'remove-member' && memberUid === adminUid) throw new HttpsError('failed-precondition', 'Another admin has to remove you from the institution.');
+  const role = cleanString(request.data?.role, 20);
+  if (action === 'set-role' && !['admin', 'instructor'].includes(role)) throw new HttpsError('invalid-argument', 'Choose admin or instructor.');
+
+  await firestore.runTransaction(async (transaction) => {
+    const [institutionSnapshot, memberSnapshot, teacherSnapshot] = await Promise.all([
+      transaction.get(institutionRef),
+      transaction.get(memberRef),
+      transaction.get(teacherRef),
+    ]);
+    const current = institutionSnapshot.data();
+    const member = memberSnapshot.data();
+    const teacher = teacherSnapshot.data();
+    if (!member) throw new HttpsError('not-found', 'That instructor is not a member of your institution.');
+    const now = Timestamp.now();
+
+    if (action === 'assign-seat') {
+      if (member.seat) return;
+      if (seatsAvailable(current) < 1) throw new HttpsError('resource-exhausted', 'Every seat is assigned. Release a seat or contact Classfully for more.');
+      const billing = accessSnapshot(teacher?.billing);
+      if (billing.paid && billing.plan !== 'institution') {
+        throw new HttpsError('failed-precondition', `${member.name || member.email} has a personal paid plan. Ask them to cancel it before assigning a seat.`);
+      }
+      transaction.update(memberRef, { seat: true, seatAssignedAt: now, previousBilling: teacher?.billing || null });
+      transaction.update(teacherRef, { billing: { ...(teacher?.billing || {}), plan: 'institution', status: 'active', updatedAt: now } });
+      transaction.update(institutionRef, { seatsAssigned: FieldValue.increment(1), updatedAt: now });
+      return;
+    }
+    if (action === 'release-seat' || (action === 'remove-member' && member.seat)) {
+      if (member.seat) {
+        transaction.update(teacherRef, { billing: billingWithoutSeat(member, teacher) });
+        transaction.update(institutionRef, { seatsAssigned: FieldValue.increment(-1), updatedAt: now });
+      }
+      if (action === 'release-seat') {
+        transaction.update(memberRef, { seat: false, seatAssignedAt: FieldValue.delete(), previousBilling: FieldValue.delete() });
+        return;
+      }
+    }
+    if (action === 'set-role') {
+      if (role === 'instructor' && (current.adminUids || []).filter((uid) => uid !== memberUid).length === 0) {
+        throw new HttpsError('failed-precondition', 'An institution needs at least one admin.');
+      }
+      transaction.update(memberRef, { role });
+      transaction.update(institutionRef, { adminUids: role === 'admin' ? FieldValue.arrayUnion(memberUid) : FieldValue.arrayRemove(memberUid), updatedAt: now });
+      return;
+    }
+    transaction.delete(memberRef);
+    if (teacher?.institutionId === institution.id) transaction.update(teacherRef, { institutionId: FieldValue.delete() });
+    transaction.update(institutionRef, { adminUids: FieldValue.arrayRemove(memberUid), updatedAt: now });
+  });
+  if (action === 'remove-member') await syncInstitutionClaims(memberUid, null);
+  return { uid: memberUid };
+}
+
+async function saveInstitutionSsoHandler(request) {
+  const firestore = getFirestore();
+  const { uid, institution, institutionRef } = await institutionAdminContext(firestore, request);
+  const secretRef = firestore.collection('institutionSecrets').doc(institution.id);
+  let settings = null;
+  if (request.data?.sso !== null) {
+    const { sso, error } = cleanSsoSettings(request.data?.sso);
+    if (error) throw new HttpsError('invalid-argument', error);
+    if (sso.required && !(institution.verifiedDomains || []).length) {
+      throw new HttpsError('failed-precondition', 'Verify a domain before requiring single sign-on.');
+    }
+    settings = sso;
+    if (sso.protocol === 'oidc') {
+      const clientSecret = cleanString(request.data?.clientSecret, 500);
+      if (!clientSecret && !(await secretRef.get()).data()?.oidcClientSecret) {
+        throw new HttpsError('invalid-argument', 'Enter the client secret registered for Classfully.');
+      }
+      const endpoints = await discoverOidc(sso.issuer).catch((error) => {
+        throw new HttpsError('failed-precondition', error instanceof SsoError ? error.message : 'The identity provider discovery document could not be read.');
+      });
+      settings = { ...sso, ...endpoints };
+      if (clientSecret) await secretRef.set({ oidcClientSecret: clientSecret, updatedAt: Timestamp.now() });
+    }
+  }
+
+  const updated = { ...institution, sso: settings };
+  const policy = ssoPolicyClaim(updated);
+  // An admin who could not meet the new policy would be signed out of the console that turns it off.
+  if (policy && !satisfiesSsoPolicy({ ...request.auth.token, institutionId: institution.id, ssoPolicy: policy })) {
+    throw new HttpsError('failed-precondition', 'Sign in with single sign-on yourself before requiring it.');
+  }
+  await institutionRef.update({ sso: settings || FieldValue.delete(), updatedAt: Timestamp.now() });
+  if (!settings || settings.protocol !== 'oidc') await secretRef.delete();
+
+  const previousPolicy = ssoPolicyClaim(institution);
+  if (policy !== previousPolicy) {
+    const members = await institutionRef.collection('members').get();
+    for (const member of members.docs) {
+      await syncInstitutionClaims(member.id, updated);
+      // Existing sessions were not made through SSO. Revoking them makes every other member sign in again.
+      if (policy && member.id !== uid) await getAuth().revokeRefreshTokens(member.id);
+    }
+  }
+  return { sso: ssoPayload(settings) };
+}
+
+async function saveInstitutionDefaultsHandler(request) {
+  const firestore = getFirestore();
+  const { institutionRef } = await institutionAdminContext(firestore, request);
+  const defaults = cleanInstitutionDefaults(request.data?.defaults);
+  await institutionRef.update({ defaults, updatedAt: Timestamp.now() });
+  return { defaults };
+}
+
+exports.manageInstitution = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const action = cleanString(request.data?.action, 40);
+    if (action === 'membership') return institutionMembershipHandler(request);
+    if (action === 'join') return joinInstitutionHandler(request);
+    if (action === 'create') return createInstitutionHandler(request);
+    if (action === 'console') return institutionConsoleHandler(request);
+    if (['add-domain', 'verify-domain', 'remove-domain'].includes(action)) return manageInstitutionDomainHandler(request, action);
+    if (['assign-seat', 'release-seat', 'set-role', 'remove-member'].includes(action)) return manageInstitutionMemberHandler(request, action);
+    if (action === 'save-sso') return saveInstitutionSsoHandler(request);
+    if (action === 'save-defaults') return saveInstitutionDefaultsHandler(request);
+    throw new HttpsError('invalid-argument', 'Unknown institution action.');
+  },
+);
+
+async function startInstitutionSignInHandler(request) {
+  const email = normalizeEmail(request.data?.email);
+  if (!emailDomain(email)) throw new HttpsError('invalid-argument', 'Enter your institution email address.');
+  const firestore = getFirestore();
+  const institution = await institutionForEmail(firestore, email);
+  if (!institution?.sso?.protocol) {
+    throw new HttpsError('not-found', `${emailDomain(email)} does not use single sign-on with Classfully. Sign in with your password or Google instead.`);
+  }
+  if (institution.sso.protocol === 'saml') return { protocol: 'saml', providerId: institution.sso.providerId, institutionName: institution.name };
+
+  const state = randomBytes(24).toString('hex');
+  const nonce = randomBytes(24).toString('hex');
+  const pkce = pkcePair();
+  const redirectUri = ssoRedirectUri(request.rawRequest);
+  await firestore.collection('ssoLoginStates').doc(state).set({
+    institutionId: institution.id,
+    nonce,
+    codeVerifier: pkce.verifier,
+    redirectUri,
+    expiresAt: Timestamp.fromMillis(Date.now() + SSO_STATE_TTL_MS),
+  });
+  return {
+    protocol: 'oidc',
+    institutionName: institution.name,
+    authorizationUrl: oidcAuthorizationUrl(institution.sso, { redirectUri, state, nonce, codeChallenge: pkce.challenge, loginHint: email }),
+  };
+}
+
+async function redeemSsoTicketHandler(request) {
+  const ticketId = cleanString(request.data?.ticket, 100);
+  if (!ticketId) throw new HttpsError('invalid-argument', 'Sign in with single sign-on again.');
+  const firestore = getFirestore();
+  const ticketRef = firestore.collection('ssoTickets').doc(ticketId);
+  // Each ticket is used once, so a sign-in link copied from the address bar cannot be replayed.
+  const ticket = await firestore.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ticketRef);
+    if (!snapshot.exists) return null;
+    transaction.delete(ticketRef);
+    return snapshot.data();
+  });
+  if (!ticket || ticket.expiresAt.toMillis() < Date.now()) throw new HttpsError('deadline-exceeded', 'This sign-in has expired. Sign in with single sign-on again.');
+  return { token: await getAuth().createCustomToken(ticket.uid, { ssoInstitutionId: ticket.institutionId }) };
+}
+
+// Called before the user is signed in: it starts an SSO sign-in for an email address, or
+// exchanges the ticket from ssoCallback for a Firebase custom token.
+exports.institutionSignIn = onCall(
+  { region: FUNCTION_REGION, cors: ['https://classfully.com', /localhost:\d+$/] },
+  async (request) => {
+    const action = cleanString(request.data?.action, 20);
+    if (action === 'start') return startInstitutionSignInHandler(request);
+    if (action === 'redeem') return redeemSsoTicketHandler(request);
+    throw new HttpsError('invalid-argument', 'Unknown sign-in action.');
+  },
+);
+
+/** The Firebase user, instructor profile and membership for someone the institution's IdP vouched for. */
+async function ensureSsoInstructor(firestore, institution, identity) {
+  const auth = getAuth();
+  const existing = await auth.getUserByEmail(identity.email).catch((error) => {
+    if (error?.code === 'auth/user-not-found') return null;
+    throw error;
+  });
+  const user = existing || await auth.createUser({ email: identity.email, emailVerified: true, displayName: identity.name });
+  const teacherRef = firestore.collection('teachers').doc(user.uid);
+  const teacher = (await teacherRef.get()).data();
+  if (teacher?.institutionId && teacher.institutionId !== institution.id) {
+    throw new SsoError(`${identity.email} already belongs to another institution in Classfully.`, 409);
+  }
+  if (!teacher) {
+    await teacherRef.create({
+      email: identity.email,
+      name: identity.name,
+      courseIds: [],
+      timeZone: 'UTC',
+      billing: { plan: 'pilot', status: 'pilot', pilotSessionsUsed: 0 },
+      createdAt: Timestamp.now(),
     });
+  }
+  await addInstitutionMember(firestore, institution, user.uid);
+  await firestore.collection('institutions').doc(institution.id).collection('members').doc(user.uid).update({ lastSsoSignInAt: Timestamp.now() });
+  return user.uid;
+}
+
+exports.ssoCallback = onRequest(
+  { region: FUNCTION_REGION, cors: false },
+  async (request, response) => {
+    try {
+      const firestore = getFirestore();
+      const state = cleanString(request.query?.state, 100);
+      if (!state) throw new SsoError('The identity provider did not return to a Classfully sign-in.');
+      const stateRef = firestore.collection('ssoLoginStates').doc(state);
+      // Each state is used once, so a captured callback cannot be replayed.
+      const loginState = await firestore.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(stateRef);
+        if (!snapshot.exists) return null;
+        transaction.delete(stateRef);
+        return snapshot.data();
+      });
+      if (!loginState || loginState.expiresAt.toMillis() < Date.now()) throw new SsoError('This sign-in has expired. Start again from the Classfully sign-in page.', 401);
+      if (request.query?.error) throw new SsoError(`Your identity provider did not complete the sign-in (${cleanString(request.query.error, 100)}).`, 401);
+      const code = cleanString(request.query?.code, 2000);
+      if (!code) throw new SsoError('The identity provider did not return a sign-in code.');
+
+      const snapshot = await firestore.collection('institutions').doc(loginState.institutionId).get();
+      const institution = snapshot.exists ? { id: snapshot.id, ...snapshot.data() } : null;
+      if (institution?.sso?.protocol !== 'oidc') throw new SsoError('This institution no longer signs in with OIDC.', 409);
+      const clientSecret = (await firestore.collection('institutionSecrets').doc(institution.id).get()).data()?.oidcClientSecret;
+      const idToken = await exchangeCode({ sso: institution.sso, clientSecret, code, redirectUri: loginState.redirectUri, codeVerifier: loginState.codeVerifier });
+      const claims = verifyIdToken(idToken, await fetchJwks(institution.sso.jwksUri), {
+        issuer: institution.sso.issuer,
+        clientId: institution.sso.clientId,
+        nonce: loginState.nonce,
+      });
+      const uid = await ensureSsoInstructor(firestore, institution, ssoIdentity(claims, institution));
+
+      const ticket = randomBytes(24).toString('hex');
+      await firestore.collection('ssoTickets').doc(ticket).set({
+        uid,
+        institutionId: institution.id,
+        expiresAt: Timestamp.fromMillis(Date.now() + SSO_TICKET_TTL_MS),
+        createdAt: Timestamp.now(),
+      });
+      response.redirect(302, `${APP_URL}/login/sso?ticket=${ticket}`);
+    } catch (error) {
+      if (!(error instanceof SsoError)) console.error('SSO sign-in failed.', error);
+      sendLtiPage(response, error instanceof SsoError ? error.status : 500, 'We could not sign you in', error instanceof SsoError ? error.message : 'Start again from the Classfully sign-in page.');
+    }
+  },
+);
+
+/** The questions of the case study a session runs, at the version it runs. */
+async function sessionCaseStudyQuestions(firestore, session) {
+  if (!session?.caseStudyId) return [];
+  const caseStudyRef = firestore.collection('casestudies').doc(session.caseStudyId);
+  const caseStudy = (await caseStudyRef.get()).data();
+  if (!caseStudy) return [];
+  let sections = caseStudy.sections || [];
+  if (session.caseStudyVersion && session.caseStudyVersion !== caseStudy.currentVersion) {
+    const version = (await caseStudyRef.collection('versions').doc(String(session.caseStudyVersion)).get()).data();
+    if (version?.sections) sections = version.sections;
+  }
+  return sections.flatMap((section) => (section.questions || []).map((question) => ({ ...question, sectionId: section.id })));
+}
+
+// Students may not write points, so choice answers to a case study are scored here from the option picked.
+exports.scoreChoiceResponse = onDocumentCreated(
+  { document: 'responses/{responseId}', region: FUNCTION_REGION },
+  async (event) => {
+    const response = event.data?.data();
+    if (!response?.sessionId || !response.questionId || response.points !== undefined) return;
+    const firestore = getFirestore();
+    const session = (await firestore.collection('sessions').doc(response.sessionId).get()).data();
+    if (!session || session.caseStudyId !== response.caseStudyId) return;
+    const question = (await sessionCaseStudyQuestions(firestore, session))
+      .find((item) => item.id === response.questionId && item.sectionId === response.sectionId);
+    const points = choiceQuestionPoints(question, response.optionIndex);
+    if (points !== null) await event.data.ref.update({ points, maxPoints: question.points });
+  },
+);
 
-    console.log(`Classfully retention completed. Deleted ${expiredRooms.length} classroom rooms.`);
+// Sessions take the institution's participation mode and AI provider unless they were created with their own.
+exports.applyInstitutionSessionDefaults = onDocumentCreated(
+  { document: 'sessions/{sessionId}', region: FUNCTION_REGION },
+  async (event) => {
+    const session = event.data?.data();
+    if (!session?.teacherId) return;
+    const firestore = getFirestore();
+    const teacher = (await firestore.collection('teachers').doc(session.teacherId).get()).data();
+    if (!teacher?.institutionId) return;
+    const institution = (await firestore.collection('institutions').doc(teacher.institutionId).get()).data();
+    const updates = sessionDefaults(institution?.defaults, session);
+    if (Object.keys(updates).length) await event.data.ref.update(updates);
   },
 );
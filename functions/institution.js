@@ -0,0 +1,153 @@
+'use strict';
+
+const { randomBytes } = require('node:crypto');
+const { RETENTION_CATEGORIES, normalizeRule } = require('./retention');
+
+const INSTITUTION_ROLES = ['admin', 'instructor'];
+const SSO_PROTOCOLS = ['oidc', 'saml'];
+// Mirrors the user-facing choices in src/lib/institution.ts. The stub provider is for tests only.
+const ASSESSMENT_PROVIDERS = ['gemini', 'heuristic'];
+const PARTICIPATION_MODES = ['course-record', 'session-name', 'anonymous'];
+const VERIFICATION_PREFIX = 'classfully-verification=';
+// Anyone can hold an address at these, so they can never prove membership of an institution.
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'yahoo.com',
+  'icloud.com',
+  'me.com',
+  'proton.me',
+  'protonmail.com',
+  'aol.com',
+]);
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const SAML_PROVIDER_PATTERN = /^saml\.[a-z0-9-]{1,60}$/i;
+
+/** A bare lowercase domain from what an admin typed, or '' when it is not one an institution can claim. */
+function normalizeDomain(value) {
+  const domain = typeof value === 'string'
+    ? value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^@/, '').replace(/[/:].*$/, '').replace(/\.$/, '')
+    : '';
+  return DOMAIN_PATTERN.test(domain) && !PUBLIC_EMAIL_DOMAINS.has(domain) ? domain : '';
+}
+
+function emailDomain(email) {
+  const at = typeof email === 'string' ? email.lastIndexOf('@') : -1;
+  return at > 0 ? normalizeDomain(email.slice(at + 1)) : '';
+}
+
+function domainVerificationToken() {
+  return randomBytes(16).toString('hex');
+}
+
+/** The DNS TXT value an admin publishes on the domain to prove the institution controls it. */
+function domainVerificationRecord(token) {
+  return `${VERIFICATION_PREFIX}${token}`;
+}
+
+/** Whether the TXT records from `resolveTxt` include the token. Long records arrive split into chunks. */
+function hasVerificationRecord(txtRecords, token) {
+  if (!token) return false;
+  const expected = domainVerificationRecord(token);
+  return (Array.isArray(txtRecords) ? txtRecords : []).some((chunks) =>
+    (Array.isArray(chunks) ? chunks.join('') : String(chunks)).trim() === expected);
+}
+
+/**
+ * The `ssoPolicy` custom claim for members: 'oidc', or the Firebase SAML provider ID, while the institution
+ * requires SSO. Null otherwise, so the rules let any instructor sign-in through.
+ */
+function ssoPolicyClaim(institution) {
+  const sso = institution?.sso;
+  if (!sso?.required || !SSO_PROTOCOLS.includes(sso.protocol)) return null;
+  return sso.protocol === 'saml' ? sso.providerId || null : 'oidc';
+}
+
+/**
+ * Whether an ID token's sign-in meets its institution's SSO policy. OIDC sign-ins arrive as custom tokens
+ * carrying `ssoInstitutionId`; SAML sign-ins name the provider in `firebase.sign_in_provider`.
+ * Mirrored in firestore.rules, database.rules.json and src/lib/institution.ts.
+ */
+function satisfiesSsoPolicy(token) {
+  const policy = token?.ssoPolicy;
+  if (!policy) return true;
+  if (policy === 'oidc') return Boolean(token.institutionId) && token.ssoInstitutionId === token.institutionId;
+  return token.firebase?.sign_in_provider === policy;
+}
+
+function seatsAvailable(institution) {
+  return Math.max(0, (Number(institution?.seatLimit) || 0) - (Number(institution?.seatsAssigned) || 0));
+}
+
+/** Institution defaults kept from an admin's input. A missing or invalid setting leaves the built-in default. */
+function cleanInstitutionDefaults(input) {
+  const defaults = {};
+  const retention = {};
+  RETENTION_CATEGORIES.forEach((category) => {
+    const rule = normalizeRule(input?.retention?.[category], null);
+    if (rule) retention[category] = rule;
+  });
+  if (Object.keys(retention).length) defaults.retention = retention;
+  if (ASSESSMENT_PROVIDERS.includes(input?.assessmentProvider)) defaults.assessmentProvider = input.assessmentProvider;
+  if (PARTICIPATION_MODES.includes(input?.participationMode)) defaults.participationMode = input.participationMode;
+  return defaults;
+}
+
+function isAllowedIssuer(value) {
+  try {
+    const url = new URL(value);
+    if (url.search || url.hash) return false;
+    return url.protocol === 'https:' || (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * SSO settings from an admin's input, or an error message. OIDC endpoints are not taken from the input;
+ * they are read from the issuer's discovery document when the settings are saved.
+ */
+function cleanSsoSettings(input) {
+  const protocol = SSO_PROTOCOLS.includes(input?.protocol) ? input.protocol : null;
+  if (!protocol) return { error: 'Choose OIDC or SAML.' };
+  const required = input.required === true;
+  if (protocol === 'saml') {
+    const providerId = typeof input.providerId === 'string' ? input.providerId.trim() : '';
+    if (!SAML_PROVIDER_PATTERN.test(providerId)) return { error: 'Enter the SAML provider ID from Firebase, such as saml.university.' };
+    return { sso: { protocol, providerId, required } };
+  }
+  const issuer = typeof input.issuer === 'string' ? input.issuer.trim().replace(/\/$/, '') : '';
+  const clientId = typeof input.clientId === 'string' ? input.clientId.trim().slice(0, 300) : '';
+  if (!isAllowedIssuer(issuer)) return { error: 'Enter the identity provider issuer as an https URL.' };
+  if (!clientId) return { error: 'Enter the client ID registered for Classfully.' };
+  return { sso: { protocol, issuer, clientId, required } };
+}
+
+/** The institution defaults a new session takes, for fields the instructor did not set. */
+function sessionDefaults(defaults, session) {
+  const updates = {};
+  if (defaults?.participationMode && !session?.participationMode) updates.participationMode = defaults.participationMode;
+  if (defaults?.assessmentProvider && !session?.assessmentProvider) updates.assessmentProvider = defaults.assessmentProvider;
+  return updates;
+}
+
+module.exports = {
+  ASSESSMENT_PROVIDERS,
+  INSTITUTION_ROLES,
+  PARTICIPATION_MODES,
+  SSO_PROTOCOLS,
+  cleanInstitutionDefaults,
+  cleanSsoSettings,
+  domainVerificationRecord,
+  domainVerificationToken,
+  emailDomain,
+  hasVerificationRecord,
+  normalizeDomain,
+  satisfiesSsoPolicy,
+  seatsAvailable,
+  sessionDefaults,
+  ssoPolicyClaim,
+};
@@ -0,0 +1,107 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { readFileSync } = require('node:fs');
+const { join } = require('node:path');
+const {
+  cleanInstitutionDefaults,
+  cleanSsoSettings,
+  domainVerificationRecord,
+  emailDomain,
+  hasVerificationRecord,
+  normalizeDomain,
+  satisfiesSsoPolicy,
+  seatsAvailable,
+  sessionDefaults,
+  ssoPolicyClaim,
+} = require('./institution');
+const { resolveRetentionPolicy } = require('./retention');
+
+const SSO_RULE = "(auth.token.ssoPolicy === null || auth.token.firebase.sign_in_provider === auth.token.ssoPolicy || (auth.token.ssoPolicy === 'oidc' && auth.token.ssoInstitutionId === auth.token.institutionId))";
+// Grants to the workspace owner, a teaching team member or any signed-in instructor.
+const INSTRUCTOR_GRANT = /auth\.uid === \$(ownerUid|instructorUid)|child\(auth\.uid\)|sign_in_provider !== 'anonymous'/;
+
+function ruleExpressions(node, path = '') {
+  return Object.entries(node).flatMap(([key, value]) => {
+    if (value && typeof value === 'object') return ruleExpressions(value, `${path}/${key}`);
+    return (key === '.read' || key === '.write') && typeof value === 'string' ? [{ path: `${path} ${key}`, rule: value }] : [];
+  });
+}
+
+test('accepts institution domains and refuses public mail providers', () => {
+  assert.equal(normalizeDomain(' https://Mail.University.EDU/ '), 'mail.university.edu');
+  assert.equal(normalizeDomain('@university.ac.th.'), 'university.ac.th');
+  assert.equal(normalizeDomain('gmail.com'), '');
+  assert.equal(normalizeDomain('localhost'), '');
+  assert.equal(normalizeDomain('-bad-.edu'), '');
+  assert.equal(emailDomain('Dana@University.edu'), 'university.edu');
+  assert.equal(emailDomain('not-an-email'), '');
+});
+
+test('finds the verification token among TXT records, including split ones', () => {
+  const token = 'abc123';
+  assert.equal(domainVerificationRecord(token), 'classfully-verification=abc123');
+  assert.equal(hasVerificationRecord([['v=spf1 -all'], ['classfully-verif', 'ication=abc123']], token), true);
+  assert.equal(hasVerificationRecord([['classfully-verification=other']], token), false);
+  assert.equal(hasVerificationRecord([['classfully-verification=']], ''), false);
+});
+
+test('enforces the SSO policy claim for each protocol', () => {
+  assert.equal(ssoPolicyClaim({ sso: { protocol: 'oidc', required: false } }), null);
+  assert.equal(ssoPolicyClaim({ sso: { protocol: 'oidc', required: true } }), 'oidc');
+  assert.equal(ssoPolicyClaim({ sso: { protocol: 'saml', providerId: 'saml.university', required: true } }), 'saml.university');
+
+  const password = { institutionId: 'inst-1', firebase: { sign_in_provider: 'password' } };
+  assert.equal(satisfiesSsoPolicy(password), true);
+  assert.equal(satisfiesSsoPolicy({ ...password, ssoPolicy: 'oidc' }), false);
+  assert.equal(satisfiesSsoPolicy({ ...password, ssoPolicy: 'oidc', ssoInstitutionId: 'inst-2' }), false);
+  assert.equal(satisfiesSsoPolicy({ institutionId: 'inst-1', ssoPolicy: 'oidc', ssoInstitutionId: 'inst-1', firebase: { sign_in_provider: 'custom' } }), true);
+  assert.equal(satisfiesSsoPolicy({ ...password, ssoPolicy: 'saml.university' }), false);
+  assert.equal(satisfiesSsoPolicy({ institutionId: 'inst-1', ssoPolicy: 'saml.university', firebase: { sign_in_provider: 'saml.university' } }), true);
+});
+
+test('keeps only valid SSO settings', () => {
+  assert.deepEqual(cleanSsoSettings({ protocol: 'oidc', issuer: 'https://idp.university.edu/', clientId: ' classfully ', required: true, tokenEndpoint: 'https://evil.test' }), {
+    sso: { protocol: 'oidc', issuer: 'https://idp.university.edu', clientId: 'classfully', required: true },
+  });
+  assert.ok(cleanSsoSettings({ protocol: 'oidc', issuer: 'http://localhost:9099', clientId: 'c' }).sso);
+  assert.match(cleanSsoSettings({ protocol: 'oidc', issuer: 'http://idp.university.edu', clientId: 'c' }).error, /https/);
+  assert.match(cleanSsoSettings({ protocol: 'saml', providerId: 'university' }).error, /saml\./);
+  assert.match(cleanSsoSettings({ protocol: 'ldap' }).error, /OIDC or SAML/);
+});
+
+test('institution defaults sit beneath workspace and course rules and stamp new sessions', () => {
+  const defaults = cleanInstitutionDefaults({
+    retention: { attendance: { after: 'course-end', days: 30 }, responses: { after: 'sometime' } },
+    assessmentProvider: 'stub',
+    participationMode: 'session-name',
+  });
+  assert.deepEqual(defaults, { retention: { attendance: { after: 'course-end', days: 30 } }, participationMode: 'session-name' });
+
+  const policy = resolveRetentionPolicy({ wellbeing: { after: 'never', days: 0 } }, { wellbeing: { after: 'last-activity', days: 7 } }, {
+    ...defaults.retention,
+    wellbeing: { after: 'course-end', days: 1 },
+  });
+  assert.deepEqual(policy.attendance, { after: 'course-end', days: 30 });
+  assert.deepEqual(policy.wellbeing, { after: 'last-activity', days: 7 });
+  assert.deepEqual(resolveRetentionPolicy({ attendance: { after: 'never', days: 0 } }, {}, defaults.retention).attendance, { after: 'never', days: 0 });
+
+  assert.deepEqual(sessionDefaults({ participationMode: 'anonymous', assessmentProvider: 'heuristic' }, { participationMode: 'course-record' }), { assessmentProvider: 'heuristic' });
+  assert.deepEqual(sessionDefaults(undefined, {}), {});
+});
+
+test('counts the seats left to assign', () => {
+  assert.equal(seatsAvailable({ seatLimit: 10, seatsAssigned: 4 }), 6);
+  assert.equal(seatsAvailable({ seatLimit: 2, seatsAssigned: 3 }), 0);
+  assert.equal(seatsAvailable({}), 0);
+});
+
+// A child grant in the Realtime Database applies even where its parent denies, so every instructor
+// grant has to carry the policy itself. rules.emulator.test.js checks the same nodes against the emulator.
+test('every instructor grant in the Realtime Database rules checks the SSO policy', () => {
+  const { rules } = JSON.parse(readFileSync(join(__dirname, '..', 'database.rules.json'), 'utf8'));
+  const grants = ruleExpressions(rules).filter(({ rule }) => INSTRUCTOR_GRANT.test(rule));
+  assert.ok(grants.length > 20);
+  assert.deepEqual(grants.filter(({ rule }) => !rule.includes(SSO_RULE)).map(({ path }) => path), []);
+});
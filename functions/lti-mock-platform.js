@@ -0,0 +1,153 @@
+'use strict';
+
+const http = require('node:http');
+const { generateKeyPairSync, randomBytes } = require('node:crypto');
+const { AGS_SCOPES, CLAIMS, LTI_VERSION, decodeJwt, publicJwk, signJwt, verifyJwt } = require('./lti');
+
+const INSTRUCTOR_ROLE = 'http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor';
+const LEARNER_ROLE = 'http://purl.imsglobal.org/vocab/lis/v2/membership#Learner';
+
+/**
+ * An in-memory LTI 1.3 platform for tests and local development. It signs launches with its own key,
+ * serves its JWKS, issues AGS tokens to a tool that proves itself with the tool JWKS, and records every
+ * line item and score it receives. Use `fetch` directly in tests or `listen()` to serve it over HTTP.
+ */
+function createMockPlatform({
+  issuer = 'https://lms.example.test',
+  clientId = 'classfully-tool',
+  deploymentId = 'deployment-1',
+  toolJwks,
+  baseUrl = issuer,
+} = {}) {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' });
+  const kid = `mock-${randomBytes(4).toString('hex')}`;
+  const jwks = { keys: [publicJwk(privateKeyPem, kid)] };
+  const lineItems = [];
+  const scores = [];
+  const tokenRequests = [];
+
+  const registration = {
+    name: 'Mock LMS',
+    issuer,
+    clientId,
+    deploymentIds: [deploymentId],
+    authLoginUrl: `${baseUrl}/auth`,
+    tokenUrl: `${baseUrl}/token`,
+    jwksUrl: `${baseUrl}/jwks`,
+  };
+
+  const contextLineItems = `${baseUrl}/contexts/course-1/line_items`;
+
+  function launchClaims({ role = 'learner', messageType = 'LtiResourceLinkRequest', nonce, subject = role === 'instructor' ? 'lms-teacher-1' : 'lms-student-1', ...overrides } = {}) {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      iss: issuer,
+      aud: clientId,
+      sub: subject,
+      iat: now,
+      exp: now + 300,
+      nonce,
+      name: role === 'instructor' ? 'Dana Instructor' : 'Sam Student',
+      email: role === 'instructor' ? 'dana@university.test' : 'sam@university.test',
+      [CLAIMS.messageType]: messageType,
+      [CLAIMS.version]: LTI_VERSION,
+      [CLAIMS.deploymentId]: deploymentId,
+      [CLAIMS.roles]: [role === 'instructor' ? INSTRUCTOR_ROLE : LEARNER_ROLE],
+      [CLAIMS.context]: { id: 'course-1', label: 'STRAT101', title: 'Strategy' },
+      [CLAIMS.targetLinkUri]: 'https://classfully.com/lti',
+      ...(role === 'instructor' ? {} : { [CLAIMS.lis]: { person_sourcedid: 'S1001' } }),
+      ...(messageType === 'LtiResourceLinkRequest'
+        ? {
+          [CLAIMS.resourceLink]: { id: 'resource-1', title: 'Week 1 case' },
+          [CLAIMS.ags]: { scope: [AGS_SCOPES.lineItem, AGS_SCOPES.score], lineitems: contextLineItems },
+        }
+        : {
+          [CLAIMS.deepLinkingSettings]: {
+            deep_link_return_url: `${baseUrl}/deep_links`,
+            accept_types: ['ltiResourceLink'],
+            accept_presentation_document_targets: ['iframe', 'window'],
+            data: 'opaque-platform-data',
+          },
+        }),
+      ...overrides,
+    };
+  }
+
+  function signIdToken(claims) {
+    return signJwt(claims, privateKeyPem, kid);
+  }
+
+  function json(status, body) {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  function authorized(init) {
+    const header = new Headers(init?.headers).get('authorization') || '';
+    return tokenRequests.some((request) => header === `Bearer ${request.accessToken}`);
+  }
+
+  async function handle(url, init = {}) {
+    const { pathname, searchParams } = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    if (pathname === '/jwks') return json(200, jwks);
+    if (pathname === '/token' && method === 'POST') {
+      const body = new URLSearchParams(String(init.body || ''));
+      const assertion = body.get('client_assertion') || '';
+      try {
+        if (toolJwks) verifyJwt(assertion, toolJwks, { issuer: clientId, audience: registration.tokenUrl });
+        else decodeJwt(assertion);
+      } catch (error) {
+        return json(401, { error: 'invalid_client', error_description: error.message });
+      }
+      const accessToken = randomBytes(12).toString('hex');
+      tokenRequests.push({ scope: body.get('scope'), accessToken });
+      return json(200, { access_token: accessToken, token_type: 'Bearer', expires_in: 3600, scope: body.get('scope') });
+    }
+    if (pathname.endsWith('/line_items') && !authorized(init)) return json(401, { error: 'unauthorized' });
+    if (pathname.endsWith('/line_items') && method === 'GET') {
+      const tag = searchParams.get('tag');
+      return json(200, lineItems.filter((item) => !tag || item.tag === tag));
+    }
+    if (pathname.endsWith('/line_items') && method === 'POST') {
+      const item = { ...JSON.parse(String(init.body)), id: `${contextLineItems}/${lineItems.length + 1}` };
+      lineItems.push(item);
+      return json(201, item);
+    }
+    if (pathname.endsWith('/scores') && method === 'POST') {
+      if (!authorized(init)) return json(401, { error: 'unauthorized' });
+      scores.push({ lineItem: url.replace(/\/scores(\?.*)?$/, ''), ...JSON.parse(String(init.body)) });
+      return new Response(null, { status: 204 });
+    }
+    return json(404, { error: 'not_found' });
+  }
+
+  function listen(port = 0) {
+    const server = http.createServer(async (request, response) => {
+      const chunks = [];
+      for await (const chunk of request) chunks.push(chunk);
+      const result = await handle(`${baseUrl}${request.url}`, {
+        method: request.method,
+        headers: request.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+      response.writeHead(result.status, Object.fromEntries(result.headers));
+      response.end(Buffer.from(await result.arrayBuffer()));
+    });
+    return new Promise((resolve) => server.listen(port, () => resolve(server)));
+  }
+
+  return {
+    registration,
+    jwks,
+    lineItems,
+    scores,
+    tokenRequests,
+    launchClaims,
+    signIdToken,
+    fetch: (url, init) => handle(String(url), init),
+    listen,
+  };
+}
+
+module.exports = { INSTRUCTOR_ROLE, LEARNER_ROLE, createMockPlatform };
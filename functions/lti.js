@@ -0,0 +1,340 @@
+'use strict';
+
+const { createHash, createPrivateKey, createPublicKey, sign, verify } = require('node:crypto');
+
+const LTI_VERSION = '1.3.0';
+const LTI_CLAIM = 'https://purl.imsglobal.org/spec/lti/claim';
+const CLAIMS = Object.freeze({
+  messageType: `${LTI_CLAIM}/message_type`,
+  version: `${LTI_CLAIM}/version`,
+  deploymentId: `${LTI_CLAIM}/deployment_id`,
+  targetLinkUri: `${LTI_CLAIM}/target_link_uri`,
+  resourceLink: `${LTI_CLAIM}/resource_link`,
+  roles: `${LTI_CLAIM}/roles`,
+  context: `${LTI_CLAIM}/context`,
+  custom: `${LTI_CLAIM}/custom`,
+  lis: `${LTI_CLAIM}/lis`,
+  deepLinkingSettings: 'https://purl.imsglobal.org/spec/lti-dl/claim/deep_linking_settings',
+  contentItems: 'https://purl.imsglobal.org/spec/lti-dl/claim/content_items',
+  deepLinkingData: 'https://purl.imsglobal.org/spec/lti-dl/claim/data',
+  ags: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint',
+});
+const AGS_SCOPES = Object.freeze({
+  lineItem: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+  score: 'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+});
+const MESSAGE_TYPES = ['LtiResourceLinkRequest', 'LtiDeepLinkingRequest'];
+const COURSE_TOTAL_TAG = 'classfully-course-total';
+const INSTRUCTOR_ROLE_PATTERN = /#(Instructor|Administrator|ContentDeveloper|TeachingAssistant)$|\/membership\/Instructor#/;
+
+class LtiError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'LtiError';
+    this.status = status;
+  }
+}
+
+function base64Url(value) {
+  return Buffer.from(value).toString('base64url');
+}
+
+function parseBase64UrlJson(segment) {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new LtiError('The launch token is not valid JSON.');
+  }
+}
+
+/** Stable document id for LTI records, so issuer URLs and LMS ids never appear in paths. */
+function ltiKey(...parts) {
+  return createHash('sha256').update(parts.map((part) => String(part ?? '')).join('\u0000')).digest('hex');
+}
+
+function signJwt(payload, privateKeyPem, kid) {
+  const header = { alg: 'RS256', typ: 'JWT', kid };
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  const signature = sign('RSA-SHA256', Buffer.from(signingInput), createPrivateKey(privateKeyPem));
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+function decodeJwt(token) {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) throw new LtiError('The launch token is malformed.');
+  return {
+    header: parseBase64UrlJson(parts[0]),
+    payload: parseBase64UrlJson(parts[1]),
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: Buffer.from(parts[2], 'base64url'),
+  };
+}
+
+function publicJwk(keyPem, kid) {
+  const jwk = createPublicKey(keyPem).export({ format: 'jwk' });
+  return { kty: jwk.kty, n: jwk.n, e: jwk.e, kid, alg: 'RS256', use: 'sig' };
+}
+
+/**
+ * Verifies an RS256 token against a platform key set and the registration it claims to come from.
+ * Audience may be an array; the LTI spec then requires `azp` to name this tool.
+ */
+function verifyJwt(token, jwks, { issuer, audience, nonce, now = Date.now(), clockSkewSeconds = 60 } = {}) {
+  const { header, payload, signingInput, signature } = decodeJwt(token);
+  if (header.alg !== 'RS256') throw new LtiError('The launch token must be signed with RS256.');
+  const keys = Array.isArray(jwks?.keys) ? jwks.keys : [];
+  const jwk = header.kid ? keys.find((key) => key.kid === header.kid) : keys.length === 1 ? keys[0] : undefined;
+  if (!jwk) throw new LtiError('The platform key that signed this launch is not published.', 401);
+  const valid = verify('RSA-SHA256', Buffer.from(signingInput), createPublicKey({ key: jwk, format: 'jwk' }), signature);
+  if (!valid) throw new LtiError('The launch token signature is invalid.', 401);
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (issuer && payload.iss !== issuer) throw new LtiError('The launch came from an unexpected platform.', 401);
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (audience && !audiences.includes(audience)) throw new LtiError('The launch was issued for another tool.', 401);
+  if (audience && audiences.length > 1 && payload.azp !== audience) throw new LtiError('The launch was issued for another tool.', 401);
+  if (typeof payload.exp !== 'number' || payload.exp + clockSkewSeconds < nowSeconds) throw new LtiError('The launch has expired. Open the link from your LMS again.', 401);
+  if (typeof payload.iat === 'number' && payload.iat - clockSkewSeconds > nowSeconds) throw new LtiError('The launch token is not valid yet.', 401);
+  if (nonce !== undefined && payload.nonce !== nonce) throw new LtiError('The launch could not be matched to its login request.', 401);
+  return payload;
+}
+
+function cleanLtiString(value, maxLength = 500) {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+/**
+ * Step one of the OIDC third-party login. Returns the platform authorization URL the browser is sent to,
+ * carrying the one-time state and nonce the launch must echo back.
+ */
+function buildLoginRedirect(params, platform, { redirectUri, state, nonce }) {
+  const issuer = cleanLtiString(params.iss);
+  const loginHint = cleanLtiString(params.login_hint, 2000);
+  const targetLinkUri = cleanLtiString(params.target_link_uri, 2000);
+  if (!issuer || !loginHint || !targetLinkUri) throw new LtiError('The LMS login request is missing iss, login_hint or target_link_uri.');
+  if (!platform || platform.issuer !== issuer) throw new LtiError('This LMS is not registered with Classfully.', 404);
+  if (params.client_id && params.client_id !== platform.clientId) throw new LtiError('This LMS registration uses a different client ID.', 404);
+
+  const url = new URL(platform.authLoginUrl);
+  url.searchParams.set('scope', 'openid');
+  url.searchParams.set('response_type', 'id_token');
+  url.searchParams.set('response_mode', 'form_post');
+  url.searchParams.set('prompt', 'none');
+  url.searchParams.set('client_id', platform.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('login_hint', loginHint);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  if (params.lti_message_hint) url.searchParams.set('lti_message_hint', cleanLtiString(params.lti_message_hint, 2000));
+  return url.toString();
+}
+
+function isInstructorRole(roles) {
+  return (Array.isArray(roles) ? roles : []).some((role) => typeof role === 'string' && INSTRUCTOR_ROLE_PATTERN.test(role));
+}
+
+/** Reads the LTI claims Classfully uses from a verified id_token and rejects launches it cannot serve. */
+function parseLaunch(claims, platform) {
+  const messageType = claims[CLAIMS.messageType];
+  if (!MESSAGE_TYPES.includes(messageType)) throw new LtiError(`Classfully does not support ${messageType || 'this'} launches.`);
+  if (claims[CLAIMS.version] !== LTI_VERSION) throw new LtiError('Classfully supports LTI 1.3.0 launches only.');
+  const deploymentId = cleanLtiString(claims[CLAIMS.deploymentId], 255);
+  if (!deploymentId || !(platform.deploymentIds || []).includes(deploymentId)) throw new LtiError('This LMS deployment is not registered with Classfully.', 403);
+  const subject = cleanLtiString(claims.sub, 255);
+  if (!subject) throw new LtiError('The launch does not identify the LMS user.');
+
+  const context = claims[CLAIMS.context] || {};
+  const resourceLink = claims[CLAIMS.resourceLink] || {};
+  const lis = claims[CLAIMS.lis] || {};
+  const custom = claims[CLAIMS.custom] && typeof claims[CLAIMS.custom] === 'object' ? claims[CLAIMS.custom] : {};
+  const ags = claims[CLAIMS.ags] || null;
+  const deepLinking = claims[CLAIMS.deepLinkingSettings] || null;
+  if (messageType === 'LtiResourceLinkRequest' && !resourceLink.id) throw new LtiError('The launch does not include a resource link.');
+  if (messageType === 'LtiDeepLinkingRequest' && !deepLinking?.deep_link_return_url) throw new LtiError('The deep linking request has no return URL.');
+  const roles = Array.isArray(claims[CLAIMS.roles]) ? claims[CLAIMS.roles] : [];
+
+  return {
+    messageType,
+    issuer: claims.iss,
+    clientId: platform.clientId,
+    deploymentId,
+    user: {
+      subject,
+      name: cleanLtiString(claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' '), 120),
+      email: cleanLtiString(claims.email, 254).toLowerCase(),
+      // Institutions put the student number in custom.student_id or the LIS person sourcedid.
+      studentNumber: cleanLtiString(custom.student_id || lis.person_sourcedid, 64),
+      roles,
+      isInstructor: isInstructorRole(roles),
+    },
+    context: context.id ? { id: cleanLtiString(context.id, 255), label: cleanLtiString(context.label, 120), title: cleanLtiString(context.title, 200) } : null,
+    resourceLink: resourceLink.id ? { id: cleanLtiString(resourceLink.id, 255), title: cleanLtiString(resourceLink.title, 200) } : null,
+    targetLinkUri: cleanLtiString(claims[CLAIMS.targetLinkUri], 2000),
+    custom,
+    ags: ags ? {
+      lineItem: cleanLtiString(ags.lineitem, 2000),
+      lineItems: cleanLtiString(ags.lineitems, 2000),
+      scope: Array.isArray(ags.scope) ? ags.scope : [],
+    } : null,
+    deepLinking: deepLinking ? {
+      returnUrl: cleanLtiString(deepLinking.deep_link_return_url, 2000),
+      acceptTypes: Array.isArray(deepLinking.accept_types) ? deepLinking.accept_types : [],
+      acceptMultiple: deepLinking.accept_multiple !== false,
+      // Null rather than undefined: the parsed launch is stored in Firestore until the instructor finishes.
+      data: typeof deepLinking.data === 'string' ? deepLinking.data : null,
+    } : null,
+  };
+}
+
+/**
+ * The resource a launch opens: custom parameters placed by deep linking win, then the target link URI
+ * query (`?session=` or `?caseStudy=`).
+ */
+function launchTarget(launch) {
+  const custom = launch.custom || {};
+  if (custom.classfully_session_id) return { type: 'session', id: cleanLtiString(custom.classfully_session_id, 160) };
+  if (custom.classfully_case_study_id) return { type: 'caseStudy', id: cleanLtiString(custom.classfully_case_study_id, 160) };
+  try {
+    const url = new URL(launch.targetLinkUri);
+    const sessionId = url.searchParams.get('session');
+    const caseStudyId = url.searchParams.get('caseStudy');
+    if (sessionId) return { type: 'session', id: cleanLtiString(sessionId, 160) };
+    if (caseStudyId) return { type: 'caseStudy', id: cleanLtiString(caseStudyId, 160) };
+  } catch {
+    // A missing or relative target URI simply opens the course.
+  }
+  return null;
+}
+
+/** Student number used for the Classfully Student record; falls back to a stable LMS-derived id. */
+function studentNumberForLaunch(launch) {
+  const raw = launch.user.studentNumber || `LTI-${ltiKey(launch.issuer, launch.user.subject).slice(0, 12)}`;
+  return raw.trim().toUpperCase().replace(/\s+/g, '').replace(/[^A-Z0-9._-]/g, '').slice(0, 32);
+}
+
+/** Payload of the LtiDeepLinkingResponse the tool signs and posts back to the platform. */
+function buildDeepLinkingResponse({ launch, items, toolUrl, now = Date.now() }) {
+  if (!launch.deepLinking) throw new LtiError('This launch is not a deep linking request.');
+  const allowed = launch.deepLinking.acceptTypes.length === 0 || launch.deepLinking.acceptTypes.includes('ltiResourceLink');
+  if (!allowed) throw new LtiError('This LMS placement does not accept LTI links.');
+  const chosen = launch.deepLinking.acceptMultiple ? items : items.slice(0, 1);
+  const issuedAt = Math.floor(now / 1000);
+  return {
+    iss: launch.clientId,
+    aud: launch.issuer,
+    iat: issuedAt,
+    exp: issuedAt + 300,
+    nonce: ltiKey(launch.issuer, launch.user.subject, now).slice(0, 32),
+    [CLAIMS.messageType]: 'LtiDeepLinkingResponse',
+    [CLAIMS.version]: LTI_VERSION,
+    [CLAIMS.deploymentId]: launch.deploymentId,
+    [CLAIMS.contentItems]: chosen.map((item) => ({
+      type: 'ltiResourceLink',
+      title: item.title,
+      url: `${toolUrl}?${item.type}=${encodeURIComponent(item.id)}`,
+      custom: item.type === 'session' ? { classfully_session_id: item.id } : { classfully_case_study_id: item.id },
+      ...(item.scoreMaximum ? { lineItem: { scoreMaximum: item.scoreMaximum, label: item.title, resourceId: `${item.type}:${item.id}` } } : {}),
+    })),
+    ...(launch.deepLinking.data ? { [CLAIMS.deepLinkingData]: launch.deepLinking.data } : {}),
+  };
+}
+
+/** AGS score publish payload for a StudentGrade total. */
+function buildScore({ userId, scoreGiven, scoreMaximum, timestamp = new Date().toISOString(), comment }) {
+  return {
+    userId,
+    scoreGiven: Math.max(0, Math.round(Number(scoreGiven) * 100) / 100 || 0),
+    scoreMaximum: Math.max(0, Number(scoreMaximum) || 0),
+    activityProgress: 'Completed',
+    gradingProgress: 'FullyGraded',
+    timestamp,
+    ...(comment ? { comment } : {}),
+  };
+}
+
+function scoresUrl(lineItemUrl) {
+  const url = new URL(lineItemUrl);
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/scores`;
+  return url.toString();
+}
+
+async function requestAgsToken({ platform, privateKeyPem, kid, scopes = [AGS_SCOPES.lineItem, AGS_SCOPES.score], fetchImpl = fetch, now = Date.now() }) {
+  const issuedAt = Math.floor(now / 1000);
+  const assertion = signJwt({
+    iss: platform.clientId,
+    sub: platform.clientId,
+    aud: platform.tokenAudience || platform.tokenUrl,
+    iat: issuedAt,
+    exp: issuedAt + 300,
+    jti: ltiKey(platform.clientId, now, Math.random()),
+  }, privateKeyPem, kid);
+  const response = await fetchImpl(platform.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+      client_assertion: assertion,
+      scope: scopes.join(' '),
+    }).toString(),
+  });
+  if (!response.ok) throw new LtiError(`The LMS refused the grade service token (${response.status}).`, 502);
+  const payload = await response.json();
+  if (!payload.access_token) throw new LtiError('The LMS did not return a grade service token.', 502);
+  return payload.access_token;
+}
+
+/** Finds the course-total line item by tag, creating it when the platform allows. */
+async function ensureCourseLineItem({ lineItemsUrl, accessToken, label, scoreMaximum, fetchImpl = fetch }) {
+  const listUrl = new URL(lineItemsUrl);
+  listUrl.searchParams.set('tag', COURSE_TOTAL_TAG);
+  const listResponse = await fetchImpl(listUrl.toString(), {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/vnd.ims.lis.v2.lineitemcontainer+json' },
+  });
+  if (!listResponse.ok) throw new LtiError(`The LMS line items could not be read (${listResponse.status}).`, 502);
+  const existing = (await listResponse.json()).find?.((item) => item.tag === COURSE_TOTAL_TAG);
+  if (existing?.id) return existing.id;
+
+  const createResponse = await fetchImpl(lineItemsUrl, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/vnd.ims.lis.v2.lineitem+json' },
+    body: JSON.stringify({ label, scoreMaximum, tag: COURSE_TOTAL_TAG }),
+  });
+  if (!createResponse.ok) throw new LtiError(`The LMS line item could not be created (${createResponse.status}).`, 502);
+  const created = await createResponse.json();
+  if (!created.id) throw new LtiError('The LMS did not return the new line item.', 502);
+  return created.id;
+}
+
+async function postScore({ lineItemUrl, accessToken, score, fetchImpl = fetch }) {
+  const response = await fetchImpl(scoresUrl(lineItemUrl), {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/vnd.ims.lis.v1.score+json' },
+    body: JSON.stringify(score),
+  });
+  if (!response.ok) throw new LtiError(`The LMS rejected a score (${response.status}).`, 502);
+}
+
+module.exports = {
+  AGS_SCOPES,
+  CLAIMS,
+  COURSE_TOTAL_TAG,
+  LTI_VERSION,
+  LtiError,
+  buildDeepLinkingResponse,
+  buildLoginRedirect,
+  buildScore,
+  decodeJwt,
+  ensureCourseLineItem,
+  isInstructorRole,
+  launchTarget,
+  ltiKey,
+  parseLaunch,
+  postScore,
+  publicJwk,
+  requestAgsToken,
+  scoresUrl,
+  signJwt,
+  studentNumberForLaunch,
+  verifyJwt,
+};
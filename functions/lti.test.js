@@ -0,0 +1,171 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { generateKeyPairSync } = require('node:crypto');
+const {
+  CLAIMS,
+  buildDeepLinkingResponse,
+  buildLoginRedirect,
+  buildScore,
+  decodeJwt,
+  ensureCourseLineItem,
+  launchTarget,
+  parseLaunch,
+  postScore,
+  publicJwk,
+  requestAgsToken,
+  scoresUrl,
+  studentNumberForLaunch,
+  verifyJwt,
+} = require('./lti');
+const { createMockPlatform } = require('./lti-mock-platform');
+
+const toolKeyPem = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ type: 'pkcs8', format: 'pem' });
+const toolJwks = { keys: [publicJwk(toolKeyPem, 'tool-1')] };
+const platform = createMockPlatform({ toolJwks });
+const { registration } = platform;
+
+test('login initiation redirects to the platform with state and nonce', () => {
+  const url = new URL(buildLoginRedirect({
+    iss: registration.issuer,
+    login_hint: 'user-123',
+    target_link_uri: 'https://classfully.com/lti',
+    lti_message_hint: 'hint',
+    client_id: registration.clientId,
+  }, registration, { redirectUri: 'https://tool.test/ltiLaunch', state: 'state-1', nonce: 'nonce-1' }));
+  assert.equal(url.origin + url.pathname, registration.authLoginUrl);
+  assert.equal(url.searchParams.get('response_mode'), 'form_post');
+  assert.equal(url.searchParams.get('prompt'), 'none');
+  assert.equal(url.searchParams.get('client_id'), registration.clientId);
+  assert.equal(url.searchParams.get('state'), 'state-1');
+  assert.equal(url.searchParams.get('nonce'), 'nonce-1');
+  assert.equal(url.searchParams.get('lti_message_hint'), 'hint');
+});
+
+test('login initiation rejects unregistered platforms and incomplete requests', () => {
+  const options = { redirectUri: 'https://tool.test/ltiLaunch', state: 's', nonce: 'n' };
+  assert.throws(() => buildLoginRedirect({ iss: 'https://other.test', login_hint: 'u', target_link_uri: 'x' }, registration, options), /not registered/);
+  assert.throws(() => buildLoginRedirect({ iss: registration.issuer, target_link_uri: 'x' }, registration, options), /missing/);
+  assert.throws(() => buildLoginRedirect({ iss: registration.issuer, login_hint: 'u', target_link_uri: 'x', client_id: 'someone-else' }, registration, options), /different client/);
+});
+
+test('launch tokens verify against the platform JWKS', async () => {
+  const jwks = await (await platform.fetch(registration.jwksUrl)).json();
+  const token = platform.signIdToken(platform.launchClaims({ nonce: 'nonce-1' }));
+  const claims = verifyJwt(token, jwks, { issuer: registration.issuer, audience: registration.clientId, nonce: 'nonce-1' });
+  assert.equal(claims.sub, 'lms-student-1');
+});
+
+test('launch verification rejects forged, replayed and misdirected tokens', () => {
+  const options = { issuer: registration.issuer, audience: registration.clientId, nonce: 'nonce-1' };
+  const claims = platform.launchClaims({ nonce: 'nonce-1' });
+  const forged = createMockPlatform().signIdToken(claims);
+  assert.throws(() => verifyJwt(forged, platform.jwks, options), /key that signed|signature/);
+
+  const token = platform.signIdToken(claims);
+  const [header, , signature] = token.split('.');
+  const tampered = `${header}.${Buffer.from(JSON.stringify({ ...claims, sub: 'someone-else' })).toString('base64url')}.${signature}`;
+  assert.throws(() => verifyJwt(tampered, platform.jwks, options), /signature is invalid/);
+
+  assert.throws(() => verifyJwt(token, platform.jwks, { ...options, nonce: 'other' }), /login request/);
+  assert.throws(() => verifyJwt(token, platform.jwks, { ...options, audience: 'another-tool' }), /another tool/);
+  assert.throws(() => verifyJwt(token, platform.jwks, { ...options, now: Date.now() + 10 * 60 * 1000 }), /expired/);
+  const multiAudience = platform.signIdToken({ ...claims, aud: [registration.clientId, 'another-tool'] });
+  assert.throws(() => verifyJwt(multiAudience, platform.jwks, options), /another tool/);
+  assert.ok(verifyJwt(platform.signIdToken({ ...claims, aud: [registration.clientId, 'x'], azp: registration.clientId }), platform.jwks, options));
+});
+
+test('resource link launches map the LMS user, course and target', () => {
+  const learner = parseLaunch(platform.launchClaims({
+    [CLAIMS.targetLinkUri]: 'https://classfully.com/lti?session=session-42',
+  }), registration);
+  assert.equal(learner.messageType, 'LtiResourceLinkRequest');
+  assert.equal(learner.user.isInstructor, false);
+  assert.equal(learner.user.studentNumber, 'S1001');
+  assert.equal(learner.context.id, 'course-1');
+  assert.equal(learner.resourceLink.id, 'resource-1');
+  assert.equal(learner.ags.lineItems, `${registration.issuer}/contexts/course-1/line_items`);
+  assert.deepEqual(launchTarget(learner), { type: 'session', id: 'session-42' });
+  assert.equal(studentNumberForLaunch(learner), 'S1001');
+
+  const instructor = parseLaunch(platform.launchClaims({ role: 'instructor', [CLAIMS.custom]: { classfully_case_study_id: 'case-7' } }), registration);
+  assert.equal(instructor.user.isInstructor, true);
+  assert.deepEqual(launchTarget(instructor), { type: 'caseStudy', id: 'case-7' });
+  assert.match(studentNumberForLaunch(instructor), /^LTI-[0-9A-F]{12}$/);
+
+  assert.throws(() => parseLaunch(platform.launchClaims({ [CLAIMS.deploymentId]: 'unknown' }), registration), /deployment/);
+  assert.throws(() => parseLaunch(platform.launchClaims({ [CLAIMS.version]: '1.1' }), registration), /1\.3\.0/);
+});
+
+test('deep linking returns signed LTI resource links for sessions and case studies', () => {
+  const launch = parseLaunch(platform.launchClaims({ role: 'instructor', messageType: 'LtiDeepLinkingRequest' }), registration);
+  const payload = buildDeepLinkingResponse({
+    launch,
+    toolUrl: 'https://classfully.com/lti',
+    items: [
+      { type: 'session', id: 'session-42', title: 'Week 1 live class', scoreMaximum: 20 },
+      { type: 'caseStudy', id: 'case-7', title: 'Pricing case' },
+    ],
+  });
+  assert.equal(payload.iss, registration.clientId);
+  assert.equal(payload.aud, registration.issuer);
+  assert.equal(payload[CLAIMS.messageType], 'LtiDeepLinkingResponse');
+  assert.equal(payload[CLAIMS.deepLinkingData], 'opaque-platform-data');
+  const [session, caseStudy] = payload[CLAIMS.contentItems];
+  assert.equal(session.url, 'https://classfully.com/lti?session=session-42');
+  assert.deepEqual(session.custom, { classfully_session_id: 'session-42' });
+  assert.equal(session.lineItem.scoreMaximum, 20);
+  assert.deepEqual(caseStudy.custom, { classfully_case_study_id: 'case-7' });
+  assert.equal(caseStudy.lineItem, undefined);
+
+  const resourceLaunch = parseLaunch(platform.launchClaims(), registration);
+  assert.throws(() => buildDeepLinkingResponse({ launch: resourceLaunch, items: [], toolUrl: 'x' }), /not a deep linking/);
+});
+
+test('grade passback posts StudentGrade totals to the course line item', async () => {
+  const accessToken = await requestAgsToken({ platform: registration, privateKeyPem: toolKeyPem, kid: 'tool-1', fetchImpl: platform.fetch });
+  assert.ok(accessToken);
+  const lineItemsUrl = `${registration.issuer}/contexts/course-1/line_items`;
+  const lineItem = await ensureCourseLineItem({ lineItemsUrl, accessToken, label: 'Classfully total', scoreMaximum: 50, fetchImpl: platform.fetch });
+  assert.equal(await ensureCourseLineItem({ lineItemsUrl, accessToken, label: 'Classfully total', scoreMaximum: 50, fetchImpl: platform.fetch }), lineItem, 'the tagged line item is reused');
+  assert.equal(platform.lineItems.length, 1);
+
+  const score = buildScore({ userId: 'lms-student-1', scoreGiven: 41.256, scoreMaximum: 50, timestamp: '2026-10-01T00:00:00.000Z' });
+  assert.deepEqual(score, {
+    userId: 'lms-student-1',
+    scoreGiven: 41.26,
+    scoreMaximum: 50,
+    activityProgress: 'Completed',
+    gradingProgress: 'FullyGraded',
+    timestamp: '2026-10-01T00:00:00.000Z',
+  });
+  await postScore({ lineItemUrl: lineItem, accessToken, score, fetchImpl: platform.fetch });
+  assert.equal(platform.scores.length, 1);
+  assert.equal(platform.scores[0].lineItem, lineItem);
+  assert.equal(platform.scores[0].scoreGiven, 41.26);
+  await assert.rejects(postScore({ lineItemUrl: lineItem, accessToken: 'wrong', score, fetchImpl: platform.fetch }), /rejected a score/);
+});
+
+test('grade service tokens need a client assertion signed by the registered tool key', async () => {
+  const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ type: 'pkcs8', format: 'pem' });
+  await assert.rejects(requestAgsToken({ platform: registration, privateKeyPem: otherKey, kid: 'tool-1', fetchImpl: platform.fetch }), /refused/);
+  const [tokenRequest] = platform.tokenRequests;
+  assert.match(tokenRequest.scope, /lti-ags\/scope\/score/);
+});
+
+test('score URLs keep the line item query string', () => {
+  assert.equal(scoresUrl('https://lms.test/line_items/9?type_id=1'), 'https://lms.test/line_items/9/scores?type_id=1');
+  assert.equal(decodeJwt(platform.signIdToken({ a: 1 })).header.alg, 'RS256');
+});
+
+test('the mock platform serves launches and scores over HTTP', async () => {
+  const server = await platform.listen(0);
+  try {
+    const { port } = server.address();
+    const jwks = await (await fetch(`http://127.0.0.1:${port}/jwks`)).json();
+    assert.deepEqual(jwks, platform.jwks);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
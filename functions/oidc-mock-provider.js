@@ -0,0 +1,133 @@
+'use strict';
+
+const http = require('node:http');
+const { createHash, generateKeyPairSync, randomBytes } = require('node:crypto');
+const { publicJwk, signJwt } = require('./lti');
+
+/**
+ * An in-memory OpenID Connect provider for tests and local development. It publishes discovery and JWKS,
+ * issues authorization codes for the users it is given, and redeems them at /token only for the
+ * registered client with the matching secret, redirect URI and PKCE verifier. Use `fetch` directly in
+ * tests or `listen()` to serve it over HTTP.
+ */
+function createMockOidcProvider({
+  issuer = 'https://idp.university.test',
+  clientId = 'classfully',
+  clientSecret = 'mock-client-secret',
+  baseUrl = issuer,
+} = {}) {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' });
+  const kid = `mock-${randomBytes(4).toString('hex')}`;
+  const jwks = { keys: [publicJwk(privateKeyPem, kid)] };
+  const codes = new Map();
+  const tokenRequests = [];
+
+  const discovery = {
+    issuer,
+    authorization_endpoint: `${baseUrl}/authorize`,
+    token_endpoint: `${baseUrl}/token`,
+    jwks_uri: `${baseUrl}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  };
+
+  function userClaims({ email = 'dana@university.test', name = 'Dana Instructor', subject = 'idp-user-1', ...overrides } = {}) {
+    return { sub: subject, email, email_verified: true, name, ...overrides };
+  }
+
+  /**
+   * What the provider does after the user signs in at an authorization URL: the redirect back to the
+   * client with a one-time code, or with an error when the request is not from the registered client.
+   */
+  function authorize(authorizationUrl, user = {}) {
+    const params = new URL(authorizationUrl).searchParams;
+    const redirect = new URL(params.get('redirect_uri'));
+    redirect.searchParams.set('state', params.get('state') || '');
+    if (params.get('client_id') !== clientId || params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256') {
+      redirect.searchParams.set('error', 'unauthorized_client');
+      return redirect.toString();
+    }
+    const code = randomBytes(12).toString('hex');
+    codes.set(code, {
+      redirectUri: params.get('redirect_uri'),
+      codeChallenge: params.get('code_challenge'),
+      nonce: params.get('nonce'),
+      claims: userClaims(user),
+    });
+    redirect.searchParams.set('code', code);
+    return redirect.toString();
+  }
+
+  function signIdToken(claims) {
+    return signJwt(claims, privateKeyPem, kid);
+  }
+
+  function json(status, body) {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  function redeem(body) {
+    const grant = codes.get(body.get('code'));
+    codes.delete(body.get('code'));
+    if (body.get('client_id') !== clientId || body.get('client_secret') !== clientSecret) return json(401, { error: 'invalid_client' });
+    if (!grant || body.get('grant_type') !== 'authorization_code') return json(400, { error: 'invalid_grant' });
+    if (body.get('redirect_uri') !== grant.redirectUri) return json(400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+    const challenge = createHash('sha256').update(body.get('code_verifier') || '').digest('base64url');
+    if (challenge !== grant.codeChallenge) return json(400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = signIdToken({ iss: issuer, aud: clientId, iat: now, exp: now + 300, nonce: grant.nonce, ...grant.claims });
+    return json(200, { access_token: randomBytes(12).toString('hex'), token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  }
+
+  async function handle(url, init = {}) {
+    const { pathname } = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    if (pathname === '/.well-known/openid-configuration') return json(200, discovery);
+    if (pathname === '/jwks') return json(200, jwks);
+    if (pathname === '/token' && method === 'POST') {
+      const body = new URLSearchParams(String(init.body || ''));
+      tokenRequests.push(Object.fromEntries(body));
+      return redeem(body);
+    }
+    if (pathname === '/authorize') {
+      // Served over HTTP there is no sign-in form: the login hint, when given, is the user who signs in.
+      const loginHint = new URL(url).searchParams.get('login_hint');
+      return new Response(null, { status: 302, headers: { Location: authorize(url, loginHint ? { email: loginHint } : {}) } });
+    }
+    return json(404, { error: 'not_found' });
+  }
+
+  function listen(port = 0) {
+    const server = http.createServer(async (request, response) => {
+      const chunks = [];
+      for await (const chunk of request) chunks.push(chunk);
+      const result = await handle(`${baseUrl}${request.url}`, {
+        method: request.method,
+        headers: request.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+      response.writeHead(result.status, Object.fromEntries(result.headers));
+      response.end(Buffer.from(await result.arrayBuffer()));
+    });
+    return new Promise((resolve) => server.listen(port, () => resolve(server)));
+  }
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    discovery,
+    jwks,
+    tokenRequests,
+    authorize,
+    userClaims,
+    signIdToken,
+    fetch: (url, init) => handle(String(url), init),
+    listen,
+  };
+}
+
+module.exports = { createMockOidcProvider };
@@ -0,0 +1,74 @@
+'use strict';
+
+// Mirrors src/lib/knowledge-check-scoring.ts and POINT_RULES in src/app/live/student/rewards.ts.
+const KNOWLEDGE_CHECK_CORRECT_POINTS = 8;
+const STRONG_SECOND_ANSWER_POINTS = 6;
+const DEFAULT_SPEED_BONUS_POINTS = 4;
+const DEFAULT_SPEED_BONUS_SECONDS = 40;
+const SCORED_INTERACTION_TYPES = ['quiz', 'peer-learning'];
+
+function calculateSpeedBonus(startedAt, submittedAt, windowSeconds = DEFAULT_SPEED_BONUS_SECONDS, maximumPoints = DEFAULT_SPEED_BONUS_POINTS) {
+  if (!Number.isFinite(startedAt) || !Number.isFinite(submittedAt) || submittedAt < startedAt) return 0;
+  const safeWindowSeconds = Math.max(1, Number(windowSeconds) || DEFAULT_SPEED_BONUS_SECONDS);
+  const safeMaximumPoints = Math.max(0, Math.round(Number(maximumPoints ?? DEFAULT_SPEED_BONUS_POINTS) || 0));
+  if (!safeMaximumPoints) return 0;
+  const elapsedSeconds = (submittedAt - startedAt) / 1000;
+  if (elapsedSeconds > safeWindowSeconds) return 0;
+  const bandSeconds = safeWindowSeconds / safeMaximumPoints;
+  const elapsedBand = Math.min(safeMaximumPoints - 1, Math.max(0, Math.ceil(elapsedSeconds / bandSeconds) - 1));
+  return safeMaximumPoints - elapsedBand;
+}
+
+/**
+ * Points for one student's answer to a revealed knowledge check, keyed by the event id the student
+ * ledger uses. `submittedAt` must be the server's receipt time, never the browser's clock.
+ */
+function scoreResponse({ interaction, answerKey, startedAt, response }) {
+  if (!interaction || !SCORED_INTERACTION_TYPES.includes(interaction.type)) return {};
+  if (!answerKey || !Number.isInteger(answerKey.correctOptionIndex)) return {};
+  if (!response || response.optionIndex !== answerKey.correctOptionIndex) return {};
+  if (interaction.type === 'peer-learning') {
+    return { correct: { amount: STRONG_SECOND_ANSWER_POINTS, label: 'Strong second answer' } };
+  }
+  const awards = { correct: { amount: KNOWLEDGE_CHECK_CORRECT_POINTS, label: 'Correct knowledge check' } };
+  if (interaction.speedBonusEnabled) {
+    const speedBonus = calculateSpeedBonus(Number(startedAt), Number(response.submittedAt), interaction.speedBonusSeconds, interaction.maxSpeedBonusPoints);
+    if (speedBonus > 0) awards.speed = { amount: speedBonus, label: 'Speed bonus' };
+  }
+  return awards;
+}
+
+/**
+ * Points for a case study choice question, scored from the option the student picked. Feedback questions
+ * have no wrong answer. Null for question types an instructor grades.
+ */
+function choiceQuestionPoints(question, optionIndex) {
+  const maximum = Math.max(0, Number(question?.points) || 0);
+  if (question?.type === 'multiple-choice-feedback') return maximum;
+  if (question?.type !== 'multiple-choice') return null;
+  return Number.isInteger(optionIndex) && optionIndex === question.correctAnswer ? maximum : 0;
+}
+
+/** Checks a submitted choice against the room's public state; returns an error message or an empty string. */
+function validateSubmission(publicState, runId, optionIndex) {
+  const interaction = publicState?.activeInteraction;
+  const results = publicState?.interactionResults;
+  if (!interaction || !SCORED_INTERACTION_TYPES.includes(interaction.type)) return 'This question is not a knowledge check.';
+  if (!results || results.runId !== runId || results.open !== true) return 'This question is closed.';
+  if (!Number.isInteger(optionIndex) || optionIndex < 0 || !Array.isArray(interaction.options) || optionIndex >= interaction.options.length) {
+    return 'Choose one of the answers.';
+  }
+  return '';
+}
+
+module.exports = {
+  DEFAULT_SPEED_BONUS_POINTS,
+  DEFAULT_SPEED_BONUS_SECONDS,
+  KNOWLEDGE_CHECK_CORRECT_POINTS,
+  SCORED_INTERACTION_TYPES,
+  STRONG_SECOND_ANSWER_POINTS,
+  calculateSpeedBonus,
+  choiceQuestionPoints,
+  scoreResponse,
+  validateSubmission,
+};
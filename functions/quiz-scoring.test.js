@@ -0,0 +1,57 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { calculateSpeedBonus, choiceQuestionPoints, scoreResponse, validateSubmission } = require('./quiz-scoring');
+
+const quiz = { id: 'check-1', type: 'quiz', options: ['A', 'B', 'C'], speedBonusEnabled: true, speedBonusSeconds: 40, maxSpeedBonusPoints: 4 };
+const answerKey = { interactionId: 'check-1', correctOptionIndex: 1, openedAt: 1_000_000 };
+
+test('awards the correct answer and a speed bonus from the server receipt time', () => {
+  assert.deepEqual(scoreResponse({ interaction: quiz, answerKey, startedAt: answerKey.openedAt, response: { optionIndex: 1, submittedAt: 1_005_000 } }), {
+    correct: { amount: 8, label: 'Correct knowledge check' },
+    speed: { amount: 4, label: 'Speed bonus' },
+  });
+  assert.deepEqual(scoreResponse({ interaction: quiz, answerKey, startedAt: answerKey.openedAt, response: { optionIndex: 1, submittedAt: 1_035_000 } }).speed, { amount: 1, label: 'Speed bonus' });
+  assert.equal(scoreResponse({ interaction: quiz, answerKey, startedAt: answerKey.openedAt, response: { optionIndex: 1, submittedAt: 1_041_000 } }).speed, undefined);
+});
+
+test('gives nothing for a wrong answer or a missing key', () => {
+  assert.deepEqual(scoreResponse({ interaction: quiz, answerKey, startedAt: 0, response: { optionIndex: 0, submittedAt: 1 } }), {});
+  assert.deepEqual(scoreResponse({ interaction: quiz, answerKey: null, startedAt: 0, response: { optionIndex: 1, submittedAt: 1 } }), {});
+  assert.deepEqual(scoreResponse({ interaction: { ...quiz, type: 'poll' }, answerKey, startedAt: 0, response: { optionIndex: 1, submittedAt: 1 } }), {});
+});
+
+test('scores peer learning second answers without a speed bonus', () => {
+  assert.deepEqual(scoreResponse({ interaction: { ...quiz, type: 'peer-learning' }, answerKey, startedAt: 0, response: { optionIndex: 1, submittedAt: 1 } }), {
+    correct: { amount: 6, label: 'Strong second answer' },
+  });
+});
+
+test('matches the browser speed bonus bands', () => {
+  assert.equal(calculateSpeedBonus(0, 10_000, 40, 4), 4);
+  assert.equal(calculateSpeedBonus(0, 10_001, 40, 4), 3);
+  assert.equal(calculateSpeedBonus(0, 40_000, 40, 4), 1);
+  assert.equal(calculateSpeedBonus(0, 5_000), 4, 'uses the default window and points');
+  assert.equal(calculateSpeedBonus(10_000, 5_000, 40, 4), 0, 'an answer before the question opened earns nothing');
+  assert.equal(calculateSpeedBonus(0, 1_000, 40, 0), 0);
+});
+
+test('accepts answers only for the open knowledge check', () => {
+  const publicState = { activeInteraction: quiz, interactionResults: { runId: 'check-1-1', open: true } };
+  assert.equal(validateSubmission(publicState, 'check-1-1', 2), '');
+  assert.equal(validateSubmission(publicState, 'check-1-0', 2), 'This question is closed.');
+  assert.equal(validateSubmission({ ...publicState, interactionResults: { runId: 'check-1-1', open: false } }, 'check-1-1', 2), 'This question is closed.');
+  assert.equal(validateSubmission(publicState, 'check-1-1', 3), 'Choose one of the answers.');
+  assert.equal(validateSubmission(publicState, 'check-1-1', 1.5), 'Choose one of the answers.');
+  assert.equal(validateSubmission({ ...publicState, activeInteraction: { ...quiz, type: 'poll' } }, 'check-1-1', 0), 'This question is not a knowledge check.');
+});
+
+test('scores case study choice questions from the picked option, never from the client', () => {
+  const question = { id: 'q-1', type: 'multiple-choice', points: 5, correctAnswer: 2, options: ['A', 'B', 'C'] };
+  assert.equal(choiceQuestionPoints(question, 2), 5);
+  assert.equal(choiceQuestionPoints(question, 1), 0);
+  assert.equal(choiceQuestionPoints(question, undefined), 0);
+  assert.equal(choiceQuestionPoints({ ...question, type: 'multiple-choice-feedback' }, 0), 5);
+  assert.equal(choiceQuestionPoints({ ...question, type: 'text' }, 2), null);
+});
@@ -1,11 +1,103 @@
 'use strict';
 
 const RETENTION_DAYS = 90;
-const RETENTION_MS = RETENTION_DAYS * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RETENTION_DAYS = 3650;
+// The purge runs at 03:00 in Asia/Bangkok, which has no daylight saving: 20:00 UTC the day before.
+const RETENTION_RUN_HOUR_UTC = 20;
 
-function collectExpiredRooms(liveRooms, now = Date.now()) {
-  const cutoff = now - RETENTION_MS;
-  const expired = [];
+// Mirrors RETENTION_CATEGORIES in src/lib/retention.ts. Reset archives hold the same nodes under `archives/<id>/`.
+const LIVE_CATEGORY_NODES = {
+  attendance: ['attendanceClaims', 'presence'],
+  wellbeing: ['welcomeResponses', 'pulseCounts', 'pulseTallies'],
+  responses: [
+    'responses',
+    'questionVotes',
+    'studentQuestions',
+    'questionPointClaims',
+    'quizAwards',
+    'debateArguments',
+    'debateVotes',
+    'recognizedQuestions',
+    'dismissedQuestions',
+    'answerKeys',
+  ],
+};
+const LIVE_CATEGORIES = Object.keys(LIVE_CATEGORY_NODES);
+const RETENTION_CATEGORIES = [...LIVE_CATEGORIES, 'rewards'];
+/** Nodes keyed `<run or question>/<uid>`, and debate votes a level further down, for counting records. */
+const NESTED_NODES = new Set(['responses', 'welcomeResponses', 'questionVotes', 'debateArguments']);
+
+// Mirrors DEFAULT_RETENTION_POLICY in src/lib/retention.ts. Reward records are kept until a policy says otherwise.
+const DEFAULT_RETENTION_POLICY = {
+  attendance: { after: 'last-activity', days: RETENTION_DAYS },
+  responses: { after: 'last-activity', days: RETENTION_DAYS },
+  wellbeing: { after: 'last-activity', days: RETENTION_DAYS },
+  rewards: { after: 'never', days: 0 },
+};
+
+function normalizeRule(rule, fallback) {
+  if (!rule || typeof rule !== 'object' || !['last-activity', 'course-end', 'never'].includes(rule.after)) return fallback;
+  if (rule.after === 'never') return { after: 'never', days: 0 };
+  const days = Math.floor(Number(rule.days));
+  if (!Number.isFinite(days) || days < 1) return fallback;
+  return { after: rule.after, days: Math.min(MAX_RETENTION_DAYS, days) };
+}
+
+/**
+ * A complete policy: the course's rule for each category, else the workspace's, else the institution's
+ * default, else the built-in default.
+ */
+function resolveRetentionPolicy(workspacePolicy, coursePolicy, institutionPolicy) {
+  return Object.fromEntries(RETENTION_CATEGORIES.map((category) => [
+    category,
+    normalizeRule(
+      coursePolicy?.[category],
+      normalizeRule(workspacePolicy?.[category], normalizeRule(institutionPolicy?.[category], DEFAULT_RETENTION_POLICY[category])),
+    ),
+  ]));
+}
+
+/** The end of the day a course ends (UTC), from its retention settings or its meeting pattern. Null when unknown. */
+function courseEndsAt(course) {
+  const value = course?.retention?.courseEndsOn || course?.meetingPattern?.endDate;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value || ''));
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + 1) : null;
+}
+
+/**
+ * When a rule lets a record go, or null if it never does. A `course-end` rule waits while the course has no
+ * end date rather than guessing one.
+ */
+function ruleExpiresAt(rule, { lastActivityAt, courseEndsAt: endsAt }) {
+  if (!rule || rule.after === 'never') return null;
+  const anchor = rule.after === 'course-end' ? endsAt : lastActivityAt;
+  if (!Number.isFinite(anchor) || anchor <= 0) return null;
+  return anchor + rule.days * DAY_MS;
+}
+
+function isExpired(rule, anchors, now) {
+  const expiresAt = ruleExpiresAt(rule, anchors);
+  return expiresAt !== null && expiresAt < now;
+}
+
+function countRecords(node, value) {
+  if (!value || typeof value !== 'object') return 0;
+  const children = Object.values(value);
+  if (node === 'debateVotes') return children.reduce((total, run) => total + Object.values(run || {}).reduce((sum, votes) => sum + Object.keys(votes || {}).length, 0), 0);
+  if (NESTED_NODES.has(node)) return children.reduce((total, run) => total + Object.keys(run || {}).length, 0);
+  return children.length;
+}
+
+/**
+ * Works out what the purge deletes from the live rooms at `now`. A room goes entirely once every live
+ * category has expired; before that, only the expired categories' nodes go. Each carries the rules that
+ * applied, for the deletion log. `policyFor(ownerUid, courseId)` returns `{ policy, courseEndsAt }` for a
+ * room and defaults to 90 days after the last update.
+ */
+function planRetention(liveRooms, policyFor = () => ({ policy: DEFAULT_RETENTION_POLICY, courseEndsAt: null }), now = Date.now()) {
+  const expiredRooms = [];
+  const expiredNodes = [];
 
   for (const [ownerUid, ownerRooms] of Object.entries(liveRooms || {})) {
     if (!ownerRooms || typeof ownerRooms !== 'object') continue;
@@ -14,18 +106,134 @@ function collectExpiredRooms(liveRooms, now = Date.now()) {
       if (!room || typeof room !== 'object') continue;
       const meta = room.meta && typeof room.meta === 'object' ? room.meta : {};
       const lastRecordedAt = Number(meta.updatedAt || meta.createdAt || 0);
-      if (!Number.isFinite(lastRecordedAt) || lastRecordedAt <= 0 || lastRecordedAt >= cutoff) continue;
+      if (!Number.isFinite(lastRecordedAt) || lastRecordedAt <= 0) continue;
+
+      const courseId = typeof meta.courseId === 'string' ? meta.courseId : '';
+      const { policy, courseEndsAt: endsAt } = policyFor(ownerUid, courseId);
+      const anchors = { lastActivityAt: lastRecordedAt, courseEndsAt: endsAt };
+      const expired = LIVE_CATEGORIES.filter((category) => isExpired(policy[category], anchors, now));
+      if (!expired.length) continue;
+
+      if (expired.length === LIVE_CATEGORIES.length) {
+        expiredRooms.push({
+          ownerUid,
+          sessionId,
+          sessionCode: typeof meta.sessionCode === 'string' ? meta.sessionCode : '',
+          lastRecordedAt,
+          policy: Object.fromEntries(LIVE_CATEGORIES.map((category) => [category, policy[category]])),
+        });
+        continue;
+      }
+
+      const trees = [['', room], ...Object.entries(room.archives || {}).map(([archiveId, archive]) => [`archives/${archiveId}/`, archive])];
+      for (const category of expired) {
+        for (const node of LIVE_CATEGORY_NODES[category]) {
+          for (const [prefix, tree] of trees) {
+            const records = countRecords(node, tree?.[node]);
+            if (records) expiredNodes.push({ ownerUid, sessionId, courseId, category, rule: policy[category], path: `${prefix}${node}`, records });
+          }
+        }
+      }
+    }
+  }
 
-      expired.push({
-        ownerUid,
+  return { expiredRooms, expiredNodes };
+}
+
+function timestampMillis(value) {
+  return typeof value?.toMillis === 'function' ? value.toMillis() : Number(value) || 0;
+}
+
+/**
+ * When a session was last used, for the records it keeps in Firestore: its start, end or creation, or a
+ * homework due date or extension when one is later.
+ */
+function sessionLastActivityAt(session) {
+  const homework = session?.homework;
+  const times = [session?.createdAt, session?.startedAt, session?.endedAt, homework?.dueAt, ...Object.values(homework?.extensions || {})];
+  return Math.max(0, ...times.map(timestampMillis));
+}
+
+/**
+ * Works out what the purge deletes from the records kept in Firestore at `now`. Each session's case-study
+ * responses follow the responses rule and its saved pulse totals the wellbeing rule. Register marks, keyed
+ * `${studentDocId}:${sessionId}` on the course, follow the attendance rule from the session they mark.
+ * `sessions` and `courses` are Maps of id to data; `policyFor` is the one `planRetention` takes.
+ */
+function planSavedRetention(sessions, courses, policyFor, now = Date.now()) {
+  const expiredSessions = [];
+  for (const [sessionId, session] of sessions) {
+    if (!session?.teacherId) continue;
+    const courseId = typeof session.courseId === 'string' ? session.courseId : '';
+    const { policy, courseEndsAt: endsAt } = policyFor(session.teacherId, courseId);
+    const anchors = { lastActivityAt: sessionLastActivityAt(session), courseEndsAt: endsAt };
+    const categories = [];
+    // Sessions stamped by an earlier run have no responses left to look for.
+    if (!session.responsesPurgedAt && isExpired(policy.responses, anchors, now)) categories.push('responses');
+    if (session.wellbeingPulse && isExpired(policy.wellbeing, anchors, now)) categories.push('wellbeing');
+    if (categories.length) {
+      expiredSessions.push({
+        ownerUid: session.teacherId,
         sessionId,
-        sessionCode: typeof meta.sessionCode === 'string' ? meta.sessionCode : '',
-        lastRecordedAt,
+        courseId,
+        categories,
+        policy: Object.fromEntries(categories.map((category) => [category, policy[category]])),
       });
     }
   }
 
-  return expired;
+  const expiredMarks = [];
+  for (const [courseId, course] of courses) {
+    if (!course?.teacherId) continue;
+    const { policy, courseEndsAt: endsAt } = policyFor(course.teacherId, courseId);
+    for (const [key, mark] of Object.entries(course.attendance?.marks || {})) {
+      const sessionId = key.slice(key.indexOf(':') + 1);
+      const session = sessions.get(sessionId);
+      const lastActivityAt = session ? sessionLastActivityAt(session) : timestampMillis(mark?.updatedAt);
+      if (isExpired(policy.attendance, { lastActivityAt, courseEndsAt: endsAt }, now)) {
+        expiredMarks.push({ ownerUid: course.teacherId, courseId, sessionId, key, rule: policy.attendance });
+      }
+    }
+  }
+
+  return { expiredSessions, expiredMarks };
+}
+
+/** Records in each live category of a room, archives included, for the dry-run report. */
+function categoryRecordCounts(room) {
+  const trees = [room, ...Object.values(room?.archives || {})];
+  return Object.fromEntries(LIVE_CATEGORIES.map((category) => [
+    category,
+    LIVE_CATEGORY_NODES[category].reduce((total, node) => total + trees.reduce((sum, tree) => sum + countRecords(node, tree?.[node]), 0), 0),
+  ]));
+}
+
+function collectExpiredRooms(liveRooms, now = Date.now()) {
+  return planRetention(liveRooms, undefined, now).expiredRooms;
+}
+
+/** The next scheduled purge after `now`. */
+function nextRetentionRun(now = Date.now()) {
+  const date = new Date(now);
+  const today = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), RETENTION_RUN_HOUR_UTC);
+  return today > now ? today : today + DAY_MS;
 }
 
-module.exports = { RETENTION_DAYS, collectExpiredRooms };
+module.exports = {
+  DEFAULT_RETENTION_POLICY,
+  LIVE_CATEGORIES,
+  LIVE_CATEGORY_NODES,
+  RETENTION_CATEGORIES,
+  RETENTION_DAYS,
+  categoryRecordCounts,
+  collectExpiredRooms,
+  courseEndsAt,
+  isExpired,
+  nextRetentionRun,
+  normalizeRule,
+  planRetention,
+  planSavedRetention,
+  resolveRetentionPolicy,
+  ruleExpiresAt,
+  sessionLastActivityAt,
+};
@@ -2,7 +2,20 @@
 
 const test = require('node:test');
 const assert = require('node:assert/strict');
-const { RETENTION_DAYS, collectExpiredRooms } = require('./retention');
+const {
+  RETENTION_DAYS,
+  categoryRecordCounts,
+  collectExpiredRooms,
+  courseEndsAt,
+  isExpired,
+  nextRetentionRun,
+  planRetention,
+  planSavedRetention,
+  resolveRetentionPolicy,
+  sessionLastActivityAt,
+} = require('./retention');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 test('collects rooms older than the retention window', () => {
   const now = Date.UTC(2026, 7, 9, 8);
@@ -21,6 +34,11 @@ test('collects rooms older than the retention window', () => {
     sessionId: 'expiredSession',
     sessionCode: 'ABC123',
     lastRecordedAt: old,
+    policy: {
+      attendance: { after: 'last-activity', days: RETENTION_DAYS },
+      wellbeing: { after: 'last-activity', days: RETENTION_DAYS },
+      responses: { after: 'last-activity', days: RETENTION_DAYS },
+    },
   }]);
 });
 
@@ -28,3 +46,102 @@ test('ignores malformed rooms instead of deleting uncertain records', () => {
   const result = collectExpiredRooms({ teacherA: { missingTimestamp: { meta: {} } } });
   assert.deepEqual(result, []);
 });
+
+test('resolves each category from the course, then the workspace, then the default', () => {
+  const policy = resolveRetentionPolicy(
+    { wellbeing: { after: 'last-activity', days: 7 }, rewards: { after: 'course-end', days: 30 } },
+    { attendance: { after: 'course-end', days: 365 }, rewards: { after: 'bogus' }, responses: { after: 'last-activity', days: 0 } },
+  );
+  assert.deepEqual(policy, {
+    attendance: { after: 'course-end', days: 365 },
+    wellbeing: { after: 'last-activity', days: 7 },
+    responses: { after: 'last-activity', days: RETENTION_DAYS },
+    rewards: { after: 'course-end', days: 30 },
+  });
+});
+
+test('anchors course-end rules on the day after the course ends and waits while it is unknown', () => {
+  const endsAt = courseEndsAt({ meetingPattern: { endDate: '2026-12-18' } });
+  assert.equal(endsAt, Date.UTC(2026, 11, 19));
+  assert.equal(courseEndsAt({ retention: { courseEndsOn: '2027-03-01' }, meetingPattern: { endDate: '2026-12-18' } }), Date.UTC(2027, 2, 2));
+  assert.equal(courseEndsAt({}), null);
+
+  const rule = { after: 'course-end', days: 365 };
+  assert.equal(isExpired(rule, { lastActivityAt: 1, courseEndsAt: endsAt }, endsAt + 365 * DAY_MS), false);
+  assert.equal(isExpired(rule, { lastActivityAt: 1, courseEndsAt: endsAt }, endsAt + 365 * DAY_MS + 1), true);
+  assert.equal(isExpired(rule, { lastActivityAt: 1, courseEndsAt: null }, Date.UTC(2099, 0, 1)), false);
+  assert.equal(isExpired({ after: 'never', days: 0 }, { lastActivityAt: 1 }, Date.UTC(2099, 0, 1)), false);
+});
+
+test('deletes only the expired categories of a room until every live category has expired', () => {
+  const now = Date.UTC(2026, 9, 19);
+  const tenDaysAgo = now - 10 * DAY_MS;
+  const room = {
+    meta: { courseId: 'course-1', sessionCode: 'ABC123', updatedAt: tenDaysAgo },
+    attendanceClaims: { 'uid-a': { status: 'participated' } },
+    welcomeResponses: { 'run-1': { 'uid-a': { mood: 2 }, 'uid-b': { mood: 4 } } },
+    responses: { 'run-2': { 'uid-a': { optionIndex: 1 } } },
+    archives: { 'archive-1': { welcomeResponses: { 'run-0': { 'uid-a': { mood: 3 } } } } },
+  };
+  const weekly = { after: 'last-activity', days: 7 };
+  const daily = { after: 'last-activity', days: 1 };
+  const policyFor = (ownerUid, courseId) => ({
+    policy: resolveRetentionPolicy({ wellbeing: weekly }, courseId === 'course-2' ? {
+      attendance: daily,
+      responses: daily,
+    } : undefined),
+    courseEndsAt: null,
+  });
+
+  const partial = planRetention({ teacherA: { 'session-1': room } }, policyFor, now);
+  assert.deepEqual(partial.expiredRooms, []);
+  assert.deepEqual(partial.expiredNodes, [
+    { ownerUid: 'teacherA', sessionId: 'session-1', courseId: 'course-1', category: 'wellbeing', rule: weekly, path: 'welcomeResponses', records: 2 },
+    { ownerUid: 'teacherA', sessionId: 'session-1', courseId: 'course-1', category: 'wellbeing', rule: weekly, path: 'archives/archive-1/welcomeResponses', records: 1 },
+  ]);
+  assert.deepEqual(categoryRecordCounts(room), { attendance: 1, wellbeing: 3, responses: 1 });
+
+  const whole = planRetention({ teacherA: { 'session-1': { ...room, meta: { ...room.meta, courseId: 'course-2' } } } }, policyFor, now);
+  assert.deepEqual(whole.expiredRooms, [{
+    ownerUid: 'teacherA',
+    sessionId: 'session-1',
+    sessionCode: 'ABC123',
+    lastRecordedAt: tenDaysAgo,
+    policy: { attendance: daily, wellbeing: weekly, responses: daily },
+  }]);
+  assert.deepEqual(whole.expiredNodes, []);
+});
+
+test('applies the attendance, wellbeing and responses rules to records saved in Firestore', () => {
+  const now = Date.UTC(2026, 9, 19);
+  const at = (daysAgo) => ({ toMillis: () => now - daysAgo * DAY_MS });
+  const weekly = { after: 'last-activity', days: 7 };
+  const sessions = new Map([
+    ['session-old', { teacherId: 'teacherA', courseId: 'course-1', createdAt: at(30), endedAt: at(20), wellbeingPulse: { total: 12 } }],
+    // Homework due last week keeps its answers until a week after the due date.
+    ['session-homework', { teacherId: 'teacherA', courseId: 'course-1', createdAt: at(30), homework: { dueAt: at(10), extensions: { 'student-1': at(3) } } }],
+    ['session-purged', { teacherId: 'teacherA', courseId: 'course-1', endedAt: at(20), responsesPurgedAt: at(19) }],
+  ]);
+  const courses = new Map([['course-1', {
+    teacherId: 'teacherA',
+    attendance: { marks: {
+      'student-1:session-old': { status: 'excused', reason: 'Medical', updatedAt: at(2) },
+      'student-1:session-homework': { status: 'confirmed', updatedAt: at(2) },
+      'student-2:session-gone': { status: 'absent', updatedAt: at(9) },
+    } },
+  }]]);
+  const policyFor = () => ({ policy: resolveRetentionPolicy({ attendance: weekly, wellbeing: weekly, responses: weekly }), courseEndsAt: null });
+
+  assert.equal(sessionLastActivityAt(sessions.get('session-homework')), now - 3 * DAY_MS);
+  const plan = planSavedRetention(sessions, courses, policyFor, now);
+  assert.deepEqual(plan.expiredSessions, [
+    { ownerUid: 'teacherA', sessionId: 'session-old', courseId: 'course-1', categories: ['responses', 'wellbeing'], policy: { responses: weekly, wellbeing: weekly } },
+  ]);
+  assert.deepEqual(plan.expiredMarks.map((mark) => mark.key), ['student-1:session-old', 'student-2:session-gone'], 'marks follow their session, or their own update when it is gone');
+  assert.deepEqual(planSavedRetention(sessions, courses, () => ({ policy: resolveRetentionPolicy(), courseEndsAt: null }), now), { expiredSessions: [], expiredMarks: [] });
+});
+
+test('schedules the next run for 03:00 in Bangkok', () => {
+  assert.equal(nextRetentionRun(Date.UTC(2026, 9, 19, 8)), Date.UTC(2026, 9, 19, 20));
+  assert.equal(nextRetentionRun(Date.UTC(2026, 9, 19, 21)), Date.UTC(2026, 9, 20, 20));
+});
@@ -0,0 +1,194 @@
+'use strict';
+
+const { createHash } = require('node:crypto');
+
+// Mirrors POINT_RULES in src/app/live/student/rewards.ts, src/lib/numeric-estimates.ts and src/lib/hotspots.ts.
+const PARTICIPATION_POINTS = {
+  pulse: 1,
+  poll: 2,
+  quiz: 2,
+  'peer-learning': 2,
+  'word-cloud': 2,
+  ranking: 2,
+  scale: 2,
+  matrix: 2,
+  estimate: 2,
+  hotspot: 2,
+  debate: 2,
+  'open-response': 3,
+  'group-work': 5,
+};
+const PRIVATE_PREDICTION_POINTS = 1;
+const ROOM_READ_POINTS = 3;
+const HOTSPOT_HIT_POINTS = 3;
+const DEBATE_ARGUMENT_POINTS = 1;
+const DEBATE_SPOTLIGHT_POINTS = 3;
+const ESTIMATE_PROXIMITY = [
+  { withinPercent: 5, amount: 5, label: 'Estimate within 5%' },
+  { withinPercent: 15, amount: 3, label: 'Estimate within 15%' },
+  { withinPercent: 30, amount: 1, label: 'Estimate within 30%' },
+];
+/** Devices that can read one ledger. An approved new phone is added and the oldest device drops off. */
+const MAX_LEDGER_DEVICES = 8;
+/** Devices waiting for the instructor to approve them on one ledger. */
+const MAX_PENDING_DEVICES = 8;
+
+function estimateError(value, answer) {
+  if (answer === 0) return Math.abs(value);
+  return Math.abs(value - answer) / Math.abs(answer);
+}
+
+function isHotspotHit(point, regions) {
+  return Array.isArray(regions) && regions.some((region) => (
+    point.x >= region.x && point.x <= region.x + region.width && point.y >= region.y && point.y <= region.y + region.height
+  ));
+}
+
+/** The reward scope a live room belongs to, matching the one students saw before the ledger moved to the server. */
+function rewardScopeFor(meta, sessionId) {
+  return String(meta?.rewardScopeId || meta?.courseCode || sessionId);
+}
+
+/** One ledger per student per instructor reward scope, shared by the devices the student's instructor has let onto it. */
+function rewardLedgerId(ownerUid, rewardScopeId, studentNumber) {
+  return createHash('sha256').update(`${ownerUid}:${rewardScopeId}:${studentNumber}`).digest('hex');
+}
+
+/** Entry documents are keyed by a hash of the event key, which makes recording the same event twice a no-op. */
+function rewardEntryId(eventKey) {
+  return createHash('sha256').update(eventKey).digest('hex').slice(0, 40);
+}
+
+function linkDevice(deviceUids, studentUid) {
+  const current = Array.isArray(deviceUids) ? deviceUids.filter((uid) => uid !== studentUid) : [];
+  return [...current, studentUid].slice(-MAX_LEDGER_DEVICES);
+}
+
+/**
+ * How a device stands with the ledger for the student number it joined with: 'new' when there is no
+ * ledger yet, 'linked' when the device is on it, and 'pending' otherwise. The number is only what the
+ * student typed, so a device that finds someone's balance waits for the instructor to approve it.
+ */
+function ledgerDeviceStanding(ledger, studentUid) {
+  if (!ledger) return 'new';
+  return Array.isArray(ledger.deviceUids) && ledger.deviceUids.includes(studentUid) ? 'linked' : 'pending';
+}
+
+/** Adds a device to the approval queue once, keeping when it first asked. The oldest drop off past the limit. */
+function requestDevice(pendingDevices, device) {
+  const current = Array.isArray(pendingDevices) ? pendingDevices : [];
+  if (current.some((item) => item.uid === device.uid)) return current;
+  return [...current, device].slice(-MAX_PENDING_DEVICES);
+}
+
+/**
+ * Works out what a student earned for one event from the room as the server sees it. `eventKey` is the
+ * browser's key for the moment (`<runId>:response`, `question:<ruleId>`, …); everything that decides the
+ * amount comes from `room`, never from the caller. Returns `{ award }` or `{ error }`.
+ */
+function verifyRewardEvent(eventKey, room) {
+  const key = String(eventKey || '');
+  const interaction = room.publicState?.activeInteraction;
+  const results = room.publicState?.interactionResults;
+  const separator = key.lastIndexOf(':');
+  const runId = key.slice(0, separator);
+  const kind = key.slice(separator + 1);
+  if (separator <= 0 || !kind) return { error: 'This reward could not be matched to the class.' };
+
+  if (runId === 'question') {
+    const claim = room.questionClaims?.[kind];
+    if (!claim || !(Number(claim.amount) > 0)) return { error: 'Ask or support a question before claiming its points.' };
+    return { award: { balance: 'seminar', amount: Number(claim.amount), label: String(claim.label || 'Question points') } };
+  }
+  if (kind === 'correct' || kind === 'speed') {
+    const award = room.quizAwards?.[key];
+    if (!award || !(Number(award.amount) > 0)) return { error: 'This knowledge check has not been scored yet.' };
+    return { award: { balance: 'score', amount: Number(award.amount), label: String(award.label) } };
+  }
+  if (kind === 'debate-argument') {
+    if (!Object.keys(room.debateArguments || {}).length) return { error: 'Post an argument before claiming its point.' };
+    return { award: { balance: 'seminar', amount: DEBATE_ARGUMENT_POINTS, label: 'Argument posted' } };
+  }
+  if (kind === 'debate-spotlight') {
+    if (results?.runId !== runId || !results.featuredArgumentId || !room.debateArguments?.[results.featuredArgumentId]) {
+      return { error: 'Your argument is not on the projector.' };
+    }
+    return { award: { balance: 'seminar', amount: DEBATE_SPOTLIGHT_POINTS, label: 'Argument on the projector' } };
+  }
+
+  // Everything else is about the activity on screen right now.
+  if (!interaction || results?.runId !== runId) return { error: 'The class has moved on from this activity.' };
+  const response = room.response;
+  if (kind === 'response') {
+    const amount = PARTICIPATION_POINTS[interaction.type] || 0;
+    if (!response || !amount) return { error: 'Send a response before claiming its points.' };
+    return { award: { balance: 'seminar', amount, label: `${interaction.label || 'Activity'} response` } };
+  }
+  if (kind === 'prediction') {
+    const optionIndex = Number(room.optionIndex);
+    if (interaction.type !== 'poll' || results.revealed || !Number.isInteger(optionIndex) || optionIndex < 0 || optionIndex >= (interaction.options || []).length) {
+      return { error: 'Predictions close when the results are shown.' };
+    }
+    return { award: { balance: 'seminar', amount: PRIVATE_PREDICTION_POINTS, label: 'Private prediction', optionIndex } };
+  }
+  if (!results.revealed) return { error: 'Wait for the instructor to reveal the answer.' };
+  if (kind === 'room-read') {
+    const counts = Array.isArray(results.optionCounts) ? results.optionCounts : [];
+    const predicted = room.prediction?.optionIndex;
+    if (interaction.type !== 'poll' || !Number.isInteger(predicted) || !counts.length || counts[predicted] !== Math.max(...counts)) {
+      return { error: 'Your prediction did not match the room.' };
+    }
+    return { award: { balance: 'seminar', amount: ROOM_READ_POINTS, label: 'Room read' } };
+  }
+  if (kind === 'estimate') {
+    const value = response?.value;
+    if (interaction.type !== 'estimate' || !interaction.estimateProximityPoints || typeof interaction.estimateAnswer !== 'number' || typeof value !== 'number' || !Number.isFinite(value)) {
+      return { error: 'This estimate does not earn proximity points.' };
+    }
+    const error = estimateError(value, interaction.estimateAnswer) * 100;
+    const band = ESTIMATE_PROXIMITY.find((item) => error <= item.withinPercent);
+    if (!band) return { error: 'This estimate was not close enough for points.' };
+    return { award: { balance: 'seminar', amount: band.amount, label: band.label } };
+  }
+  if (kind === 'hotspot') {
+    const point = response?.point;
+    if (interaction.type !== 'hotspot' || !point || typeof point.x !== 'number' || typeof point.y !== 'number' || !isHotspotHit(point, interaction.hotspotRegions)) {
+      return { error: 'This tap was not on a marked region.' };
+    }
+    return { award: { balance: 'seminar', amount: HOTSPOT_HIT_POINTS, label: 'Hotspot on target' } };
+  }
+  return { error: 'This reward could not be matched to the class.' };
+}
+
+/** Reward requests that still hold points: waiting for review, or approved and not yet used. */
+function reservedPoints(requests, exceptRequestId = '') {
+  return requests
+    .filter((request) => request.id !== exceptRequestId && (request.status === 'pending' || request.status === 'approved'))
+    .reduce((total, request) => total + (Number(request.pointsRequired) || 0), 0);
+}
+
+/** Points a student can still put toward a reward once their other open requests are set aside. */
+function availablePoints(ledger, requests, exceptRequestId = '') {
+  return Math.max(0, (Number(ledger?.seminarPoints) || 0) - reservedPoints(requests, exceptRequestId));
+}
+
+module.exports = {
+  DEBATE_ARGUMENT_POINTS,
+  DEBATE_SPOTLIGHT_POINTS,
+  ESTIMATE_PROXIMITY,
+  HOTSPOT_HIT_POINTS,
+  MAX_LEDGER_DEVICES,
+  MAX_PENDING_DEVICES,
+  PARTICIPATION_POINTS,
+  PRIVATE_PREDICTION_POINTS,
+  ROOM_READ_POINTS,
+  availablePoints,
+  ledgerDeviceStanding,
+  linkDevice,
+  requestDevice,
+  reservedPoints,
+  rewardEntryId,
+  rewardLedgerId,
+  rewardScopeFor,
+  verifyRewardEvent,
+};
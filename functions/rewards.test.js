@@ -0,0 +1,117 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  MAX_LEDGER_DEVICES,
+  MAX_PENDING_DEVICES,
+  availablePoints,
+  ledgerDeviceStanding,
+  linkDevice,
+  requestDevice,
+  rewardEntryId,
+  rewardLedgerId,
+  rewardScopeFor,
+  verifyRewardEvent,
+} = require('./rewards');
+
+const poll = { id: 'poll-1', type: 'poll', label: 'Poll', options: ['A', 'B', 'C'] };
+const room = (interaction, results = {}, extra = {}) => ({
+  publicState: { activeInteraction: interaction, interactionResults: { runId: 'run-1', revealed: false, optionCounts: [], ...results } },
+  ...extra,
+});
+
+test('keys one ledger per student per reward scope and one entry per event', () => {
+  assert.equal(rewardScopeFor({ rewardScopeId: 'ECON302-F26', courseCode: 'ECON302' }, 'session-1'), 'ECON302-F26');
+  assert.equal(rewardScopeFor({ courseCode: 'ECON302' }, 'session-1'), 'ECON302');
+  assert.equal(rewardScopeFor(null, 'session-1'), 'session-1');
+  assert.equal(rewardLedgerId('owner', 'ECON302', 'S001'), rewardLedgerId('owner', 'ECON302', 'S001'));
+  assert.notEqual(rewardLedgerId('owner', 'ECON302', 'S001'), rewardLedgerId('owner', 'ECON302', 'S002'));
+  assert.match(rewardEntryId('session-1:run-1:response'), /^[0-9a-f]{40}$/);
+});
+
+test('adds a new device and drops the oldest past the limit', () => {
+  assert.deepEqual(linkDevice(undefined, 'a'), ['a']);
+  assert.deepEqual(linkDevice(['a', 'b'], 'a'), ['b', 'a']);
+  const full = Array.from({ length: MAX_LEDGER_DEVICES }, (_, index) => `uid-${index}`);
+  assert.deepEqual(linkDevice(full, 'new').slice(-2), [`uid-${MAX_LEDGER_DEVICES - 1}`, 'new']);
+  assert.equal(linkDevice(full, 'new').length, MAX_LEDGER_DEVICES);
+});
+
+test('a second device that claims an existing student number waits for the instructor', () => {
+  assert.equal(ledgerDeviceStanding(undefined, 'uid-a'), 'new');
+  const ledger = { studentNumber: 'S001', deviceUids: ['uid-a'], seminarPoints: 12 };
+  assert.equal(ledgerDeviceStanding(ledger, 'uid-a'), 'linked');
+  assert.equal(ledgerDeviceStanding(ledger, 'uid-classmate'), 'pending');
+  assert.equal(ledgerDeviceStanding({ ...ledger, deviceUids: [] }, 'uid-classmate'), 'pending');
+
+  const asked = requestDevice(undefined, { uid: 'uid-classmate', requestedAt: 1 });
+  assert.deepEqual(requestDevice(asked, { uid: 'uid-classmate', requestedAt: 2 }), asked, 'asking again keeps the first request');
+  const queue = Array.from({ length: MAX_PENDING_DEVICES }, (_, index) => ({ uid: `uid-${index}` }));
+  assert.deepEqual(requestDevice(queue, { uid: 'late' }).map((item) => item.uid).slice(-1), ['late']);
+  assert.equal(requestDevice(queue, { uid: 'late' }).length, MAX_PENDING_DEVICES);
+
+  // Only the instructor's approval links it.
+  assert.equal(ledgerDeviceStanding({ ...ledger, deviceUids: linkDevice(ledger.deviceUids, 'uid-phone') }, 'uid-phone'), 'linked');
+});
+
+test('pays participation from the interaction on screen, not the caller', () => {
+  assert.deepEqual(verifyRewardEvent('run-1:response', room(poll, {}, { response: { optionIndex: 0 } })).award, { balance: 'seminar', amount: 2, label: 'Poll response' });
+  assert.ok(verifyRewardEvent('run-1:response', room(poll)).error, 'needs a stored response');
+  assert.ok(verifyRewardEvent('run-0:response', room(poll, {}, { response: { optionIndex: 0 } })).error, 'only the current run');
+  assert.ok(verifyRewardEvent('nonsense', room(poll)).error);
+});
+
+test('accepts a prediction before the reveal and a room read that matches it', () => {
+  assert.deepEqual(verifyRewardEvent('run-1:prediction', room(poll, {}, { optionIndex: 1 })).award, { balance: 'seminar', amount: 1, label: 'Private prediction', optionIndex: 1 });
+  assert.ok(verifyRewardEvent('run-1:prediction', room(poll, { revealed: true }, { optionIndex: 1 })).error);
+  assert.ok(verifyRewardEvent('run-1:prediction', room(poll, {}, { optionIndex: 7 })).error);
+
+  const revealed = { revealed: true, optionCounts: [2, 5, 1] };
+  assert.equal(verifyRewardEvent('run-1:room-read', room(poll, revealed, { prediction: { optionIndex: 1 } })).award.amount, 3);
+  assert.ok(verifyRewardEvent('run-1:room-read', room(poll, revealed, { prediction: { optionIndex: 0 } })).error);
+  assert.ok(verifyRewardEvent('run-1:room-read', room(poll, revealed)).error, 'no recorded prediction');
+});
+
+test('scores estimates and hotspots only after the reveal', () => {
+  const estimate = { id: 'est', type: 'estimate', estimateAnswer: 100, estimateProximityPoints: true };
+  assert.ok(verifyRewardEvent('run-1:estimate', room(estimate, {}, { response: { value: 100 } })).error);
+  assert.deepEqual(verifyRewardEvent('run-1:estimate', room(estimate, { revealed: true }, { response: { value: 104 } })).award, { balance: 'seminar', amount: 5, label: 'Estimate within 5%' });
+  assert.equal(verifyRewardEvent('run-1:estimate', room(estimate, { revealed: true }, { response: { value: 125 } })).award.amount, 1);
+  assert.ok(verifyRewardEvent('run-1:estimate', room(estimate, { revealed: true }, { response: { value: 200 } })).error);
+
+  const hotspot = { id: 'hot', type: 'hotspot', hotspotRegions: [{ x: 0.1, y: 0.1, width: 0.2, height: 0.2 }] };
+  assert.equal(verifyRewardEvent('run-1:hotspot', room(hotspot, { revealed: true }, { response: { point: { x: 0.2, y: 0.2 } } })).award.amount, 3);
+  assert.ok(verifyRewardEvent('run-1:hotspot', room(hotspot, { revealed: true }, { response: { point: { x: 0.8, y: 0.2 } } })).error);
+});
+
+test('copies server-written quiz awards and question claims', () => {
+  const quizAwards = { 'run-1:correct': { amount: 8, label: 'Correct knowledge check' } };
+  assert.deepEqual(verifyRewardEvent('run-1:correct', room(null, {}, { quizAwards })).award, { balance: 'score', amount: 8, label: 'Correct knowledge check' });
+  assert.ok(verifyRewardEvent('run-1:speed', room(null, {}, { quizAwards })).error);
+  const questionClaims = { 'question-asked': { amount: 1, label: 'Asked a question' } };
+  assert.deepEqual(verifyRewardEvent('question:question-asked', room(null, {}, { questionClaims })).award, { balance: 'seminar', amount: 1, label: 'Asked a question' });
+  assert.ok(verifyRewardEvent('question:question-discussed', room(null, {}, { questionClaims })).error);
+});
+
+test('pays debate arguments and the spotlight only for the student\'s own argument', () => {
+  const debateArguments = { 'arg-1': { id: 'arg-1' } };
+  assert.equal(verifyRewardEvent('run-1:debate-argument', room(null, {}, { debateArguments })).award.amount, 1);
+  assert.ok(verifyRewardEvent('run-1:debate-argument', room(null)).error);
+  const debate = { id: 'debate', type: 'debate' };
+  assert.equal(verifyRewardEvent('run-1:debate-spotlight', room(debate, { runId: 'run-1', featuredArgumentId: 'arg-1' }, { debateArguments })).award.amount, 3);
+  assert.ok(verifyRewardEvent('run-1:debate-spotlight', room(debate, { runId: 'run-1', featuredArgumentId: 'arg-2' }, { debateArguments })).error);
+});
+
+test('holds points for open requests so they cannot be spent twice', () => {
+  const requests = [
+    { id: 'a', status: 'pending', pointsRequired: 10 },
+    { id: 'b', status: 'approved', pointsRequired: 5 },
+    { id: 'c', status: 'used', pointsRequired: 20 },
+    { id: 'd', status: 'declined', pointsRequired: 20 },
+  ];
+  assert.equal(availablePoints({ seminarPoints: 30 }, requests), 15);
+  assert.equal(availablePoints({ seminarPoints: 30 }, requests, 'a'), 25);
+  assert.equal(availablePoints({ seminarPoints: 4 }, requests), 0);
+  assert.equal(availablePoints(undefined, []), 0);
+});
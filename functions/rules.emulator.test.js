@@ -0,0 +1,197 @@
+'use strict';
+
+// Runs against the Firestore and Realtime Database emulators: `npm run test:emulators`. Skipped otherwise.
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeApp } = require('firebase-admin/app');
+const { getDatabase } = require('firebase-admin/database');
+const { Timestamp, getFirestore } = require('firebase-admin/firestore');
+
+const PROJECT_ID = 'demo-classfully';
+const skip = !process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_DATABASE_EMULATOR_HOST
+  ? 'Firestore and Realtime Database emulators are not running'
+  : false;
+const OWNER = 'teacher-1';
+const ROOM = `liveV2/${OWNER}/session-1`;
+// Every instructor read under a live room, including the child grants that apply whatever the parent says.
+const LIVE_PATHS = [
+  `${ROOM}/responses`,
+  `${ROOM}/responses/run-1`,
+  `${ROOM}/welcomeResponses/run-1`,
+  `${ROOM}/questionVotes/question-1`,
+  `${ROOM}/questionPointClaims/uid-a`,
+  `${ROOM}/quizAwards/uid-a`,
+  `${ROOM}/attendanceClaims`,
+  `${ROOM}/attendanceClaims/uid-a`,
+  `${ROOM}/presence`,
+  `${ROOM}/displayPresence`,
+  `instructorAccess/${OWNER}/teacher-1`,
+];
+
+/** An unsigned ID token, which the emulators accept in place of one Firebase Auth signed. */
+function idToken(uid, claims) {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    aud: PROJECT_ID,
+    sub: uid,
+    user_id: uid,
+    iat: now,
+    exp: now + 3600,
+    auth_time: now,
+    ...claims,
+  })}.`;
+}
+
+const passwordSession = idToken(OWNER, { institutionId: 'inst-1', ssoPolicy: 'oidc', firebase: { sign_in_provider: 'password' } });
+const googleSession = idToken(OWNER, { institutionId: 'inst-1', ssoPolicy: 'oidc', firebase: { sign_in_provider: 'google.com' } });
+const ssoSession = idToken(OWNER, { institutionId: 'inst-1', ssoPolicy: 'oidc', ssoInstitutionId: 'inst-1', firebase: { sign_in_provider: 'custom' } });
+
+async function readLive(path, token) {
+  const url = `http://${process.env.FIREBASE_DATABASE_EMULATOR_HOST}/${path}.json?ns=${PROJECT_ID}-default-rtdb`;
+  return (await fetch(url, { headers: { Authorization: `Bearer ${token}` } })).status;
+}
+
+async function readDocument(path, token) {
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/v1/projects/${PROJECT_ID}/databases/(default)/documents/${path}`;
+  return (await fetch(url, { headers: { Authorization: `Bearer ${token}` } })).status;
+}
+
+function fieldValue(value) {
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  return typeof value === 'number' ? { integerValue: String(value) } : { stringValue: value };
+}
+
+function documentFields(fields) {
+  return { fields: Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, fieldValue(value)])) };
+}
+
+/**
+ * Creates a Firestore document over REST, the way a signed-in device would. `serverTime` fields are set
+ * to the request time, as `serverTimestamp()` does in the SDK.
+ */
+async function createDocument(collection, fields, token, { serverTime = [] } = {}) {
+  const database = `projects/${PROJECT_ID}/databases/(default)`;
+  const name = `${database}/documents/${collection}/${crypto.randomUUID()}`;
+  return (await fetch(`http://${process.env.FIRESTORE_EMULATOR_HOST}/v1/${database}/documents:commit`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      writes: [{
+        update: { name, ...documentFields(fields) },
+        currentDocument: { exists: false },
+        updateTransforms: serverTime.map((fieldPath) => ({ fieldPath, setToServerValue: 'REQUEST_TIME' })),
+      }],
+    }),
+  })).status;
+}
+
+/** Changes only the given fields of a Firestore document over REST. */
+async function updateDocument(path, fields, token) {
+  const mask = Object.keys(fields).map((key) => `updateMask.fieldPaths=${key}`).join('&');
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/v1/projects/${PROJECT_ID}/databases/(default)/documents/${path}?${mask}`;
+  return (await fetch(url, {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(documentFields(fields)),
+  })).status;
+}
+
+async function seed() {
+  const app = initializeApp({ projectId: PROJECT_ID, databaseURL: `https://${PROJECT_ID}-default-rtdb.firebaseio.com` }, `rules-${Date.now()}`);
+  const database = getDatabase(app);
+  const firestore = getFirestore(app);
+  await database.ref().set({
+    instructorAccess: { [OWNER]: { 'teacher-1': { workspaceRole: 'co-instructor' } } },
+    liveV2: {
+      [OWNER]: {
+        'session-1': {
+          meta: { status: 'live', courseId: 'course-1' },
+          responses: { 'run-1': { 'uid-a': { optionIndex: 1 } } },
+          welcomeResponses: { 'run-1': { 'uid-a': { mood: 4 } } },
+          questionVotes: { 'question-1': { 'uid-a': true } },
+          questionPointClaims: { 'uid-a': { 'claim-1': { questionId: 'question-1' } } },
+          quizAwards: { 'uid-a': { points: 2 } },
+          attendanceClaims: { 'uid-a': { studentUid: 'uid-a', studentNumber: 'S001', status: 'claimed' } },
+          presence: { 'uid-a': { 'connection-1': true } },
+          displayPresence: { 'display-1': { 'connection-1': true } },
+        },
+      },
+    },
+  });
+  await firestore.doc('teachers/teacher-1').set({ email: 'dana@university.test', institutionId: 'inst-1' });
+  await firestore.doc('rewardLedgers/ledger-1').set({ teacherId: OWNER, deviceUids: ['uid-a'], seminarPoints: 4 });
+  await firestore.doc('rewardLedgers/ledger-1/entries/entry-1').set({ eventKey: 'session-1:run-1:response', amount: 2, createdAt: Timestamp.now() });
+  await firestore.doc('sessions/homework-1').set({
+    teacherId: OWNER,
+    homework: {
+      release: 'all',
+      latePolicy: 'closed',
+      dueAt: Timestamp.fromMillis(Date.now() - 60 * 60 * 1000),
+      extensions: { 'student-ada': Timestamp.fromMillis(Date.now() + 24 * 60 * 60 * 1000) },
+    },
+  });
+  await firestore.doc('sessions/session-open').set({ teacherId: OWNER, active: true });
+  await firestore.doc('responses/response-ada').set({ authorUid: 'uid-ada', studentId: 'student-ada', sessionId: 'session-open', response: 'Mine', submittedAt: Timestamp.now() });
+  await firestore.doc('teachers/teacher-2').set({ email: 'eli@elsewhere.test' });
+  await firestore.doc('students/student-ada').set({ studentId: 'S001', authorUid: 'uid-ada', name: 'Ada' });
+  await firestore.doc('students/student-ben').set({ studentId: 'S002', authorUid: 'uid-ben', name: 'Ben' });
+}
+
+test('an instructor at an SSO-required institution reads nothing live without an SSO sign-in', { skip }, async () => {
+  await seed();
+  for (const path of LIVE_PATHS) {
+    assert.equal(await readLive(path, passwordSession), 401, `${path} with a password sign-in`);
+    assert.equal(await readLive(path, googleSession), 401, `${path} with a Google sign-in`);
+    assert.equal(await readLive(path, ssoSession), 200, `${path} with an SSO sign-in`);
+  }
+});
+
+test('reward ledger entries need an SSO sign-in too', { skip }, async () => {
+  await seed();
+  assert.equal(await readDocument('rewardLedgers/ledger-1/entries/entry-1', passwordSession), 403);
+  assert.equal(await readDocument('rewardLedgers/ledger-1', passwordSession), 403);
+  assert.equal(await readDocument('rewardLedgers/ledger-1/entries/entry-1', ssoSession), 200);
+});
+
+test('a homework extension counts only for the device that owns the student document', { skip }, async () => {
+  await seed();
+  const answer = (uid, studentId) => createDocument('responses', { authorUid: uid, studentId, sessionId: 'homework-1', response: 'Late answer' },
+    idToken(uid, { firebase: { sign_in_provider: 'anonymous' } }), { serverTime: ['submittedAt'] });
+  assert.equal(await answer('uid-ada', 'student-ada'), 200);
+  assert.equal(await answer('uid-ben', 'student-ada'), 403, 'another device cannot borrow Ada\'s extension');
+  assert.equal(await answer('uid-ben', 'student-ben'), 403, 'the assignment is closed for Ben');
+});
+
+test('only an instructor who can grade the session writes its grade audit', { skip }, async () => {
+  await seed();
+  const audit = (uid) => ({ responseId: 'response-1', sessionId: 'homework-1', teacherId: OWNER, gradedBy: uid, action: 'override', points: 3 });
+  const outsider = idToken('teacher-2', { firebase: { sign_in_provider: 'password' } });
+  assert.equal(await createDocument('gradeAudits', audit('teacher-2'), outsider), 403);
+  assert.equal(await createDocument('gradeAudits', { ...audit(OWNER), teacherId: 'teacher-2' }, ssoSession), 403, 'the audit names the session owner');
+  assert.equal(await createDocument('gradeAudits', audit(OWNER), ssoSession), 200);
+});
+
+test('students cannot write grades or an AI suggestion onto their own answers', { skip }, async () => {
+  await seed();
+  const ada = idToken('uid-ada', { firebase: { sign_in_provider: 'anonymous' } });
+  const answer = { authorUid: 'uid-ada', studentId: 'student-ada', sessionId: 'session-open', response: 'Mine' };
+  const submit = (fields) => createDocument('responses', fields, ada, { serverTime: ['submittedAt'] });
+  assert.equal(await submit({ ...answer, points: 10 }), 403);
+  assert.equal(await submit({ ...answer, gradeStatus: 'approved', gradedBy: OWNER }), 403);
+  assert.equal(await submit({ ...answer, assessment: 'score 10' }), 403);
+  assert.equal(await submit(answer), 200);
+  assert.equal(await updateDocument('responses/response-ada', { assessment: 'score 10' }, ada), 403);
+  assert.equal(await updateDocument('responses/response-ada', { response: 'Edited' }, ada), 200);
+});
+
+test('a response is stamped with the server\'s time and keeps it', { skip }, async () => {
+  await seed();
+  const ada = idToken('uid-ada', { firebase: { sign_in_provider: 'anonymous' } });
+  const answer = { authorUid: 'uid-ada', studentId: 'student-ada', sessionId: 'session-open', response: 'Mine' };
+  const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  assert.equal(await createDocument('responses', { ...answer, submittedAt: lastWeek }, ada), 403, 'a backdated submission');
+  assert.equal(await createDocument('responses', answer, ada), 403, 'no submission time');
+  assert.equal(await updateDocument('responses/response-ada', { submittedAt: lastWeek }, ada), 403);
+});
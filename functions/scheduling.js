@@ -35,8 +35,92 @@ function localPeriodKey(date, timeZone) {
   return `${parts.year}-${parts.month}-${parts.day}`;
 }
 
+// Minutes without instructor or student activity before an open session closes itself.
+const DEFAULT_IDLE_CLOSE_MINUTES = 15;
+const MAX_GENERATED_SESSIONS = 60;
+
+function timeZoneOffsetMs(date, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = Object.fromEntries(parts.map((part) => [part.type, Number(part.value)]));
+  const asUtc = Date.UTC(value.year, value.month - 1, value.day, value.hour, value.minute, value.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock date and time in an instructor's timezone to the instant it happens.
+// The offset is checked twice so meetings on daylight saving changeover days land correctly.
+function zonedTimeToUtc(localDate, localTime, timeZone) {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(localDate || '');
+  const timeMatch = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(localTime || '');
+  if (!dateMatch || !timeMatch || !isValidTimeZone(timeZone)) return null;
+  const wallClock = Date.UTC(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]), Number(timeMatch[1]), Number(timeMatch[2]));
+  let instant = wallClock - timeZoneOffsetMs(new Date(wallClock), timeZone);
+  instant = wallClock - timeZoneOffsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+function addDays(localDate, days) {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Lists the meetings of a weekly pattern between its start and end dates, in the instructor's
+// timezone, skipping meetings that have already started.
+function meetingOccurrences(pattern, timeZone, { from = new Date(), limit = MAX_GENERATED_SESSIONS } = {}) {
+  const weekdays = new Set((Array.isArray(pattern?.weekdays) ? pattern.weekdays : []).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6));
+  if (!weekdays.size || !isValidTimeZone(timeZone) || !/^\d{4}-\d{2}-\d{2}$/.test(pattern?.startDate || '') || !/^\d{4}-\d{2}-\d{2}$/.test(pattern?.endDate || '')) return [];
+  const occurrences = [];
+  for (let localDate = pattern.startDate; localDate <= pattern.endDate && occurrences.length < limit; localDate = addDays(localDate, 1)) {
+    if (!weekdays.has(new Date(`${localDate}T00:00:00Z`).getUTCDay())) continue;
+    const startsAt = zonedTimeToUtc(localDate, pattern.startTime, timeZone);
+    if (!startsAt || startsAt < from) continue;
+    occurrences.push({ meetingDate: localDate, scheduledFor: `${localDate}T${pattern.startTime}`, startsAt });
+  }
+  return occurrences;
+}
+
+function toMillis(value) {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return typeof value === 'number' ? value : 0;
+}
+
+function shouldOpenScheduledSession(session, now) {
+  return session?.autoOpen === true && session.active !== true && !session.endedAt && toMillis(session.opensAt) > 0 && toMillis(session.opensAt) <= now.getTime();
+}
+
+function idleCloseMinutes(session) {
+  const minutes = Number(session?.idleCloseMinutes);
+  return Number.isFinite(minutes) && minutes >= 5 ? Math.min(minutes, 24 * 60) : DEFAULT_IDLE_CLOSE_MINUTES;
+}
+
+// Live rooms send a heartbeat every minute while the instructor screen is open, and joins and
+// answers touch lastActivityAt too, so a quiet window this long means nobody is using the session.
+// Homework stays open between visits until its instructor ends it.
+function isSessionIdle(session, now) {
+  if (session?.active !== true || session.homework) return false;
+  const lastActivity = Math.max(toMillis(session.lastActivityAt), toMillis(session.startedAt), toMillis(session.createdAt));
+  return now.getTime() - lastActivity >= idleCloseMinutes(session) * 60 * 1000;
+}
+
 module.exports = {
+  DEFAULT_IDLE_CLOSE_MINUTES,
+  MAX_GENERATED_SESSIONS,
+  isSessionIdle,
   isValidTimeZone,
   isWeeklyDigestSendTime,
   localPeriodKey,
+  meetingOccurrences,
+  shouldOpenScheduledSession,
+  zonedTimeToUtc,
 };
@@ -2,7 +2,16 @@
 
 const test = require('node:test');
 const assert = require('node:assert/strict');
-const { isValidTimeZone, isWeeklyDigestSendTime, localPeriodKey } = require('./scheduling');
+const {
+  DEFAULT_IDLE_CLOSE_MINUTES,
+  isSessionIdle,
+  isValidTimeZone,
+  isWeeklyDigestSendTime,
+  localPeriodKey,
+  meetingOccurrences,
+  shouldOpenScheduledSession,
+  zonedTimeToUtc,
+} = require('./scheduling');
 
 test('recognizes 8 AM Monday in each instructor timezone', () => {
   assert.equal(isWeeklyDigestSendTime(new Date('2026-08-10T01:05:00Z'), 'Asia/Bangkok'), true);
@@ -20,3 +29,37 @@ test('rejects missing or invalid timezones', () => {
   assert.equal(isValidTimeZone('Not/A_Timezone'), false);
   assert.equal(isWeeklyDigestSendTime(new Date(), undefined), false);
 });
+
+test('converts meeting wall-clock times in the instructor timezone', () => {
+  assert.equal(zonedTimeToUtc('2026-03-03', '10:00', 'Asia/Bangkok').toISOString(), '2026-03-03T03:00:00.000Z');
+  assert.equal(zonedTimeToUtc('2026-03-10', '10:00', 'America/New_York').toISOString(), '2026-03-10T14:00:00.000Z', 'after the spring change');
+  assert.equal(zonedTimeToUtc('2026-03-06', '10:00', 'America/New_York').toISOString(), '2026-03-06T15:00:00.000Z', 'before the spring change');
+  assert.equal(zonedTimeToUtc('2026-03-06', '25:00', 'Asia/Bangkok'), null);
+  assert.equal(zonedTimeToUtc('2026-03-06', '10:00', 'Not/A_Timezone'), null);
+});
+
+test('lists upcoming Tue/Thu meetings in the pattern window', () => {
+  const pattern = { weekdays: [2, 4], startTime: '10:00', startDate: '2026-03-02', endDate: '2026-03-12' };
+  const occurrences = meetingOccurrences(pattern, 'America/New_York', { from: new Date('2026-03-03T16:00:00Z') });
+  assert.deepEqual(occurrences.map((item) => item.scheduledFor), ['2026-03-05T10:00', '2026-03-10T10:00', '2026-03-12T10:00']);
+  assert.equal(occurrences[0].startsAt.toISOString(), '2026-03-05T15:00:00.000Z');
+  assert.equal(occurrences[1].startsAt.toISOString(), '2026-03-10T14:00:00.000Z');
+  assert.equal(meetingOccurrences(pattern, 'America/New_York', { from: new Date('2026-03-01T00:00:00Z'), limit: 2 }).length, 2);
+  assert.deepEqual(meetingOccurrences({ ...pattern, weekdays: [] }, 'America/New_York'), []);
+});
+
+test('opens sessions at their time and closes them after the idle window', () => {
+  const at = (iso) => ({ toMillis: () => new Date(iso).getTime() });
+  const now = new Date('2026-03-05T15:00:00Z');
+  assert.equal(shouldOpenScheduledSession({ autoOpen: true, active: false, opensAt: at('2026-03-05T15:00:00Z') }, now), true);
+  assert.equal(shouldOpenScheduledSession({ autoOpen: true, active: false, opensAt: at('2026-03-05T15:05:00Z') }, now), false);
+  assert.equal(shouldOpenScheduledSession({ autoOpen: true, active: false, opensAt: at('2026-03-05T14:00:00Z'), endedAt: at('2026-03-05T14:30:00Z') }, now), false, 'ended sessions stay closed');
+  assert.equal(shouldOpenScheduledSession({ active: false, opensAt: at('2026-03-05T14:00:00Z') }, now), false);
+
+  const open = { active: true, startedAt: at('2026-03-05T14:00:00Z'), lastActivityAt: at('2026-03-05T14:50:00Z') };
+  assert.equal(isSessionIdle(open, now), false, `quiet for less than ${DEFAULT_IDLE_CLOSE_MINUTES} minutes`);
+  assert.equal(isSessionIdle({ ...open, lastActivityAt: at('2026-03-05T14:40:00Z') }, now), true);
+  assert.equal(isSessionIdle({ ...open, idleCloseMinutes: 60, lastActivityAt: at('2026-03-05T14:40:00Z') }, now), false);
+  assert.equal(isSessionIdle({ ...open, active: false, lastActivityAt: at('2026-03-05T10:00:00Z') }, now), false);
+  assert.equal(isSessionIdle({ ...open, homework: { release: 'all' }, lastActivityAt: at('2026-03-05T10:00:00Z') }, now), false, 'homework waits for students between visits');
+});
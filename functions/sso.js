@@ -0,0 +1,110 @@
+'use strict';
+
+const { createHash, randomBytes } = require('node:crypto');
+const { LtiError, verifyJwt } = require('./lti');
+const { emailDomain } = require('./institution');
+
+class SsoError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'SsoError';
+    this.status = status;
+  }
+}
+
+/** A PKCE verifier and its S256 challenge. The verifier stays server-side in the login state. */
+function pkcePair() {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+async function readJson(response, failure) {
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body) throw new SsoError(`${failure} (${body?.error_description || body?.error || response.status}).`, 502);
+  return body;
+}
+
+/** The endpoints published in an issuer's discovery document. The document must name the same issuer. */
+async function discoverOidc(issuer, fetchImpl = fetch) {
+  const document = await readJson(
+    await fetchImpl(`${issuer}/.well-known/openid-configuration`, { headers: { Accept: 'application/json' } }),
+    'The identity provider discovery document could not be read',
+  );
+  if (document.issuer !== issuer) throw new SsoError('The identity provider reports a different issuer.');
+  const { authorization_endpoint: authorizationEndpoint, token_endpoint: tokenEndpoint, jwks_uri: jwksUri } = document;
+  if (!authorizationEndpoint || !tokenEndpoint || !jwksUri) throw new SsoError('The identity provider discovery document is incomplete.');
+  return { authorizationEndpoint, tokenEndpoint, jwksUri };
+}
+
+/** Step one of the authorization code flow: where the browser is sent, carrying state, nonce and the PKCE challenge. */
+function oidcAuthorizationUrl(sso, { redirectUri, state, nonce, codeChallenge, loginHint }) {
+  const url = new URL(sso.authorizationEndpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('client_id', sso.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (loginHint) url.searchParams.set('login_hint', loginHint);
+  return url.toString();
+}
+
+/** Redeems an authorization code for the ID token, authenticating with the client secret. */
+async function exchangeCode({ sso, clientSecret, code, redirectUri, codeVerifier, fetchImpl = fetch }) {
+  const response = await fetchImpl(sso.tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: sso.clientId,
+      client_secret: clientSecret,
+      code_verifier: codeVerifier,
+    }).toString(),
+  });
+  const body = await readJson(response, 'The identity provider rejected the sign-in');
+  if (typeof body.id_token !== 'string') throw new SsoError('The identity provider did not return an ID token.', 502);
+  return body.id_token;
+}
+
+async function fetchJwks(jwksUri, fetchImpl = fetch) {
+  return readJson(await fetchImpl(jwksUri, { headers: { Accept: 'application/json' } }), 'The identity provider keys could not be read');
+}
+
+/** Verifies an ID token against the provider's keys, this client and the nonce from the login state. */
+function verifyIdToken(idToken, jwks, { issuer, clientId, nonce, now }) {
+  try {
+    return verifyJwt(idToken, jwks, { issuer, audience: clientId, nonce, now });
+  } catch (error) {
+    if (error instanceof LtiError) throw new SsoError('The identity provider sign-in could not be verified. Try signing in again.', error.status);
+    throw error;
+  }
+}
+
+/** The instructor an ID token names. The address must be verified and on one of the institution's verified domains. */
+function ssoIdentity(claims, institution) {
+  const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+  if (!email) throw new SsoError('The identity provider did not share an email address. Ask your administrator to release the email claim.', 403);
+  if (claims.email_verified === false) throw new SsoError('The identity provider has not verified this email address.', 403);
+  if (!(institution.verifiedDomains || []).includes(emailDomain(email))) {
+    throw new SsoError(`${email} is not on a domain ${institution.name || 'this institution'} has verified.`, 403);
+  }
+  const name = typeof claims.name === 'string' && claims.name.trim()
+    ? claims.name.trim().slice(0, 100)
+    : [claims.given_name, claims.family_name].filter((part) => typeof part === 'string' && part.trim()).join(' ').slice(0, 100);
+  return { email, name: name || email.split('@')[0], subject: String(claims.sub || '') };
+}
+
+module.exports = {
+  SsoError,
+  discoverOidc,
+  exchangeCode,
+  fetchJwks,
+  oidcAuthorizationUrl,
+  pkcePair,
+  ssoIdentity,
+  verifyIdToken,
+};
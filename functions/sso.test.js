@@ -0,0 +1,61 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createHash } = require('node:crypto');
+const { SsoError, discoverOidc, exchangeCode, fetchJwks, oidcAuthorizationUrl, pkcePair, ssoIdentity, verifyIdToken } = require('./sso');
+const { createMockOidcProvider } = require('./oidc-mock-provider');
+
+const provider = createMockOidcProvider();
+const institution = { name: 'University', verifiedDomains: ['university.test'] };
+const redirectUri = 'https://tool.test/ssoCallback';
+
+async function signIn(user, { nonce = 'nonce-1', tamper } = {}) {
+  const sso = { ...(await discoverOidc(provider.issuer, provider.fetch)), clientId: provider.clientId };
+  const pkce = pkcePair();
+  const authorizationUrl = oidcAuthorizationUrl(sso, { redirectUri, state: 'state-1', nonce, codeChallenge: pkce.challenge, loginHint: user?.email });
+  const callback = new URL(provider.authorize(authorizationUrl, user));
+  const exchange = { sso, clientSecret: provider.clientSecret, code: callback.searchParams.get('code'), redirectUri, codeVerifier: pkce.verifier, fetchImpl: provider.fetch, ...tamper };
+  const idToken = await exchangeCode(exchange);
+  const jwks = await fetchJwks(sso.jwksUri, provider.fetch);
+  return { callback, claims: verifyIdToken(idToken, jwks, { issuer: provider.issuer, clientId: provider.clientId, nonce: 'nonce-1' }) };
+}
+
+test('discovers the provider endpoints and builds a PKCE authorization request', async () => {
+  const sso = { ...(await discoverOidc(provider.issuer, provider.fetch)), clientId: provider.clientId };
+  assert.equal(sso.tokenEndpoint, `${provider.issuer}/token`);
+  const { verifier, challenge } = pkcePair();
+  assert.equal(createHash('sha256').update(verifier).digest('base64url'), challenge);
+
+  const url = new URL(oidcAuthorizationUrl(sso, { redirectUri, state: 's', nonce: 'n', codeChallenge: challenge, loginHint: 'dana@university.test' }));
+  assert.equal(url.searchParams.get('response_type'), 'code');
+  assert.equal(url.searchParams.get('scope'), 'openid email profile');
+  assert.equal(url.searchParams.get('code_challenge_method'), 'S256');
+  assert.equal(url.searchParams.get('login_hint'), 'dana@university.test');
+  await assert.rejects(discoverOidc('https://other.test', async () => Response.json({ ...provider.discovery })), /different issuer/);
+});
+
+test('signs an instructor in through the authorization code flow', async () => {
+  const { callback, claims } = await signIn({ email: 'Dana@University.test' });
+  assert.equal(callback.searchParams.get('state'), 'state-1');
+  assert.deepEqual(ssoIdentity(claims, institution), { email: 'dana@university.test', name: 'Dana Instructor', subject: 'idp-user-1' });
+  assert.equal(provider.tokenRequests.at(-1).client_secret, provider.clientSecret);
+});
+
+test('rejects a stolen code, a wrong secret and a replayed nonce', async () => {
+  await assert.rejects(signIn({}, { tamper: { codeVerifier: pkcePair().verifier } }), /PKCE verification failed/);
+  await assert.rejects(signIn({}, { tamper: { clientSecret: 'guess' } }), /invalid_client/);
+  await assert.rejects(signIn({}, { tamper: { redirectUri: 'https://attacker.test/callback' } }), /redirect_uri mismatch/);
+  await assert.rejects(signIn({}, { nonce: 'nonce-2' }), (error) => error instanceof SsoError && error.status === 401);
+});
+
+test('rejects tokens from another provider and addresses outside the verified domains', async () => {
+  const impostor = createMockOidcProvider({ issuer: provider.issuer, clientId: provider.clientId });
+  const now = Math.floor(Date.now() / 1000);
+  const forged = impostor.signIdToken({ iss: provider.issuer, aud: provider.clientId, iat: now, exp: now + 300, nonce: 'n', ...provider.userClaims() });
+  assert.throws(() => verifyIdToken(forged, provider.jwks, { issuer: provider.issuer, clientId: provider.clientId, nonce: 'n' }), SsoError);
+
+  assert.throws(() => ssoIdentity(provider.userClaims({ email: 'dana@elsewhere.test' }), institution), /not on a domain/);
+  assert.throws(() => ssoIdentity(provider.userClaims({ email_verified: false }), institution), /not verified/);
+  assert.throws(() => ssoIdentity({ sub: 'x' }, institution), /email claim/);
+});
@@ -0,0 +1,69 @@
+'use strict';
+
+const { createHash, randomBytes } = require('node:crypto');
+
+// Mirrors WellbeingMood in src/types/index.ts.
+const MOOD_KEYS = ['energized', 'steady', 'tired', 'overwhelmed', 'private'];
+// Mirrors DEFAULT_PULSE_MINIMUM in src/lib/wellbeing-pulse.ts.
+const DEFAULT_PULSE_MINIMUM = 5;
+const MAX_PULSE_MINIMUM = 50;
+
+function emptyPulseCounts() {
+  return Object.fromEntries(MOOD_KEYS.map((mood) => [mood, 0]));
+}
+
+/** The smallest group a published breakdown may describe. Below 2 a breakdown is one student's answer. */
+function pulseMinimum(value) {
+  const minimum = Math.floor(Number(value));
+  return Number.isFinite(minimum) && minimum >= 2 ? Math.min(MAX_PULSE_MINIMUM, minimum) : DEFAULT_PULSE_MINIMUM;
+}
+
+/** Marks that a device answered a run without naming the device. The salt is per run, so receipts do not link runs. */
+function pulseReceipt(salt, studentUid) {
+  return createHash('sha256').update(`${salt}:${studentUid}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Adds one answer to a run's private tally, or returns undefined when the device already answered. The
+ * published breakdown only moves in steps of at least `minimum` answers, so neither a breakdown nor the
+ * change between two of them describes fewer than `minimum` students.
+ */
+function addPulseAnswer(tally, studentUid, mood, minimum, now = Date.now()) {
+  const current = tally && typeof tally === 'object' && tally.salt
+    ? tally
+    : { salt: randomBytes(16).toString('hex'), counts: emptyPulseCounts(), total: 0, receipts: {} };
+  const receipt = pulseReceipt(current.salt, studentUid);
+  if (current.receipts?.[receipt]) return undefined;
+
+  const counts = { ...emptyPulseCounts(), ...current.counts };
+  counts[mood] = (Number(counts[mood]) || 0) + 1;
+  const total = (Number(current.total) || 0) + 1;
+  const publishedTotal = Number(current.published?.total) || 0;
+  return {
+    salt: current.salt,
+    counts,
+    total,
+    receipts: { ...(current.receipts || {}), [receipt]: true },
+    published: total - publishedTotal >= minimum ? { counts, total, publishedAt: now } : current.published || null,
+  };
+}
+
+/** What instructors and the projector may read: the last published breakdown and how many answers are in. */
+function publicPulseCounts(tally, minimum) {
+  return {
+    counts: tally.published?.counts || emptyPulseCounts(),
+    total: Number(tally.published?.total) || 0,
+    received: Number(tally.total) || 0,
+    minimum,
+  };
+}
+
+module.exports = {
+  DEFAULT_PULSE_MINIMUM,
+  MOOD_KEYS,
+  addPulseAnswer,
+  emptyPulseCounts,
+  publicPulseCounts,
+  pulseMinimum,
+  pulseReceipt,
+};
@@ -0,0 +1,43 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { DEFAULT_PULSE_MINIMUM, addPulseAnswer, publicPulseCounts, pulseMinimum, pulseReceipt } = require('./wellbeing-pulse');
+
+function answer(tally, uid, mood, minimum = 3) {
+  return addPulseAnswer(tally, uid, mood, minimum, 1000);
+}
+
+test('counts each device once and never stores who chose what', () => {
+  const first = answer(null, 'uid-a', 'tired');
+  assert.deepEqual(first.counts, { energized: 0, steady: 0, tired: 1, overwhelmed: 0, private: 0 });
+  assert.equal(answer(first, 'uid-a', 'steady'), undefined);
+
+  const serialized = JSON.stringify(first);
+  assert.doesNotMatch(serialized, /uid-a/);
+  assert.deepEqual(Object.keys(first.receipts), [pulseReceipt(first.salt, 'uid-a')]);
+  assert.notEqual(pulseReceipt('salt-1', 'uid-a'), pulseReceipt('salt-2', 'uid-a'));
+});
+
+test('publishes the breakdown only in steps of at least k answers', () => {
+  let tally = null;
+  const published = [];
+  ['uid-a', 'uid-b', 'uid-c', 'uid-d', 'uid-e', 'uid-f', 'uid-g'].forEach((uid, index) => {
+    tally = answer(tally, uid, index % 2 ? 'steady' : 'tired');
+    published.push(publicPulseCounts(tally, 3).total);
+  });
+  assert.deepEqual(published, [0, 0, 3, 3, 3, 6, 6]);
+  assert.deepEqual(publicPulseCounts(tally, 3), {
+    counts: { energized: 0, steady: 3, tired: 3, overwhelmed: 0, private: 0 },
+    total: 6,
+    received: 7,
+    minimum: 3,
+  });
+});
+
+test('keeps k between 2 and 50', () => {
+  assert.equal(pulseMinimum(undefined), DEFAULT_PULSE_MINIMUM);
+  assert.equal(pulseMinimum(1), DEFAULT_PULSE_MINIMUM);
+  assert.equal(pulseMinimum(8.7), 8);
+  assert.equal(pulseMinimum(500), 50);
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import {
+  getAssessmentProvider,
+  HEURISTIC_ASSESSMENT_PROMPT_VERSION,
+  resolveAssessmentProviderId,
+  runAssessment,
+  STUB_ASSESSMENT_PROMPT_VERSION,
+  type AssessmentProvider,
+} from '../src/lib/ai/assessment-providers';
+
+const request = {
+  studentResponse: 'We should analyze the churn data because the pricing change affects renewals.',
+  question: 'What should the firm do next?',
+  context: '',
+  maxPoints: 10,
+};
+
+async function main() {
+  assert.equal(resolveAssessmentProviderId({}), 'heuristic');
+  assert.equal(resolveAssessmentProviderId({ GEMINI_API_KEY: 'key' }), 'gemini');
+  assert.equal(resolveAssessmentProviderId({ GEMINI_API_KEY: 'key', ASSESSMENT_PROVIDER: 'Stub' }), 'stub');
+  assert.equal(resolveAssessmentProviderId({ ASSESSMENT_PROVIDER: 'heuristic' }), 'heuristic');
+
+  const stub = await runAssessment(request, undefined, getAssessmentProvider('stub'));
+  assert.equal(stub.score, 5);
+  assert.equal(stub.provider, 'stub');
+  assert.equal(stub.promptVersion, STUB_ASSESSMENT_PROMPT_VERSION);
+  assert.equal(stub.milestones.critical_thinking.achieved, true);
+  assert.deepEqual((await runAssessment(request, undefined, getAssessmentProvider('stub'))).milestones, stub.milestones);
+
+  const heuristic = await runAssessment(request, undefined, getAssessmentProvider('heuristic'));
+  assert.equal(heuristic.provider, 'heuristic');
+  assert.equal(heuristic.promptVersion, HEURISTIC_ASSESSMENT_PROMPT_VERSION);
+  assert.ok(heuristic.score >= 0 && heuristic.score <= request.maxPoints);
+
+  const rubric = {
+    id: 'essay',
+    title: 'Essay',
+    criteria: [{
+      id: 'evidence',
+      name: 'Evidence',
+      levels: [
+        { id: 'high', label: 'High', descriptor: '', minPoints: 3, maxPoints: 4 },
+        { id: 'low', label: 'Low', descriptor: '', minPoints: 0, maxPoints: 2 },
+      ],
+    }],
+  };
+  const rubricStub = await runAssessment({ ...request, rubric }, undefined, getAssessmentProvider('stub'));
+  assert.equal(rubricStub.rubricId, 'essay');
+  assert.equal(rubricStub.criteria?.evidence.score, 2);
+  assert.equal(rubricStub.criteria?.evidence.levelId, 'low');
+  assert.equal(rubricStub.score, 5);
+
+  const rubricAware: AssessmentProvider = {
+    id: 'gemini',
+    promptVersion: 'test',
+    assess: async () => ({ score: 1, feedback: 'Strong', milestones: {}, criteria: { evidence: { levelId: 'high', score: 4, evidence: 'Exhibit 2' } } }),
+  };
+  const rubricScored = await runAssessment({ ...request, rubric }, undefined, rubricAware);
+  assert.equal(rubricScored.score, 10);
+  assert.equal(rubricScored.criteria?.evidence.evidence, 'Exhibit 2');
+
+  const generous: AssessmentProvider = {
+    id: 'stub',
+    promptVersion: 'test',
+    assess: async () => ({ score: 42, feedback: 'Too generous', milestones: {} }),
+  };
+  assert.equal((await runAssessment(request, {}, generous)).score, request.maxPoints);
+
+  const failingGemini: AssessmentProvider = {
+    id: 'gemini',
+    promptVersion: 'test',
+    assess: async () => {
+      throw new Error('offline');
+    },
+  };
+  const originalError = console.error;
+  console.error = () => {};
+  const fallback = await runAssessment(request, undefined, failingGemini).finally(() => {
+    console.error = originalError;
+  });
+  assert.equal(fallback.provider, 'heuristic');
+  assert.equal(fallback.fallbackFrom, 'gemini');
+  assert.equal(fallback.score, heuristic.score);
+
+  console.log('Assessment provider selection and fallback verified.');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import {
+  applyAttendanceMarks,
+  attendanceMarkKey,
+  buildAttendanceRegister,
+  claimStudentNumber,
+  exportAttendanceCsv,
+} from '../src/lib/attendance-register';
+import type { InstructorClassroomRecords, StoredAttendanceClaim, StoredLiveResponse } from '../src/lib/firebase/live-classroom';
+import type { AttendanceMark, Session } from '../src/types';
+
+const timestamp = { toMillis: () => 0, toDate: () => new Date('2026-03-02T09:00:00Z') } as unknown as AttendanceMark['updatedAt'];
+
+const session = (id: string, title: string, studentsJoined?: string[]) => ({
+  id,
+  title,
+  teacherId: 'teacher-1',
+  sessionCode: id.toUpperCase(),
+  active: false,
+  createdAt: timestamp,
+  ...(studentsJoined ? { studentsJoined } : {}),
+}) as unknown as Session;
+
+const claim = (studentUid: string, fields: Partial<StoredAttendanceClaim>): StoredAttendanceClaim => ({
+  studentUid,
+  participationMode: 'course-record',
+  status: 'participated',
+  joinedAt: 1,
+  updatedAt: 1,
+  ...fields,
+});
+
+const answer = (studentUid: string) => ({ studentUid, submittedAt: 1 }) as StoredLiveResponse;
+
+const students = [
+  { id: 'doc-ada', studentId: 'S1001', name: 'Ada Lovelace' },
+  { id: 'doc-bo', studentId: 'S 1002', name: 'Bo Ng' },
+  { id: 'doc-cy', studentId: 'S1003', name: 'Cy Young' },
+];
+const sessions = [session('live-1', 'Pricing'), session('case-2', 'Pricing case', ['S1002', 'doc-cy'])];
+const records: Record<string, Pick<InstructorClassroomRecords, 'attendance' | 'responses'>> = {
+  'live-1': {
+    attendance: {
+      'uid-ada': claim('uid-ada', { studentNumber: 'S1001' }),
+      'uid-bo': claim('uid-bo', { participationMode: 'session-name', studentDisplayName: 'Bo', rosterStudentNumber: 'S1002', rosterStudentId: 'doc-bo', status: 'claimed' }),
+      'uid-cy': claim('uid-cy', { studentNumber: 'S1003', status: 'confirmed' }),
+    },
+    responses: {
+      'run-1': { 'uid-ada': answer('uid-ada'), 'uid-bo': answer('uid-bo') },
+      'run-2': { 'uid-ada': answer('uid-ada') },
+    },
+  },
+};
+
+assert.equal(claimStudentNumber({ participationMode: 'session-name', rosterStudentNumber: 'S9' }), 'S9', 'reconciled nicknames count toward the roster number');
+assert.equal(claimStudentNumber({ participationMode: 'anonymous', studentNumber: 'S9' }), '');
+assert.equal(claimStudentNumber({ studentNumber: 'S9' }), 'S9', 'claims from before participation modes are course records');
+
+const joined = buildAttendanceRegister({ sessions, students, records });
+assert.deepEqual(joined.columns.map((column) => [column.sessionId, column.live]), [['live-1', true], ['case-2', false]]);
+const [ada, bo, cy] = joined.rows;
+assert.equal(ada.cells['live-1'].interactions, 2);
+assert.equal(ada.cells['live-1'].studentUid, 'uid-ada');
+assert.equal(ada.cells['case-2'].state, 'absent');
+assert.equal(bo.cells['live-1'].state, 'present', 'checking in is enough without a policy');
+assert.equal(bo.cells['case-2'].state, 'present', 'joined lists match student numbers regardless of spacing');
+assert.equal(cy.cells['case-2'].state, 'present', 'joined lists can hold student document ids');
+assert.deepEqual([ada.rate, bo.rate, cy.rate], [50, 100, 100]);
+
+const strict = buildAttendanceRegister({ sessions, students, records, settings: { minInteractions: 2 } });
+assert.equal(strict.rows[1].cells['live-1'].state, 'absent', 'one response is below a two-interaction policy');
+assert.equal(strict.rows[1].cells['live-1'].joined, true);
+assert.equal(strict.rows[2].cells['live-1'].state, 'present', 'a claim confirmed in the room stays present');
+
+const mark = (status: AttendanceMark['status'], fields: Partial<AttendanceMark> = {}): AttendanceMark => ({ status, updatedBy: 'teacher-1', updatedAt: timestamp, ...fields });
+let marks = applyAttendanceMarks(undefined, [attendanceMarkKey('doc-ada', 'case-2')], mark('confirmed', { late: true }));
+marks = applyAttendanceMarks(marks, [attendanceMarkKey('doc-bo', 'live-1'), attendanceMarkKey('doc-cy', 'live-1')], mark('excused', { reason: 'Field trip' }));
+marks = applyAttendanceMarks(marks, [attendanceMarkKey('doc-cy', 'live-1')], null);
+assert.deepEqual(Object.keys(marks).sort(), ['doc-ada:case-2', 'doc-bo:live-1'], 'a null mark clears the key');
+
+const marked = buildAttendanceRegister({ sessions, students, records, settings: { minInteractions: 2, marks } });
+assert.equal(marked.rows[0].cells['case-2'].state, 'late');
+assert.deepEqual([marked.rows[0].present, marked.rows[0].late, marked.rows[0].rate], [1, 1, 100], 'late still counts as attended');
+assert.equal(marked.rows[1].cells['live-1'].state, 'excused');
+assert.deepEqual([marked.rows[1].excused, marked.rows[1].rate], [1, 100], 'excused sessions leave the denominator');
+
+const allExcused = buildAttendanceRegister({
+  sessions: [sessions[0]],
+  students: [students[0]],
+  records,
+  settings: { marks: { [attendanceMarkKey('doc-ada', 'live-1')]: mark('excused') } },
+});
+assert.equal(allExcused.rows[0].rate, null);
+
+const csv = exportAttendanceCsv(marked).split('\n');
+assert.equal(csv[0], '"Student ID","Name","Pricing (2026-03-02)","Pricing case (2026-03-02)","Present","Late","Excused","Attendance %"');
+assert.equal(csv[2], '"S 1002","Bo Ng","Excused: Field trip","Present","1","0","1","100"');
+
+console.log('Attendance register verified.');
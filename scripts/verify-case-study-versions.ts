@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import {
+  applyCaseStudyVersion,
+  caseStudyVersionContent,
+  diffCaseStudyVersions,
+  sameCaseStudyContent,
+  touchesVersionedContent,
+} from '../src/lib/case-study-versions';
+import type { CaseStudy, CaseStudyVersion, Question, Section } from '../src/types';
+
+const question = (id: string, text: string): Question => ({ id, text, type: 'text', points: 5 });
+const section = (id: string, title: string, questions: Question[], content = `<p>${title}</p>`): Section => ({
+  id,
+  title,
+  content,
+  type: 'reading',
+  questions,
+  order: 0,
+});
+
+const before = {
+  title: 'Pricing',
+  description: 'Set a price.',
+  totalPoints: 20,
+  sections: [
+    section('intro', 'Introduction', [question('q1', 'What is the market?')]),
+    section('costs', 'Costs', [question('q2', 'Which costs are fixed?'), question('q3', 'Which are variable?')]),
+    section('close', 'Decision', [question('q4', 'What price?')]),
+  ],
+};
+
+const after = {
+  ...before,
+  title: 'Pricing strategy',
+  sections: [
+    before.sections[0],
+    section('close', 'Decision', [question('q4', 'What price, and why?'), question('q5', 'What would change your mind?')]),
+    section('risks', 'Risks', []),
+  ],
+};
+
+const diff = diffCaseStudyVersions(before, after);
+assert.deepEqual(diff.fields, ['Title']);
+assert.deepEqual(diff.sections.map((item) => [item.sectionId, item.change]), [
+  ['intro', 'unchanged'],
+  ['close', 'changed'],
+  ['risks', 'added'],
+  ['costs', 'removed'],
+], 'removed sections come after the newer version\'s sections');
+assert.deepEqual(diff.sections[1].questions, { added: 1, removed: 0, edited: 1 });
+assert.equal(diff.sections[1].moved, false, 'a section only counts as moved relative to the sections both versions keep');
+assert.equal(diff.sections[3].index, 1, 'removed sections keep their position in the older version');
+
+const reordered = diffCaseStudyVersions(before, {
+  ...before,
+  sections: [
+    before.sections[1],
+    { ...before.sections[0] },
+    { ...before.sections[2], questions: [...before.sections[2].questions] },
+  ],
+});
+assert.deepEqual(reordered.sections.map((item) => [item.sectionId, item.change, item.moved]), [
+  ['costs', 'changed', true],
+  ['intro', 'changed', true],
+  ['close', 'unchanged', false],
+]);
+
+const questionOrder = diffCaseStudyVersions(before, {
+  ...before,
+  sections: [before.sections[0], { ...before.sections[1], title: 'Cost structure', questions: [...before.sections[1].questions].reverse() }, before.sections[2]],
+});
+assert.deepEqual(questionOrder.sections[1].fields, ['Title', 'Question order']);
+
+// Firestore does not keep key order, so a round trip must not look like an edit.
+const reverseKeys = <T extends object>(value: T) => Object.fromEntries(Object.entries(value).reverse()) as T;
+assert.ok(sameCaseStudyContent(before, { ...reverseKeys(before), sections: before.sections.map(reverseKeys) }));
+assert.ok(!sameCaseStudyContent(before, after));
+assert.ok(sameCaseStudyContent({ ...before, conclusionGuidance: undefined }, before), 'unset fields are not content');
+
+assert.equal(touchesVersionedContent({ title: 'New' }), true);
+assert.equal(touchesVersionedContent({}), false);
+assert.deepEqual(Object.keys(caseStudyVersionContent({ ...before, rubrics: undefined })).sort(), ['description', 'sections', 'title', 'totalPoints']);
+
+const timestamp = { toMillis: () => 0, toDate: () => new Date(0) } as unknown as CaseStudy['createdAt'];
+const current = { id: 'case-1', ...after, courseId: 'default', teacherId: 'teacher-1', archived: false, currentVersion: 3, createdAt: timestamp, updatedAt: timestamp } as CaseStudy;
+const version: CaseStudyVersion = { id: '1', version: 1, ...before, createdAt: timestamp, createdBy: 'teacher-1' };
+const pinned = applyCaseStudyVersion(current, version);
+assert.equal(pinned.title, 'Pricing');
+assert.equal(pinned.sections[1].questions[0].text, 'Which costs are fixed?', 'question text comes from the pinned version');
+assert.equal(pinned.currentVersion, 1);
+assert.equal(pinned.teacherId, 'teacher-1');
+assert.equal(applyCaseStudyVersion(current, null), current, 'a missing version keeps the current content');
+
+console.log('Case study versions verified.');
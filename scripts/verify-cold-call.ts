@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import type { Timestamp } from 'firebase/firestore';
+import {
+  buildColdCallRows,
+  buildColdCallWheel,
+  coldCallCandidates,
+  coldCallCounts,
+  coldCallWeight,
+  exportColdCallCsv,
+  pickWeightedIndex,
+  summarizeColdCalls,
+  unusedColdCallPasses,
+} from '../src/lib/cold-call';
+import type { ColdCallEntry, RewardRequest } from '../src/types';
+
+const at = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) }) as Timestamp;
+const call = (studentNumber: string, outcome: ColdCallEntry['outcome'], calledAt: number, quality?: ColdCallEntry['quality']) => ({
+  id: `${studentNumber}-${calledAt}`,
+  studentNumber,
+  studentName: studentNumber,
+  outcome,
+  quality,
+  calledAt: at(calledAt),
+});
+
+const entries = [
+  call('s-001', 'answered', 10, 3),
+  call('S001', 'answered', 20, 2),
+  call('s002', 'passed', 15),
+  call('s003', 'absent', 30),
+];
+assert.deepEqual(coldCallCounts(entries), { S001: 2, S002: 1 });
+
+// Anonymous check-ins and excused students never reach the wheel; session nicknames count once matched to the roster.
+assert.deepEqual(coldCallCandidates([
+  { status: 'participated', participationMode: 'course-record', studentNumber: 'S001', studentDisplayName: 'Ada ' },
+  { status: 'claimed', participationMode: 'anonymous', studentNumber: 'S009' },
+  { status: 'excused', participationMode: 'course-record', studentNumber: 'S004' },
+  { status: 'claimed', participationMode: 'session-name', studentDisplayName: 'Bo', rosterStudentNumber: 'S005' },
+  { status: 'claimed', participationMode: 'session-name', studentDisplayName: 'Unmatched' },
+]), [
+  { label: 'Ada', studentNumber: 'S001' },
+  { label: 'Bo', studentNumber: 'S005' },
+]);
+
+assert.equal(coldCallWeight(0), 1);
+assert.equal(coldCallWeight(1), 0.25);
+assert.equal(coldCallWeight(2), 1 / 9);
+
+const wheel = buildColdCallWheel([
+  { label: 'Ada', studentNumber: 'S001' },
+  { label: 'Ada', studentNumber: 'S0077' },
+  { label: '', studentNumber: 'S002' },
+  { label: 'Cy', studentNumber: 's-003' },
+  { label: 'Ada again', studentNumber: 'S001' },
+], { S001: 1 }, ['S003']);
+assert.deepEqual(wheel.items, ['Ada', 'Ada •0077', 'Student •S002']);
+assert.deepEqual(wheel.weights, [0.25, 1, 1]);
+assert.deepEqual(wheel.studentNumbers, ['S001', 'S0077', 'S002']);
+
+assert.equal(pickWeightedIndex(3, 0, [1, 1, 2]), 0);
+assert.equal(pickWeightedIndex(3, 0.3, [1, 1, 2]), 1);
+assert.equal(pickWeightedIndex(3, 0.5, [1, 1, 2]), 2);
+assert.equal(pickWeightedIndex(3, 0.999, [1, 1, 2]), 2);
+assert.equal(pickWeightedIndex(2, 0.2, [0, 1]), 1);
+// Missing or mismatched weights fall back to an even spin.
+assert.equal(pickWeightedIndex(4, 0.6), 2);
+assert.equal(pickWeightedIndex(4, 0.6, [1, 1]), 2);
+assert.equal(pickWeightedIndex(0, 0.5), -1);
+
+// Over many spins, a student who has not been called comes up about four times as often as one called once.
+const hits = [0, 0];
+for (let step = 0; step < 1000; step += 1) hits[pickWeightedIndex(2, step / 1000, [1, 0.25])] += 1;
+assert.deepEqual(hits, [800, 200]);
+
+const summaries = summarizeColdCalls(entries);
+assert.deepEqual(summaries.S001, { calls: 2, answered: 2, passed: 0, absent: 0, averageQuality: 2.5, lastCalledAt: 20 });
+assert.deepEqual(summaries.S002, { calls: 1, answered: 0, passed: 1, absent: 0, averageQuality: null, lastCalledAt: 15 });
+assert.deepEqual(summaries.S003, { calls: 0, answered: 0, passed: 0, absent: 1, averageQuality: null, lastCalledAt: 30 });
+
+const request = (id: string, rewardId: string, status: RewardRequest['status'], reviewedAt: number, studentNumber = 's-002') => ({
+  id,
+  rewardId,
+  status,
+  studentNumber,
+  reviewedAt: at(reviewedAt),
+}) as RewardRequest;
+const passes = unusedColdCallPasses([
+  request('late', 'pass', 'approved', 30),
+  request('early', 'pass', 'approved', 10),
+  request('spent', 'pass', 'used', 5),
+  request('pending', 'pass', 'pending', 1),
+  request('shoutout', 'recognition', 'approved', 1),
+  request('other-student', 'pass', 'approved', 1, 'S001'),
+], [{ id: 'pass', kind: 'pass' }, { id: 'recognition', kind: 'recognition' }], 'S002');
+assert.deepEqual(passes.map((pass) => pass.id), ['early', 'late']);
+
+const rows = buildColdCallRows(
+  [{ studentId: 'S002', name: 'Bo' }, { studentId: 'S001', name: 'Ada' }, { studentId: 'S004', name: 'Dee' }],
+  [...entries, call('X9', 'answered', 40, 1)],
+  ['S004'],
+);
+assert.deepEqual(rows.map((row) => [row.name, row.onRoster, row.optedOut, row.summary.calls]), [
+  ['Ada', true, false, 2],
+  ['Bo', true, false, 1],
+  ['Dee', true, true, 0],
+  ['s003', false, false, 0],
+  ['X9', false, false, 1],
+]);
+assert.deepEqual(rows[0].entries.map((entry) => entry.id), ['S001-20', 's-001-10']);
+
+const csv = exportColdCallCsv(rows).split('\n');
+assert.equal(csv[0], '"Student ID","Name","Calls","Answered","Passes used","Not here","Average mark (1-3)","Opted out"');
+assert.equal(csv[1], '"S001","Ada","2","2","0","0","2.5",""');
+assert.equal(csv[3], '"S004","Dee","0","0","0","0","","Yes"');
+
+console.log('Cold-call fairness and history verified.');
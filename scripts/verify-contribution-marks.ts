@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import type { Timestamp } from 'firebase/firestore';
+import {
+  buildContributionRows,
+  contributionRate,
+  defaultContributionTarget,
+  exportContributionCsv,
+  liveContributionStudents,
+  summarizeContributions,
+  toContributionGrades,
+} from '../src/lib/contribution-marks';
+import type { ContributionMark } from '../src/types';
+
+const at = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) }) as Timestamp;
+const mark = (studentNumber: string, level: ContributionMark['mark'], markedAt: number, sessionId = 'day-1') => ({
+  id: `${studentNumber}-${markedAt}`,
+  studentNumber,
+  studentName: studentNumber,
+  sessionId,
+  mark: level,
+  markedAt: at(markedAt),
+});
+
+const marks = [
+  mark('s-001', 3, 10),
+  mark('S001', 2, 20, 'day-2'),
+  mark('S001', 1, 25, 'day-2'),
+  mark('s002', 1, 15),
+  mark('X9', 3, 30),
+];
+
+const summaries = summarizeContributions(marks);
+assert.deepEqual(summaries.S001, { marks: 3, points: 6, levels: { 1: 1, 2: 1, 3: 1 }, averageMark: 2, sessions: 2, lastMarkedAt: 25 });
+assert.deepEqual(summaries.S002, { marks: 1, points: 1, levels: { 1: 1, 2: 0, 3: 0 }, averageMark: 1, sessions: 1, lastMarkedAt: 15 });
+
+// The live list shows each checked-in student once, alphabetically, with this class's marks only.
+assert.deepEqual(liveContributionStudents([
+  { label: 'Cy', studentNumber: 'S003' },
+  { label: 'Ada', studentNumber: 'S001' },
+  { label: '', studentNumber: 'S002' },
+  { label: 'Ada again', studentNumber: 's-001' },
+], marks.filter((item) => item.sessionId === 'day-2')), [
+  { studentNumber: 'S001', name: 'Ada', marks: 2, lastMark: 1 },
+  { studentNumber: 'S003', name: 'Cy', marks: 0, lastMark: null },
+  { studentNumber: 'S002', name: 'Student •S002', marks: 0, lastMark: null },
+]);
+
+const rows = buildContributionRows(
+  [{ id: 'doc-b', studentId: 'S002', name: 'Bo' }, { id: 'doc-a', studentId: 'S001', name: 'Ada' }, { id: 'doc-d', studentId: 'S004', name: 'Dee' }],
+  marks,
+);
+assert.deepEqual(rows.map((row) => [row.name, row.studentDocId, row.summary.points]), [
+  ['Ada', 'doc-a', 6],
+  ['Bo', 'doc-b', 1],
+  ['Dee', 'doc-d', 0],
+  ['X9', null, 3],
+]);
+assert.deepEqual(rows[0].entries.map((entry) => entry.id), ['S001-25', 'S001-20', 's-001-10']);
+
+// Someone marked in class but missing from the roster does not set the bar for the roster.
+assert.equal(defaultContributionTarget(rows), 6);
+assert.equal(defaultContributionTarget([]), 0);
+assert.equal(contributionRate(3, 6), 50);
+assert.equal(contributionRate(9, 6), 100);
+assert.equal(contributionRate(3, 0), null);
+
+assert.deepEqual(toContributionGrades(rows, 4), [
+  { studentId: 'doc-a', contribution: { rate: 100, marks: 3, points: 6, averageMark: 2, sessions: 2 } },
+  { studentId: 'doc-b', contribution: { rate: 25, marks: 1, points: 1, averageMark: 1, sessions: 1 } },
+  { studentId: 'doc-d', contribution: { rate: 0, marks: 0, points: 0, averageMark: null, sessions: 0 } },
+]);
+assert.deepEqual(toContributionGrades(rows, 0), []);
+
+const csv = exportContributionCsv(rows, 6).split('\n');
+assert.equal(csv[0], '"Student ID","Name","Marks","Insightful","Building","Factual","Points","Average mark (1-3)","Classes","Participation %"');
+assert.equal(csv[1], '"S001","Ada","3","1","1","1","6","2","2","100"');
+assert.equal(csv[3], '"S004","Dee","0","0","0","0","0","","0","0"');
+
+console.log('Contribution marks and participation rollup verified.');
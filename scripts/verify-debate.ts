@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import {
+  MAX_DEBATE_ARGUMENT_LENGTH,
+  assignTeamDebateSides,
+  debateSideFor,
+  debateSideLabels,
+  debateStanceShare,
+  debateStanceShift,
+  normalizeDebateArgument,
+  rankDebateArguments,
+} from '../src/lib/debate';
+
+assert.deepEqual(debateSideLabels(), ['For', 'Against']);
+assert.deepEqual(debateSideLabels([' Buy ', '']), ['Buy', 'Against']);
+
+// The largest team goes first, then each team joins whichever side is smaller so far.
+assert.deepEqual(
+  assignTeamDebateSides([
+    { id: 'a', memberCount: 2 },
+    { id: 'b', members: [1, 2, 3, 4, 5] },
+    { id: 'c', memberCount: 3 },
+    { id: 'd', memberCount: 0 },
+  ]),
+  { b: 0, c: 1, a: 1, d: 0 },
+);
+assert.deepEqual(assignTeamDebateSides([]), {});
+
+const side = debateSideFor('student-1', 'debate-1');
+assert.equal(debateSideFor('student-1', 'debate-1'), side);
+assert.ok(side === 0 || side === 1);
+const sides = Array.from({ length: 40 }, (_, index) => debateSideFor(`student-${index}`, 'debate-1'));
+assert.ok(sides.includes(0) && sides.includes(1));
+assert.equal(debateSideFor('student-1', 'debate-1', 'team-a', { 'team-a': side === 0 ? 1 : 0 }), side === 0 ? 1 : 0);
+assert.equal(debateSideFor('student-1', 'debate-1', 'team-z', { 'team-a': 1 }), side);
+
+assert.equal(normalizeDebateArgument('  Cash   now\nbeats  later '), 'Cash now beats later');
+assert.equal(normalizeDebateArgument('x'.repeat(300)).length, MAX_DEBATE_ARGUMENT_LENGTH);
+
+const ranked = rankDebateArguments([
+  { id: 'late', side: 0, text: 'Later point', submittedAt: 30 },
+  { id: 'early', side: 1, text: 'Earlier point', submittedAt: 10 },
+  { id: 'top', side: 0, text: 'Popular point', submittedAt: 20 },
+  { id: 'blank', side: 1, text: '   ', submittedAt: 5 },
+  { id: 'stray', side: 2 as 0, text: 'Wrong side', submittedAt: 1 },
+], { top: 3, late: 1, early: 1 });
+assert.deepEqual(ranked.map((item) => item.id), ['top', 'early', 'late']);
+assert.equal(ranked[0].votes, 3);
+assert.deepEqual(rankDebateArguments(ranked, {}, 2).map((item) => item.id), ['early', 'top']);
+
+assert.equal(debateStanceShare([3, 1]), 75);
+assert.equal(debateStanceShare([0, 0]), null);
+assert.equal(debateStanceShare(), null);
+assert.equal(debateStanceShift([2, 2], [3, 1]), 25);
+assert.equal(debateStanceShift([3, 1], [1, 3]), -50);
+assert.equal(debateStanceShift([], [1, 1]), null);
+
+console.log('Debate helpers verified.');
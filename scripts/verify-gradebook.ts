@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import { buildGradebook, getFinalPercentage, gradebookOverrideKey, toStudentGradeRecord } from '../src/lib/gradebook';
+import { exportGradebookCsv } from '../src/lib/gradebook-export';
+import type { CaseStudy, CourseGradebookSettings, GradebookOverride, Response, Session, StudentGrade } from '../src/types';
+
+const timestamp = { toMillis: () => 0, toDate: () => new Date('2026-03-02T09:00:00Z') } as unknown as GradebookOverride['updatedAt'];
+
+const session = (id: string, title: string, caseStudyId?: string) => ({
+  id,
+  title,
+  caseStudyId,
+  teacherId: 'teacher-1',
+  sessionCode: id.toUpperCase(),
+  active: false,
+  createdAt: timestamp,
+}) as unknown as Session;
+
+const caseStudies: Record<string, Pick<CaseStudy, 'sections'>> = {
+  'case-a': {
+    sections: [{
+      id: 's1',
+      title: 'Analysis',
+      content: '',
+      order: 1,
+      questions: [
+        { id: 'q1', text: 'Explain', type: 'text', points: 6 },
+        { id: 'q2', text: 'Pick', type: 'multiple-choice', points: 4 },
+      ],
+    }],
+  } as unknown as Pick<CaseStudy, 'sections'>,
+};
+
+const response = (studentId: string, sessionId: string, questionId: string, points: number | undefined, maxPoints: number) => ({
+  id: `${studentId}-${sessionId}-${questionId}`,
+  studentId,
+  sessionId,
+  caseStudyId: 'case-a',
+  sectionId: 's1',
+  questionId,
+  response: 'answer',
+  points,
+  maxPoints,
+  submittedAt: timestamp,
+}) as Response;
+
+const sessions = [
+  session('week-1', 'Pricing', 'case-a'),
+  session('week-2', 'Pricing', 'case-b'),
+  session('week-3', 'Discussion only'),
+];
+const students = [
+  { id: 'doc-ada', studentId: 'S1001', name: 'Ada Lovelace', email: 'ada@example.edu' },
+  { id: 'doc-bo', studentId: 'S1002', name: 'Bo' },
+];
+const responses = [
+  response('doc-ada', 'week-1', 'q1', 6, 6),
+  response('doc-ada', 'week-1', 'q2', 4, 4),
+  response('doc-ada', 'week-2', 'q1', 5, 10),
+  response('doc-bo', 'week-1', 'q1', undefined, 6),
+  response('doc-bo', 'week-1', 'q2', 4, 4),
+];
+
+const plain = buildGradebook({ sessions, caseStudies, students, responses });
+assert.deepEqual(plain.columns.map((column) => [column.sessionId, column.maxPoints]), [['week-1', 10], ['week-2', 10]], 'sessions without points are not columns; the case study total wins over responses');
+const [ada, bo] = plain.rows;
+assert.equal(ada.student.studentId, 'S1001', 'rows are sorted by name');
+assert.equal(ada.cells['week-1'].status, 'graded');
+assert.equal(ada.sessionPoints, 15);
+assert.equal(ada.percentage, 75);
+assert.equal(bo.cells['week-1'].status, 'pending');
+assert.equal(bo.cells['week-1'].points, 4);
+assert.equal(bo.cells['week-2'].status, 'missing');
+assert.equal(bo.cells['week-2'].points, 0);
+assert.equal(bo.participationRate, 50);
+
+const settings: CourseGradebookSettings = {
+  sessionWeights: { 'week-1': 3 },
+  participationWeight: 20,
+  latePenaltyPercent: 20,
+  overrides: {
+    [gradebookOverrideKey('doc-ada', 'week-2')]: { status: 'late', updatedBy: 'teacher-1', updatedAt: timestamp },
+    [gradebookOverrideKey('doc-bo', 'week-2')]: { status: 'excused', note: 'Medical', updatedBy: 'teacher-1', updatedAt: timestamp },
+  },
+};
+const weighted = buildGradebook({
+  sessions,
+  caseStudies,
+  students,
+  responses,
+  grades: [{ studentId: 'doc-ada', participationRate: 100, achievementBonusPoints: 2 }],
+  settings,
+});
+const [weightedAda, weightedBo] = weighted.rows;
+assert.equal(weightedAda.cells['week-2'].status, 'late');
+assert.equal(weightedAda.cells['week-2'].points, 4, 'late work loses the course penalty');
+// Sessions: (3 * 100% + 1 * 40%) / 4 = 85%; participation share: 85 * 0.8 + 100 * 0.2 = 88
+assert.equal(weightedAda.percentage, 88);
+assert.equal(weightedAda.bonusPoints, 2);
+assert.equal(weightedAda.totalPoints, 16);
+assert.equal(getFinalPercentage(weightedAda), 98, 'bonus points add on top of the weighted total');
+assert.equal(weightedBo.cells['week-2'].status, 'excused');
+assert.equal(weightedBo.cells['week-2'].points, null);
+assert.equal(weightedBo.maxPoints, 10, 'excused sessions leave the possible points');
+assert.equal(weightedBo.participationRate, 100, 'excused sessions leave the participation count');
+
+const withContribution = buildGradebook({
+  sessions,
+  caseStudies,
+  students,
+  responses,
+  grades: [
+    { studentId: 'doc-ada', participationRate: 100, contribution: { rate: 60, marks: 3, points: 3, averageMark: 1, sessions: 2 }, achievementBonusPoints: 0 },
+    { studentId: 'doc-bo', contribution: { rate: 20, marks: 1, points: 1, averageMark: 1, sessions: 1 }, achievementBonusPoints: 0 },
+  ],
+  settings: { participationWeight: 20 },
+});
+assert.deepEqual(
+  withContribution.rows.map((row) => [row.attendanceRate, row.contributionRate, row.participationRate]),
+  [[100, 60, 80], [50, 20, 35]],
+  'attendance and contribution are averaged into participation, neither replacing the other',
+);
+assert.equal(toStudentGradeRecord(withContribution.rows[1], 'course-1', sessions).participationRate, 50, 'the record keeps attendance, not the combined rate');
+
+const withCustomPenalty = buildGradebook({
+  sessions,
+  caseStudies,
+  students,
+  responses,
+  settings: { overrides: { [gradebookOverrideKey('doc-ada', 'week-2')]: { status: 'late', latePenaltyPercent: 50, updatedBy: 'teacher-1', updatedAt: timestamp } } },
+});
+assert.equal(withCustomPenalty.rows[0].cells['week-2'].points, 2.5);
+assert.equal(buildGradebook({ sessions, caseStudies, students, responses, grades: [{ studentId: 'doc-ada', participationRate: 0, achievementBonusPoints: 5 }], settings: { includeAchievementBonus: false } }).rows[0].bonusPoints, 0);
+
+const at = (iso: string) => ({ toMillis: () => Date.parse(iso), toDate: () => new Date(iso) }) as unknown as GradebookOverride['updatedAt'];
+const homeworkSessions = [{ ...sessions[0], homework: { release: 'all', dueAt: at('2026-03-01T00:00:00Z'), latePolicy: 'penalty', extensions: { 'doc-bo': at('2026-03-05T00:00:00Z') } } } as Session];
+const homeworkResponses = responses.map((entry) => ({ ...entry, submittedAt: at('2026-03-02T09:00:00Z') }));
+const homeworkBook = buildGradebook({ sessions: homeworkSessions, caseStudies, students, responses: homeworkResponses, settings: { latePenaltyPercent: 20 } });
+assert.equal(homeworkBook.rows[0].cells['week-1'].status, 'late', 'answers after the due date are late without an override');
+assert.equal(homeworkBook.rows[0].cells['week-1'].points, 8, 'the course penalty applies when the assignment sets none');
+assert.equal(homeworkBook.rows[1].cells['week-1'].status, 'pending', 'an extension moves the due date');
+const acceptedLate = buildGradebook({ sessions: [{ ...homeworkSessions[0], homework: { ...homeworkSessions[0].homework!, latePolicy: 'accept' } }], caseStudies, students, responses: homeworkResponses });
+assert.deepEqual([acceptedLate.rows[0].cells['week-1'].status, acceptedLate.rows[0].cells['week-1'].points], ['late', 10], 'accepted late work keeps its score');
+const excusedHomework = buildGradebook({ sessions: homeworkSessions, caseStudies, students, responses: homeworkResponses, settings: { overrides: { [gradebookOverrideKey('doc-ada', 'week-1')]: { status: 'excused', updatedBy: 'teacher-1', updatedAt: timestamp } } } });
+assert.equal(excusedHomework.rows[0].cells['week-1'].status, 'excused', 'an override wins over the due date');
+
+const adaRecord = toStudentGradeRecord(weightedAda, 'course-1', sessions, {
+  participationRate: 100,
+  achievementBonusPoints: 2,
+  achievementBonusPercentage: 0,
+  achievementBonuses: [{ achievementId: 'a1', achievementName: 'First answer', bonusPoints: 2, awardedAt: timestamp }],
+} as StudentGrade);
+assert.equal(adaRecord.totalPoints, 14);
+assert.equal(adaRecord.maxTotalPoints, 20);
+assert.equal(adaRecord.achievementBonusPoints, 2, 'bonuses already on the record are kept for passback');
+assert.equal(adaRecord.achievementBonuses.length, 1);
+assert.deepEqual(adaRecord.sessions.map((entry) => [entry.sessionId, entry.points]), [['week-1', 10], ['week-2', 4]]);
+const boRecord = toStudentGradeRecord(weightedBo, 'course-1', sessions);
+assert.deepEqual(boRecord.sessions.map((entry) => entry.sessionId), ['week-1'], 'excused sessions are left out of the record');
+assert.equal(boRecord.participationRate, 100);
+
+const canvas = exportGradebookCsv(weighted, 'canvas').split('\n');
+assert.equal(canvas[0], '"Student","ID","SIS User ID","SIS Login ID","Section","Pricing","Pricing (2)","Achievement bonus","Course total (%)"');
+assert.equal(canvas[1], '"Points Possible","","","","","10","10","0","100"');
+assert.equal(canvas[2], '"Lovelace, Ada","","S1001","","","10","4","2","98"');
+assert.equal(canvas[3], '"Bo","","S1002","","","4","EX","0","52"');
+
+const moodle = exportGradebookCsv(weighted, 'moodle').split('\n');
+assert.equal(moodle[0], '"First name","Last name","ID number","Email address","Pricing","Pricing (2)","Achievement bonus","Course total (%)"');
+assert.equal(moodle[1], '"Ada","Lovelace","S1001","ada@example.edu","10","4","2","98"');
+assert.equal(moodle[2], '"Bo","","S1002","","4","-","0","52"');
+
+const blackboard = exportGradebookCsv(weighted, 'blackboard').split('\n');
+assert.equal(blackboard[0], '"Last Name","First Name","Username","Student ID","Pricing [Total Pts: 10 Score]","Pricing (2) [Total Pts: 10 Score]","Achievement bonus [Total Pts: 0 Score]","Course total [Total Pts: 100 Score]"');
+assert.equal(blackboard[2], '"","Bo","S1002","S1002","4","","0","52"');
+
+console.log('Gradebook verified.');
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import {
+  assessmentUpdate,
+  buildGradingQueue,
+  getGradingState,
+  needsReview,
+  orderForBlindGrading,
+  validateGradePoints,
+} from '../src/lib/grading-queue';
+import type { CaseStudy, Response } from '../src/types';
+
+const at = (millis: number) => ({ toMillis: () => millis }) as unknown as Response['submittedAt'];
+const assessment = (score: number) => ({ score, feedback: 'Solid analysis.', milestones: {} });
+
+const response = (id: string, questionId: string, submittedAt: number, extra: Partial<Response> = {}): Response => ({
+  id,
+  studentId: `student-${id}`,
+  sessionId: 'session-1',
+  caseStudyId: 'case-1',
+  sectionId: 'section-1',
+  questionId,
+  response: `Answer ${id}`,
+  maxPoints: 10,
+  submittedAt: at(submittedAt),
+  ...extra,
+});
+
+const caseStudy = {
+  sections: [
+    {
+      id: 'section-2',
+      title: 'Recommendation',
+      content: '',
+      order: 2,
+      questions: [{ id: 'essay', text: 'Recommend a strategy', type: 'essay', points: 10 }],
+    },
+    {
+      id: 'section-1',
+      title: 'Situation',
+      content: '',
+      order: 1,
+      questions: [
+        { id: 'mc', text: 'Pick one', type: 'multiple-choice', points: 5, options: ['A', 'B'], correctAnswer: 0 },
+        { id: 'short', text: 'Summarise the problem', type: 'text', points: 10 },
+      ],
+    },
+  ],
+} as unknown as Pick<CaseStudy, 'sections'>;
+
+const ungraded = response('a', 'short', 3);
+const aiSuggested = response('b', 'short', 1, { points: 7, assessment: assessment(7), gradeStatus: 'ai-suggested' });
+const approved = response('c', 'short', 2, { points: 7, assessment: assessment(7), gradeStatus: 'approved', gradedBy: 'teacher-1' });
+const overridden = response('d', 'essay', 1, { points: 4, assessment: assessment(8), gradeStatus: 'overridden', gradedBy: 'teacher-1' });
+const legacyGraded = response('e', 'essay', 2, { points: 10, gradedBy: 'teacher-1' });
+const legacyAi = response('f', 'essay', 3, { points: 6, assessment: assessment(6) });
+const multipleChoice = response('g', 'mc', 1, { points: 5 });
+
+assert.equal(getGradingState(ungraded), 'ungraded');
+assert.equal(getGradingState(aiSuggested), 'ai-suggested');
+assert.equal(getGradingState(approved), 'approved');
+assert.equal(getGradingState(overridden), 'overridden');
+assert.equal(getGradingState(legacyGraded), 'approved', 'responses graded before gradeStatus existed stay approved');
+assert.equal(getGradingState(legacyAi), 'ai-suggested', 'AI-scored responses without a status still need review');
+assert.equal(needsReview(approved), false);
+assert.equal(needsReview(legacyAi), true);
+
+const all = [ungraded, aiSuggested, approved, overridden, legacyGraded, legacyAi, multipleChoice];
+const queue = buildGradingQueue(caseStudy, all);
+assert.deepEqual(queue.map((item) => item.question.id), ['short', 'essay'], 'only open-ended questions, in section order');
+assert.deepEqual(queue[0].responses.map((item) => item.id), ['b', 'a'], 'needs-review responses, oldest first');
+assert.equal(queue[0].needsReview, 2);
+assert.deepEqual(queue[1].responses.map((item) => item.id), ['f']);
+
+const everything = buildGradingQueue(caseStudy, all, 'all');
+assert.deepEqual(everything[0].responses.map((item) => item.id), ['b', 'c', 'a']);
+assert.equal(everything[1].needsReview, 1, 'the count ignores the filter');
+
+const blind = orderForBlindGrading([ungraded, aiSuggested, approved]);
+assert.deepEqual(blind.map((item) => item.label), ['Response 1', 'Response 2', 'Response 3']);
+assert.deepEqual(
+  orderForBlindGrading([approved, ungraded, aiSuggested]).map((item) => item.response.id),
+  blind.map((item) => item.response.id),
+  'blind order does not depend on submission order',
+);
+assert.ok(blind.every((item) => !item.label.includes('student-')), 'blind labels never reveal the student');
+
+assert.equal(validateGradePoints(7.5, 10), null);
+assert.equal(validateGradePoints(0, 10), null);
+assert.equal(validateGradePoints(Number.NaN, 10), 'Enter a number of points.');
+assert.equal(validateGradePoints(-1, 10), 'Points cannot be negative.');
+assert.equal(validateGradePoints(11, 10), 'Points cannot exceed 10.');
+
+const rerun = assessment(9);
+const rerunAt = at(5);
+assert.deepEqual(assessmentUpdate(ungraded, rerun, rerunAt), { points: 9, assessment: rerun, gradeStatus: 'ai-suggested', gradedAt: rerunAt });
+assert.equal(assessmentUpdate(aiSuggested, rerun, rerunAt).points, 9, 'a new suggestion replaces an unreviewed one');
+assert.deepEqual(assessmentUpdate(approved, rerun, rerunAt), { assessment: rerun }, 'an approved grade stays');
+assert.deepEqual(assessmentUpdate(overridden, rerun, rerunAt), { assessment: rerun }, 'an overridden grade stays');
+assert.deepEqual(assessmentUpdate(legacyGraded, rerun, rerunAt), { assessment: rerun });
+
+console.log('Grading queue verified.');
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import {
+  homeworkDueAt,
+  homeworkDueState,
+  homeworkLatePenaltyPercent,
+  homeworkReleasedSections,
+  homeworkSubmissionState,
+  isLateHomeworkSubmission,
+  nextHomeworkRelease,
+  withHomeworkReleases,
+} from '../src/lib/homework';
+import type { SessionHomework } from '../src/types';
+
+const at = (iso: string) => ({ toMillis: () => Date.parse(iso) }) as unknown as SessionHomework['dueAt'];
+const now = new Date('2026-03-02T12:00:00Z');
+
+const timetable: SessionHomework = {
+  release: 'timetable',
+  sectionReleaseAt: [null, at('2026-03-02T09:00:00Z'), at('2026-03-03T09:00:00Z'), at('2026-03-04T09:00:00Z')],
+  dueAt: at('2026-03-04T23:59:00Z'),
+  latePolicy: 'closed',
+  extensions: { 'doc-bo': at('2026-03-06T23:59:00Z') },
+};
+
+assert.deepEqual(homeworkReleasedSections({ homework: timetable }, 4, now), [0, 1], 'sections without a time open with the assignment');
+assert.deepEqual(homeworkReleasedSections({ homework: timetable, releasedSections: [0, 1, 2] }, 4, now), [0, 1, 2], 'sections released live stay open');
+assert.deepEqual(homeworkReleasedSections({ homework: { ...timetable, release: 'all' } }, 4, now), [0, 1, 2, 3]);
+assert.deepEqual(homeworkReleasedSections({ releasedSections: [2] }, 4, now), [0, 1, 2], 'earlier sections open with a later one');
+assert.equal(nextHomeworkRelease(timetable, now)?.toISOString(), '2026-03-03T09:00:00.000Z');
+assert.equal(nextHomeworkRelease({ ...timetable, release: 'all' }, now), null);
+
+const session = { homework: timetable, releasedSections: [], currentReleasedSection: -1 };
+assert.deepEqual(withHomeworkReleases(session, 4, now), { ...session, releasedSections: [0, 1], currentReleasedSection: 1 });
+const live = { releasedSections: [0], currentReleasedSection: 0 };
+assert.equal(withHomeworkReleases(live, 4, now), live, 'live sessions are left alone');
+
+assert.equal(homeworkDueAt(timetable).toISOString(), '2026-03-04T23:59:00.000Z');
+assert.equal(homeworkDueAt(timetable, 'doc-bo').toISOString(), '2026-03-06T23:59:00.000Z');
+const afterDue = new Date('2026-03-05T08:00:00Z');
+assert.equal(homeworkSubmissionState(timetable, 'doc-ada', now), 'open');
+assert.equal(homeworkSubmissionState(timetable, 'doc-ada', afterDue), 'closed');
+assert.equal(homeworkSubmissionState(timetable, 'doc-bo', afterDue), 'open', 'extensions keep the assignment open');
+assert.equal(homeworkSubmissionState({ ...timetable, latePolicy: 'penalty' }, 'doc-ada', afterDue), 'late');
+assert.ok(isLateHomeworkSubmission(timetable, 'doc-ada', at('2026-03-05T00:00:00Z')));
+assert.ok(!isLateHomeworkSubmission(timetable, 'doc-bo', at('2026-03-05T00:00:00Z')));
+assert.ok(!isLateHomeworkSubmission(timetable, 'doc-ada', undefined), 'answers still being saved are not late');
+
+assert.equal(homeworkLatePenaltyPercent({ ...timetable, latePolicy: 'penalty' }, 10), 10);
+assert.equal(homeworkLatePenaltyPercent({ ...timetable, latePolicy: 'penalty', latePenaltyPercent: 150 }, 10), 100);
+assert.equal(homeworkLatePenaltyPercent({ ...timetable, latePolicy: 'accept', latePenaltyPercent: 25 }, 10), 0);
+
+assert.equal(homeworkDueState(new Date('2026-03-03T12:00:00Z'), now), 'due-soon');
+assert.equal(homeworkDueState(new Date('2026-03-09T12:00:00Z'), now), 'upcoming');
+assert.equal(homeworkDueState(new Date('2026-03-01T12:00:00Z'), now), 'overdue');
+
+console.log('Homework scheduling verified.');
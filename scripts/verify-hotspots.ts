@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import {
+  clusterHotspotPoints,
+  hotspotHitPercent,
+  isHotspotHit,
+  isHotspotPoint,
+  normalizeHotspotPoint,
+  regionFromCorners,
+} from '../src/lib/hotspots';
+
+assert.deepEqual(normalizeHotspotPoint(0.123456, 1.4), { x: 0.1235, y: 1 });
+assert.deepEqual(normalizeHotspotPoint(-0.2, 0.5), { x: 0, y: 0.5 });
+assert.equal(isHotspotPoint({ x: 0.5, y: 0.5 }), true);
+assert.equal(isHotspotPoint({ x: 1.2, y: 0.5 }), false);
+assert.equal(isHotspotPoint({ x: '0.5', y: 0.5 }), false);
+assert.equal(isHotspotPoint(null), false);
+
+// Dragging up and to the left gives the same region as dragging down and to the right.
+const region = regionFromCorners({ x: 0.6, y: 0.5 }, { x: 0.2, y: 0.1 });
+assert.deepEqual(region, { x: 0.2, y: 0.1, width: 0.4, height: 0.4 });
+assert.deepEqual(regionFromCorners({ x: 0.2, y: 0.1 }, { x: 0.6, y: 0.5 }), region);
+assert.equal(isHotspotHit({ x: 0.4, y: 0.3 }, [region]), true);
+assert.equal(isHotspotHit({ x: 0.6, y: 0.5 }, [region]), true);
+assert.equal(isHotspotHit({ x: 0.7, y: 0.3 }, [region]), false);
+assert.equal(isHotspotHit({ x: 0.4, y: 0.3 }), false);
+
+const points = [
+  { x: 0.3, y: 0.3 },
+  { x: 0.32, y: 0.31 },
+  { x: 0.29, y: 0.28 },
+  { x: 0.8, y: 0.8 },
+  { x: 0.82, y: 0.79 },
+  { x: 0.1, y: 0.9 },
+];
+const clusters = clusterHotspotPoints(points, [region]);
+assert.equal(clusters.length, 3);
+assert.equal(clusters[0].count, 3);
+assert.equal(clusters[0].share, 50);
+assert.equal(clusters[0].hitsRegion, true);
+assert.ok(Math.abs(clusters[0].x - 0.3033) < 0.001);
+assert.equal(clusters[1].count, 2);
+assert.equal(clusters[1].hitsRegion, false);
+assert.equal(clusters.reduce((sum, cluster) => sum + cluster.count, 0), points.length);
+assert.equal(clusterHotspotPoints([]).length, 0);
+assert.equal(clusterHotspotPoints(points, [], 1).length, 1);
+
+assert.equal(hotspotHitPercent(points, [region]), 50);
+assert.equal(hotspotHitPercent(points), null);
+assert.equal(hotspotHitPercent([], [region]), null);
+
+console.log('Image hotspot clustering and scoring verified.');
@@ -0,0 +1,15 @@
+import assert from 'node:assert/strict';
+import { emailDomain, satisfiesSsoPolicy } from '../src/lib/institution';
+
+assert.equal(satisfiesSsoPolicy({ firebase: { sign_in_provider: 'password' } }), true);
+assert.equal(satisfiesSsoPolicy({ institutionId: 'inst-1', ssoPolicy: 'oidc', firebase: { sign_in_provider: 'password' } }), false);
+assert.equal(satisfiesSsoPolicy({ institutionId: 'inst-1', ssoPolicy: 'oidc', ssoInstitutionId: 'inst-2', firebase: { sign_in_provider: 'custom' } }), false);
+assert.equal(satisfiesSsoPolicy({ institutionId: 'inst-1', ssoPolicy: 'oidc', ssoInstitutionId: 'inst-1', firebase: { sign_in_provider: 'custom' } }), true);
+assert.equal(satisfiesSsoPolicy({ ssoPolicy: 'oidc', firebase: { sign_in_provider: 'custom' } }), false);
+assert.equal(satisfiesSsoPolicy({ institutionId: 'inst-1', ssoPolicy: 'saml.university', firebase: { sign_in_provider: 'google.com' } }), false);
+assert.equal(satisfiesSsoPolicy({ institutionId: 'inst-1', ssoPolicy: 'saml.university', firebase: { sign_in_provider: 'saml.university' } }), true);
+
+assert.equal(emailDomain('Dana@University.EDU'), 'university.edu');
+assert.equal(emailDomain('dana'), '');
+
+console.log('Institution SSO policy verified.');
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { answerTimeHistogram, buildItemAnalysis, itemAnalysisFlags, normalizedGain } from '../src/lib/item-analysis';
+import { getSessionParticipationSummary } from '../src/lib/session-response-summary';
+import type { StoredLiveResponse } from '../src/lib/firebase/live-classroom';
+import type { SessionInteraction, SessionInteractionRun } from '../src/types';
+
+const interactions: SessionInteraction[] = [
+  { id: 'check', type: 'quiz', title: 'Margin check', prompt: 'Which margin?', plannedTime: 'Opening', options: ['Gross', 'Net', 'Contribution'], correctOptionIndex: 2 },
+  { id: 'peer', type: 'peer-learning', title: 'Pricing vote', prompt: 'Which price?', plannedTime: 'During class', options: ['Low', 'High'], correctOptionIndex: 1 },
+  { id: 'poll', type: 'poll', title: 'Mood', prompt: 'How are you?', plannedTime: 'Closing', options: ['Good', 'Tired'] },
+];
+
+const run = (id: string, interactionId: string, startedAt: number, responseCount: number, extra: Partial<SessionInteractionRun> = {}): SessionInteractionRun => ({
+  id, interactionId, startedAt, updatedAt: startedAt, status: 'completed', responseCount, ...extra,
+});
+const runs = [
+  run('check-1', 'check', 0, 6),
+  run('peer-1', 'peer', 100_000, 4, { resultState: { open: false, revealed: false, phase: 'discuss', firstOptionCounts: [3, 1] } }),
+  run('peer-1-again', 'peer', 300_000, 4, { resultState: { open: false, revealed: true, phase: 'respond-again', firstOptionCounts: [3, 1] } }),
+  run('poll-1', 'poll', 400_000, 6),
+];
+
+const answers = (runId: string, interactionId: string, startedAt: number, picks: Array<[string, number, number]>) => Object.fromEntries(picks.map(([studentUid, optionIndex, seconds]) => [
+  studentUid,
+  { id: `${runId}:${studentUid}`, runId, interactionId, studentUid, optionIndex, submittedAt: startedAt + seconds * 1000 } satisfies StoredLiveResponse,
+]));
+const responses = {
+  'check-1': answers('check-1', 'check', 0, [['a', 0, 4], ['b', 0, 8], ['c', 0, 12], ['d', 2, 25], ['e', 1, 45], ['f', 0, 200]]),
+  'peer-1': answers('peer-1', 'peer', 100_000, [['a', 0, 10], ['b', 0, 10], ['c', 0, 10], ['d', 1, 10]]),
+  'peer-1-again': answers('peer-1-again', 'peer', 300_000, [['a', 1, 5], ['b', 1, 5], ['c', 0, 5], ['d', 0, 5]]),
+  'poll-1': answers('poll-1', 'poll', 400_000, [['a', 0, 3]]),
+};
+
+const summary = getSessionParticipationSummary(runs, interactions);
+const report = buildItemAnalysis(summary, runs, interactions, responses);
+assert.deepEqual(report.map((item) => item.runId), ['check-1', 'peer-1-again'], 'polls are skipped and a peer learning question is reported once');
+
+const [check, peer] = report;
+assert.deepEqual(check.optionCounts, [4, 1, 1]);
+assert.equal(check.percentCorrect, 17);
+assert.deepEqual(check.flags, ['possible-miskey']);
+assert.deepEqual(check.answerTimes.map((bucket) => bucket.count), [2, 1, 1, 1, 0, 1]);
+assert.equal(check.medianSeconds, 19);
+assert.equal(check.switches, undefined);
+
+assert.deepEqual(peer.preOptionCounts, [3, 1]);
+assert.equal(peer.prePercentCorrect, 25);
+assert.equal(peer.percentCorrect, 50);
+assert.equal(peer.normalizedGain, 0.33);
+assert.deepEqual(peer.switches, { rightToRight: 0, rightToWrong: 1, wrongToRight: 2, wrongToWrong: 1 });
+
+const withoutRecords = buildItemAnalysis(summary, runs, interactions, { 'peer-1-again': responses['peer-1-again'] });
+assert.deepEqual(withoutRecords[0].preOptionCounts, [3, 1], 'saved first round counts stand in for missing records');
+assert.equal(withoutRecords[0].switches, undefined, 'switches need both rounds of records');
+
+assert.deepEqual(itemAnalysisFlags([0, 9, 1], 1, 90), ['too-easy']);
+assert.deepEqual(itemAnalysisFlags([3, 1], 1, 25), [], 'small samples are not flagged');
+assert.equal(normalizedGain(100, 100), null);
+assert.equal(normalizedGain(40, 70), 0.5);
+assert.equal(answerTimeHistogram([], 0).medianSeconds, null);
+
+console.log('Item analysis verified.');
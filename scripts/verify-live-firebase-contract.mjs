@@ -205,11 +205,18 @@ try {
 
   const responseContracts = [
     { id: 'contract-pulse', type: 'pulse', label: 'Pulse', options: ['Ready', 'Not yet'], optionIndex: 0 },
-    { id: 'contract-quiz', type: 'quiz', label: 'Quiz', options: ['A', 'B'], optionIndex: 1 },
-    { id: 'contract-peer-learning', type: 'peer-learning', label: 'Peer learning', options: ['A', 'B'], optionIndex: 0 },
+    // Knowledge checks are submitted through submitLiveQuizResponse, so a direct write must fail.
+    { id: 'contract-quiz', type: 'quiz', label: 'Quiz', options: ['A', 'B'], optionIndex: 1, serverScored: true },
+    { id: 'contract-peer-learning', type: 'peer-learning', label: 'Peer learning', options: ['A', 'B'], optionIndex: 0, serverScored: true },
     { id: 'contract-open-response', type: 'open-response', label: 'Short response', text: 'I need another example.' },
     { id: 'contract-word-cloud', type: 'word-cloud', label: 'Word cloud', text: 'Curiosity' },
     { id: 'contract-group-work', type: 'group-work', label: 'Group work', text: 'Our group chose one shared dependency.' },
+    { id: 'contract-ranking', type: 'ranking', label: 'Ranking', options: ['Cost', 'Speed', 'Risk'], structured: { ranking: [2, 0, 1] } },
+    { id: 'contract-scale', type: 'scale', label: 'Scale', options: ['Clear goal', 'Fair process'], structured: { ratings: [4, 2] } },
+    { id: 'contract-matrix', type: 'matrix', label: 'Matrix', options: ['Pilot', 'Rollout'], structured: { placements: [1, 2] } },
+    { id: 'contract-estimate', type: 'estimate', label: 'Estimate', value: 1250 },
+    { id: 'contract-hotspot', type: 'hotspot', label: 'Hotspot', point: { x: 0.4, y: 0.6 } },
+    { id: 'contract-debate', type: 'debate', label: 'Debate', options: ['For', 'Against'], optionIndex: 0 },
   ];
   const responseContractRuns = [];
 
@@ -236,18 +243,27 @@ try {
       },
       updatedAt: Date.now(),
     });
-    const answer = typeof contract.optionIndex === 'number'
-      ? { optionIndex: contract.optionIndex }
-      : { text: contract.text };
-    await set(ref(studentRealtime, `${roomPath}/responses/${contractRunId}/${studentUser.uid}`), {
+    const answer = contract.structured
+      ? contract.structured
+      : typeof contract.value === 'number'
+        ? { value: contract.value }
+      : contract.point
+        ? { point: contract.point }
+      : typeof contract.optionIndex === 'number'
+        ? { optionIndex: contract.optionIndex }
+        : { text: contract.text };
+    const directWriteWasRejected = await set(ref(studentRealtime, `${roomPath}/responses/${contractRunId}/${studentUser.uid}`), {
       id: `${contractRunId}-${studentUser.uid}`,
       runId: contractRunId,
       interactionId: contract.id,
       studentUid: studentUser.uid,
       ...answer,
       submittedAt: Date.now(),
+    }).then(() => false).catch((error) => {
+      if (!contract.serverScored) throw error;
+      return true;
     });
-    responseContractRuns.push({ ...contract, runId: contractRunId });
+    responseContractRuns.push({ ...contract, runId: contractRunId, directWriteWasRejected });
   }
 
   const timerInteractionId = 'contract-timer';
@@ -320,7 +336,15 @@ try {
   assertContract(responsesBranch.child(`${interactionRunId}/${studentUser.uid}`).val()?.optionIndex === 0, 'Progress could not read the session response branch.');
   responseContractRuns.forEach((contract, index) => {
     const stored = contractResponseSnapshots[index].val();
-    if (typeof contract.optionIndex === 'number') {
+    if (contract.serverScored) {
+      assertContract(contract.directWriteWasRejected && !stored, `The ${contract.type} accepted a response written from the browser instead of the scoring function.`);
+    } else if (contract.structured) {
+      assertContract(JSON.stringify(Object.values(contract.structured)[0]) === JSON.stringify(stored?.[Object.keys(contract.structured)[0]]), `Instructor could not receive the ${contract.type} answer.`);
+    } else if (typeof contract.value === 'number') {
+      assertContract(stored?.value === contract.value, `Instructor could not receive the ${contract.type} value.`);
+    } else if (contract.point) {
+      assertContract(stored?.point?.x === contract.point.x && stored?.point?.y === contract.point.y, `Instructor could not receive the ${contract.type} tap.`);
+    } else if (typeof contract.optionIndex === 'number') {
       assertContract(stored?.optionIndex === contract.optionIndex, `Instructor could not receive the ${contract.type} selection.`);
     } else {
       assertContract(stored?.text === contract.text, `Instructor could not receive the ${contract.type} text response.`);
@@ -471,7 +495,7 @@ try {
   console.log('PASS Instructor created a production classroom.');
   console.log('PASS Instructor saved private course material for later session planning.');
   console.log('PASS Student resolved the join code and read the live activity.');
-  console.log('PASS Pulse, poll, quiz, peer learning, open response, word cloud, and group work crossed the production rules.');
+  console.log('PASS Pulse, poll, open response, word cloud, and group work crossed the production rules; quiz and peer learning writes were left to the scoring function.');
   console.log('PASS The shared clock correctly rejected an unexpected student response.');
   console.log('PASS Instructor received the student records.');
   console.log('PASS Progress can read attendance and responses, with a durable session roster fallback.');
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import {
+  estimateError,
+  estimateHistogram,
+  estimateRangeLabel,
+  formatEstimate,
+  isEstimateInBounds,
+  parseEstimate,
+  summarizeEstimates,
+  usesLogScale,
+} from '../src/lib/numeric-estimates';
+import { getEstimateProximityRule } from '../src/app/live/student/rewards';
+
+assert.equal(parseEstimate('1,200'), 1200);
+assert.equal(parseEstimate(' $4.5k '), 4500);
+assert.equal(parseEstimate('2bn'), 2_000_000_000);
+assert.equal(parseEstimate('-0.5'), -0.5);
+assert.equal(parseEstimate('12%'), 12);
+assert.equal(parseEstimate('about 40'), null);
+assert.equal(parseEstimate(''), null);
+
+assert.equal(isEstimateInBounds({ estimateMin: 0, estimateMax: 100 }, 100), true);
+assert.equal(isEstimateInBounds({ estimateMin: 0 }, -1), false);
+assert.equal(isEstimateInBounds({}, Number.NaN), false);
+assert.equal(estimateRangeLabel({ estimateMin: 0, estimateMax: 100, estimateUnit: '%' }), 'Between 0 and 100 %');
+assert.equal(estimateRangeLabel({ estimateMax: 5 }), 'At most 5');
+assert.equal(estimateRangeLabel({}), '');
+assert.equal(formatEstimate(2_500_000, '$'), '2.5M $');
+
+const summary = summarizeEstimates([10, 12, 14, 16, 18, 90]);
+assert.ok(summary);
+assert.equal(summary.median, 15);
+assert.equal(summary.q1, 12.5);
+assert.equal(summary.q3, 17.5);
+assert.deepEqual(summary.outliers, [90], 'answers far outside the middle half are flagged');
+assert.equal(summarizeEstimates([]), null);
+
+const linear = estimateHistogram([10, 20, 30, 40], 20, 4);
+assert.deepEqual(linear.map((bucket) => bucket.count), [1, 1, 1, 1]);
+assert.deepEqual(linear.map((bucket) => bucket.containsAnswer), [false, true, false, false]);
+assert.equal(usesLogScale([10, 100, 10_000]), true, 'estimates across orders of magnitude use log buckets');
+assert.equal(usesLogScale([-5, 10_000]), false);
+const fermi = estimateHistogram([1, 10, 100, 1000], undefined, 3);
+assert.deepEqual(fermi.map((bucket) => bucket.count), [1, 1, 2]);
+assert.deepEqual(estimateHistogram([7, 7, 7]).map((bucket) => bucket.count), [3], 'identical answers share one bucket');
+assert.deepEqual(estimateHistogram([]), []);
+
+assert.equal(estimateError(105, 100), 0.05);
+assert.equal(estimateError(3, 0), 3);
+assert.equal(getEstimateProximityRule(104, 100)?.amount, 5);
+assert.equal(getEstimateProximityRule(88, 100)?.amount, 3);
+assert.equal(getEstimateProximityRule(130, 100)?.amount, 1);
+assert.equal(getEstimateProximityRule(200, 100), null);
+
+console.log('Numeric estimates verified.');
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import {
+  drawQuestionBankItems,
+  expandQuestionBankDraws,
+  mergeQuestionBankStats,
+  normalizeBankTags,
+  optionDisplayOrder,
+  recentBankSessionIds,
+  sessionItemStatistics,
+} from '../src/lib/question-bank';
+import type { QuestionBankItem, SessionInteraction } from '../src/types';
+
+const at = (iso: string) => ({ toMillis: () => Date.parse(iso) }) as unknown as QuestionBankItem['createdAt'];
+const item = (id: string, tags: string[], usage: [string, string][] = [], difficulty: QuestionBankItem['difficulty'] = 'medium'): QuestionBankItem => ({
+  id,
+  courseId: 'course-1',
+  teacherId: 'teacher-1',
+  prompt: `Question ${id}`,
+  options: ['A', 'B', 'C', 'D'],
+  correctOptionIndex: 2,
+  tags,
+  difficulty,
+  usage: usage.map(([sessionId, usedAt]) => ({ sessionId, usedAt: at(usedAt) })),
+  createdAt: at('2026-01-01T00:00:00Z'),
+});
+const inOrder = () => 0;
+
+assert.deepEqual(normalizeBankTags(' Pricing, week 3,pricing ,, '), ['pricing', 'week 3']);
+
+const bank = [
+  item('q1', ['pricing'], [['s1', '2026-02-01T10:00:00Z']]),
+  item('q2', ['pricing'], [['s2', '2026-02-08T10:00:00Z']]),
+  item('q3', ['pricing', 'costs']),
+  item('q4', ['costs'], [], 'hard'),
+  item('q5', ['pricing'], [['s0', '2026-01-20T10:00:00Z']]),
+];
+
+assert.deepEqual(recentBankSessionIds(bank, 2), ['s2', 's1']);
+assert.deepEqual(recentBankSessionIds(bank, 2, 's2'), ['s1', 's0'], 'the session being drawn does not count as recent');
+assert.deepEqual(recentBankSessionIds(bank, 0), []);
+
+const draw = { tags: ['pricing'], count: 2, avoidRecentSessions: 2, shuffleOptions: true };
+assert.deepEqual(drawQuestionBankItems(bank, draw, ['s2', 's1'], inOrder).map((entry) => entry.id).sort(), ['q3', 'q5'], 'recently used items are skipped');
+assert.deepEqual(drawQuestionBankItems(bank, { ...draw, count: 4 }, ['s2', 's1'], inOrder).map((entry) => entry.id).slice(2), ['q1', 'q2'], 'recent items fill the gap, least recent first');
+assert.deepEqual(drawQuestionBankItems(bank, { ...draw, tags: [], difficulty: 'hard' }, [], inOrder).map((entry) => entry.id), ['q4']);
+
+const plan: SessionInteraction[] = [
+  { id: 'opening', type: 'poll', title: 'Opening poll', prompt: 'Ready?', plannedTime: 'Opening', options: ['Yes', 'No'] },
+  { id: 'check', type: 'quiz', title: 'Pricing check', prompt: 'Drawn from the bank', plannedTime: 'During class', bankDraw: draw },
+  { id: 'costs', type: 'quiz', title: 'Costs check', prompt: 'Drawn from the bank', plannedTime: 'During class', bankDraw: { ...draw, tags: ['costs'], count: 3 } },
+];
+const expanded = expandQuestionBankDraws(plan, bank, ['s2', 's1'], inOrder);
+assert.deepEqual(expanded.interactions.map((interaction) => interaction.id), ['opening', 'check-q5', 'check-q3', 'costs-q4']);
+assert.equal(expanded.interactions[1].title, 'Pricing check (1 of 2)');
+assert.equal(expanded.interactions[1].correctOptionIndex, 2);
+assert.equal(expanded.interactions[1].shuffleOptions, true);
+assert.equal(expanded.interactions[1].bankDraw, undefined);
+assert.deepEqual(expanded.shortfalls, [{ interactionId: 'costs', title: 'Costs check', requested: 3, drawn: 1 }], 'one item is never drawn twice in a session');
+assert.deepEqual(expandQuestionBankDraws([plan[1]], [], []).interactions, [plan[1]], 'an empty pool keeps the draw for later');
+
+const shuffled = optionDisplayOrder(4, true, 'student-1:run-1');
+assert.deepEqual([...shuffled].sort(), [0, 1, 2, 3]);
+assert.deepEqual(optionDisplayOrder(4, true, 'student-1:run-1'), shuffled, 'the same student sees the same order after a refresh');
+assert.deepEqual(optionDisplayOrder(4, false, 'student-1:run-1'), [0, 1, 2, 3]);
+
+const drawn = [
+  { id: 'check-q5', bankItemId: 'q5', correctOptionIndex: 2 },
+  { id: 'check-q3', bankItemId: 'q3', correctOptionIndex: 2 },
+];
+const answer = (interactionId: string, studentUid: string, optionIndex: number, submittedAt = 1) => ({ interactionId, studentUid, optionIndex, submittedAt });
+const stats = sessionItemStatistics(drawn, [
+  answer('check-q5', 'a', 2), answer('check-q3', 'a', 2),
+  answer('check-q5', 'b', 2), answer('check-q3', 'b', 2),
+  answer('check-q5', 'c', 2), answer('check-q3', 'c', 0),
+  answer('check-q5', 'd', 0), answer('check-q3', 'd', 0),
+  answer('check-q5', 'd', 2, 5),
+  answer('opening', 'a', 0),
+]);
+assert.deepEqual(stats.q5, { attempts: 4, correct: 3, discrimination: 1, discriminationSamples: 4 }, 'only the first answer counts');
+assert.deepEqual(stats.q3, { attempts: 4, correct: 2, discrimination: 1, discriminationSamples: 4 });
+assert.deepEqual(sessionItemStatistics(drawn, [answer('check-q5', 'a', 2)]).q5, { attempts: 1, correct: 1, discrimination: null, discriminationSamples: 0 }, 'small classes get no discrimination');
+
+const merged = mergeQuestionBankStats({ attempts: 4, correct: 1, percentCorrect: 25, discrimination: 0.5, discriminationSamples: 4 }, stats.q5);
+assert.deepEqual(merged, { attempts: 8, correct: 4, percentCorrect: 50, discrimination: 0.75, discriminationSamples: 8 });
+
+console.log('Question bank draws and item statistics verified.');
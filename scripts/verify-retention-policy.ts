@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_RETENTION_POLICY,
+  cleanRetentionPolicy,
+  describeRetentionRule,
+  normalizeRetentionRule,
+  resolveRetentionPolicy,
+} from '../src/lib/retention';
+
+assert.deepEqual(resolveRetentionPolicy(), DEFAULT_RETENTION_POLICY);
+assert.deepEqual(normalizeRetentionRule({ after: 'course-end', days: 99999 }), { after: 'course-end', days: 3650 });
+assert.deepEqual(normalizeRetentionRule({ after: 'never', days: 12 }), { after: 'never', days: 0 });
+assert.equal(normalizeRetentionRule({ after: 'last-activity', days: 0 }), undefined);
+
+const policy = resolveRetentionPolicy(
+  { wellbeing: { after: 'last-activity', days: 7 }, rewards: { after: 'course-end', days: 30 } },
+  { attendance: { after: 'course-end', days: 365 }, responses: { after: 'last-activity', days: -1 } },
+);
+assert.deepEqual(policy.attendance, { after: 'course-end', days: 365 });
+assert.deepEqual(policy.wellbeing, { after: 'last-activity', days: 7 });
+assert.deepEqual(policy.responses, DEFAULT_RETENTION_POLICY.responses);
+assert.deepEqual(policy.rewards, { after: 'course-end', days: 30 });
+
+const institutionPolicy = resolveRetentionPolicy(
+  { wellbeing: { after: 'last-activity', days: 7 } },
+  { attendance: { after: 'course-end', days: 365 } },
+  { attendance: { after: 'never', days: 0 }, wellbeing: { after: 'never', days: 0 }, responses: { after: 'course-end', days: 30 } },
+);
+assert.deepEqual(institutionPolicy.attendance, { after: 'course-end', days: 365 });
+assert.deepEqual(institutionPolicy.wellbeing, { after: 'last-activity', days: 7 });
+assert.deepEqual(institutionPolicy.responses, { after: 'course-end', days: 30 });
+assert.deepEqual(institutionPolicy.rewards, DEFAULT_RETENTION_POLICY.rewards);
+
+assert.deepEqual(cleanRetentionPolicy({
+  wellbeing: { after: 'last-activity', days: 7.6 },
+  responses: { after: 'last-activity', days: 0 },
+  courseEndsOn: '2026-12-18',
+}), { wellbeing: { after: 'last-activity', days: 7 }, courseEndsOn: '2026-12-18' });
+assert.deepEqual(cleanRetentionPolicy({ courseEndsOn: 'next June' }), {});
+
+assert.equal(describeRetentionRule({ after: 'course-end', days: 365 }), 'Deleted 1 year after the course ends');
+assert.equal(describeRetentionRule({ after: 'last-activity', days: 7 }), 'Deleted 7 days after the class was last used');
+assert.equal(describeRetentionRule({ after: 'never', days: 0 }), 'Kept until erased');
+
+console.log('Retention rules, fallbacks and labels verified.');
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'node:zlib';
+import {
+  guessColumnMapping,
+  isRosterMappingComplete,
+  nameSimilarity,
+  parseCsv,
+  planRosterImport,
+  readRosterEntries,
+  suggestClaimMatches,
+} from '../src/lib/roster-import';
+import { readXlsxRows } from '../src/lib/xlsx-reader';
+import type { Student } from '../src/types';
+
+const timestamp = { toMillis: () => 0 } as unknown as Student['createdAt'];
+
+/** Builds a minimal zip the way spreadsheet apps do: deflated entries and a central directory. */
+function zip(files: Record<string, string>) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  const bytes = Buffer.concat([...locals, directory, end]);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+async function main() {
+  const csv = parseCsv('\uFEFFStudent ID,Surname,Given name,Email\r\nS1001,"Lovelace","Ada",ADA@example.edu\r\n,"Nobody",Jo,\r\n"s-1002","Ng, Jr.",Bo,\r\nS1001,Lovelace,Ada,\r\n');
+  assert.deepEqual(csv[2], ['', 'Nobody', 'Jo', '']);
+  assert.deepEqual(csv[3], ['s-1002', 'Ng, Jr.', 'Bo', ''], 'quoted commas stay in the cell');
+  assert.deepEqual(parseCsv('id;name\n1;"A ""Quote"""\n'), [['id', 'name'], ['1', 'A "Quote"']], 'semicolon exports and escaped quotes are read');
+
+  const mapping = guessColumnMapping(csv[0]);
+  assert.deepEqual(mapping, { studentId: 0, firstName: 2, lastName: 1, email: 3 });
+  assert.ok(isRosterMappingComplete(mapping));
+  assert.ok(!isRosterMappingComplete({ name: 1 }), 'a student number column is required');
+
+  const { entries, invalid } = readRosterEntries(csv, mapping);
+  assert.deepEqual(entries.map((entry) => [entry.row, entry.studentIdNormalized, entry.name]), [
+    [2, 's1001', 'Ada Lovelace'],
+    [4, 's-1002', 'Bo Ng, Jr.'],
+    [5, 's1001', 'Ada Lovelace'],
+  ]);
+  assert.equal(entries[0].email, 'ada@example.edu');
+  assert.deepEqual(invalid.map((item) => [item.row, item.reason]), [[3, 'No student number']]);
+
+  const existingStudents: Student[] = [
+    { id: 'doc-ada', studentId: 'S 1001', studentIdNormalized: 's1001', name: 'Ada Lovelace', courseIds: ['course-1'], createdAt: timestamp },
+    { id: 'doc-bo', studentId: 'S1002', studentIdNormalized: 's1002', name: 'Bo Ng', courseIds: [], createdAt: timestamp },
+    { id: 'doc-cy', studentId: 'S1003', studentIdNormalized: 's1003', name: 'Ada Lovelace-King', courseIds: ['course-1'], createdAt: timestamp },
+  ];
+  const plan = planRosterImport({ entries, invalid, existingStudents, courseId: 'course-1' });
+  assert.deepEqual(plan.counts, { create: 1, update: 1, skip: 2 });
+  const [ada, missing, bo, repeat] = plan.items;
+  assert.equal(ada.action, 'update', 'a new email updates the matched record');
+  assert.equal(ada.existing?.id, 'doc-ada', 'student numbers match after normalizeStudentId');
+  assert.equal(ada.reason, 'Update email');
+  assert.equal(missing.action, 'skip');
+  assert.equal(bo.action, 'create', 's-1002 keeps its hyphen, so it is not S1002');
+  assert.deepEqual(bo.nearDuplicates.map((student) => student.id), ['doc-bo'], 'a similar name under another number is flagged');
+  assert.equal(repeat.reason, 'Repeats an earlier row');
+  assert.ok(nameSimilarity('Lovelace, Ada', 'ada lovelace') === 1, 'word order and punctuation are ignored');
+  assert.ok(nameSimilarity('José Núñez', 'Jose Nunez') === 1, 'accents are ignored');
+  assert.ok(nameSimilarity('Ada Lovelace', 'Bo Ng') < 0.5);
+
+  const skipped = planRosterImport({
+    entries: [{ row: 2, studentId: 'S1001', studentIdNormalized: 's1001', name: 'Ada Lovelace' }],
+    existingStudents,
+    courseId: 'course-1',
+  });
+  assert.equal(skipped.items[0].reason, 'Already on the roster');
+
+  const suggestions = suggestClaimMatches([
+    { studentUid: 'uid-1', studentDisplayName: 'Bo' },
+    { studentUid: 'uid-2', studentDisplayName: 'ada lovelace' },
+    { studentUid: 'uid-3', studentDisplayName: 'Ada' },
+    { studentUid: 'uid-4', studentDisplayName: 'Zed' },
+  ], existingStudents);
+  assert.equal(suggestions[0].student?.id, 'doc-bo', 'a unique first name is suggested');
+  assert.equal(suggestions[1].student?.id, 'doc-ada');
+  assert.equal(suggestions[2].student, null, 'two students share the first name, so the instructor chooses');
+  assert.equal(suggestions[3].student, null);
+
+  const workbook = zip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Class list" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+    'xl/sharedStrings.xml': '<sst><si><t>Student number</t></si><si><t>Name</t></si><si><r><t>Ada </t></r><r><t>Lovelace</t></r></si><si><t>O&apos;Brien &amp; Co</t></si></sst>',
+    'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row><row r="2"><c r="A2"><v>1001</v></c><c r="B2" t="s"><v>2</v></c></row><row r="4"><c r="A4" t="inlineStr"><is><t>S1004</t></is></c><c r="C4" t="s"><v>3</v></c></row></sheetData></worksheet>',
+  });
+  assert.deepEqual(await readXlsxRows(workbook), [
+    ['Student number', 'Name'],
+    ['1001', 'Ada Lovelace'],
+    ['S1004', '', 'O\'Brien & Co'],
+  ]);
+  await assert.rejects(readXlsxRows(new TextEncoder().encode('not a zip').buffer as ArrayBuffer), /not a valid \.xlsx/);
+
+  console.log('Roster import verified.');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
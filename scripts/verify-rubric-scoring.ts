@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import {
+  distributeScoreAcrossRubric,
+  findQuestionRubric,
+  findRubricLevel,
+  getRubricMaxPoints,
+  scoreWithRubric,
+  validateRubric,
+} from '../src/lib/rubrics';
+import type { Rubric } from '../src/types';
+
+const rubric: Rubric = {
+  id: 'essay',
+  title: 'Case analysis essay',
+  criteria: [
+    {
+      id: 'evidence',
+      name: 'Use of case evidence',
+      levels: [
+        { id: 'evidence-high', label: 'Exemplary', descriptor: 'Cites exhibits precisely', minPoints: 5, maxPoints: 6 },
+        { id: 'evidence-mid', label: 'Developing', descriptor: 'Some references', minPoints: 2, maxPoints: 4 },
+        { id: 'evidence-low', label: 'Beginning', descriptor: 'No references', minPoints: 0, maxPoints: 1 },
+      ],
+    },
+    {
+      id: 'recommendation',
+      name: 'Recommendation',
+      levels: [
+        { id: 'rec-high', label: 'Clear', descriptor: 'Actionable and justified', minPoints: 3, maxPoints: 4 },
+        { id: 'rec-low', label: 'Unclear', descriptor: 'Vague', minPoints: 0, maxPoints: 2 },
+      ],
+    },
+  ],
+};
+
+assert.equal(validateRubric(rubric), null);
+assert.equal(getRubricMaxPoints(rubric), 10);
+assert.match(validateRubric({ ...rubric, title: ' ' }) || '', /title/);
+assert.match(validateRubric({
+  ...rubric,
+  criteria: [{ ...rubric.criteria[1], levels: [
+    { id: 'a', label: 'High', descriptor: '', minPoints: 2, maxPoints: 4 },
+    { id: 'b', label: 'Low', descriptor: '', minPoints: 0, maxPoints: 2 },
+  ] }],
+}) || '', /overlapping/);
+
+assert.equal(findRubricLevel(rubric.criteria[0], 4.5)?.id, 'evidence-mid');
+assert.equal(findRubricLevel(rubric.criteria[0], 1.4)?.id, 'evidence-low');
+
+const scored = scoreWithRubric(rubric, {
+  evidence: { score: 5, levelId: 'evidence-high', evidence: 'Cites Exhibit 3' },
+  recommendation: { score: 9, evidence: 'Over the band' },
+}, 20);
+assert.equal(scored.criteria.evidence.score, 5);
+assert.equal(scored.criteria.evidence.levelId, 'evidence-high');
+assert.equal(scored.criteria.recommendation.score, 4);
+assert.equal(scored.criteria.recommendation.maxPoints, 4);
+assert.equal(scored.score, 18);
+
+const levelOnly = scoreWithRubric(rubric, { evidence: { levelId: 'evidence-mid' } }, 10);
+assert.equal(levelOnly.criteria.evidence.score, 3);
+assert.equal(levelOnly.criteria.recommendation.score, 0);
+assert.equal(levelOnly.score, 3);
+
+const spread = distributeScoreAcrossRubric(rubric, 0.5, 10, 'Estimated');
+assert.equal(spread.criteria.evidence.score, 3);
+assert.equal(spread.criteria.recommendation.score, 2);
+assert.equal(spread.score, 5);
+
+const caseStudy = {
+  rubrics: [rubric],
+  sections: [{ id: 's1', title: 'One', content: '', type: 'reading' as const, order: 0, questions: [
+    { id: 'q1', text: 'Recommend', type: 'essay' as const, points: 10, rubricId: 'essay' },
+    { id: 'q2', text: 'Plain', type: 'text' as const, points: 5 },
+  ] }],
+};
+assert.equal(findQuestionRubric(caseStudy, 'q1').rubric?.id, 'essay');
+assert.equal(findQuestionRubric(caseStudy, 'q2').rubric, undefined);
+assert.equal(findQuestionRubric(caseStudy, 'missing').question, undefined);
+
+console.log('Rubric validation and criterion scoring verified.');
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import {
+  assignSeat,
+  buildLiveSeating,
+  clampSeatingDimension,
+  fillEmptySeats,
+  fitSeatsToLayout,
+  seatOf,
+  seatingGridTemplate,
+  seatingSeats,
+  unassignStudent,
+} from '../src/lib/seating-chart';
+
+const ada = { studentNumber: 'S-001', name: 'Ada' };
+const ben = { studentNumber: 'S-002', name: 'Ben' };
+const cy = { studentNumber: 'S-003', name: 'Cy' };
+
+assert.equal(clampSeatingDimension(0), 1);
+assert.equal(clampSeatingDimension(99), 24);
+assert.equal(clampSeatingDimension(Number.NaN), 1);
+
+const rows = seatingSeats({ layout: 'rows', rows: 2, columns: 3 });
+assert.deepEqual(rows.map((seat) => seat.id), ['r1-s1', 'r1-s2', 'r1-s3', 'r2-s1', 'r2-s2', 'r2-s3']);
+assert.deepEqual(seatingGridTemplate(rows), { gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr) minmax(0, 1fr)', gridTemplateRows: 'auto auto' });
+
+const u = seatingSeats({ layout: 'u-shape', rows: 2, columns: 3 });
+assert.equal(u.length, 7);
+assert.deepEqual(u.find((seat) => seat.id === 'b1'), { id: 'b1', label: 'Back 1', gridRow: 3, gridColumn: 2 });
+assert.deepEqual(u.find((seat) => seat.id === 'r2'), { id: 'r2', label: 'Right 2', gridRow: 2, gridColumn: 5 });
+
+// Four pods of four: three across the front, one behind with a spacer row and aisle columns between.
+const pods = seatingSeats({ layout: 'pods', rows: 4, columns: 4 });
+assert.deepEqual(pods.find((seat) => seat.id === 'p2-1'), { id: 'p2-1', label: 'Pod 2, seat 1', gridRow: 1, gridColumn: 4 });
+assert.deepEqual(pods.find((seat) => seat.id === 'p4-4'), { id: 'p4-4', label: 'Pod 4, seat 4', gridRow: 5, gridColumn: 2 });
+assert.deepEqual(seatingGridTemplate(pods), {
+  gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 1fr) 18px minmax(0, 1fr) minmax(0, 1fr) 18px minmax(0, 1fr) minmax(0, 1fr)',
+  gridTemplateRows: 'auto auto 14px auto auto',
+});
+
+let seats = assignSeat({}, 'r1-s1', ada);
+seats = assignSeat(seats, 'r1-s2', ben);
+assert.equal(seatOf(seats, 's001'), 'r1-s1');
+
+// Moving a seated student swaps them with the occupant.
+seats = assignSeat(seats, 'r1-s2', ada);
+assert.deepEqual(seats, { 'r1-s2': ada, 'r1-s1': ben });
+
+// Seating someone from the unseated list displaces the occupant.
+seats = assignSeat(seats, 'r1-s1', cy);
+assert.deepEqual(seats, { 'r1-s2': ada, 'r1-s1': cy });
+assert.deepEqual(unassignStudent(seats, 'S-003'), { 'r1-s2': ada });
+
+const fitted = fitSeatsToLayout({ 'r1-s1': ada, 'r3-s1': ben }, { layout: 'rows', rows: 2, columns: 3 });
+assert.deepEqual(fitted.seats, { 'r1-s1': ada });
+assert.deepEqual(fitted.unseated, [ben]);
+
+assert.deepEqual(
+  fillEmptySeats({ 'r1-s1': ada }, { layout: 'rows', rows: 1, columns: 3 }, [ada, ben, cy]),
+  { 'r1-s1': ada, 'r1-s2': ben, 'r1-s3': cy },
+);
+
+const live = buildLiveSeating(
+  { layout: 'rows', rows: 1, columns: 4, seats: { 'r1-s1': ada, 'r1-s2': ben, 'r1-s3': cy } },
+  [
+    { studentUid: 'u-ada', status: 'participated', participationMode: 'course-record', studentNumber: 'S001' },
+    { studentUid: 'u-ben', status: 'claimed', participationMode: 'course-record', studentNumber: 'S-002' },
+    { studentUid: 'u-cy', status: 'excused', participationMode: 'course-record', studentNumber: 'S-003' },
+  ],
+  ['u-ada'],
+  ['u-ada', 'u-ben'],
+);
+assert.deepEqual(live.map((seat) => [seat.id, seat.status, seat.responded]), [
+  ['r1-s1', 'here', true],
+  ['r1-s2', 'away', true],
+  ['r1-s3', 'not-checked-in', false],
+  ['r1-s4', 'empty', false],
+]);
+
+console.log('Seating chart layouts, seat moves and live presence verified.');
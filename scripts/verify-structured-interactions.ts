@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_SCALE_LABELS,
+  addStructuredAnswer,
+  aggregateStructuredAnswers,
+  emptyStructuredResults,
+  isCompleteStructuredAnswer,
+  matrixQuadrantLabel,
+  matrixSummary,
+  rankingSummary,
+  scaleLabelsFor,
+  scaleSummary,
+  structuredAnswerFrom,
+} from '../src/lib/structured-interactions';
+
+const ranking = { type: 'ranking', options: ['Cost', 'Speed', 'Risk'] };
+const scale = { type: 'scale', options: ['Clear goal', 'Fair process'], scaleLabels: ['Low', 'Middle', 'High'] };
+const matrix = { type: 'matrix', options: ['Pilot', 'Rollout'] };
+
+assert.deepEqual(scaleLabelsFor({ scaleLabels: ['Only', 'Two'] }), DEFAULT_SCALE_LABELS, 'short scales fall back to the default labels');
+assert.equal(scaleLabelsFor({ scaleLabels: ['1', '2', '3', '4', '5', '6', '7', '8'] }).length, 7);
+assert.equal(matrixQuadrantLabel(undefined, 1), 'High impact, high effort');
+assert.equal(matrixQuadrantLabel({ x: 'Cost', y: 'Value' }, 2), 'Low value, low cost');
+
+assert.equal(isCompleteStructuredAnswer(ranking, { ranking: [2, 0, 1] }), true);
+assert.equal(isCompleteStructuredAnswer(ranking, { ranking: [2, 2, 1] }), false, 'a ranking uses each option once');
+assert.equal(isCompleteStructuredAnswer(scale, { ratings: [3, 4] }), false, 'ratings stay on the scale');
+assert.equal(isCompleteStructuredAnswer(matrix, { placements: [1, -1] }), false, 'every item needs a quadrant');
+assert.deepEqual(structuredAnswerFrom({ ranking: [0, 1, 2], optionIndex: 1 } as never), { ranking: [0, 1, 2] });
+
+const rankingResults = aggregateStructuredAnswers(ranking, [{ ranking: [2, 0, 1] }, { ranking: [2, 1, 0] }, { ranking: [0] }]);
+assert.deepEqual(rankingResults.rankingTotals, [5, 5, 2], 'incomplete answers are not counted');
+assert.deepEqual(rankingSummary(ranking.options, rankingResults.rankingTotals, 2).map((item) => [item.label, item.averageRank]), [['Risk', 1], ['Cost', 2.5], ['Speed', 2.5]]);
+assert.deepEqual(rankingSummary(ranking.options, [], 0).map((item) => item.averageRank), [null, null, null]);
+
+const scaleResults = aggregateStructuredAnswers(scale, [{ ratings: [3, 1] }, { ratings: [2, 1] }]);
+assert.deepEqual(scaleResults.ratingCounts, [[0, 1, 1], [2, 0, 0]]);
+assert.deepEqual(scaleSummary(scale.options, scaleResults.ratingCounts, 3).map((item) => item.mean), [2.5, 1]);
+
+const empty = emptyStructuredResults(matrix);
+const matrixResults = addStructuredAnswer(addStructuredAnswer(addStructuredAnswer(empty, matrix, { placements: [1, 2] }), matrix, { placements: [1, 3] }), matrix, { placements: [0, 3] });
+assert.deepEqual(empty.quadrantCounts, [[0, 0, 0, 0], [0, 0, 0, 0]], 'adding answers leaves earlier results unchanged');
+assert.deepEqual(matrixSummary(matrix.options, matrixResults.quadrantCounts).map((item) => [item.quadrant, item.agreement]), [[1, 67], [3, 67]]);
+assert.equal(matrixSummary(matrix.options, []).every((item) => item.quadrant === null), true);
+
+console.log('Structured interactions verified.');
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import type { Timestamp } from 'firebase/firestore';
+import {
+  DEFAULT_PULSE_MINIMUM,
+  clampPulseMinimum,
+  emptyPulseCounts,
+  priorPulseCounts,
+  sessionPulseSummary,
+  visiblePulseCounts,
+} from '../src/lib/wellbeing-pulse';
+
+const counts = { ...emptyPulseCounts(), steady: 2, tired: 1 };
+
+assert.equal(clampPulseMinimum(undefined), DEFAULT_PULSE_MINIMUM);
+assert.equal(clampPulseMinimum(1), DEFAULT_PULSE_MINIMUM);
+assert.equal(clampPulseMinimum('7'), 7);
+assert.equal(clampPulseMinimum(400), 50);
+
+assert.deepEqual(visiblePulseCounts(counts), { counts, withheld: false });
+assert.deepEqual(visiblePulseCounts(counts, 3), { counts, withheld: false });
+assert.deepEqual(visiblePulseCounts(counts, 5), { counts: emptyPulseCounts(), withheld: true });
+
+assert.deepEqual(sessionPulseSummary(12, counts), { runId: 12, counts, total: 3, anonymous: false });
+assert.deepEqual(sessionPulseSummary(12, counts, 3), { runId: 12, counts, total: 3, anonymous: true, minimum: 3 });
+
+const at = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) }) as Timestamp;
+const sessions = [
+  { id: 'current', wellbeingPulse: { ...sessionPulseSummary(4, { ...emptyPulseCounts(), energized: 9 }), recordedAt: at(400) } },
+  { id: 'week-2', wellbeingPulse: { ...sessionPulseSummary(2, { ...emptyPulseCounts(), tired: 4 }), recordedAt: at(200) } },
+  { id: 'week-3', wellbeingPulse: { ...sessionPulseSummary(3, { ...emptyPulseCounts(), steady: 2 }, 5), recordedAt: at(300) } },
+  { id: 'week-1', wellbeingPulse: { ...sessionPulseSummary(1, { ...emptyPulseCounts(), steady: 6 }), recordedAt: at(100) } },
+  { id: 'unused' },
+];
+assert.deepEqual(priorPulseCounts(sessions, 'current'), { ...emptyPulseCounts(), tired: 4 });
+assert.equal(priorPulseCounts([sessions[0]], 'current'), null);
+
+console.log('Wellbeing pulse thresholds and comparisons verified.');
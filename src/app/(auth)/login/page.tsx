@@ -7,6 +7,7 @@ import {
   getGoogleSignInErrorMessage,
   signInTeacher,
   signInTeacherWithGoogle,
+  signInTeacherWithInstitution,
 } from '@/lib/firebase/auth';
 import Button from '@/components/ui/Button';
 import GoogleSignInButton from '@/components/ui/GoogleSignInButton';
@@ -26,6 +27,7 @@ export default function LoginPage() {
   });
   const [loading, setLoading] = useState(false);
   const [googleLoading, setGoogleLoading] = useState(false);
+  const [ssoLoading, setSsoLoading] = useState(false);
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -69,6 +71,27 @@ export default function LoginPage() {
     }
   };
 
+  const handleSsoSignIn = async () => {
+    if (!formData.email.trim()) {
+      setError('Enter your institution email, then choose single sign-on.');
+      return;
+    }
+    setSsoLoading(true);
+    setError('');
+
+    try {
+      // OIDC leaves for the identity provider and finishes on /login/sso.
+      const user = await signInTeacherWithInstitution(formData.email);
+      if (!user) return;
+      track('login', { method: 'sso' });
+      router.push(requestedDestination());
+    } catch (error: unknown) {
+      setError(getUserFacingError(error, 'We could not start single sign-on. Try again or sign in with your password.'));
+    } finally {
+      setSsoLoading(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
@@ -80,7 +103,7 @@ export default function LoginPage() {
     <SeminarAuthShell eyebrow="Instructor sign in" title="Welcome back." description="Sign in to prepare a lesson, open your classroom display, or continue a live class.">
       <div className="rounded-2xl border border-[#e3e5ed] bg-white p-6 shadow-[0_18px_50px_rgba(16,26,56,0.06)] sm:p-7">
             <GoogleSignInButton
-              disabled={loading}
+              disabled={loading || ssoLoading}
               loading={googleLoading}
               onClick={handleGoogleSignIn}
             />
@@ -118,7 +141,10 @@ export default function LoginPage() {
 
               {error && <InlineMessage title="That sign-in did not work." message={error} />}
 
-              <Button type="submit" loading={loading} disabled={googleLoading} className="w-full">Sign in</Button>
+              <Button type="submit" loading={loading} disabled={googleLoading || ssoLoading} className="w-full">Sign in</Button>
+              <Button type="button" variant="outline" loading={ssoLoading} disabled={loading || googleLoading} onClick={handleSsoSignIn} className="w-full">
+                Use single sign-on
+              </Button>
             </form>
 
             <div className="mt-6 text-center">
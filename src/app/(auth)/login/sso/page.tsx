@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, LoaderCircle } from 'lucide-react';
+import { completeInstitutionSignIn } from '@/lib/firebase/auth';
+import SeminarAuthShell from '@/components/ui/SeminarAuthShell';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import { track } from '@/lib/analytics/events';
+
+export default function SingleSignOnPage() {
+  const router = useRouter();
+  const [error, setError] = useState('');
+  // The ticket works once. Development renders effects twice, so redeem it only on the first.
+  const redeemed = useRef(false);
+
+  useEffect(() => {
+    if (redeemed.current) return;
+    redeemed.current = true;
+    const ticket = new URLSearchParams(window.location.search).get('ticket') || '';
+    if (!ticket) {
+      setError('This page finishes a single sign-on. Start from the sign-in page.');
+      return;
+    }
+    window.history.replaceState(null, '', '/login/sso');
+    completeInstitutionSignIn(ticket)
+      .then(() => {
+        track('login', { method: 'sso' });
+        router.replace('/dashboard');
+      })
+      .catch((signInError: unknown) => {
+        setError(getUserFacingError(signInError, 'This sign-in has expired. Sign in with single sign-on again.'));
+      });
+  }, [router]);
+
+  return (
+    <SeminarAuthShell eyebrow="Single sign-on" title="Signing you in." description="Your institution confirmed who you are. Classfully is opening your workspace.">
+      <div className="rounded-2xl border border-[#e3e5ed] bg-white p-6 shadow-[0_18px_50px_rgba(16,26,56,0.06)] sm:p-7">
+        {error ? (
+          <>
+            <InlineMessage title="That sign-in did not work." message={error} />
+            <Link href="/login" className="mt-6 inline-flex items-center gap-2 text-sm font-semibold text-[#5146e5] hover:text-[#4137c7]">
+              <ArrowLeft className="h-4 w-4" /> Back to sign in
+            </Link>
+          </>
+        ) : (
+          <p role="status" className="flex items-center gap-3 text-sm text-[#555d73]">
+            <LoaderCircle className="h-4 w-4 animate-spin text-[#5146e5]" /> Finishing single sign-on…
+          </p>
+        )}
+      </div>
+    </SeminarAuthShell>
+  );
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { assessStudentResponse, calculateSessionProgress, DEFAULT_MILESTONES } from '@/lib/ai/assessment';
-import { getResponsesByStudent, updateResponse } from '@/lib/firebase/firestore';
+import { calculateSessionProgress, DEFAULT_MILESTONES } from '@/lib/ai/assessment';
+import { getAssessmentProvider, runAssessment } from '@/lib/ai/assessment-providers';
+import { getCaseStudy, getCaseStudyForSession, getResponsesByStudent, getSession, updateResponse } from '@/lib/firebase/firestore';
+import { assessmentUpdate } from '@/lib/grading-queue';
+import { findQuestionRubric } from '@/lib/rubrics';
 import { firebaseRequestError, requireFirebaseUser } from '@/lib/firebase/server-auth';
 import { Timestamp } from 'firebase/firestore';
 
@@ -8,7 +11,7 @@ export async function POST(request: NextRequest) {
   try {
     await requireFirebaseUser(request, { allowAnonymous: true, requestsPerMinute: 12 });
     const body = await request.json();
-    const { message, studentId, sessionId, questionId, context } = body;
+    const { message, studentId, sessionId, questionId, caseStudyId, context } = body;
 
     if (!message || !studentId || !sessionId) {
       return NextResponse.json(
@@ -20,13 +23,23 @@ export async function POST(request: NextRequest) {
     // Get student's previous responses for context
     const studentResponses = await getResponsesByStudent(studentId, sessionId);
     
-    // Assess the current response using AI
-    const assessment = await assessStudentResponse({
+    // Grade against the instructor rubric stored on the question, not anything the client sends,
+    // at the case study version the session runs
+    const session = await getSession(sessionId).catch(() => null);
+    const caseStudy = caseStudyId && questionId
+      ? await (session && session.caseStudyId === caseStudyId ? getCaseStudyForSession(session) : getCaseStudy(caseStudyId)).catch(() => null)
+      : null;
+    const { question, rubric } = caseStudy ? findQuestionRubric(caseStudy, questionId) : {};
+
+    // Assess the current response with the session's provider, set from the institution default,
+    // or else the configured one (ASSESSMENT_PROVIDER)
+    const assessment = await runAssessment({
       studentResponse: message,
-      question: context?.question || "General response",
+      question: question?.text || context?.question || "General response",
       context: context?.caseStudyContent || "",
-      maxPoints: context?.maxPoints || 10
-    });
+      maxPoints: question?.points || context?.maxPoints || 10,
+      rubric
+    }, undefined, getAssessmentProvider(session?.assessmentProvider));
 
     // Calculate overall session progress
     const sessionProgress = calculateSessionProgress(studentResponses, DEFAULT_MILESTONES);
@@ -36,11 +49,7 @@ export async function POST(request: NextRequest) {
       try {
         const responseToUpdate = studentResponses.find(r => r.questionId === questionId);
         if (responseToUpdate) {
-          await updateResponse(responseToUpdate.id, {
-            points: assessment.score,
-            assessment: assessment,
-            gradedAt: Timestamp.now()
-          });
+          await updateResponse(responseToUpdate.id, assessmentUpdate(responseToUpdate, assessment, Timestamp.now()));
         }
       } catch (error) {
         console.error('Error updating response with assessment:', error);
@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { generateContent } from '@/lib/ai/gemini';
 import { firebaseRequestError, requireFirebaseUser } from '@/lib/firebase/server-auth';
 import { MAX_COMBINED_SOURCE_CHARS } from '@/lib/course-sources';
+import { STRUCTURED_INTERACTION_TYPES, MAX_SCALE_POINTS, MIN_SCALE_POINTS, isStructuredInteractionType } from '@/lib/structured-interactions';
 
-const interactionTypes = ['pulse', 'poll', 'quiz', 'open-response'] as const;
+const coreInteractionTypes = ['pulse', 'poll', 'quiz', 'open-response'] as const;
+const interactionTypes = [...coreInteractionTypes, ...STRUCTURED_INTERACTION_TYPES] as const;
 
 type InteractionType = (typeof interactionTypes)[number];
 
@@ -14,6 +16,8 @@ type GeneratedInteraction = {
   options?: string[];
   correctOptionIndex?: number;
   explanation?: string;
+  scaleLabels?: string[];
+  matrixAxes?: { x: string; y: string };
   plannedTime: string;
   durationMinutes: number;
   resultVisibility: 'live' | 'after-reveal' | 'instructor-only';
@@ -81,6 +85,38 @@ function validateInteraction(value: unknown): GeneratedInteraction | null {
     };
   }
 
+  if (interactionType === 'scale') {
+    const scaleLabels = Array.isArray(candidate.scaleLabels)
+      ? candidate.scaleLabels.map((label) => stringValue(label, 40)).filter(Boolean).slice(0, MAX_SCALE_POINTS)
+      : [];
+    return {
+      type: interactionType,
+      title,
+      prompt,
+      options,
+      ...(scaleLabels.length >= MIN_SCALE_POINTS ? { scaleLabels } : {}),
+      plannedTime,
+      durationMinutes,
+      resultVisibility: 'live',
+    };
+  }
+
+  if (interactionType === 'matrix') {
+    const axes = candidate.matrixAxes && typeof candidate.matrixAxes === 'object' ? candidate.matrixAxes as Record<string, unknown> : {};
+    const x = stringValue(axes.x, 30);
+    const y = stringValue(axes.y, 30);
+    return {
+      type: interactionType,
+      title,
+      prompt,
+      options,
+      ...(x && y ? { matrixAxes: { x, y } } : {}),
+      plannedTime,
+      durationMinutes,
+      resultVisibility: 'live',
+    };
+  }
+
   return {
     type: interactionType,
     title,
@@ -125,16 +161,17 @@ Lesson material:
 ${lessonContent}
 ---
 
-Create exactly four practical, editable interaction drafts, one of each type: pulse, poll, quiz, and open-response.
+Create four practical, editable interaction drafts, one of each type: pulse, poll, quiz, and open-response. If the material compares several options, steps, or priorities, you may add one more draft of type ranking, scale, or matrix.
 
 Requirements:
 - The pulse is a quick check-in about confidence, pace, or readiness. Give 3 to 5 respectful options.
 - The poll asks for a defensible interpretation, prioritisation, or application from this lesson. Give 3 to 5 plausible options.
 - The quiz checks one important point in the lesson. Give 4 plausible options, one correct option index, and a short explanation that can be shown after the response.
 - The open-response asks for a concise explanation, question, or application. It must be answerable in one or two sentences.
+- An optional ranking gives 3 to 6 items for students to put in order. An optional scale gives 2 to 5 statements to rate, and may give 3 to 7 scaleLabels from lowest to highest. An optional matrix gives 3 to 6 items to place on a 2x2 grid, and may give matrixAxes such as { "x": "Effort", "y": "Impact" }.
 - Prompts must be specific to this lesson and understandable when shown on a projector.
 - Keep titles under 8 words, prompts under 45 words, and options under 12 words each.
-- Use resultVisibility: live for pulse/poll, after-reveal for quiz, instructor-only for open-response.
+- Use resultVisibility: live for pulse/poll and the optional draft, after-reveal for quiz, instructor-only for open-response.
 - Use realistic plannedTime labels such as "Opening", "After the example", or "Before discussion", and durations between 2 and 5 minutes.
 
 Return JSON only, with this exact shape:
@@ -159,7 +196,8 @@ Return JSON only, with this exact shape:
       : [];
 
     const expectedTypes = new Set(interactions.map((interaction) => interaction.type));
-    if (interactions.length !== 4 || interactionTypes.some((type) => !expectedTypes.has(type))) {
+    const structuredCount = interactions.filter((interaction) => isStructuredInteractionType(interaction.type)).length;
+    if (interactions.length !== coreInteractionTypes.length + structuredCount || structuredCount > 1 || coreInteractionTypes.some((type) => !expectedTypes.has(type))) {
       return NextResponse.json(
         { error: 'The draft was incomplete. Please try again with a little more lesson material.' },
         { status: 502 },
@@ -11,6 +11,10 @@ import {
   type StoredStudentQuestion,
 } from '@/lib/firebase/live-classroom';
 import { selectDefaultProgressCourseId } from '@/lib/student-progress-metrics';
+import { aggregateStructuredAnswers, rankingSummary } from '@/lib/structured-interactions';
+import { formatEstimate, summarizeEstimates } from '@/lib/numeric-estimates';
+import { hotspotHitPercent } from '@/lib/hotspots';
+import { debateSideLabels, debateStanceShare } from '@/lib/debate';
 import ProtectedRoute from '@/components/teacher/ProtectedRoute';
 import DashboardLayout from '@/components/teacher/DashboardLayout';
 import Button from '@/components/ui/Button';
@@ -80,6 +84,12 @@ const RESPONSE_ACTIVITY_TYPES = new Set<SessionInteraction['type']>([
   'word-cloud',
   'peer-learning',
   'team-formation',
+  'ranking',
+  'scale',
+  'matrix',
+  'estimate',
+  'hotspot',
+  'debate',
   'reflection',
   'case-study',
 ]);
@@ -97,6 +107,12 @@ const activityLabel: Record<SessionInteraction['type'], string> = {
   'group-work': 'Group work',
   timer: 'Timer',
   'spin-wheel': 'Spin the wheel',
+  ranking: 'Ranking',
+  scale: 'Scale',
+  matrix: 'Matrix',
+  estimate: 'Estimate',
+  hotspot: 'Hotspot',
+  debate: 'Debate',
   reflection: 'Reflection',
   'case-study': 'Case study',
 };
@@ -144,6 +160,23 @@ function buildActivityResult(interaction: SessionInteraction, responses: StoredL
     const leadingIndex = counts.indexOf(Math.max(...counts));
     return `${interaction.options[leadingIndex]} led with ${counts[leadingIndex]}`;
   }
+  if (interaction.type === 'ranking' && interaction.options?.length) {
+    const [leader] = rankingSummary(interaction.options, aggregateStructuredAnswers(interaction, responses).rankingTotals, responses.length);
+    return `${leader.label} ranked first`;
+  }
+  if (interaction.type === 'estimate') {
+    const summary = summarizeEstimates(responses.flatMap((response) => (typeof response.value === 'number' ? [response.value] : [])));
+    if (summary) return `Median estimate ${formatEstimate(summary.median, interaction.estimateUnit)}`;
+  }
+  if (interaction.type === 'hotspot') {
+    const hitPercent = hotspotHitPercent(responses.flatMap((response) => (response.point ? [response.point] : [])), interaction.hotspotRegions);
+    if (hitPercent !== null) return `${hitPercent}% tapped a correct region`;
+  }
+  if (interaction.type === 'debate') {
+    const sides = debateSideLabels(interaction.options);
+    const share = debateStanceShare([0, 1].map((side) => responses.filter((response) => response.optionIndex === side).length));
+    if (share !== null) return `${share}% ${sides[0]} · ${100 - share}% ${sides[1]}`;
+  }
   if (interaction.type === 'word-cloud' || interaction.type === 'open-response' || interaction.type === 'reflection') {
     return `${responses.filter((response) => response.text?.trim()).length} written responses`;
   }
@@ -12,9 +12,12 @@ import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import Textarea from '@/components/ui/Textarea';
 import RichTextEditor from '@/components/ui/RichTextEditor';
-import type { Section, Question, CaseStudy, SectionType } from '@/types';
+import type { Section, Question, CaseStudy, SectionType, Rubric } from '@/types';
 import { Plus, Trash2, Save, ArrowLeft, BookOpen, MessageSquare, Activity, GripVertical } from 'lucide-react';
 import CaseStudyPDFExport from '@/components/teacher/CaseStudyPDFExport';
+import RubricEditor from '@/components/teacher/RubricEditor';
+import CaseStudyVersionHistory from '@/components/teacher/CaseStudyVersionHistory';
+import { getRubricMaxPoints, validateRubric } from '@/lib/rubrics';
 import InlineMessage from '@/components/ui/InlineMessage';
 import {
   DndContext,
@@ -43,6 +46,7 @@ interface SortableSectionProps {
   sectionIndex: number;
   sections: Section[];
   isCollapsed: boolean;
+  rubrics: Rubric[];
   onSectionChange: (sectionId: string, field: keyof Section, value: string | SectionType) => void;
   onRemoveSection: (sectionId: string) => void;
   onAddQuestion: (sectionId: string) => void;
@@ -55,6 +59,7 @@ function SortableSection({
   sectionIndex,
   sections,
   isCollapsed,
+  rubrics,
   onSectionChange,
   onRemoveSection,
   onAddQuestion,
@@ -328,6 +333,31 @@ function SortableSection({
                     />
                   </div>
 
+                  {(question.type === 'text' || question.type === 'essay') && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Grading Rubric
+                      </label>
+                      <select
+                        value={question.rubricId || ''}
+                        onChange={(e) => onQuestionChange(section.id, question.id, 'rubricId', e.target.value || undefined)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Default learning milestones</option>
+                        {rubrics.map((rubric) => (
+                          <option key={rubric.id} value={rubric.id}>
+                            {rubric.title || 'Untitled rubric'} ({getRubricMaxPoints(rubric)} pts)
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {rubrics.length
+                          ? 'AI grading scores each rubric criterion and scales the total to this question\'s points.'
+                          : 'Add a rubric under Grading Rubrics to grade this question against your own criteria.'}
+                      </p>
+                    </div>
+                  )}
+
                   {(question.type === 'multiple-choice' || question.type === 'multiple-choice-feedback') && (
                     <div className="space-y-4">
                       <div>
@@ -450,7 +480,9 @@ export default function EditCaseStudyPage() {
   });
 
   const [sections, setSections] = useState<Section[]>([]);
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Sensors for drag and drop
   const sensors = useSensors(
@@ -543,6 +575,7 @@ export default function EditCaseStudyPage() {
           type: section.type || 'reading' // Default to reading for existing sections
         }));
         setSections(migratedSections);
+        setRubrics(existingCaseStudy.rubrics || []);
       } catch (error: any) {
         console.error('Error loading case study:', error);
         setError(getUserFacingError(error, 'This case study could not be opened. Return to the library and try again.'));
@@ -552,7 +585,7 @@ export default function EditCaseStudyPage() {
     };
 
     loadCaseStudy();
-  }, [caseStudyId, user]);
+  }, [caseStudyId, user, reloadKey]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     setFormData(prev => ({
@@ -743,7 +776,13 @@ export default function EditCaseStudyPage() {
         }
       }
 
+      for (const rubric of rubrics) {
+        const rubricError = validateRubric(rubric);
+        if (rubricError) throw new Error(rubricError);
+      }
+
       const totalPoints = calculateTotalPoints();
+      const rubricIds = new Set(rubrics.map(rubric => rubric.id));
       
       const updateData = {
         title: formData.title.trim(),
@@ -751,8 +790,15 @@ export default function EditCaseStudyPage() {
         conclusionGuidance: formData.conclusionGuidance.trim(),
         sections: sections.map((section, index) => ({
           ...section,
+          // Drop links to deleted rubrics; Firestore also rejects undefined fields
+          questions: section.questions.map(({ rubricId, ...question }) => (
+            rubricId && rubricIds.has(rubricId) && (question.type === 'text' || question.type === 'essay')
+              ? { ...question, rubricId }
+              : question
+          )),
           order: index
         })),
+        rubrics,
         totalPoints,
         courseId: formData.courseId,
       };
@@ -809,6 +855,12 @@ export default function EditCaseStudyPage() {
   }
 
   const totalPoints = calculateTotalPoints();
+  const rubricUsage = sections.reduce<Record<string, number>>((usage, section) => {
+    section.questions.forEach(question => {
+      if (question.rubricId) usage[question.rubricId] = (usage[question.rubricId] || 0) + 1;
+    });
+    return usage;
+  }, {});
 
   return (
     <ProtectedRoute>
@@ -880,6 +932,8 @@ export default function EditCaseStudyPage() {
               </CardContent>
             </Card>
 
+            <RubricEditor rubrics={rubrics} onChange={setRubrics} usage={rubricUsage} />
+
             {/* Drag mode indicator */}
             {isDragging && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
@@ -907,6 +961,7 @@ export default function EditCaseStudyPage() {
                     sectionIndex={sectionIndex}
                     sections={sections}
                     isCollapsed={isDragging}
+                    rubrics={rubrics}
                     onSectionChange={handleSectionChange}
                     onRemoveSection={removeSection}
                     onAddQuestion={addQuestion}
@@ -951,6 +1006,16 @@ export default function EditCaseStudyPage() {
               </Button>
             </div>
           </form>
+
+          {caseStudy && (
+            <div className="mt-8">
+              <CaseStudyVersionHistory
+                caseStudyId={caseStudyId}
+                currentVersion={caseStudy.currentVersion}
+                onRestored={() => setReloadKey((key) => key + 1)}
+              />
+            </div>
+          )}
         </div>
       </DashboardLayout>
     </ProtectedRoute>
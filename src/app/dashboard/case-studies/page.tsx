@@ -2,25 +2,45 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Timestamp } from 'firebase/firestore';
 import { useAuth } from '@/lib/hooks/useAuth';
-import { getCaseStudiesByTeacher, duplicateCaseStudy, archiveCaseStudy } from '@/lib/firebase/firestore';
+import {
+  getCaseStudiesByTeacher,
+  duplicateCaseStudy,
+  archiveCaseStudy,
+  getAccessibleCourses,
+  createSession,
+  updateSession,
+  generateSessionCode,
+} from '@/lib/firebase/firestore';
+import { claimSessionStart } from '@/lib/firebase/billing';
+import { getUserFacingError } from '@/lib/user-facing-error';
 import ProtectedRoute from '@/components/teacher/ProtectedRoute';
 import DashboardLayout from '@/components/teacher/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Dialog from '@/components/ui/Dialog';
-import type { CaseStudy } from '@/types';
-import { BookOpen, Plus, Play, Edit, Calendar, Users, Clock, Award, FileText, HelpCircle, Copy, Archive, MoreVertical, Sparkles, Download } from 'lucide-react';
+import InlineMessage from '@/components/ui/InlineMessage';
+import type { CaseStudy, Course } from '@/types';
+import { BookOpen, Plus, Play, Edit, Calendar, Users, Clock, Award, FileText, HelpCircle, Copy, Archive, MoreVertical, Sparkles, Download, CalendarClock } from 'lucide-react';
 import CaseStudyPDFExport from '@/components/teacher/CaseStudyPDFExport';
+import HomeworkSettings, { homeworkDraft, homeworkFromDraft, type HomeworkDraft } from '@/components/teacher/HomeworkSettings';
 
 export default function CaseStudiesPage() {
   const { user } = useAuth();
+  const router = useRouter();
   const [caseStudies, setCaseStudies] = useState<CaseStudy[]>([]);
   const [loading, setLoading] = useState(true);
   const [archiveDialogOpen, setArchiveDialogOpen] = useState(false);
   const [caseStudyToArchive, setCaseStudyToArchive] = useState<CaseStudy | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [dropdownOpen, setDropdownOpen] = useState<string | null>(null);
+  const [homeworkCaseStudy, setHomeworkCaseStudy] = useState<CaseStudy | null>(null);
+  const [homeworkSettings, setHomeworkSettings] = useState<HomeworkDraft>(() => homeworkDraft(undefined, 0));
+  const [homeworkCourseId, setHomeworkCourseId] = useState('');
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [homeworkError, setHomeworkError] = useState('');
 
   useEffect(() => {
     const loadCaseStudies = async () => {
@@ -129,6 +149,63 @@ export default function CaseStudiesPage() {
     }
   };
 
+  const handleAssignHomeworkClick = async (caseStudy: CaseStudy) => {
+    setDropdownOpen(null);
+    setHomeworkError('');
+    setHomeworkSettings(homeworkDraft(undefined, caseStudy.sections?.length || 0));
+    setHomeworkCaseStudy(caseStudy);
+    if (user && !courses.length) {
+      try {
+        const accessibleCourses = await getAccessibleCourses(user.uid);
+        setCourses(accessibleCourses);
+        setHomeworkCourseId((current) => current || accessibleCourses[0]?.id || '');
+      } catch (error) {
+        console.error('Error loading classes:', error);
+      }
+    }
+  };
+
+  // Homework is a case study session that opens straight away and stays open until its instructor ends it.
+  const handleAssignHomeworkConfirm = async () => {
+    if (!homeworkCaseStudy || !user) return;
+    const homework = homeworkFromDraft(homeworkSettings);
+    if (typeof homework === 'string') {
+      setHomeworkError(homework);
+      return;
+    }
+    const course = courses.find((item) => item.id === homeworkCourseId);
+    setHomeworkError('');
+    try {
+      const sessionId = await createSession({
+        sessionCode: generateSessionCode(),
+        sessionType: 'case-study',
+        caseStudyId: homeworkCaseStudy.id,
+        caseStudyTitle: homeworkCaseStudy.title,
+        ...(homeworkCaseStudy.currentVersion ? { caseStudyVersion: homeworkCaseStudy.currentVersion } : {}),
+        title: homeworkCaseStudy.title,
+        ...(course ? {
+          courseId: course.id,
+          courseCode: course.code,
+          courseName: course.name,
+          rewardScopeId: course.rewardScopeId || course.code,
+        } : {}),
+        teacherId: course?.teacherId || user.uid,
+        homework,
+        active: false,
+        studentsJoined: [],
+        releasedSections: [],
+        currentReleasedSection: -1,
+      });
+      await claimSessionStart(sessionId);
+      await updateSession(sessionId, { active: true, lastActivityAt: Timestamp.now() });
+      const { updateSessionStatus } = await import('@/lib/firebase/realtime');
+      await updateSessionStatus(sessionId, { active: true });
+      router.push(`/dashboard/sessions/${sessionId}`);
+    } catch (error: unknown) {
+      setHomeworkError(getUserFacingError(error, 'The homework could not be assigned. Try again.'));
+    }
+  };
+
   const handleArchiveCancel = () => {
     console.log('❌ Archive cancelled');
     setArchiveDialogOpen(false);
@@ -265,6 +342,16 @@ export default function CaseStudiesPage() {
                                   <Copy className="w-4 h-4 mr-3" />
                                   {actionLoading === `duplicate-${caseStudy.id}` ? 'Duplicating...' : 'Duplicate'}
                                 </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    void handleAssignHomeworkClick(caseStudy);
+                                  }}
+                                  className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                                >
+                                  <CalendarClock className="w-4 h-4 mr-3" />
+                                  Assign as homework
+                                </button>
                                 <div className="px-4 py-2">
                                   <CaseStudyPDFExport 
                                     caseStudy={caseStudy} 
@@ -372,6 +459,39 @@ export default function CaseStudiesPage() {
           cancelText="Cancel"
           variant="default"
         />
+
+        <Dialog
+          isOpen={Boolean(homeworkCaseStudy)}
+          onClose={() => setHomeworkCaseStudy(null)}
+          onConfirm={handleAssignHomeworkConfirm}
+          title="Assign as homework"
+          message={`Students work through "${homeworkCaseStudy?.title || ''}" in their own time with the class code, and their answers count toward the gradebook.`}
+          confirmText="Assign"
+          size="wide"
+        >
+          <div className="space-y-5">
+            {homeworkError && <InlineMessage message={homeworkError} />}
+            <div className="space-y-1.5">
+              <label htmlFor="homework-course" className="block text-sm font-semibold text-[#313950]">Class</label>
+              <select
+                id="homework-course"
+                className="seminar-focus h-11 w-full rounded-xl border border-[#d7dae5] bg-white px-3 text-sm text-[#101a38]"
+                value={homeworkCourseId}
+                onChange={(event) => setHomeworkCourseId(event.target.value)}
+              >
+                <option value="">No class</option>
+                {courses.filter((course) => !course.archived).map((course) => (
+                  <option key={course.id} value={course.id}>{course.code} · {course.name}</option>
+                ))}
+              </select>
+            </div>
+            <HomeworkSettings
+              value={homeworkSettings}
+              onChange={setHomeworkSettings}
+              sectionTitles={homeworkCaseStudy?.sections.map((section) => section.title) || []}
+            />
+          </div>
+        </Dialog>
       </DashboardLayout>
     </ProtectedRoute>
   );
@@ -0,0 +1,339 @@
+'use client';
+
+import { use, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  getAccessibleSessions,
+  getCourse,
+  getCourseInstructorRole,
+  getStudentsByIds,
+  saveParticipationRates,
+  updateCourse,
+} from '@/lib/firebase/firestore';
+import { getInstructorClassroomRecords, type InstructorClassroomRecords } from '@/lib/firebase/live-classroom';
+import { orderCourseSessions } from '@/lib/course-session-order';
+import {
+  applyAttendanceMarks,
+  attendanceMarkKey,
+  attendanceStateLabel,
+  buildAttendanceRegister,
+  exportAttendanceCsv,
+  type AttendanceRegisterState,
+} from '@/lib/attendance-register';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { AttendanceMark, Course, CourseAttendanceSettings, Session, Student } from '@/types';
+import { ArrowLeft, ClipboardCheck, Download, Save, SlidersHorizontal, UploadCloud } from 'lucide-react';
+
+interface AttendancePageProps {
+  params: Promise<{ id: string }>;
+}
+
+const stateTone: Record<AttendanceRegisterState, string> = {
+  present: 'bg-[#edf8f0] text-[#26743c]',
+  late: 'bg-[#f0efff] text-[#5146e5]',
+  excused: 'bg-[#f4f5f8] text-[#697087]',
+  absent: 'bg-[#fff1ed] text-[#b6533f]',
+};
+
+type BulkAction = 'confirm' | 'late' | 'excuse' | 'absent' | 'clear';
+
+const heldSession = (session: Session, records: InstructorClassroomRecords | null | undefined) => Boolean(
+  session.startedAt || session.endedAt || session.studentsJoined?.length || Object.keys(records?.attendance || {}).length,
+);
+
+export default function AttendancePage({ params }: AttendancePageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [records, setRecords] = useState<Record<string, InstructorClassroomRecords | null>>({});
+  const [settings, setSettings] = useState<CourseAttendanceSettings>({});
+  const [canEdit, setCanEdit] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [policyOpen, setPolicyOpen] = useState(false);
+  const [minInteractions, setMinInteractions] = useState('0');
+  const [excusing, setExcusing] = useState(false);
+  const [excuseReason, setExcuseReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    const loadRegister = async () => {
+      try {
+        const [courseData, sessionData] = await Promise.all([getCourse(id), getAccessibleSessions(user.uid)]);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const courseSessions = orderCourseSessions(
+          sessionData.filter((session) => session.courseId === id || (!session.courseId && session.courseCode === courseData.code)),
+          courseData.sessionOrder,
+        );
+        const [role, studentData, recordPairs] = await Promise.all([
+          getCourseInstructorRole(user.uid, courseData),
+          getStudentsByIds(courseData.studentIds || []),
+          Promise.all(courseSessions
+            .filter((session) => session.sessionType === 'standalone')
+            .map(async (session) => {
+              try {
+                return [session.id, await getInstructorClassroomRecords(session.teacherId, session.id)] as const;
+              } catch (recordError) {
+                console.warn('Live attendance could not be loaded for a session:', recordError);
+                return [session.id, null] as const;
+              }
+            })),
+        ]);
+        const recordData = Object.fromEntries(recordPairs);
+        setCourse(courseData);
+        setSettings(courseData.attendance || {});
+        setMinInteractions(String(courseData.attendance?.minInteractions ?? 0));
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+        setSessions(courseSessions.filter((session) => heldSession(session, recordData[session.id])));
+        setRecords(recordData);
+        setStudents(studentData);
+      } catch (loadError) {
+        console.error('Attendance register could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The attendance register could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRegister();
+  }, [id, user]);
+
+  const register = useMemo(
+    () => buildAttendanceRegister({ sessions, students, records, settings }),
+    [records, sessions, settings, students],
+  );
+
+  const saveSettings = async (next: CourseAttendanceSettings) => {
+    if (!course) return;
+    setSaving(true);
+    setError('');
+    try {
+      await updateCourse(course.id, { attendance: next });
+      setSettings(next);
+    } catch (saveError) {
+      console.error('Attendance settings could not be saved:', saveError);
+      setError(getUserFacingError(saveError, 'The attendance change was not saved. Try again.'));
+      throw saveError;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleCell = (key: string) => {
+    if (!canEdit) return;
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const selectSession = (sessionId: string, joinedOnly: boolean) => {
+    setSelected(new Set(register.rows
+      .filter((row) => !joinedOnly || row.cells[sessionId]?.joined)
+      .map((row) => attendanceMarkKey(row.student.id, sessionId))));
+  };
+
+  const applyBulk = async (action: BulkAction, reason = '') => {
+    if (!user || !selected.size) return;
+    const mark: AttendanceMark | null = action === 'clear' ? null : {
+      status: action === 'excuse' ? 'excused' : action === 'absent' ? 'absent' : 'confirmed',
+      ...(action === 'late' ? { late: true } : {}),
+      ...(action === 'excuse' && reason.trim() ? { reason: reason.trim() } : {}),
+      updatedBy: user.uid,
+      updatedAt: Timestamp.now(),
+    };
+    await saveSettings({ ...settings, marks: applyAttendanceMarks(settings.marks, Array.from(selected), mark) });
+    setSelected(new Set());
+  };
+
+  const savePolicy = async () => {
+    const parsed = Math.floor(Number(minInteractions));
+    await saveSettings({ ...settings, minInteractions: Number.isFinite(parsed) ? Math.min(50, Math.max(0, parsed)) : 0 })
+      .then(() => setPolicyOpen(false))
+      .catch(() => undefined);
+  };
+
+  const sendToGradebook = async () => {
+    if (!course) return;
+    setSyncing(true);
+    setNotice('');
+    setError('');
+    try {
+      const rates = register.rows.flatMap((row) => row.rate === null ? [] : [{ studentId: row.student.id, participationRate: row.rate }]);
+      await saveParticipationRates(course.id, rates);
+      setNotice(`Attendance rates saved for ${rates.length} ${rates.length === 1 ? 'student' : 'students'}. The gradebook counts them toward participation alongside contribution.`);
+    } catch (syncError) {
+      console.error('Attendance rates could not be saved:', syncError);
+      setError(getUserFacingError(syncError, 'Attendance rates were not saved to the gradebook. Try again.'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const downloadExport = () => {
+    if (!course) return;
+    const url = URL.createObjectURL(new Blob([exportAttendanceCsv(register)], { type: 'text/csv;charset=utf-8' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `${course.code}-attendance.csv`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const dateFormat = new Intl.DateTimeFormat('en', { month: 'short', day: 'numeric' });
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-[1600px] p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading attendance"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="This register is not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="flex flex-col gap-5 border-b border-[#e3e5ed] pb-8 lg:flex-row lg:items-end lg:justify-between">
+                <div className="max-w-3xl">
+                  <p className="seminar-eyebrow mb-3">{course.code} attendance</p>
+                  <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                  <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">
+                    {settings.minInteractions ? `Students are present when they answer at least ${settings.minInteractions} ${settings.minInteractions === 1 ? 'interaction' : 'interactions'} in a live session.` : 'Students are present when they check in to a session.'} Select cells to confirm, excuse or mark them late.
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {canEdit && <Button variant="outline" onClick={() => setPolicyOpen((open) => !open)} className="gap-2"><SlidersHorizontal className="h-4 w-4" /> Policy</Button>}
+                  {canEdit && <Button onClick={sendToGradebook} loading={syncing} disabled={!register.rows.length} title="Save each student's attendance rate to the gradebook, where it counts toward participation" className="gap-2"><UploadCloud className="h-4 w-4" /> Send to gradebook</Button>}
+                  <Button variant="outline" onClick={downloadExport} disabled={!register.rows.length} className="gap-2"><Download className="h-4 w-4" /> CSV</Button>
+                </div>
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="That change did not stick yet." message={error} />}
+              {notice && <InlineMessage className="mt-6" tone="info" title="Participation updated." message={notice} />}
+
+              {policyOpen && canEdit && (
+                <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-5 sm:p-7" aria-labelledby="attendance-policy-heading">
+                  <p className="seminar-eyebrow">Policy</p>
+                  <h2 id="attendance-policy-heading" className="seminar-display mt-2 text-2xl text-[#101a38]">What counts as present.</h2>
+                  <p className="mt-2 max-w-2xl text-sm leading-6 text-[#697087]">In live sessions, a student who checks in but answers fewer interactions than this is marked absent. Sessions without live records count anyone who joined.</p>
+                  <div className="mt-5 flex flex-col gap-3 sm:flex-row sm:items-end">
+                    <label className="block text-sm font-bold text-[#313950]">Interactions needed<input type="number" min="0" max="50" value={minInteractions} onChange={(event) => setMinInteractions(event.target.value)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal sm:w-48" /></label>
+                    <Button onClick={savePolicy} loading={saving} className="gap-2"><Save className="h-4 w-4" /> Save policy</Button>
+                  </div>
+                </section>
+              )}
+
+              {canEdit && selected.size > 0 && (
+                <div className="sticky top-4 z-10 mt-6 flex flex-wrap items-center gap-2 rounded-2xl border border-[#e1e3ec] bg-white p-3 shadow-[0_8px_24px_rgba(16,26,56,0.08)]" role="toolbar" aria-label="Attendance actions">
+                  <span className="px-2 text-sm font-bold text-[#101a38]">{selected.size} selected</span>
+                  <Button size="sm" onClick={() => applyBulk('confirm')} disabled={saving}>Confirm present</Button>
+                  <Button size="sm" variant="outline" onClick={() => applyBulk('late')} disabled={saving}>Late</Button>
+                  <Button size="sm" variant="outline" onClick={() => { setExcuseReason(''); setExcusing(true); }} disabled={saving}>Excuse…</Button>
+                  <Button size="sm" variant="outline" onClick={() => applyBulk('absent')} disabled={saving}>Absent</Button>
+                  <Button size="sm" variant="ghost" onClick={() => applyBulk('clear')} disabled={saving}>Use records</Button>
+                  <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>Clear selection</Button>
+                </div>
+              )}
+
+              {register.columns.length === 0 || register.rows.length === 0 ? (
+                <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white px-6 py-14 text-center">
+                  <ClipboardCheck className="mx-auto h-9 w-9 text-[#9298a8]" />
+                  <h2 className="seminar-display mt-4 text-3xl text-[#101a38]">{register.rows.length === 0 ? 'No students on the roster yet.' : 'No sessions held yet.'}</h2>
+                  <p className="mx-auto mt-2 max-w-md text-sm leading-6 text-[#697087]">{register.rows.length === 0 ? 'Import a class list from the Roster page to take attendance.' : 'Sessions appear here once they have started.'}</p>
+                </section>
+              ) : (
+                <section className="mt-8 overflow-x-auto rounded-3xl border border-[#e1e3ec] bg-white" aria-label="Attendance register">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-[#f8f7fb] text-left text-xs text-[#697087]">
+                      <tr>
+                        <th scope="col" className="sticky left-0 bg-[#f8f7fb] px-4 py-3 font-bold">Student</th>
+                        {register.columns.map((column) => (
+                          <th key={column.sessionId} scope="col" className="min-w-[120px] px-3 py-3 font-bold">
+                            <span className="block truncate text-[#101a38]">{column.title}</span>
+                            <span className="font-normal">{column.date ? dateFormat.format(column.date) : 'Undated'}</span>
+                            {canEdit && (
+                              <span className="mt-1 flex gap-2 font-semibold">
+                                <button type="button" onClick={() => selectSession(column.sessionId, true)} className="seminar-focus rounded text-[#5146e5] hover:underline">Joined</button>
+                                <button type="button" onClick={() => selectSession(column.sessionId, false)} className="seminar-focus rounded text-[#5146e5] hover:underline">All</button>
+                              </span>
+                            )}
+                          </th>
+                        ))}
+                        <th scope="col" className="px-3 py-3 font-bold">Attendance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#eceef3]">
+                      {register.rows.map((row) => (
+                        <tr key={row.student.id}>
+                          <th scope="row" className="sticky left-0 bg-white px-4 py-3 text-left font-normal">
+                            <strong className="block text-[#101a38]">{row.student.name}</strong>
+                            <span className="text-xs text-[#697087]">{row.student.studentId}</span>
+                          </th>
+                          {register.columns.map((column) => {
+                            const cell = row.cells[column.sessionId];
+                            const key = attendanceMarkKey(row.student.id, column.sessionId);
+                            const isSelected = selected.has(key);
+                            return (
+                              <td key={column.sessionId} className="px-3 py-3">
+                                <button
+                                  type="button"
+                                  disabled={!canEdit}
+                                  aria-pressed={canEdit ? isSelected : undefined}
+                                  onClick={() => toggleCell(key)}
+                                  title={cell.mark ? `Marked by instructor${cell.mark.reason ? ` · ${cell.mark.reason}` : ''}` : column.live && cell.joined ? `${cell.interactions} ${cell.interactions === 1 ? 'interaction' : 'interactions'}` : undefined}
+                                  className={`seminar-focus rounded-full px-2.5 py-1 text-xs font-bold ${stateTone[cell.state]} ${isSelected ? 'ring-2 ring-[#5146e5] ring-offset-1' : ''}`}
+                                >
+                                  {attendanceStateLabel(cell)}{cell.mark ? ' ✓' : ''}
+                                </button>
+                                {column.live && cell.joined && !cell.mark && <span className="mt-1 block text-[10px] text-[#697087]">{cell.interactions} answered</span>}
+                              </td>
+                            );
+                          })}
+                          <td className="px-3 py-3"><strong className="text-[#101a38]">{row.rate === null ? '—' : `${row.rate}%`}</strong><span className="block text-xs text-[#697087]">{row.present + row.late}/{register.columns.length - row.excused} sessions</span></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+
+              <Dialog
+                isOpen={excusing}
+                onClose={() => setExcusing(false)}
+                onConfirm={async () => {
+                  await applyBulk('excuse', excuseReason);
+                  setExcusing(false);
+                }}
+                title={`Excuse ${selected.size} ${selected.size === 1 ? 'entry' : 'entries'}`}
+                message="Excused sessions are left out of the attendance rate."
+                confirmText="Excuse"
+              >
+                <label className="block text-sm font-bold text-[#313950]">
+                  Reason
+                  <input value={excuseReason} onChange={(event) => setExcuseReason(event.target.value.slice(0, 200))} placeholder="For example, medical note or field trip" className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" />
+                </label>
+              </Dialog>
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
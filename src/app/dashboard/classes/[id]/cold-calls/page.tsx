@@ -0,0 +1,236 @@
+'use client';
+
+import { Fragment, use, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  getAccessibleSessions,
+  getCourse,
+  getCourseInstructorRole,
+  getStudentsByIds,
+} from '@/lib/firebase/firestore';
+import { deleteColdCall, getColdCalls, setColdCallOptOut } from '@/lib/firebase/cold-calls';
+import { COLD_CALL_QUALITY_LABELS, buildColdCallRows, coldCallKey, exportColdCallCsv } from '@/lib/cold-call';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { ColdCallEntry, Course, Student } from '@/types';
+import { ArrowLeft, ChevronDown, Download, Hand, Trash2 } from 'lucide-react';
+
+interface ColdCallsPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const outcomeLabel = (entry: Pick<ColdCallEntry, 'outcome' | 'quality'>) => (
+  entry.outcome === 'passed' ? 'Used a pass'
+    : entry.outcome === 'absent' ? 'Not here'
+      : entry.quality ? COLD_CALL_QUALITY_LABELS[entry.quality] : 'Answered'
+);
+
+export default function ColdCallsPage({ params }: ColdCallsPageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [entries, setEntries] = useState<ColdCallEntry[]>([]);
+  const [sessionTitles, setSessionTitles] = useState<Record<string, string>>({});
+  const [optedOut, setOptedOut] = useState<string[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [expanded, setExpanded] = useState('');
+  const [savingKey, setSavingKey] = useState('');
+  const [callToDelete, setCallToDelete] = useState<ColdCallEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    const loadHistory = async () => {
+      try {
+        const courseData = await getCourse(id);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const [role, studentData, callData, sessionData] = await Promise.all([
+          getCourseInstructorRole(user.uid, courseData),
+          getStudentsByIds(courseData.studentIds || []),
+          getColdCalls(courseData.id),
+          getAccessibleSessions(user.uid),
+        ]);
+        setCourse(courseData);
+        setStudents(studentData);
+        setEntries(callData);
+        setOptedOut(courseData.coldCall?.optedOut || []);
+        setSessionTitles(Object.fromEntries(sessionData.map((session) => [session.id, session.title || 'Live session'])));
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+      } catch (loadError) {
+        console.error('Cold-call history could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The cold-call history could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadHistory();
+  }, [id, user]);
+
+  const rows = useMemo(() => buildColdCallRows(students, entries, optedOut), [entries, optedOut, students]);
+  const calledCount = rows.filter((row) => row.summary.calls > 0).length;
+
+  const toggleOptOut = async (studentNumber: string, next: boolean) => {
+    if (!course) return;
+    const key = coldCallKey(studentNumber);
+    setSavingKey(key);
+    setError('');
+    try {
+      await setColdCallOptOut(course.id, studentNumber, next);
+      setOptedOut((current) => next ? [...current.filter((item) => item !== key), key] : current.filter((item) => item !== key));
+    } catch (saveError) {
+      console.error('Cold-call opt-out could not be saved:', saveError);
+      setError(getUserFacingError(saveError, 'That change was not saved. Try again.'));
+    } finally {
+      setSavingKey('');
+    }
+  };
+
+  const confirmDeleteCall = async () => {
+    if (!course || !callToDelete) return;
+    try {
+      await deleteColdCall(course.id, callToDelete.id);
+      setEntries((current) => current.filter((entry) => entry.id !== callToDelete.id));
+    } catch (deleteError) {
+      console.error('Cold call could not be removed:', deleteError);
+      setError(getUserFacingError(deleteError, 'The call was not removed. Try again.'));
+    } finally {
+      setCallToDelete(null);
+    }
+  };
+
+  const downloadExport = () => {
+    if (!course) return;
+    const url = URL.createObjectURL(new Blob([exportColdCallCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `${course.code}-cold-calls.csv`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const dateFormat = new Intl.DateTimeFormat('en', { month: 'short', day: 'numeric' });
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-[1400px] p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading cold calls"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="This history is not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="flex flex-col gap-5 border-b border-[#e3e5ed] pb-8 lg:flex-row lg:items-end lg:justify-between">
+                <div className="max-w-3xl">
+                  <p className="seminar-eyebrow mb-3">{course.code} cold calls</p>
+                  <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                  <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">
+                    Every call from the cold-call wheel is logged here with your mark. Students called less often this term are more likely to come up, and students you opt out are never called.
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={downloadExport} disabled={!rows.length} className="gap-2"><Download className="h-4 w-4" /> CSV</Button>
+                </div>
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="That change did not stick yet." message={error} />}
+
+              {!rows.length ? (
+                <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white px-6 py-14 text-center">
+                  <Hand className="mx-auto h-9 w-9 text-[#9298a8]" />
+                  <h2 className="seminar-display mt-4 text-3xl text-[#101a38]">No students on the roster yet.</h2>
+                  <p className="mx-auto mt-2 max-w-md text-sm leading-6 text-[#697087]">Import a class list from the Roster page, then add a spin wheel set to cold call in a live session.</p>
+                </section>
+              ) : (
+                <section className="mt-8 overflow-x-auto rounded-3xl border border-[#e1e3ec] bg-white" aria-label="Cold-call history">
+                  <p className="border-b border-[#eceef3] px-4 py-3 text-sm text-[#697087]">{entries.length} {entries.length === 1 ? 'call' : 'calls'} logged · {calledCount} of {rows.length} students called</p>
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-[#f8f7fb] text-left text-xs text-[#697087]">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 font-bold">Student</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Calls</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Answered</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Passes used</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Not here</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Average mark</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Last called</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Cold call</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#eceef3]">
+                      {rows.map((row) => {
+                        const key = coldCallKey(row.studentNumber);
+                        const isOpen = expanded === key;
+                        return (
+                          <Fragment key={key}>
+                            <tr>
+                              <th scope="row" className="px-4 py-3 text-left font-normal">
+                                <button type="button" onClick={() => setExpanded(isOpen ? '' : key)} disabled={!row.entries.length} aria-expanded={row.entries.length ? isOpen : undefined} className="seminar-focus flex items-center gap-2 rounded text-left disabled:cursor-default">
+                                  <ChevronDown className={`h-4 w-4 shrink-0 text-[#9298a8] transition-transform ${isOpen ? 'rotate-180' : ''} ${row.entries.length ? '' : 'invisible'}`} />
+                                  <span><strong className="block text-[#101a38]">{row.name}</strong><span className="text-xs text-[#697087]">{row.studentNumber}{row.onRoster ? '' : ' · Not on roster'}</span></span>
+                                </button>
+                              </th>
+                              <td className="px-3 py-3 font-bold text-[#101a38]">{row.summary.calls}</td>
+                              <td className="px-3 py-3">{row.summary.answered}</td>
+                              <td className="px-3 py-3">{row.summary.passed}</td>
+                              <td className="px-3 py-3">{row.summary.absent}</td>
+                              <td className="px-3 py-3">{row.summary.averageQuality === null ? '—' : `${row.summary.averageQuality} / 3`}</td>
+                              <td className="px-3 py-3 text-[#697087]">{row.summary.lastCalledAt ? dateFormat.format(new Date(row.summary.lastCalledAt)) : '—'}</td>
+                              <td className="px-3 py-3">
+                                <label className={`inline-flex items-center gap-2 text-xs font-semibold ${row.optedOut ? 'text-[#b6533f]' : 'text-[#26743c]'}`}>
+                                  <input type="checkbox" checked={!row.optedOut} disabled={!canEdit || savingKey === key} onChange={(event) => toggleOptOut(row.studentNumber, !event.target.checked)} className="h-4 w-4 accent-[#5146e5]" />
+                                  {row.optedOut ? 'Opted out' : 'Included'}
+                                </label>
+                              </td>
+                            </tr>
+                            {isOpen && (
+                              <tr className="bg-[#fbfbfd]">
+                                <td colSpan={8} className="px-4 pb-4 pt-1">
+                                  <ol className="grid gap-1.5 pl-6">
+                                    {row.entries.map((entry) => (
+                                      <li key={entry.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-[#4f576d]">
+                                        <span className="w-16 text-[#697087]">{entry.calledAt ? dateFormat.format(entry.calledAt.toDate()) : '—'}</span>
+                                        <span className="min-w-40 flex-1 truncate">{sessionTitles[entry.sessionId] || 'Live session'}</span>
+                                        <strong className="w-24 text-[#101a38]">{outcomeLabel(entry)}</strong>
+                                        {canEdit && <button type="button" onClick={() => setCallToDelete(entry)} className="seminar-focus rounded-lg p-1.5 text-[#9aa0b1] hover:bg-[#fff1ee] hover:text-[#b64936]" aria-label={`Remove the ${outcomeLabel(entry).toLowerCase()} call`}><Trash2 className="h-3.5 w-3.5" /></button>}
+                                      </li>
+                                    ))}
+                                  </ol>
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+
+              <Dialog
+                isOpen={Boolean(callToDelete)}
+                onClose={() => setCallToDelete(null)}
+                onConfirm={confirmDeleteCall}
+                title="Remove this call?"
+                message={callToDelete?.outcome === 'passed' ? 'The call leaves the history and the fairness count. The pass the student spent stays used.' : 'The call leaves the history and no longer counts toward how often this student has been called.'}
+                confirmText="Remove call"
+                variant="destructive"
+              />
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { Fragment, use, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  getAccessibleSessions,
+  getCourse,
+  getCourseInstructorRole,
+  getStudentsByIds,
+  saveContributionRates,
+} from '@/lib/firebase/firestore';
+import { deleteContributionMark, getContributionMarks } from '@/lib/firebase/contribution-marks';
+import {
+  CONTRIBUTION_MARK_LABELS,
+  buildContributionRows,
+  contributionKey,
+  contributionRate,
+  defaultContributionTarget,
+  exportContributionCsv,
+  toContributionGrades,
+} from '@/lib/contribution-marks';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { ContributionMark, Course, Session, Student } from '@/types';
+import { ArrowLeft, Award, ChevronDown, Download, Trash2, UploadCloud } from 'lucide-react';
+
+interface ContributionsPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default function ContributionsPage({ params }: ContributionsPageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [marks, setMarks] = useState<ContributionMark[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionFilter, setSessionFilter] = useState('');
+  const [fullCredit, setFullCredit] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+  const [expanded, setExpanded] = useState('');
+  const [markToDelete, setMarkToDelete] = useState<ContributionMark | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    const loadMarks = async () => {
+      try {
+        const courseData = await getCourse(id);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const [role, studentData, markData, sessionData] = await Promise.all([
+          getCourseInstructorRole(user.uid, courseData),
+          getStudentsByIds(courseData.studentIds || []),
+          getContributionMarks(courseData.id),
+          getAccessibleSessions(user.uid),
+        ]);
+        setCourse(courseData);
+        setStudents(studentData);
+        setMarks(markData);
+        setSessions(sessionData.filter((session) => markData.some((mark) => mark.sessionId === session.id)));
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+      } catch (loadError) {
+        console.error('Contribution marks could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The contribution marks could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadMarks();
+  }, [id, user]);
+
+  const sessionTitles = useMemo(() => Object.fromEntries(sessions.map((session) => [session.id, session.title || 'Live session'])), [sessions]);
+  const sessionOptions = useMemo(() => [...sessions].sort((a, b) => (
+    ((b.startedAt || b.createdAt)?.toMillis?.() || 0) - ((a.startedAt || a.createdAt)?.toMillis?.() || 0)
+  )), [sessions]);
+  // The grade is always the whole term; the session filter only narrows what is on screen.
+  const termRows = useMemo(() => buildContributionRows(students, marks), [marks, students]);
+  const rows = useMemo(
+    () => sessionFilter ? buildContributionRows(students, marks.filter((mark) => mark.sessionId === sessionFilter)) : termRows,
+    [marks, sessionFilter, students, termRows],
+  );
+  const suggestedTarget = defaultContributionTarget(termRows);
+  const parsedTarget = Math.floor(Number(fullCredit));
+  const target = fullCredit.trim() && Number.isFinite(parsedTarget) && parsedTarget > 0 ? parsedTarget : suggestedTarget;
+  const shownMarks = sessionFilter ? marks.filter((mark) => mark.sessionId === sessionFilter).length : marks.length;
+  const markedCount = rows.filter((row) => row.summary.marks > 0).length;
+
+  const sendToGradebook = async () => {
+    if (!course) return;
+    setSyncing(true);
+    setNotice('');
+    setError('');
+    try {
+      const grades = toContributionGrades(termRows, target);
+      await saveContributionRates(course.id, grades);
+      setNotice(`Contribution rates saved for ${grades.length} ${grades.length === 1 ? 'student' : 'students'}, with ${target} ${target === 1 ? 'point' : 'points'} for full credit. The gradebook counts them toward participation alongside attendance.`);
+    } catch (syncError) {
+      console.error('Contribution rates could not be saved:', syncError);
+      setError(getUserFacingError(syncError, 'Contribution rates were not saved to the gradebook. Try again.'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const confirmDeleteMark = async () => {
+    if (!course || !markToDelete) return;
+    try {
+      await deleteContributionMark(course.id, markToDelete.id);
+      setMarks((current) => current.filter((mark) => mark.id !== markToDelete.id));
+    } catch (deleteError) {
+      console.error('Contribution mark could not be removed:', deleteError);
+      setError(getUserFacingError(deleteError, 'The mark was not removed. Try again.'));
+    } finally {
+      setMarkToDelete(null);
+    }
+  };
+
+  const downloadExport = () => {
+    if (!course) return;
+    const url = URL.createObjectURL(new Blob([exportContributionCsv(rows, target)], { type: 'text/csv;charset=utf-8' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `${course.code}-contributions.csv`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const dateFormat = new Intl.DateTimeFormat('en', { month: 'short', day: 'numeric' });
+  const timeFormat = new Intl.DateTimeFormat('en', { hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-[1400px] p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading contributions"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="These marks are not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="flex flex-col gap-5 border-b border-[#e3e5ed] pb-8 lg:flex-row lg:items-end lg:justify-between">
+                <div className="max-w-3xl">
+                  <p className="seminar-eyebrow mb-3">{course.code} contributions</p>
+                  <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                  <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">
+                    Marks you give from the live console or the remote during discussion. {CONTRIBUTION_MARK_LABELS[3]} earns 3 points, {CONTRIBUTION_MARK_LABELS[2].toLowerCase()} 2 and {CONTRIBUTION_MARK_LABELS[1].toLowerCase()} 1.
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {canEdit && <Button onClick={sendToGradebook} loading={syncing} disabled={!termRows.some((row) => row.studentDocId) || target <= 0} title="Save each student's contribution rate to the gradebook, where it counts toward participation" className="gap-2"><UploadCloud className="h-4 w-4" /> Send to gradebook</Button>}
+                  <Button variant="outline" onClick={downloadExport} disabled={!rows.length} className="gap-2"><Download className="h-4 w-4" /> CSV</Button>
+                </div>
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="That change did not stick yet." message={error} />}
+              {notice && <InlineMessage className="mt-6" tone="info" title="Participation updated." message={notice} />}
+
+              {!rows.length ? (
+                <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white px-6 py-14 text-center">
+                  <Award className="mx-auto h-9 w-9 text-[#9298a8]" />
+                  <h2 className="seminar-display mt-4 text-3xl text-[#101a38]">No students on the roster yet.</h2>
+                  <p className="mx-auto mt-2 max-w-md text-sm leading-6 text-[#697087]">Import a class list from the Roster page, then open Contributions in the live console to mark the discussion.</p>
+                </section>
+              ) : (
+                <>
+                  <div className="mt-8 flex flex-col gap-3 sm:flex-row sm:items-end">
+                    <label className="block text-sm font-bold text-[#313950]">Showing
+                      <select value={sessionFilter} onChange={(event) => { setSessionFilter(event.target.value); setExpanded(''); }} className="mt-1 block w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal sm:w-72">
+                        <option value="">The whole term</option>
+                        {sessionOptions.map((session) => <option key={session.id} value={session.id}>{dateFormat.format((session.startedAt || session.createdAt).toDate())} · {sessionTitles[session.id]}</option>)}
+                      </select>
+                    </label>
+                    <label className="block text-sm font-bold text-[#313950]">Points for full credit
+                      <input type="number" min="1" value={fullCredit} onChange={(event) => setFullCredit(event.target.value)} placeholder={suggestedTarget ? String(suggestedTarget) : 'No marks yet'} className="mt-1 block w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal sm:w-48" />
+                    </label>
+                    <p className="text-xs leading-5 text-[#697087] sm:max-w-sm">Left blank, the student with the most points this term sets full credit. Students without marks get 0% participation.</p>
+                  </div>
+
+                  <section className="mt-5 overflow-x-auto rounded-3xl border border-[#e1e3ec] bg-white" aria-label="Contribution marks">
+                    <p className="border-b border-[#eceef3] px-4 py-3 text-sm text-[#697087]">{shownMarks} {shownMarks === 1 ? 'mark' : 'marks'} · {markedCount} of {rows.length} students marked{sessionFilter ? ' in this class' : ''}</p>
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-[#f8f7fb] text-left text-xs text-[#697087]">
+                        <tr>
+                          <th scope="col" className="px-4 py-3 font-bold">Student</th>
+                          <th scope="col" className="px-3 py-3 font-bold">Marks</th>
+                          {([3, 2, 1] as const).map((level) => <th key={level} scope="col" className="px-3 py-3 font-bold">{CONTRIBUTION_MARK_LABELS[level]}</th>)}
+                          <th scope="col" className="px-3 py-3 font-bold">Points</th>
+                          <th scope="col" className="px-3 py-3 font-bold">Average mark</th>
+                          <th scope="col" className="px-3 py-3 font-bold">{sessionFilter ? 'Term participation' : 'Participation'}</th>
+                          <th scope="col" className="px-3 py-3 font-bold">Last marked</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-[#eceef3]">
+                        {rows.map((row) => {
+                          const key = contributionKey(row.studentNumber);
+                          const isOpen = expanded === key;
+                          const termPoints = termRows.find((termRow) => contributionKey(termRow.studentNumber) === key)?.summary.points || 0;
+                          const rate = row.studentDocId ? contributionRate(termPoints, target) : null;
+                          return (
+                            <Fragment key={key}>
+                              <tr>
+                                <th scope="row" className="px-4 py-3 text-left font-normal">
+                                  <button type="button" onClick={() => setExpanded(isOpen ? '' : key)} disabled={!row.entries.length} aria-expanded={row.entries.length ? isOpen : undefined} className="seminar-focus flex items-center gap-2 rounded text-left disabled:cursor-default">
+                                    <ChevronDown className={`h-4 w-4 shrink-0 text-[#9298a8] transition-transform ${isOpen ? 'rotate-180' : ''} ${row.entries.length ? '' : 'invisible'}`} />
+                                    <span><strong className="block text-[#101a38]">{row.name}</strong><span className="text-xs text-[#697087]">{row.studentNumber}{row.studentDocId ? '' : ' · Not on roster'}</span></span>
+                                  </button>
+                                </th>
+                                <td className="px-3 py-3 font-bold text-[#101a38]">{row.summary.marks}</td>
+                                {([3, 2, 1] as const).map((level) => <td key={level} className="px-3 py-3">{row.summary.levels[level]}</td>)}
+                                <td className="px-3 py-3">{row.summary.points}</td>
+                                <td className="px-3 py-3">{row.summary.averageMark === null ? '—' : `${row.summary.averageMark} / 3`}</td>
+                                <td className="px-3 py-3">{rate === null ? '—' : `${rate}%`}</td>
+                                <td className="px-3 py-3 text-[#697087]">{row.summary.lastMarkedAt ? dateFormat.format(new Date(row.summary.lastMarkedAt)) : '—'}</td>
+                              </tr>
+                              {isOpen && (
+                                <tr className="bg-[#fbfbfd]">
+                                  <td colSpan={9} className="px-4 pb-4 pt-1">
+                                    <ol className="grid gap-1.5 pl-6">
+                                      {row.entries.map((mark) => (
+                                        <li key={mark.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-[#4f576d]">
+                                          <span className="w-28 text-[#697087]">{mark.markedAt ? `${dateFormat.format(mark.markedAt.toDate())}, ${timeFormat.format(mark.markedAt.toDate())}` : '—'}</span>
+                                          <span className="min-w-40 flex-1 truncate">{sessionTitles[mark.sessionId] || 'Live session'}{mark.interactionTitle ? ` · ${mark.interactionTitle}` : ''}</span>
+                                          <strong className="w-24 text-[#101a38]">{CONTRIBUTION_MARK_LABELS[mark.mark]}</strong>
+                                          {canEdit && <button type="button" onClick={() => setMarkToDelete(mark)} className="seminar-focus rounded-lg p-1.5 text-[#9aa0b1] hover:bg-[#fff1ee] hover:text-[#b64936]" aria-label={`Remove the ${CONTRIBUTION_MARK_LABELS[mark.mark].toLowerCase()} mark`}><Trash2 className="h-3.5 w-3.5" /></button>}
+                                        </li>
+                                      ))}
+                                    </ol>
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </section>
+                </>
+              )}
+
+              <Dialog
+                isOpen={Boolean(markToDelete)}
+                onClose={() => setMarkToDelete(null)}
+                onConfirm={confirmDeleteMark}
+                title="Remove this mark?"
+                message="The mark leaves the student's record. Send to gradebook again to update their participation rate."
+                confirmText="Remove mark"
+                variant="destructive"
+              />
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,378 @@
+'use client';
+
+import { use, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  getAccessibleSessions,
+  getCaseStudy,
+  getCourse,
+  getCourseInstructorRole,
+  getResponsesBySession,
+  getStudentGrades,
+  getStudentsByIds,
+  updateCourse,
+  updateStudentGrade,
+} from '@/lib/firebase/firestore';
+import { syncLtiGrades } from '@/lib/firebase/lti';
+import { orderCourseSessions } from '@/lib/course-session-order';
+import {
+  buildGradebook,
+  DEFAULT_LATE_PENALTY_PERCENT,
+  getFinalPercentage,
+  gradebookOverrideKey,
+  toStudentGradeRecord,
+  type GradebookCell,
+  type GradebookCellStatus,
+  type GradebookStudent,
+} from '@/lib/gradebook';
+import { exportGradebookCsv, GRADEBOOK_EXPORT_FORMATS, type GradebookExportFormat } from '@/lib/gradebook-export';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { CaseStudy, Course, CourseGradebookSettings, GradebookOverrideStatus, Response, Session, StudentGrade } from '@/types';
+import { ArrowLeft, Download, Save, SlidersHorizontal, Table2, UploadCloud } from 'lucide-react';
+
+interface GradebookPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const statusTone: Record<GradebookCellStatus, string> = {
+  graded: 'text-[#101a38]',
+  pending: 'text-[#8d6200]',
+  missing: 'text-[#b6533f]',
+  late: 'text-[#5146e5]',
+  excused: 'text-[#9298a8]',
+};
+
+type EditingCell = { student: GradebookStudent; sessionId: string; title: string; cell: GradebookCell };
+
+export default function GradebookPage({ params }: GradebookPageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [caseStudies, setCaseStudies] = useState<Record<string, CaseStudy>>({});
+  const [students, setStudents] = useState<GradebookStudent[]>([]);
+  const [responses, setResponses] = useState<Response[]>([]);
+  const [grades, setGrades] = useState<StudentGrade[]>([]);
+  const [settings, setSettings] = useState<CourseGradebookSettings>({});
+  const [canEdit, setCanEdit] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  const [overrideStatus, setOverrideStatus] = useState<GradebookOverrideStatus | 'none'>('none');
+  const [overridePenalty, setOverridePenalty] = useState('');
+  const [overrideNote, setOverrideNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [syncNotice, setSyncNotice] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    const loadGradebook = async () => {
+      try {
+        const [courseData, sessionData] = await Promise.all([getCourse(id), getAccessibleSessions(user.uid)]);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const courseSessions = orderCourseSessions(
+          sessionData.filter((session) => session.courseId === id || (!session.courseId && session.courseCode === courseData.code)),
+          courseData.sessionOrder,
+        );
+        const caseStudyIds = Array.from(new Set(courseSessions.flatMap((session) => session.caseStudyId ? [session.caseStudyId] : [])));
+        const [role, responseLists, caseStudyList, gradeData] = await Promise.all([
+          getCourseInstructorRole(user.uid, courseData),
+          Promise.all(courseSessions.map((session) => getResponsesBySession(session.id))),
+          Promise.all(caseStudyIds.map((caseStudyId) => getCaseStudy(caseStudyId).catch(() => null))),
+          getStudentGrades(courseData.id).catch((gradeError) => {
+            console.warn('Grade records could not be loaded; bonuses are left out:', gradeError);
+            return [] as StudentGrade[];
+          }),
+        ]);
+        const responseData = responseLists.flat();
+        const studentData = await getStudentsByIds(Array.from(new Set([...(courseData.studentIds || []), ...responseData.map((response) => response.studentId)])));
+
+        setCourse(courseData);
+        setSettings(courseData.gradebook || {});
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+        setSessions(courseSessions);
+        setResponses(responseData);
+        setGrades(gradeData);
+        setCaseStudies(Object.fromEntries(caseStudyList.flatMap((caseStudy) => caseStudy ? [[caseStudy.id, caseStudy]] : [])));
+        setStudents(Array.from(new Map(studentData.map((student) => [student.id, student])).values()));
+      } catch (loadError) {
+        console.error('Gradebook could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The gradebook could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadGradebook();
+  }, [id, user]);
+
+  const gradebook = useMemo(
+    () => buildGradebook({ sessions, caseStudies, students, responses, grades, settings }),
+    [caseStudies, grades, responses, sessions, settings, students],
+  );
+
+  const saveSettings = async (next: CourseGradebookSettings) => {
+    if (!course) return;
+    setSaving(true);
+    setError('');
+    try {
+      await updateCourse(course.id, { gradebook: next });
+      setSettings(next);
+    } catch (saveError) {
+      console.error('Gradebook settings could not be saved:', saveError);
+      setError(getUserFacingError(saveError, 'The gradebook change was not saved. Try again.'));
+      throw saveError;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openOverride = (student: GradebookStudent, sessionId: string, title: string, cell: GradebookCell) => {
+    if (!canEdit) return;
+    setEditing({ student, sessionId, title, cell });
+    setOverrideStatus(cell.override?.status || 'none');
+    setOverridePenalty(cell.override?.latePenaltyPercent === undefined ? '' : String(cell.override.latePenaltyPercent));
+    setOverrideNote(cell.override?.note || '');
+  };
+
+  const saveOverride = async () => {
+    if (!editing || !user) return;
+    const key = gradebookOverrideKey(editing.student.id, editing.sessionId);
+    const overrides = { ...(settings.overrides || {}) };
+    if (overrideStatus === 'none') {
+      delete overrides[key];
+    } else {
+      const penalty = Number(overridePenalty);
+      overrides[key] = {
+        status: overrideStatus,
+        ...(overrideStatus === 'late' && overridePenalty.trim() && Number.isFinite(penalty) ? { latePenaltyPercent: Math.min(100, Math.max(0, penalty)) } : {}),
+        ...(overrideNote.trim() ? { note: overrideNote.trim() } : {}),
+        updatedBy: user.uid,
+        updatedAt: Timestamp.now(),
+      };
+    }
+    await saveSettings({ ...settings, overrides });
+    setEditing(null);
+  };
+
+  const sendToLms = async () => {
+    if (!course) return;
+    setSyncing(true);
+    setSyncNotice('');
+    setError('');
+    try {
+      const existing = new Map(grades.map((grade) => [grade.studentId, grade]));
+      // Passback reads StudentGrade totals, so the records are brought up to date with this view first.
+      await Promise.all(gradebook.rows.map((row) => updateStudentGrade(toStudentGradeRecord(row, course.id, sessions, existing.get(row.student.id)))));
+      const result = await syncLtiGrades(course.id);
+      setGrades(await getStudentGrades(course.id));
+      const skipped = result.skipped ? ` ${result.skipped} ${result.skipped === 1 ? 'student has' : 'students have'} not launched from the LMS yet.` : '';
+      const failed = result.failed ? ` ${result.failed} could not be posted; try again shortly.` : '';
+      setSyncNotice(`Sent ${result.posted} ${result.posted === 1 ? 'grade' : 'grades'} to ${course.lti?.contextTitle || 'the LMS'}.${skipped}${failed}`);
+    } catch (syncError) {
+      console.error('Grades could not be sent to the LMS:', syncError);
+      setError(getUserFacingError(syncError, 'Grades were not sent to the LMS. Try again.'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const downloadExport = (format: GradebookExportFormat) => {
+    if (!course) return;
+    const url = URL.createObjectURL(new Blob([exportGradebookCsv(gradebook, format)], { type: 'text/csv;charset=utf-8' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `${course.code}-gradebook-${format}.csv`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-[1600px] p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading gradebook"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="This gradebook is not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="flex flex-col gap-5 border-b border-[#e3e5ed] pb-8 lg:flex-row lg:items-end lg:justify-between">
+                <div className="max-w-3xl">
+                  <p className="seminar-eyebrow mb-3">{course.code} gradebook</p>
+                  <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                  <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">One column per graded session, with achievement bonus and the weighted course total. Select a score to mark it late or excused.</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {canEdit && <Button variant="outline" onClick={() => setSettingsOpen((open) => !open)} className="gap-2"><SlidersHorizontal className="h-4 w-4" /> Weighting</Button>}
+                  {canEdit && course.lti && <Button onClick={sendToLms} loading={syncing} disabled={!gradebook.rows.length} title={`Post course totals to ${course.lti.contextTitle}`} className="gap-2"><UploadCloud className="h-4 w-4" /> Send to LMS</Button>}
+                  {GRADEBOOK_EXPORT_FORMATS.map((format) => (
+                    <Button key={format.id} variant="outline" onClick={() => downloadExport(format.id)} disabled={!gradebook.rows.length} title={format.description} className="gap-2"><Download className="h-4 w-4" /> {format.label}</Button>
+                  ))}
+                </div>
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="That change did not stick yet." message={error} />}
+              {syncNotice && <InlineMessage className="mt-6" tone="info" title="Grades sent." message={syncNotice} />}
+
+              {settingsOpen && canEdit && <GradebookSettingsPanel settings={settings} columns={gradebook.columns} saving={saving} onSave={(next) => saveSettings(next).then(() => setSettingsOpen(false)).catch(() => undefined)} />}
+
+              {gradebook.columns.length === 0 ? (
+                <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white px-6 py-14 text-center">
+                  <Table2 className="mx-auto h-9 w-9 text-[#9298a8]" />
+                  <h2 className="seminar-display mt-4 text-3xl text-[#101a38]">No graded sessions yet.</h2>
+                  <p className="mx-auto mt-2 max-w-md text-sm leading-6 text-[#697087]">Sessions appear here once they run a case study with points available.</p>
+                </section>
+              ) : (
+                <section className="mt-8 overflow-x-auto rounded-3xl border border-[#e1e3ec] bg-white" aria-label="Gradebook">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-[#f8f7fb] text-left text-xs text-[#697087]">
+                      <tr>
+                        <th scope="col" className="sticky left-0 bg-[#f8f7fb] px-4 py-3 font-bold">Student</th>
+                        {gradebook.columns.map((column) => (
+                          <th key={column.sessionId} scope="col" className="min-w-[120px] px-3 py-3 font-bold">
+                            <span className="block truncate text-[#101a38]">{column.title}</span>
+                            <span className="font-normal">{column.maxPoints} pts{column.weight !== 1 ? ` · weight ${column.weight}` : ''}</span>
+                          </th>
+                        ))}
+                        <th scope="col" className="px-3 py-3 font-bold">Participation</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Bonus</th>
+                        <th scope="col" className="px-3 py-3 font-bold">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#eceef3]">
+                      {gradebook.rows.map((row) => {
+                        const final = getFinalPercentage(row);
+                        return (
+                          <tr key={row.student.id}>
+                            <th scope="row" className="sticky left-0 bg-white px-4 py-3 text-left font-normal">
+                              <strong className="block text-[#101a38]">{row.student.name}</strong>
+                              <span className="text-xs text-[#697087]">{row.student.studentId}</span>
+                            </th>
+                            {gradebook.columns.map((column) => {
+                              const cell = row.cells[column.sessionId];
+                              return (
+                                <td key={column.sessionId} className="px-3 py-3">
+                                  <button type="button" disabled={!canEdit} onClick={() => openOverride(row.student, column.sessionId, column.title, cell)} title={cell.override?.note} className={`seminar-focus rounded-lg px-1.5 py-0.5 text-left enabled:hover:bg-[#f0efff] ${statusTone[cell.status]}`}>
+                                    {cell.status === 'excused' ? 'Excused' : `${cell.points ?? 0}/${cell.maxPoints}`}
+                                    {(cell.status === 'late' || cell.status === 'missing' || cell.status === 'pending') && <span className="block text-[10px] font-bold uppercase tracking-[0.06em]">{cell.status === 'pending' ? 'Needs grading' : cell.status}</span>}
+                                  </button>
+                                </td>
+                              );
+                            })}
+                            <td className="px-3 py-3 text-[#313950]">
+                              {row.participationRate === null ? '—' : `${row.participationRate}%`}
+                              {row.attendanceRate !== null && row.contributionRate !== null && <span className="block text-xs text-[#697087]">Attendance {row.attendanceRate}% · contribution {row.contributionRate}%</span>}
+                            </td>
+                            <td className="px-3 py-3 text-[#313950]">{row.bonusPoints ? `+${row.bonusPoints}` : '—'}</td>
+                            <td className="px-3 py-3"><strong className="text-[#101a38]">{final === null ? '—' : `${final}%`}</strong><span className="block text-xs text-[#697087]">{row.totalPoints}/{row.maxPoints} pts</span></td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+
+              <Dialog
+                isOpen={Boolean(editing)}
+                onClose={() => setEditing(null)}
+                onConfirm={saveOverride}
+                title={editing ? `${editing.student.name} · ${editing.title}` : ''}
+                message={editing ? `Recorded score: ${editing.cell.rawPoints ?? 0}/${editing.cell.maxPoints}. Late work keeps the score minus the penalty. Excused work is left out of the total.` : ''}
+                confirmText="Save"
+              >
+                <div className="space-y-4">
+                  <fieldset className="flex flex-wrap gap-2">
+                    <legend className="sr-only">Override</legend>
+                    {([['none', 'As recorded'], ['late', 'Late'], ['excused', 'Excused']] as const).map(([value, label]) => (
+                      <button key={value} type="button" onClick={() => setOverrideStatus(value)} aria-pressed={overrideStatus === value} className={`rounded-full border px-4 py-2 text-sm font-bold ${overrideStatus === value ? 'border-[#5146e5] bg-[#f0efff] text-[#5146e5]' : 'border-[#e3e5ed] text-[#697087]'}`}>{label}</button>
+                    ))}
+                  </fieldset>
+                  {overrideStatus === 'late' && (
+                    <label className="block text-sm font-bold text-[#313950]">
+                      Late penalty (%)
+                      <input type="number" min="0" max="100" value={overridePenalty} onChange={(event) => setOverridePenalty(event.target.value)} placeholder={String(settings.latePenaltyPercent ?? DEFAULT_LATE_PENALTY_PERCENT)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" />
+                    </label>
+                  )}
+                  {overrideStatus !== 'none' && (
+                    <label className="block text-sm font-bold text-[#313950]">
+                      Note
+                      <input value={overrideNote} onChange={(event) => setOverrideNote(event.target.value.slice(0, 200))} placeholder="Optional, for example the reason" className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" />
+                    </label>
+                  )}
+                </div>
+              </Dialog>
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
+
+function GradebookSettingsPanel({
+  settings,
+  columns,
+  saving,
+  onSave,
+}: {
+  settings: CourseGradebookSettings;
+  columns: Array<{ sessionId: string; title: string; weight: number }>;
+  saving: boolean;
+  onSave: (settings: CourseGradebookSettings) => void;
+}) {
+  const [weights, setWeights] = useState<Record<string, string>>(() => Object.fromEntries(columns.map((column) => [column.sessionId, String(column.weight)])));
+  const [participationWeight, setParticipationWeight] = useState(String(settings.participationWeight ?? 0));
+  const [latePenalty, setLatePenalty] = useState(String(settings.latePenaltyPercent ?? DEFAULT_LATE_PENALTY_PERCENT));
+  const [includeBonus, setIncludeBonus] = useState(settings.includeAchievementBonus ?? true);
+
+  const toNumber = (value: string, fallback: number, max = Number.POSITIVE_INFINITY) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && value.trim() ? Math.min(max, Math.max(0, parsed)) : fallback;
+  };
+
+  const save = () => onSave({
+    ...settings,
+    sessionWeights: Object.fromEntries(columns.map((column) => [column.sessionId, toNumber(weights[column.sessionId] || '', 1)])),
+    participationWeight: toNumber(participationWeight, 0, 100),
+    latePenaltyPercent: toNumber(latePenalty, DEFAULT_LATE_PENALTY_PERCENT, 100),
+    includeAchievementBonus: includeBonus,
+  });
+
+  return (
+    <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-5 sm:p-7" aria-labelledby="gradebook-weighting-heading">
+      <p className="seminar-eyebrow">Weighting</p>
+      <h2 id="gradebook-weighting-heading" className="seminar-display mt-2 text-2xl text-[#101a38]">How the course total is calculated.</h2>
+      <p className="mt-2 max-w-2xl text-sm leading-6 text-[#697087]">Each session counts by its percentage score times its weight. Participation takes a fixed share of the total, averaging attendance and contribution rates when both have been sent, and achievement bonus points are added on top.</p>
+      <div className="mt-5 grid gap-4 sm:grid-cols-3">
+        <label className="block text-sm font-bold text-[#313950]">Participation share (%)<input type="number" min="0" max="100" value={participationWeight} onChange={(event) => setParticipationWeight(event.target.value)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" /></label>
+        <label className="block text-sm font-bold text-[#313950]">Default late penalty (%)<input type="number" min="0" max="100" value={latePenalty} onChange={(event) => setLatePenalty(event.target.value)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" /></label>
+        <label className="flex items-center gap-2 self-end text-sm font-bold text-[#313950]"><input type="checkbox" checked={includeBonus} onChange={(event) => setIncludeBonus(event.target.checked)} />Add achievement bonus</label>
+      </div>
+      {columns.length > 0 && (
+        <div className="mt-5 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {columns.map((column) => (
+            <label key={column.sessionId} className="block text-xs font-bold text-[#313950]">
+              <span className="block truncate">{column.title}</span>
+              <input type="number" min="0" step="0.5" value={weights[column.sessionId] ?? '1'} onChange={(event) => setWeights((current) => ({ ...current, [column.sessionId]: event.target.value }))} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 text-sm font-normal" />
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="mt-5 flex justify-end"><Button onClick={save} loading={saving} className="gap-2"><Save className="h-4 w-4" /> Save weighting</Button></div>
+    </section>
+  );
+}
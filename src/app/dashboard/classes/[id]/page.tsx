@@ -10,26 +10,33 @@ import { deleteInstructorClassroomData } from '@/lib/firebase/live-classroom';
 import { TEAM_COLORS, addInstructorTeamMember, createInstructorCourseTeam, deleteInstructorCourseTeam, ensureTeamModule, normalizeTeamName, normalizeTeamStudentNumber, removeInstructorTeamMember, subscribeInstructorTeamRoster, updateInstructorCourseTeam, type CourseTeamWithMembers, type TeamColorId } from '@/lib/firebase/course-teams';
 import { COURSE_SOURCE_KINDS, MAX_COURSE_SOURCES, MAX_COURSE_SOURCE_CHARS, courseSourceWordCount, removeCourseSource, upsertCourseSource } from '@/lib/course-sources';
 import { orderCourseSessions, placeCourseSession } from '@/lib/course-session-order';
+import { DEFAULT_MATRIX_AXES, DEFAULT_SCALE_LABELS, STRUCTURED_TYPE_HINTS, isStructuredInteractionType } from '@/lib/structured-interactions';
+import { DEFAULT_DEBATE_SIDES } from '@/lib/debate';
 import { getUserFacingError } from '@/lib/user-facing-error';
+import { DEFAULT_PULSE_MINIMUM, MAX_PULSE_MINIMUM, clampPulseMinimum } from '@/lib/wellbeing-pulse';
 import { auth } from '@/lib/firebase/config';
 import { Timestamp } from 'firebase/firestore';
 import ProtectedRoute from '@/components/teacher/ProtectedRoute';
 import DashboardLayout from '@/components/teacher/DashboardLayout';
+import HotspotEditor from '@/components/teacher/HotspotEditor';
 import Button from '@/components/ui/Button';
 import Dialog from '@/components/ui/Dialog';
 import InlineMessage from '@/components/ui/InlineMessage';
 import { AmbientLoading } from '@/components/motion';
 import TeachingTeamPanel from '@/components/teacher/TeachingTeamPanel';
-import type { Course, CourseSource, CourseSourceKind, Session, SessionInteraction, SessionInteractionType } from '@/types';
+import type { Course, CourseSource, CourseWellbeingSettings, CourseSourceKind, Session, SessionInteraction, SessionInteractionType } from '@/types';
 import { DndContext, KeyboardSensor, PointerSensor, closestCenter, type DragEndEvent, useSensor, useSensors } from '@dnd-kit/core';
 import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import {
   ArrowLeft,
   ArrowRight,
+  Award,
   Archive,
   ArchiveRestore,
   BarChart3,
+  Calculator,
+  CalendarClock,
   CalendarPlus,
   CalendarSync,
   CalendarDays,
@@ -37,11 +44,18 @@ import {
   CircleHelp,
   Clock3,
   Cloud,
+  Crosshair,
+  ClipboardCheck,
   Copy,
   Dices,
   FileText,
+  Grid2x2,
+  Hand,
   HeartPulse,
   Library,
+  LayoutGrid,
+  ListChecks,
+  ListOrdered,
   LoaderCircle,
   MessageCircle,
   MoreHorizontal,
@@ -51,11 +65,15 @@ import {
   Play,
   Radio,
   Save,
+  Scale,
   ShieldCheck,
+  SlidersHorizontal,
   Sparkles,
+  Table2,
   Repeat2,
   Trash2,
   Upload,
+  UserPlus,
   Users,
   UsersRound,
   ExternalLink,
@@ -79,17 +97,23 @@ const interactionTypes: Array<{
   { type: 'quiz', label: 'Knowledge check', use: 'Catch a misconception while you can address it.', icon: CircleHelp },
   { type: 'open-response', label: 'Short response', use: 'Collect questions, reasoning, or reflection.', icon: MessageCircle },
   { type: 'word-cloud', label: 'Word cloud', use: 'Turn one-word responses into a live view of shared themes.', icon: Cloud },
+  { type: 'ranking', label: 'Ranking', use: 'Have students order options and see the class ranking.', icon: ListOrdered },
+  { type: 'scale', label: 'Agreement scale', use: 'Rate several statements on one Likert scale.', icon: SlidersHorizontal },
+  { type: 'matrix', label: '2×2 matrix', use: 'Place items on two axes, such as effort and impact.', icon: Grid2x2 },
+  { type: 'estimate', label: 'Numeric estimate', use: 'Collect a number, such as a valuation, and show the spread.', icon: Calculator },
+  { type: 'hotspot', label: 'Image hotspot', use: 'Ask students to tap a point on a chart, org chart, or floor plan.', icon: Crosshair },
   { type: 'reflection', label: 'Exit reflection', use: 'Capture what changed and what students will carry forward.', icon: Sparkles },
   { type: 'team-formation', label: 'Form teams now', use: 'Let students create or join named teams during class.', icon: UsersRound },
   { type: 'peer-learning', label: 'Peer learning', use: 'Answer, discuss with a partner, then answer again.', icon: Repeat2 },
+  { type: 'debate', label: 'Debate', use: 'Split the room into two sides, argue, and vote again.', icon: Scale },
   { type: 'group-work', label: 'Group work', use: 'Give groups a shared task and one submission.', icon: UsersRound },
   { type: 'timer', label: 'Clock', use: 'Save a timed thinking or working block.', icon: Clock3 },
   { type: 'spin-wheel', label: 'Spin the wheel', use: 'Choose a student, team, topic, or custom item live.', icon: Dices },
 ];
 
 const interactionTypeGroups: Array<{ label: string; types: SessionInteractionType[] }> = [
-  { label: 'Quick interactions', types: ['pulse', 'poll', 'quiz', 'open-response', 'word-cloud', 'reflection'] },
-  { label: 'Teaching flows', types: ['peer-learning', 'group-work'] },
+  { label: 'Quick interactions', types: ['pulse', 'poll', 'quiz', 'open-response', 'word-cloud', 'ranking', 'scale', 'matrix', 'estimate', 'hotspot', 'reflection'] },
+  { label: 'Teaching flows', types: ['peer-learning', 'debate', 'group-work'] },
   { label: 'Classroom tools', types: ['timer', 'spin-wheel', 'team-formation'] },
 ];
 
@@ -117,10 +141,23 @@ const createTemplate = (type: SessionInteractionType): SessionInteraction => ({
               ? 'Use this time to think, write, or complete the task on screen.'
               : type === 'spin-wheel'
                 ? 'Who or what should go next?'
+              : type === 'ranking'
+                ? 'Put these in order, most important first.'
+              : type === 'scale'
+                ? 'How far do you agree with each statement?'
+              : type === 'matrix'
+                ? 'Where does each item belong?'
+              : type === 'estimate'
+                ? 'What is your best estimate?'
+              : type === 'hotspot'
+                ? 'Tap the part of the exhibit that matters most.'
+              : type === 'debate'
+                ? 'Should the company take the deal? Vote, argue your side, then vote again.'
               : 'What question is still unresolved?',
   plannedTime: 'During class',
   durationMinutes: type === 'group-work' ? 8 : type === 'timer' ? 5 : type === 'open-response' ? 4 : type === 'word-cloud' || type === 'spin-wheel' ? 2 : 3,
-  discussionMinutes: type === 'peer-learning' ? 2 : undefined,
+  discussionMinutes: type === 'peer-learning' ? 2 : type === 'debate' ? 5 : undefined,
+  debateSideSource: type === 'debate' ? 'random' : undefined,
   groupSize: type === 'group-work' ? 4 : undefined,
   teamTags: type === 'team-formation' ? ['Theme 1', 'Theme 2', 'Theme 3'] : undefined,
   requireTeamTag: type === 'team-formation' ? true : undefined,
@@ -128,8 +165,16 @@ const createTemplate = (type: SessionInteractionType): SessionInteraction => ({
     ? ['Still fuzzy', 'Getting there', 'Mostly got it', 'Confident', 'Could explain it']
     : type === 'poll' || type === 'quiz' || type === 'peer-learning'
       ? ['Option 1', 'Option 2', 'Option 3', 'Option 4']
-      : undefined,
+      : type === 'scale'
+        ? ['Statement 1', 'Statement 2', 'Statement 3']
+        : type === 'ranking' || type === 'matrix'
+          ? ['Item 1', 'Item 2', 'Item 3', 'Item 4']
+          : type === 'debate'
+            ? [...DEFAULT_DEBATE_SIDES]
+            : undefined,
   correctOptionIndex: type === 'quiz' || type === 'peer-learning' ? 0 : undefined,
+  scaleLabels: type === 'scale' ? [...DEFAULT_SCALE_LABELS] : undefined,
+  matrixAxes: type === 'matrix' ? { ...DEFAULT_MATRIX_AXES } : undefined,
   wheelSource: type === 'spin-wheel' ? 'students' : undefined,
   wheelItems: type === 'spin-wheel' ? [] : undefined,
   wheelRemoveSelected: type === 'spin-wheel' ? true : undefined,
@@ -173,6 +218,7 @@ export default function ClassWorkspacePage({ params }: ClassWorkspaceProps) {
   const [className, setClassName] = useState('');
   const [classTerm, setClassTerm] = useState('');
   const [courseTagsInput, setCourseTagsInput] = useState('');
+  const [wellbeing, setWellbeing] = useState<CourseWellbeingSettings>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -270,6 +316,7 @@ export default function ClassWorkspacePage({ params }: ClassWorkspaceProps) {
         setClassCode(courseData.code);
         setClassTerm(courseData.term || '');
         setCourseTagsInput((courseData.teamTags || []).join(', '));
+        setWellbeing(courseData.wellbeing || {});
         setSessions(sessionData.filter((session) => session.courseId === id || (!session.courseId && session.courseCode === courseData.code)));
       } catch (loadError) {
         console.error('Could not load class workspace:', loadError);
@@ -603,12 +650,17 @@ export default function ClassWorkspacePage({ params }: ClassWorkspaceProps) {
     if (!course) return;
     setSaving(true);
     setError('');
+    const nextWellbeing: CourseWellbeingSettings = wellbeing.anonymousPulse
+      ? { anonymousPulse: true, minimumResponses: clampPulseMinimum(wellbeing.minimumResponses) }
+      : { anonymousPulse: false };
     try {
       await updateCourse(course.id, {
         interactionTemplates: templates,
         teamTags: courseTagsInput.split(',').map((tag) => tag.trim()).filter(Boolean).slice(0, 8),
+        wellbeing: nextWellbeing,
       });
-      setCourse((current) => current ? { ...current, interactionTemplates: templates, teamTags: courseTagsInput.split(',').map((tag) => tag.trim()).filter(Boolean).slice(0, 8) } : current);
+      setWellbeing(nextWellbeing);
+      setCourse((current) => current ? { ...current, interactionTemplates: templates, teamTags: courseTagsInput.split(',').map((tag) => tag.trim()).filter(Boolean).slice(0, 8), wellbeing: nextWellbeing } : current);
       setSaved(true);
       window.setTimeout(() => setSaved(false), 2400);
     } catch (saveError) {
@@ -807,6 +859,14 @@ export default function ClassWorkspacePage({ params }: ClassWorkspaceProps) {
                 <button type="button" aria-current={workspaceView === 'kit' ? 'page' : undefined} onClick={() => setWorkspaceView('kit')} className={`seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold transition sm:px-4 ${workspaceView === 'kit' ? 'bg-white text-[#101a38] shadow-[0_4px_14px_rgba(16,26,56,0.08)]' : 'text-[#697087] hover:text-[#101a38]'}`}><Library className="h-4 w-4" /> Course kit <span className="hidden rounded-full bg-[#f0efff] px-2 py-0.5 text-[11px] text-[#5146e5] sm:inline">{templates.length}</span></button>
                 <button type="button" aria-current={workspaceView === 'instructors' ? 'page' : undefined} onClick={() => setWorkspaceView('instructors')} className={`seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold transition sm:px-4 ${workspaceView === 'instructors' ? 'bg-white text-[#101a38] shadow-[0_4px_14px_rgba(16,26,56,0.08)]' : 'text-[#697087] hover:text-[#101a38]'}`}><Users className="h-4 w-4" /> Instructors</button>
                 <Link href={`/dashboard/progress?courseId=${course.id}`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><BarChart3 className="h-4 w-4" /> Progress</Link>
+                <Link href={`/dashboard/classes/${course.id}/gradebook`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><Table2 className="h-4 w-4" /> Gradebook</Link>
+                <Link href={`/dashboard/classes/${course.id}/roster`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><UserPlus className="h-4 w-4" /> Roster</Link>
+                <Link href={`/dashboard/classes/${course.id}/attendance`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><ClipboardCheck className="h-4 w-4" /> Attendance</Link>
+                <Link href={`/dashboard/classes/${course.id}/cold-calls`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><Hand className="h-4 w-4" /> Cold calls</Link>
+                <Link href={`/dashboard/classes/${course.id}/contributions`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><Award className="h-4 w-4" /> Contributions</Link>
+                <Link href={`/dashboard/classes/${course.id}/seating`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><LayoutGrid className="h-4 w-4" /> Seating</Link>
+                <Link href={`/dashboard/classes/${course.id}/schedule`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><CalendarClock className="h-4 w-4" /> Schedule</Link>
+                <Link href={`/dashboard/classes/${course.id}/question-bank`} className="seminar-focus flex min-h-11 flex-1 items-center justify-center gap-2 whitespace-nowrap rounded-xl px-3 text-sm font-bold text-[#697087] transition hover:bg-white hover:text-[#101a38] sm:px-4"><ListChecks className="h-4 w-4" /> Question bank</Link>
               </nav>
 
               {workspaceView === 'sessions' ? (
@@ -958,13 +1018,15 @@ export default function ClassWorkspacePage({ params }: ClassWorkspaceProps) {
                                   <span className="shrink-0 rounded-full bg-white px-2.5 py-1 text-[11px] font-bold uppercase tracking-[0.06em] text-[#697087]">{type?.label || template.type}</span>
                                 </div>
                                 <textarea aria-label={`${template.title} prompt`} value={template.prompt} onChange={(event) => updateTemplate(template.id, { prompt: event.target.value })} rows={2} className="mt-3 w-full resize-none rounded-xl border border-[#d7dae5] bg-white px-3.5 py-3 text-sm leading-6 text-[#313950] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" />
-                                {template.options && <div className="mt-4 space-y-2"><p className="text-[11px] font-bold uppercase tracking-[0.07em] text-[#697087]">{template.type === 'quiz' || template.type === 'peer-learning' ? 'Choices and correct answer' : 'Response choices'}</p>{template.options.map((option, optionIndex) => { const hasCorrectAnswer = template.type === 'quiz' || template.type === 'peer-learning'; return <div key={`${template.id}-${optionIndex}`} className="flex items-center gap-2"><input type="radio" name={`correct-${template.id}`} checked={hasCorrectAnswer && template.correctOptionIndex === optionIndex} onChange={() => hasCorrectAnswer && updateTemplate(template.id, { correctOptionIndex: optionIndex })} disabled={!hasCorrectAnswer} className={hasCorrectAnswer ? 'accent-[#5146e5]' : 'invisible'} aria-label={hasCorrectAnswer ? `Mark choice ${optionIndex + 1} correct` : undefined} /><input aria-label={`Choice ${optionIndex + 1}`} value={option} onChange={(event) => updateTemplateOption(template.id, optionIndex, event.target.value)} className="min-h-10 flex-1 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm text-[#313950] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" /><button type="button" onClick={() => removeTemplateOption(template.id, optionIndex)} disabled={template.options!.length <= 2} className="seminar-focus rounded-lg p-2 text-[#8b91a3] hover:bg-[#fff1ee] hover:text-[#b64936] disabled:opacity-25" aria-label={`Remove choice ${optionIndex + 1}`}><X className="h-3.5 w-3.5" /></button></div>; })}{template.options.length < 6 && <button type="button" onClick={() => updateTemplate(template.id, { options: [...template.options!, `Option ${template.options!.length + 1}`] })} className="seminar-focus ml-6 rounded-lg px-2 py-1 text-xs font-bold text-[#5146e5] hover:bg-white"><Plus className="mr-1 inline h-3.5 w-3.5" /> Add choice</button>}</div>}
+                                {template.options && <div className="mt-4 space-y-2"><p className="text-[11px] font-bold uppercase tracking-[0.07em] text-[#697087]">{template.type === 'quiz' || template.type === 'peer-learning' ? 'Choices and correct answer' : template.type === 'debate' ? 'Sides' : isStructuredInteractionType(template.type) ? STRUCTURED_TYPE_HINTS[template.type].itemsLabel : 'Response choices'}</p>{template.options.map((option, optionIndex) => { const hasCorrectAnswer = template.type === 'quiz' || template.type === 'peer-learning'; return <div key={`${template.id}-${optionIndex}`} className="flex items-center gap-2"><input type="radio" name={`correct-${template.id}`} checked={hasCorrectAnswer && template.correctOptionIndex === optionIndex} onChange={() => hasCorrectAnswer && updateTemplate(template.id, { correctOptionIndex: optionIndex })} disabled={!hasCorrectAnswer} className={hasCorrectAnswer ? 'accent-[#5146e5]' : 'invisible'} aria-label={hasCorrectAnswer ? `Mark choice ${optionIndex + 1} correct` : undefined} /><input aria-label={`Choice ${optionIndex + 1}`} value={option} onChange={(event) => updateTemplateOption(template.id, optionIndex, event.target.value)} className="min-h-10 flex-1 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm text-[#313950] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" /><button type="button" onClick={() => removeTemplateOption(template.id, optionIndex)} disabled={template.options!.length <= 2} className="seminar-focus rounded-lg p-2 text-[#8b91a3] hover:bg-[#fff1ee] hover:text-[#b64936] disabled:opacity-25" aria-label={`Remove choice ${optionIndex + 1}`}><X className="h-3.5 w-3.5" /></button></div>; })}{template.options.length < 6 && template.type !== 'debate' && <button type="button" onClick={() => updateTemplate(template.id, { options: [...template.options!, `Option ${template.options!.length + 1}`] })} className="seminar-focus ml-6 rounded-lg px-2 py-1 text-xs font-bold text-[#5146e5] hover:bg-white"><Plus className="mr-1 inline h-3.5 w-3.5" /> Add choice</button>}</div>}
                                 {(template.type === 'quiz' || template.type === 'peer-learning') && <textarea aria-label={`${template.title} answer explanation`} value={template.explanation || ''} onChange={(event) => updateTemplate(template.id, { explanation: event.target.value })} rows={2} placeholder="Explain why the correct answer is right" className="mt-4 w-full resize-none rounded-xl border border-[#d7dae5] bg-white px-3.5 py-3 text-sm leading-6 text-[#313950] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" />}
                                 {template.type === 'quiz' && <div className="mt-4 rounded-xl border border-[#dedaf8] bg-[#f7f6ff] p-3"><label className="flex min-h-10 items-center gap-3 text-xs font-bold text-[#4f576d]"><input type="checkbox" checked={Boolean(template.speedBonusEnabled)} onChange={(event) => updateTemplate(template.id, { speedBonusEnabled: event.target.checked, speedBonusSeconds: event.target.checked ? template.speedBonusSeconds || 40 : undefined, maxSpeedBonusPoints: event.target.checked ? 4 : undefined })} className="h-4 w-4 accent-[#5146e5]" /> Add a speed bonus</label>{template.speedBonusEnabled && <div className="mt-3 flex flex-wrap items-center gap-3 border-t border-[#dedaf8] pt-3"><label className="flex items-center gap-2 text-xs font-semibold text-[#555d73]">Bonus window <input type="number" min={10} max={120} step={5} value={template.speedBonusSeconds || 40} onChange={(event) => updateTemplate(template.id, { speedBonusSeconds: Math.min(120, Math.max(10, Number(event.target.value) || 40)) })} className="w-16 rounded-lg border border-[#d7dae5] bg-white px-2 py-1.5" /> sec</label><span className="text-[11px] font-normal text-[#697087]">8 points for a correct answer, plus up to 4 for speed.</span></div>}</div>}
                                 {template.type === 'peer-learning' && <label className="mt-4 flex items-center gap-3 rounded-xl bg-[#f7f6ff] p-3 text-xs font-bold text-[#555d73]"><Repeat2 className="h-4 w-4 text-[#5146e5]" /> Partner discussion <input type="number" aria-label={`${template.title} discussion minutes`} min={1} max={10} value={template.discussionMinutes || 2} onChange={(event) => updateTemplate(template.id, { discussionMinutes: Number(event.target.value) })} className="ml-auto w-16 rounded-lg border border-[#d7dae5] bg-white px-2 py-1.5" /> min</label>}
                                 {template.type === 'group-work' && <label className="mt-4 flex items-center gap-3 rounded-xl bg-[#fff5f0] p-3 text-xs font-bold text-[#654f48]"><UsersRound className="h-4 w-4 text-[#c85540]" /> Suggested size <input type="number" aria-label={`${template.title} group size`} min={2} max={10} value={template.groupSize || 4} onChange={(event) => updateTemplate(template.id, { groupSize: Number(event.target.value) })} className="ml-auto w-16 rounded-lg border border-[#e4d7d1] bg-white px-2 py-1.5" /> students</label>}
                                 {template.type === 'team-formation' && <label className="mt-4 grid gap-2 rounded-xl bg-[#f7f6ff] p-3 text-xs font-bold text-[#565078]"><span>Course tags <small className="font-normal">Separate with commas</small></span><input defaultValue={(template.teamTags || []).join(', ')} onBlur={(event) => { const teamTags = event.target.value.split(',').map((tag) => tag.trim()).filter(Boolean).slice(0, 8); updateTemplate(template.id, { teamTags, requireTeamTag: teamTags.length > 0 }); }} placeholder="Theme 1, Theme 2, Theme 3" className="rounded-lg border border-[#d7dae5] bg-white px-3 py-2 font-normal" /></label>}
-                                {template.type === 'spin-wheel' && <div className="mt-4 grid gap-3 rounded-xl border border-[#dedaf8] bg-[#f7f6ff] p-3 text-xs font-bold text-[#565078]"><label className="grid gap-2"><span>Choose from</span><select value={template.wheelSource || 'students'} onChange={(event) => updateTemplate(template.id, { wheelSource: event.target.value as NonNullable<SessionInteraction['wheelSource']> })} className="rounded-lg border border-[#d7dae5] bg-white px-3 py-2 font-normal text-[#313950]"><option value="students">Students who joined</option><option value="teams">Teams created in class</option><option value="custom">A custom list</option></select></label>{template.wheelSource === 'custom' ? <label className="grid gap-2"><span>Items <small className="font-normal">One per line</small></span><textarea value={(template.wheelItems || []).join('\n')} onChange={(event) => updateTemplate(template.id, { wheelItems: event.target.value.split('\n').map((item) => item.trim()).filter(Boolean).slice(0, 40) })} rows={5} placeholder={'Topic A\nTopic B\nTopic C'} className="rounded-lg border border-[#d7dae5] bg-white px-3 py-2 font-normal leading-5 text-[#313950]" /></label> : <p className="font-normal leading-5 text-[#697087]">{template.wheelSource === 'teams' ? 'The wheel uses the current team list when you launch it.' : 'The wheel uses the live attendance list. Student display names will appear on the classroom screen.'}</p>}<label className="flex items-center gap-2 font-semibold"><input type="checkbox" checked={template.wheelRemoveSelected !== false} onChange={(event) => updateTemplate(template.id, { wheelRemoveSelected: event.target.checked })} className="accent-[#5146e5]" /> Remove each selection before the next spin</label></div>}
+                                {template.type === 'debate' && <div className="mt-4 grid gap-3 rounded-xl bg-[#f7f6ff] p-3 text-xs font-bold text-[#555d73] sm:grid-cols-2"><label className="grid gap-1.5">Assign sides <select aria-label={`${template.title} side assignment`} value={template.debateSideSource || 'random'} onChange={(event) => updateTemplate(template.id, { debateSideSource: event.target.value as NonNullable<SessionInteraction['debateSideSource']> })} className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]"><option value="random">At random</option><option value="teams">By course team</option></select></label><label className="grid gap-1.5">Argument time in minutes <input type="number" aria-label={`${template.title} argument minutes`} min={1} max={15} value={template.discussionMinutes || 5} onChange={(event) => updateTemplate(template.id, { discussionMinutes: Number(event.target.value) })} className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label></div>}
+                                {template.type === 'hotspot' && <div className="mt-4"><HotspotEditor image={template.hotspotImage} regions={template.hotspotRegions} onChange={(value) => updateTemplate(template.id, value)} /></div>}
+                                {template.type === 'spin-wheel' && <div className="mt-4 grid gap-3 rounded-xl border border-[#dedaf8] bg-[#f7f6ff] p-3 text-xs font-bold text-[#565078]"><label className="grid gap-2"><span>Choose from</span><select value={template.wheelSource || 'students'} onChange={(event) => updateTemplate(template.id, { wheelSource: event.target.value as NonNullable<SessionInteraction['wheelSource']> })} className="rounded-lg border border-[#d7dae5] bg-white px-3 py-2 font-normal text-[#313950]"><option value="students">Students who joined</option><option value="teams">Teams created in class</option><option value="custom">A custom list</option><option value="cold-call">Cold call, fairest first</option></select></label>{template.wheelSource === 'custom' ? <label className="grid gap-2"><span>Items <small className="font-normal">One per line</small></span><textarea value={(template.wheelItems || []).join('\n')} onChange={(event) => updateTemplate(template.id, { wheelItems: event.target.value.split('\n').map((item) => item.trim()).filter(Boolean).slice(0, 40) })} rows={5} placeholder={'Topic A\nTopic B\nTopic C'} className="rounded-lg border border-[#d7dae5] bg-white px-3 py-2 font-normal leading-5 text-[#313950]" /></label> : <p className="font-normal leading-5 text-[#697087]">{template.wheelSource === 'teams' ? 'The wheel uses the current team list when you launch it.' : template.wheelSource === 'cold-call' ? 'Cold call picks from students checked in under their course record, favoring those called least this term and skipping anyone opted out on the class Cold calls page.' : 'The wheel uses the live attendance list. Student display names will appear on the classroom screen.'}</p>}<label className="flex items-center gap-2 font-semibold"><input type="checkbox" checked={template.wheelRemoveSelected !== false} onChange={(event) => updateTemplate(template.id, { wheelRemoveSelected: event.target.checked })} className="accent-[#5146e5]" /> Remove each selection before the next spin</label></div>}
                                 <div className="mt-4 flex flex-wrap items-end justify-between gap-3 text-xs text-[#697087]">
                                   {(template.type === 'timer' || template.type === 'group-work') && (
                                     <label className="grid gap-1.5 font-semibold">
@@ -1008,6 +1070,10 @@ export default function ClassWorkspacePage({ params }: ClassWorkspaceProps) {
                     <p className="seminar-eyebrow mb-2">Class settings</p><h2 className="seminar-display text-2xl text-[#101a38]">Details used across the course</h2>
                     <div className="mt-5 rounded-2xl border border-[#e3e5ed] bg-[#faf9ff] p-4"><strong className="block text-sm text-[#101a38]">{course.code} · {course.name}</strong><span className="mt-1 block text-xs text-[#697087]">{course.term || 'No term set'}</span><Button variant="ghost" onClick={openClassDetails} className="mt-3 -ml-3 gap-2 text-[#5146e5]"><Pencil className="h-4 w-4" /> Edit class details</Button></div>
                     <label className="mt-4 grid gap-1.5 text-xs font-bold text-[#697087]">Team tags <small className="font-normal">Separate with commas</small><input value={courseTagsInput} onChange={(event) => { setCourseTagsInput(event.target.value); setSaved(false); }} placeholder="Case topic, Track, Theme" className="min-h-11 rounded-xl border border-[#d7dae5] bg-white px-3 text-sm font-medium text-[#101a38] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" /></label>
+                    <div className="mt-4 rounded-2xl border border-[#e3e5ed] p-4">
+                      <label className="flex items-start gap-3 text-sm font-bold text-[#313950]"><input type="checkbox" checked={wellbeing.anonymousPulse === true} onChange={(event) => { setWellbeing((current) => ({ ...current, anonymousPulse: event.target.checked })); setSaved(false); }} className="mt-1 h-4 w-4 accent-[#5146e5]" /><span>Anonymous arrival pulse<small className="mt-0.5 block font-normal leading-5 text-[#697087]">Only class totals are stored. Nobody, including instructors, can see who chose what.</small></span></label>
+                      {wellbeing.anonymousPulse && <label className="mt-3 grid gap-1.5 text-xs font-bold text-[#697087]">Show the breakdown from <small className="font-normal">Fewer answers stay hidden on every screen</small><input type="number" min={2} max={MAX_PULSE_MINIMUM} value={wellbeing.minimumResponses ?? DEFAULT_PULSE_MINIMUM} onChange={(event) => { setWellbeing((current) => ({ ...current, minimumResponses: Number(event.target.value) })); setSaved(false); }} className="min-h-11 w-28 rounded-xl border border-[#d7dae5] bg-white px-3 text-sm font-medium text-[#101a38] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" /></label>}
+                    </div>
                   </section>
                 </aside>
               </fieldset>
@@ -0,0 +1,285 @@
+'use client';
+
+import { use, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { getCourse, getCourseInstructorRole } from '@/lib/firebase/firestore';
+import {
+  createQuestionBankItem,
+  deleteQuestionBankItem,
+  getQuestionBankItems,
+  updateQuestionBankItem,
+  type QuestionBankItemInput,
+} from '@/lib/firebase/question-bank';
+import { bankTagsInUse, normalizeBankTags } from '@/lib/question-bank';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { Course, QuestionBankDifficulty, QuestionBankItem } from '@/types';
+import { ArrowLeft, Library, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface QuestionBankPageProps {
+  params: Promise<{ id: string }>;
+}
+
+type ItemDraft = {
+  prompt: string;
+  options: string[];
+  correctOptionIndex: number;
+  explanation: string;
+  tags: string;
+  difficulty: QuestionBankDifficulty;
+  learningObjective: string;
+};
+
+const DIFFICULTY_LABELS: Record<QuestionBankDifficulty, string> = { easy: 'Easy', medium: 'Medium', hard: 'Hard' };
+
+/** Below this, the question barely separates stronger students from weaker ones and is worth rewording. */
+const LOW_DISCRIMINATION = 0.2;
+
+const EMPTY_DRAFT: ItemDraft = { prompt: '', options: ['', ''], correctOptionIndex: 0, explanation: '', tags: '', difficulty: 'medium', learningObjective: '' };
+
+const fieldClass = 'mt-1 w-full rounded-xl border border-[#d7dae5] bg-white px-3 py-2 text-sm font-normal text-[#101a38] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]';
+
+const draftFromItem = (item: QuestionBankItem): ItemDraft => ({
+  prompt: item.prompt,
+  options: item.options,
+  correctOptionIndex: item.correctOptionIndex,
+  explanation: item.explanation || '',
+  tags: item.tags.join(', '),
+  difficulty: item.difficulty,
+  learningObjective: item.learningObjective || '',
+});
+
+function draftError(draft: ItemDraft) {
+  if (!draft.prompt.trim()) return 'Write the question.';
+  if (draft.options.filter((option) => option.trim()).length < 2) return 'Add at least two answer choices.';
+  if (!draft.options[draft.correctOptionIndex]?.trim()) return 'Mark one of the filled-in choices as correct.';
+  return '';
+}
+
+/** Drops blank choices and keeps the correct answer pointing at the same text. */
+function inputFromDraft(draft: ItemDraft): QuestionBankItemInput {
+  const filled = draft.options.map((option, index) => ({ option: option.trim(), index })).filter((entry) => entry.option);
+  return {
+    prompt: draft.prompt,
+    options: filled.map((entry) => entry.option),
+    correctOptionIndex: Math.max(0, filled.findIndex((entry) => entry.index === draft.correctOptionIndex)),
+    explanation: draft.explanation,
+    tags: normalizeBankTags(draft.tags),
+    difficulty: draft.difficulty,
+    learningObjective: draft.learningObjective,
+  };
+}
+
+function statsSummary(item: QuestionBankItem) {
+  if (!item.stats?.attempts) return 'No answers yet';
+  const parts = [`${item.stats.percentCorrect}% correct of ${item.stats.attempts}`];
+  if (item.stats.discrimination !== null) parts.push(`discrimination ${item.stats.discrimination.toFixed(2)}`);
+  return parts.join(' · ');
+}
+
+export default function QuestionBankPage({ params }: QuestionBankPageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [items, setItems] = useState<QuestionBankItem[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [tagFilter, setTagFilter] = useState('');
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<ItemDraft>(EMPTY_DRAFT);
+  const [deleteTarget, setDeleteTarget] = useState<QuestionBankItem | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    const loadBank = async () => {
+      try {
+        const courseData = await getCourse(id);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const [role, bankItems] = await Promise.all([getCourseInstructorRole(user.uid, courseData), getQuestionBankItems(courseData.id)]);
+        setCourse(courseData);
+        setItems(bankItems);
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+      } catch (loadError) {
+        console.error('Question bank could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The question bank could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadBank();
+  }, [id, user]);
+
+  const tags = useMemo(() => bankTagsInUse(items), [items]);
+  const visibleItems = useMemo(() => tagFilter ? items.filter((item) => item.tags.includes(tagFilter)) : items, [items, tagFilter]);
+
+  const startEditing = (item?: QuestionBankItem) => {
+    setError('');
+    setDraft(item ? draftFromItem(item) : EMPTY_DRAFT);
+    setEditingId(item?.id || 'new');
+  };
+
+  const saveItem = async () => {
+    if (!course || !editingId) return;
+    const problem = draftError(draft);
+    if (problem) return setError(problem);
+    setSaving(true);
+    setError('');
+    try {
+      const input = inputFromDraft(draft);
+      if (editingId === 'new') await createQuestionBankItem(course.id, course.teacherId, input);
+      else await updateQuestionBankItem(course.id, editingId, input);
+      setItems(await getQuestionBankItems(course.id));
+      setEditingId(null);
+    } catch (saveError) {
+      setError(getUserFacingError(saveError, 'The question could not be saved. Try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!course || !deleteTarget) return;
+    try {
+      await deleteQuestionBankItem(course.id, deleteTarget.id);
+      setItems((current) => current.filter((item) => item.id !== deleteTarget.id));
+    } catch (deleteError) {
+      setError(getUserFacingError(deleteError, 'The question could not be deleted. Try again.'));
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const updateOption = (index: number, value: string) => setDraft((current) => ({ ...current, options: current.options.map((option, position) => position === index ? value : option) }));
+  const removeOption = (index: number) => setDraft((current) => ({
+    ...current,
+    options: current.options.filter((_, position) => position !== index),
+    correctOptionIndex: current.correctOptionIndex === index ? 0 : current.correctOptionIndex > index ? current.correctOptionIndex - 1 : current.correctOptionIndex,
+  }));
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-5xl p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading question bank"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="This question bank is not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="flex flex-col gap-5 border-b border-[#e3e5ed] pb-8 sm:flex-row sm:items-end sm:justify-between">
+                <div>
+                  <p className="seminar-eyebrow mb-3">{course.code} question bank</p>
+                  <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                  <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">Knowledge check questions for this class. A knowledge check in a session plan can draw a few of them by tag when class starts, skipping questions the class saw recently.</p>
+                </div>
+                {canEdit && !editingId && <Button onClick={() => startEditing()} className="shrink-0 gap-2"><Plus className="h-4 w-4" /> Add question</Button>}
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="Something needs attention." message={error} />}
+
+              {editingId && (
+                <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white p-5 sm:p-7" aria-labelledby="bank-item-heading">
+                  <h2 id="bank-item-heading" className="seminar-display text-2xl text-[#101a38]">{editingId === 'new' ? 'New question' : 'Edit question'}</h2>
+                  <fieldset className="mt-5 space-y-4" disabled={saving}>
+                    <label className="block text-sm font-bold text-[#313950]">Question<textarea value={draft.prompt} onChange={(event) => setDraft({ ...draft, prompt: event.target.value })} rows={3} maxLength={1200} className={`${fieldClass} resize-none leading-6`} /></label>
+                    <div>
+                      <p className="text-sm font-bold text-[#313950]">Answer choices</p>
+                      <p className="text-xs text-[#697087]">Mark the correct one.</p>
+                      <div className="mt-2 space-y-2">
+                        {draft.options.map((option, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input type="radio" name="bank-correct-option" className="h-4 w-4 accent-[#5146e5]" checked={draft.correctOptionIndex === index} onChange={() => setDraft({ ...draft, correctOptionIndex: index })} aria-label={`Mark choice ${index + 1} correct`} />
+                            <input value={option} onChange={(event) => updateOption(index, event.target.value)} maxLength={160} aria-label={`Choice ${index + 1}`} className={`${fieldClass} mt-0`} />
+                            {draft.options.length > 2 && <button type="button" className="seminar-focus rounded-lg p-1.5 text-[#697087] hover:bg-[#f4f5f8]" aria-label={`Remove choice ${index + 1}`} onClick={() => removeOption(index)}><X className="h-4 w-4" /></button>}
+                          </div>
+                        ))}
+                      </div>
+                      {draft.options.length < 6 && <Button variant="ghost" size="sm" className="mt-2 gap-2" onClick={() => setDraft({ ...draft, options: [...draft.options, ''] })}><Plus className="h-4 w-4" /> Add choice</Button>}
+                    </div>
+                    <label className="block text-sm font-bold text-[#313950]">Explanation <span className="font-normal text-[#697087]">(shown when the answer is revealed)</span><textarea value={draft.explanation} onChange={(event) => setDraft({ ...draft, explanation: event.target.value })} rows={2} maxLength={500} className={`${fieldClass} resize-none leading-6`} /></label>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <label className="block text-sm font-bold text-[#313950]">Tags<input value={draft.tags} onChange={(event) => setDraft({ ...draft, tags: event.target.value })} placeholder="pricing, week 3" list="bank-tags" className={fieldClass} /></label>
+                      <label className="block text-sm font-bold text-[#313950]">Difficulty<select value={draft.difficulty} onChange={(event) => setDraft({ ...draft, difficulty: event.target.value as QuestionBankDifficulty })} className={fieldClass}>{Object.entries(DIFFICULTY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}</select></label>
+                      <label className="block text-sm font-bold text-[#313950]">Learning objective<input value={draft.learningObjective} onChange={(event) => setDraft({ ...draft, learningObjective: event.target.value })} maxLength={160} placeholder="Explain contribution margin" className={fieldClass} /></label>
+                    </div>
+                    <datalist id="bank-tags">{tags.map((tag) => <option key={tag} value={tag} />)}</datalist>
+                  </fieldset>
+                  <div className="mt-6 flex justify-end gap-2">
+                    <Button variant="ghost" onClick={() => setEditingId(null)} disabled={saving}>Cancel</Button>
+                    <Button onClick={saveItem} loading={saving}>Save question</Button>
+                  </div>
+                </section>
+              )}
+
+              <section className="mt-8" aria-labelledby="bank-items-heading">
+                <div className="flex flex-wrap items-end justify-between gap-3">
+                  <h2 id="bank-items-heading" className="seminar-display text-2xl text-[#101a38]">{items.length} question{items.length === 1 ? '' : 's'}</h2>
+                  {tags.length > 0 && (
+                    <label className="text-sm font-bold text-[#313950]">Tag
+                      <select value={tagFilter} onChange={(event) => setTagFilter(event.target.value)} className="seminar-focus ml-2 h-10 rounded-xl border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#101a38]">
+                        <option value="">All tags</option>
+                        {tags.map((tag) => <option key={tag} value={tag}>{tag}</option>)}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                {visibleItems.length === 0 ? (
+                  <div className="mt-4 rounded-3xl border border-[#e1e3ec] bg-white px-6 py-12 text-center">
+                    <Library className="mx-auto h-9 w-9 text-[#9298a8]" />
+                    <p className="mx-auto mt-3 max-w-md text-sm leading-6 text-[#697087]">{items.length ? 'No question has this tag.' : 'No questions yet. Add a few with tags, then let a knowledge check draw from them.'}</p>
+                  </div>
+                ) : (
+                  <ul className="mt-4 divide-y divide-[#e3e5ed] rounded-3xl border border-[#e1e3ec] bg-white">
+                    {visibleItems.map((item) => (
+                      <li key={item.id} className="flex flex-col gap-3 px-5 py-4 sm:flex-row sm:items-start sm:justify-between">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-[#101a38]">{item.prompt}</p>
+                          <p className="mt-1 text-sm text-[#697087]">Answer: {item.options[item.correctOptionIndex]}{item.learningObjective ? ` · ${item.learningObjective}` : ''}</p>
+                          <div className="mt-2 flex flex-wrap gap-1.5 text-[11px] font-bold">
+                            <span className="rounded-full bg-[#f4f5f8] px-2 py-0.5 text-[#313950]">{DIFFICULTY_LABELS[item.difficulty]}</span>
+                            {item.tags.map((tag) => <span key={tag} className="rounded-full bg-[#f0efff] px-2 py-0.5 text-[#5146e5]">{tag}</span>)}
+                          </div>
+                          <p className="mt-2 text-xs text-[#697087]">
+                            {item.usage?.length ? `Used in ${item.usage.length} session${item.usage.length === 1 ? '' : 's'}, last ${item.usage[0].usedAt.toDate().toLocaleDateString([], { dateStyle: 'medium' })}` : 'Not used yet'} · {statsSummary(item)}
+                            {typeof item.stats?.discrimination === 'number' && item.stats.discrimination < LOW_DISCRIMINATION && <span className="ml-2 rounded-full bg-[#fff5f1] px-2 py-0.5 font-bold text-[#a2412c]">Stronger and weaker students answer alike</span>}
+                          </p>
+                        </div>
+                        {canEdit && (
+                          <div className="flex shrink-0 gap-1">
+                            <button type="button" className="seminar-focus rounded-lg p-2 text-[#697087] hover:bg-[#f4f5f8] hover:text-[#101a38]" aria-label="Edit question" onClick={() => startEditing(item)}><Pencil className="h-4 w-4" /></button>
+                            <button type="button" className="seminar-focus rounded-lg p-2 text-[#697087] hover:bg-[#fff5f1] hover:text-[#a2412c]" aria-label="Delete question" onClick={() => setDeleteTarget(item)}><Trash2 className="h-4 w-4" /></button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+
+          <Dialog
+            isOpen={Boolean(deleteTarget)}
+            onClose={() => setDeleteTarget(null)}
+            onConfirm={confirmDelete}
+            title="Delete this question?"
+            message="Sessions that already drew it keep their copy. Its answer statistics are deleted with it."
+            confirmText="Delete"
+            variant="destructive"
+          />
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import { use, useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  getAccessibleSessions,
+  getCourse,
+  getCourseInstructorRole,
+  getStudentsByIds,
+  getStudentsByNormalizedIds,
+  importRoster,
+} from '@/lib/firebase/firestore';
+import {
+  getInstructorClassroomRecords,
+  setInstructorAttendanceRosterMatch,
+  type StoredAttendanceClaim,
+} from '@/lib/firebase/live-classroom';
+import {
+  guessColumnMapping,
+  isRosterMappingComplete,
+  parseCsv,
+  planRosterImport,
+  readRosterEntries,
+  ROSTER_FIELDS,
+  suggestClaimMatches,
+  type RosterColumnMapping,
+  type RosterField,
+  type RosterPlan,
+} from '@/lib/roster-import';
+import { readXlsxRows } from '@/lib/xlsx-reader';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { Course, Session, Student } from '@/types';
+import { AlertTriangle, ArrowLeft, FileSpreadsheet, Link2, UserPlus } from 'lucide-react';
+
+interface RosterPageProps {
+  params: Promise<{ id: string }>;
+}
+
+type NicknameClaim = { session: Session; claim: StoredAttendanceClaim };
+
+const actionTone: Record<RosterPlan['items'][number]['action'], string> = {
+  create: 'bg-[#edf8f0] text-[#26743c]',
+  update: 'bg-[#f0efff] text-[#5146e5]',
+  skip: 'bg-[#f4f5f8] text-[#697087]',
+};
+
+const claimKey = (sessionId: string, studentUid: string) => `${sessionId}:${studentUid}`;
+
+export default function RosterPage({ params }: RosterPageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [roster, setRoster] = useState<Student[]>([]);
+  const [nicknameClaims, setNicknameClaims] = useState<NicknameClaim[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<RosterColumnMapping>({});
+  const [plan, setPlan] = useState<RosterPlan | null>(null);
+  const [matches, setMatches] = useState<Record<string, string>>({});
+  const [working, setWorking] = useState(false);
+  const [savingClaim, setSavingClaim] = useState('');
+  const [notice, setNotice] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadRoster = useCallback(async (courseData: Course) => {
+    const students = await getStudentsByIds(courseData.studentIds || []);
+    setRoster(students.sort((a, b) => a.name.localeCompare(b.name)));
+    return students;
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const loadPage = async () => {
+      try {
+        const [courseData, sessionData] = await Promise.all([getCourse(id), getAccessibleSessions(user.uid)]);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const liveSessions = sessionData.filter((session) => session.sessionType === 'standalone' && (session.courseId === id || (!session.courseId && session.courseCode === courseData.code)));
+        const [role, students, recordPairs] = await Promise.all([
+          getCourseInstructorRole(user.uid, courseData),
+          loadRoster(courseData),
+          Promise.all(liveSessions.map(async (session) => {
+            try {
+              return [session, await getInstructorClassroomRecords(session.teacherId, session.id)] as const;
+            } catch {
+              return [session, null] as const;
+            }
+          })),
+        ]);
+        const claims = recordPairs.flatMap(([session, records]) => Object.values(records?.attendance || {})
+          .filter((claim) => claim.participationMode === 'session-name')
+          .map((claim) => ({ session, claim })));
+        const suggestions = suggestClaimMatches(claims.map(({ claim }) => claim), students);
+        setCourse(courseData);
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+        setNicknameClaims(claims);
+        setMatches(Object.fromEntries(claims.map(({ session, claim }, index) => [
+          claimKey(session.id, claim.studentUid),
+          claim.rosterStudentId || suggestions[index].student?.id || '',
+        ])));
+      } catch (loadError) {
+        console.error('Roster could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The roster could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPage();
+  }, [id, loadRoster, user]);
+
+  const headers = useMemo(() => {
+    const width = Math.max(0, ...rows.slice(0, 20).map((cells) => cells.length));
+    return Array.from({ length: width }, (_, index) => (hasHeader ? rows[0]?.[index]?.trim() : '') || `Column ${index + 1}`);
+  }, [hasHeader, rows]);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    setNotice('');
+    setPlan(null);
+    try {
+      const fileRows = /\.xlsx$/i.test(file.name) ? await readXlsxRows(await file.arrayBuffer()) : parseCsv(await file.text());
+      if (!fileRows.length) throw new Error('This file has no rows to import.');
+      setFileName(file.name);
+      setRows(fileRows);
+      setHasHeader(true);
+      setMapping(guessColumnMapping(fileRows[0]));
+    } catch (readError) {
+      console.error('Roster file could not be read:', readError);
+      setError(readError instanceof Error ? readError.message : 'This file could not be read. Save it as .csv or .xlsx and try again.');
+    }
+  };
+
+  const updateMapping = (field: RosterField, value: string) => {
+    setPlan(null);
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const previewImport = async () => {
+    if (!course) return;
+    setWorking(true);
+    setError('');
+    try {
+      const { entries, invalid } = readRosterEntries(rows, mapping, { hasHeader });
+      const matched = await getStudentsByNormalizedIds(entries.map((entry) => entry.studentIdNormalized));
+      const existingStudents = Array.from(new Map([...roster, ...matched].map((student) => [student.id, student])).values());
+      setPlan(planRosterImport({ entries, invalid, existingStudents, courseId: course.id }));
+    } catch (previewError) {
+      console.error('Roster preview could not be built:', previewError);
+      setError(getUserFacingError(previewError, 'The import preview could not be built. Try again.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!course || !plan) return;
+    setWorking(true);
+    setError('');
+    try {
+      const result = await importRoster(course.id, plan);
+      const courseData = await getCourse(course.id);
+      if (courseData) {
+        setCourse(courseData);
+        await loadRoster(courseData);
+      }
+      setNotice(`${result.created} added and ${result.updated} updated from ${fileName}.`);
+      setPlan(null);
+      setRows([]);
+      setFileName('');
+    } catch (importError) {
+      console.error('Roster import failed:', importError);
+      setError(getUserFacingError(importError, 'The roster was not imported. Nothing after the failed step was saved; try again.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const saveMatch = async ({ session, claim }: NicknameClaim) => {
+    const key = claimKey(session.id, claim.studentUid);
+    const student = roster.find((item) => item.id === matches[key]) || null;
+    setSavingClaim(key);
+    setError('');
+    try {
+      await setInstructorAttendanceRosterMatch(session.teacherId, session.id, claim.studentUid, student);
+      setNicknameClaims((current) => current.map((item) => item.session.id === session.id && item.claim.studentUid === claim.studentUid
+        ? { session, claim: { ...claim, rosterStudentId: student?.id, rosterStudentNumber: student?.studentId } }
+        : item));
+    } catch (matchError) {
+      console.error('Attendance match could not be saved:', matchError);
+      setError(getUserFacingError(matchError, 'The attendance match was not saved. Try again.'));
+    } finally {
+      setSavingClaim('');
+    }
+  };
+
+  const mappingReady = rows.length > 0 && isRosterMappingComplete(mapping);
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-6xl p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading roster"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="This roster is not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="border-b border-[#e3e5ed] pb-8">
+                <p className="seminar-eyebrow mb-3">{course.code} roster</p>
+                <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">{roster.length} {roster.length === 1 ? 'student' : 'students'} on the class list. Import a registrar export to add the rest, then match nicknames from live sessions to roster entries.</p>
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="That change did not stick yet." message={error} />}
+              {notice && <InlineMessage className="mt-6" tone="info" title="Roster imported." message={notice} />}
+
+              {canEdit && (
+                <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+                  <div className="flex items-start gap-3">
+                    <FileSpreadsheet className="mt-1 h-5 w-5 text-[#5146e5]" />
+                    <div className="min-w-0 flex-1">
+                      <h2 className="text-lg font-bold text-[#101a38]">Import a class list</h2>
+                      <p className="mt-1 text-sm leading-6 text-[#697087]">Upload a .csv or .xlsx export. Students are matched to existing records by student number, ignoring spacing and case.</p>
+                      <label className="mt-4 inline-flex cursor-pointer items-center gap-2 rounded-xl border border-[#e3e5ed] px-4 py-2.5 text-sm font-semibold text-[#101a38] hover:bg-[#f8f7fb]">
+                        <UserPlus className="h-4 w-4" /> {fileName || 'Choose file'}
+                        <input type="file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" className="sr-only" onChange={(event) => { readFile(event.target.files?.[0]); event.target.value = ''; }} />
+                      </label>
+                    </div>
+                  </div>
+
+                  {rows.length > 0 && (
+                    <div className="mt-6 border-t border-[#eceef3] pt-6">
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <h3 className="text-sm font-bold text-[#101a38]">Match columns</h3>
+                        <label className="flex items-center gap-2 text-sm text-[#697087]">
+                          <input type="checkbox" checked={hasHeader} onChange={(event) => { setHasHeader(event.target.checked); setPlan(null); }} className="h-4 w-4 accent-[#5146e5]" />
+                          First row is a header
+                        </label>
+                      </div>
+                      <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+                        {ROSTER_FIELDS.map((field) => (
+                          <label key={field.id} className="block">
+                            <span className="seminar-eyebrow">{field.label}</span>
+                            <select value={mapping[field.id] ?? ''} onChange={(event) => updateMapping(field.id, event.target.value)} className="mt-2 w-full rounded-xl border border-[#e3e5ed] bg-[#fffefa] px-3 py-2.5 text-sm text-[#101a38]">
+                              <option value="">Not in file</option>
+                              {headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                            </select>
+                            {field.hint && <span className="mt-1 block text-xs text-[#697087]">{field.hint}</span>}
+                          </label>
+                        ))}
+                      </div>
+                      <div className="mt-5 flex justify-end">
+                        <Button variant="outline" onClick={previewImport} loading={working && !plan} disabled={!mappingReady}>Preview import</Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {plan && (
+                    <div className="mt-6 border-t border-[#eceef3] pt-6">
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-sm text-[#313950]"><strong className="text-[#26743c]">{plan.counts.create} new</strong> · <strong className="text-[#5146e5]">{plan.counts.update} updated</strong> · <strong className="text-[#697087]">{plan.counts.skip} skipped</strong></p>
+                        <Button onClick={runImport} loading={working} disabled={!plan.counts.create && !plan.counts.update && !plan.items.some((item) => item.existing && !course.studentIds?.includes(item.existing.id))}>Import roster</Button>
+                      </div>
+                      <div className="mt-4 max-h-[28rem] overflow-y-auto rounded-2xl border border-[#eceef3]">
+                        <table className="min-w-full text-sm">
+                          <thead className="sticky top-0 bg-[#f8f7fb] text-left text-xs text-[#697087]">
+                            <tr>
+                              <th scope="col" className="px-4 py-2 font-bold">Row</th>
+                              <th scope="col" className="px-4 py-2 font-bold">Student</th>
+                              <th scope="col" className="px-4 py-2 font-bold">Result</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-[#eceef3]">
+                            {plan.items.map((item) => (
+                              <tr key={item.row}>
+                                <td className="px-4 py-2 text-[#697087]">{item.row}</td>
+                                <td className="px-4 py-2">
+                                  <strong className="block text-[#101a38]">{item.entry?.name || '—'}</strong>
+                                  <span className="text-xs text-[#697087]">{item.entry?.studentId}{item.entry?.email ? ` · ${item.entry.email}` : ''}</span>
+                                  {item.nearDuplicates.length > 0 && (
+                                    <span className="mt-1 flex items-center gap-1 text-xs font-semibold text-[#8d6200]">
+                                      <AlertTriangle className="h-3.5 w-3.5" />
+                                      Similar to {item.nearDuplicates.map((student) => `${student.name} (${student.studentId})`).join(', ')}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="px-4 py-2">
+                                  <span className={`rounded-full px-2.5 py-1 text-xs font-bold ${actionTone[item.action]}`}>{item.reason}</span>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+                </section>
+              )}
+
+              <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+                <div className="flex items-start gap-3">
+                  <Link2 className="mt-1 h-5 w-5 text-[#5146e5]" />
+                  <div className="min-w-0 flex-1">
+                    <h2 className="text-lg font-bold text-[#101a38]">Match live nicknames</h2>
+                    <p className="mt-1 text-sm leading-6 text-[#697087]">Students who joined a session with a name instead of a student number count toward attendance once they are matched to the roster.</p>
+                  </div>
+                </div>
+                {nicknameClaims.length === 0 ? (
+                  <p className="mt-5 text-sm text-[#697087]">No one has joined this class&apos;s live sessions by name yet.</p>
+                ) : (
+                  <ul className="mt-5 divide-y divide-[#eceef3]">
+                    {nicknameClaims.map(({ session, claim }) => {
+                      const key = claimKey(session.id, claim.studentUid);
+                      const matchedId = claim.rosterStudentId || '';
+                      return (
+                        <li key={key} className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center">
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate text-sm font-semibold text-[#101a38]">{claim.studentDisplayName}</p>
+                            <p className="text-xs text-[#697087]">{session.title || session.caseStudyTitle || 'Class session'}{matchedId ? ' · Matched' : ''}</p>
+                          </div>
+                          <select value={matches[key] || ''} disabled={!canEdit} onChange={(event) => setMatches((current) => ({ ...current, [key]: event.target.value }))} aria-label={`Roster student for ${claim.studentDisplayName}`} className="w-full rounded-xl border border-[#e3e5ed] bg-[#fffefa] px-3 py-2 text-sm text-[#101a38] sm:w-72">
+                            <option value="">Not matched</option>
+                            {roster.map((student) => <option key={student.id} value={student.id}>{student.name} · {student.studentId}</option>)}
+                          </select>
+                          {canEdit && <Button variant="outline" size="sm" onClick={() => saveMatch({ session, claim })} loading={savingClaim === key} disabled={(matches[key] || '') === matchedId}>Save</Button>}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { use, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { getAccessibleSessions, getCourse, getCourseInstructorRole, updateCourse } from '@/lib/firebase/firestore';
+import { generateCourseSessions } from '@/lib/firebase/session-schedule';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { Course, CourseMeetingPattern, Session } from '@/types';
+import { ArrowLeft, CalendarClock, CalendarPlus, Pencil, Save } from 'lucide-react';
+
+interface SchedulePageProps {
+  params: Promise<{ id: string }>;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const scheduleFormat = new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+function formatScheduledFor(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : scheduleFormat.format(date);
+}
+
+function patternError(pattern: CourseMeetingPattern) {
+  if (!pattern.weekdays.length) return 'Choose at least one meeting day.';
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(pattern.startTime)) return 'Enter the meeting start time.';
+  if (!pattern.startDate || !pattern.endDate) return 'Enter the first and last dates of the term.';
+  if (pattern.endDate < pattern.startDate) return 'The last date comes before the first date.';
+  return '';
+}
+
+export default function CourseSchedulePage({ params }: SchedulePageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [startTime, setStartTime] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [autoOpen, setAutoOpen] = useState(true);
+  const [idleCloseMinutes, setIdleCloseMinutes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadSessions = async (uid: string, courseData: Course) => {
+    const sessionData = await getAccessibleSessions(uid);
+    setSessions(sessionData.filter((session) => session.courseId === courseData.id || (!session.courseId && session.courseCode === courseData.code)));
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    const loadSchedule = async () => {
+      try {
+        const courseData = await getCourse(id);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const [role] = await Promise.all([getCourseInstructorRole(user.uid, courseData), loadSessions(user.uid, courseData)]);
+        const pattern = courseData.meetingPattern;
+        setCourse(courseData);
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+        setWeekdays(pattern?.weekdays || []);
+        setStartTime(pattern?.startTime || '');
+        setStartDate(pattern?.startDate || '');
+        setEndDate(pattern?.endDate || '');
+        setAutoOpen(pattern?.autoOpen ?? true);
+        setIdleCloseMinutes(pattern?.idleCloseMinutes ? String(pattern.idleCloseMinutes) : '');
+      } catch (loadError) {
+        console.error('Class schedule could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The class schedule could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSchedule();
+  }, [id, user]);
+
+  const pattern = useMemo((): CourseMeetingPattern => {
+    const idleMinutes = Number(idleCloseMinutes);
+    return {
+      weekdays: [...weekdays].sort((a, b) => a - b),
+      startTime,
+      startDate,
+      endDate,
+      autoOpen,
+      ...(idleCloseMinutes.trim() && Number.isFinite(idleMinutes) && idleMinutes >= 5 ? { idleCloseMinutes: Math.min(Math.round(idleMinutes), 24 * 60) } : {}),
+    };
+  }, [autoOpen, endDate, idleCloseMinutes, startDate, startTime, weekdays]);
+
+  const upcoming = useMemo(() => {
+    const now = new Date();
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    return sessions
+      .filter((session) => session.scheduledFor && session.scheduledFor.slice(0, 10) >= today && !session.endedAt)
+      .sort((a, b) => (a.scheduledFor || '').localeCompare(b.scheduledFor || ''));
+  }, [sessions]);
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((current) => current.includes(day) ? current.filter((value) => value !== day) : [...current, day]);
+  };
+
+  const savePattern = async () => {
+    if (!course) return null;
+    const problem = patternError(pattern);
+    if (problem) {
+      setError(problem);
+      return null;
+    }
+    setSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      await updateCourse(course.id, { meetingPattern: pattern });
+      const next = { ...course, meetingPattern: pattern };
+      setCourse(next);
+      return next;
+    } catch (saveError) {
+      setError(getUserFacingError(saveError, 'The meeting pattern could not be saved. Try again.'));
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const generate = async () => {
+    if (!user) return;
+    const saved = await savePattern();
+    if (!saved) return;
+    setGenerating(true);
+    try {
+      const result = await generateCourseSessions(saved.id);
+      await loadSessions(user.uid, saved);
+      const zone = result.timeZone.replaceAll('_', ' ');
+      setNotice(result.created
+        ? `${result.created} draft session${result.created === 1 ? '' : 's'} added in ${zone} time.${result.skipped ? ` ${result.skipped} meeting${result.skipped === 1 ? ' already has' : 's already have'} a session.` : ''}`
+        : 'Every upcoming meeting already has a session.');
+    } catch (generateError) {
+      setError(getUserFacingError(generateError, 'The sessions could not be generated. Try again.'));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-5xl p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading class schedule"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="This schedule is not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="border-b border-[#e3e5ed] pb-8">
+                <p className="seminar-eyebrow mb-3">{course.code} schedule</p>
+                <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">Set when the class meets and add a draft session for each meeting, using the class&apos;s saved activities. Scheduled sessions can open their join code on time and close themselves once the room goes quiet.</p>
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="The schedule is not saved yet." message={error} />}
+              {notice && <InlineMessage className="mt-6" tone="info" title="Sessions scheduled." message={notice} />}
+
+              <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white p-5 sm:p-7" aria-labelledby="meeting-pattern-heading">
+                <p className="seminar-eyebrow">Meeting pattern</p>
+                <h2 id="meeting-pattern-heading" className="seminar-display mt-2 text-2xl text-[#101a38]">When the class meets.</h2>
+                <p className="mt-2 max-w-2xl text-sm leading-6 text-[#697087]">Times use the class owner&apos;s time zone from account settings.</p>
+                <fieldset className="mt-5" disabled={!canEdit}>
+                  <legend className="text-sm font-bold text-[#313950]">Days</legend>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {WEEKDAYS.map((label, day) => (
+                      <button key={label} type="button" aria-pressed={weekdays.includes(day)} onClick={() => toggleWeekday(day)} className={`seminar-focus min-h-10 rounded-xl border px-3.5 text-sm font-bold transition disabled:opacity-60 ${weekdays.includes(day) ? 'border-[#5146e5] bg-[#f0efff] text-[#5146e5]' : 'border-[#d7dae5] bg-white text-[#697087] hover:text-[#101a38]'}`}>{label}</button>
+                    ))}
+                  </div>
+                </fieldset>
+                <div className="mt-5 grid gap-4 sm:grid-cols-4">
+                  <label className="block text-sm font-bold text-[#313950]">Start time<input type="time" value={startTime} disabled={!canEdit} onChange={(event) => setStartTime(event.target.value)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" /></label>
+                  <label className="block text-sm font-bold text-[#313950]">First day<input type="date" value={startDate} disabled={!canEdit} onChange={(event) => setStartDate(event.target.value)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" /></label>
+                  <label className="block text-sm font-bold text-[#313950]">Last day<input type="date" value={endDate} disabled={!canEdit} onChange={(event) => setEndDate(event.target.value)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" /></label>
+                  <label className="block text-sm font-bold text-[#313950]">Close after idle (min)<input type="number" min="5" max="1440" placeholder="15" value={idleCloseMinutes} disabled={!canEdit} onChange={(event) => setIdleCloseMinutes(event.target.value)} className="mt-1 w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal" /></label>
+                </div>
+                <label className="mt-5 flex items-start gap-2 text-sm font-bold text-[#313950]">
+                  <input type="checkbox" className="mt-0.5" checked={autoOpen} disabled={!canEdit} onChange={(event) => setAutoOpen(event.target.checked)} />
+                  <span>Open each join code at the meeting time<span className="block text-xs font-normal leading-5 text-[#697087]">Opening counts as a session on the owner&apos;s plan, just like starting it by hand.</span></span>
+                </label>
+                {canEdit && (
+                  <div className="mt-6 flex flex-wrap justify-end gap-2">
+                    <Button variant="outline" onClick={() => savePattern().then((saved) => saved && setNotice(''))} loading={saving && !generating} className="gap-2"><Save className="h-4 w-4" /> Save pattern</Button>
+                    <Button onClick={generate} loading={generating} className="gap-2"><CalendarPlus className="h-4 w-4" /> Add draft sessions</Button>
+                  </div>
+                )}
+              </section>
+
+              <section className="mt-8" aria-labelledby="upcoming-heading">
+                <h2 id="upcoming-heading" className="seminar-display text-2xl text-[#101a38]">Upcoming sessions</h2>
+                {upcoming.length === 0 ? (
+                  <div className="mt-4 rounded-3xl border border-[#e1e3ec] bg-white px-6 py-12 text-center">
+                    <CalendarClock className="mx-auto h-9 w-9 text-[#9298a8]" />
+                    <p className="mx-auto mt-3 max-w-md text-sm leading-6 text-[#697087]">No sessions are scheduled yet. Save a meeting pattern and add draft sessions, or set a meeting time when planning a session.</p>
+                  </div>
+                ) : (
+                  <ul className="mt-4 divide-y divide-[#e3e5ed] rounded-3xl border border-[#e1e3ec] bg-white">
+                    {upcoming.map((session) => (
+                      <li key={session.id} className="flex flex-col gap-3 px-5 py-4 sm:flex-row sm:items-center sm:justify-between">
+                        <div className="min-w-0">
+                          <p className="text-xs font-bold uppercase tracking-[0.07em] text-[#697087]">{formatScheduledFor(session.scheduledFor || '')}</p>
+                          <Link href={`/dashboard/sessions/${session.id}`} className="seminar-focus mt-0.5 block truncate rounded font-semibold text-[#101a38] hover:text-[#5146e5]">{session.title || 'Class session'}</Link>
+                          <div className="mt-1.5 flex flex-wrap gap-1.5 text-[11px] font-bold">
+                            {session.active && <span className="rounded-full bg-[#e8f7ef] px-2 py-0.5 text-[#17683f]">Live</span>}
+                            {session.draft && <span className="rounded-full bg-[#fff9e8] px-2 py-0.5 text-[#725a16]">Draft</span>}
+                            {session.autoOpen && <span className="rounded-full bg-[#f0efff] px-2 py-0.5 text-[#5146e5]">Opens automatically</span>}
+                            {session.scheduleError && !session.autoOpen && <span className="rounded-full bg-[#fff5f1] px-2 py-0.5 text-[#824636]" title={session.scheduleError}>Did not open</span>}
+                          </div>
+                        </div>
+                        {canEdit && <Link href={`/dashboard/sessions/new?sessionId=${session.id}`} className="seminar-focus inline-flex min-h-10 shrink-0 items-center gap-2 rounded-xl border border-[#d7dae5] px-3.5 text-sm font-bold text-[#313950] hover:border-[#5146e5] hover:text-[#5146e5]"><Pencil className="h-4 w-4" /> {session.draft ? 'Review' : 'Edit'}</Link>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,356 @@
+'use client';
+
+import { use, useEffect, useMemo, useState, type ReactNode } from 'react';
+import Link from 'next/link';
+import { DndContext, PointerSensor, pointerWithin, type DragEndEvent, useDraggable, useDroppable, useSensor, useSensors } from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { getCourse, getCourseInstructorRole, getStudentsByIds } from '@/lib/firebase/firestore';
+import { deleteSeatingChart, getSeatingCharts, saveSeatingChart } from '@/lib/firebase/seating-charts';
+import {
+  MAX_SEATING_DIMENSION,
+  SEATING_LAYOUTS,
+  assignSeat,
+  clampSeatingDimension,
+  fillEmptySeats,
+  fitSeatsToLayout,
+  seatOf,
+  seatingGridTemplate,
+  seatingSeats,
+  unassignStudent,
+} from '@/lib/seating-chart';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { Course, SeatingAssignment, SeatingChart, SeatingLayoutKind } from '@/types';
+import { ArrowLeft, LayoutGrid, Plus, Save, Trash2, Wand2, X } from 'lucide-react';
+
+interface SeatingPageProps {
+  params: Promise<{ id: string }>;
+}
+
+type SeatingDraft = Pick<SeatingChart, 'room' | 'layout' | 'rows' | 'columns' | 'seats'> & { id?: string };
+
+const UNSEATED_ZONE = 'unseated';
+
+const newDraft = (room = ''): SeatingDraft => ({ room, layout: 'rows', rows: SEATING_LAYOUTS[0].defaults[0], columns: SEATING_LAYOUTS[0].defaults[1], seats: {} });
+
+function DraggableStudent({ student, picked, disabled, onPick }: { student: SeatingAssignment; picked: boolean; disabled: boolean; onPick: () => void }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: `student:${student.studentNumber}`, data: student, disabled });
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      {...attributes}
+      {...listeners}
+      onClick={onPick}
+      aria-pressed={picked}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      className={`seminar-focus w-full touch-none rounded-xl border px-3 py-2 text-left text-sm transition ${picked ? 'border-[#5146e5] bg-[#f5f3ff]' : 'border-[#e1e3ec] bg-white hover:border-[#c9c4f5]'} ${isDragging ? 'relative z-20 shadow-[0_12px_30px_rgba(16,26,56,0.16)]' : ''}`}
+    >
+      <strong className="block truncate text-[#101a38]">{student.name}</strong>
+      <span className="text-xs text-[#697087]">{student.studentNumber}</span>
+    </button>
+  );
+}
+
+function SeatSlot({ seatId, label, style, occupant, picked, disabled, onClick, onClear }: {
+  seatId: string;
+  label: string;
+  style: { gridRow: number; gridColumn: number };
+  occupant?: SeatingAssignment;
+  picked: boolean;
+  disabled: boolean;
+  onClick: () => void;
+  onClear: () => void;
+}) {
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: `seat:${seatId}`, disabled });
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id: `student:${occupant?.studentNumber || seatId}`, data: occupant, disabled: disabled || !occupant });
+  return (
+    <div ref={setDropRef} style={style} className={`group relative min-h-16 rounded-xl border transition ${isOver ? 'border-[#5146e5] bg-[#f5f3ff]' : occupant ? 'border-[#d7dae5] bg-white' : 'border-dashed border-[#d7dae5] bg-[#fbfbfd]'} ${picked ? 'ring-2 ring-[#5146e5]/30' : ''}`}>
+      <button
+        ref={setDragRef}
+        type="button"
+        {...attributes}
+        {...listeners}
+        onClick={onClick}
+        disabled={disabled}
+        aria-label={occupant ? `${occupant.name}, ${label}` : `Empty seat, ${label}`}
+        style={{ transform: CSS.Translate.toString(transform) }}
+        className={`seminar-focus flex h-full min-h-16 w-full touch-none flex-col justify-center rounded-xl px-2.5 py-2 text-left disabled:cursor-default ${isDragging ? 'relative z-20 bg-white shadow-[0_12px_30px_rgba(16,26,56,0.16)]' : ''}`}
+      >
+        {occupant ? <>
+          <strong className="block truncate text-xs text-[#101a38]">{occupant.name}</strong>
+          <span className="truncate text-[10px] text-[#697087]">{occupant.studentNumber}</span>
+        </> : <span className="text-[10px] text-[#9aa0b1]">{label}</span>}
+      </button>
+      {occupant && !disabled && <button type="button" onClick={onClear} className="seminar-focus absolute right-1 top-1 hidden rounded p-0.5 text-[#9aa0b1] hover:bg-[#fff1ee] hover:text-[#b64936] group-hover:block group-focus-within:block" aria-label={`Unseat ${occupant.name}`}><X className="h-3 w-3" /></button>}
+    </div>
+  );
+}
+
+function UnseatedZone({ children }: { children: ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id: UNSEATED_ZONE });
+  return <div ref={setNodeRef} className={`grid max-h-[560px] gap-2 overflow-y-auto rounded-2xl p-1 transition ${isOver ? 'bg-[#f5f3ff]' : ''}`}>{children}</div>;
+}
+
+export default function SeatingPage({ params }: SeatingPageProps) {
+  const { id } = use(params);
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [roster, setRoster] = useState<SeatingAssignment[]>([]);
+  const [charts, setCharts] = useState<SeatingChart[]>([]);
+  const [draft, setDraft] = useState<SeatingDraft>(() => newDraft());
+  const [dirty, setDirty] = useState(false);
+  const [picked, setPicked] = useState('');
+  const [search, setSearch] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+  const dragSensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }));
+
+  useEffect(() => {
+    if (!user) return;
+    const loadCharts = async () => {
+      try {
+        const courseData = await getCourse(id);
+        if (!courseData) {
+          setError('This class could not be found.');
+          return;
+        }
+        const [role, studentData, chartData] = await Promise.all([
+          getCourseInstructorRole(user.uid, courseData),
+          getStudentsByIds(courseData.studentIds || []),
+          getSeatingCharts(courseData.id),
+        ]);
+        setCourse(courseData);
+        setRoster(studentData
+          .map((student) => ({ studentNumber: student.studentId, name: student.name }))
+          .sort((a, b) => a.name.localeCompare(b.name)));
+        setCharts(chartData);
+        setDraft(chartData[0] ? { ...chartData[0] } : newDraft('Main room'));
+        setCanEdit(!courseData.archived && (role === 'owner' || role === 'co-instructor'));
+      } catch (loadError) {
+        console.error('Seating charts could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'The seating charts could not be loaded. Refresh the page and try again.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCharts();
+  }, [id, user]);
+
+  const seats = useMemo(() => seatingSeats(draft), [draft]);
+  // Seats outside the current size stay in the draft until save, so shrinking and regrowing a layout is harmless.
+  const seated = useMemo(() => fitSeatsToLayout(draft.seats, draft).seats, [draft]);
+  const unseated = roster.filter((student) => !seatOf(seated, student.studentNumber));
+  const visibleUnseated = search.trim()
+    ? unseated.filter((student) => `${student.name} ${student.studentNumber}`.toLocaleLowerCase().includes(search.trim().toLocaleLowerCase()))
+    : unseated;
+  const layoutInfo = SEATING_LAYOUTS.find((layout) => layout.id === draft.layout) || SEATING_LAYOUTS[0];
+
+  const updateDraft = (update: Partial<SeatingDraft>) => {
+    setDraft((current) => ({ ...current, ...update }));
+    setDirty(true);
+    setNotice('');
+  };
+
+  const openChart = (chart: SeatingChart | null) => {
+    setDraft(chart ? { ...chart } : newDraft(`Room ${charts.length + 1}`));
+    setDirty(!chart);
+    setPicked('');
+    setNotice('');
+  };
+
+  const changeLayout = (layout: SeatingLayoutKind) => {
+    const defaults = SEATING_LAYOUTS.find((item) => item.id === layout)?.defaults || SEATING_LAYOUTS[0].defaults;
+    // Seat ids differ between layouts, so carry everyone over by filling the new layout in seat order.
+    const next = { layout, rows: defaults[0], columns: defaults[1] };
+    const previous = seatingSeats(draft).flatMap((seat) => seated[seat.id] ? [seated[seat.id]] : []);
+    updateDraft({ ...next, seats: fillEmptySeats({}, next, previous) });
+  };
+
+  const placeStudent = (studentNumber: string, seatId: string) => {
+    const student = roster.find((item) => item.studentNumber === studentNumber) || Object.values(seated).find((item) => item.studentNumber === studentNumber);
+    if (!student) return;
+    updateDraft({ seats: assignSeat(seated, seatId, student) });
+    setPicked('');
+  };
+
+  const clickSeat = (seatId: string) => {
+    if (!canEdit) return;
+    if (picked) placeStudent(picked, seatId);
+    else if (seated[seatId]) setPicked(seated[seatId].studentNumber);
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const student = active.data.current as SeatingAssignment | undefined;
+    if (!student || !over) return;
+    if (over.id === UNSEATED_ZONE) updateDraft({ seats: unassignStudent(seated, student.studentNumber) });
+    else if (String(over.id).startsWith('seat:')) placeStudent(student.studentNumber, String(over.id).slice(5));
+  };
+
+  const save = async () => {
+    if (!course) return;
+    setSaving(true);
+    setError('');
+    try {
+      const saved = await saveSeatingChart(course, draft);
+      setCharts((current) => [saved, ...current.filter((chart) => chart.id !== saved.id)]);
+      setDraft({ ...saved });
+      setDirty(false);
+      setNotice(`${saved.room} saved. It is available in the live console under Seating.`);
+    } catch (saveError) {
+      console.error('Seating chart could not be saved:', saveError);
+      setError(getUserFacingError(saveError, 'The seating chart was not saved. Try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!course || !draft.id) return;
+    try {
+      await deleteSeatingChart(course.id, draft.id);
+      const remaining = charts.filter((chart) => chart.id !== draft.id);
+      setCharts(remaining);
+      setDraft(remaining[0] ? { ...remaining[0] } : newDraft('Main room'));
+      setDirty(false);
+    } catch (deleteError) {
+      console.error('Seating chart could not be deleted:', deleteError);
+      setError(getUserFacingError(deleteError, 'The room was not deleted. Try again.'));
+    } finally {
+      setDeleteOpen(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-[1400px] p-5 sm:p-8 lg:p-10">
+          <Link href={`/dashboard/classes/${id}`} className="seminar-focus mb-6 inline-flex items-center gap-2 rounded-lg text-sm font-semibold text-[#697087] hover:text-[#101a38]"><ArrowLeft className="h-4 w-4" /> Back to class</Link>
+
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading seating charts"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : error && !course ? (
+            <InlineMessage title="Seating is not available here." message={error} />
+          ) : course && (
+            <>
+              <header className="flex flex-col gap-5 border-b border-[#e3e5ed] pb-8 lg:flex-row lg:items-end lg:justify-between">
+                <div className="max-w-3xl">
+                  <p className="seminar-eyebrow mb-3">{course.code} seating</p>
+                  <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{course.name}</h1>
+                  <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">
+                    Save a seating chart for each room you teach in. During class, Seating in the live console shows who is here, who has answered, and each student&apos;s cold calls and contribution marks.
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={() => openChart(null)} className="gap-2"><Plus className="h-4 w-4" /> New room</Button>
+                    <Button onClick={save} loading={saving} disabled={!dirty || !draft.room.trim()} className="gap-2"><Save className="h-4 w-4" /> Save chart</Button>
+                  </div>
+                )}
+              </header>
+
+              {error && <InlineMessage className="mt-6" title="That change did not stick yet." message={error} />}
+              {notice && <InlineMessage className="mt-6" tone="info" title="Seating saved." message={notice} />}
+
+              {charts.length > 0 && (
+                <nav className="mt-6 flex flex-wrap gap-2" aria-label="Rooms">
+                  {charts.map((chart) => (
+                    <button key={chart.id} type="button" onClick={() => openChart(chart)} aria-current={draft.id === chart.id ? 'true' : undefined} className={`seminar-focus rounded-full border px-4 py-1.5 text-sm font-bold ${draft.id === chart.id ? 'border-[#5146e5] bg-[#f5f3ff] text-[#312a8f]' : 'border-[#e1e3ec] bg-white text-[#697087] hover:text-[#101a38]'}`}>{chart.room}</button>
+                  ))}
+                  {!draft.id && <span className="rounded-full border border-dashed border-[#c9c4f5] px-4 py-1.5 text-sm font-bold text-[#5146e5]">{draft.room || 'New room'} · unsaved</span>}
+                </nav>
+              )}
+
+              <section className="mt-6 flex flex-col gap-4 rounded-3xl border border-[#e1e3ec] bg-white p-5 lg:flex-row lg:items-end" aria-label="Layout">
+                <label className="block text-sm font-bold text-[#313950]">Room
+                  <input value={draft.room} onChange={(event) => updateDraft({ room: event.target.value })} maxLength={80} disabled={!canEdit} className="mt-1 block w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal lg:w-56" />
+                </label>
+                <fieldset>
+                  <legend className="text-sm font-bold text-[#313950]">Layout</legend>
+                  <div className="mt-1 flex gap-1 rounded-xl bg-[#f1f0f5] p-1">
+                    {SEATING_LAYOUTS.map((layout) => (
+                      <button key={layout.id} type="button" onClick={() => changeLayout(layout.id)} disabled={!canEdit} aria-pressed={draft.layout === layout.id} className={`seminar-focus rounded-lg px-3 py-1.5 text-sm font-bold ${draft.layout === layout.id ? 'bg-white text-[#101a38] shadow-[0_4px_14px_rgba(16,26,56,0.08)]' : 'text-[#697087]'}`}>{layout.label}</button>
+                    ))}
+                  </div>
+                </fieldset>
+                <label className="block text-sm font-bold text-[#313950]">{layoutInfo.rowsLabel}
+                  <input type="number" min="1" max={MAX_SEATING_DIMENSION} value={draft.rows} onChange={(event) => updateDraft({ rows: clampSeatingDimension(Number(event.target.value)) })} disabled={!canEdit} className="mt-1 block w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal lg:w-40" />
+                </label>
+                <label className="block text-sm font-bold text-[#313950]">{layoutInfo.columnsLabel}
+                  <input type="number" min="1" max={MAX_SEATING_DIMENSION} value={draft.columns} onChange={(event) => updateDraft({ columns: clampSeatingDimension(Number(event.target.value)) })} disabled={!canEdit} className="mt-1 block w-full rounded-xl border border-[#d7dae5] px-3 py-2 font-normal lg:w-40" />
+                </label>
+                {canEdit && (
+                  <div className="flex flex-wrap gap-2 lg:ml-auto">
+                    <Button variant="outline" onClick={() => updateDraft({ seats: fillEmptySeats(seated, draft, unseated) })} disabled={!unseated.length} className="gap-2"><Wand2 className="h-4 w-4" /> Fill empty seats</Button>
+                    <Button variant="ghost" onClick={() => updateDraft({ seats: {} })} disabled={!Object.keys(seated).length}>Clear</Button>
+                    {draft.id && <Button variant="ghost" onClick={() => setDeleteOpen(true)} className="gap-2 text-[#b64936]"><Trash2 className="h-4 w-4" /> Delete room</Button>}
+                  </div>
+                )}
+              </section>
+
+              <DndContext sensors={dragSensors} collisionDetection={pointerWithin} onDragEnd={handleDragEnd}>
+                <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1fr)_280px]">
+                  <section className="overflow-x-auto rounded-3xl border border-[#e1e3ec] bg-white p-5" aria-label="Seating chart">
+                    <p className="mx-auto mb-4 max-w-md rounded-lg bg-[#eceaf6] py-1.5 text-center text-[10px] font-extrabold uppercase tracking-[0.1em] text-[#5d6478]">Front of room</p>
+                    <div className="grid min-w-[560px] gap-2" style={seatingGridTemplate(seats)}>
+                      {seats.map((seat) => (
+                        <SeatSlot
+                          key={seat.id}
+                          seatId={seat.id}
+                          label={seat.label}
+                          style={{ gridRow: seat.gridRow, gridColumn: seat.gridColumn }}
+                          occupant={seated[seat.id]}
+                          picked={Boolean(picked) && seated[seat.id]?.studentNumber === picked}
+                          disabled={!canEdit}
+                          onClick={() => clickSeat(seat.id)}
+                          onClear={() => updateDraft({ seats: unassignStudent(seated, seated[seat.id].studentNumber) })}
+                        />
+                      ))}
+                    </div>
+                    <p className="mt-4 text-xs text-[#697087]">{Object.keys(seated).length} of {seats.length} seats filled · {roster.length} on the roster</p>
+                  </section>
+
+                  <aside className="rounded-3xl border border-[#e1e3ec] bg-white p-4" aria-label="Students without a seat">
+                    <h2 className="text-sm font-bold text-[#101a38]">Without a seat <span className="font-normal text-[#697087]">{unseated.length}</span></h2>
+                    <p className="mt-1 text-xs leading-5 text-[#697087]">{canEdit ? 'Drag a student onto a seat, or select them and then a seat. Drag a seated student here to unseat them.' : 'Only instructors who manage this class can change seats.'}</p>
+                    {roster.length > 12 && <input value={search} onChange={(event) => setSearch(event.target.value)} placeholder="Find a student" aria-label="Find a student" className="mt-3 block w-full rounded-xl border border-[#d7dae5] px-3 py-2 text-sm" />}
+                    <div className="mt-3">
+                      <UnseatedZone>
+                        {visibleUnseated.length ? visibleUnseated.map((student) => (
+                          <DraggableStudent key={student.studentNumber} student={student} picked={picked === student.studentNumber} disabled={!canEdit} onPick={() => canEdit && setPicked((current) => current === student.studentNumber ? '' : student.studentNumber)} />
+                        )) : (
+                          <div className="px-2 py-8 text-center text-xs text-[#697087]">
+                            <LayoutGrid className="mx-auto mb-2 h-6 w-6 text-[#9298a8]" />
+                            {roster.length ? unseated.length ? 'No one matches that search.' : 'Everyone has a seat.' : 'Import a class list from the Roster page to seat students.'}
+                          </div>
+                        )}
+                      </UnseatedZone>
+                    </div>
+                  </aside>
+                </div>
+              </DndContext>
+
+              <Dialog
+                isOpen={deleteOpen}
+                onClose={() => setDeleteOpen(false)}
+                onConfirm={confirmDelete}
+                title={`Delete ${draft.room || 'this room'}?`}
+                message="The seating chart for this room is removed for every instructor on the class. Attendance and marks are not affected."
+                confirmText="Delete room"
+                variant="destructive"
+              />
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  getAccessibleSessions,
+  getCaseStudyForSession,
+  getGradeAuditsBySession,
+  getResponsesBySession,
+  getStudentsByIds,
+  saveGradeDecisions,
+  type GradeDecision,
+} from '@/lib/firebase/firestore';
+import {
+  buildGradingQueue,
+  getAiSuggestedPoints,
+  getGradingState,
+  orderForBlindGrading,
+  validateGradePoints,
+  type GradingFilter,
+  type GradingState,
+} from '@/lib/grading-queue';
+import { findQuestionRubric, findRubricLevel } from '@/lib/rubrics';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { CaseStudy, GradeAuditEntry, Response, Session, Student } from '@/types';
+import { CheckCircle2, ClipboardCheck, EyeOff, History, Sparkles } from 'lucide-react';
+
+const stateLabel: Record<GradingState, string> = {
+  ungraded: 'Not graded',
+  'ai-suggested': 'AI suggested',
+  approved: 'Approved',
+  overridden: 'Overridden',
+};
+
+const stateTone: Record<GradingState, string> = {
+  ungraded: 'bg-[#f3f4f8] text-[#697087]',
+  'ai-suggested': 'bg-[#fff6d9] text-[#8d6200]',
+  approved: 'bg-[#edf8f0] text-[#26743c]',
+  overridden: 'bg-[#f0efff] text-[#5146e5]',
+};
+
+const auditLabel: Record<GradeAuditEntry['action'], string> = {
+  'approve-ai': 'Approved AI score',
+  override: 'Set score',
+  'bulk-approve-ai': 'Bulk-approved AI score',
+};
+
+function sessionLabel(session: Session) {
+  const date = session.startedAt?.toDate?.() || session.createdAt?.toDate?.();
+  const title = session.caseStudyTitle || session.title || 'Case study session';
+  return date ? `${title} · ${new Intl.DateTimeFormat('en', { month: 'short', day: 'numeric' }).format(date)}` : title;
+}
+
+type Draft = { points: string; feedback: string };
+
+function GradingContent() {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState('');
+  const [caseStudy, setCaseStudy] = useState<CaseStudy | null>(null);
+  const [responses, setResponses] = useState<Response[]>([]);
+  const [students, setStudents] = useState<Record<string, Student>>({});
+  const [audits, setAudits] = useState<GradeAuditEntry[]>([]);
+  const [selectedQuestionId, setSelectedQuestionId] = useState('');
+  const [filter, setFilter] = useState<GradingFilter>('needs-review');
+  const [blind, setBlind] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingSession, setLoadingSession] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    getAccessibleSessions(user.uid)
+      .then((sessionData) => {
+        const caseSessions = sessionData
+          .filter((session) => session.caseStudyId)
+          .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+        setSessions(caseSessions);
+        setSelectedSessionId((current) => current || caseSessions[0]?.id || '');
+      })
+      .catch((loadError) => {
+        console.error('Grading sessions could not be loaded:', loadError);
+        setError('Sessions could not be loaded. Refresh the page and try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const selectedSession = useMemo(() => sessions.find((session) => session.id === selectedSessionId), [sessions, selectedSessionId]);
+
+  useEffect(() => {
+    const caseStudyId = selectedSession?.caseStudyId;
+    if (!selectedSession || !caseStudyId) return;
+    let cancelled = false;
+    const loadSession = async () => {
+      setLoadingSession(true);
+      setError('');
+      setSelected(new Set());
+      setDrafts({});
+      try {
+        const [caseStudyData, responseData, auditData] = await Promise.all([
+          getCaseStudyForSession(selectedSession),
+          getResponsesBySession(selectedSession.id),
+          getGradeAuditsBySession(selectedSession.id, selectedSession.teacherId).catch((auditError) => {
+            console.warn('Grade history could not be loaded:', auditError);
+            return [] as GradeAuditEntry[];
+          }),
+        ]);
+        const studentData = await getStudentsByIds(Array.from(new Set(responseData.map((response) => response.studentId))));
+        if (cancelled) return;
+        const studentMap: Record<string, Student> = {};
+        studentData.forEach((student) => {
+          studentMap[student.id] = student;
+          studentMap[student.studentId] = student;
+        });
+        setCaseStudy(caseStudyData);
+        setResponses(responseData);
+        setAudits(auditData);
+        setStudents(studentMap);
+      } catch (loadError) {
+        console.error('Grading queue could not be loaded:', loadError);
+        if (!cancelled) setError(getUserFacingError(loadError, 'Responses could not be loaded. Refresh the page and try again.'));
+      } finally {
+        if (!cancelled) setLoadingSession(false);
+      }
+    };
+    loadSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSession]);
+
+  const queue = useMemo(() => (caseStudy ? buildGradingQueue(caseStudy, responses, filter) : []), [caseStudy, filter, responses]);
+  const activeQuestion = queue.find((item) => item.question.id === selectedQuestionId) || queue.find((item) => item.needsReview > 0) || queue[0];
+  const rubric = caseStudy && activeQuestion ? findQuestionRubric(caseStudy, activeQuestion.question.id).rubric : undefined;
+  const visibleResponses = useMemo(() => {
+    if (!activeQuestion) return [];
+    if (blind) return orderForBlindGrading(activeQuestion.responses);
+    return activeQuestion.responses.map((response) => ({ response, label: students[response.studentId]?.name || response.studentId }));
+  }, [activeQuestion, blind, students]);
+  const auditsByResponse = useMemo(() => audits.reduce<Record<string, GradeAuditEntry[]>>((groups, audit) => {
+    (groups[audit.responseId] ||= []).push(audit);
+    return groups;
+  }, {}), [audits]);
+  const selectableIds = visibleResponses
+    .filter(({ response }) => getGradingState(response) === 'ai-suggested' && getAiSuggestedPoints(response) !== null)
+    .map(({ response }) => response.id);
+
+  const applyDecisions = async (decisions: GradeDecision[]) => {
+    if (!user || !selectedSession || !decisions.length) return;
+    setSaving(true);
+    setError('');
+    try {
+      const gradedAt = await saveGradeDecisions(decisions, { uid: user.uid, name: user.name }, selectedSession.teacherId);
+      const byId = new Map(decisions.map((decision) => [decision.response.id, decision]));
+      setResponses((current) => current.map((response) => {
+        const decision = byId.get(response.id);
+        if (!decision) return response;
+        const feedback = decision.feedback?.trim();
+        return {
+          ...response,
+          points: decision.points,
+          gradedAt,
+          gradedBy: user.uid,
+          gradeStatus: decision.action === 'override' ? 'overridden' : 'approved',
+          ...(feedback !== undefined ? { instructorFeedback: feedback } : {}),
+        };
+      }));
+      setAudits(await getGradeAuditsBySession(selectedSession.id, selectedSession.teacherId).catch(() => audits));
+      setSelected(new Set());
+      setDrafts((current) => Object.fromEntries(Object.entries(current).filter(([id]) => !byId.has(id))));
+    } catch (saveError) {
+      console.error('Grades could not be saved:', saveError);
+      setError(getUserFacingError(saveError, 'Grades could not be saved. Try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveOne = (response: Response) => {
+    const draft = drafts[response.id];
+    const aiPoints = getAiSuggestedPoints(response);
+    const points = draft?.points.trim() ? Number(draft.points) : aiPoints ?? response.points ?? Number.NaN;
+    const validation = validateGradePoints(points, response.maxPoints);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    applyDecisions([{
+      response,
+      points,
+      feedback: draft?.feedback ?? response.instructorFeedback,
+      action: aiPoints === points && getGradingState(response) === 'ai-suggested' ? 'approve-ai' : 'override',
+    }]);
+  };
+
+  const approveSelected = () => applyDecisions(visibleResponses
+    .filter(({ response }) => selected.has(response.id))
+    .map(({ response }) => ({ response, points: getAiSuggestedPoints(response) ?? 0, action: 'bulk-approve-ai' as const })));
+
+  const updateDraft = (response: Response, changes: Partial<Draft>) => {
+    setDrafts((current) => ({
+      ...current,
+      [response.id]: {
+        ...(current[response.id] || {
+          points: String(getAiSuggestedPoints(response) ?? response.points ?? ''),
+          feedback: response.instructorFeedback || '',
+        }),
+        ...changes,
+      },
+    }));
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-[1600px] p-5 sm:p-8 lg:p-10">
+          <header className="max-w-3xl">
+            <p className="seminar-eyebrow mb-3">Grading</p>
+            <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">Confirm every grade before students see it.</h1>
+            <p className="mt-3 max-w-2xl text-base leading-7 text-[#697087]">AI scores open-ended answers as a suggestion. Approve them, adjust the points, or add your own feedback. Every decision is kept in the grade history.</p>
+          </header>
+
+          {error && <InlineMessage className="mt-6" title="Grading needs attention." message={error} />}
+          {loading ? <div className="grid min-h-96 place-items-center" role="status" aria-label="Loading grading queue"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : sessions.length === 0 ? (
+            <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white p-10 text-center">
+              <ClipboardCheck className="mx-auto h-9 w-9 text-[#9298a8]" />
+              <h2 className="seminar-display mt-4 text-3xl text-[#101a38]">Nothing to grade yet.</h2>
+              <p className="mx-auto mt-2 max-w-lg text-sm leading-6 text-[#697087]">Responses to case study questions appear here after students answer them in a session.</p>
+              <Link href="/dashboard/library"><Button className="mt-5">Open library</Button></Link>
+            </section>
+          ) : (
+            <>
+              <section className="mt-8 flex flex-col gap-4 rounded-3xl border border-[#e1e3ec] bg-white p-5 lg:flex-row lg:items-end lg:justify-between">
+                <label className="block min-w-0 flex-1 lg:max-w-md">
+                  <span className="seminar-eyebrow">Session</span>
+                  <select value={selectedSessionId} onChange={(event) => { setSelectedSessionId(event.target.value); setSelectedQuestionId(''); }} className="mt-2 w-full rounded-xl border border-[#e3e5ed] bg-[#fffefa] px-3 py-2.5 text-sm text-[#101a38]">
+                    {sessions.map((session) => <option key={session.id} value={session.id}>{sessionLabel(session)}</option>)}
+                  </select>
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {(['needs-review', 'all'] as const).map((value) => (
+                    <button key={value} type="button" onClick={() => setFilter(value)} aria-pressed={filter === value} className={`rounded-full border px-4 py-2 text-sm font-bold transition ${filter === value ? 'border-[#5146e5] bg-[#f0efff] text-[#5146e5]' : 'border-[#e3e5ed] text-[#697087] hover:border-[#b9b5ec]'}`}>{value === 'needs-review' ? 'Needs review' : 'All responses'}</button>
+                  ))}
+                  <button type="button" onClick={() => setBlind((value) => !value)} aria-pressed={blind} className={`inline-flex items-center gap-2 rounded-full border px-4 py-2 text-sm font-bold transition ${blind ? 'border-[#101a38] bg-[#101a38] text-white' : 'border-[#e3e5ed] text-[#697087] hover:border-[#b9b5ec]'}`}><EyeOff className="h-4 w-4" />Blind grading</button>
+                </div>
+              </section>
+
+              {loadingSession ? <div className="grid min-h-64 place-items-center" role="status" aria-label="Loading responses"><AmbientLoading className="w-36 rounded-full" announce="off" /></div> : queue.length === 0 ? (
+                <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white px-6 py-14 text-center">
+                  <CheckCircle2 className="mx-auto h-9 w-9 text-[#32864a]" />
+                  <h2 className="seminar-display mt-4 text-3xl text-[#101a38]">This case study has no open-ended questions.</h2>
+                  <p className="mx-auto mt-2 max-w-md text-sm leading-6 text-[#697087]">Multiple choice answers are scored automatically and do not need review.</p>
+                </section>
+              ) : (
+                <div className="mt-6 grid gap-6 xl:grid-cols-[320px_minmax(0,1fr)]">
+                  <nav className="space-y-2" aria-label="Questions">
+                    {queue.map((item) => {
+                      const active = item.question.id === activeQuestion?.question.id;
+                      return <button key={item.question.id} type="button" onClick={() => { setSelectedQuestionId(item.question.id); setSelected(new Set()); }} aria-pressed={active} className={`w-full rounded-2xl border p-4 text-left transition ${active ? 'border-[#5146e5] bg-[#f0efff]' : 'border-[#e3e5ed] bg-white hover:border-[#b9b5ec]'}`}><span className="text-[10px] font-bold uppercase tracking-[0.08em] text-[#5146e5]">{item.section.title}</span><strong className="mt-1 line-clamp-2 block text-sm text-[#101a38]">{item.question.text}</strong><span className={`mt-2 block text-xs font-bold ${item.needsReview ? 'text-[#8d6200]' : 'text-[#26743c]'}`}>{item.needsReview ? `${item.needsReview} to review` : 'All graded'}</span></button>;
+                    })}
+                  </nav>
+
+                  {activeQuestion && (
+                    <section className="min-w-0 rounded-3xl border border-[#e1e3ec] bg-white p-5 sm:p-7" aria-labelledby="grading-question-heading">
+                      <div className="flex flex-col gap-4 border-b border-[#e3e5ed] pb-5 lg:flex-row lg:items-end lg:justify-between">
+                        <div className="min-w-0">
+                          <p className="seminar-eyebrow">{activeQuestion.question.points} points{rubric ? ` · ${rubric.title}` : ''}</p>
+                          <h2 id="grading-question-heading" className="seminar-display mt-2 text-2xl text-[#101a38]">{activeQuestion.question.text}</h2>
+                        </div>
+                        <div className="flex shrink-0 items-center gap-3">
+                          <label className="flex items-center gap-2 text-sm text-[#697087]">
+                            <input type="checkbox" checked={selectableIds.length > 0 && selectableIds.every((id) => selected.has(id))} disabled={!selectableIds.length} onChange={(event) => setSelected(event.target.checked ? new Set(selectableIds) : new Set())} />
+                            Select AI scores
+                          </label>
+                          <Button onClick={approveSelected} disabled={!selected.size || saving} loading={saving} className="gap-2"><Sparkles className="h-4 w-4" />Approve {selected.size || ''} AI {selected.size === 1 ? 'score' : 'scores'}</Button>
+                        </div>
+                      </div>
+
+                      {visibleResponses.length === 0 ? (
+                        <p className="mt-5 rounded-2xl bg-[#f8f7fb] p-5 text-sm text-[#697087]">{filter === 'needs-review' ? 'Every response to this question has been graded.' : 'No responses to this question yet.'}</p>
+                      ) : (
+                        <div className="mt-5 space-y-4">
+                          {visibleResponses.map(({ response, label }) => {
+                            const state = getGradingState(response);
+                            const aiPoints = getAiSuggestedPoints(response);
+                            const draft = drafts[response.id];
+                            const history = auditsByResponse[response.id] || [];
+                            return (
+                              <article key={response.id} className="rounded-2xl border border-[#e3e5ed] p-4">
+                                <div className="flex items-start justify-between gap-3">
+                                  <div className="flex items-center gap-3">
+                                    {state === 'ai-suggested' && aiPoints !== null && <input type="checkbox" aria-label={`Select ${label}`} checked={selected.has(response.id)} onChange={(event) => setSelected((current) => { const next = new Set(current); if (event.target.checked) next.add(response.id); else next.delete(response.id); return next; })} />}
+                                    <strong className="text-sm text-[#101a38]">{label}</strong>
+                                  </div>
+                                  <span className={`rounded-full px-2.5 py-1 text-[10px] font-bold uppercase tracking-[0.08em] ${stateTone[state]}`}>{stateLabel[state]}</span>
+                                </div>
+                                <p className="mt-3 whitespace-pre-wrap rounded-xl bg-[#f8f7fb] p-3 text-sm leading-6 text-[#101a38]">{response.response}</p>
+
+                                {response.assessment && (
+                                  <div className="mt-3 rounded-xl border border-[#f1dba4] bg-[#fff9e8] p-3 text-sm">
+                                    <p className="font-bold text-[#8d6200]">AI suggestion: {response.assessment.score}/{response.maxPoints}</p>
+                                    <p className="mt-1 leading-6 text-[#313950]">{response.assessment.feedback}</p>
+                                    {rubric && response.assessment.criteria && (
+                                      <ul className="mt-2 space-y-1 text-xs text-[#697087]">
+                                        {rubric.criteria.map((criterion) => {
+                                          const criterionScore = response.assessment?.criteria?.[criterion.id];
+                                          if (!criterionScore) return null;
+                                          const level = criterion.levels.find((item) => item.id === criterionScore.levelId) || findRubricLevel(criterion, criterionScore.score);
+                                          return <li key={criterion.id}><strong className="text-[#313950]">{criterion.name}</strong>: {criterionScore.score}/{criterionScore.maxPoints}{level ? ` (${level.label})` : ''}{criterionScore.evidence ? ` · ${criterionScore.evidence}` : ''}</li>;
+                                        })}
+                                      </ul>
+                                    )}
+                                  </div>
+                                )}
+
+                                <div className="mt-3 grid gap-3 sm:grid-cols-[8rem_minmax(0,1fr)_auto] sm:items-end">
+                                  <label className="block text-xs font-bold text-[#313950]">
+                                    Points
+                                    <input type="number" min="0" max={response.maxPoints} step="0.5" value={draft?.points ?? String(aiPoints ?? response.points ?? '')} onChange={(event) => updateDraft(response, { points: event.target.value })} className="mt-1 w-full rounded-lg border border-[#e3e5ed] px-2 py-1.5 text-sm font-normal" />
+                                  </label>
+                                  <label className="block text-xs font-bold text-[#313950]">
+                                    Feedback to student
+                                    <textarea rows={2} value={draft?.feedback ?? response.instructorFeedback ?? ''} onChange={(event) => updateDraft(response, { feedback: event.target.value })} placeholder="Optional" className="mt-1 w-full rounded-lg border border-[#e3e5ed] px-2 py-1.5 text-sm font-normal" />
+                                  </label>
+                                  <Button size="sm" onClick={() => saveOne(response)} disabled={saving}>{state === 'ai-suggested' && (!draft || Number(draft.points) === aiPoints) ? 'Approve' : 'Save grade'}</Button>
+                                </div>
+
+                                {history.length > 0 && (
+                                  <details className="mt-3 text-xs text-[#697087]">
+                                    <summary className="inline-flex cursor-pointer items-center gap-1 font-bold"><History className="h-3.5 w-3.5" />Grade history ({history.length})</summary>
+                                    <ul className="mt-2 space-y-1">
+                                      {history.map((audit) => <li key={audit.id}>{audit.createdAt?.toDate?.().toLocaleString()} · {auditLabel[audit.action]} · {audit.previousPoints ?? '—'} → {audit.points}{audit.gradedByName ? ` by ${audit.gradedByName}` : ''}</li>)}
+                                    </ul>
+                                  </details>
+                                )}
+                              </article>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </section>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
+
+export default function GradingPage() {
+  return <GradingContent />;
+}
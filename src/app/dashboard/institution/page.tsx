@@ -0,0 +1,359 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  addInstitutionDomain,
+  assignInstitutionSeat,
+  getInstitutionConsole,
+  releaseInstitutionSeat,
+  removeInstitutionDomain,
+  removeInstitutionMember,
+  saveInstitutionDefaults,
+  saveInstitutionSso,
+  setInstitutionRole,
+  verifyInstitutionDomain,
+} from '@/lib/firebase/institution';
+import { INSTITUTION_ASSESSMENT_PROVIDERS, PARTICIPATION_MODE_OPTIONS } from '@/lib/institution';
+import { MAX_RETENTION_DAYS, RETENTION_ANCHORS, RETENTION_CATEGORIES, RETENTION_DAYS } from '@/lib/retention';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { InstitutionConsole, InstitutionDefaults, InstitutionRole, InstitutionSsoSettings, RetentionCategory, RetentionRule } from '@/types';
+import { ArrowRight, Check, Globe2, KeyRound, Plus, RefreshCw, SlidersHorizontal, Trash2, UsersRound } from 'lucide-react';
+
+type Member = InstitutionConsole['members'][number];
+
+const fieldClass = 'mt-2 w-full rounded-xl border border-[#e3e5ed] bg-[#fffefa] px-3 py-2.5 text-sm text-[#101a38]';
+
+function formatDate(value: string | null) {
+  return value ? new Intl.DateTimeFormat('en', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(value)) : '';
+}
+
+function InstitutionConsoleContent() {
+  const { user } = useAuth();
+  const [data, setData] = useState<InstitutionConsole | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [newDomain, setNewDomain] = useState('');
+  const [sso, setSso] = useState<InstitutionSsoSettings>({ protocol: 'oidc', required: false });
+  const [clientSecret, setClientSecret] = useState('');
+  const [defaults, setDefaults] = useState<InstitutionDefaults>({});
+
+  const load = useCallback(async () => {
+    try {
+      const result = await getInstitutionConsole();
+      setData(result);
+      setSso(result.institution.sso || { protocol: 'oidc', required: false });
+      setDefaults(result.institution.defaults);
+      setError('');
+    } catch (loadError) {
+      console.error('Institution console could not be loaded:', loadError);
+      setError(getUserFacingError(loadError, 'The institution console could not be opened. Refresh and try again.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) void load();
+  }, [user, load]);
+
+  /** Runs one admin action, then reloads the console so seats, domains and members stay in step. */
+  const run = async (key: string, action: () => Promise<unknown>, success: string, failure: string) => {
+    setWorking(key);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      await load();
+      setNotice(success);
+      return true;
+    } catch (actionError) {
+      console.error('Institution action failed:', actionError);
+      setError(getUserFacingError(actionError, failure));
+      return false;
+    } finally {
+      setWorking('');
+    }
+  };
+
+  const addDomain = async () => {
+    if (!newDomain.trim()) return;
+    if (await run('add-domain', () => addInstitutionDomain(newDomain.trim()), 'Domain added. Publish the TXT record, then verify it.', 'This domain could not be added. Check it and try again.')) setNewDomain('');
+  };
+
+  const verifyDomain = async (domain: string) => {
+    setWorking(`verify:${domain}`);
+    setError('');
+    setNotice('');
+    try {
+      const result = await verifyInstitutionDomain(domain);
+      await load();
+      if (result.verified) setNotice(`${domain} is verified. Instructors with addresses there can now join.`);
+      else setError(`The TXT record was not found on ${domain} yet. DNS changes can take up to an hour to appear.`);
+    } catch (verifyError) {
+      setError(getUserFacingError(verifyError, 'This domain could not be checked. Try again.'));
+    } finally {
+      setWorking('');
+    }
+  };
+
+  const removeDomain = (domain: string) => {
+    if (!window.confirm(`Remove ${domain}? Instructors there will no longer be able to join.`)) return;
+    void run(`remove:${domain}`, () => removeInstitutionDomain(domain), `${domain} removed.`, 'This domain could not be removed. Try again.');
+  };
+
+  const toggleSeat = (member: Member) => {
+    void run(
+      `seat:${member.uid}`,
+      () => (member.seat ? releaseInstitutionSeat(member.uid) : assignInstitutionSeat(member.uid)),
+      member.seat ? `Seat released from ${member.name || member.email}.` : `Seat assigned to ${member.name || member.email}.`,
+      'The seat could not be changed. Try again.',
+    );
+  };
+
+  const changeRole = (member: Member, role: InstitutionRole) => {
+    void run(`role:${member.uid}`, () => setInstitutionRole(member.uid, role), `${member.name || member.email} is now ${role === 'admin' ? 'an admin' : 'an instructor'}.`, 'The role could not be changed. Try again.');
+  };
+
+  const removeMember = (member: Member) => {
+    if (!window.confirm(`Remove ${member.name || member.email} from the institution? Their seat is released and their own courses stay with them.`)) return;
+    void run(`remove-member:${member.uid}`, () => removeInstitutionMember(member.uid), `${member.name || member.email} removed.`, 'This instructor could not be removed. Try again.');
+  };
+
+  const saveSso = async () => {
+    if (sso.required && !window.confirm('Require single sign-on? Members signed in another way, except you, will be signed out.')) return;
+    if (await run('sso', () => saveInstitutionSso(sso, clientSecret.trim() || undefined), 'Sign-in settings saved.', 'The sign-in settings were not saved. Check them and try again.')) setClientSecret('');
+  };
+
+  const removeSso = () => {
+    if (!window.confirm('Remove single sign-on? Members can sign in with any method again.')) return;
+    void run('sso', () => saveInstitutionSso(null), 'Single sign-on removed.', 'Single sign-on could not be removed. Try again.');
+  };
+
+  const setRetentionRule = (category: RetentionCategory, rule: RetentionRule | null) => {
+    setDefaults((current) => {
+      const retention = { ...current.retention };
+      if (rule) retention[category] = rule;
+      else delete retention[category];
+      return { ...current, retention };
+    });
+  };
+
+  const institution = data?.institution;
+  const verifiedDomains = institution?.domains.filter((entry) => entry.verified).map((entry) => entry.domain) || [];
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-5xl p-5 sm:p-8 lg:p-10">
+          <header className="max-w-3xl">
+            <p className="seminar-eyebrow mb-3">Institution admin</p>
+            <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">{institution?.name || 'Your institution'}</h1>
+            <p className="mt-3 text-base leading-7 text-[#697087]">Verify your domains, assign seats and set how your instructors sign in. Defaults apply wherever an instructor has not chosen their own.</p>
+          </header>
+
+          {error && <InlineMessage className="mt-6" title="The institution needs attention." message={error} />}
+          {notice && <p role="status" className="mt-6 flex items-center gap-2 rounded-xl bg-[#edf8ef] px-4 py-3 text-sm text-[#2f6f43]"><Check className="h-4 w-4" />{notice}</p>}
+
+          {loading ? <div className="grid min-h-80 place-items-center" role="status" aria-label="Loading institution"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : institution && data && (
+            <>
+              <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white p-6" aria-labelledby="domains-title">
+                <div className="flex items-start gap-3">
+                  <Globe2 className="mt-1 h-5 w-5 text-[#5146e5]" />
+                  <div className="min-w-0 flex-1">
+                    <h2 id="domains-title" className="text-lg font-bold text-[#101a38]">Email domains</h2>
+                    <p className="mt-1 text-sm leading-6 text-[#697087]">Publish the TXT record in your domain&apos;s DNS to prove your institution controls it. Instructors on a verified domain can join.</p>
+                    <ul className="mt-4 divide-y divide-[#eceef3]">
+                      {institution.domains.map((entry) => (
+                        <li key={entry.domain} className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center">
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm font-semibold text-[#101a38]">{entry.domain} <span className={`ml-2 rounded-full px-2.5 py-0.5 text-xs font-bold ${entry.verified ? 'bg-[#edf8ef] text-[#2f6f43]' : 'bg-[#fff6df] text-[#8a6113]'}`}>{entry.verified ? `Verified ${formatDate(entry.verifiedAt)}` : 'Not verified'}</span></p>
+                            <code className="mt-1 block break-all text-xs text-[#4f5770]">{entry.record}</code>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button variant="outline" onClick={() => verifyDomain(entry.domain)} loading={working === `verify:${entry.domain}`} disabled={Boolean(working)} className="gap-2"><RefreshCw className="h-4 w-4" /> {entry.verified ? 'Check again' : 'Verify'}</Button>
+                            <button type="button" onClick={() => removeDomain(entry.domain)} disabled={Boolean(working)} aria-label={`Remove ${entry.domain}`} className="seminar-focus rounded-lg p-2 text-[#9b6b62] hover:bg-[#fff1ee] hover:text-[#b64936]"><Trash2 className="h-4 w-4" /></button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+                      <label className="block min-w-0 flex-1">
+                        <span className="seminar-eyebrow">Add a domain</span>
+                        <input value={newDomain} onChange={(event) => setNewDomain(event.target.value)} placeholder="faculty.university.edu" className={fieldClass} />
+                      </label>
+                      <Button variant="outline" onClick={addDomain} loading={working === 'add-domain'} disabled={!newDomain.trim() || Boolean(working)} className="gap-2"><Plus className="h-4 w-4" /> Add domain</Button>
+                    </div>
+                  </div>
+                </div>
+              </section>
+
+              <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6" aria-labelledby="members-title">
+                <div className="flex items-start gap-3">
+                  <UsersRound className="mt-1 h-5 w-5 text-[#5146e5]" />
+                  <div className="min-w-0 flex-1">
+                    <h2 id="members-title" className="text-lg font-bold text-[#101a38]">Instructors and seats</h2>
+                    <p className="mt-1 text-sm leading-6 text-[#697087]">{institution.seatsAssigned} of {institution.seatLimit} seats assigned. A seat covers the instructor&apos;s plan while they hold it. Contact Classfully to change your seat count.</p>
+                    <div className="mt-4 overflow-x-auto">
+                      <table className="w-full min-w-[640px] text-left text-sm">
+                        <thead className="text-xs uppercase tracking-wide text-[#697087]">
+                          <tr><th className="py-2 pr-3 font-semibold">Instructor</th><th className="py-2 pr-3 font-semibold">Role</th><th className="py-2 pr-3 font-semibold">Courses</th><th className="py-2 pr-3 font-semibold">Last SSO sign-in</th><th className="py-2 pr-3 font-semibold">Seat</th><th className="py-2 font-semibold"><span className="sr-only">Remove</span></th></tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#eceef3]">
+                          {data.members.map((member) => (
+                            <tr key={member.uid}>
+                              <td className="py-3 pr-3"><strong className="block text-[#101a38]">{member.name || member.email}</strong><span className="text-xs text-[#697087]">{member.email}</span></td>
+                              <td className="py-3 pr-3">
+                                <select value={member.role} onChange={(event) => changeRole(member, event.target.value as InstitutionRole)} disabled={Boolean(working) || member.uid === user?.uid} aria-label={`Role for ${member.name || member.email}`} className="rounded-lg border border-[#e3e5ed] bg-white px-2 py-1.5 text-sm text-[#101a38]">
+                                  <option value="instructor">Instructor</option>
+                                  <option value="admin">Admin</option>
+                                </select>
+                              </td>
+                              <td className="py-3 pr-3 text-[#4f5770]">{member.courseCount}</td>
+                              <td className="py-3 pr-3 text-[#4f5770]">{formatDate(member.lastSsoSignInAt) || '—'}</td>
+                              <td className="py-3 pr-3"><Button variant={member.seat ? 'outline' : 'primary'} size="sm" onClick={() => toggleSeat(member)} loading={working === `seat:${member.uid}`} disabled={Boolean(working) || (!member.seat && institution.seatsAssigned >= institution.seatLimit)}>{member.seat ? 'Release' : 'Assign'}</Button></td>
+                              <td className="py-3 text-right">{member.uid !== user?.uid && <button type="button" onClick={() => removeMember(member)} disabled={Boolean(working)} aria-label={`Remove ${member.name || member.email}`} className="seminar-focus rounded-lg p-2 text-[#9b6b62] hover:bg-[#fff1ee] hover:text-[#b64936]"><Trash2 className="h-4 w-4" /></button>}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+              </section>
+
+              <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6" aria-labelledby="courses-title">
+                <h2 id="courses-title" className="text-lg font-bold text-[#101a38]">Courses</h2>
+                <p className="mt-1 text-sm leading-6 text-[#697087]">Every course your instructors own. Course content and student work stay with the instructor who teaches it.</p>
+                {data.courses.length === 0 ? <p className="mt-4 text-sm text-[#697087]">No courses yet.</p> : (
+                  <ul className="mt-4 divide-y divide-[#eceef3]">
+                    {data.courses.map((course) => {
+                      const owner = data.members.find((member) => member.uid === course.teacherId);
+                      return (
+                        <li key={course.id} className="flex flex-wrap items-center gap-3 py-3">
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate text-sm font-semibold text-[#101a38]">{[course.code, course.name].filter(Boolean).join(' · ')}</p>
+                            <p className="text-xs text-[#697087]">{[owner?.name || owner?.email, course.term, `${course.studentCount} ${course.studentCount === 1 ? 'student' : 'students'}`].filter(Boolean).join(' · ')}</p>
+                          </div>
+                          {course.archived && <span className="rounded-full bg-[#f1f2f6] px-2.5 py-1 text-xs font-bold text-[#697087]">Archived</span>}
+                          {course.teacherId === user?.uid && <Link href={`/dashboard/classes/${course.id}`} className="seminar-focus inline-flex items-center gap-1 rounded-lg text-sm font-semibold text-[#5146e5]">Open <ArrowRight className="h-4 w-4" /></Link>}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+
+              <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6" aria-labelledby="sso-title">
+                <div className="flex items-start gap-3">
+                  <KeyRound className="mt-1 h-5 w-5 text-[#5146e5]" />
+                  <div className="min-w-0 flex-1">
+                    <h2 id="sso-title" className="text-lg font-bold text-[#101a38]">Single sign-on</h2>
+                    <p className="mt-1 text-sm leading-6 text-[#697087]">Connect your identity provider. While single sign-on is required, instructors can only use Classfully after signing in through it.</p>
+                    <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                      <label className="block">
+                        <span className="seminar-eyebrow">Protocol</span>
+                        <select value={sso.protocol} onChange={(event) => setSso((current) => ({ ...current, protocol: event.target.value as InstitutionSsoSettings['protocol'] }))} className={fieldClass}>
+                          <option value="oidc">OpenID Connect</option>
+                          <option value="saml">SAML</option>
+                        </select>
+                      </label>
+                      {sso.protocol === 'oidc' ? (
+                        <>
+                          <label className="block"><span className="seminar-eyebrow">Issuer</span><input value={sso.issuer || ''} onChange={(event) => setSso((current) => ({ ...current, issuer: event.target.value }))} placeholder="https://login.university.edu" className={fieldClass} /></label>
+                          <label className="block"><span className="seminar-eyebrow">Client ID</span><input value={sso.clientId || ''} onChange={(event) => setSso((current) => ({ ...current, clientId: event.target.value }))} className={fieldClass} /></label>
+                          <label className="block"><span className="seminar-eyebrow">Client secret</span><input type="password" value={clientSecret} onChange={(event) => setClientSecret(event.target.value)} placeholder={data.hasClientSecret ? 'Saved. Enter a new one to replace it.' : ''} autoComplete="off" className={fieldClass} /></label>
+                          <p className="text-xs leading-5 text-[#697087] sm:col-span-2">Register this redirect URI with your provider: <code className="break-all text-[#4f5770]">{data.callbackUrl}</code></p>
+                        </>
+                      ) : (
+                        <label className="block"><span className="seminar-eyebrow">Firebase SAML provider ID</span><input value={sso.providerId || ''} onChange={(event) => setSso((current) => ({ ...current, providerId: event.target.value }))} placeholder="saml.university" className={fieldClass} /></label>
+                      )}
+                    </div>
+                    <label className="mt-4 flex items-start gap-3 text-sm text-[#313950]">
+                      <input type="checkbox" checked={sso.required} onChange={(event) => setSso((current) => ({ ...current, required: event.target.checked }))} className="mt-1 h-4 w-4 accent-[#5146e5]" />
+                      <span><strong className="block text-[#101a38]">Require single sign-on for all members</strong>Sign in with single sign-on yourself before turning this on.</span>
+                    </label>
+                    {verifiedDomains.length === 0 && <p className="mt-3 text-xs text-[#8a6113]">Verify a domain first. Single sign-on only accepts addresses on your verified domains.</p>}
+                    <div className="mt-5 flex justify-end gap-2">
+                      {institution.sso && <Button variant="ghost" onClick={removeSso} disabled={Boolean(working)}>Remove</Button>}
+                      <Button onClick={saveSso} loading={working === 'sso'} disabled={Boolean(working)}>Save sign-in settings</Button>
+                    </div>
+                  </div>
+                </div>
+              </section>
+
+              <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6" aria-labelledby="defaults-title">
+                <div className="flex items-start gap-3">
+                  <SlidersHorizontal className="mt-1 h-5 w-5 text-[#5146e5]" />
+                  <div className="min-w-0 flex-1">
+                    <h2 id="defaults-title" className="text-lg font-bold text-[#101a38]">Defaults for instructors</h2>
+                    <p className="mt-1 text-sm leading-6 text-[#697087]">Used wherever an instructor has not set their own. Instructors can still change any of these for their workspace, courses or sessions.</p>
+                    <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                      <label className="block">
+                        <span className="seminar-eyebrow">Answer scoring</span>
+                        <select value={defaults.assessmentProvider || ''} onChange={(event) => setDefaults((current) => ({ ...current, assessmentProvider: (event.target.value || undefined) as InstitutionDefaults['assessmentProvider'] }))} className={fieldClass}>
+                          <option value="">Classfully default</option>
+                          {INSTITUTION_ASSESSMENT_PROVIDERS.map((provider) => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+                        </select>
+                        {defaults.assessmentProvider && <span className="mt-1 block text-xs text-[#697087]">{INSTITUTION_ASSESSMENT_PROVIDERS.find((provider) => provider.id === defaults.assessmentProvider)?.description}</span>}
+                      </label>
+                      <label className="block">
+                        <span className="seminar-eyebrow">Participation</span>
+                        <select value={defaults.participationMode || ''} onChange={(event) => setDefaults((current) => ({ ...current, participationMode: (event.target.value || undefined) as InstitutionDefaults['participationMode'] }))} className={fieldClass}>
+                          <option value="">Classfully default</option>
+                          {PARTICIPATION_MODE_OPTIONS.map((mode) => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                        </select>
+                      </label>
+                    </div>
+                    <h3 className="mt-6 text-sm font-bold text-[#101a38]">Data retention</h3>
+                    <ul className="mt-2 divide-y divide-[#eceef3]">
+                      {RETENTION_CATEGORIES.map((category) => {
+                        const rule = defaults.retention?.[category.id];
+                        return (
+                          <li key={category.id} className="flex flex-wrap items-center gap-3 py-3">
+                            <span className="min-w-40 flex-1 text-sm font-semibold text-[#101a38]">{category.label}</span>
+                            {rule && rule.after !== 'never' && (
+                              <input type="number" min={1} max={MAX_RETENTION_DAYS} value={rule.days} onChange={(event) => setRetentionRule(category.id, { ...rule, days: Math.max(1, Math.min(MAX_RETENTION_DAYS, Number(event.target.value) || 1)) })} aria-label={`${category.label} days`} className="w-20 rounded-lg border border-[#e3e5ed] px-2 py-1.5 text-sm text-[#101a38]" />
+                            )}
+                            {rule && rule.after !== 'never' && <span className="text-sm text-[#4f5770]">days</span>}
+                            <select
+                              value={rule?.after || ''}
+                              onChange={(event) => {
+                                const after = event.target.value as RetentionRule['after'] | '';
+                                setRetentionRule(category.id, after ? { after, days: after === 'never' ? 0 : rule?.days || RETENTION_DAYS } : null);
+                              }}
+                              aria-label={`${category.label} retention`}
+                              className="rounded-lg border border-[#e3e5ed] bg-white px-2 py-1.5 text-sm text-[#101a38]"
+                            >
+                              <option value="">Classfully default</option>
+                              {RETENTION_ANCHORS.map((anchor) => <option key={anchor.id} value={anchor.id}>{anchor.label}</option>)}
+                            </select>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    <div className="mt-5 flex justify-end">
+                      <Button onClick={() => run('defaults', () => saveInstitutionDefaults(defaults), 'Defaults saved.', 'The defaults were not saved. Try again.')} loading={working === 'defaults'} disabled={Boolean(working)}>Save defaults</Button>
+                    </div>
+                  </div>
+                </div>
+              </section>
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
+
+export default function InstitutionConsolePage() {
+  return <InstitutionConsoleContent />;
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { getAccessibleCourses, getAccessibleSessions, getCaseStudiesByTeacher } from '@/lib/firebase/firestore';
+import { getLtiLaunchTicket, linkLtiCourse, submitLtiDeepLink, type LtiDeepLinkItem, type LtiLaunchTicket } from '@/lib/firebase/lti';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { AmbientLoading } from '@/components/motion';
+import type { CaseStudy, Course, Session } from '@/types';
+import { ArrowRight, Link2, PlugZap } from 'lucide-react';
+
+type PlaceableItem = LtiDeepLinkItem & { detail: string };
+
+function sessionDetail(session: Session) {
+  const date = session.startedAt?.toDate?.() || session.createdAt?.toDate?.();
+  const parts = [session.courseCode, date ? new Intl.DateTimeFormat('en', { month: 'short', day: 'numeric' }).format(date) : ''];
+  return parts.filter(Boolean).join(' · ') || 'Session';
+}
+
+function LtiLaunchContent() {
+  const { user } = useAuth();
+  const [ticketId, setTicketId] = useState('');
+  const [ticket, setTicket] = useState<LtiLaunchTicket | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [caseStudies, setCaseStudies] = useState<CaseStudy[]>([]);
+  const [courseId, setCourseId] = useState('');
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [working, setWorking] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    const id = new URLSearchParams(window.location.search).get('ticket') || '';
+    setTicketId(id);
+    if (!id) {
+      setError('Open Classfully from your LMS course to continue.');
+      setLoading(false);
+      return;
+    }
+    Promise.all([
+      getLtiLaunchTicket(id),
+      getAccessibleCourses(user.uid),
+      getAccessibleSessions(user.uid),
+      getCaseStudiesByTeacher(user.uid),
+    ])
+      .then(([ticketData, courseData, sessionData, caseStudyData]) => {
+        setTicket(ticketData);
+        setCourses(courseData);
+        setCourseId(ticketData.linkedCourseId || courseData[0]?.id || '');
+        setSessions(sessionData.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0)));
+        setCaseStudies(caseStudyData);
+      })
+      .catch((loadError) => {
+        console.error('LTI launch could not be loaded:', loadError);
+        setError(getUserFacingError(loadError, 'This LMS launch could not be opened. Launch Classfully from your LMS again.'));
+      })
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const linkedCourse = courses.find((course) => course.id === ticket?.linkedCourseId);
+  const placeable = useMemo<PlaceableItem[]>(() => [
+    ...sessions
+      .filter((session) => !linkedCourse || session.courseId === linkedCourse.id)
+      .map((session) => ({ type: 'session' as const, id: session.id, title: session.title || session.caseStudyTitle || 'Class session', detail: sessionDetail(session) })),
+    ...caseStudies.map((caseStudy) => ({ type: 'caseStudy' as const, id: caseStudy.id, title: caseStudy.title, detail: 'Case study' })),
+  ], [caseStudies, linkedCourse, sessions]);
+
+  const linkCourse = async () => {
+    if (!courseId) return;
+    setWorking(true);
+    setError('');
+    try {
+      await linkLtiCourse(ticketId, courseId);
+      setTicket((current) => current ? { ...current, linkedCourseId: courseId } : current);
+    } catch (linkError) {
+      console.error('LMS course could not be connected:', linkError);
+      setError(getUserFacingError(linkError, 'The LMS course was not connected. Try again.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleItem = (item: PlaceableItem) => {
+    const key = `${item.type}:${item.id}`;
+    setSelected((current) => {
+      if (key in current) {
+        const next = { ...current };
+        delete next[key];
+        return next;
+      }
+      return ticket?.acceptMultiple ? { ...current, [key]: '' } : { [key]: '' };
+    });
+  };
+
+  const placeItems = async () => {
+    const items = placeable
+      .filter((item) => `${item.type}:${item.id}` in selected)
+      .map(({ type, id, title }) => {
+        const points = Number(selected[`${type}:${id}`]);
+        return { type, id, title, ...(points > 0 ? { scoreMaximum: points } : {}) };
+      });
+    if (!items.length) return;
+    setWorking(true);
+    setError('');
+    try {
+      await submitLtiDeepLink(ticketId, items);
+    } catch (placeError) {
+      console.error('LTI deep link could not be created:', placeError);
+      setError(getUserFacingError(placeError, 'The selection was not sent to your LMS. Try again.'));
+      setWorking(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-4xl p-5 sm:p-8 lg:p-10">
+          <header className="max-w-3xl">
+            <p className="seminar-eyebrow mb-3">LMS launch</p>
+            <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">
+              {ticket?.messageType === 'LtiDeepLinkingRequest' ? 'Place Classfully in your module.' : 'Connect your LMS course.'}
+            </h1>
+            {ticket?.context && <p className="mt-3 text-base leading-7 text-[#697087]">Launched from <strong className="text-[#101a38]">{ticket.context.title || ticket.context.label}</strong>.</p>}
+          </header>
+
+          {error && <InlineMessage className="mt-6" title="The LMS launch needs attention." message={error} />}
+
+          {loading ? <div className="grid min-h-80 place-items-center" role="status" aria-label="Loading LMS launch"><AmbientLoading className="w-44 rounded-full" announce="off" /></div> : ticket && (
+            <>
+              {ticket.context && (
+                <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+                  <div className="flex items-start gap-3">
+                    <PlugZap className="mt-1 h-5 w-5 text-[#5146e5]" />
+                    <div className="min-w-0 flex-1">
+                      <h2 className="text-lg font-bold text-[#101a38]">Class roster and grades</h2>
+                      <p className="mt-1 text-sm leading-6 text-[#697087]">Students who launch from this LMS course join the connected class, and the gradebook can send course totals back.</p>
+                      {linkedCourse ? (
+                        <div className="mt-4 flex flex-wrap items-center gap-3">
+                          <span className="inline-flex items-center gap-2 rounded-full bg-[#edf8f0] px-3 py-1 text-sm font-semibold text-[#26743c]"><Link2 className="h-4 w-4" /> Connected to {linkedCourse.name}</span>
+                          <Link href={`/dashboard/classes/${linkedCourse.id}`} className="seminar-focus inline-flex items-center gap-1 rounded-lg text-sm font-semibold text-[#5146e5]">Open class <ArrowRight className="h-4 w-4" /></Link>
+                        </div>
+                      ) : ticket.linkedCourseId ? (
+                        <p className="mt-4 text-sm text-[#697087]">This LMS course is connected to a class you cannot open.</p>
+                      ) : courses.length === 0 ? (
+                        <p className="mt-4 text-sm text-[#697087]">Create a class in Classfully first, then launch again.</p>
+                      ) : (
+                        <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+                          <label className="block min-w-0 flex-1">
+                            <span className="seminar-eyebrow">Classfully class</span>
+                            <select value={courseId} onChange={(event) => setCourseId(event.target.value)} className="mt-2 w-full rounded-xl border border-[#e3e5ed] bg-[#fffefa] px-3 py-2.5 text-sm text-[#101a38]">
+                              {courses.map((course) => <option key={course.id} value={course.id}>{course.code} · {course.name}</option>)}
+                            </select>
+                          </label>
+                          <Button onClick={linkCourse} loading={working} disabled={!courseId}>Connect class</Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </section>
+              )}
+
+              {ticket.messageType === 'LtiDeepLinkingRequest' ? (
+                <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+                  <h2 className="text-lg font-bold text-[#101a38]">{ticket.acceptMultiple ? 'Choose sessions or case studies' : 'Choose a session or case study'}</h2>
+                  <p className="mt-1 text-sm leading-6 text-[#697087]">Add points to create a graded LMS column for the item.</p>
+                  {placeable.length === 0 ? (
+                    <p className="mt-5 text-sm text-[#697087]">There is nothing to place yet. Create a session or case study first.</p>
+                  ) : (
+                    <ul className="mt-5 divide-y divide-[#eceef3]">
+                      {placeable.map((item) => {
+                        const key = `${item.type}:${item.id}`;
+                        const checked = key in selected;
+                        return (
+                          <li key={key} className="flex items-center gap-3 py-3">
+                            <input type={ticket.acceptMultiple ? 'checkbox' : 'radio'} name="lti-item" checked={checked} onChange={() => toggleItem(item)} aria-label={`Place ${item.title}`} className="h-4 w-4 accent-[#5146e5]" />
+                            <div className="min-w-0 flex-1">
+                              <p className="truncate text-sm font-semibold text-[#101a38]">{item.title}</p>
+                              <p className="text-xs text-[#697087]">{item.detail}</p>
+                            </div>
+                            {checked && (
+                              <label className="flex items-center gap-2 text-xs text-[#697087]">
+                                Points
+                                <input type="number" min={0} value={selected[key]} onChange={(event) => setSelected((current) => ({ ...current, [key]: event.target.value }))} className="w-20 rounded-lg border border-[#e3e5ed] px-2 py-1.5 text-sm text-[#101a38]" />
+                              </label>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                  <div className="mt-5 flex justify-end">
+                    <Button onClick={placeItems} loading={working} disabled={Object.keys(selected).length === 0}>Add to LMS</Button>
+                  </div>
+                </section>
+              ) : linkedCourse && (
+                <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+                  <h2 className="text-lg font-bold text-[#101a38]">{ticket.resourceLink?.title || 'This LMS link'}</h2>
+                  <p className="mt-1 text-sm leading-6 text-[#697087]">Students who open this link join {linkedCourse.name}{ticket.target ? ' and go straight to the placed item when it is live.' : '.'}</p>
+                  <div className="mt-5 flex flex-wrap gap-2">
+                    {ticket.target?.type === 'session' && <Link href={`/dashboard/sessions/${ticket.target.id}`}><Button>Open session</Button></Link>}
+                    {ticket.target?.type === 'caseStudy' && <Link href={`/dashboard/case-studies/${ticket.target.id}`}><Button>Open case study</Button></Link>}
+                    <Link href={`/dashboard/classes/${linkedCourse.id}/gradebook`}><Button variant="outline">Gradebook</Button></Link>
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
+
+export default function LtiLaunchPage() {
+  return <LtiLaunchContent />;
+}
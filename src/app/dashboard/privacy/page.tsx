@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { eraseStudentData, exportStudentData, getDataSubjectRequests, previewStudentErasure, type StudentDataLookup } from '@/lib/firebase/student-data';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import ProtectedRoute from '@/components/teacher/ProtectedRoute';
+import DashboardLayout from '@/components/teacher/DashboardLayout';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import type { DataSubjectRequest, DeletionReceipt, StudentDataBundle, StudentErasurePreview } from '@/types';
+import { Download, FileCheck2, ShieldCheck, Trash2 } from 'lucide-react';
+
+type LookupKind = 'studentNumber' | 'studentUid';
+
+const ERASE_MESSAGE = 'Live class records, roster entries, grades, register marks, LMS links, points, cold calls, contribution marks and seats are deleted in every class in your workspace. Reward requests and grade history stay for course credit under a pseudonym. This cannot be undone.';
+
+function downloadJson(filename: string, value: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function totalRecords(counts: Record<string, number>) {
+  return Object.values(counts).reduce((total, count) => total + count, 0);
+}
+
+function formatWhen(request: DataSubjectRequest) {
+  const date = request.createdAt?.toDate?.();
+  return date ? new Intl.DateTimeFormat('en', { dateStyle: 'medium', timeStyle: 'short' }).format(date) : '';
+}
+
+function StudentDataContent() {
+  const { user } = useAuth();
+  const [kind, setKind] = useState<LookupKind>('studentNumber');
+  const [identifier, setIdentifier] = useState('');
+  const [bundle, setBundle] = useState<StudentDataBundle | null>(null);
+  const [receipt, setReceipt] = useState<DeletionReceipt | null>(null);
+  const [history, setHistory] = useState<DataSubjectRequest[]>([]);
+  const [erasePreview, setErasePreview] = useState<StudentErasurePreview | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const lookup: StudentDataLookup = kind === 'studentNumber' ? { studentNumber: identifier.trim() } : { studentUid: identifier.trim() };
+  const fileStem = `classfully-${identifier.trim().replace(/[^a-z0-9-]/gi, '') || 'student'}`;
+
+  useEffect(() => {
+    if (!user) return;
+    getDataSubjectRequests(user.uid)
+      .then(setHistory)
+      .catch((loadError) => console.error('Data request history could not be loaded:', loadError));
+  }, [user]);
+
+  const refreshHistory = () => {
+    if (user) getDataSubjectRequests(user.uid).then(setHistory).catch(() => undefined);
+  };
+
+  const runExport = async () => {
+    if (!identifier.trim()) return;
+    setExporting(true);
+    setError('');
+    setReceipt(null);
+    try {
+      const data = await exportStudentData(lookup);
+      setBundle(data);
+      downloadJson(`${fileStem}-export.json`, data);
+      refreshHistory();
+    } catch (exportError) {
+      console.error('Student data could not be exported:', exportError);
+      setError(getUserFacingError(exportError, 'The export could not be prepared. Try again.'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const reviewErase = async () => {
+    if (!identifier.trim()) return;
+    setReviewing(true);
+    setError('');
+    setConfirmation('');
+    try {
+      setErasePreview(await previewStudentErasure(lookup));
+    } catch (previewError) {
+      console.error('Student data could not be reviewed for erasure:', previewError);
+      setError(getUserFacingError(previewError, 'The records to erase could not be found. Try again.'));
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const confirmErase = async () => {
+    if (!erasePreview) return;
+    if (confirmation.trim() !== identifier.trim()) {
+      setError(`Type ${identifier.trim()} exactly to confirm the erasure.`);
+      setErasePreview(null);
+      return;
+    }
+    setError('');
+    try {
+      const issued = await eraseStudentData(lookup, erasePreview);
+      setReceipt(issued);
+      setBundle(null);
+      downloadJson(`${fileStem}-deletion-receipt.json`, issued);
+      refreshHistory();
+    } catch (eraseError) {
+      console.error('Student data could not be erased:', eraseError);
+      setError(getUserFacingError(eraseError, 'The records were not erased. Try again.'));
+    } finally {
+      setErasePreview(null);
+      setConfirmation('');
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <main className="mx-auto max-w-4xl p-5 sm:p-8 lg:p-10">
+          <header className="max-w-3xl">
+            <p className="seminar-eyebrow mb-3">Student data requests</p>
+            <h1 className="seminar-display text-4xl text-[#101a38] sm:text-5xl">Find, export, or erase one student&apos;s records.</h1>
+            <p className="mt-3 text-base leading-7 text-[#697087]">
+              Searches every class in your workspace: live class responses, pulses, votes, questions and attendance, plus rosters, grades and grade history, gradebook overrides, register marks, LMS links, reward points and requests, cold calls, contribution marks and seats. Verify the student&apos;s identity before you act on a request.
+            </p>
+          </header>
+
+          {error && <InlineMessage className="mt-6" title="The data request needs attention." message={error} />}
+
+          <section className="mt-8 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Look up by">
+              {([['studentNumber', 'Student number'], ['studentUid', 'Device ID']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={kind === value}
+                  onClick={() => setKind(value)}
+                  className={`seminar-focus rounded-full border px-3.5 py-1.5 text-sm font-semibold ${kind === value ? 'border-[#5146e5] bg-[#f1f0ff] text-[#3d33c4]' : 'border-[#e3e5ed] text-[#4f5770] hover:bg-[#faf9ff]'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="mt-4 block">
+              <span className="seminar-eyebrow">{kind === 'studentNumber' ? 'Student number' : 'Device ID'}</span>
+              <input
+                value={identifier}
+                onChange={(event) => { setIdentifier(event.target.value); setBundle(null); setReceipt(null); }}
+                placeholder={kind === 'studentNumber' ? '6512345678' : 'From an export or a support request'}
+                className="mt-2 w-full rounded-xl border border-[#e3e5ed] bg-[#fffefa] px-3 py-2.5 text-sm text-[#101a38]"
+              />
+            </label>
+            <p className="mt-2 text-xs leading-5 text-[#697087]">Devices that joined with this student number are found through attendance records. A device shared with another student counts only in the sessions where it used this number.</p>
+            <div className="mt-5 flex flex-wrap gap-2">
+              <Button onClick={runExport} loading={exporting} disabled={!identifier.trim()}>
+                <Download className="mr-2 h-4 w-4" />
+                Export records
+              </Button>
+              <Button variant="outline" className="border-red-300 text-red-700 hover:bg-red-50" onClick={reviewErase} loading={reviewing} disabled={!identifier.trim() || exporting}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Erase records
+              </Button>
+            </div>
+          </section>
+
+          {bundle && (
+            <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+              <div className="flex items-start gap-3">
+                <FileCheck2 className="mt-1 h-5 w-5 text-[#26743c]" />
+                <div className="min-w-0 flex-1">
+                  <h2 className="text-lg font-bold text-[#101a38]">Export ready</h2>
+                  <p className="mt-1 text-sm leading-6 text-[#697087]">
+                    {bundle.realtimeDatabase.length} live class records and {bundle.firestore.length} saved records across {bundle.subject.deviceUids.length} devices. Send the file to the student through your institution&apos;s verified channel.
+                  </p>
+                  <Button variant="outline" className="mt-4" onClick={() => downloadJson(`${fileStem}-export.json`, bundle)}>Download again</Button>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {receipt && (
+            <section className="mt-6 rounded-3xl border border-[#cfe8d6] bg-[#f5fbf6] p-6">
+              <div className="flex items-start gap-3">
+                <ShieldCheck className="mt-1 h-5 w-5 text-[#26743c]" />
+                <div className="min-w-0 flex-1">
+                  <h2 className="text-lg font-bold text-[#101a38]">Records erased</h2>
+                  <p className="mt-1 text-sm leading-6 text-[#697087]">
+                    {receipt.liveDeleted + receipt.firestoreDeleted} records deleted and {receipt.firestorePseudonymized} pseudonymized. Keep the signed receipt with the request record.
+                  </p>
+                  <p className="mt-2 break-all font-mono text-xs text-[#4f5770]">Receipt {receipt.receiptId}</p>
+                  <Button variant="outline" className="mt-4" onClick={() => downloadJson(`${fileStem}-deletion-receipt.json`, receipt)}>Download receipt</Button>
+                </div>
+              </div>
+            </section>
+          )}
+
+          <section className="mt-6 rounded-3xl border border-[#e1e3ec] bg-white p-6">
+            <h2 className="text-lg font-bold text-[#101a38]">Request log</h2>
+            <p className="mt-1 text-sm leading-6 text-[#697087]">Each export and erasure is logged with record counts and a hash of the student number, never the records themselves.</p>
+            {history.length === 0 ? (
+              <p className="mt-5 text-sm text-[#697087]">No requests yet.</p>
+            ) : (
+              <ul className="mt-5 divide-y divide-[#eceef3]">
+                {history.map((request) => (
+                  <li key={request.id} className="flex flex-wrap items-center gap-3 py-3">
+                    <span className={`rounded-full px-2.5 py-0.5 text-xs font-bold ${request.type === 'erasure' ? 'bg-[#fff2ed] text-[#b6533f]' : 'bg-[#f1f0ff] text-[#3d33c4]'}`}>
+                      {request.type === 'erasure' ? 'Erasure' : 'Export'}
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-semibold text-[#101a38]">{totalRecords(request.counts || {})} records · {formatWhen(request)}</p>
+                      <p className="truncate font-mono text-xs text-[#697087]">Subject {request.subjectHash.slice(0, 16)}</p>
+                    </div>
+                    {request.receipt && (
+                      <Button variant="outline" size="sm" onClick={() => downloadJson(`classfully-deletion-receipt-${request.receipt?.receiptId}.json`, request.receipt)}>Receipt</Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <Dialog
+            isOpen={Boolean(erasePreview)}
+            onClose={() => setErasePreview(null)}
+            onConfirm={confirmErase}
+            title="Erase this student's records?"
+            message={ERASE_MESSAGE}
+            confirmText="Erase records"
+            variant="destructive"
+          >
+            <p id="dialog-message" className="text-gray-600">{ERASE_MESSAGE}</p>
+            {erasePreview && (
+              <div className="mt-4 rounded-xl border border-[#e3e5ed] bg-[#fafaf7] p-3 text-sm text-[#313950]">
+                <p className="font-semibold">{totalRecords(erasePreview.counts)} records belong to:</p>
+                <ul className="mt-2 space-y-1">
+                  {erasePreview.subject.studentNumbers.map((studentNumber) => <li key={`number:${studentNumber}`}>Student number <span className="font-mono">{studentNumber}</span></li>)}
+                  {erasePreview.subject.deviceUids.map((deviceUid) => <li key={`device:${deviceUid}`} className="break-all">Device <span className="font-mono text-xs">{deviceUid}</span></li>)}
+                </ul>
+                <p className="mt-2 text-xs leading-5 text-[#697087]">If a device here belongs to someone else, cancel and check the attendance records first.</p>
+              </div>
+            )}
+            <label className="mt-4 block">
+              <span className="text-sm font-semibold text-[#313950]">Type {identifier.trim()} to confirm</span>
+              <input
+                value={confirmation}
+                onChange={(event) => setConfirmation(event.target.value)}
+                className="mt-2 w-full rounded-xl border border-[#e3e5ed] bg-white px-3 py-2.5 text-sm text-[#101a38]"
+                autoComplete="off"
+              />
+            </label>
+          </Dialog>
+        </main>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
+
+export default function StudentDataPage() {
+  return <StudentDataContent />;
+}
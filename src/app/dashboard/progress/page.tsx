@@ -16,6 +16,7 @@ import {
   type InstructorClassroomRecords,
   type StoredLiveResponse,
 } from '@/lib/firebase/live-classroom';
+import { claimStudentNumber } from '@/lib/attendance-register';
 import ProtectedRoute from '@/components/teacher/ProtectedRoute';
 import DashboardLayout from '@/components/teacher/DashboardLayout';
 import StudentResponseModal from '@/components/teacher/StudentResponseModal';
@@ -275,7 +276,7 @@ function ProgressContent() {
           .map((session) => syncStandaloneSessionStudents(
             session.id,
             session.teacherId,
-            Object.values(records[session.id]?.attendance || {}).flatMap((claim) => claim.participationMode !== 'session-name' && claim.participationMode !== 'anonymous' && claim.studentNumber ? [claim.studentNumber] : []),
+            Object.values(records[session.id]?.attendance || {}).map(claimStudentNumber).filter(Boolean),
           )));
 
         const knownStudents = Array.from((studentData as StudentWithStats[]).reduce((byStudentNumber, student) => {
@@ -288,16 +289,15 @@ function ProgressContent() {
         const attendanceOnlyStudents: StudentWithStats[] = [];
 
         Object.values(records).forEach((record) => Object.values(record.attendance).forEach((claim) => {
-          if (claim.participationMode && claim.participationMode !== 'course-record') return;
-          if (!claim.studentNumber) return;
-          const normalized = normalizeStudentNumber(claim.studentNumber);
+          const studentNumber = claimStudentNumber(claim);
+          const normalized = normalizeStudentNumber(studentNumber);
           if (!normalized || knownNumbers.has(normalized)) return;
           knownNumbers.add(normalized);
           attendanceOnlyStudents.push({
             id: `attendance-${normalized}`,
-            studentId: claim.studentNumber,
+            studentId: studentNumber,
             studentIdNormalized: normalized,
-            name: claim.studentDisplayName || `Student ${claim.studentNumber.slice(-4)}`,
+            name: claim.studentDisplayName || `Student ${studentNumber.slice(-4)}`,
             courseIds: [],
             createdAt: sessionData[0]?.createdAt || Timestamp.now(),
             stats: { totalResponses: 0, correctResponses: 0, correctPercentage: 0, totalPoints: 0, maxTotalPoints: 0, averageScore: 0, progressPercentage: 0, totalQuestionsAvailable: 0 },
@@ -351,7 +351,7 @@ function ProgressContent() {
   const attendedSession = useCallback((session: Session, student: StudentWithStats) => {
     if (hasStudent(session, student)) return true;
     const target = normalizeStudentNumber(student.studentId);
-    return Object.values(liveRecords[session.id]?.attendance || {}).some((claim) => claim.participationMode !== 'session-name' && claim.participationMode !== 'anonymous' && normalizeStudentNumber(claim.studentNumber || '') === target);
+    return Object.values(liveRecords[session.id]?.attendance || {}).some((claim) => normalizeStudentNumber(claimStudentNumber(claim)) === target);
   }, [liveRecords]);
 
   const studentMetrics = useCallback((student: StudentWithStats, scopedSessions: Session[]): LiveStudentMetrics => {
@@ -364,7 +364,7 @@ function ProgressContent() {
 
     const sessionStates = scopedSessions.map((session) => {
       const records = liveRecords[session.id];
-      const studentUid = Object.entries(records?.attendance || {}).find(([, claim]) => claim.participationMode !== 'session-name' && claim.participationMode !== 'anonymous' && normalizeStudentNumber(claim.studentNumber || '') === target)?.[0];
+      const studentUid = Object.entries(records?.attendance || {}).find(([, claim]) => normalizeStudentNumber(claimStudentNumber(claim)) === target)?.[0];
       const sessionResponses = studentUid
         ? Object.values(records?.responses || {}).map((runResponses) => runResponses[studentUid]).filter(Boolean)
         : [];
@@ -502,7 +502,7 @@ function ProgressContent() {
     const attendanceClaims = Object.values(record?.attendance || {});
     const joined = new Set([
       ...(session.studentsJoined || []).map(normalizeStudentNumber),
-      ...attendanceClaims.flatMap((claim) => claim.participationMode !== 'session-name' && claim.participationMode !== 'anonymous' && claim.studentNumber ? [normalizeStudentNumber(claim.studentNumber)] : []),
+      ...attendanceClaims.map((claim) => normalizeStudentNumber(claimStudentNumber(claim))),
     ].filter(Boolean));
     const respondents = new Set<string>();
     const pulseResponses: Array<{ interaction: SessionInteraction; response: StoredLiveResponse }> = [];
@@ -10,16 +10,19 @@ import InlineMessage from '@/components/ui/InlineMessage';
 import { AmbientLoading } from '@/components/motion';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { getCoursesByTeacher } from '@/lib/firebase/firestore';
+import { getUserFacingError } from '@/lib/user-facing-error';
 import {
   createRewardDefinition,
   deleteRewardDefinition,
   getRewardDefinitionsByTeacher,
+  getRewardLedgersAwaitingApproval,
   getRewardRequestsForInstructor,
+  reviewRewardLedgerDevice,
   reviewRewardRequest,
   updateRewardDefinition,
 } from '@/lib/firebase/rewards';
-import type { Course, RewardDefinition, RewardKind, RewardRequest } from '@/types';
-import { Archive, ArrowLeft, BookOpenCheck, CalendarClock, Check, CircleSlash2, Clock3, FilePenLine, Gift, MessageCircleMore, Pencil, Plus, ShieldCheck, Sparkles, Star, TicketCheck, Trash2, X, type LucideIcon } from 'lucide-react';
+import type { Course, RewardDefinition, RewardKind, RewardLedger, RewardRequest } from '@/types';
+import { Archive, ArrowLeft, BookOpenCheck, CalendarClock, Check, CircleSlash2, Clock3, FilePenLine, Gift, MessageCircleMore, Pencil, Plus, ShieldCheck, Smartphone, Sparkles, Star, TicketCheck, Trash2, X, type LucideIcon } from 'lucide-react';
 
 const rewardKinds: Array<{ value: RewardKind; label: string; example: string }> = [
   { value: 'pass', label: 'Pass', example: 'A deadline or participation pass' },
@@ -130,19 +133,22 @@ export default function RewardsPage() {
   const [form, setForm] = useState(emptyForm);
   const [error, setError] = useState('');
   const [toast, setToast] = useState('');
+  const [waitingLedgers, setWaitingLedgers] = useState<RewardLedger[]>([]);
 
   const loadRewards = useCallback(async () => {
     if (!user) return;
     setLoading(true);
     try {
-      const [courseData, rewardData, requestData] = await Promise.all([
+      const [courseData, rewardData, requestData, ledgerData] = await Promise.all([
         getCoursesByTeacher(user.uid),
         getRewardDefinitionsByTeacher(user.uid),
         getRewardRequestsForInstructor(user.uid),
+        getRewardLedgersAwaitingApproval(user.uid),
       ]);
       setCourses(courseData);
       setRewards(rewardData);
       setRequests(requestData);
+      setWaitingLedgers(ledgerData);
       const requestedCourseId = new URLSearchParams(window.location.search).get('courseId');
       const requestedCourseExists = courseData.some((course) => course.id === requestedCourseId);
       setSelectedCourseId((current) => current || (requestedCourseExists ? requestedCourseId! : courseData[0]?.id || ''));
@@ -159,7 +165,10 @@ export default function RewardsPage() {
   const selectedCourse = courses.find((course) => course.id === selectedCourseId);
   const courseRewards = useMemo(() => rewards.filter((reward) => reward.courseId === selectedCourseId), [rewards, selectedCourseId]);
   const courseRequests = useMemo(() => requests.filter((request) => request.courseId === selectedCourseId), [requests, selectedCourseId]);
-  const pendingCount = courseRequests.filter((request) => request.status === 'pending').length;
+  const courseDevices = useMemo(() => waitingLedgers
+    .filter((ledger) => ledger.courseId === selectedCourseId)
+    .flatMap((ledger) => (ledger.pendingDevices || []).map((device) => ({ ledger, device }))), [waitingLedgers, selectedCourseId]);
+  const pendingCount = courseRequests.filter((request) => request.status === 'pending').length + courseDevices.length;
 
   const openCreate = () => {
     setEditingReward(null);
@@ -242,9 +251,27 @@ export default function RewardsPage() {
   };
 
   const reviewRequest = async (request: RewardRequest, status: 'approved' | 'declined' | 'used') => {
-    await reviewRewardRequest(request.id, status);
-    setRequests((current) => current.map((item) => item.id === request.id ? { ...item, status } : item));
-    setToast(status === 'approved' ? 'Reward approved' : status === 'used' ? 'Reward marked as used' : 'Request declined');
+    setError('');
+    try {
+      await reviewRewardRequest(request.id, status);
+      setRequests((current) => current.map((item) => item.id === request.id ? { ...item, status } : item));
+      setToast(status === 'approved' ? 'Reward approved' : status === 'used' ? 'Reward marked as used and points spent' : 'Request declined');
+    } catch (reviewError) {
+      setError(getUserFacingError(reviewError, 'The request was not updated. Refresh the page and try again.'));
+    }
+  };
+
+  const reviewDevice = async (ledger: RewardLedger, deviceUid: string, decision: 'approve' | 'decline') => {
+    setError('');
+    try {
+      await reviewRewardLedgerDevice(ledger.id, deviceUid, decision);
+      setWaitingLedgers((current) => current.map((item) => item.id === ledger.id
+        ? { ...item, pendingDevices: (item.pendingDevices || []).filter((device) => device.uid !== deviceUid) }
+        : item));
+      setToast(decision === 'approve' ? 'Device can now use this student\'s points' : 'Device declined');
+    } catch (reviewError) {
+      setError(getUserFacingError(reviewError, 'The device was not updated. Refresh the page and try again.'));
+    }
   };
 
   return (
@@ -274,7 +301,8 @@ export default function RewardsPage() {
           ) : (
             <section className="mt-7" aria-labelledby="reward-requests-title">
               <div className="mb-5"><p className="seminar-eyebrow mb-2">Approval queue</p><h2 id="reward-requests-title" className="seminar-display text-3xl text-[#101a38]">Student requests</h2><p className="mt-2 text-sm leading-6 text-[#697087]">Points are never removed. Approval confirms that the student may use the unlocked reward.</p></div>
-              {courseRequests.length === 0 ? <div className="rounded-3xl border border-dashed border-[#cfd2df] bg-white px-6 py-14 text-center"><TicketCheck className="mx-auto h-8 w-8 text-[#5146e5]" /><h3 className="seminar-display mt-4 text-3xl text-[#101a38]">No requests yet.</h3><p className="mt-2 text-sm text-[#697087]">Student requests will appear here with their point total at the time of request.</p></div> : <div className="space-y-3">{courseRequests.map((request) => { const eligible = request.pointsAtRequest >= request.pointsRequired; return <article key={request.id} className="flex flex-col gap-4 rounded-2xl border border-[#e3e5ed] bg-white p-5 lg:flex-row lg:items-center"><span className={`grid h-10 w-10 shrink-0 place-items-center rounded-xl ${request.status === 'approved' || request.status === 'used' ? 'bg-[#edf8ef] text-[#2f7b47]' : request.status === 'declined' ? 'bg-[#f2f2f4] text-[#697087]' : 'bg-[#fff7e7] text-[#a56d12]'}`}>{request.status === 'approved' || request.status === 'used' ? <Check className="h-5 w-5" /> : request.status === 'declined' ? <CircleSlash2 className="h-5 w-5" /> : <Clock3 className="h-5 w-5" />}</span><div className="min-w-0 flex-1"><div className="flex flex-wrap items-center gap-2"><strong className="text-[#101a38]">{request.rewardName}</strong><span className="rounded-full bg-[#f1f2f6] px-2.5 py-1 text-[11px] font-bold uppercase tracking-[0.05em] text-[#5e667a]">{request.status}</span></div><p className="mt-1 text-sm text-[#697087]">{request.studentDisplayName || `Student ${request.studentNumber.slice(-4)}`} · ID {request.studentNumber} · {request.pointsAtRequest} points at request · {request.pointsRequired} required</p>{!eligible && <p className="mt-1 text-xs font-semibold text-[#b64936]">Point threshold needs instructor review.</p>}</div><div className="flex shrink-0 flex-wrap gap-2">{request.status === 'pending' && <><Button size="sm" variant="outline" onClick={() => reviewRequest(request, 'declined')}>Decline</Button><Button size="sm" onClick={() => reviewRequest(request, 'approved')} disabled={!eligible}>Approve</Button></>}{request.status === 'approved' && <Button size="sm" variant="outline" onClick={() => reviewRequest(request, 'used')}><TicketCheck className="mr-2 h-4 w-4" /> Mark used</Button>}</div></article>; })}</div>}
+              {courseDevices.length > 0 && <div className="mb-5 space-y-3" aria-label="Devices waiting for approval">{courseDevices.map(({ ledger, device }) => <article key={`${ledger.id}:${device.uid}`} className="flex flex-col gap-4 rounded-2xl border border-[#eadbb8] bg-[#fffaf0] p-5 lg:flex-row lg:items-center"><span className="grid h-10 w-10 shrink-0 place-items-center rounded-xl bg-[#fff1d6] text-[#a56d12]"><Smartphone className="h-5 w-5" /></span><div className="min-w-0 flex-1"><strong className="text-[#101a38]">New device for ID {ledger.studentNumber}</strong><p className="mt-1 text-sm text-[#697087]">{device.studentDisplayName ? `Joined as ${device.studentDisplayName}. ` : ''}{ledger.studentDisplayName ? `Points were started by ${ledger.studentDisplayName}. ` : ''}Approve only if this is the same student, for example on a new phone. It will see and spend their {ledger.seminarPoints} points.</p></div><div className="flex shrink-0 flex-wrap gap-2"><Button size="sm" variant="outline" onClick={() => reviewDevice(ledger, device.uid, 'decline')}>Decline</Button><Button size="sm" onClick={() => reviewDevice(ledger, device.uid, 'approve')}>Approve device</Button></div></article>)}</div>}
+              {courseRequests.length === 0 ? <div className="rounded-3xl border border-dashed border-[#cfd2df] bg-white px-6 py-14 text-center"><TicketCheck className="mx-auto h-8 w-8 text-[#5146e5]" /><h3 className="seminar-display mt-4 text-3xl text-[#101a38]">No requests yet.</h3><p className="mt-2 text-sm text-[#697087]">Student requests will appear here with their point balance at the time of request. Marking a reward used spends those points.</p></div> : <div className="space-y-3">{courseRequests.map((request) => { const eligible = request.pointsAtRequest >= request.pointsRequired; return <article key={request.id} className="flex flex-col gap-4 rounded-2xl border border-[#e3e5ed] bg-white p-5 lg:flex-row lg:items-center"><span className={`grid h-10 w-10 shrink-0 place-items-center rounded-xl ${request.status === 'approved' || request.status === 'used' ? 'bg-[#edf8ef] text-[#2f7b47]' : request.status === 'declined' ? 'bg-[#f2f2f4] text-[#697087]' : 'bg-[#fff7e7] text-[#a56d12]'}`}>{request.status === 'approved' || request.status === 'used' ? <Check className="h-5 w-5" /> : request.status === 'declined' ? <CircleSlash2 className="h-5 w-5" /> : <Clock3 className="h-5 w-5" />}</span><div className="min-w-0 flex-1"><div className="flex flex-wrap items-center gap-2"><strong className="text-[#101a38]">{request.rewardName}</strong><span className="rounded-full bg-[#f1f2f6] px-2.5 py-1 text-[11px] font-bold uppercase tracking-[0.05em] text-[#5e667a]">{request.status}</span></div><p className="mt-1 text-sm text-[#697087]">{request.studentDisplayName || `Student ${request.studentNumber.slice(-4)}`} · ID {request.studentNumber} · {request.pointsAtRequest} points at request · {request.pointsRequired} required</p>{!eligible && <p className="mt-1 text-xs font-semibold text-[#b64936]">Point threshold needs instructor review.</p>}</div><div className="flex shrink-0 flex-wrap gap-2">{request.status === 'pending' && <><Button size="sm" variant="outline" onClick={() => reviewRequest(request, 'declined')}>Decline</Button><Button size="sm" onClick={() => reviewRequest(request, 'approved')} disabled={!eligible}>Approve</Button></>}{request.status === 'approved' && <Button size="sm" variant="outline" onClick={() => reviewRequest(request, 'used')}><TicketCheck className="mr-2 h-4 w-4" /> Mark used</Button>}</div></article>; })}</div>}
             </section>
           )}
 
@@ -7,7 +7,7 @@ import { useAuth } from '@/lib/hooks/useAuth';
 import { 
   getSession, 
   getSessionsByTeacher,
-  getCaseStudy, 
+  getCaseStudyForSession,
   updateSession,
   updateSessionActivity,
   releaseNextSection,
@@ -17,6 +17,8 @@ import {
 import ProtectedRoute from '@/components/teacher/ProtectedRoute';
 import DashboardLayout from '@/components/teacher/DashboardLayout';
 import ParticipationTrend from '@/components/teacher/ParticipationTrend';
+import ItemAnalysisReport from '@/components/teacher/ItemAnalysisReport';
+import HomeworkPanel from '@/components/teacher/HomeworkPanel';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Dialog from '@/components/ui/Dialog';
@@ -47,15 +49,17 @@ import {
 } from 'lucide-react';
 import QRCode from 'react-qr-code';
 import { Timestamp } from 'firebase/firestore';
-import { endInstructorClassroom, getInstructorClassroomRecords } from '@/lib/firebase/live-classroom';
+import { endInstructorClassroom, getInstructorClassroomRecords, type InstructorClassroomRecords } from '@/lib/firebase/live-classroom';
 import {
   countClassroomResponses,
   getSessionParticipationSummary,
   interactionRunSummariesDiffer,
   reconcileInteractionRuns,
 } from '@/lib/session-response-summary';
+import { buildItemAnalysis } from '@/lib/item-analysis';
 import { getUserFacingError } from '@/lib/user-facing-error';
 import { claimSessionStart } from '@/lib/firebase/billing';
+import { homeworkReleasedSections } from '@/lib/homework';
 
 interface SessionPageProps {
   params: Promise<{
@@ -78,6 +82,7 @@ export default function SessionPage({ params }: SessionPageProps) {
   const [caseStudy, setCaseStudy] = useState<CaseStudy | null>(null);
   const [responses, setResponses] = useState<Response[]>([]);
   const [standaloneResponseCount, setStandaloneResponseCount] = useState(0);
+  const [classroomResponses, setClassroomResponses] = useState<InstructorClassroomRecords['responses']>({});
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
@@ -104,6 +109,7 @@ export default function SessionPage({ params }: SessionPageProps) {
       setCaseStudy(null);
       setResponses([]);
       setStandaloneResponseCount(0);
+      setClassroomResponses({});
       setStudents([]);
       try {
         const sessionData = await getSession(resolvedParams.id);
@@ -132,6 +138,7 @@ export default function SessionPage({ params }: SessionPageProps) {
               studentsJoined: joinedStudents,
             };
             setStandaloneResponseCount(countClassroomResponses(classroomRecords.responses));
+            setClassroomResponses(classroomRecords.responses);
 
             if (
               interactionRunSummariesDiffer(sessionData.interactionRuns, reconciledRuns)
@@ -171,7 +178,7 @@ export default function SessionPage({ params }: SessionPageProps) {
           });
         setCourseSessions(relatedSessions);
         
-        const caseStudyData = sessionData.caseStudyId ? await getCaseStudy(sessionData.caseStudyId) : null;
+        const caseStudyData = await getCaseStudyForSession(sessionData);
         if (caseStudyData) {
           setCaseStudy(caseStudyData);
         }
@@ -331,9 +338,15 @@ export default function SessionPage({ params }: SessionPageProps) {
         await endInstructorClassroom(session.teacherId, session.id);
       }
       
+      // Sessions from before versioning pin the case study version they first run with
+      const pinnedVersion = newActiveState && !session.caseStudyVersion && caseStudy?.currentVersion
+        ? { caseStudyVersion: caseStudy.currentVersion }
+        : {};
+
       // Update Firestore (persistence)
       await updateSession(session.id, {
         active: newActiveState,
+        ...pinnedVersion,
         ...(session.active ?
           { endedAt: Timestamp.now() } :
           { lastActivityAt: Timestamp.now() }
@@ -348,7 +361,7 @@ export default function SessionPage({ params }: SessionPageProps) {
           ...(newActiveState ? {} : { endedAt: Date.now() })
         });
       }
-      setSession({ ...session, active: newActiveState });
+      setSession({ ...session, ...pinnedVersion, active: newActiveState });
       
     } catch (error: unknown) {
       setError(getUserFacingError(error, 'The session could not be updated. Check your connection and try again.'));
@@ -534,6 +547,11 @@ export default function SessionPage({ params }: SessionPageProps) {
       ? getSessionParticipationSummary(session.interactionRuns, session.interactions)
       : null
   ), [session]);
+  const itemAnalysis = useMemo(() => (
+    session && participationSummary
+      ? buildItemAnalysis(participationSummary, session.interactionRuns, session.interactions, classroomResponses)
+      : []
+  ), [classroomResponses, participationSummary, session]);
   const displayedAverage = participationSummary?.averageParticipationPercent ?? averageProgress;
 
   const currentSessionIndex = session ? courseSessions.findIndex((candidate) => candidate.id === session.id) : -1;
@@ -788,6 +806,28 @@ export default function SessionPage({ params }: SessionPageProps) {
                 </Card>
               )}
 
+              {itemAnalysis.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Item analysis</CardTitle>
+                    <CardDescription>
+                      How the class answered each knowledge check and peer learning question, how answers changed after discussion, and how long students took.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ItemAnalysisReport items={itemAnalysis} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {session && session.sessionType !== 'standalone' && caseStudy && (
+                <HomeworkPanel
+                  session={session}
+                  caseStudy={caseStudy}
+                  onSaved={(homework) => setSession((current) => current ? { ...current, homework } : current)}
+                />
+              )}
+
               {/* Prepared content and interactions */}
               <Card>
                 <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
@@ -809,7 +849,9 @@ export default function SessionPage({ params }: SessionPageProps) {
                       {/* Section Status Overview */}
                       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
                         {caseStudy.sections.map((section, index) => {
-                          const isReleased = session?.releasedSections?.includes(index) || false;
+                          const isReleased = session?.homework
+                            ? homeworkReleasedSections(session, caseStudy.sections.length, new Date()).includes(index)
+                            : session?.releasedSections?.includes(index) || false;
                           const isCurrent = (session?.currentReleasedSection ?? 0) === index;
                           
                           return (
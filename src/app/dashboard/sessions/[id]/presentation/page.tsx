@@ -7,7 +7,7 @@ import { auth } from '@/lib/firebase/config';
 import { getUserFacingError } from '@/lib/user-facing-error';
 import { 
   getSession, 
-  getCaseStudy, 
+  getCaseStudyForSession,
   updateSessionActivity,
   releaseNextSection,
   getResponsesBySession,
@@ -199,7 +199,7 @@ export default function PresentationPage({ params }: PresentationPageProps) {
 
         setSession(sessionData);
         
-        const caseStudyData = sessionData.caseStudyId ? await getCaseStudy(sessionData.caseStudyId) : null;
+        const caseStudyData = await getCaseStudyForSession(sessionData);
         if (caseStudyData) {
           setCaseStudy(caseStudyData);
         }
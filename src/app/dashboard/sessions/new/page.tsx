@@ -4,36 +4,49 @@ import { useEffect, useMemo, useRef, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { createSession, generateSessionCode, getCaseStudiesByTeacher, getCourse, getSession, updateSession } from '@/lib/firebase/firestore';
+import { Timestamp } from 'firebase/firestore';
 import { auth } from '@/lib/firebase/config';
 import { getUserFacingError } from '@/lib/user-facing-error';
 import { track } from '@/lib/analytics/events';
 import { buildLessonMaterial, courseSourceWordCount } from '@/lib/course-sources';
+import { getQuestionBankItems } from '@/lib/firebase/question-bank';
+import { DEFAULT_QUESTION_BANK_DRAW, bankTagsInUse, drawQuestionBankItems, normalizeBankTags } from '@/lib/question-bank';
+import { DEFAULT_MATRIX_AXES, DEFAULT_SCALE_LABELS, STRUCTURED_TYPE_HINTS, isStructuredInteractionType, scaleLabelsFor } from '@/lib/structured-interactions';
+import { parseEstimate } from '@/lib/numeric-estimates';
+import { DEFAULT_DEBATE_SIDES } from '@/lib/debate';
 import ProtectedRoute from '@/components/teacher/ProtectedRoute';
 import DashboardLayout from '@/components/teacher/DashboardLayout';
+import HotspotEditor from '@/components/teacher/HotspotEditor';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import InlineMessage from '@/components/ui/InlineMessage';
 import { AmbientLoading } from '@/components/motion';
-import type { CaseStudy, Course, SessionInteraction, SessionInteractionType } from '@/types';
+import type { CaseStudy, Course, QuestionBankDifficulty, QuestionBankDraw, QuestionBankItem, Session, SessionInteraction, SessionInteractionType } from '@/types';
 import {
   ArrowDown,
   ArrowLeft,
   ArrowUp,
   BarChart3,
   BookOpen,
+  Calculator,
   Check,
   CircleHelp,
   Clock3,
   Cloud,
+  Crosshair,
   Dices,
   FileText,
   GripVertical,
+  Grid2x2,
   HeartPulse,
   ListChecks,
+  ListOrdered,
   MessageCircle,
   Plus,
   Save,
+  Scale,
   ShieldCheck,
+  SlidersHorizontal,
   Sparkles,
   Repeat2,
   Trash2,
@@ -53,9 +66,15 @@ const interactionOptions: Array<{
   { type: 'quiz', label: 'Knowledge check', description: 'Reveal a misconception while there is time to reteach it.', icon: CircleHelp },
   { type: 'open-response', label: 'Short response', description: 'Gather questions or a brief reflection for review.', icon: MessageCircle },
   { type: 'word-cloud', label: 'Word cloud', description: 'Gather one word or a short phrase and show shared themes live.', icon: Cloud },
+  { type: 'ranking', label: 'Ranking', description: 'Ask students to put options in order and see the class ranking.', icon: ListOrdered },
+  { type: 'scale', label: 'Agreement scale', description: 'Rate several statements on the same Likert scale.', icon: SlidersHorizontal },
+  { type: 'matrix', label: '2×2 matrix', description: 'Place each item on two axes, such as effort and impact.', icon: Grid2x2 },
+  { type: 'estimate', label: 'Numeric estimate', description: 'Collect a number, such as a valuation, and show the spread.', icon: Calculator },
+  { type: 'hotspot', label: 'Image hotspot', description: 'Ask students to tap a point on a chart, org chart, or floor plan.', icon: Crosshair },
   { type: 'reflection', label: 'Exit reflection', description: 'Capture what changed and what students will carry forward.', icon: Sparkles },
   { type: 'team-formation', label: 'Form teams now', description: 'Let students create or join named teams during class.', icon: UsersRound },
   { type: 'peer-learning', label: 'Peer learning', description: 'Let students answer, discuss, then answer again.', icon: Repeat2 },
+  { type: 'debate', label: 'Debate', description: 'Split the room into two sides, argue, and see who moved.', icon: Scale },
   { type: 'group-work', label: 'Group work', description: 'Give small groups a shared task, clock, and submission.', icon: UsersRound },
   { type: 'timer', label: 'Clock', description: 'Put focused thinking or working time into the session flow.', icon: Clock3 },
   { type: 'spin-wheel', label: 'Spin the wheel', description: 'Choose a student, team, or custom item with the room.', icon: Dices },
@@ -70,12 +89,12 @@ const interactionGroups: Array<{
   {
     label: 'Quick interactions',
     description: 'One focused classroom moment',
-    types: ['pulse', 'poll', 'quiz', 'open-response', 'word-cloud', 'reflection'],
+    types: ['pulse', 'poll', 'quiz', 'open-response', 'word-cloud', 'ranking', 'scale', 'matrix', 'estimate', 'hotspot', 'reflection'],
   },
   {
     label: 'Teaching flows',
     description: 'Several coordinated student steps',
-    types: ['peer-learning', 'group-work'],
+    types: ['peer-learning', 'debate', 'group-work'],
   },
   {
     label: 'Classroom tools',
@@ -124,6 +143,12 @@ const defaultPrompt: Record<SessionInteractionType, string> = {
   'group-work': 'Work together on this prompt. Choose one note-taker to submit for your group.',
   timer: 'Use this time to think, write, or complete the task on screen.',
   'spin-wheel': 'Who or what should go next?',
+  ranking: 'Put these in order, most important first.',
+  scale: 'How far do you agree with each statement?',
+  matrix: 'Where does each item belong?',
+  estimate: 'What is your best estimate?',
+  hotspot: 'Tap the part of the exhibit that matters most.',
+  debate: 'Should the company take the deal? Vote, argue your side, then vote again.',
   reflection: 'What will you take from this discussion?',
   'case-study': 'Open the case and review the first decision point.',
 };
@@ -149,10 +174,14 @@ function NewSessionContent() {
 
   const [caseStudies, setCaseStudies] = useState<CaseStudy[]>([]);
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+  const [bankItems, setBankItems] = useState<QuestionBankItem[]>([]);
   const [courseCode, setCourseCode] = useState('');
   const [courseName, setCourseName] = useState('');
   const [sessionTitle, setSessionTitle] = useState('');
   const [scheduledFor, setScheduledFor] = useState('');
+  const [savedSchedule, setSavedSchedule] = useState<Pick<Session, 'scheduledFor' | 'opensAt' | 'scheduleError'> | null>(null);
+  const [autoOpen, setAutoOpen] = useState(false);
+  const [idleCloseMinutes, setIdleCloseMinutes] = useState('');
   const [interactions, setInteractions] = useState<SessionInteraction[]>(startingInteractions);
   const [lessonContent, setLessonContent] = useState('');
   const [lessonSourceName, setLessonSourceName] = useState('');
@@ -204,6 +233,10 @@ function NewSessionContent() {
 
         if (course) {
           setSelectedCourse(course);
+          setBankItems(await getQuestionBankItems(course.id).catch((bankError) => {
+            console.warn('Question bank could not be loaded:', bankError);
+            return [];
+          }));
           setCourseCode(course.code);
           setCourseName(course.name);
           if (!session) {
@@ -218,6 +251,9 @@ function NewSessionContent() {
         if (session) {
           setSessionTitle(session.title || '');
           setScheduledFor(session.scheduledFor || '');
+          setSavedSchedule({ scheduledFor: session.scheduledFor, opensAt: session.opensAt, scheduleError: session.scheduleError });
+          setAutoOpen(Boolean(session.autoOpen));
+          setIdleCloseMinutes(session.idleCloseMinutes ? String(session.idleCloseMinutes) : '');
           setInteractions(session.interactions || []);
           setSelectedCourseSourceIds(session.courseSourceIds || []);
           setExpandedInteractionId(session.interactions?.[0]?.id || null);
@@ -277,7 +313,8 @@ function NewSessionContent() {
         prompt: defaultPrompt[type],
         plannedTime: 'During class',
         durationMinutes: type === 'case-study' ? 15 : type === 'group-work' ? 8 : type === 'timer' ? 5 : type === 'word-cloud' || type === 'spin-wheel' ? 2 : 3,
-        discussionMinutes: type === 'peer-learning' ? 2 : undefined,
+        discussionMinutes: type === 'peer-learning' ? 2 : type === 'debate' ? 5 : undefined,
+        debateSideSource: type === 'debate' ? 'random' : undefined,
         groupSize: type === 'group-work' ? 4 : undefined,
         teamTags: type === 'team-formation' ? (selectedCourse?.teamTags?.length ? selectedCourse.teamTags : ['Theme 1', 'Theme 2', 'Theme 3']) : undefined,
         requireTeamTag: type === 'team-formation' ? true : undefined,
@@ -286,12 +323,20 @@ function NewSessionContent() {
           ? ['Very low', 'Low', 'Steady', 'High', 'Very high']
           : type === 'poll' || type === 'quiz' || type === 'peer-learning'
             ? ['Option 1', 'Option 2', 'Option 3', 'Option 4']
-            : undefined,
+            : type === 'scale'
+              ? ['Statement 1', 'Statement 2', 'Statement 3']
+              : type === 'ranking' || type === 'matrix'
+                ? ['Item 1', 'Item 2', 'Item 3', 'Item 4']
+                : type === 'debate'
+                  ? [...DEFAULT_DEBATE_SIDES]
+                  : undefined,
         correctOptionIndex: type === 'quiz' || type === 'peer-learning' ? 0 : undefined,
         explanation: type === 'quiz' || type === 'peer-learning' ? 'Explain why this answer is correct.' : undefined,
         wheelSource: type === 'spin-wheel' ? 'students' : undefined,
         wheelItems: type === 'spin-wheel' ? [] : undefined,
         wheelRemoveSelected: type === 'spin-wheel' ? true : undefined,
+        scaleLabels: type === 'scale' ? [...DEFAULT_SCALE_LABELS] : undefined,
+        matrixAxes: type === 'matrix' ? { ...DEFAULT_MATRIX_AXES } : undefined,
         resultVisibility: type === 'quiz' || type === 'peer-learning' ? 'after-reveal' : type === 'open-response' || type === 'group-work' || type === 'reflection' ? 'instructor-only' : 'live',
       },
     ]);
@@ -336,7 +381,7 @@ function NewSessionContent() {
   const addOption = (interactionId: string) => {
     setInteractions((current) => current.map((interaction) => (
       interaction.id === interactionId && interaction.options && interaction.options.length < 6
-        ? { ...interaction, options: [...interaction.options, `Option ${interaction.options.length + 1}`] }
+        ? { ...interaction, options: [...interaction.options, `${isStructuredInteractionType(interaction.type) ? STRUCTURED_TYPE_HINTS[interaction.type].itemPlaceholder : 'Option'} ${interaction.options.length + 1}`] }
         : interaction
     )));
   };
@@ -352,6 +397,10 @@ function NewSessionContent() {
     }));
   };
 
+  const updateBankDraw = (interaction: SessionInteraction, changes: Partial<QuestionBankDraw>) => {
+    updateInteraction(interaction.id, { bankDraw: { ...DEFAULT_QUESTION_BANK_DRAW, ...interaction.bankDraw, ...changes } });
+  };
+
   const moveInteraction = (index: number, direction: -1 | 1) => {
     const nextIndex = index + direction;
     if (nextIndex < 0 || nextIndex >= interactions.length) return;
@@ -457,7 +506,7 @@ function NewSessionContent() {
       setInteractions((current) => [...current, ...drafts]);
       setExpandedInteractionId(drafts[0]?.id || null);
       if (drafts[0]) window.setTimeout(() => document.getElementById(`activity-${drafts[0].id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50);
-      setGenerationNotice('Four drafts were added below. Review the wording, choices, and correct answer before saving.');
+      setGenerationNotice(`${drafts.length === 4 ? 'Four' : 'Five'} drafts were added below. Review the wording, choices, and correct answer before saving.`);
       track('session_interactions_generated', { interaction_count: drafts.length });
     } catch (generationIssue: unknown) {
       setGenerationError(getUserFacingError(generationIssue, 'The question drafts could not be generated. Check your connection and try again.'));
@@ -476,6 +525,18 @@ function NewSessionContent() {
         ...interaction,
         plannedTime: getActivityPhase(interaction, index, interactions.length),
       }));
+      // Generated sessions carry an opening time computed in the instructor's saved time zone;
+      // keep it unless the meeting time itself changed here.
+      const opensAt = scheduledFor && scheduledFor === savedSchedule?.scheduledFor && savedSchedule.opensAt
+        ? savedSchedule.opensAt
+        : scheduledFor ? Timestamp.fromDate(new Date(scheduledFor)) : undefined;
+      const idleMinutes = Number(idleCloseMinutes);
+      const scheduleFields = {
+        ...(scheduledFor ? { scheduledFor } : {}),
+        ...(opensAt ? { opensAt } : {}),
+        autoOpen: Boolean(opensAt) && autoOpen,
+        ...(Number.isFinite(idleMinutes) && idleMinutes >= 5 ? { idleCloseMinutes: Math.min(Math.round(idleMinutes), 24 * 60) } : {}),
+      };
 
       if (editingSessionId) {
         await updateSession(editingSessionId, {
@@ -484,7 +545,8 @@ function NewSessionContent() {
           courseCode: courseCode.trim(),
           ...(selectedCourse ? { rewardScopeId: selectedCourse.rewardScopeId || selectedCourse.code } : {}),
           courseName: courseName.trim(),
-          ...(scheduledFor ? { scheduledFor } : {}),
+          ...scheduleFields,
+          draft: false,
           presentationMode: 'external',
           interactions: normalizedInteractions,
           courseSourceIds: selectedCourseSourceIds,
@@ -501,6 +563,7 @@ function NewSessionContent() {
         courseCode: courseCode.trim(),
         rewardScopeId: selectedCourse ? selectedCourse.rewardScopeId || selectedCourse.code : courseCode.trim(),
         courseName: courseName.trim(),
+        ...scheduleFields,
         presentationMode: 'external',
         interactions: normalizedInteractions,
         courseSourceIds: selectedCourseSourceIds,
@@ -568,6 +631,13 @@ function NewSessionContent() {
                     <Input label="Session title" value={sessionTitle} onChange={(event) => setSessionTitle(event.target.value)} placeholder="Session 6 · Platform strategy" />
                     <p className="mt-2 text-xs leading-5 text-[#697087]">Use the name students will recognize when you review this class later.</p>
                   </div>
+                  <Input label="Meets at" type="datetime-local" value={scheduledFor} onChange={(event) => setScheduledFor(event.target.value)} helperText="In this computer's time zone." />
+                  <Input label="Close after idle minutes" type="number" min={5} max={1440} inputMode="numeric" value={idleCloseMinutes} onChange={(event) => setIdleCloseMinutes(event.target.value)} placeholder="15" helperText="A live session with no activity this long ends itself." />
+                  <label className="flex items-start gap-3 rounded-xl border border-[#e3e5ed] bg-[#fbfbfd] p-4 sm:col-span-2">
+                    <input type="checkbox" className="seminar-focus mt-0.5 h-4 w-4 accent-[#5146e5]" checked={autoOpen} disabled={!scheduledFor} onChange={(event) => setAutoOpen(event.target.checked)} />
+                    <span><strong className="block text-sm text-[#101a38]">Open the join code automatically</strong><span className="mt-0.5 block text-xs leading-5 text-[#697087]">{scheduledFor ? 'Students can join from the meeting time, even before you open the live screen. Opening counts as a session on your plan.' : 'Set a meeting time to open this session automatically.'}</span></span>
+                  </label>
+                  {savedSchedule?.scheduleError && !autoOpen && <div className="sm:col-span-2"><InlineMessage tone="warning" title="This session did not open on schedule." message={savedSchedule.scheduleError} /></div>}
                 </div>
               </section>
 
@@ -744,11 +814,11 @@ function NewSessionContent() {
                           <p className="text-xs font-bold uppercase tracking-[0.08em] text-[#5146e5]">Edit activity</p>
                           <Input aria-label="Interaction title" value={interaction.title} onChange={(event) => updateInteraction(interaction.id, { title: event.target.value })} />
                           <textarea aria-label="Prompt" value={interaction.prompt} onChange={(event) => updateInteraction(interaction.id, { prompt: event.target.value })} rows={2} className="w-full resize-none rounded-xl border border-[#d7dae5] bg-white px-3.5 py-3 text-sm leading-6 text-[#313950] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" />
-                          {interaction.options && (
+                          {interaction.options && !interaction.bankDraw && (
                             <div className="rounded-xl border border-[#e3e5ed] bg-[#faf9fc] p-3.5">
                               <div className="mb-3 flex items-center justify-between gap-3">
-                                <p className="text-xs font-semibold text-[#4f576d]">{interaction.type === 'quiz' || interaction.type === 'peer-learning' ? 'Answer choices and correct answer' : 'Response choices'}</p>
-                                {interaction.options.length < 6 && <button type="button" onClick={() => addOption(interaction.id)} className="seminar-focus text-xs font-bold text-[#5146e5]"><Plus className="mr-1 inline h-3.5 w-3.5" />Add choice</button>}
+                                <p className="text-xs font-semibold text-[#4f576d]">{interaction.type === 'quiz' || interaction.type === 'peer-learning' ? 'Answer choices and correct answer' : interaction.type === 'debate' ? 'Sides' : isStructuredInteractionType(interaction.type) ? STRUCTURED_TYPE_HINTS[interaction.type].itemsLabel : 'Response choices'}</p>
+                                {interaction.options.length < 6 && interaction.type !== 'debate' && <button type="button" onClick={() => addOption(interaction.id)} className="seminar-focus text-xs font-bold text-[#5146e5]"><Plus className="mr-1 inline h-3.5 w-3.5" />{isStructuredInteractionType(interaction.type) ? 'Add item' : 'Add choice'}</button>}
                               </div>
                               <div className="space-y-2">
                                 {interaction.options.map((choice, optionIndex) => (
@@ -776,14 +846,35 @@ function NewSessionContent() {
                               {(interaction.type === 'quiz' || interaction.type === 'peer-learning') && <p className="mt-2 pl-6 text-[11px] text-[#697087]">Select the circle beside the correct answer.</p>}
                             </div>
                           )}
-                          {(interaction.type === 'quiz' || interaction.type === 'peer-learning') && (
+                          {(interaction.type === 'quiz' || interaction.type === 'peer-learning') && !interaction.bankDraw && (
                             <textarea aria-label="Answer explanation" value={interaction.explanation || ''} onChange={(event) => updateInteraction(interaction.id, { explanation: event.target.value })} rows={2} placeholder="Explain the answer after students respond" className="w-full resize-none rounded-xl border border-[#d7dae5] bg-white px-3.5 py-3 text-sm leading-6 text-[#313950] outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" />
                           )}
+                          {interaction.type === 'quiz' && selectedCourse && (
+                            <div className="rounded-xl border border-[#e3e5ed] bg-[#faf9fc] p-3.5">
+                              <label className="flex min-h-10 items-center gap-3 text-xs font-bold text-[#4f576d]"><input type="checkbox" checked={Boolean(interaction.bankDraw)} onChange={(event) => updateInteraction(interaction.id, { bankDraw: event.target.checked ? { ...DEFAULT_QUESTION_BANK_DRAW } : undefined })} className="h-4 w-4 accent-[#5146e5]" /> Draw questions from the class question bank</label>
+                              {interaction.bankDraw && (
+                                <div className="mt-3 grid gap-3 border-t border-[#e3e5ed] pt-3 text-xs font-semibold text-[#555d73] sm:grid-cols-2">
+                                  <label className="grid gap-1">Tags <input key={interaction.bankDraw.tags.join(',')} defaultValue={interaction.bankDraw.tags.join(', ')} onBlur={(event) => updateBankDraw(interaction, { tags: normalizeBankTags(event.target.value) })} list={`bank-tags-${interaction.id}`} placeholder="Any tag" className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label>
+                                  <datalist id={`bank-tags-${interaction.id}`}>{bankTagsInUse(bankItems).map((tag) => <option key={tag} value={tag} />)}</datalist>
+                                  <label className="grid gap-1">Difficulty <select value={interaction.bankDraw.difficulty || ''} onChange={(event) => updateBankDraw(interaction, { difficulty: (event.target.value || undefined) as QuestionBankDifficulty | undefined })} className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]"><option value="">Any</option><option value="easy">Easy</option><option value="medium">Medium</option><option value="hard">Hard</option></select></label>
+                                  <label className="flex items-center gap-2">Questions to draw <input type="number" min={1} max={10} value={interaction.bankDraw.count} onChange={(event) => updateBankDraw(interaction, { count: Math.min(10, Math.max(1, Number(event.target.value) || 1)) })} className="w-16 rounded-lg border border-[#d7dae5] bg-white px-2 py-1.5" /></label>
+                                  <label className="flex items-center gap-2">Skip questions from the last <input type="number" min={0} max={10} value={interaction.bankDraw.avoidRecentSessions} onChange={(event) => updateBankDraw(interaction, { avoidRecentSessions: Math.min(10, Math.max(0, Number(event.target.value) || 0)) })} className="w-16 rounded-lg border border-[#d7dae5] bg-white px-2 py-1.5" /> sessions</label>
+                                  <label className="flex min-h-8 items-center gap-2 sm:col-span-2"><input type="checkbox" checked={interaction.bankDraw.shuffleOptions} onChange={(event) => updateBankDraw(interaction, { shuffleOptions: event.target.checked })} className="h-4 w-4 accent-[#5146e5]" /> Shuffle the answer order for each student</label>
+                                  <p className="text-[11px] font-normal text-[#697087] sm:col-span-2">{drawQuestionBankItems(bankItems, { ...interaction.bankDraw, count: bankItems.length }, []).length} questions in the bank match. The draw happens when you start class.</p>
+                                </div>
+                              )}
+                            </div>
+                          )}
                           {interaction.type === 'quiz' && <div className="rounded-xl border border-[#dedaf8] bg-[#f7f6ff] p-3.5"><label className="flex min-h-10 items-center gap-3 text-xs font-bold text-[#4f576d]"><input type="checkbox" checked={Boolean(interaction.speedBonusEnabled)} onChange={(event) => updateInteraction(interaction.id, { speedBonusEnabled: event.target.checked, speedBonusSeconds: event.target.checked ? interaction.speedBonusSeconds || 40 : undefined, maxSpeedBonusPoints: event.target.checked ? 4 : undefined })} className="h-4 w-4 accent-[#5146e5]" /> Add a speed bonus</label>{interaction.speedBonusEnabled && <div className="mt-3 flex flex-wrap items-center gap-3 border-t border-[#dedaf8] pt-3"><label className="flex items-center gap-2 text-xs font-semibold text-[#555d73]">Bonus window <input type="number" min={10} max={120} step={5} value={interaction.speedBonusSeconds || 40} onChange={(event) => updateInteraction(interaction.id, { speedBonusSeconds: Math.min(120, Math.max(10, Number(event.target.value) || 40)) })} className="w-16 rounded-lg border border-[#d7dae5] bg-white px-2 py-1.5" /> sec</label><span className="text-[11px] text-[#697087]">8 points for a correct answer, plus up to 4 for speed.</span></div>}</div>}
                           {interaction.type === 'peer-learning' && <label className="flex items-center gap-3 rounded-xl bg-[#f7f6ff] px-3.5 py-3 text-xs font-semibold text-[#4f576d]"><Repeat2 className="h-4 w-4 text-[#5146e5]" /> Partner discussion <input aria-label="Partner discussion minutes" type="number" min={1} max={10} value={interaction.discussionMinutes || 2} onChange={(event) => updateInteraction(interaction.id, { discussionMinutes: Number(event.target.value) })} className="ml-auto w-16 rounded-lg border border-[#d7dae5] bg-white px-2 py-1.5 text-[#313950]" /> min</label>}
+                          {interaction.type === 'debate' && <div className="grid gap-3 rounded-lg bg-[#f7f6ff] px-3 py-3 text-xs font-semibold text-[#4f576d] sm:grid-cols-2"><label className="grid gap-1.5">Assign sides <select aria-label="Assign sides" value={interaction.debateSideSource || 'random'} onChange={(event) => updateInteraction(interaction.id, { debateSideSource: event.target.value as NonNullable<SessionInteraction['debateSideSource']> })} className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]"><option value="random">At random</option><option value="teams">By course team</option></select></label><label className="grid gap-1.5">Argument time in minutes <input aria-label="Argument minutes" type="number" min={1} max={15} value={interaction.discussionMinutes || 5} onChange={(event) => updateInteraction(interaction.id, { discussionMinutes: Number(event.target.value) })} className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label><p className="text-[11px] font-normal text-[#697087] sm:col-span-2">Students vote, post and upvote arguments for their side, then vote again. The projector shows how far the room moved.</p></div>}
                           {interaction.type === 'group-work' && <label className="flex items-center gap-3 rounded-xl bg-[#fff7f2] px-3.5 py-3 text-xs font-semibold text-[#4f576d]"><UsersRound className="h-4 w-4 text-[#c85540]" /> Suggested group size <input aria-label="Suggested group size" type="number" min={2} max={10} value={interaction.groupSize || 4} onChange={(event) => updateInteraction(interaction.id, { groupSize: Number(event.target.value) })} className="ml-auto w-16 rounded-lg border border-[#e4d7d1] bg-white px-2 py-1.5 text-[#313950]" /> students</label>}
                           {interaction.type === 'timer' && <p className="rounded-lg bg-[#f7f6ff] px-3 py-2 text-xs leading-5 text-[#5a6278]">The clock starts when you launch this activity. Students see the prompt and the same countdown on their phones.</p>}
                           {interaction.type === 'open-response' && <p className="rounded-lg bg-[#f7f6ff] px-3 py-2 text-xs leading-5 text-[#5a6278]">Written responses stay on the instructor screen. You choose what appears on the projector.</p>}
+                          {interaction.type === 'scale' && <label className="grid gap-2 rounded-lg bg-[#f7f6ff] px-3 py-3 text-xs font-semibold text-[#4f576d]"><span>Scale points <small className="font-normal">One per line, lowest first. Use 3 to 7 points.</small></span><textarea aria-label="Scale points" defaultValue={scaleLabelsFor(interaction).join('\n')} onBlur={(event) => { const scaleLabels = scaleLabelsFor({ scaleLabels: event.target.value.split('\n') }); event.target.value = scaleLabels.join('\n'); updateInteraction(interaction.id, { scaleLabels }); }} rows={5} maxLength={400} className="w-full resize-y rounded-lg border border-[#d7dae5] bg-white px-3 py-2 text-sm font-normal leading-6 text-[#313950] outline-none focus:border-[#5146e5]" /></label>}
+                          {interaction.type === 'matrix' && <div className="grid gap-3 rounded-lg bg-[#f7f6ff] px-3 py-3 text-xs font-semibold text-[#4f576d] sm:grid-cols-2"><label className="grid gap-1.5">Across <input aria-label="Horizontal axis" value={interaction.matrixAxes?.x ?? DEFAULT_MATRIX_AXES.x} onChange={(event) => updateInteraction(interaction.id, { matrixAxes: { ...DEFAULT_MATRIX_AXES, ...interaction.matrixAxes, x: event.target.value.slice(0, 32) } })} className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label><label className="grid gap-1.5">Up <input aria-label="Vertical axis" value={interaction.matrixAxes?.y ?? DEFAULT_MATRIX_AXES.y} onChange={(event) => updateInteraction(interaction.id, { matrixAxes: { ...DEFAULT_MATRIX_AXES, ...interaction.matrixAxes, y: event.target.value.slice(0, 32) } })} className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label><p className="text-[11px] font-normal text-[#697087] sm:col-span-2">Students place each item in one of four quadrants, from low to high on both axes.</p></div>}
+                          {interaction.type === 'estimate' && <div className="grid gap-3 rounded-lg bg-[#f7f6ff] px-3 py-3 text-xs font-semibold text-[#4f576d] sm:grid-cols-2"><label className="grid gap-1.5">Unit <input aria-label="Unit" value={interaction.estimateUnit ?? ''} onChange={(event) => updateInteraction(interaction.id, { estimateUnit: event.target.value.slice(0, 16) || undefined })} placeholder="$m, units, %" className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label><label className="grid gap-1.5">True value <input aria-label="True value" defaultValue={interaction.estimateAnswer ?? ''} onBlur={(event) => { const value = parseEstimate(event.target.value); event.target.value = value === null ? '' : String(value); updateInteraction(interaction.id, { estimateAnswer: value ?? undefined }); }} inputMode="decimal" placeholder="Shown on reveal" className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label><label className="grid gap-1.5">Lowest accepted <input aria-label="Lowest accepted" defaultValue={interaction.estimateMin ?? ''} onBlur={(event) => { const value = parseEstimate(event.target.value); event.target.value = value === null ? '' : String(value); updateInteraction(interaction.id, { estimateMin: value ?? undefined }); }} inputMode="decimal" placeholder="No limit" className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label><label className="grid gap-1.5">Highest accepted <input aria-label="Highest accepted" defaultValue={interaction.estimateMax ?? ''} onBlur={(event) => { const value = parseEstimate(event.target.value); event.target.value = value === null ? '' : String(value); updateInteraction(interaction.id, { estimateMax: value ?? undefined }); }} inputMode="decimal" placeholder="No limit" className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label>{typeof interaction.estimateAnswer === 'number' && <label className="flex items-center gap-2 font-normal sm:col-span-2"><input type="checkbox" checked={interaction.estimateProximityPoints === true} onChange={(event) => updateInteraction(interaction.id, { estimateProximityPoints: event.target.checked })} className="accent-[#5146e5]" /> Award points for estimates within 5%, 15%, or 30% of the true value</label>}<p className="text-[11px] font-normal text-[#697087] sm:col-span-2">Students type a number; shorthand such as 4.5k or 2m works. The projector shows the spread live and marks the true value when you reveal it.</p></div>}
+                          {interaction.type === 'hotspot' && <HotspotEditor image={interaction.hotspotImage} regions={interaction.hotspotRegions} onChange={(value) => updateInteraction(interaction.id, value)} />}
                           {interaction.type === 'word-cloud' && <p className="rounded-lg bg-[#f7f6ff] px-3 py-2 text-xs leading-5 text-[#5a6278]">Students send one word or a short phrase. Repeated answers grow larger in the live projector cloud.</p>}
                           {interaction.type === 'team-formation' && <label className="grid gap-2 rounded-lg bg-[#f7f6ff] px-3 py-3 text-xs font-semibold text-[#4f576d]"><span>Course tags <small className="font-normal">Separate with commas</small></span><input defaultValue={(interaction.teamTags || []).join(', ')} onBlur={(event) => { const teamTags = event.target.value.split(',').map((tag) => tag.trim()).filter(Boolean).slice(0, 8); updateInteraction(interaction.id, { teamTags, requireTeamTag: teamTags.length > 0 }); }} placeholder="Theme 1, Theme 2, Theme 3" className="rounded-lg border border-[#d7dae5] bg-white px-3 py-2 font-normal" /></label>}
                           {interaction.type === 'group-work' && <p className="rounded-lg bg-[#fff7f2] px-3 py-2 text-xs leading-5 text-[#6a554e]">Ask each group to choose one note-taker. The projector shows the number of group submissions, not individual names.</p>}
@@ -795,6 +886,7 @@ function NewSessionContent() {
                                   <option value="students">Students who joined this session</option>
                                   <option value="teams">Teams created in this class</option>
                                   <option value="custom">A custom list</option>
+                                  <option value="cold-call">Cold call, fairest first</option>
                                 </select>
                               </label>
                               {interaction.wheelSource === 'custom' ? (
@@ -802,7 +894,7 @@ function NewSessionContent() {
                                   <span>Items <small className="font-normal text-[#7a8194]">One per line</small></span>
                                   <textarea aria-label="Custom wheel items" value={(interaction.wheelItems || []).join('\n')} onChange={(event) => updateInteraction(interaction.id, { wheelItems: event.target.value.split('\n').map((item) => item.trim()).filter(Boolean).slice(0, 40) })} rows={5} maxLength={1000} placeholder={'Topic A\nTopic B\nTopic C'} className="w-full resize-y rounded-lg border border-[#d7dae5] bg-white px-3 py-2.5 text-sm leading-6 text-[#313950] outline-none focus:border-[#5146e5]" />
                                 </label>
-                              ) : <p className="text-xs leading-5 text-[#697087]">{interaction.wheelSource === 'teams' ? 'The wheel uses the current team list when you launch it.' : 'The wheel uses the live attendance list. Student display names will appear on the classroom screen.'}</p>}
+                              ) : <p className="text-xs leading-5 text-[#697087]">{interaction.wheelSource === 'teams' ? 'The wheel uses the current team list when you launch it.' : interaction.wheelSource === 'cold-call' ? 'Cold call picks from students checked in under their course record, favoring those called least this term and skipping anyone opted out on the class Cold calls page.' : 'The wheel uses the live attendance list. Student display names will appear on the classroom screen.'}</p>}
                               <label className="flex items-center gap-2.5 text-xs font-semibold text-[#4f576d]"><input type="checkbox" checked={interaction.wheelRemoveSelected !== false} onChange={(event) => updateInteraction(interaction.id, { wheelRemoveSelected: event.target.checked })} className="h-4 w-4 accent-[#5146e5]" /> Remove a selected item before the next spin</label>
                             </div>
                           )}
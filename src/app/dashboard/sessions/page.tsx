@@ -4,7 +4,7 @@ import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/hooks/useAuth';
-import { createSession, generateSessionCode, getCaseStudiesByTeacher, getAccessibleSessions, checkAndTimeoutInactiveSessions, endSession, deleteSession, updateSession } from '@/lib/firebase/firestore';
+import { createSession, generateSessionCode, getCaseStudiesByTeacher, getAccessibleSessions, endSession, deleteSession, updateSession } from '@/lib/firebase/firestore';
 import { deleteInstructorClassroomData, endInstructorClassroom } from '@/lib/firebase/live-classroom';
 import ProtectedRoute from '@/components/teacher/ProtectedRoute';
 import DashboardLayout from '@/components/teacher/DashboardLayout';
@@ -31,12 +31,11 @@ export default function SessionsPage() {
     const loadData = async () => {
       if (user) {
         try {
-          // Reconcile stale live flags before showing session status.
-          const [studies] = await Promise.all([
+          // Idle sessions are closed by the session scheduler, so live flags here are current.
+          const [studies, sessionsData] = await Promise.all([
             getCaseStudiesByTeacher(user.uid, true), // Include archived for session references
-            checkAndTimeoutInactiveSessions(user.uid),
+            getAccessibleSessions(user.uid),
           ]);
-          const sessionsData = await getAccessibleSessions(user.uid);
           
           setCaseStudies(studies);
           setSessions(sessionsData);
@@ -109,10 +108,6 @@ export default function SessionsPage() {
 
     const refreshSessions = async () => {
       try {
-        // Check for inactive sessions and timeout if needed
-        await checkAndTimeoutInactiveSessions(user.uid);
-        
-        // Then refresh the sessions list
         const sessionsData = await getAccessibleSessions(user.uid);
         setSessions(sessionsData);
       } catch (error) {
@@ -191,6 +186,7 @@ export default function SessionsPage() {
         sessionType: session.sessionType,
         caseStudyId: session.caseStudyId,
         caseStudyTitle: session.caseStudyTitle,
+        caseStudyVersion: session.caseStudyVersion,
         teacherId: session.teacherId,
         courseId: session.courseId,
         courseCode: session.courseCode,
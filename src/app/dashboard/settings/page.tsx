@@ -21,6 +21,8 @@ import Input from '@/components/ui/Input';
 import InstructorAvatar from '@/components/teacher/InstructorAvatar';
 import BillingSettings from '@/components/teacher/BillingSettings';
 import TeachingTeamPanel from '@/components/teacher/TeachingTeamPanel';
+import InstitutionPanel from '@/components/teacher/InstitutionPanel';
+import RetentionSettings from '@/components/teacher/RetentionSettings';
 import { 
   User, 
   Lock, 
@@ -324,6 +326,10 @@ export default function SettingsPage() {
 
             <TeachingTeamPanel ownerUid={user?.uid} />
 
+            <InstitutionPanel />
+
+            <RetentionSettings ownerUid={user?.uid} />
+
             {/* Security Settings */}
             <Card>
               <CardHeader>
@@ -464,6 +470,21 @@ export default function SettingsPage() {
                   </Button>
                 </div>
 
+                <div className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <h4 className="font-medium text-gray-900">Student data requests</h4>
+                    <p className="text-sm text-gray-600">
+                      Export or erase one student&apos;s records across your classes
+                    </p>
+                  </div>
+                  <Link href="/dashboard/privacy">
+                    <Button variant="outline">
+                      <Shield className="w-4 h-4 mr-2" />
+                      Open
+                    </Button>
+                  </Link>
+                </div>
+
                 <div className="flex items-center justify-between p-4 border rounded-lg">
                   <div>
                     <h4 className="font-medium text-gray-900">Sign Out</h4>
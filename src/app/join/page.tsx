@@ -62,7 +62,8 @@ export default function JoinPage() {
   const studentNumberInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const code = new URLSearchParams(window.location.search).get('code');
+    const searchParams = new URLSearchParams(window.location.search);
+    const code = searchParams.get('code');
     const normalizedCode = code?.replace(/[^a-z0-9]/gi, '').toUpperCase().slice(0, 6) || '';
     if (normalizedCode) {
       setSessionCode(normalizedCode);
@@ -85,6 +86,13 @@ export default function JoinPage() {
       window.localStorage.removeItem(REMEMBERED_STUDENT_KEY);
     }
 
+    // An LMS launch passes the student number from the course roster, which wins over this device's memory.
+    const launchStudentNumber = normalizeStudentNumber(searchParams.get('student') || '');
+    if (launchStudentNumber.length >= 3) {
+      setStudentNumber(launchStudentNumber);
+      setStudentDisplayName(normalizeStudentDisplayName(searchParams.get('name') || ''));
+    }
+
     window.requestAnimationFrame(() => {
       if (normalizedCode) studentNumberInputRef.current?.focus();
       else codeInputRef.current?.focus();
@@ -6,8 +6,13 @@ import { Activity, CheckCircle2, ChevronLeft, ChevronRight, Cloud, Dices, HeartP
 import LivingMoodField from '@/components/live/LivingMoodField';
 import ClassroomStateGate from '@/components/live/ClassroomStateGate';
 import MarkdownContent, { markdownToPlainText } from '@/components/live/MarkdownContent';
+import DebateResults from '@/components/live/DebateResults';
+import EstimateResults from '@/components/live/EstimateResults';
+import HotspotResults from '@/components/live/HotspotResults';
+import StructuredResults from '@/components/live/StructuredResults';
 import { joinDisplayPresence, subscribeToStudentPublicState } from '@/lib/firebase/live-classroom';
 import { ensureStudentAnonymousAuth } from '@/lib/firebase/student-config';
+import { isStructuredInteractionType } from '@/lib/structured-interactions';
 import {
   EMPTY_ONBOARDING_COUNTS,
   DEFAULT_LIVE_QUESTIONS,
@@ -207,6 +212,13 @@ function ClassroomInteraction({ lessonState }: { lessonState: LessonDisplayState
   const isWordCloud = interaction.type === 'word-cloud';
   const isTeamFormation = interaction.type === 'team-formation';
   const isWheel = interaction.type === 'spin-wheel';
+  const isStructured = isStructuredInteractionType(interaction.type);
+  const isEstimate = interaction.type === 'estimate';
+  const showEstimateSpread = isEstimate && Boolean(results.estimateValues?.length) && (results.revealed || interaction.resultVisibility === 'live');
+  const isHotspot = interaction.type === 'hotspot';
+  const showHotspotTaps = isHotspot && (results.revealed || interaction.resultVisibility === 'live');
+  const isDebate = interaction.type === 'debate';
+  const showDebateStance = isDebate && (results.revealed || interaction.resultVisibility === 'live');
   const wordCloudItems = buildWordCloudItems(results.writtenResponses);
   const repeatedWordCloudItems = wordCloudItems.filter((item) => item.count > 1).slice(0, 3);
   const wordCloudDensity = wordCloudDensityClass(wordCloudItems.length);
@@ -215,12 +227,12 @@ function ClassroomInteraction({ lessonState }: { lessonState: LessonDisplayState
   ];
 
   return (
-    <section className={`interaction-display-stage ${isClock ? 'is-clock-module' : isPeerDiscussion ? 'is-peer-discussion' : isWordCloud ? 'is-word-cloud' : isTeamFormation ? 'is-team-formation' : isWheel ? 'is-spin-wheel' : ''} ${showDistribution ? 'has-results' : interaction.options?.length ? 'has-response-current' : ''}`}>
+    <section className={`interaction-display-stage ${isClock ? 'is-clock-module' : isPeerDiscussion ? 'is-peer-discussion' : isWordCloud ? 'is-word-cloud' : isTeamFormation ? 'is-team-formation' : isWheel ? 'is-spin-wheel' : ''} ${showDistribution || showEstimateSpread || isHotspot || isDebate ? 'has-results' : interaction.options?.length || isEstimate ? 'has-response-current' : ''}`}>
       <div className="interaction-display-heading">
         <div>
           <span className="display-eyebrow"><ListChecks size={20} /> {interaction.label}</span>
           {isClock ? <h1>{interaction.title}</h1> : <MarkdownContent heading className="interaction-display-question" markdown={interaction.prompt} />}
-          {isClock ? <MarkdownContent className="display-clock-instructions" markdown={interaction.prompt} /> : <p>{isWheel ? results.wheelSelectedLabel ? 'The wheel has spoken.' : 'The instructor will spin when the room is ready.' : isTeamFormation ? 'Choose your team on your phone. New teams will appear here as they are created.' : isPeerDiscussion ? 'Turn to someone near you. Compare your reasoning, not only your answer.' : isWordCloud ? results.open ? 'Each answer joins the room as it arrives.' : 'The cloud is complete. What patterns do you notice?' : results.phase === 'respond-again' ? 'Answer once more after the conversation.' : results.open ? interaction.type === 'group-work' ? `Choose your team. One person submits for each team.` : 'Respond on your phone.' : results.revealed ? 'Responses are locked. Discuss the result together.' : 'Responses are locked while the instructor reviews them.'}</p>}
+          {isClock ? <MarkdownContent className="display-clock-instructions" markdown={interaction.prompt} /> : <p>{isWheel ? results.wheelSelectedLabel ? 'The wheel has spoken.' : 'The instructor will spin when the room is ready.' : isTeamFormation ? 'Choose your team on your phone. New teams will appear here as they are created.' : isPeerDiscussion ? 'Turn to someone near you. Compare your reasoning, not only your answer.' : isDebate ? results.phase === 'discuss' ? 'Argue your side on your phone, and upvote the points that land.' : results.phase === 'respond-again' ? 'You have heard both sides. Vote again.' : results.revealed ? 'Where did the room move?' : 'Take a side on your phone before the debate starts.' : isWordCloud ? results.open ? 'Each answer joins the room as it arrives.' : 'The cloud is complete. What patterns do you notice?' : results.phase === 'respond-again' ? 'Answer once more after the conversation.' : results.open ? interaction.type === 'group-work' ? `Choose your team. One person submits for each team.` : 'Respond on your phone.' : results.revealed ? 'Responses are locked. Discuss the result together.' : 'Responses are locked while the instructor reviews them.'}</p>}
         </div>
         {!isClock && !isWheel && <div className="interaction-display-count">
           <Users size={21} />
@@ -281,12 +293,25 @@ function ClassroomInteraction({ lessonState }: { lessonState: LessonDisplayState
             {repeatedWordCloudItems.length > 0 && <div><small>Most repeated</small>{repeatedWordCloudItems.map((item) => <b key={item.key}>{item.label} <i>{item.count}</i></b>)}</div>}
           </div>}
         </div>
+      ) : isEstimate ? (
+        showEstimateSpread
+          ? <EstimateResults interaction={interaction} values={results.estimateValues || []} revealed={results.revealed} projector />
+          : <ResponseCurrent count={results.responseCount} runId={results.runId} open={results.open} />
+      ) : isHotspot && interaction.hotspotImage ? (
+        // The exhibit stays up while students tap; correct regions only arrive with the reveal.
+        <HotspotResults image={interaction.hotspotImage} points={showHotspotTaps ? results.hotspotPoints || [] : []} regions={results.revealed ? interaction.hotspotRegions : undefined} projector />
+      ) : isDebate ? (
+        showDebateStance || results.phase === 'discuss' || results.debateArguments?.length
+          ? <DebateResults interaction={interaction} results={results} showStance={showDebateStance} projector />
+          : <ResponseCurrent count={results.responseCount} runId={results.runId} open={results.open} />
+      ) : isStructured && showDistribution ? (
+        <StructuredResults interaction={interaction} results={results} projector />
       ) : isPeerDiscussion ? (
         <div className="display-peer-discussion"><div className="peer-orbit"><span>Think</span><i /><span>Listen</span><i /><span>Explain</span></div><strong>What led you to your answer?</strong><p>Find one point you agree on and one point worth reconsidering.</p></div>
       ) : !showDistribution && interaction.options?.length && (
         <ResponseCurrent count={results.responseCount} runId={results.runId} open={results.open} />
       )}
-      {!isClock && !isWheel && !isPeerDiscussion && !isWordCloud && (showDistribution ? (
+      {!isClock && !isWheel && !isPeerDiscussion && !isWordCloud && !isStructured && !isEstimate && !isHotspot && !isDebate && (showDistribution ? (
         <div className="interaction-result-options">
           {interaction.options?.map((option, index) => {
             const count = results.optionCounts[index] ?? 0;
@@ -345,7 +370,11 @@ function ClassroomInteraction({ lessonState }: { lessonState: LessonDisplayState
 
 function ClassroomWelcome({ lessonState, joinUrl }: { lessonState: LessonDisplayState; joinUrl: string }) {
   const step = lessonState.onboardingStep;
-  const welcomeResponses = total(lessonState.onboardingMoodCounts);
+  const anonymousPulse = lessonState.session.anonymousPulse === true;
+  const welcomeResponses = anonymousPulse ? lessonState.pulseResponses || 0 : total(lessonState.onboardingMoodCounts);
+  // In an anonymous pulse only counted answers are published, and the breakdown waits for k of them.
+  const shownResponses = total(lessonState.onboardingMoodCounts);
+  const breakdownWithheld = anonymousPulse && shownResponses < (lessonState.session.pulseMinimum || 0);
   const joinLink = new URL(joinUrl);
   joinLink.searchParams.set('code', lessonState.session.sessionCode.replace(/\s/g, ''));
 
@@ -391,7 +420,9 @@ function ClassroomWelcome({ lessonState, joinUrl }: { lessonState: LessonDisplay
             </article>
           ))}
         </div>
-        <div className="welcome-privacy-strip"><Lock size={17} /> Individual pulse responses stay private. The projector only shows the class total.</div>
+        <div className="welcome-privacy-strip"><Lock size={17} /> {anonymousPulse
+          ? `Pulse answers are anonymous. Nobody, including your instructor, sees who chose what, and the class total appears once ${lessonState.session.pulseMinimum} people answer.`
+          : 'Individual pulse responses stay private. The projector only shows the class total.'}</div>
       </section>
     );
   }
@@ -410,13 +441,13 @@ function ClassroomWelcome({ lessonState, joinUrl }: { lessonState: LessonDisplay
         <div className="welcome-live-clusters">
           {MOODS.map((mood) => {
             const value = lessonState.onboardingMoodCounts[mood.key];
-            const percentage = welcomeResponses ? Math.round((value / welcomeResponses) * 100) : 0;
+            const percentage = shownResponses ? Math.round((value / shownResponses) * 100) : 0;
             return (
               <div className="welcome-cluster-row" key={mood.key} style={{ '--mood-color': mood.color } as CSSProperties}>
                 <div className="welcome-cluster-label"><i /><span>{mood.label}</span></div>
                 <div className="welcome-cluster-dots" aria-hidden="true">
                   {Array.from({ length: Math.max(value, value ? 1 : 0) }).map((_, index) => <i key={`${lessonState.onboardingRunId}-${mood.key}-${index}`} style={dotStyle(index, mood.color)} />)}
-                  {!value && <span>Waiting for the first response…</span>}
+                  {!value && <span>{breakdownWithheld ? `Shown once ${lessonState.session.pulseMinimum} people answer…` : 'Waiting for the first response…'}</span>}
                 </div>
                 <div className="welcome-cluster-value"><strong>{percentage}%</strong><span>{value} {value === 1 ? 'response' : 'responses'}</span></div>
               </div>
@@ -766,10 +797,12 @@ export default function ClassroomDisplayPage() {
     };
   }, []);
 
-  const responseTotal = total(lessonState.counts);
+  const anonymousPulse = lessonState.session.anonymousPulse === true;
+  const responseTotal = anonymousPulse ? lessonState.pulseResponses || 0 : total(lessonState.counts);
+  const pulseWithheld = anonymousPulse && total(lessonState.counts) < (lessonState.session.pulseMinimum || 0);
   const joinDisplayUrl = joinUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
   const featuredQuestion = lessonState.questions.find((question) => question.id === lessonState.featuredQuestionId) || null;
-  const selectedDate = HISTORY[lessonState.selectedWeek]?.date ?? 'Today';
+  const selectedDate = lessonState.session.sessionId ? 'Today' : HISTORY[lessonState.selectedWeek]?.date ?? 'Today';
   const roomSignal = useMemo(() => {
     const overwhelmed = lessonState.counts.overwhelmed;
     return overwhelmed >= 12 ? 'The room is settling in' : 'The room feels steady';
@@ -868,7 +901,9 @@ export default function ClassroomDisplayPage() {
           <div>
             <span className="display-eyebrow"><Waves size={20} /> Class Pulse</span>
             <h1>How are you arriving today?</h1>
-            <p><Lock size={16} /> Your response is private. Only the class total is shown.</p>
+            <p><Lock size={16} /> {pulseWithheld
+              ? `Answers are anonymous. The class total appears once ${lessonState.session.pulseMinimum} people answer.`
+              : anonymousPulse ? 'Answers are anonymous. Only the class total is shown.' : 'Your response is private. Only the class total is shown.'}</p>
           </div>
           <div className="display-response-count"><Users size={22} /><strong>{responseTotal}</strong><span>{responseTotal === 1 ? 'response' : 'responses'}</span></div>
         </div>
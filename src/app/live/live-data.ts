@@ -1,7 +1,9 @@
 import type { CSSProperties } from 'react';
-import type { SessionInteraction, SessionParticipationMode } from '@/types';
+import { emptyStructuredResults, isStructuredInteractionType } from '@/lib/structured-interactions';
+import type { DebateArgument, DebateSide, DebateSideSource } from '@/lib/debate';
+import type { HotspotImage, HotspotPoint, HotspotRegion, QuestionBankDraw, SessionInteraction, SessionParticipationMode, WellbeingMood } from '@/types';
 
-export type MoodKey = 'energized' | 'steady' | 'tired' | 'overwhelmed' | 'private';
+export type MoodKey = WellbeingMood;
 
 export type Counts = Record<MoodKey, number>;
 
@@ -9,7 +11,7 @@ export type OnboardingStep = 0 | 1 | 2 | 3 | 4;
 
 export type LiveInteraction = {
   id: string;
-  type: 'pulse' | 'poll' | 'quiz' | 'open-response' | 'word-cloud' | 'peer-learning' | 'team-formation' | 'group-work' | 'timer' | 'spin-wheel';
+  type: 'pulse' | 'poll' | 'quiz' | 'open-response' | 'word-cloud' | 'peer-learning' | 'team-formation' | 'group-work' | 'timer' | 'spin-wheel' | 'ranking' | 'scale' | 'matrix' | 'estimate' | 'hotspot' | 'debate';
   label: string;
   title: string;
   prompt: string;
@@ -24,12 +26,25 @@ export type LiveInteraction = {
   groupSize?: number;
   teamTags?: string[];
   requireTeamTag?: boolean;
-  wheelSource?: 'students' | 'teams' | 'custom';
+  wheelSource?: 'students' | 'teams' | 'custom' | 'cold-call';
   wheelItems?: string[];
   wheelItemColors?: string[];
   wheelRemoveSelected?: boolean;
+  scaleLabels?: string[];
+  matrixAxes?: { x: string; y: string };
+  estimateUnit?: string;
+  estimateMin?: number;
+  estimateMax?: number;
+  estimateAnswer?: number;
+  estimateProximityPoints?: boolean;
+  hotspotImage?: HotspotImage;
+  hotspotRegions?: HotspotRegion[];
+  debateSideSource?: DebateSideSource;
   resultVisibility?: 'live' | 'after-reveal' | 'instructor-only';
   plannedTime?: string;
+  bankDraw?: QuestionBankDraw;
+  bankItemId?: string;
+  shuffleOptions?: boolean;
 };
 
 export type InteractionResponse = {
@@ -38,6 +53,11 @@ export type InteractionResponse = {
   interactionId: string;
   optionIndex?: number;
   text?: string;
+  ranking?: number[];
+  ratings?: number[];
+  placements?: number[];
+  value?: number;
+  point?: HotspotPoint;
   teamId?: string;
   teamName?: string;
   teamDescription?: string;
@@ -73,11 +93,25 @@ export type InteractionResults = {
   firstOptionCounts?: number[];
   wheelItems?: string[];
   wheelItemColors?: string[];
+  /** Cold-call odds for each wheel item, in the same order; students called less this term weigh more. */
+  wheelItemWeights?: number[];
   wheelSelectedIndex?: number | null;
   wheelSelectedLabel?: string | null;
   wheelSpinCount?: number;
   wheelRotation?: number;
   wheelHistory?: string[];
+  rankingTotals?: number[];
+  ratingCounts?: number[][];
+  quadrantCounts?: number[][];
+  estimateValues?: number[];
+  hotspotPoints?: HotspotPoint[];
+  /** Fixed when a debate launches so each student keeps the same side through the closing vote. */
+  debateSeed?: string;
+  /** Sides given to course teams when a debate launches, by team id. */
+  debateTeamSides?: Record<string, DebateSide>;
+  debateArguments?: DebateArgument[];
+  /** The argument the instructor has put on the projector. */
+  featuredArgumentId?: string | null;
 };
 
 export type WordCloudItem = {
@@ -109,6 +143,9 @@ export type LiveSessionContext = {
   ownerUid?: string;
   instructorName?: string;
   participationMode?: SessionParticipationMode;
+  /** Pulse answers are only counted, through `submitAnonymousPulse`; breakdowns wait for `pulseMinimum` answers. */
+  anonymousPulse?: boolean;
+  pulseMinimum?: number;
   sessionCode: string;
   courseCode: string;
   rewardScopeId?: string;
@@ -130,6 +167,8 @@ export type LessonDisplayState = {
   onboardingStep: OnboardingStep;
   onboardingRunId: number;
   onboardingMoodCounts: Counts;
+  /** Answers counted in an anonymous pulse. The breakdown stays empty until `session.pulseMinimum` is reached. */
+  pulseResponses?: number;
   activeInteraction: LiveInteraction | null;
   interactionResults: InteractionResults | null;
   featuredQuestionId: number | null;
@@ -349,7 +388,9 @@ export function createInteractionResults(interaction: LiveInteraction): Interact
     responseCount: 0,
     optionCounts: interaction.options?.map(() => 0) ?? [],
     writtenResponses: [],
-    revealed: interaction.resultVisibility === 'live',
+    // Live estimates and hotspots show their spread at once but keep the answer back until it is revealed;
+    // a debate is only revealed once the closing vote is in.
+    revealed: interaction.resultVisibility === 'live' && interaction.type !== 'estimate' && interaction.type !== 'hotspot' && interaction.type !== 'debate',
     sharedResponseId: null,
     phase: interaction.type === 'group-work' ? 'work' : 'respond',
     wheelItems: interaction.type === 'spin-wheel' ? interaction.wheelItems || [] : undefined,
@@ -358,6 +399,12 @@ export function createInteractionResults(interaction: LiveInteraction): Interact
     wheelSpinCount: interaction.type === 'spin-wheel' ? 0 : undefined,
     wheelRotation: interaction.type === 'spin-wheel' ? 0 : undefined,
     wheelHistory: interaction.type === 'spin-wheel' ? [] : undefined,
+    ...(isStructuredInteractionType(interaction.type) ? emptyStructuredResults(interaction) : {}),
+    estimateValues: interaction.type === 'estimate' ? [] : undefined,
+    hotspotPoints: interaction.type === 'hotspot' ? [] : undefined,
+    debateSeed: interaction.type === 'debate' ? `${interaction.id}-${startedAt}` : undefined,
+    debateArguments: interaction.type === 'debate' ? [] : undefined,
+    featuredArgumentId: interaction.type === 'debate' ? null : undefined,
   };
 }
 
@@ -403,7 +450,8 @@ export function buildWordCloudItems(
 
 export function prepareLiveInteractions(interactions: SessionInteraction[] = []): LiveInteraction[] {
   return interactions.flatMap((interaction) => {
-    if (interaction.type === 'case-study') return [];
+    // A question bank draw that found no questions has nothing to show yet.
+    if (interaction.type === 'case-study' || interaction.bankDraw) return [];
     const type = interaction.type === 'reflection' ? 'open-response' : interaction.type;
     const label = type === 'pulse'
       ? 'Pulse'
@@ -423,6 +471,18 @@ export function prepareLiveInteractions(interactions: SessionInteraction[] = [])
                   ? 'Clock'
                   : type === 'spin-wheel'
                     ? 'Spin the wheel'
+                  : type === 'ranking'
+                    ? 'Ranking'
+                  : type === 'scale'
+                    ? 'Scale'
+                  : type === 'matrix'
+                    ? 'Matrix'
+                  : type === 'estimate'
+                    ? 'Estimate'
+                  : type === 'hotspot'
+                    ? 'Hotspot'
+                  : type === 'debate'
+                    ? 'Debate'
                   : 'Short response';
 
     return [{
@@ -445,9 +505,21 @@ export function prepareLiveInteractions(interactions: SessionInteraction[] = [])
       wheelSource: interaction.wheelSource,
       wheelItems: interaction.wheelItems,
       wheelRemoveSelected: interaction.wheelRemoveSelected,
+      scaleLabels: interaction.scaleLabels,
+      matrixAxes: interaction.matrixAxes,
+      estimateUnit: interaction.estimateUnit,
+      estimateMin: interaction.estimateMin,
+      estimateMax: interaction.estimateMax,
+      estimateAnswer: interaction.estimateAnswer,
+      estimateProximityPoints: interaction.estimateProximityPoints,
+      hotspotImage: interaction.hotspotImage,
+      hotspotRegions: interaction.hotspotRegions,
+      debateSideSource: interaction.debateSideSource,
       resultVisibility: interaction.resultVisibility
         || (type === 'quiz' || type === 'peer-learning' ? 'after-reveal' : type === 'open-response' || type === 'group-work' ? 'instructor-only' : 'live'),
       plannedTime: interaction.plannedTime || 'During class',
+      bankItemId: interaction.bankItemId,
+      shuffleOptions: interaction.shuffleOptions,
     } satisfies LiveInteraction];
   });
 }
@@ -22,7 +22,12 @@ import ClassroomStateGate from '@/components/live/ClassroomStateGate';
 import LivingMoodField from '@/components/live/LivingMoodField';
 import MarkdownContent, { markdownToPlainText } from '@/components/live/MarkdownContent';
 import ProjectorPreflight from '@/components/live/ProjectorPreflight';
+import DebateResults from '@/components/live/DebateResults';
+import EstimateResults from '@/components/live/EstimateResults';
+import HotspotResults from '@/components/live/HotspotResults';
+import StructuredResults from '@/components/live/StructuredResults';
 import InstructorAvatar from '@/components/teacher/InstructorAvatar';
+import HotspotEditor from '@/components/teacher/HotspotEditor';
 import { useAuth } from '@/lib/hooks/useAuth';
 import {
   initializeInstructorClassroom,
@@ -30,12 +35,14 @@ import {
   publishInstructorState,
   subscribeToInstructorDisplayPresence,
   subscribeToInstructorAttendance,
+  subscribeToInstructorDebate,
   subscribeToInstructorPresence,
   subscribeToInstructorPublicState,
   subscribeToInstructorQuestionVotes,
   subscribeToInstructorStudentQuestions,
   subscribeToInstructorResponses,
   subscribeToInstructorWelcomeResponses,
+  subscribeToInstructorPulseCounts,
   endInstructorClassroom,
   resetInstructorClassroom,
   setInstructorQuestionDismissed,
@@ -44,16 +51,42 @@ import {
   type StoredAttendanceClaim,
 } from '@/lib/firebase/live-classroom';
 import { Timestamp } from 'firebase/firestore';
-import type { SessionInteractionRun } from '@/types';
+import type { ColdCallOutcome, ColdCallQuality, ContributionMark, ContributionMarkLevel, Course, SeatingChart, SessionInteractionRun } from '@/types';
+import type { ColdCallContext } from '@/lib/firebase/cold-calls';
 import { interactionRunSummariesDiffer, reconcileInteractionRuns } from '@/lib/session-response-summary';
 import { claimSessionStart } from '@/lib/firebase/billing';
 import { bucketDuration, bucketParticipants, setInstructorPlan, track } from '@/lib/analytics/events';
 import { getUserFacingError } from '@/lib/user-facing-error';
+import { clampPulseMinimum, visiblePulseCounts } from '@/lib/wellbeing-pulse';
+import {
+  DEFAULT_MATRIX_AXES,
+  DEFAULT_SCALE_LABELS,
+  STRUCTURED_TYPE_HINTS,
+  addStructuredAnswer,
+  aggregateStructuredAnswers,
+  isStructuredInteractionType,
+  scaleLabelsFor,
+} from '@/lib/structured-interactions';
+import { parseEstimate } from '@/lib/numeric-estimates';
+import {
+  DEFAULT_DEBATE_SIDES,
+  assignTeamDebateSides,
+  debateSideLabels,
+  rankDebateArguments,
+  type DebateArgument,
+  type DebateSideSource,
+} from '@/lib/debate';
+import { COLD_CALL_QUALITY_LABELS, buildColdCallWheel, coldCallCandidates, coldCallKey, coldCallWeight, pickWeightedIndex } from '@/lib/cold-call';
+import { CONTRIBUTION_MARK_HINTS, CONTRIBUTION_MARK_LABELS, contributionKey, liveContributionStudents } from '@/lib/contribution-marks';
+import { buildLiveSeating, seatingGridTemplate } from '@/lib/seating-chart';
 import {
   Activity,
   ArrowRight,
+  Award,
   BarChart3,
   Bold,
+  Calculator,
+  Crosshair,
   CalendarDays,
   CheckCircle2,
   ChevronLeft,
@@ -63,7 +96,9 @@ import {
   Copy,
   Dices,
   GraduationCap,
+  Grid2x2,
   GripVertical,
+  LayoutGrid,
   HeartPulse,
   Italic,
   ListChecks,
@@ -80,7 +115,10 @@ import {
   Plus,
   QrCode,
   Repeat2,
+  Scale,
+  Search,
   Send,
+  SlidersHorizontal,
   Smartphone,
   Square,
   RotateCcw,
@@ -142,7 +180,13 @@ const ACTIVITY_TYPES: Array<{
   { type: 'quiz', label: 'Knowledge check', description: 'Check understanding', icon: CircleHelp, group: 'Quick checks' },
   { type: 'open-response', label: 'Short response', description: 'Gather written thinking', icon: MessageCircle, group: 'Quick checks' },
   { type: 'word-cloud', label: 'Word cloud', description: 'Surface shared themes', icon: Cloud, group: 'Quick checks' },
+  { type: 'ranking', label: 'Ranking', description: 'Put options in order', icon: ListOrdered, group: 'Quick checks' },
+  { type: 'scale', label: 'Scale', description: 'Rate statements from disagree to agree', icon: SlidersHorizontal, group: 'Quick checks' },
+  { type: 'matrix', label: 'Matrix', description: 'Place items on a 2×2 grid', icon: Grid2x2, group: 'Quick checks' },
+  { type: 'estimate', label: 'Estimate', description: 'Collect a number and show the spread', icon: Calculator, group: 'Quick checks' },
+  { type: 'hotspot', label: 'Hotspot', description: 'Tap a point on an exhibit', icon: Crosshair, group: 'Quick checks' },
   { type: 'peer-learning', label: 'Peer learning', description: 'Answer, discuss, answer again', icon: Repeat2, group: 'Class activities' },
+  { type: 'debate', label: 'Debate', description: 'Split the room, argue, vote again', icon: Scale, group: 'Class activities' },
   { type: 'team-formation', label: 'Form teams', description: 'Create named teams for this course', icon: Users, group: 'Class activities' },
   { type: 'group-work', label: 'Group work', description: 'Give teams a shared task', icon: Users, group: 'Class activities' },
   { type: 'spin-wheel', label: 'Spin the wheel', description: 'Select students, teams, or custom items', icon: Dices, group: 'Class activities' },
@@ -152,8 +196,14 @@ const createInteractionDraft = (type: LiveInteraction['type'], initial?: LiveInt
   if (initial) return initial;
   const choiceOptions = type === 'pulse'
     ? ['Very low', 'Low', 'Steady', 'High', 'Very high']
-    : ['Option 1', 'Option 2', 'Option 3', 'Option 4'];
-  const choiceType = type === 'pulse' || type === 'poll' || type === 'quiz' || type === 'peer-learning';
+    : type === 'scale'
+      ? ['Statement 1', 'Statement 2', 'Statement 3']
+      : type === 'ranking' || type === 'matrix'
+        ? ['Item 1', 'Item 2', 'Item 3', 'Item 4']
+        : type === 'debate'
+          ? [...DEFAULT_DEBATE_SIDES]
+          : ['Option 1', 'Option 2', 'Option 3', 'Option 4'];
+  const choiceType = type === 'pulse' || type === 'poll' || type === 'quiz' || type === 'peer-learning' || type === 'debate' || isStructuredInteractionType(type);
   const choice = ACTIVITY_TYPES.find((item) => item.type === type);
   return {
     id: `${type}-${Date.now()}`,
@@ -172,6 +222,18 @@ const createInteractionDraft = (type: LiveInteraction['type'], initial?: LiveInt
             ? 'Work together on the task on screen.'
             : type === 'spin-wheel'
               ? 'Who or what should go next?'
+            : type === 'ranking'
+              ? 'Put these in order, most important first.'
+            : type === 'scale'
+              ? 'How far do you agree with each statement?'
+            : type === 'matrix'
+              ? 'Where does each item belong?'
+            : type === 'estimate'
+              ? 'What is your best estimate?'
+            : type === 'hotspot'
+              ? 'Tap the part of the exhibit that matters most.'
+            : type === 'debate'
+              ? 'Should the company take the deal?'
             : 'What do you think?',
     options: choiceType ? choiceOptions : undefined,
     correctOptionIndex: type === 'quiz' || type === 'peer-learning' ? 0 : undefined,
@@ -180,13 +242,16 @@ const createInteractionDraft = (type: LiveInteraction['type'], initial?: LiveInt
     speedBonusSeconds: type === 'quiz' ? 40 : undefined,
     maxSpeedBonusPoints: type === 'quiz' ? 4 : undefined,
     durationMinutes: type === 'timer' ? 5 : type === 'group-work' ? 8 : undefined,
-    discussionMinutes: type === 'peer-learning' ? 2 : undefined,
+    discussionMinutes: type === 'peer-learning' ? 2 : type === 'debate' ? 5 : undefined,
+    debateSideSource: type === 'debate' ? 'random' : undefined,
     groupSize: type === 'group-work' ? 4 : undefined,
     teamTags: type === 'team-formation' ? ['Theme 1', 'Theme 2', 'Theme 3'] : undefined,
     requireTeamTag: type === 'team-formation' ? true : undefined,
     wheelSource: type === 'spin-wheel' ? 'students' : undefined,
     wheelItems: type === 'spin-wheel' ? [] : undefined,
     wheelRemoveSelected: type === 'spin-wheel' ? true : undefined,
+    scaleLabels: type === 'scale' ? [...DEFAULT_SCALE_LABELS] : undefined,
+    matrixAxes: type === 'matrix' ? { ...DEFAULT_MATRIX_AXES } : undefined,
     resultVisibility: type === 'quiz' || type === 'peer-learning' ? 'after-reveal' : type === 'open-response' || type === 'group-work' ? 'instructor-only' : 'live',
     plannedTime: 'Added during class',
   };
@@ -225,15 +290,27 @@ function resolveWheelItemColors(interaction: LiveInteraction, teams: import('./l
   return uniqueTeams.map((team) => TEAM_COLOR_VALUES[team.color || ''] || '#5146e5');
 }
 
+/** Students checked in under a course record, weighted by this term's cold calls and without anyone opted out. */
+function coldCallWheel(attendance: StoredAttendanceClaim[], coldCall?: ColdCallContext | null) {
+  return buildColdCallWheel(coldCallCandidates(attendance), coldCall?.counts, coldCall?.optedOut);
+}
+
 function createRuntimeResults(
   interaction: LiveInteraction,
   attendance: StoredAttendanceClaim[],
   teams: import('./live-data').LiveTeam[],
+  coldCall?: ColdCallContext | null,
 ) {
   const results = createInteractionResults(interaction);
+  if (interaction.type === 'spin-wheel' && interaction.wheelSource === 'cold-call') {
+    const wheel = coldCallWheel(attendance, coldCall);
+    return { ...results, wheelItems: wheel.items, wheelItemWeights: wheel.weights };
+  }
   return interaction.type === 'spin-wheel'
     ? { ...results, wheelItems: resolveWheelItems(interaction, attendance, teams), wheelItemColors: resolveWheelItemColors(interaction, teams) }
-    : results;
+    : interaction.type === 'debate' && interaction.debateSideSource === 'teams'
+      ? { ...results, debateTeamSides: assignTeamDebateSides(teams) }
+      : results;
 }
 
 function runResultState(results: InteractionResults): NonNullable<SessionInteractionRun['resultState']> {
@@ -245,11 +322,15 @@ function runResultState(results: InteractionResults): NonNullable<SessionInterac
     firstOptionCounts: results.firstOptionCounts,
     wheelItems: results.wheelItems,
     wheelItemColors: results.wheelItemColors,
+    wheelItemWeights: results.wheelItemWeights,
     wheelSelectedIndex: results.wheelSelectedIndex,
     wheelSelectedLabel: results.wheelSelectedLabel,
     wheelSpinCount: results.wheelSpinCount,
     wheelRotation: results.wheelRotation,
     wheelHistory: results.wheelHistory,
+    debateSeed: results.debateSeed,
+    debateTeamSides: results.debateTeamSides,
+    featuredArgumentId: results.featuredArgumentId,
   };
 }
 
@@ -258,8 +339,9 @@ function restoreRunResults(
   run: SessionInteractionRun,
   attendance: StoredAttendanceClaim[],
   teams: import('./live-data').LiveTeam[],
+  coldCall?: ColdCallContext | null,
 ): InteractionResults {
-  const fresh = createRuntimeResults(interaction, attendance, teams);
+  const fresh = createRuntimeResults(interaction, attendance, teams, coldCall);
   return {
     ...fresh,
     ...run.resultState,
@@ -322,12 +404,22 @@ function InteractionComposer({
   const [wheelSource, setWheelSource] = useState<NonNullable<LiveInteraction['wheelSource']>>(initialDraft.wheelSource || 'students');
   const [wheelItems, setWheelItems] = useState((initialDraft.wheelItems || []).join('\n'));
   const [wheelRemoveSelected, setWheelRemoveSelected] = useState(initialDraft.wheelRemoveSelected !== false);
+  const [scaleLabels, setScaleLabels] = useState((initialDraft.scaleLabels || DEFAULT_SCALE_LABELS).join('\n'));
+  const [matrixAxes, setMatrixAxes] = useState(initialDraft.matrixAxes || DEFAULT_MATRIX_AXES);
+  const [estimateUnit, setEstimateUnit] = useState(initialDraft.estimateUnit || '');
+  const [estimateMin, setEstimateMin] = useState(initialDraft.estimateMin === undefined ? '' : String(initialDraft.estimateMin));
+  const [estimateMax, setEstimateMax] = useState(initialDraft.estimateMax === undefined ? '' : String(initialDraft.estimateMax));
+  const [estimateAnswer, setEstimateAnswer] = useState(initialDraft.estimateAnswer === undefined ? '' : String(initialDraft.estimateAnswer));
+  const [estimateProximityPoints, setEstimateProximityPoints] = useState(initialDraft.estimateProximityPoints === true);
+  const [hotspot, setHotspot] = useState<Pick<LiveInteraction, 'hotspotImage' | 'hotspotRegions'>>({ hotspotImage: initialDraft.hotspotImage, hotspotRegions: initialDraft.hotspotRegions });
+  const [debateSideSource, setDebateSideSource] = useState<DebateSideSource>(initialDraft.debateSideSource || 'random');
   const [resultVisibility, setResultVisibility] = useState(initialDraft.resultVisibility || 'live');
   const promptRef = useRef<HTMLTextAreaElement>(null);
   const initialDurationSeconds = Math.max(1, Math.round((initialDraft.durationMinutes || 5) * 60));
   const [minutes, setMinutes] = useState(String(Math.floor(initialDurationSeconds / 60)));
   const [seconds, setSeconds] = useState(String(initialDurationSeconds % 60));
-  const usesChoices = type === 'pulse' || type === 'poll' || type === 'quiz' || type === 'peer-learning';
+  const structuredHint = isStructuredInteractionType(type) ? STRUCTURED_TYPE_HINTS[type] : null;
+  const usesChoices = type === 'pulse' || type === 'poll' || type === 'quiz' || type === 'peer-learning' || type === 'debate' || Boolean(structuredHint);
   const usesTimer = type === 'timer' || type === 'group-work';
 
   const applyMarkdown = (prefix: string, suffix = prefix, linePrefix = false) => {
@@ -356,20 +448,30 @@ function InteractionComposer({
       ...initialDraft,
       title: title.trim() || initialDraft.label,
       prompt: prompt.trim() || title.trim(),
-      options: usesChoices ? options.map((option) => option.trim()).filter(Boolean) : undefined,
+      options: type === 'debate' ? debateSideLabels(options) : usesChoices ? options.map((option) => option.trim()).filter(Boolean) : undefined,
       correctOptionIndex: type === 'quiz' || type === 'peer-learning' ? correctOptionIndex : undefined,
       explanation: type === 'quiz' || type === 'peer-learning' ? explanation.trim() || undefined : undefined,
       speedBonusEnabled: type === 'quiz' ? speedBonusEnabled : undefined,
       speedBonusSeconds: type === 'quiz' && speedBonusEnabled ? Math.min(120, Math.max(10, Number.parseInt(speedBonusSeconds || '40', 10) || 40)) : undefined,
       maxSpeedBonusPoints: type === 'quiz' && speedBonusEnabled ? 4 : undefined,
       durationMinutes: usesTimer ? durationSeconds / 60 : initialDraft.durationMinutes,
-      discussionMinutes: type === 'peer-learning' ? Math.max(1, Number.parseInt(discussionMinutes || '2', 10) || 2) : undefined,
+      discussionMinutes: type === 'peer-learning' || type === 'debate' ? Math.max(1, Number.parseInt(discussionMinutes || '2', 10) || 2) : undefined,
+      debateSideSource: type === 'debate' ? debateSideSource : undefined,
       groupSize: type === 'group-work' ? Math.max(2, Number.parseInt(groupSize || '4', 10) || 4) : undefined,
       teamTags: type === 'team-formation' ? teamTags.split(',').map((tag) => tag.trim()).filter(Boolean).slice(0, 8) : undefined,
       requireTeamTag: type === 'team-formation' ? teamTags.split(',').some((tag) => tag.trim()) : undefined,
       wheelSource: type === 'spin-wheel' ? wheelSource : undefined,
       wheelItems: type === 'spin-wheel' && wheelSource === 'custom' ? wheelItems.split('\n').map((item) => item.trim()).filter(Boolean).slice(0, 40) : undefined,
       wheelRemoveSelected: type === 'spin-wheel' ? wheelRemoveSelected : undefined,
+      scaleLabels: type === 'scale' ? scaleLabelsFor({ scaleLabels: scaleLabels.split('\n') }) : undefined,
+      matrixAxes: type === 'matrix' ? { x: matrixAxes.x.trim() || DEFAULT_MATRIX_AXES.x, y: matrixAxes.y.trim() || DEFAULT_MATRIX_AXES.y } : undefined,
+      estimateUnit: type === 'estimate' ? estimateUnit.trim() || undefined : undefined,
+      estimateMin: type === 'estimate' ? parseEstimate(estimateMin) ?? undefined : undefined,
+      estimateMax: type === 'estimate' ? parseEstimate(estimateMax) ?? undefined : undefined,
+      estimateAnswer: type === 'estimate' ? parseEstimate(estimateAnswer) ?? undefined : undefined,
+      estimateProximityPoints: type === 'estimate' && parseEstimate(estimateAnswer) !== null ? estimateProximityPoints : undefined,
+      hotspotImage: type === 'hotspot' ? hotspot.hotspotImage : undefined,
+      hotspotRegions: type === 'hotspot' && hotspot.hotspotRegions?.length ? hotspot.hotspotRegions : undefined,
       resultVisibility: type === 'timer' || type === 'team-formation' || type === 'spin-wheel' ? 'instructor-only' : resultVisibility,
     });
   };
@@ -395,18 +497,18 @@ function InteractionComposer({
       {prompt.trim() && <div className="interaction-markdown-preview"><span>Preview</span><MarkdownContent markdown={prompt} /></div>}
       {usesChoices && (
         <div className="interaction-composer-options">
-          <span>Answer choices</span>
+          <span>{type === 'debate' ? 'Sides' : structuredHint?.itemsLabel || 'Answer choices'}</span>
           {options.map((option, index) => (
             <label key={`${initialDraft.id}-option-${index}`}>
               {(type === 'quiz' || type === 'peer-learning') && <input type="radio" name={`correct-${initialDraft.id}`} checked={correctOptionIndex === index} onChange={() => setCorrectOptionIndex(index)} aria-label={`Mark choice ${index + 1} correct`} />}
               <input value={option} onChange={(event) => setOptions((current) => current.map((item, optionIndex) => optionIndex === index ? event.target.value : item))} aria-label={`Choice ${index + 1}`} />
-              {options.length > 2 && <button type="button" aria-label={`Remove choice ${index + 1}`} onClick={() => {
+              {options.length > 2 && type !== 'debate' && <button type="button" aria-label={`Remove choice ${index + 1}`} onClick={() => {
                 setOptions((current) => current.filter((_, optionIndex) => optionIndex !== index));
                 setCorrectOptionIndex((current) => current === index ? 0 : current > index ? current - 1 : current);
               }}><X size={13} /></button>}
             </label>
           ))}
-          <button className="interaction-option-add" type="button" onClick={() => setOptions((current) => [...current, `Option ${current.length + 1}`])}><Plus size={13} /> Add choice</button>
+          {type !== 'debate' && <button className="interaction-option-add" type="button" onClick={() => setOptions((current) => [...current, `${structuredHint?.itemPlaceholder || 'Option'} ${current.length + 1}`])}><Plus size={13} /> {structuredHint ? 'Add item' : 'Add choice'}</button>}
         </div>
       )}
       {(type === 'quiz' || type === 'peer-learning') && <label><span>Answer explanation</span><textarea value={explanation} onChange={(event) => setExplanation(event.target.value)} maxLength={500} rows={3} placeholder="Explain why the marked answer is correct" /></label>}
@@ -419,11 +521,16 @@ function InteractionComposer({
         </div>
       )}
       {type === 'peer-learning' && <label><span>Discussion time in minutes</span><input inputMode="numeric" value={discussionMinutes} onChange={(event) => setDiscussionMinutes(event.target.value.replace(/\D/g, '').slice(0, 2))} /></label>}
+      {type === 'debate' && <div className="interaction-composer-wheel"><label><span>Assign sides</span><select value={debateSideSource} onChange={(event) => setDebateSideSource(event.target.value as DebateSideSource)}><option value="random">At random</option><option value="teams">By course team</option></select></label><label><span>Argument time in minutes</span><input inputMode="numeric" value={discussionMinutes} onChange={(event) => setDiscussionMinutes(event.target.value.replace(/\D/g, '').slice(0, 2))} /></label></div>}
       {type === 'group-work' && <label><span>Students per group</span><input inputMode="numeric" value={groupSize} onChange={(event) => setGroupSize(event.target.value.replace(/\D/g, '').slice(0, 2))} /></label>}
+      {type === 'scale' && <label><span>Scale points · one per line, lowest first</span><textarea value={scaleLabels} onChange={(event) => setScaleLabels(event.target.value)} rows={5} maxLength={400} placeholder={DEFAULT_SCALE_LABELS.join('\n')} /></label>}
+      {type === 'matrix' && <div className="interaction-composer-axes"><span>Axes</span><label>Across<input value={matrixAxes.x} onChange={(event) => setMatrixAxes((current) => ({ ...current, x: event.target.value }))} maxLength={32} aria-label="Horizontal axis" placeholder={DEFAULT_MATRIX_AXES.x} /></label><label>Up<input value={matrixAxes.y} onChange={(event) => setMatrixAxes((current) => ({ ...current, y: event.target.value }))} maxLength={32} aria-label="Vertical axis" placeholder={DEFAULT_MATRIX_AXES.y} /></label></div>}
+      {type === 'estimate' && <div className="interaction-composer-axes interaction-composer-estimate"><span>Answer range</span><label>Unit<input value={estimateUnit} onChange={(event) => setEstimateUnit(event.target.value)} maxLength={16} aria-label="Unit" placeholder="$m, units, %" /></label><label>True value<input inputMode="decimal" value={estimateAnswer} onChange={(event) => setEstimateAnswer(event.target.value)} maxLength={24} aria-label="True value" placeholder="Shown on reveal" /></label><label>Lowest<input inputMode="decimal" value={estimateMin} onChange={(event) => setEstimateMin(event.target.value)} maxLength={24} aria-label="Lowest accepted answer" placeholder="No limit" /></label><label>Highest<input inputMode="decimal" value={estimateMax} onChange={(event) => setEstimateMax(event.target.value)} maxLength={24} aria-label="Highest accepted answer" placeholder="No limit" /></label>{parseEstimate(estimateAnswer) !== null && <label className="interaction-wheel-checkbox"><input type="checkbox" checked={estimateProximityPoints} onChange={(event) => setEstimateProximityPoints(event.target.checked)} /> Award points for close estimates</label>}</div>}
+      {type === 'hotspot' && <HotspotEditor image={hotspot.hotspotImage} regions={hotspot.hotspotRegions} onChange={setHotspot} />}
       {type === 'team-formation' && <label><span>Course tags <small>Separate with commas</small></span><input value={teamTags} onChange={(event) => setTeamTags(event.target.value)} placeholder="Theme 1, Theme 2, Theme 3" /></label>}
-      {type === 'spin-wheel' && <div className="interaction-composer-wheel"><label><span>Choose from</span><select value={wheelSource} onChange={(event) => setWheelSource(event.target.value as NonNullable<LiveInteraction['wheelSource']>)}><option value="students">Students who joined</option><option value="teams">Teams created in class</option><option value="custom">A custom list</option></select></label>{wheelSource === 'custom' && <label><span>Items · one per line</span><textarea value={wheelItems} onChange={(event) => setWheelItems(event.target.value)} rows={6} maxLength={1000} placeholder={'Topic A\nTopic B\nTopic C'} /></label>}<label className="interaction-wheel-checkbox"><input type="checkbox" checked={wheelRemoveSelected} onChange={(event) => setWheelRemoveSelected(event.target.checked)} /> Remove each selection before the next spin</label></div>}
+      {type === 'spin-wheel' && <div className="interaction-composer-wheel"><label><span>Choose from</span><select value={wheelSource} onChange={(event) => setWheelSource(event.target.value as NonNullable<LiveInteraction['wheelSource']>)}><option value="students">Students who joined</option><option value="teams">Teams created in class</option><option value="custom">A custom list</option><option value="cold-call">Cold call, fairest first</option></select></label>{wheelSource === 'custom' && <label><span>Items · one per line</span><textarea value={wheelItems} onChange={(event) => setWheelItems(event.target.value)} rows={6} maxLength={1000} placeholder={'Topic A\nTopic B\nTopic C'} /></label>}<label className="interaction-wheel-checkbox"><input type="checkbox" checked={wheelRemoveSelected} onChange={(event) => setWheelRemoveSelected(event.target.checked)} /> Remove each selection before the next spin</label></div>}
       {type !== 'timer' && type !== 'team-formation' && type !== 'spin-wheel' && <label><span>When students see results</span><select value={resultVisibility} onChange={(event) => setResultVisibility(event.target.value as NonNullable<LiveInteraction['resultVisibility']>)}><option value="live">As responses arrive</option><option value="after-reveal">When I reveal them</option><option value="instructor-only">Instructor only</option></select></label>}
-      <button className="interaction-composer-submit" type="button" onClick={submit} disabled={busy || !title.trim() || (type !== 'timer' && !prompt.trim())}>{busy ? 'Saving…' : submitLabel} <ArrowRight size={15} /></button>
+      <button className="interaction-composer-submit" type="button" onClick={submit} disabled={busy || !title.trim() || (type !== 'timer' && !prompt.trim()) || (type === 'hotspot' && !hotspot.hotspotImage)}>{busy ? 'Saving…' : submitLabel} <ArrowRight size={15} /></button>
     </div>
   );
 }
@@ -506,6 +613,8 @@ function InstructorInteractionStage({
   onAdvanceModule,
   onSpinWheel,
   onShareResponse,
+  onSpotlightArgument,
+  coldCallLog,
 }: {
   interaction: LiveInteraction;
   results: InteractionResults;
@@ -516,6 +625,14 @@ function InstructorInteractionStage({
   onAdvanceModule: () => void;
   onSpinWheel: () => void;
   onShareResponse: (responseId: string) => void;
+  onSpotlightArgument: (argumentId: string) => void;
+  /** Present for a cold-call wheel in a class with a course, where each call is logged to the term history. */
+  coldCallLog?: {
+    passCount: number;
+    loggedAs: string | null;
+    saving: boolean;
+    onLog: (outcome: ColdCallOutcome, quality?: ColdCallQuality) => void;
+  };
 }) {
   const hasChoices = Boolean(interaction.options?.length);
   const isPeerLearning = interaction.type === 'peer-learning';
@@ -523,6 +640,11 @@ function InstructorInteractionStage({
   const isWordCloud = interaction.type === 'word-cloud';
   const isTeamFormation = interaction.type === 'team-formation';
   const isWheel = interaction.type === 'spin-wheel';
+  const isColdCall = isWheel && interaction.wheelSource === 'cold-call';
+  const isStructured = isStructuredInteractionType(interaction.type);
+  const isEstimate = interaction.type === 'estimate';
+  const isHotspot = interaction.type === 'hotspot';
+  const isDebate = interaction.type === 'debate';
   const wordCloudItems = buildWordCloudItems(results.writtenResponses);
   const wordCloudDensity = wordCloudItems.length <= 1 ? 'is-solo' : wordCloudItems.length <= 5 ? 'is-sparse' : 'is-growing';
   const [timerNow, setTimerNow] = useState(Date.now());
@@ -547,7 +669,9 @@ function InstructorInteractionStage({
           <p>{isClock
             ? 'The full-screen countdown is running on the projector and student phones.'
             : isWheel
-              ? results.wheelItems?.length ? 'The same wheel is ready on the projector. Spin when the room is looking up.' : `No ${interaction.wheelSource === 'teams' ? 'teams' : interaction.wheelSource === 'custom' ? 'custom items' : 'students'} are available yet.`
+              ? results.wheelItems?.length ? isColdCall ? 'Students called less this term are more likely to come up. Mark each answer after the call.' : 'The same wheel is ready on the projector. Spin when the room is looking up.' : isColdCall ? 'No students with a course record have checked in yet.' : `No ${interaction.wheelSource === 'teams' ? 'teams' : interaction.wheelSource === 'custom' ? 'custom items' : 'students'} are available yet.`
+            : isDebate
+              ? results.phase === 'discuss' ? 'Each side is posting arguments. Put the strongest one on the projector.' : results.phase === 'respond-again' ? 'The room is voting again after the arguments.' : results.revealed ? 'Compare the closing vote with where the room started.' : 'Students take a side before they hear the arguments.'
             : interaction.resultVisibility === 'after-reveal' && !results.revealed
             ? `Students answer privately. Reveal the ${interaction.type === 'quiz' ? 'answer' : 'class result'} when you are ready to discuss it.`
             : interaction.type === 'open-response'
@@ -570,6 +694,16 @@ function InstructorInteractionStage({
         <div className="instructor-wheel-stage">
           <div className={`instructor-wheel-result ${results.wheelSelectedLabel ? 'has-result' : ''}`}><Dices size={28} /><span><small>{results.wheelSelectedLabel ? 'Selected' : `${results.wheelItems?.length || 0} items ready`}</small><strong>{results.wheelSelectedLabel || 'Ready to spin'}</strong></span></div>
           <button type="button" onClick={onSpinWheel} disabled={!results.wheelItems?.length} className="instructor-wheel-spin"><Dices size={19} /> {results.wheelSpinCount ? 'Spin again' : 'Spin the wheel'}</button>
+          {isColdCall && results.wheelSelectedLabel && (coldCallLog ? (
+            <div className="instructor-cold-call-log" role="group" aria-label={`Log the call to ${results.wheelSelectedLabel}`} key={`cold-call-${results.wheelSpinCount || 0}`}>
+              {coldCallLog.loggedAs ? <p><CheckCircle2 size={16} /> Logged as {coldCallLog.loggedAs}</p> : <>
+                <span>Mark the answer</span>
+                {([3, 2, 1] as const).map((quality) => <button type="button" key={quality} onClick={() => coldCallLog.onLog('answered', quality)} disabled={coldCallLog.saving}>{COLD_CALL_QUALITY_LABELS[quality]}</button>)}
+                <button type="button" onClick={() => coldCallLog.onLog('passed')} disabled={coldCallLog.saving || !coldCallLog.passCount} title={coldCallLog.passCount ? 'Spends one of the student\'s approved pass rewards' : 'This student has no approved pass to spend'}>{coldCallLog.passCount ? `Use a pass (${coldCallLog.passCount})` : 'No pass'}</button>
+                <button type="button" onClick={() => coldCallLog.onLog('absent')} disabled={coldCallLog.saving}>Not here</button>
+              </>}
+            </div>
+          ) : <p>Cold calls are only logged in a class that belongs to a course.</p>)}
           {interaction.wheelRemoveSelected !== false && <p>Each result leaves the wheel before the next spin.</p>}
         </div>
       ) : isTeamFormation ? (
@@ -590,6 +724,78 @@ function InstructorInteractionStage({
             </span>
           )) : <div className="live-word-cloud-empty"><Cloud size={26} /><strong>Waiting for the first word</strong><small>The cloud will build here as students answer.</small></div>}
         </div>
+      ) : isEstimate ? (
+        <div className="live-choice-results">
+          <EstimateResults interaction={interaction} values={results.estimateValues || []} revealed={results.revealed} />
+          {!results.responseCount && (
+            <div className="live-waiting-state" role="status">
+              <i aria-hidden="true" />
+              <span>
+                <strong>Waiting for the first estimate</strong>
+                <small>{connectedStudents ? `${connectedStudents} ${connectedStudents === 1 ? 'student is' : 'students are'} connected` : 'Share the class code when students are ready'}</small>
+              </span>
+            </div>
+          )}
+          {!results.revealed && (
+            <button className="reveal-result-button" type="button" onClick={onReveal} disabled={!results.responseCount}>
+              <CheckCircle2 size={18} /> {typeof interaction.estimateAnswer === 'number' ? 'Close and reveal the true value' : 'Close and show the spread'}
+            </button>
+          )}
+        </div>
+      ) : isHotspot && interaction.hotspotImage ? (
+        <div className="live-choice-results">
+          <HotspotResults image={interaction.hotspotImage} points={results.hotspotPoints || []} regions={interaction.hotspotRegions} />
+          {!results.responseCount && (
+            <div className="live-waiting-state" role="status">
+              <i aria-hidden="true" />
+              <span>
+                <strong>Waiting for the first tap</strong>
+                <small>{connectedStudents ? `${connectedStudents} ${connectedStudents === 1 ? 'student is' : 'students are'} connected` : 'Share the class code when students are ready'}</small>
+              </span>
+            </div>
+          )}
+          {!results.revealed && (
+            <button className="reveal-result-button" type="button" onClick={onReveal} disabled={!results.responseCount}>
+              <CheckCircle2 size={18} /> {interaction.hotspotRegions?.length ? 'Close and reveal the correct regions' : 'Close and show the taps'}
+            </button>
+          )}
+        </div>
+      ) : isDebate ? (
+        <div className="live-choice-results">
+          <DebateResults interaction={interaction} results={results} onSpotlight={onSpotlightArgument} />
+          {!results.responseCount && results.phase !== 'discuss' && (
+            <div className="live-waiting-state" role="status">
+              <i aria-hidden="true" />
+              <span>
+                <strong>Waiting for the first vote</strong>
+                <small>{connectedStudents ? `${connectedStudents} ${connectedStudents === 1 ? 'student is' : 'students are'} connected` : 'Share the class code when students are ready'}</small>
+              </span>
+            </div>
+          )}
+          {!results.revealed && (
+            <button className="reveal-result-button" type="button" onClick={onAdvanceModule} disabled={results.phase !== 'discuss' && !results.responseCount}>
+              <ArrowRight size={18} /> {results.phase === 'respond' ? 'Open the argument board' : results.phase === 'discuss' ? 'Take the closing vote' : 'Show the shift'}
+            </button>
+          )}
+        </div>
+      ) : isStructured ? (
+        <div className="live-choice-results">
+          <StructuredResults interaction={interaction} results={results} />
+          {!results.responseCount && (
+            <div className="live-waiting-state" role="status">
+              <i aria-hidden="true" />
+              <span>
+                <strong>Waiting for the first response</strong>
+                <small>{connectedStudents ? `${connectedStudents} ${connectedStudents === 1 ? 'student is' : 'students are'} connected` : 'Share the class code when students are ready'}</small>
+              </span>
+            </div>
+          )}
+          {interaction.resultVisibility === 'after-reveal' && !results.revealed && (
+            <button className="reveal-result-button" type="button" onClick={onReveal} disabled={!results.responseCount}>
+              <CheckCircle2 size={18} /> Reveal class result
+            </button>
+          )}
+        </div>
       ) : hasChoices ? (
         <div className="live-choice-results">
           {interaction.options?.map((option, index) => {
@@ -674,6 +880,8 @@ export default function LiveLessonPrototype() {
   const [planSaving, setPlanSaving] = useState(false);
   const [planSaveIssue, setPlanSaveIssue] = useState(false);
   const [attendanceOpen, setAttendanceOpen] = useState(false);
+  const [contributionOpen, setContributionOpen] = useState(false);
+  const [contributionSearch, setContributionSearch] = useState('');
   const [leaveConsoleOpen, setLeaveConsoleOpen] = useState(false);
   const [endClassOpen, setEndClassOpen] = useState(false);
   const [endingClass, setEndingClass] = useState(false);
@@ -697,12 +905,36 @@ export default function LiveLessonPrototype() {
   const [onboardingStep, setOnboardingStep] = useState<OnboardingStep>(0);
   const [onboardingRunId, setOnboardingRunId] = useState(0);
   const [onboardingMoodCounts, setOnboardingMoodCounts] = useState<Counts>(EMPTY_ONBOARDING_COUNTS);
+  /** Answers counted in an anonymous pulse, including those still held back from the breakdown. */
+  const [pulseResponses, setPulseResponses] = useState(0);
+  /** The course's previous class pulse totals, from saved aggregates. Null before any class saved one. */
+  const [priorPulseCounts, setPriorPulseCounts] = useState<Counts | null>(null);
+  /** Marks logged on the cold-call wheel, by `${runId}:${spinCount}`. */
+  const [coldCallMarks, setColdCallMarks] = useState<Record<string, string>>({});
+  const [coldCallSaving, setColdCallSaving] = useState(false);
+  /** Wheel label to student number for the cold-call wheel on screen; the numbers never reach the projector. */
+  const [coldCallStudents, setColdCallStudents] = useState(new Map<string, string>());
+  /** Unspent passes by normalized student number, or null when the class has no course to log calls against. */
+  const [coldCallPasses, setColdCallPasses] = useState<Record<string, number> | null>(null);
+  /** The class that contribution marks are logged against; null for sessions without a course. */
+  const [contributionCourse, setContributionCourse] = useState<Pick<Course, 'id' | 'teacherId'> | null>(null);
+  /** Marks given in this session, newest first. */
+  const [sessionContributions, setSessionContributions] = useState<ContributionMark[]>([]);
+  const [contributionSaving, setContributionSaving] = useState(false);
+  const [connectedStudentUids, setConnectedStudentUids] = useState<string[]>([]);
+  /** Students who answered a run, so the seating chart can tick them off. */
+  const [runRespondents, setRunRespondents] = useState<{ runId: string; uids: string[] }>({ runId: '', uids: [] });
+  const [seatingCharts, setSeatingCharts] = useState<SeatingChart[]>([]);
+  const [seatingChartId, setSeatingChartId] = useState('');
+  const [seatingOpen, setSeatingOpen] = useState(false);
+  const [selectedSeatId, setSelectedSeatId] = useState('');
   const displayChannelRef = useRef<BroadcastChannel | null>(null);
   const displayWindowRef = useRef<Window | null>(null);
   const lastDisplayPingRef = useRef(0);
   const pausedBeforeWelcomeRef = useRef(false);
   const receivedResponseIdsRef = useRef(new Set<string>());
   const demoQuestionVotersRef = useRef(new Map<number, Set<string>>());
+  const demoDebateRef = useRef({ runId: '', items: [] as Array<Omit<DebateArgument, 'votes'>>, voters: new Map<string, Set<string>>() });
   const activeInteractionRef = useRef<LiveInteraction | null>(null);
   const interactionResultsRef = useRef<InteractionResults | null>(null);
   const attendanceClaimsRef = useRef<StoredAttendanceClaim[]>([]);
@@ -714,6 +946,7 @@ export default function LiveLessonPrototype() {
   const interactionRunsSaveRef = useRef<Promise<void>>(Promise.resolve());
   const localPublishedTimestampsRef = useRef(new Set<number>());
   const courseIdRef = useRef('');
+  const coldCallRef = useRef<{ course: Pick<Course, 'id' | 'teacherId'>; context: ColdCallContext } | null>(null);
   const persistedTeamsKeyRef = useRef('');
   const lastSyncedRosterRef = useRef('');
   const launchInteractionCommandRef = useRef<(interaction: LiveInteraction) => void>(() => undefined);
@@ -725,11 +958,13 @@ export default function LiveLessonPrototype() {
   );
 
   useEffect(() => {
-    if (!welcomeOpen && !sessionPlanOpen && !attendanceOpen && !topbarMenuOpen && !quickAddOpen && !resetSessionOpen) return;
+    if (!welcomeOpen && !sessionPlanOpen && !attendanceOpen && !contributionOpen && !seatingOpen && !topbarMenuOpen && !quickAddOpen && !resetSessionOpen) return;
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key !== 'Escape') return;
       if (welcomeOpen) setWelcomeOpen(false);
       else if (attendanceOpen) setAttendanceOpen(false);
+      else if (contributionOpen) setContributionOpen(false);
+      else if (seatingOpen) setSeatingOpen(false);
       else if (sessionPlanOpen) setSessionPlanOpen(false);
       else if (topbarMenuOpen) setTopbarMenuOpen(false);
       else if (quickAddOpen) setQuickAddOpen(false);
@@ -737,7 +972,7 @@ export default function LiveLessonPrototype() {
     };
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [attendanceOpen, quickAddOpen, resetSessionOpen, resettingSession, sessionPlanOpen, topbarMenuOpen, welcomeOpen]);
+  }, [attendanceOpen, contributionOpen, quickAddOpen, resetSessionOpen, resettingSession, seatingOpen, sessionPlanOpen, topbarMenuOpen, welcomeOpen]);
 
   useEffect(() => {
     if (!topbarMenuOpen) return;
@@ -757,8 +992,15 @@ export default function LiveLessonPrototype() {
     return () => document.removeEventListener('pointerdown', closeOutside);
   }, [quickAddOpen]);
 
-  const selectedCounts = selectedWeek === 0 ? liveCounts : HISTORY[selectedWeek].counts;
-  const comparisonCounts = HISTORY[Math.min(selectedWeek + 1, HISTORY.length - 1)].counts;
+  // A saved session shows its own arrival pulse, compared with the course's previous class. The history
+  // strip and the flowing counts are only for the demo classroom.
+  const pulseMinimum = sessionContext.anonymousPulse ? sessionContext.pulseMinimum : undefined;
+  const todayPulse = visiblePulseCounts(onboardingMoodCounts, pulseMinimum);
+  const selectedCounts = sessionContext.sessionId ? todayPulse.counts : selectedWeek === 0 ? liveCounts : HISTORY[selectedWeek].counts;
+  const comparisonCounts = sessionContext.sessionId
+    ? priorPulseCounts || EMPTY_ONBOARDING_COUNTS
+    : HISTORY[Math.min(selectedWeek + 1, HISTORY.length - 1)].counts;
+  const comparing = showComparison && (!sessionContext.sessionId || Boolean(priorPulseCounts));
   const activePlanIndex = activeInteraction ? sessionPlan.findIndex((interaction) => interaction.id === activeInteraction.id) : -1;
   const nextPreparedInteraction = activePlanIndex >= 0 ? sessionPlan[activePlanIndex + 1] || null : sessionPlan[0] || null;
   const classQuestions = useMemo(() => liveQuestions.map((question) => ({
@@ -779,6 +1021,21 @@ export default function LiveLessonPrototype() {
     || (a.studentDisplayName || a.studentNumber || '').localeCompare(b.studentDisplayName || b.studentNumber || '')
   )), [attendanceClaims]);
   const participatedStudents = attendanceClaims.filter((claim) => claim.status === 'participated' || claim.status === 'confirmed').length;
+  const contributionStudents = useMemo(
+    () => liveContributionStudents(coldCallCandidates(attendanceClaims), sessionContributions),
+    [attendanceClaims, sessionContributions],
+  );
+  const seatingChart = seatingCharts.find((chart) => chart.id === seatingChartId) || seatingCharts[0] || null;
+  const liveSeats = useMemo(() => seatingChart ? buildLiveSeating(
+    seatingChart,
+    attendanceClaims,
+    connectedStudentUids,
+    runRespondents.runId && runRespondents.runId === interactionResults?.runId ? runRespondents.uids : [],
+  ) : [], [attendanceClaims, connectedStudentUids, interactionResults?.runId, runRespondents, seatingChart]);
+  const selectedSeat = liveSeats.find((seat) => seat.id === selectedSeatId && seat.assignment) || null;
+  const visibleContributionStudents = contributionSearch.trim()
+    ? contributionStudents.filter((student) => `${student.name} ${student.studentNumber}`.toLocaleLowerCase().includes(contributionSearch.trim().toLocaleLowerCase()))
+    : contributionStudents;
   useEffect(() => {
     activeInteractionRef.current = activeInteraction;
     interactionResultsRef.current = interactionResults;
@@ -836,10 +1093,11 @@ export default function LiveLessonPrototype() {
       paused,
       playingHistory,
       selectedWeek,
-      showComparison,
+      showComparison: comparing,
       onboardingStep,
       onboardingRunId,
-      onboardingMoodCounts,
+      onboardingMoodCounts: todayPulse.counts,
+      ...(sessionContext.anonymousPulse ? { pulseResponses } : {}),
       activeInteraction: publicInteraction,
       interactionResults: publicResults,
       featuredQuestionId: activeQuestion,
@@ -855,7 +1113,7 @@ export default function LiveLessonPrototype() {
       timer: liveTimer,
       updatedAt: Date.now(),
     };
-  }, [activeInteraction, activeQuestion, classQuestions, comparisonCounts, connectedStudents, formedTeams, incomingMood, interactionResults, liveTimer, lobbyOpen, onboardingMoodCounts, onboardingRunId, onboardingStep, paused, playingHistory, selectedCounts, selectedWeek, sessionContext, showComparison]);
+  }, [activeInteraction, activeQuestion, classQuestions, comparisonCounts, connectedStudents, formedTeams, incomingMood, interactionResults, liveTimer, lobbyOpen, onboardingRunId, onboardingStep, paused, playingHistory, pulseResponses, selectedCounts, selectedWeek, sessionContext, comparing, todayPulse.counts]);
   const displayStateRef = useRef(displayState);
 
   useEffect(() => {
@@ -915,6 +1173,32 @@ export default function LiveLessonPrototype() {
         }
       }
       courseIdRef.current = course?.id || '';
+      coldCallRef.current = null;
+      setColdCallPasses(null);
+      if (course) {
+        const emptyContext: ColdCallContext = { counts: {}, optedOut: course.coldCall?.optedOut || [], passes: {} };
+        try {
+          const { getColdCallContext } = await import('@/lib/firebase/cold-calls');
+          coldCallRef.current = { course, context: await getColdCallContext(course) };
+        } catch (coldCallError) {
+          console.warn('Cold-call history could not be loaded:', coldCallError);
+          coldCallRef.current = { course, context: emptyContext };
+        }
+        setColdCallPasses(Object.fromEntries(Object.entries(coldCallRef.current.context.passes).map(([key, passes]) => [key, passes.length])));
+      }
+      setContributionCourse(course);
+      setSessionContributions([]);
+      setSeatingCharts([]);
+      if (course) {
+        import('@/lib/firebase/seating-charts')
+          .then(({ getSeatingCharts }) => getSeatingCharts(course.id))
+          .then(setSeatingCharts)
+          .catch((seatingError) => console.warn('Seating charts could not be loaded:', seatingError));
+        import('@/lib/firebase/contribution-marks')
+          .then(({ getContributionMarks }) => getContributionMarks(course.id))
+          .then((marks) => setSessionContributions(marks.filter((mark) => mark.sessionId === sessionId)))
+          .catch((contributionError) => console.warn('Contribution marks could not be loaded:', contributionError));
+      }
       persistedTeamsKeyRef.current = JSON.stringify(courseTeams);
       setFormedTeams(courseTeams);
 
@@ -929,8 +1213,16 @@ export default function LiveLessonPrototype() {
         courseName: session.courseName || '',
         sessionTitle: session.title || 'Live session',
         participationMode: session.participationMode || 'course-record',
+        ...(course?.wellbeing?.anonymousPulse ? { anonymousPulse: true, pulseMinimum: clampPulseMinimum(course.wellbeing.minimumResponses) } : {}),
       };
       setSessionContext(context);
+      setPriorPulseCounts(null);
+      if (course) {
+        import('@/lib/firebase/wellbeing-pulse')
+          .then(({ getPriorPulseCounts }) => getPriorPulseCounts(course.id, sessionId))
+          .then(setPriorPulseCounts)
+          .catch((pulseError) => console.warn('Previous class pulse could not be loaded:', pulseError));
+      }
       setLiveCounts({ ...EMPTY_ONBOARDING_COUNTS });
       setSelectedWeek(0);
       setShowComparison(false);
@@ -943,7 +1235,21 @@ export default function LiveLessonPrototype() {
       setDismissingQuestionIds([]);
       setDismissedQuestionUndo(null);
 
-      const prepared = prepareLiveInteractions(session.interactions);
+      let plannedInteractions = session.interactions || [];
+      if (course && plannedInteractions.some((interaction) => interaction.bankDraw)) {
+        try {
+          const { drawQuestionBankForSession } = await import('@/lib/firebase/question-bank');
+          const draw = await drawQuestionBankForSession(course.id, sessionId, plannedInteractions);
+          plannedInteractions = draw.interactions;
+          if (draw.shortfalls.length) {
+            setToast(draw.shortfalls.map((shortfall) => `${shortfall.title}: ${shortfall.drawn} of ${shortfall.requested} questions drawn from the bank.`).join(' '));
+          }
+        } catch (drawError) {
+          console.warn('Question bank draws could not be prepared:', drawError);
+          setToast('Question bank knowledge checks could not be drawn. They are left out of this class.');
+        }
+      }
+      const prepared = prepareLiveInteractions(plannedInteractions);
       if (prepared.length) setSessionPlan(prepared);
       const classroomRecords = await getInstructorClassroomRecords(session.teacherId, sessionId).catch((recordsError) => {
         console.warn('Preserved activity responses could not be reconciled:', recordsError);
@@ -952,7 +1258,7 @@ export default function LiveLessonPrototype() {
       const savedRuns = reconcileInteractionRuns(
         session.interactionRuns,
         classroomRecords?.responses || {},
-        session.interactions,
+        plannedInteractions,
       );
       if (interactionRunSummariesDiffer(session.interactionRuns, savedRuns)) {
         await updateSession(sessionId, { interactionRuns: savedRuns }).catch((summaryError) => {
@@ -1009,6 +1315,7 @@ export default function LiveLessonPrototype() {
       setOnboardingStep(remoteState.onboardingStep || 0);
       setOnboardingRunId(remoteState.onboardingRunId || 0);
       setOnboardingMoodCounts(remoteState.onboardingMoodCounts || { ...EMPTY_ONBOARDING_COUNTS });
+      setPulseResponses(remoteState.pulseResponses || 0);
       setActiveInteraction(privateActiveInteraction);
       setInteractionResults(remoteState.interactionResults || null);
       setLiveQuestions((remoteState.questions || []).map((question) => ({ ...question, votes: 0 })));
@@ -1077,6 +1384,9 @@ export default function LiveLessonPrototype() {
       dismissed?: boolean;
       command?: 'launch' | 'previous' | 'next' | 'toggle-responses' | 'reveal' | 'advance-module' | 'finish';
       interactionId?: string;
+      runId?: string;
+      argument?: Omit<DebateArgument, 'votes'>;
+      argumentId?: string;
     }>) => {
       if (event.data?.type === 'display-ready' || event.data?.type === 'display-heartbeat') {
         lastDisplayPingRef.current = Date.now();
@@ -1132,6 +1442,9 @@ export default function LiveLessonPrototype() {
           const cleanText = response.text?.trim().slice(0, 280);
           return {
             ...current,
+            ...(isStructuredInteractionType(currentInteraction.type) ? addStructuredAnswer(current, currentInteraction, response) : {}),
+            ...(currentInteraction.type === 'estimate' && typeof response.value === 'number' ? { estimateValues: [...(current.estimateValues || []), response.value] } : {}),
+            ...(currentInteraction.type === 'hotspot' && response.point ? { hotspotPoints: [...(current.hotspotPoints || []), response.point] } : {}),
             responseCount: current.responseCount + 1,
             optionCounts: nextOptionCounts,
             writtenResponses: cleanText
@@ -1161,6 +1474,27 @@ export default function LiveLessonPrototype() {
           Array.from(demoQuestionVotersRef.current.entries()).map(([questionId, students]) => [questionId, students.size]),
         ));
       }
+      if (
+        (event.data?.type === 'student-debate-argument' || event.data?.type === 'student-debate-vote')
+        && event.data.runId
+        && interactionResultsRef.current?.phase === 'discuss'
+        && interactionResultsRef.current.runId === event.data.runId
+      ) {
+        const runId = event.data.runId;
+        if (demoDebateRef.current.runId !== runId) demoDebateRef.current = { runId, items: [], voters: new Map() };
+        const demoDebate = demoDebateRef.current;
+        if (event.data.argument?.id) demoDebate.items.push(event.data.argument);
+        if (event.data.argumentId && event.data.voterId) {
+          const voters = demoDebate.voters.get(event.data.argumentId) || new Set<string>();
+          if (event.data.voted) voters.add(event.data.voterId);
+          else voters.delete(event.data.voterId);
+          demoDebate.voters.set(event.data.argumentId, voters);
+        }
+        const votes = Object.fromEntries(Array.from(demoDebate.voters.entries()).map(([argumentId, voters]) => [argumentId, voters.size]));
+        setInteractionResults((current) => current && current.runId === runId
+          ? { ...current, debateArguments: rankDebateArguments(demoDebate.items, votes) }
+          : current);
+      }
       if (
         event.data?.type === 'instructor-question-dismiss'
         && typeof event.data.questionId === 'number'
@@ -1223,10 +1557,10 @@ export default function LiveLessonPrototype() {
         const oldest = localPublishedTimestampsRef.current.values().next().value;
         if (typeof oldest === 'number') localPublishedTimestampsRef.current.delete(oldest);
       }
-      publishInstructorState(sessionContext.ownerUid, sessionContext.sessionId, displayState)
+      publishInstructorState(sessionContext.ownerUid, sessionContext.sessionId, displayState, activeInteraction)
         .catch(() => setToast('The live classroom lost its connection. Check the network before continuing.'));
     }
-  }, [displayState, remoteClassroomReady, sessionContext.ownerUid, sessionContext.sessionId]);
+  }, [activeInteraction, displayState, remoteClassroomReady, sessionContext.ownerUid, sessionContext.sessionId]);
 
   useEffect(() => {
     if (!remoteClassroomReady || !sessionContext.sessionId || !sessionContext.ownerUid) return;
@@ -1241,6 +1575,8 @@ export default function LiveLessonPrototype() {
           : null;
         setActiveInteraction(privateInteraction);
         setInteractionResults(remoteState.interactionResults);
+        // The remote builds a cold-call wheel from the same attendance, so the console can still log its calls.
+        if (privateInteraction?.type === 'spin-wheel' && privateInteraction.wheelSource === 'cold-call') rememberColdCallStudents();
         setFormedTeams((current) => (remoteState.teams || []).map((team) => {
           const privateTeam = current.find((item) => item.id === team.id);
           return { ...team, members: privateTeam?.members, memberCount: privateTeam?.members?.length ?? team.memberCount };
@@ -1271,6 +1607,15 @@ export default function LiveLessonPrototype() {
           }
           if (response.text) writtenResponses.push({ id: response.id, text: response.text });
         });
+        const structuredResults = isStructuredInteractionType(activeInteraction.type)
+          ? aggregateStructuredAnswers(activeInteraction, responses)
+          : {};
+        const estimateValues = activeInteraction.type === 'estimate'
+          ? responses.flatMap((response) => (typeof response.value === 'number' ? [response.value] : []))
+          : undefined;
+        const hotspotPoints = activeInteraction.type === 'hotspot'
+          ? responses.flatMap((response) => (response.point ? [response.point] : []))
+          : undefined;
         if (activeInteraction.type === 'team-formation') {
           const teams = formedTeamsRef.current.map((team) => ({ ...team, members: [...(team.members || [])] }));
           responses.forEach((response) => {
@@ -1291,11 +1636,15 @@ export default function LiveLessonPrototype() {
           });
           setFormedTeams(teams);
         }
+        setRunRespondents({ runId: interactionResults.runId, uids: [...new Set(responses.map((response) => response.studentUid))] });
         const responseCount = activeInteraction.type === 'group-work'
           ? new Set(responses.map((response) => response.teamId || response.studentUid)).size
           : responses.length;
         setInteractionResults((current) => current && current.runId === interactionResults.runId ? {
           ...current,
+          ...structuredResults,
+          ...(estimateValues ? { estimateValues } : {}),
+          ...(hotspotPoints ? { hotspotPoints } : {}),
           responseCount,
           optionCounts,
           writtenResponses: writtenResponses.slice(0, 60),
@@ -1304,9 +1653,21 @@ export default function LiveLessonPrototype() {
     );
   }, [activeInteraction, interactionResults?.runId, remoteClassroomReady, sessionContext.ownerUid, sessionContext.sessionId]);
 
+  const debateArgumentRunId = activeInteraction?.type === 'debate' && interactionResults?.phase === 'discuss' ? interactionResults.runId : null;
+
+  useEffect(() => {
+    if (!remoteClassroomReady || !sessionContext.sessionId || !sessionContext.ownerUid || !debateArgumentRunId) return;
+    return subscribeToInstructorDebate(sessionContext.ownerUid, sessionContext.sessionId, debateArgumentRunId, (debateArguments) => {
+      setInteractionResults((current) => current && current.runId === debateArgumentRunId ? { ...current, debateArguments } : current);
+    });
+  }, [debateArgumentRunId, remoteClassroomReady, sessionContext.ownerUid, sessionContext.sessionId]);
+
   useEffect(() => {
     if (!remoteClassroomReady || !sessionContext.sessionId || !sessionContext.ownerUid) return;
-    return subscribeToInstructorPresence(sessionContext.ownerUid, sessionContext.sessionId, setConnectedStudents);
+    return subscribeToInstructorPresence(sessionContext.ownerUid, sessionContext.sessionId, (count, studentUids) => {
+      setConnectedStudents(count);
+      setConnectedStudentUids(studentUids);
+    });
   }, [remoteClassroomReady, sessionContext.ownerUid, sessionContext.sessionId]);
 
   useEffect(() => {
@@ -1389,6 +1750,18 @@ export default function LiveLessonPrototype() {
       !onboardingRunId
     ) return;
 
+    if (sessionContext.anonymousPulse) {
+      return subscribeToInstructorPulseCounts(
+        sessionContext.ownerUid,
+        sessionContext.sessionId,
+        onboardingRunId,
+        (published) => {
+          setOnboardingMoodCounts({ ...EMPTY_ONBOARDING_COUNTS, ...published?.counts });
+          setPulseResponses(published?.received || 0);
+        },
+      );
+    }
+
     return subscribeToInstructorWelcomeResponses(
       sessionContext.ownerUid,
       sessionContext.sessionId,
@@ -1401,7 +1774,7 @@ export default function LiveLessonPrototype() {
         setOnboardingMoodCounts(nextCounts);
       },
     );
-  }, [onboardingRunId, onboardingStep, remoteClassroomReady, sessionContext.ownerUid, sessionContext.sessionId]);
+  }, [onboardingRunId, onboardingStep, remoteClassroomReady, sessionContext.anonymousPulse, sessionContext.ownerUid, sessionContext.sessionId]);
 
   useEffect(() => {
     if (sessionContext.sessionId || paused || selectedWeek !== 0 || total(liveCounts) >= 176) return;
@@ -1450,6 +1823,7 @@ export default function LiveLessonPrototype() {
   }, [dismissedQuestionUndo]);
 
   const insight = useMemo(() => {
+    if (sessionContext.sessionId && todayPulse.withheld) return `The breakdown appears once ${pulseMinimum} students answer · ${pulseResponses} so far.`;
     if (!total(selectedCounts)) return 'Waiting for the first class response.';
     const currentOverwhelmed = percent(selectedCounts.overwhelmed, selectedCounts);
     const priorOverwhelmed = percent(comparisonCounts.overwhelmed, comparisonCounts);
@@ -1457,7 +1831,7 @@ export default function LiveLessonPrototype() {
     return delta > 0
       ? `${selectedCounts.overwhelmed} students need breathing room · ${delta} pts higher than the prior class`
       : 'The room is steadier than the prior class';
-  }, [selectedCounts, comparisonCounts]);
+  }, [comparisonCounts, pulseMinimum, pulseResponses, selectedCounts, sessionContext.sessionId, todayPulse.withheld]);
 
   const publishQuestion = () => {
     const question = questionDraft.trim().replace(/\s+/g, ' ').slice(0, 180);
@@ -1573,6 +1947,11 @@ export default function LiveLessonPrototype() {
     });
   };
 
+  const rememberColdCallStudents = () => {
+    const wheel = coldCallWheel(attendanceClaimsRef.current, coldCallRef.current?.context);
+    setColdCallStudents(new Map(wheel.items.map((label, index) => [label, wheel.studentNumbers[index]])));
+  };
+
   const launchInteraction = (
     interaction: LiveInteraction,
     resumeRun?: SessionInteractionRun,
@@ -1581,8 +1960,9 @@ export default function LiveLessonPrototype() {
     const now = Date.now();
     const closedRuns = closeCurrentRun(interactionRunsRef.current, 'paused', now);
     const results = resumeRun
-      ? restoreRunResults(interaction, resumeRun, attendanceClaimsRef.current, formedTeamsRef.current)
-      : createRuntimeResults(interaction, attendanceClaimsRef.current, formedTeamsRef.current);
+      ? restoreRunResults(interaction, resumeRun, attendanceClaimsRef.current, formedTeamsRef.current, coldCallRef.current?.context)
+      : createRuntimeResults(interaction, attendanceClaimsRef.current, formedTeamsRef.current, coldCallRef.current?.context);
+    if (interaction.type === 'spin-wheel' && interaction.wheelSource === 'cold-call') rememberColdCallStudents();
     const nextRun: SessionInteractionRun = resumeRun
       ? {
         ...resumeRun,
@@ -1657,13 +2037,16 @@ export default function LiveLessonPrototype() {
     const itemColors = interaction.wheelRemoveSelected !== false && current.wheelSelectedLabel
       ? (current.wheelItemColors || []).filter((_, index) => (current.wheelItems || [])[index] !== current.wheelSelectedLabel)
       : current.wheelItemColors;
+    const itemWeights = interaction.wheelRemoveSelected !== false && current.wheelSelectedLabel
+      ? current.wheelItemWeights?.filter((_, index) => (current.wheelItems || [])[index] !== current.wheelSelectedLabel)
+      : current.wheelItemWeights;
     if (!items.length) {
       setToast('There are no items left on this wheel. Edit the activity or start it again.');
       return;
     }
     const random = new Uint32Array(1);
     window.crypto.getRandomValues(random);
-    const selectedIndex = random[0] % items.length;
+    const selectedIndex = pickWeightedIndex(items.length, random[0] / 2 ** 32, itemWeights);
     const sector = 360 / items.length;
     const currentRotation = current.wheelRotation || 0;
     const target = 360 - (selectedIndex * sector + sector / 2);
@@ -1672,6 +2055,7 @@ export default function LiveLessonPrototype() {
       ...current,
       wheelItems: items,
       wheelItemColors: itemColors,
+      wheelItemWeights: itemWeights,
       wheelSelectedIndex: selectedIndex,
       wheelSelectedLabel: items[selectedIndex],
       wheelSpinCount: (current.wheelSpinCount || 0) + 1,
@@ -1682,6 +2066,97 @@ export default function LiveLessonPrototype() {
     setInteractionResults(next);
   };
 
+  const logColdCallMark = async (outcome: ColdCallOutcome, quality?: ColdCallQuality) => {
+    const interaction = activeInteractionRef.current;
+    const current = interactionResultsRef.current;
+    const coldCall = coldCallRef.current;
+    const label = current?.wheelSelectedLabel;
+    const studentNumber = label ? coldCallStudents.get(label) : undefined;
+    if (interaction?.wheelSource !== 'cold-call' || !current || !label || !coldCall || !studentNumber || !sessionContext.sessionId) return;
+    const spinKey = `${current.runId}:${current.wheelSpinCount || 0}`;
+    const key = coldCallKey(studentNumber);
+    const pass = outcome === 'passed' ? coldCall.context.passes[key]?.[0] : undefined;
+    if (outcome === 'passed' && !pass) return;
+    setColdCallSaving(true);
+    try {
+      const { logColdCall } = await import('@/lib/firebase/cold-calls');
+      await logColdCall(coldCall.course, {
+        sessionId: sessionContext.sessionId,
+        studentNumber,
+        studentName: label,
+        outcome,
+        ...(quality ? { quality } : {}),
+        ...(pass ? { passRequestId: pass.id } : {}),
+      });
+      if (outcome !== 'absent') coldCall.context.counts[key] = (coldCall.context.counts[key] || 0) + 1;
+      if (pass) {
+        coldCall.context.passes[key] = coldCall.context.passes[key].slice(1);
+        setColdCallPasses((passes) => ({ ...passes, [key]: coldCall.context.passes[key].length }));
+      }
+      setColdCallMarks((marks) => ({
+        ...marks,
+        [spinKey]: outcome === 'answered' && quality ? COLD_CALL_QUALITY_LABELS[quality] : outcome === 'passed' ? 'Pass used' : 'Not here',
+      }));
+      // A student who stays on the wheel now comes up as rarely as their new count says.
+      const latest = interactionResultsRef.current;
+      if (latest?.runId === current.runId && latest.wheelItemWeights) {
+        const next: InteractionResults = {
+          ...latest,
+          wheelItemWeights: latest.wheelItemWeights.map((weight, index) => (
+            latest.wheelItems?.[index] === label ? coldCallWeight(coldCall.context.counts[key] || 0) : weight
+          )),
+        };
+        interactionResultsRef.current = next;
+        setInteractionResults(next);
+      }
+    } catch (logError) {
+      console.error('Cold call could not be logged:', logError);
+      setToast(getUserFacingError(logError, 'The cold call was not logged. Try the mark again.'));
+    } finally {
+      setColdCallSaving(false);
+    }
+  };
+
+  const logContribution = async (studentNumber: string, studentName: string, mark: ContributionMarkLevel) => {
+    if (!contributionCourse || !sessionContext.sessionId || contributionSaving) return;
+    const interaction = activeInteractionRef.current;
+    setContributionSaving(true);
+    try {
+      const { logContributionMark } = await import('@/lib/firebase/contribution-marks');
+      const saved = await logContributionMark(contributionCourse, {
+        sessionId: sessionContext.sessionId,
+        studentNumber,
+        studentName,
+        mark,
+        ...(interaction ? { interactionId: interaction.id, interactionTitle: interaction.title } : {}),
+      });
+      setSessionContributions((marks) => [saved, ...marks]);
+      setToast(`${studentName} · ${CONTRIBUTION_MARK_LABELS[mark]}`);
+    } catch (markError) {
+      console.error('Contribution mark could not be saved:', markError);
+      setToast(getUserFacingError(markError, 'The mark was not saved. Try it again.'));
+    } finally {
+      setContributionSaving(false);
+    }
+  };
+
+  const undoLastContribution = async () => {
+    const latest = sessionContributions[0];
+    if (!contributionCourse || !latest || contributionSaving) return;
+    setContributionSaving(true);
+    try {
+      const { deleteContributionMark } = await import('@/lib/firebase/contribution-marks');
+      await deleteContributionMark(contributionCourse.id, latest.id);
+      setSessionContributions((marks) => marks.filter((mark) => mark.id !== latest.id));
+      setToast(`Removed ${CONTRIBUTION_MARK_LABELS[latest.mark].toLowerCase()} mark for ${latest.studentName}`);
+    } catch (undoError) {
+      console.error('Contribution mark could not be removed:', undoError);
+      setToast(getUserFacingError(undoError, 'The mark was not removed. Try again.'));
+    } finally {
+      setContributionSaving(false);
+    }
+  };
+
   const showClassLobby = () => {
     setTopbarMenuOpen(false);
     setOnboardingStep(0);
@@ -1775,7 +2250,7 @@ export default function LiveLessonPrototype() {
   const returnToSlides = () => {
     const pausedRuns = closeCurrentRun(interactionRunsRef.current, 'paused');
     void saveInteractionRuns(pausedRuns).catch(() => setToast('The interaction is closed, but its round history has not saved yet.'));
-    if (activeInteraction?.type === 'timer' || activeInteraction?.type === 'group-work' || activeInteraction?.type === 'peer-learning') setLiveTimer(null);
+    if (activeInteraction?.type === 'timer' || activeInteraction?.type === 'group-work' || activeInteraction?.type === 'peer-learning' || activeInteraction?.type === 'debate') setLiveTimer(null);
     setActiveInteraction(null);
     activeInteractionRef.current = null;
     setInteractionResults(null);
@@ -1790,12 +2265,13 @@ export default function LiveLessonPrototype() {
   };
 
   const advanceModule = () => {
-    if (activeInteraction?.type !== 'peer-learning') return;
+    if (activeInteraction?.type !== 'peer-learning' && activeInteraction?.type !== 'debate') return;
     const current = interactionResultsRef.current;
     if (!current) return;
     if (current.phase === 'respond') {
-      const durationSeconds = (activeInteraction.discussionMinutes || 2) * 60;
-      setLiveTimer({ id: `peer-discussion-${Date.now()}`, label: 'Partner discussion', durationSeconds, endsAt: Date.now() + durationSeconds * 1000 });
+      const isDebate = activeInteraction.type === 'debate';
+      const durationSeconds = (activeInteraction.discussionMinutes || (isDebate ? 5 : 2)) * 60;
+      setLiveTimer({ id: `${isDebate ? 'debate-arguments' : 'peer-discussion'}-${Date.now()}`, label: isDebate ? 'Argument time' : 'Partner discussion', durationSeconds, endsAt: Date.now() + durationSeconds * 1000 });
       const next = { ...current, open: false, phase: 'discuss' as const, firstResponseCount: current.responseCount, firstOptionCounts: current.optionCounts };
       interactionResultsRef.current = next;
       setInteractionResults(next);
@@ -1859,6 +2335,12 @@ export default function LiveLessonPrototype() {
     setToast('Anonymous response shared with the class');
   };
 
+  const spotlightDebateArgument = (argumentId: string) => {
+    const featured = interactionResultsRef.current?.featuredArgumentId !== argumentId;
+    setInteractionResults((current) => current ? { ...current, featuredArgumentId: current.featuredArgumentId === argumentId ? null : argumentId } : current);
+    setToast(featured ? 'Argument is on the projector' : 'Argument removed from the projector');
+  };
+
   const openClassroomDisplay = () => {
     const existingDisplay = displayWindowRef.current;
     if (existingDisplay && !existingDisplay.closed) {
@@ -1910,6 +2392,18 @@ export default function LiveLessonPrototype() {
       await saveInteractionRuns(completedRuns).catch((runError) => {
         console.warn('Activity round history could not be finalized before ending:', runError);
       });
+      if (courseIdRef.current && sessionPlanRef.current.some((interaction) => interaction.bankItemId)) {
+        try {
+          const [{ recordQuestionBankStatistics }, records] = await Promise.all([
+            import('@/lib/firebase/question-bank'),
+            getInstructorClassroomRecords(sessionContext.ownerUid, sessionContext.sessionId),
+          ]);
+          const responses = Object.values(records.responses).flatMap((runResponses) => Object.values(runResponses));
+          await recordQuestionBankStatistics(courseIdRef.current, sessionContext.sessionId, sessionPlanRef.current, responses);
+        } catch (statsError) {
+          console.warn('Question bank statistics could not be recorded:', statsError);
+        }
+      }
       await endInstructorClassroom(sessionContext.ownerUid, sessionContext.sessionId);
       // Buckets rather than raw values: a small class should not be
       // identifiable from an analytics report, and the band is what gets read.
@@ -2059,6 +2553,7 @@ export default function LiveLessonPrototype() {
     setPlayingHistory(false);
     setSelectedWeek(0);
     setOnboardingMoodCounts(EMPTY_ONBOARDING_COUNTS);
+    setPulseResponses(0);
     setOnboardingRunId(Date.now());
     setLobbyOpen(false);
     setOnboardingStep(1);
@@ -2073,6 +2568,13 @@ export default function LiveLessonPrototype() {
   };
 
   const advanceWelcome = () => {
+    // Keep the class totals for next week's comparison. Anonymous pulses are saved by the server.
+    if (onboardingStep === 3 && sessionContext.sessionId && !sessionContext.anonymousPulse && total(onboardingMoodCounts)) {
+      const sessionId = sessionContext.sessionId;
+      import('@/lib/firebase/wellbeing-pulse')
+        .then(({ saveSessionPulseSummary }) => saveSessionPulseSummary(sessionId, onboardingRunId, onboardingMoodCounts))
+        .catch((pulseError) => console.warn('Class pulse totals could not be saved:', pulseError));
+    }
     setOnboardingStep((current) => (Math.min(4, current + 1) as OnboardingStep));
   };
 
@@ -2139,6 +2641,8 @@ export default function LiveLessonPrototype() {
           </div>
           <div className="topbar-actions">
             <span className="connected-count"><Users size={17} /> {activeInteraction && interactionResults ? `${interactionResults.responseCount} responded` : `${connectedStudents} connected`}</span>
+            {seatingChart && <button className="floating-controls-trigger" type="button" onClick={() => setSeatingOpen(true)}><LayoutGrid size={17} /> Seating</button>}
+            {contributionCourse && sessionContext.sessionId && <button className="floating-controls-trigger" type="button" onClick={() => setContributionOpen(true)}><Award size={17} /> Contributions</button>}
             <button className="floating-controls-trigger" type="button" onClick={openFloatingControls}><PictureInPicture2 size={17} /> Float controls</button>
             {sessionContext.sessionId && <button className="end-class-trigger" type="button" onClick={() => setEndClassOpen(true)}><Square size={15} /> End class</button>}
             <div className="topbar-more-wrap">
@@ -2192,6 +2696,13 @@ export default function LiveLessonPrototype() {
             onAdvanceModule={advanceModule}
             onSpinWheel={spinWheel}
             onShareResponse={shareWrittenResponse}
+            onSpotlightArgument={spotlightDebateArgument}
+            coldCallLog={activeInteraction.type === 'spin-wheel' && activeInteraction.wheelSource === 'cold-call' && coldCallPasses ? {
+              passCount: coldCallPasses[coldCallKey(coldCallStudents.get(interactionResults.wheelSelectedLabel || '') || '')] || 0,
+              loggedAs: coldCallMarks[`${interactionResults.runId}:${interactionResults.wheelSpinCount || 0}`] || null,
+              saving: coldCallSaving,
+              onLog: logColdCallMark,
+            } : undefined}
           />
         ) : (
         <section className="lesson-content">
@@ -2201,9 +2712,22 @@ export default function LiveLessonPrototype() {
               <h1>How are you arriving today?</h1>
               <p>{selectedWeek === 0 ? 'See how the room is arriving as responses come in.' : HISTORY[selectedWeek].lesson}</p>
             </div>
-            <div className="privacy-note"><Lock size={15} /> Individual responses stay private</div>
+            <div className="privacy-note"><Lock size={15} /> {sessionContext.anonymousPulse ? `Anonymous · shown from ${pulseMinimum} answers` : 'Individual responses stay private'}</div>
           </div>
 
+          {sessionContext.sessionId && priorPulseCounts && <div className="history-toolbar" aria-label="Class Pulse comparison">
+            <div className="history-actions">
+              <button
+                className={showComparison ? 'is-active' : ''}
+                type="button"
+                onClick={() => setShowComparison((current) => !current)}
+                aria-pressed={showComparison}
+              >
+                <TimerReset size={16} /> Compare with last class
+              </button>
+            </div>
+          </div>}
+
           {!sessionContext.sessionId && <div className="history-toolbar" aria-label="Class Pulse history controls">
             <div className="history-periods">
               {HISTORY.map((week, index) => (
@@ -2249,8 +2773,8 @@ export default function LiveLessonPrototype() {
 
           <div className={`pulse-chart ${playingHistory ? 'is-flowing' : ''}`} aria-live="polite">
             <div className="chart-key">
-              <span><i className="key-dot current" /> {HISTORY[selectedWeek].date}</span>
-              {showComparison && <span><i className="key-dot previous" /> Prior class</span>}
+              <span><i className="key-dot current" /> {sessionContext.sessionId ? 'Today' : HISTORY[selectedWeek].date}</span>
+              {comparing && <span><i className="key-dot previous" /> Prior class</span>}
             </div>
 
             {MOODS.map((mood) => {
@@ -2270,7 +2794,7 @@ export default function LiveLessonPrototype() {
                       color={mood.color}
                       currentPercent={percentage}
                       previousPercent={previousPercentage}
-                      showComparison={showComparison}
+                      showComparison={comparing}
                       incoming={incomingMood === mood.key}
                       replaying={playingHistory}
                       animationKey={selectedWeek}
@@ -2281,7 +2805,7 @@ export default function LiveLessonPrototype() {
                     <span>{value} students</span>
                   </div>
                   <div className={`mood-delta ${delta > 0 ? 'is-up' : delta < 0 ? 'is-down' : ''}`}>
-                    {showComparison ? `${delta > 0 ? '+' : ''}${delta} pts` : 'Not compared'}
+                    {comparing ? `${delta > 0 ? '+' : ''}${delta} pts` : 'Not compared'}
                   </div>
                 </div>
               );
@@ -2424,7 +2948,7 @@ export default function LiveLessonPrototype() {
                   <span><GraduationCap size={14} /> Classroom welcome</span>
                   <strong>{onboardingStep === 4 ? 'The class is ready' : welcomeLabels[onboardingStep - 1]}</strong>
                   <div>{[1, 2, 3].map((step) => <i className={step <= onboardingStep ? 'is-filled' : ''} key={step} />)}</div>
-                  <small>{onboardingStep === 3 ? `${total(onboardingMoodCounts)} first pulses received` : onboardingStep === 4 ? 'Return to the lesson when ready' : `Step ${onboardingStep} of 3 on screen`}</small>
+                  <small>{onboardingStep === 3 ? `${sessionContext.anonymousPulse ? pulseResponses : total(onboardingMoodCounts)} first pulses received` : onboardingStep === 4 ? 'Return to the lesson when ready' : `Step ${onboardingStep} of 3 on screen`}</small>
                 </div>
               ) : activeInteraction ? (
                 <div className="preview-welcome-state preview-interaction-state">
@@ -2663,6 +3187,128 @@ export default function LiveLessonPrototype() {
         </div>
       )}
 
+      {contributionOpen && contributionCourse && (
+        <div className="attendance-panel-backdrop" role="presentation" onMouseDown={(event) => {
+          if (event.target === event.currentTarget) setContributionOpen(false);
+        }}>
+          <section className="attendance-panel contribution-panel" role="dialog" aria-modal="true" aria-labelledby="contribution-title">
+            <header>
+              <div>
+                <span className="seminar-eyebrow">Live discussion</span>
+                <h2 id="contribution-title">Contributions</h2>
+                <p>{sessionContributions.length} {sessionContributions.length === 1 ? 'mark' : 'marks'} this class · {activeInteraction ? `During ${activeInteraction.title}` : 'Between activities'}</p>
+              </div>
+              <button type="button" aria-label="Close contributions" onClick={() => setContributionOpen(false)}><X size={19} /></button>
+            </header>
+
+            <label className="contribution-search">
+              <Search size={16} />
+              <input value={contributionSearch} onChange={(event) => setContributionSearch(event.target.value)} placeholder="Find a student" aria-label="Find a student" />
+            </label>
+
+            <div className="attendance-list contribution-list">
+              {visibleContributionStudents.length === 0 ? (
+                <div className="attendance-empty">
+                  <Users size={24} />
+                  <strong>{contributionStudents.length ? 'No one matches that search' : 'No students to mark yet'}</strong>
+                  <p>{contributionStudents.length ? 'Try part of a name or student number.' : 'Students appear here after they check in with their student number.'}</p>
+                </div>
+              ) : visibleContributionStudents.map((student) => (
+                <article key={student.studentNumber}>
+                  <span className={`contribution-count ${student.marks ? 'has-marks' : ''}`} aria-label={`${student.marks} marks this class`}>{student.marks}</span>
+                  <div>
+                    <strong>{student.name}</strong>
+                    <small>{student.lastMark ? `Last mark: ${CONTRIBUTION_MARK_LABELS[student.lastMark]}` : 'No marks this class'}</small>
+                  </div>
+                  <span className="contribution-mark-buttons">
+                    {([3, 2, 1] as const).map((level) => (
+                      <button type="button" key={level} title={CONTRIBUTION_MARK_HINTS[level]} disabled={contributionSaving} onClick={() => logContribution(student.studentNumber, student.name, level)}>{CONTRIBUTION_MARK_LABELS[level]}</button>
+                    ))}
+                  </span>
+                </article>
+              ))}
+            </div>
+
+            <footer className="contribution-footer">
+              <span>Marks are saved to the class Contributions page, tied to the activity on screen.</span>
+              {sessionContributions[0] && <button type="button" onClick={undoLastContribution} disabled={contributionSaving}><RotateCcw size={13} /> Undo {sessionContributions[0].studentName}</button>}
+            </footer>
+          </section>
+        </div>
+      )}
+
+      {seatingOpen && seatingChart && (
+        <div className="seating-live-backdrop" role="presentation" onMouseDown={(event) => {
+          if (event.target === event.currentTarget) setSeatingOpen(false);
+        }}>
+          <section className="seating-live-panel" role="dialog" aria-modal="true" aria-labelledby="seating-live-title">
+            <header>
+              <div>
+                <span className="seminar-eyebrow">Seating chart</span>
+                {seatingCharts.length > 1 ? (
+                  <select id="seating-live-title" value={seatingChart.id} onChange={(event) => { setSeatingChartId(event.target.value); setSelectedSeatId(''); }} aria-label="Room">
+                    {seatingCharts.map((chart) => <option key={chart.id} value={chart.id}>{chart.room}</option>)}
+                  </select>
+                ) : <h2 id="seating-live-title">{seatingChart.room}</h2>}
+                <p>
+                  {liveSeats.filter((seat) => seat.status === 'here').length} here · {liveSeats.filter((seat) => seat.status === 'away').length} dropped off · {liveSeats.filter((seat) => seat.status === 'not-checked-in').length} not checked in
+                  {activeInteraction && interactionResults ? ` · ${liveSeats.filter((seat) => seat.responded).length} answered ${activeInteraction.title}` : ''}
+                </p>
+              </div>
+              <button type="button" aria-label="Close seating chart" onClick={() => setSeatingOpen(false)}><X size={19} /></button>
+            </header>
+
+            <div className="seating-live-legend" aria-hidden="true">
+              <span><i className="is-here" /> Here</span>
+              <span><i className="is-away" /> Dropped off</span>
+              <span><i className="is-not-checked-in" /> Not checked in</span>
+              <span><CheckCircle2 size={13} /> Answered</span>
+            </div>
+
+            <div className="seating-live-room">
+              <p className="seating-live-front">Front of room</p>
+              <div className="seating-live-grid" style={seatingGridTemplate(liveSeats)}>
+                {liveSeats.map((seat) => {
+                  const key = seat.assignment ? contributionKey(seat.assignment.studentNumber) : '';
+                  const calls = key ? coldCallRef.current?.context.counts[key] || 0 : 0;
+                  const marks = key ? sessionContributions.filter((mark) => contributionKey(mark.studentNumber) === key).length : 0;
+                  return seat.assignment ? (
+                    <button
+                      type="button"
+                      key={seat.id}
+                      className={`seating-live-seat is-${seat.status} ${seat.responded ? 'has-responded' : ''} ${selectedSeatId === seat.id ? 'is-selected' : ''}`}
+                      style={{ gridRow: seat.gridRow, gridColumn: seat.gridColumn }}
+                      onClick={() => setSelectedSeatId((current) => current === seat.id ? '' : seat.id)}
+                      aria-pressed={selectedSeatId === seat.id}
+                      aria-label={`${seat.assignment.name}, ${seat.label}, ${seat.status === 'here' ? 'here' : seat.status === 'away' ? 'dropped off' : 'not checked in'}${seat.responded ? ', answered' : ''}`}
+                    >
+                      <strong>{seat.assignment.name}</strong>
+                      <small>{calls ? `${calls} ${calls === 1 ? 'call' : 'calls'}` : ''}{calls && marks ? ' · ' : ''}{marks ? `${marks} ${marks === 1 ? 'mark' : 'marks'}` : ''}</small>
+                      {seat.responded && <CheckCircle2 size={14} />}
+                    </button>
+                  ) : <span key={seat.id} className="seating-live-seat is-empty" style={{ gridRow: seat.gridRow, gridColumn: seat.gridColumn }} aria-hidden="true" />;
+                })}
+              </div>
+            </div>
+
+            <footer>
+              {selectedSeat?.assignment ? (
+                <>
+                  <span><strong>{selectedSeat.assignment.name}</strong> {selectedSeat.label}</span>
+                  {contributionCourse && sessionContext.sessionId && (
+                    <span className="contribution-mark-buttons">
+                      {([3, 2, 1] as const).map((level) => (
+                        <button type="button" key={level} title={CONTRIBUTION_MARK_HINTS[level]} disabled={contributionSaving || selectedSeat.status === 'not-checked-in'} onClick={() => selectedSeat.assignment && logContribution(selectedSeat.assignment.studentNumber, selectedSeat.assignment.name, level)}>{CONTRIBUTION_MARK_LABELS[level]}</button>
+                      ))}
+                    </span>
+                  )}
+                </>
+              ) : <span>Select a student to mark a contribution. Call and mark counts are this term&apos;s cold calls and this class&apos;s contributions.</span>}
+            </footer>
+          </section>
+        </div>
+      )}
+
       {onboardingStep > 0 && (
         <section className={`welcome-controller ${onboardingStep === 4 ? 'is-complete' : ''}`} aria-label="Class welcome controls">
           <div className="welcome-controller-status">
@@ -2764,6 +3410,14 @@ export default function LiveLessonPrototype() {
           })}
           onStartTimer={startLiveTimer}
           onClearTimer={clearLiveTimer}
+          contributions={contributionCourse && sessionContext.sessionId ? {
+            students: contributionStudents,
+            markCount: sessionContributions.length,
+            saving: contributionSaving,
+            lastMarkedName: sessionContributions[0]?.studentName || null,
+            onMark: (student, mark) => logContribution(student.studentNumber, student.name, mark),
+            onUndo: undoLastContribution,
+          } : undefined}
         />,
         floatingRemoteWindow.document.body,
       )}
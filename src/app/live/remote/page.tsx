@@ -5,15 +5,23 @@ import { ArrowRight } from 'lucide-react';
 import ClassfullyRemote from '@/components/live/ClassfullyRemote';
 import ClassroomStateGate from '@/components/live/ClassroomStateGate';
 import { useAuth } from '@/lib/hooks/useAuth';
-import { getSession } from '@/lib/firebase/firestore';
+import { getCourse, getSession } from '@/lib/firebase/firestore';
+import { getColdCallContext } from '@/lib/firebase/cold-calls';
+import { buildColdCallWheel, coldCallCandidates, pickWeightedIndex } from '@/lib/cold-call';
+import { deleteContributionMark, getContributionMarks, logContributionMark } from '@/lib/firebase/contribution-marks';
+import { CONTRIBUTION_MARK_LABELS, liveContributionStudents, type LiveContributionStudent } from '@/lib/contribution-marks';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import type { ContributionMark, ContributionMarkLevel, Course } from '@/types';
 import {
   publishInstructorState,
   getInstructorClassroomRecords,
+  subscribeToInstructorAttendance,
   subscribeToInstructorDisplayPresence,
   subscribeToInstructorPresence,
   subscribeToInstructorPublicState,
   setInstructorQuestionDismissed,
   setInstructorQuestionRecognized,
+  type StoredAttendanceClaim,
 } from '@/lib/firebase/live-classroom';
 import {
   DEMO_LIVE_INTERACTIONS,
@@ -79,6 +87,12 @@ export default function InstructorRemotePage() {
   const channelRef = useRef<BroadcastChannel | null>(null);
   const stateRef = useRef(state);
   const [classroomIds, setClassroomIds] = useState<{ sessionId: string; ownerUid: string } | null>(null);
+  const [contributionCourse, setContributionCourse] = useState<Pick<Course, 'id' | 'teacherId'> | null>(null);
+  const [attendanceClaims, setAttendanceClaims] = useState<StoredAttendanceClaim[]>([]);
+  /** Marks given in this session from any device, newest first. */
+  const [sessionContributions, setSessionContributions] = useState<ContributionMark[]>([]);
+  const [contributionSaving, setContributionSaving] = useState(false);
+  const [contributionError, setContributionError] = useState('');
 
   useEffect(() => { stateRef.current = state; }, [state]);
 
@@ -151,6 +165,15 @@ export default function InstructorRemotePage() {
       }));
       cleanups.push(subscribeToInstructorPresence(ownerUid, sessionId, setConnectedStudents));
       cleanups.push(subscribeToInstructorDisplayPresence(ownerUid, sessionId, setDisplayConnected));
+      if (session.courseId) {
+        getCourse(session.courseId).then(async (course) => {
+          if (stopped || !course) return;
+          setContributionCourse(course);
+          cleanups.push(subscribeToInstructorAttendance(ownerUid, sessionId, (claims) => setAttendanceClaims(Object.values(claims))));
+          const marks = await getContributionMarks(course.id);
+          if (!stopped) setSessionContributions(marks.filter((mark) => mark.sessionId === sessionId));
+        }).catch((contributionError) => console.warn('Contribution tagging is unavailable on the remote:', contributionError));
+      }
     }).catch(() => {
       setError('The remote could not connect to this live session.');
       setClassroomStateReady(true);
@@ -167,7 +190,7 @@ export default function InstructorRemotePage() {
     stateRef.current = next;
     setState(next);
     if (classroomIds) {
-      publishInstructorState(classroomIds.ownerUid, classroomIds.sessionId, protectStudentView(next))
+      publishInstructorState(classroomIds.ownerUid, classroomIds.sessionId, protectStudentView(next), next.activeInteraction)
         .then(() => setSyncConnected(true))
         .catch(() => setSyncConnected(false));
     } else {
@@ -184,8 +207,22 @@ export default function InstructorRemotePage() {
   const launch = async (interaction: LiveInteraction) => {
     let wheelItems = interaction.wheelItems || [];
     let wheelItemColors: string[] | undefined;
+    let wheelItemWeights: number[] | undefined;
     if (interaction.type === 'spin-wheel') {
-      if (interaction.wheelSource === 'teams') {
+      if (interaction.wheelSource === 'cold-call' && classroomIds) {
+        const course = sessionContext.courseId ? await getCourse(sessionContext.courseId).catch(() => null) : null;
+        const [records, coldCall] = await Promise.all([
+          getInstructorClassroomRecords(classroomIds.ownerUid, classroomIds.sessionId).catch(() => null),
+          course ? getColdCallContext(course).catch(() => null) : Promise.resolve(null),
+        ]);
+        const wheel = buildColdCallWheel(
+          coldCallCandidates(Object.values(records?.attendance || {})),
+          coldCall?.counts,
+          coldCall?.optedOut || course?.coldCall?.optedOut,
+        );
+        wheelItems = wheel.items;
+        wheelItemWeights = wheel.weights;
+      } else if (interaction.wheelSource === 'teams') {
         const uniqueTeams = stateRef.current.teams.filter((team, index, all) => team.name.trim() && all.findIndex((candidate) => candidate.name.trim().toLocaleLowerCase() === team.name.trim().toLocaleLowerCase()) === index).slice(0, 40);
         wheelItems = uniqueTeams.map((team) => team.name);
         const colors: Record<string, string> = { violet: '#5b4ce6', blue: '#2f73df', teal: '#238b78', green: '#3d9456', gold: '#d99f18', coral: '#df664e', pink: '#c85f92', navy: '#24366f' };
@@ -204,7 +241,7 @@ export default function InstructorRemotePage() {
       ...current,
       activeInteraction: interaction,
       interactionResults: interaction.type === 'spin-wheel'
-        ? { ...createInteractionResults(interaction), wheelItems, wheelItemColors }
+        ? { ...createInteractionResults(interaction), wheelItems, wheelItemColors, wheelItemWeights }
         : createInteractionResults(interaction),
       timer: interaction.type === 'timer' || interaction.type === 'group-work' ? {
         id: `timer-${Date.now()}`,
@@ -226,10 +263,13 @@ export default function InstructorRemotePage() {
       const itemColors = current.activeInteraction.wheelRemoveSelected !== false && results.wheelSelectedLabel
         ? (results.wheelItemColors || []).filter((_, index) => (results.wheelItems || [])[index] !== results.wheelSelectedLabel)
         : results.wheelItemColors;
+      const itemWeights = current.activeInteraction.wheelRemoveSelected !== false && results.wheelSelectedLabel
+        ? results.wheelItemWeights?.filter((_, index) => (results.wheelItems || [])[index] !== results.wheelSelectedLabel)
+        : results.wheelItemWeights;
       if (!items.length) return current;
       const random = new Uint32Array(1);
       window.crypto.getRandomValues(random);
-      const selectedIndex = random[0] % items.length;
+      const selectedIndex = pickWeightedIndex(items.length, random[0] / 2 ** 32, itemWeights);
       const sector = 360 / items.length;
       const currentRotation = results.wheelRotation || 0;
       const target = 360 - (selectedIndex * sector + sector / 2);
@@ -240,6 +280,7 @@ export default function InstructorRemotePage() {
           ...results,
           wheelItems: items,
           wheelItemColors: itemColors,
+          wheelItemWeights: itemWeights,
           wheelSelectedIndex: selectedIndex,
           wheelSelectedLabel: items[selectedIndex],
           wheelSpinCount: (results.wheelSpinCount || 0) + 1,
@@ -272,14 +313,15 @@ export default function InstructorRemotePage() {
 
   const advanceModule = () => {
     updateRemoteState((current) => {
-      if (current.activeInteraction?.type !== 'peer-learning' || !current.interactionResults) return current;
+      if ((current.activeInteraction?.type !== 'peer-learning' && current.activeInteraction?.type !== 'debate') || !current.interactionResults) return current;
       const results = current.interactionResults;
       if (results.phase === 'respond') {
-        const durationSeconds = (current.activeInteraction.discussionMinutes || 2) * 60;
+        const isDebate = current.activeInteraction.type === 'debate';
+        const durationSeconds = (current.activeInteraction.discussionMinutes || (isDebate ? 5 : 2)) * 60;
         return {
           ...current,
           interactionResults: { ...results, open: false, phase: 'discuss', firstResponseCount: results.responseCount, firstOptionCounts: results.optionCounts },
-          timer: { id: `peer-discussion-${Date.now()}`, label: 'Partner discussion', durationSeconds, endsAt: Date.now() + durationSeconds * 1000 },
+          timer: { id: `${isDebate ? 'debate-arguments' : 'peer-discussion'}-${Date.now()}`, label: isDebate ? 'Argument time' : 'Partner discussion', durationSeconds, endsAt: Date.now() + durationSeconds * 1000 },
         };
       }
       if (results.phase === 'discuss') {
@@ -295,7 +337,7 @@ export default function InstructorRemotePage() {
   };
 
   const finish = () => {
-    updateRemoteState((current) => ({ ...current, activeInteraction: null, interactionResults: null, timer: current.activeInteraction?.type === 'timer' || current.activeInteraction?.type === 'group-work' || current.activeInteraction?.type === 'peer-learning' ? null : current.timer }));
+    updateRemoteState((current) => ({ ...current, activeInteraction: null, interactionResults: null, timer: current.activeInteraction?.type === 'timer' || current.activeInteraction?.type === 'group-work' || current.activeInteraction?.type === 'peer-learning' || current.activeInteraction?.type === 'debate' ? null : current.timer }));
     if (!classroomIds) sendDemoCommand('finish');
   };
 
@@ -372,6 +414,44 @@ export default function InstructorRemotePage() {
     updateRemoteState((current) => ({ ...current, timer: null }));
   };
 
+  const markContribution = async (student: LiveContributionStudent, mark: ContributionMarkLevel) => {
+    if (!contributionCourse || !classroomIds || contributionSaving) return;
+    const interaction = stateRef.current.activeInteraction;
+    setContributionSaving(true);
+    setContributionError('');
+    try {
+      const saved = await logContributionMark(contributionCourse, {
+        sessionId: classroomIds.sessionId,
+        studentNumber: student.studentNumber,
+        studentName: student.name,
+        mark,
+        ...(interaction ? { interactionId: interaction.id, interactionTitle: interaction.title } : {}),
+      });
+      setSessionContributions((marks) => [saved, ...marks]);
+    } catch (markError) {
+      console.error('Contribution mark could not be saved:', markError);
+      setContributionError(getUserFacingError(markError, `The ${CONTRIBUTION_MARK_LABELS[mark].toLowerCase()} mark was not saved. Try it again.`));
+    } finally {
+      setContributionSaving(false);
+    }
+  };
+
+  const undoContribution = async () => {
+    const latest = sessionContributions[0];
+    if (!contributionCourse || !latest || contributionSaving) return;
+    setContributionSaving(true);
+    setContributionError('');
+    try {
+      await deleteContributionMark(contributionCourse.id, latest.id);
+      setSessionContributions((marks) => marks.filter((item) => item.id !== latest.id));
+    } catch (undoError) {
+      console.error('Contribution mark could not be removed:', undoError);
+      setContributionError(getUserFacingError(undoError, 'The mark was not removed. Try again.'));
+    } finally {
+      setContributionSaving(false);
+    }
+  };
+
   const openDisplay = () => {
     const url = classroomIds
       ? `/live/display?sessionId=${encodeURIComponent(classroomIds.sessionId)}&ownerUid=${encodeURIComponent(classroomIds.ownerUid)}`
@@ -429,6 +509,15 @@ export default function InstructorRemotePage() {
       onLaunchUnplanned={launchUnplanned}
       onStartTimer={startTimer}
       onClearTimer={clearTimer}
+      contributions={contributionCourse && classroomIds ? {
+        students: liveContributionStudents(coldCallCandidates(attendanceClaims), sessionContributions),
+        markCount: sessionContributions.length,
+        saving: contributionSaving,
+        error: contributionError,
+        lastMarkedName: sessionContributions[0]?.studentName || null,
+        onMark: markContribution,
+        onUndo: undoContribution,
+      } : undefined}
     />
   );
 }
@@ -1,9 +1,10 @@
 'use client';
 
+import Image from 'next/image';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { useCallback, useEffect, useLayoutEffect, useRef, useState, type CSSProperties, type ReactNode } from 'react';
-import { IconContext, Pulse as Activity, ArrowClockwise, ArrowRight, ArrowFatUp as ArrowUp, Medal as Award, Check, CaretDown as ChevronDown, ClipboardText as ClipboardCheck, DiceFive, Gift, Heartbeat as HeartPulse, ListChecks, LockKey as Lock, ChatCircleDots as MessageCircle, PaperPlaneTilt as Send, ShieldCheck, Sparkle as Sparkles, Timer, Trophy, UserCircle, UsersThree as Users, X } from '@phosphor-icons/react';
+import { IconContext, Pulse as Activity, ArrowClockwise, ArrowRight, ArrowFatUp as ArrowUp, Medal as Award, Check, CaretDown as ChevronDown, CaretUp as ChevronUp, ClipboardText as ClipboardCheck, DiceFive, Gift, Heartbeat as HeartPulse, ListChecks, LockKey as Lock, ChatCircleDots as MessageCircle, PaperPlaneTilt as Send, ShieldCheck, Sparkle as Sparkles, Timer, Trophy, UserCircle, UsersThree as Users, X } from '@phosphor-icons/react';
 import HapticButton from '@/components/student/HapticButton';
 import { SharedMomentEffect, RESPONSE_TRANSFER_DEPART_MS, RESPONSE_TRANSFER_LIFETIME_MS, type ResponseTransferSignal } from '@/components/motion';
 import ClassroomStateGate from '@/components/live/ClassroomStateGate';
@@ -14,27 +15,58 @@ import {
   getStudentClassroomMeta,
   getCurrentStudentQuestionIds,
   getCurrentStudentAttendance,
+  getCurrentStudentDebateArguments,
+  getStudentDebateVotes,
   getStudentResponse,
   getStudentWelcomeResponse,
   joinStudentPresence,
+  setStudentDebateVote,
   setStudentQuestionVote,
+  submitStudentDebateArgument,
   submitStudentQuestion,
   submitStudentInteractionResponse,
+  submitStudentQuizResponse,
   submitStudentWelcomeResponse,
   subscribeToStudentConnection,
   subscribeToStudentPublicState,
   subscribeToStudentQuestionPointClaims,
+  subscribeToStudentQuizAwards,
 } from '@/lib/firebase/live-classroom';
 import {
   getAvailableRewardsForStudent,
   getStudentRewardRequests,
+  linkStudentRewardLedger,
+  recordStudentReward,
   requestReward as requestManagedReward,
+  subscribeToStudentRewardLedger,
 } from '@/lib/firebase/rewards';
-import type { RewardDefinition, RewardRequest, RewardRequestStatus } from '@/types';
-import { ensureStudentAnonymousAuth } from '@/lib/firebase/student-config';
+import type { HotspotPoint, RewardDefinition, RewardRequest, RewardRequestStatus, Session } from '@/types';
+import { ensureStudentAnonymousAuth, studentAuth } from '@/lib/firebase/student-config';
+import { getCourseHomeworkStudent } from '@/lib/firebase/student-firestore';
+import { homeworkDueAt, homeworkDueState, type HomeworkDueState } from '@/lib/homework';
 import { getUserFacingError } from '@/lib/user-facing-error';
 import { triggerStudentHaptic } from '@/lib/student-haptics';
 import { calculateSpeedBonus } from '@/lib/knowledge-check-scoring';
+import { optionDisplayOrder } from '@/lib/question-bank';
+import { estimateRangeLabel, formatEstimate, isEstimateInBounds, parseEstimate } from '@/lib/numeric-estimates';
+import { isHotspotHit, isHotspotPoint, normalizeHotspotPoint } from '@/lib/hotspots';
+import {
+  MAX_DEBATE_ARGUMENT_LENGTH,
+  MAX_DEBATE_ARGUMENTS_PER_STUDENT,
+  debateSideFor,
+  debateSideLabels,
+  normalizeDebateArgument,
+  type DebateSide,
+} from '@/lib/debate';
+import {
+  MATRIX_QUADRANTS,
+  isCompleteStructuredAnswer,
+  isStructuredInteractionType,
+  matrixQuadrantLabel,
+  scaleLabelsFor,
+  structuredAnswerFrom,
+  type StructuredAnswer,
+} from '@/lib/structured-interactions';
 import {
   EMPTY_ONBOARDING_COUNTS,
   DEFAULT_LIVE_QUESTIONS,
@@ -54,11 +86,16 @@ import './student.css';
 import {
   applyReward,
   createInitialRewardState,
+  getEstimateProximityRule,
   getParticipationPoints,
   getQuestionPointRule,
   loadRewardState,
   POINT_RULES,
+  rememberedRewardLedger,
+  rememberRewardLedger,
+  rewardStateFromLedger,
   saveRewardState,
+  toRewardLedgerEntry,
   type CourseReward,
   type RewardBalance,
   type RewardLedgerEntry,
@@ -243,6 +280,196 @@ function StudentRoomCurrent({ responseCount, runId }: { responseCount: number; r
   );
 }
 
+function StudentStructuredResponse({ interaction, answer, disabled, onChange }: {
+  interaction: NonNullable<LessonDisplayState['activeInteraction']>;
+  answer: StructuredAnswer;
+  disabled: boolean;
+  onChange: (answer: StructuredAnswer) => void;
+}) {
+  const items = interaction.options || [];
+  if (interaction.type === 'ranking') {
+    const ranking = answer.ranking || [];
+    const move = (position: number, direction: -1 | 1) => {
+      const next = [...ranking];
+      [next[position], next[position + direction]] = [next[position + direction], next[position]];
+      onChange({ ranking: next });
+    };
+    return (
+      <ol className="student-ranking" aria-label="Your ranking, first to last">
+        {ranking.map((index, position) => (
+          <li key={index}>
+            <b>{position + 1}</b>
+            <strong>{items[index]}</strong>
+            <HapticButton type="button" depth="compact" disabled={disabled || position === 0} onClick={() => move(position, -1)} aria-label={`Move ${items[index]} up`}><ChevronUp size={16} /></HapticButton>
+            <HapticButton type="button" depth="compact" disabled={disabled || position === ranking.length - 1} onClick={() => move(position, 1)} aria-label={`Move ${items[index]} down`}><ChevronDown size={16} /></HapticButton>
+          </li>
+        ))}
+      </ol>
+    );
+  }
+  if (interaction.type === 'scale') {
+    const labels = scaleLabelsFor(interaction);
+    const ratings = answer.ratings || [];
+    return (
+      <div className="student-scale">
+        {items.map((statement, itemIndex) => (
+          <fieldset key={statement}>
+            <legend>{statement}</legend>
+            <div role="radiogroup" aria-label={statement} style={{ '--scale-points': labels.length } as CSSProperties}>
+              {labels.map((label, point) => (
+                <HapticButton
+                  key={label}
+                  type="button"
+                  depth="compact"
+                  role="radio"
+                  aria-checked={ratings[itemIndex] === point + 1}
+                  aria-label={label}
+                  title={label}
+                  disabled={disabled}
+                  className={ratings[itemIndex] === point + 1 ? 'is-selected' : ''}
+                  onClick={() => {
+                    const next = items.map((_, index) => ratings[index] ?? 0);
+                    next[itemIndex] = point + 1;
+                    onChange({ ratings: next });
+                  }}
+                >{point + 1}</HapticButton>
+              ))}
+            </div>
+            <small><span>{labels[0]}</span><span>{labels[labels.length - 1]}</span></small>
+          </fieldset>
+        ))}
+      </div>
+    );
+  }
+  const placements = answer.placements || [];
+  return (
+    <div className="student-matrix">
+      {items.map((item, itemIndex) => (
+        <fieldset key={item}>
+          <legend>{item}</legend>
+          <div role="radiogroup" aria-label={item}>
+            {MATRIX_QUADRANTS.map((quadrant) => (
+              <HapticButton
+                key={quadrant}
+                type="button"
+                depth="compact"
+                role="radio"
+                aria-checked={placements[itemIndex] === quadrant}
+                disabled={disabled}
+                className={placements[itemIndex] === quadrant ? 'is-selected' : ''}
+                onClick={() => {
+                  const next = items.map((_, index) => placements[index] ?? -1);
+                  next[itemIndex] = quadrant;
+                  onChange({ placements: next });
+                }}
+              >{matrixQuadrantLabel(interaction.matrixAxes, quadrant)}</HapticButton>
+            ))}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
+
+function StudentHotspotResponse({ interaction, point, disabled, onChange }: {
+  interaction: NonNullable<LessonDisplayState['activeInteraction']>;
+  point: HotspotPoint | null;
+  disabled: boolean;
+  onChange: (point: HotspotPoint) => void;
+}) {
+  const image = interaction.hotspotImage;
+  if (!image) return <p className="student-hotspot-missing">The exhibit is on the projector. Look up and answer when your instructor asks.</p>;
+  return (
+    <button
+      type="button"
+      className={`student-hotspot ${point ? 'has-point' : ''}`}
+      style={{ aspectRatio: `${image.width} / ${image.height}`, '--hotspot-ratio': image.width / image.height } as CSSProperties}
+      disabled={disabled}
+      aria-label={point ? `Your tap is at ${Math.round(point.x * 100)}% across and ${Math.round(point.y * 100)}% down. Tap again to move it.` : `Tap a point on ${image.alt || 'the exhibit'}`}
+      onClick={(event) => {
+        const bounds = event.currentTarget.getBoundingClientRect();
+        // Keyboard activation has no pointer position, so it places the tap in the centre.
+        const centred = event.detail === 0;
+        onChange(normalizeHotspotPoint(
+          centred ? 0.5 : (event.clientX - bounds.left) / bounds.width,
+          centred ? 0.5 : (event.clientY - bounds.top) / bounds.height,
+        ));
+        triggerStudentHaptic('selection');
+      }}
+    >
+      <Image src={image.url} alt="" fill sizes="100vw" draggable={false} unoptimized />
+      {point && <i style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }} aria-hidden="true" />}
+    </button>
+  );
+}
+
+function StudentDebateBoard({ interaction, results, side, ownArgumentIds, votedArgumentIds, draft, posting, error, onDraft, onPost, onToggleVote }: {
+  interaction: LiveInteraction;
+  results: NonNullable<LessonDisplayState['interactionResults']>;
+  side: DebateSide;
+  ownArgumentIds: string[];
+  votedArgumentIds: string[];
+  draft: string;
+  posting: boolean;
+  error: string;
+  onDraft: (text: string) => void;
+  onPost: () => void;
+  onToggleVote: (argumentId: string) => void;
+}) {
+  const sides = debateSideLabels(interaction.options);
+  const items = results.debateArguments || [];
+  const canPost = ownArgumentIds.length < MAX_DEBATE_ARGUMENTS_PER_STUDENT;
+  return (
+    <>
+      <div className="student-interaction-meta">
+        <span className="student-interaction-type-icon"><Users size={16} /></span>
+        <div className="student-kicker">{interaction.label} · Step 2 of 3</div>
+      </div>
+      <MarkdownContent heading className="student-interaction-question" markdown={interaction.prompt} />
+      <div className={`student-debate-side is-side-${side}`}><small>You are arguing</small><strong>{sides[side]}</strong></div>
+      {canPost ? (
+        <>
+          <label className="student-word-answer student-debate-compose">
+            <span>Your argument</span>
+            <textarea value={draft} onChange={(event) => onDraft(event.target.value.slice(0, MAX_DEBATE_ARGUMENT_LENGTH))} rows={3} maxLength={MAX_DEBATE_ARGUMENT_LENGTH} placeholder={`Make the case for ${sides[side].toLocaleLowerCase()}`} aria-label="Your argument" />
+            <small>{draft.length}/{MAX_DEBATE_ARGUMENT_LENGTH}</small>
+          </label>
+          <div className="student-response-action is-ready">
+            <HapticButton type="button" className={`student-send-response ${posting ? 'is-sending' : ''}`} hapticTone="action" disabled={posting || !draft.trim()} onClick={onPost}>
+              <span>{posting ? 'Posting…' : 'Post argument'}</span><Send size={17} />
+            </HapticButton>
+          </div>
+        </>
+      ) : <p className="student-debate-limit">You have posted {MAX_DEBATE_ARGUMENTS_PER_STUDENT} arguments. Upvote the ones that land.</p>}
+      {error && <div className="student-response-error" role="alert">{error}</div>}
+      <section className="student-question-commons student-debate-board" aria-label="Argument board">
+        {items.length ? items.map((item) => {
+          const voted = votedArgumentIds.includes(item.id);
+          return (
+            <article key={item.id} className={`is-side-${item.side} ${item.id === results.featuredArgumentId ? 'is-featured' : ''}`}>
+              {ownArgumentIds.includes(item.id) ? <span className="student-own-question"><Check size={16} /> Yours</span> : (
+                <HapticButton
+                  type="button"
+                  depth="compact"
+                  className={voted ? 'is-voted' : ''}
+                  aria-pressed={voted}
+                  aria-label={`${voted ? 'Remove upvote from' : 'Upvote'} argument. ${item.votes} ${item.votes === 1 ? 'vote' : 'votes'}.`}
+                  onClick={() => onToggleVote(item.id)}
+                >
+                  <ArrowUp size={21} />
+                  <strong>{item.votes}</strong>
+                </HapticButton>
+              )}
+              <div><p>{item.text}</p><small>{sides[item.side]}{item.id === results.featuredArgumentId ? ' · On the projector' : ''}</small></div>
+            </article>
+          );
+        }) : <p className="student-debate-empty">No arguments yet. Be the first to make the case.</p>}
+      </section>
+      <div className="student-private-line"><ShieldCheck size={16} /> Arguments are anonymous to classmates.</div>
+    </>
+  );
+}
+
 function StudentPostSubmit({
   interaction,
   answer,
@@ -321,8 +548,20 @@ function StudentPostSubmit({
       {revealed && (interaction.type === 'quiz' || interaction.type === 'peer-learning') && (
         <div className="student-answer-reveal"><Check size={17} /><span><strong>The answer is out.</strong> {interaction.explanation || 'Look up for the class explanation.'}</span></div>
       )}
+      {revealed && interaction.type === 'estimate' && typeof interaction.estimateAnswer === 'number' && (
+        <div className="student-answer-reveal"><Check size={17} /><span><strong>The true value is {formatEstimate(interaction.estimateAnswer, interaction.estimateUnit)}.</strong> Look up to see where the class landed.</span></div>
+      )}
+      {revealed && interaction.type === 'hotspot' && Boolean(interaction.hotspotRegions?.length) && (
+        <div className="student-answer-reveal"><Check size={17} /><span><strong>The correct regions are on the projector.</strong> Look up to see where the class tapped.</span></div>
+      )}
 
-      {interaction.type === 'peer-learning' ? (
+      {interaction.type === 'debate' ? (
+        <section className="student-waiting-activity student-peer-moment" aria-labelledby="debate-moment-title">
+          <div className="student-kicker">Debate · Step {revealed || phase === 'respond-again' ? '3' : '1'} of 3</div>
+          <h2 id="debate-moment-title">{revealed ? 'See where the room moved.' : phase === 'respond-again' ? 'Your closing vote is in.' : 'Your opening vote is in.'}</h2>
+          <p>{revealed ? 'Look up for the stance before and after the arguments.' : phase === 'respond-again' ? 'The projector will show how far the room moved.' : 'Next, the room splits into two sides and argues the case.'}</p>
+        </section>
+      ) : interaction.type === 'peer-learning' ? (
         <section className="student-waiting-activity student-peer-moment" aria-labelledby="peer-moment-title">
           <div className="student-kicker">Peer learning · Step {revealed ? '3' : phase === 'discuss' ? '2' : phase === 'respond-again' ? '3' : '1'} of 3</div>
           <h2 id="peer-moment-title">{revealed ? 'See what changed in the room.' : phase === 'discuss' ? 'Turn to someone nearby.' : phase === 'respond-again' ? 'Your second answer is in.' : 'Keep your first thought in mind.'}</h2>
@@ -539,6 +778,12 @@ function StudentQuestionSheet({
   );
 }
 
+const HOMEWORK_DUE_LABELS: Record<HomeworkDueState, string> = {
+  upcoming: 'Open',
+  'due-soon': 'Due soon',
+  overdue: 'Past due',
+};
+
 function StudentCourseHome({
   lessonState,
   rewards,
@@ -549,12 +794,14 @@ function StudentCourseHome({
   rewardsLoading,
   view,
   onViewChange,
+  homework,
   classEnded = false,
   embedded = false,
 }: {
   lessonState: LessonDisplayState;
   rewards: StudentRewardState;
   courseRewards: CourseReward[];
+  homework: Session[];
   requestStatuses: Record<string, RewardRequestStatus>;
   onRequestReward: (reward: CourseReward) => void;
   enableSocialRewards: boolean;
@@ -567,7 +814,7 @@ function StudentCourseHome({
   useEffect(() => {
     if (!enableSocialRewards) onViewChange('home');
   }, [enableSocialRewards, onViewChange]);
-  const learningMoments = Array.from(new Map(rewards.ledger.map((entry) => [
+  const learningMoments = Array.from(new Map(rewards.ledger.filter((entry) => entry.amount > 0).map((entry) => [
     entry.eventKey.replace(/:(response|prediction|correct|room-read)$/, ''),
     entry,
   ])).values());
@@ -580,6 +827,7 @@ function StudentCourseHome({
   const allRewardsUnlocked = courseRewards.length > 0 && !nextReward;
   const progress = nextReward ? Math.min(100, Math.round((rewards.seminarPoints / nextReward.pointsRequired) * 100)) : 0;
   const hasProgress = rewards.ledger.length > 0;
+  const now = new Date();
 
   return (
     <div className={`student-course-home ${embedded ? 'is-embedded' : ''}`}>
@@ -632,9 +880,23 @@ function StudentCourseHome({
               <i><b style={{ width: `${progress}%` }} /></i>
             </div> : enableSocialRewards && allRewardsUnlocked ? <div className="student-pilot-points"><Gift size={14} /><span><strong>Every course reward is unlocked.</strong> Open Rewards to review your options.</span></div> : enableSocialRewards ? <div className="student-pilot-points"><Gift size={14} /><span><strong>No course rewards yet.</strong> Rewards will appear when they are added to this course.</span></div> : <div className="student-pilot-points"><Lock size={14} /><span><strong>Points stay private.</strong> Join with your student number to connect them to this class.</span></div>}
           </section>
+          {homework.length > 0 && <section className="student-homework" aria-labelledby="student-homework-title">
+            <div className="student-section-title"><div><span>Case work</span><h2 id="student-homework-title">Due soon</h2></div><ClipboardCheck size={19} /></div>
+            <div>{homework.map((assignment) => {
+              if (!assignment.homework) return null;
+              const dueAt = homeworkDueAt(assignment.homework);
+              const dueState = homeworkDueState(dueAt, now);
+              return (
+                <Link key={assignment.id} href={`/session/${assignment.sessionCode}`}>
+                  <span><strong>{assignment.caseStudyTitle || assignment.title || 'Case study'}</strong><small>Due {dueAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</small></span>
+                  <em className={`is-${dueState}`}>{HOMEWORK_DUE_LABELS[dueState]}</em>
+                </Link>
+              );
+            })}</div>
+          </section>}
           {rewards.ledger.length > 0 && <section className="student-earned-activity" aria-labelledby="student-earned-title">
             <div className="student-section-title"><div><span>Recorded activity</span><h2 id="student-earned-title">Recent points</h2></div><span className="student-ripple-glyph is-large" aria-hidden="true"><i /><i /></span></div>
-            <div>{rewards.ledger.slice(0, 4).map((entry) => <article key={entry.id}><span>{entry.label}</span><strong>+{entry.amount} {entry.balance === 'score' ? 'class score' : 'points'}</strong></article>)}</div>
+            <div>{rewards.ledger.slice(0, 4).map((entry) => <article key={entry.id}><span>{entry.label}</span><strong>{entry.amount > 0 ? '+' : ''}{entry.amount} {entry.balance === 'score' ? 'class score' : 'points'}</strong></article>)}</div>
           </section>}
           {enableSocialRewards && !embedded && <div className="student-home-shortcuts">
             <HapticButton type="button" depth="compact" onClick={() => onViewChange('standing')}><Trophy size={17} /><span><small>Class standing</small><strong>No board published</strong></span><ArrowRight size={15} /></HapticButton>
@@ -778,6 +1040,13 @@ export default function StudentWelcomePage() {
   const [selectedMood, setSelectedMood] = useState<MoodKey | null>(null);
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
   const [writtenResponse, setWrittenResponse] = useState('');
+  const [structuredAnswer, setStructuredAnswer] = useState<StructuredAnswer>({});
+  const [hotspotPoint, setHotspotPoint] = useState<HotspotPoint | null>(null);
+  const [debateDraft, setDebateDraft] = useState('');
+  const [debatePosting, setDebatePosting] = useState(false);
+  const [debateError, setDebateError] = useState('');
+  const [ownDebateArgumentIds, setOwnDebateArgumentIds] = useState<string[]>([]);
+  const [debateVoteIds, setDebateVoteIds] = useState<string[]>([]);
   const [teamName, setTeamName] = useState('');
   const [teamDescription, setTeamDescription] = useState('');
   const [selectedTeamId, setSelectedTeamId] = useState('');
@@ -797,6 +1066,7 @@ export default function StudentWelcomePage() {
   const [studentDisplayName, setStudentDisplayName] = useState('');
   const [managedRewards, setManagedRewards] = useState<RewardDefinition[]>([]);
   const [managedRewardsLoading, setManagedRewardsLoading] = useState(false);
+  const [courseHomework, setCourseHomework] = useState<Session[]>([]);
   const [managedRequests, setManagedRequests] = useState<RewardRequest[]>([]);
   const [rewardRequestError, setRewardRequestError] = useState('');
   const [latestReward, setLatestReward] = useState<RewardLedgerEntry | null>(null);
@@ -825,6 +1095,7 @@ export default function StudentWelcomePage() {
   const responseScopeRef = useRef<string | null>(null);
   const pendingQuestionClaimsRef = useRef(new Set<string>());
   const demoQuestionClaimsRef = useRef(new Set<string>());
+  const recordedRewardKeysRef = useRef(new Set<string>());
   const hasReceivedRemoteStateRef = useRef(false);
   const lastRemoteStateAtRef = useRef(0);
   const lastRunIdRef = useRef<string | null>(null);
@@ -1202,10 +1473,51 @@ export default function StudentWelcomePage() {
 
   useEffect(() => {
     if (!rewardScope) return;
-    setRewardStateReady(false);
-    setRewardState(loadRewardState(rewardScope));
-    setRewardStateReady(true);
-  }, [rewardScope]);
+    if (!remoteSession) {
+      setRewardState(loadRewardState(rewardScope));
+      setRewardStateReady(true);
+      return;
+    }
+    // Live points come from the server ledger. A device that has linked before follows it straight away,
+    // even after class ends; linking again once the student number is known picks up a new phone.
+    let cancelled = false;
+    let following = '';
+    let stopLedger: (() => void) | undefined;
+    const follow = (ledgerId: string) => {
+      if (!ledgerId || ledgerId === following) return;
+      following = ledgerId;
+      stopLedger?.();
+      stopLedger = subscribeToStudentRewardLedger(ledgerId, (ledger, entries) => {
+        if (cancelled) return;
+        setRewardState((current) => rewardStateFromLedger(current, ledger, entries));
+        setRewardStateReady(true);
+      }, () => {
+        if (!cancelled) setRewardStateReady(true);
+      });
+    };
+    const remembered = rememberedRewardLedger(rewardScope);
+    if (remembered) follow(remembered);
+    else setRewardStateReady(true);
+    if (studentNumber) {
+      linkStudentRewardLedger(remoteSession)
+        .then(({ ledgerId, pending }) => {
+          if (cancelled) return;
+          if (pending) {
+            setRewardRequestError('Points for your student number were started on another device. Ask your instructor to approve this one to use them here.');
+            return;
+          }
+          rememberRewardLedger(rewardScope, ledgerId);
+          follow(ledgerId);
+        })
+        .catch(() => {
+          // Responses still work; points recorded on the server appear once the device links.
+        });
+    }
+    return () => {
+      cancelled = true;
+      stopLedger?.();
+    };
+  }, [remoteSession, rewardScope, studentNumber]);
 
   useEffect(() => {
     if (!remoteSession) {
@@ -1252,8 +1564,35 @@ export default function StudentWelcomePage() {
     return () => { cancelled = true; };
   }, [lessonState.session.courseCode, lessonState.session.courseId, remoteSession, studentNumber]);
 
-  const awardReward = useCallback((eventKey: string, balance: RewardBalance, amount: number, label: string) => {
-    if (remoteSession && lessonState.session.participationMode !== 'course-record') return;
+  useEffect(() => {
+    const courseId = lessonState.session.courseId;
+    if (!remoteSession || !courseId) {
+      setCourseHomework([]);
+      return;
+    }
+    let cancelled = false;
+    getCourseHomeworkStudent(courseId)
+      .then((assignments) => { if (!cancelled) setCourseHomework(assignments); })
+      .catch(() => { if (!cancelled) setCourseHomework([]); });
+    return () => { cancelled = true; };
+  }, [lessonState.session.courseId, remoteSession]);
+
+  const awardReward = useCallback((eventKey: string, balance: RewardBalance, amount: number, label: string, optionIndex?: number) => {
+    if (remoteSession) {
+      // The server works out the amount from the room; `balance`, `amount` and `label` only drive the demo.
+      const recordKey = `${remoteSession.sessionId}:${eventKey}`;
+      if (lessonState.session.participationMode !== 'course-record' || recordedRewardKeysRef.current.has(recordKey)) return;
+      recordedRewardKeysRef.current.add(recordKey);
+      recordStudentReward(remoteSession, eventKey, optionIndex)
+        .then((result) => {
+          if (result.created) setLatestReward(toRewardLedgerEntry(result.entry));
+        })
+        .catch((error: { code?: string }) => {
+          // Try again on the next trigger unless the server refused this event outright.
+          if (error?.code !== 'functions/failed-precondition') recordedRewardKeysRef.current.delete(recordKey);
+        });
+      return;
+    }
     setRewardState((current) => {
       const applied = applyReward(current, { eventKey, balance, amount, label });
       if (applied.entry) {
@@ -1273,7 +1612,7 @@ export default function StudentWelcomePage() {
     try {
       if (remoteSession) {
         const result = await claimStudentQuestionPoints(remoteSession.ownerUid, remoteSession.sessionId, type, questionId);
-        awardReward(`server:${remoteSession.sessionId}:${result.eventId}`, 'seminar', result.claim.amount, result.claim.label);
+        awardReward(`question:${result.eventId}`, 'seminar', result.claim.amount, result.claim.label);
         if (result.created) setQuestionRewardNotice({ amount: result.claim.amount, label: result.claim.label });
       } else if (!demoQuestionClaimsRef.current.has(rule.id)) {
         demoQuestionClaimsRef.current.add(rule.id);
@@ -1293,7 +1632,22 @@ export default function StudentWelcomePage() {
     try {
       stop = subscribeToStudentQuestionPointClaims(remoteSession.ownerUid, remoteSession.sessionId, (claims) => {
         Object.entries(claims).forEach(([eventId, claim]) => {
-          awardReward(`server:${remoteSession.sessionId}:${eventId}`, 'seminar', claim.amount, claim.label);
+          awardReward(`question:${eventId}`, 'seminar', claim.amount, claim.label);
+        });
+      });
+    } catch {
+      // The classroom connection will retry when the student session is ready.
+    }
+    return () => stop?.();
+  }, [awardReward, remoteSession]);
+
+  useEffect(() => {
+    if (!remoteSession) return;
+    let stop: (() => void) | undefined;
+    try {
+      stop = subscribeToStudentQuizAwards(remoteSession.ownerUid, remoteSession.sessionId, (awards) => {
+        Object.entries(awards).forEach(([eventId, award]) => {
+          awardReward(eventId, 'score', award.amount, award.label);
         });
       });
     } catch {
@@ -1323,20 +1677,21 @@ export default function StudentWelcomePage() {
     return () => window.clearTimeout(timeout);
   }, [latestReward]);
 
+  const anonymousPulse = lessonState.session.anonymousPulse === true;
   useEffect(() => {
     setSelectedMood(null);
     setSubmissionError('');
     if (remoteSession && lessonState.onboardingRunId) {
-      getStudentWelcomeResponse(remoteSession.ownerUid, remoteSession.sessionId, lessonState.onboardingRunId)
+      getStudentWelcomeResponse(remoteSession.ownerUid, remoteSession.sessionId, lessonState.onboardingRunId, anonymousPulse)
         .then((response) => {
           if (response) setSelectedMood(response.mood);
         })
         .catch(() => undefined);
     }
-  }, [lessonState.onboardingRunId, remoteSession]);
+  }, [anonymousPulse, lessonState.onboardingRunId, remoteSession]);
 
   const responseScope = `${remoteSession?.ownerUid || 'demo'}:${remoteSession?.sessionId || 'demo'}:${lessonState.interactionResults?.runId || 'none'}`;
-  const persistResponseDraft = useCallback((draft: Partial<{ selectedOption: number | null; writtenResponse: string; teamName: string; teamDescription: string; selectedTeamId: string }>) => {
+  const persistResponseDraft = useCallback((draft: Partial<{ selectedOption: number | null; writtenResponse: string; structuredAnswer: StructuredAnswer; hotspotPoint: HotspotPoint | null; teamName: string; teamDescription: string; selectedTeamId: string }>) => {
     const key = `classfully-response-draft:${responseScope}`;
     try {
       const current = JSON.parse(window.localStorage.getItem(key) || '{}');
@@ -1348,7 +1703,7 @@ export default function StudentWelcomePage() {
   useLayoutEffect(() => {
     if (responseScopeRef.current === responseScope) return;
     responseScopeRef.current = responseScope;
-    let draft: { selectedOption?: number | null; writtenResponse?: string; teamName?: string; teamDescription?: string; selectedTeamId?: string } = {};
+    let draft: { selectedOption?: number | null; writtenResponse?: string; structuredAnswer?: StructuredAnswer; hotspotPoint?: HotspotPoint | null; teamName?: string; teamDescription?: string; selectedTeamId?: string } = {};
     try {
       draft = JSON.parse(window.localStorage.getItem(`classfully-response-draft:${responseScope}`) || '{}');
     } catch {
@@ -1356,6 +1711,8 @@ export default function StudentWelcomePage() {
     }
     setSelectedOption(draft.selectedOption ?? null);
     setWrittenResponse(draft.writtenResponse || '');
+    setStructuredAnswer(structuredAnswerFrom(draft.structuredAnswer));
+    setHotspotPoint(isHotspotPoint(draft.hotspotPoint) ? draft.hotspotPoint : null);
     setTeamName(draft.teamName || '');
     setTeamDescription(draft.teamDescription || '');
     setSelectedTeamId(draft.selectedTeamId || '');
@@ -1373,7 +1730,9 @@ export default function StudentWelcomePage() {
         .then((response) => {
           if (!response) return;
           setSelectedOption(response.optionIndex ?? null);
-          setWrittenResponse(response.text || '');
+          setWrittenResponse(response.text || (typeof response.value === 'number' ? String(response.value) : ''));
+          setStructuredAnswer(structuredAnswerFrom(response));
+          setHotspotPoint(isHotspotPoint(response.point) ? response.point : null);
           setTeamName(response.teamName || '');
           setTeamDescription(response.teamDescription || '');
           setSelectedTeamId(response.teamId || '');
@@ -1387,7 +1746,9 @@ export default function StudentWelcomePage() {
         if (!storedResponse) return;
         const response = JSON.parse(storedResponse) as InteractionResponse & { submittedAt?: number };
         setSelectedOption(response.optionIndex ?? null);
-        setWrittenResponse(response.text || '');
+        setWrittenResponse(response.text || (typeof response.value === 'number' ? String(response.value) : ''));
+        setStructuredAnswer(structuredAnswerFrom(response));
+        setHotspotPoint(isHotspotPoint(response.point) ? response.point : null);
         setTeamName(response.teamName || '');
         setTeamDescription(response.teamDescription || '');
         setSelectedTeamId(response.teamId || '');
@@ -1401,7 +1762,7 @@ export default function StudentWelcomePage() {
 
   const availableTeamIds = lessonState.teams.map((team) => team.id).join('|');
   useEffect(() => {
-    if (lessonState.activeInteraction?.type !== 'group-work') return;
+    if (lessonState.activeInteraction?.type !== 'group-work' && lessonState.activeInteraction?.type !== 'debate') return;
     const teamStorageScope = lessonState.session.courseId || lessonState.session.rewardScopeId || lessonState.session.courseCode;
     const savedTeamId = window.localStorage.getItem(`classfully-team:${teamStorageScope}`) || '';
     if (availableTeamIds.split('|').includes(savedTeamId)) setSelectedTeamId(savedTeamId);
@@ -1423,6 +1784,90 @@ export default function StudentWelcomePage() {
     ).then(setSelectedQuestionVotes).catch(() => undefined);
   }, [questionIdsKey, remoteSession]);
 
+  // Arguments are posted under the opening vote's run, which stays current while the board is open.
+  const debateRunId = lessonState.activeInteraction?.type === 'debate' && lessonState.interactionResults?.phase === 'discuss'
+    ? lessonState.interactionResults.runId
+    : null;
+  const debateSide: DebateSide = lessonState.activeInteraction?.type === 'debate' && lessonState.interactionResults
+    ? debateSideFor(
+      studentAuth.currentUser?.uid || 'demo',
+      lessonState.interactionResults.debateSeed || lessonState.interactionResults.runId,
+      selectedTeamId,
+      lessonState.interactionResults.debateTeamSides,
+    )
+    : 0;
+  const debateArgumentIdsKey = (lessonState.interactionResults?.debateArguments || []).map((item) => item.id).join(',');
+
+  useEffect(() => {
+    if (!debateRunId) return;
+    setDebateDraft('');
+    setDebateError('');
+    setOwnDebateArgumentIds([]);
+    setDebateVoteIds([]);
+    if (!remoteSession) return;
+    let active = true;
+    getCurrentStudentDebateArguments(remoteSession.ownerUid, remoteSession.sessionId, debateRunId)
+      .then((items) => { if (active) setOwnDebateArgumentIds(items.map((item) => item.id)); })
+      .catch(() => undefined);
+    return () => { active = false; };
+  }, [debateRunId, remoteSession]);
+
+  useEffect(() => {
+    if (!remoteSession || !debateRunId || !debateArgumentIdsKey) return;
+    getStudentDebateVotes(remoteSession.ownerUid, remoteSession.sessionId, debateRunId, debateArgumentIdsKey.split(','))
+      .then(setDebateVoteIds)
+      .catch(() => undefined);
+  }, [debateArgumentIdsKey, debateRunId, remoteSession]);
+
+  const postDebateArgument = async () => {
+    const text = normalizeDebateArgument(debateDraft);
+    if (!debateRunId || !text || debatePosting) return;
+    setDebatePosting(true);
+    setDebateError('');
+    try {
+      let argumentId: string;
+      if (remoteSession) {
+        argumentId = (await submitStudentDebateArgument(remoteSession.ownerUid, remoteSession.sessionId, debateRunId, debateSide, text)).id;
+      } else {
+        argumentId = crypto.randomUUID();
+        channelRef.current?.postMessage({ type: 'student-debate-argument', runId: debateRunId, argument: { id: argumentId, side: debateSide, text, submittedAt: Date.now() } });
+      }
+      setOwnDebateArgumentIds((current) => [...current, argumentId]);
+      setDebateDraft('');
+      awardReward(`${debateRunId}:debate-argument`, 'seminar', POINT_RULES.debateArgument, 'Argument posted');
+      confirmResponseHaptic();
+    } catch (error) {
+      failResponseHaptic();
+      setDebateError(getUserFacingError(error, 'Your argument was not posted. Check the connection and try again.'));
+    } finally {
+      setDebatePosting(false);
+    }
+  };
+
+  const toggleDebateVote = async (argumentId: string) => {
+    if (!debateRunId || ownDebateArgumentIds.includes(argumentId)) return;
+    const nextVoted = !debateVoteIds.includes(argumentId);
+    setDebateVoteIds((current) => nextVoted ? [...current, argumentId] : current.filter((id) => id !== argumentId));
+    setDebateError('');
+    try {
+      if (remoteSession) {
+        await setStudentDebateVote(remoteSession.ownerUid, remoteSession.sessionId, debateRunId, argumentId, nextVoted);
+      } else {
+        channelRef.current?.postMessage({ type: 'student-debate-vote', runId: debateRunId, argumentId, voterId: demoVoterIdRef.current, voted: nextVoted });
+      }
+    } catch {
+      setDebateVoteIds((current) => nextVoted ? current.filter((id) => id !== argumentId) : [...current, argumentId]);
+      setDebateError('Upvote not saved. Check the connection and try again.');
+    }
+  };
+
+  const featuredArgumentId = lessonState.interactionResults?.featuredArgumentId;
+  useEffect(() => {
+    const runId = lessonState.interactionResults?.runId;
+    if (!runId || !featuredArgumentId || !ownDebateArgumentIds.includes(featuredArgumentId)) return;
+    awardReward(`${runId}:debate-spotlight`, 'seminar', POINT_RULES.debateSpotlight, 'Argument on the projector');
+  }, [awardReward, featuredArgumentId, lessonState.interactionResults?.runId, ownDebateArgumentIds]);
+
   const submitMood = async (mood: MoodKey, origin?: HTMLElement) => {
     if (selectedMood || lessonState.onboardingStep !== 3) return;
     const moodOption = MOODS.find((option) => option.key === mood);
@@ -1436,6 +1881,7 @@ export default function StudentWelcomePage() {
           remoteSession.sessionId,
           lessonState.onboardingRunId,
           mood,
+          anonymousPulse,
         );
       } else {
         channelRef.current?.postMessage({ type: 'student-onboarding-response', mood });
@@ -1444,7 +1890,7 @@ export default function StudentWelcomePage() {
       completeTransport(transportId);
     } catch {
       const saved = remoteSession
-        ? await getStudentWelcomeResponse(remoteSession.ownerUid, remoteSession.sessionId, lessonState.onboardingRunId).catch(() => null)
+        ? await getStudentWelcomeResponse(remoteSession.ownerUid, remoteSession.sessionId, lessonState.onboardingRunId, anonymousPulse).catch(() => null)
         : null;
       if (saved) {
         setSelectedMood(saved.mood);
@@ -1456,6 +1902,19 @@ export default function StudentWelcomePage() {
     }
   };
 
+  // A ranking starts in a shuffled order so the first item listed does not lead the class result.
+  const structuredResponse: StructuredAnswer = lessonState.activeInteraction?.type === 'ranking' && !structuredAnswer.ranking
+    ? { ranking: optionDisplayOrder(lessonState.activeInteraction.options?.length || 0, true, `${studentAuth.currentUser?.uid || 'demo'}:${lessonState.interactionResults?.runId || 'none'}:ranking`) }
+    : structuredAnswer;
+  const updateStructuredAnswer = (answer: StructuredAnswer) => {
+    setStructuredAnswer(answer);
+    persistResponseDraft({ structuredAnswer: answer });
+  };
+  const updateHotspotPoint = (point: HotspotPoint) => {
+    setHotspotPoint(point);
+    persistResponseDraft({ hotspotPoint: point });
+  };
+
   const submitInteraction = async (origin?: HTMLElement) => {
     const interaction = lessonState.activeInteraction;
     const results = lessonState.interactionResults;
@@ -1468,7 +1927,13 @@ export default function StudentWelcomePage() {
       optionIndex: selectedOption ?? undefined,
       text: writtenResponse.trim() || undefined,
     };
-    if (interaction.type === 'team-formation') {
+    if (isStructuredInteractionType(interaction.type)) {
+      Object.assign(response, { optionIndex: undefined, text: undefined }, structuredAnswerFrom(structuredResponse));
+    } else if (interaction.type === 'estimate') {
+      Object.assign(response, { optionIndex: undefined, text: undefined, value: parseEstimate(writtenResponse) ?? undefined });
+    } else if (interaction.type === 'hotspot') {
+      Object.assign(response, { optionIndex: undefined, text: undefined, point: hotspotPoint ?? undefined });
+    } else if (interaction.type === 'team-formation') {
       const existingTeam = lessonState.teams.find((team) => team.id === selectedTeamId);
       if (existingTeam) {
         response.teamId = existingTeam.id;
@@ -1496,6 +1961,12 @@ export default function StudentWelcomePage() {
       : '#6654e9';
     const transportLabel = interaction.type === 'team-formation'
       ? response.teamName || 'Your team'
+      : isStructuredInteractionType(interaction.type)
+      ? interaction.type === 'ranking' ? 'Your ranking' : interaction.type === 'scale' ? 'Your ratings' : 'Your placements'
+      : interaction.type === 'estimate'
+      ? formatEstimate(response.value ?? 0, interaction.estimateUnit)
+      : interaction.type === 'hotspot'
+      ? 'Your tap'
       : selectedOption !== null
       ? interaction.options?.[selectedOption] || 'Your choice'
       : writtenResponse.trim() || 'Your response';
@@ -1504,7 +1975,9 @@ export default function StudentWelcomePage() {
     setIsSubmitting(true);
     try {
       if (remoteSession) {
-        const savedResponse = await submitStudentInteractionResponse(remoteSession.ownerUid, remoteSession.sessionId, response);
+        const savedResponse = interaction.type === 'quiz' || interaction.type === 'peer-learning'
+          ? await submitStudentQuizResponse(remoteSession.ownerUid, remoteSession.sessionId, response)
+          : await submitStudentInteractionResponse(remoteSession.ownerUid, remoteSession.sessionId, response);
         setResponseSubmittedAt(savedResponse.submittedAt || Date.now());
       } else {
         const submittedAt = Date.now();
@@ -1526,7 +1999,9 @@ export default function StudentWelcomePage() {
         : null;
       if (saved) {
         setSelectedOption(saved.optionIndex ?? null);
-        setWrittenResponse(saved.text || '');
+        setWrittenResponse(saved.text || (typeof saved.value === 'number' ? String(saved.value) : ''));
+        setStructuredAnswer(structuredAnswerFrom(saved));
+        setHotspotPoint(isHotspotPoint(saved.point) ? saved.point : null);
         setTeamName(saved.teamName || '');
         setTeamDescription(saved.teamDescription || '');
         setSelectedTeamId(saved.teamId || '');
@@ -1546,7 +2021,7 @@ export default function StudentWelcomePage() {
     if (prediction !== null || lessonState.interactionResults?.revealed) return;
     setPrediction(optionIndex);
     const runId = lessonState.interactionResults?.runId;
-    if (runId) awardReward(`${runId}:prediction`, 'seminar', POINT_RULES.privatePrediction, 'Private prediction');
+    if (runId) awardReward(`${runId}:prediction`, 'seminar', POINT_RULES.privatePrediction, 'Private prediction', optionIndex);
   };
 
   useEffect(() => {
@@ -1554,7 +2029,8 @@ export default function StudentWelcomePage() {
     const results = lessonState.interactionResults;
     if (!interactionSubmitted || !interaction || !results?.revealed) return;
 
-    if ((interaction.type === 'quiz' || interaction.type === 'peer-learning') && selectedOption === interaction.correctOptionIndex) {
+    // Live classes are scored on the server when the answer is revealed; only the demo room scores here.
+    if (!remoteSession && (interaction.type === 'quiz' || interaction.type === 'peer-learning') && selectedOption === interaction.correctOptionIndex) {
       awardReward(`${results.runId}:correct`, 'score', interaction.type === 'peer-learning' ? POINT_RULES.strongSecondAnswer : POINT_RULES.correctQuizAnswer, interaction.type === 'peer-learning' ? 'Strong second answer' : 'Correct knowledge check');
       if (interaction.type === 'quiz' && interaction.speedBonusEnabled && responseSubmittedAt) {
         const speedBonus = calculateSpeedBonus(
@@ -1567,13 +2043,23 @@ export default function StudentWelcomePage() {
       }
     }
 
+    if (interaction.type === 'estimate' && interaction.estimateProximityPoints && typeof interaction.estimateAnswer === 'number') {
+      const estimate = parseEstimate(writtenResponse);
+      const rule = estimate === null ? null : getEstimateProximityRule(estimate, interaction.estimateAnswer);
+      if (rule) awardReward(`${results.runId}:estimate`, 'seminar', rule.amount, rule.label);
+    }
+
+    if (interaction.type === 'hotspot' && hotspotPoint && isHotspotHit(hotspotPoint, interaction.hotspotRegions)) {
+      awardReward(`${results.runId}:hotspot`, 'seminar', POINT_RULES.hotspotHit, 'Hotspot on target');
+    }
+
     if (interaction.type === 'poll' && prediction !== null && results.optionCounts.length) {
       const leadingCount = Math.max(...results.optionCounts);
       if (results.optionCounts[prediction] === leadingCount) {
         awardReward(`${results.runId}:room-read`, 'seminar', POINT_RULES.roomRead, 'Room read');
       }
     }
-  }, [awardReward, interactionSubmitted, lessonState.activeInteraction, lessonState.interactionResults, prediction, responseSubmittedAt, selectedOption]);
+  }, [awardReward, hotspotPoint, interactionSubmitted, lessonState.activeInteraction, lessonState.interactionResults, prediction, remoteSession, responseSubmittedAt, selectedOption, writtenResponse]);
 
   const requestReward = async (reward: CourseReward) => {
     setRewardRequestError('');
@@ -1581,15 +2067,7 @@ export default function StudentWelcomePage() {
       const managedReward = managedRewards.find((item) => item.id === reward.id);
       if (!managedReward || !studentNumber) return;
       try {
-        await requestManagedReward({
-          teacherId: remoteSession.ownerUid,
-          courseId: managedReward.courseId,
-          courseCode: managedReward.courseCode,
-          studentNumber,
-          studentDisplayName,
-          reward: managedReward,
-          pointsAtRequest: rewardState.seminarPoints,
-        });
+        await requestManagedReward(remoteSession, managedReward.id);
         setManagedRequests(await getStudentRewardRequests(remoteSession.ownerUid, managedReward.courseId));
         confirmResponseHaptic();
       } catch (requestError) {
@@ -1738,17 +2216,32 @@ export default function StudentWelcomePage() {
     rewardsLoading: remoteSession ? managedRewardsLoading : false,
     view: courseView,
     onViewChange: setCourseView,
+    homework: courseHomework,
   };
   const activePromptLength = markdownToPlainText(lessonState.activeInteraction?.prompt || '').length;
   const promptDensityClass = activePromptLength > 110 ? 'is-very-long' : activePromptLength > 70 ? 'is-long' : '';
+  const estimateValue = lessonState.activeInteraction?.type === 'estimate' ? parseEstimate(writtenResponse) : null;
   const responseReady = Boolean(
     lessonState.activeInteraction?.type === 'team-formation'
       ? selectedTeamId || (teamName.trim().length >= 2 && (!lessonState.activeInteraction.requireTeamTag || selectedOption !== null))
       : lessonState.activeInteraction?.type === 'group-work' && lessonState.teams.length
         ? selectedTeamId && writtenResponse.trim()
-        : lessonState.activeInteraction?.options?.length ? selectedOption !== null : writtenResponse.trim(),
+        : lessonState.activeInteraction && isStructuredInteractionType(lessonState.activeInteraction.type)
+          ? isCompleteStructuredAnswer(lessonState.activeInteraction, structuredResponse)
+        : lessonState.activeInteraction?.type === 'estimate'
+          ? estimateValue !== null && isEstimateInBounds(lessonState.activeInteraction, estimateValue)
+        : lessonState.activeInteraction?.type === 'hotspot'
+          ? hotspotPoint !== null
+          : lessonState.activeInteraction?.options?.length ? selectedOption !== null : writtenResponse.trim(),
   );
-  const selectedAnswerLetter = selectedOption !== null ? String.fromCharCode(65 + selectedOption) : '';
+  // Shuffled bank questions keep the original option index in responses; only the display order changes.
+  const optionOrder = optionDisplayOrder(
+    lessonState.activeInteraction?.options?.length || 0,
+    lessonState.activeInteraction?.shuffleOptions,
+    `${studentAuth.currentUser?.uid || 'demo'}:${lessonState.interactionResults?.runId || 'none'}`,
+  );
+  const displayedOptions = optionOrder.map((index, position) => ({ index, position, option: lessonState.activeInteraction?.options?.[index] || '' }));
+  const selectedAnswerLetter = selectedOption !== null && optionOrder.includes(selectedOption) ? String.fromCharCode(65 + optionOrder.indexOf(selectedOption)) : '';
   const selectedAnswerText = selectedOption !== null ? lessonState.activeInteraction?.options?.[selectedOption] : '';
   const responseActionLabel = isSubmitting
     ? 'Sending response'
@@ -1760,7 +2253,15 @@ export default function StudentWelcomePage() {
         ? selectedTeamId ? `Send for ${lessonState.teams.find((team) => team.id === selectedTeamId)?.name || 'team'}` : lessonState.teams.length ? 'Send team response' : 'Send group response'
         : lessonState.activeInteraction?.type === 'word-cloud'
           ? 'Add to word cloud'
-          : 'Send response';
+          : lessonState.activeInteraction?.type === 'ranking'
+            ? 'Send ranking'
+          : lessonState.activeInteraction?.type === 'estimate'
+            ? estimateValue === null ? 'Enter a number' : responseReady ? 'Send estimate' : 'Outside the allowed range'
+          : lessonState.activeInteraction?.type === 'hotspot'
+            ? hotspotPoint ? 'Send tap' : 'Tap the exhibit'
+            : lessonState.activeInteraction?.type === 'scale' || lessonState.activeInteraction?.type === 'matrix'
+              ? responseReady ? 'Send answers' : 'Answer every item'
+              : 'Send response';
 
   useEffect(() => {
     if (!responseReady || interactionSubmitted) return;
@@ -1878,10 +2379,24 @@ export default function StudentWelcomePage() {
 
         {!remoteUnavailable && step === 0 && lessonState.activeInteraction && lessonState.interactionResults && (
           <div className="student-interaction-state">
-            {interactionSubmitted ? (
+            {debateRunId && lessonState.activeInteraction.type === 'debate' ? (
+              <StudentDebateBoard
+                interaction={lessonState.activeInteraction}
+                results={lessonState.interactionResults}
+                side={debateSide}
+                ownArgumentIds={ownDebateArgumentIds}
+                votedArgumentIds={debateVoteIds}
+                draft={debateDraft}
+                posting={debatePosting}
+                error={debateError}
+                onDraft={setDebateDraft}
+                onPost={postDebateArgument}
+                onToggleVote={toggleDebateVote}
+              />
+            ) : interactionSubmitted ? (
               <StudentPostSubmit
                 interaction={lessonState.activeInteraction}
-                answer={lessonState.activeInteraction.type === 'team-formation' ? lessonState.teams.find((team) => team.id === selectedTeamId)?.name || teamName || 'Team saved' : lessonState.activeInteraction.options?.[selectedOption ?? -1] || writtenResponse || 'Response saved'}
+                answer={lessonState.activeInteraction.type === 'team-formation' ? lessonState.teams.find((team) => team.id === selectedTeamId)?.name || teamName || 'Team saved' : lessonState.activeInteraction.type === 'ranking' ? `${lessonState.activeInteraction.options?.[structuredResponse.ranking?.[0] ?? -1] || 'Ranking'} first` : isStructuredInteractionType(lessonState.activeInteraction.type) ? 'Answers saved' : lessonState.activeInteraction.type === 'estimate' && estimateValue !== null ? formatEstimate(estimateValue, lessonState.activeInteraction.estimateUnit) : lessonState.activeInteraction.type === 'hotspot' ? 'Tap saved' : lessonState.activeInteraction.options?.[selectedOption ?? -1] || writtenResponse || 'Response saved'}
                 questions={lessonState.questions}
                 selectedQuestionVotes={selectedQuestionVotes}
                 ownQuestionIds={ownQuestionIds}
@@ -1934,7 +2449,7 @@ export default function StudentWelcomePage() {
                   <div className="student-kicker">{lessonState.activeInteraction.label} · {lessonState.interactionResults.phase === 'respond-again' ? 'Answer again' : 'Live now'}</div>
                 </div>
                 <MarkdownContent heading className={`student-interaction-question ${promptDensityClass}`} markdown={lessonState.activeInteraction.prompt} />
-                <p>{lessonState.activeInteraction.type === 'team-formation' ? 'Choose your team. If it is not here yet, one person can create it.' : lessonState.activeInteraction.type === 'group-work' ? lessonState.teams.length ? 'Choose your team, then have one person send the response.' : `Work in a group of about ${lessonState.activeInteraction.groupSize || 4}. Choose one note-taker to send your group’s response.` : lessonState.activeInteraction.type === 'word-cloud' ? 'Send one word or a short phrase. Repeated answers will grow together on the projector.' : lessonState.interactionResults.phase === 'respond-again' ? 'Choose again. It is fine to keep your answer or change it.' : lessonState.activeInteraction.options?.length ? 'Choose one response.' : 'Write a short response, then send it to the class.'}</p>
+                <p>{lessonState.activeInteraction.type === 'team-formation' ? 'Choose your team. If it is not here yet, one person can create it.' : lessonState.activeInteraction.type === 'group-work' ? lessonState.teams.length ? 'Choose your team, then have one person send the response.' : `Work in a group of about ${lessonState.activeInteraction.groupSize || 4}. Choose one note-taker to send your group’s response.` : lessonState.activeInteraction.type === 'word-cloud' ? 'Send one word or a short phrase. Repeated answers will grow together on the projector.' : lessonState.activeInteraction.type === 'ranking' ? 'Move each item up or down until the order is right.' : lessonState.activeInteraction.type === 'scale' ? 'Rate each statement.' : lessonState.activeInteraction.type === 'matrix' ? 'Choose a quadrant for each item.' : lessonState.activeInteraction.type === 'estimate' ? 'Give your best estimate as a number. Shorthand such as 4.5k or 2m works.' : lessonState.activeInteraction.type === 'hotspot' ? 'Tap the exhibit where you think the answer is. Tap again to move your marker.' : lessonState.activeInteraction.type === 'debate' ? lessonState.interactionResults.phase === 'respond-again' ? 'You have heard both sides. Vote for where you stand now.' : `Vote for what you actually think. You will argue ${debateSideLabels(lessonState.activeInteraction.options)[debateSide].toLocaleLowerCase()} next.` : lessonState.interactionResults.phase === 'respond-again' ? 'Choose again. It is fine to keep your answer or change it.' : lessonState.activeInteraction.options?.length ? 'Choose one response.' : 'Write a short response, then send it to the class.'}</p>
                 {lessonState.activeInteraction.type === 'quiz' && lessonState.activeInteraction.speedBonusEnabled && <div className="student-speed-score"><Timer size={17} /><div><strong>Correct answer: {POINT_RULES.correctQuizAnswer} points</strong><span>Answer within {lessonState.activeInteraction.speedBonusSeconds || 40} seconds for up to {lessonState.activeInteraction.maxSpeedBonusPoints || 4} more.</span></div></div>}
 
                 {lessonState.activeInteraction.type === 'team-formation' ? (
@@ -1947,35 +2462,45 @@ export default function StudentWelcomePage() {
                       {Boolean(lessonState.activeInteraction.teamTags?.length) && <fieldset><legend>Choose your focus</legend><div className="student-team-tags">{lessonState.activeInteraction.teamTags?.map((tag, index) => <HapticButton key={tag} type="button" className={selectedOption === index ? 'is-selected' : ''} aria-pressed={selectedOption === index} onClick={() => { setSelectedOption(index); persistResponseDraft({ selectedOption: index }); }}>{tag}{selectedOption === index && <Check size={16} />}</HapticButton>)}</div></fieldset>}
                     </div>}
                   </div>
+                ) : isStructuredInteractionType(lessonState.activeInteraction.type) ? (
+                  <StudentStructuredResponse interaction={lessonState.activeInteraction} answer={structuredResponse} disabled={!lessonState.interactionResults?.open} onChange={updateStructuredAnswer} />
                 ) : lessonState.activeInteraction.options?.length ? (
                   <div className="student-interaction-options" role="radiogroup" aria-label={markdownToPlainText(lessonState.activeInteraction.prompt)}>
-                    {lessonState.activeInteraction.options.map((option, index) => (
+                    {displayedOptions.map(({ option, index, position }) => (
                       <HapticButton
                         key={option}
                         type="button"
                         role="radio"
                         aria-checked={selectedOption === index}
                         disabled={!lessonState.interactionResults?.open}
-                        tabIndex={selectedOption === index || (selectedOption === null && index === 0) ? 0 : -1}
+                        tabIndex={selectedOption === index || (selectedOption === null && position === 0) ? 0 : -1}
                         className={selectedOption === index ? 'is-selected' : ''}
-                        style={{ '--option-color': OPTION_COLORS[index % OPTION_COLORS.length] } as CSSProperties}
+                        style={{ '--option-color': OPTION_COLORS[position % OPTION_COLORS.length] } as CSSProperties}
                         onClick={() => { setSelectedOption(index); persistResponseDraft({ selectedOption: index }); }}
                         onKeyDown={(event) => {
                           if (!['ArrowDown', 'ArrowRight', 'ArrowUp', 'ArrowLeft'].includes(event.key)) return;
                           event.preventDefault();
                           const direction = event.key === 'ArrowDown' || event.key === 'ArrowRight' ? 1 : -1;
-                          const optionCount = lessonState.activeInteraction?.options?.length ?? 1;
-                          const nextIndex = (index + direction + optionCount) % optionCount;
+                          const nextPosition = (position + direction + optionOrder.length) % optionOrder.length;
+                          const nextIndex = optionOrder[nextPosition];
                           setSelectedOption(nextIndex);
                           persistResponseDraft({ selectedOption: nextIndex });
                           const buttons = event.currentTarget.parentElement?.querySelectorAll<HTMLButtonElement>('[role="radio"]');
-                          buttons?.[nextIndex]?.focus();
+                          buttons?.[nextPosition]?.focus();
                         }}
                       >
-                        <span>{String.fromCharCode(65 + index)}</span><strong>{option}</strong>{selectedOption === index && <Check size={18} />}
+                        <span>{String.fromCharCode(65 + position)}</span><strong>{option}</strong>{selectedOption === index && <Check size={18} />}
                       </HapticButton>
                     ))}
                   </div>
+                ) : lessonState.activeInteraction.type === 'hotspot' ? (
+                  <StudentHotspotResponse interaction={lessonState.activeInteraction} point={hotspotPoint} disabled={!lessonState.interactionResults?.open} onChange={updateHotspotPoint} />
+                ) : lessonState.activeInteraction.type === 'estimate' ? (
+                  <label className="student-word-answer student-estimate-answer">
+                    <span>Your estimate{lessonState.activeInteraction.estimateUnit ? ` · ${lessonState.activeInteraction.estimateUnit}` : ''}</span>
+                    <input value={writtenResponse} onChange={(event) => { const value = event.target.value.slice(0, 24); setWrittenResponse(value); persistResponseDraft({ writtenResponse: value }); }} disabled={!lessonState.interactionResults?.open} maxLength={24} inputMode="decimal" placeholder="0" aria-label="Your estimate" autoComplete="off" />
+                    <small>{estimateValue !== null && writtenResponse.trim() !== String(estimateValue) ? formatEstimate(estimateValue, lessonState.activeInteraction.estimateUnit) : estimateRangeLabel(lessonState.activeInteraction)}</small>
+                  </label>
                 ) : lessonState.activeInteraction.type === 'word-cloud' ? (
                   <label className="student-word-answer">
                     <span>One word or short phrase</span>
@@ -2037,7 +2562,9 @@ export default function StudentWelcomePage() {
               <article><span><MessageCircle size={21} /></span><div><strong>Ask or upvote</strong><small>Surface a question without interrupting.</small></div></article>
               <article><span><Activity size={21} /></span><div><strong>Signal the pace</strong><small>Let the instructor know you need a pause.</small></div></article>
             </div>
-            <div className="student-privacy-note"><Lock size={16} /><span><strong>Your pulse response stays private.</strong> The projector shows class totals only.</span></div>
+            <div className="student-privacy-note"><Lock size={16} />{anonymousPulse
+              ? <span><strong>Your pulse is anonymous.</strong> Only class totals are kept, and they appear once {lessonState.session.pulseMinimum} people answer.</span>
+              : <span><strong>Your pulse response stays private.</strong> The projector shows class totals only.</span>}</div>
           </div>
         )}
 
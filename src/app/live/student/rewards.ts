@@ -1,4 +1,5 @@
-import type { RewardKind } from '@/types';
+import { estimateError } from '@/lib/numeric-estimates';
+import type { RewardKind, RewardLedger, RewardLedgerEntryRecord } from '@/types';
 
 export type RewardBalance = 'seminar' | 'score';
 
@@ -46,6 +47,12 @@ export const POINT_RULES = {
     quiz: 2,
     'peer-learning': 2,
     'word-cloud': 2,
+    ranking: 2,
+    scale: 2,
+    matrix: 2,
+    estimate: 2,
+    hotspot: 2,
+    debate: 2,
     'open-response': 3,
     'group-work': 5,
   },
@@ -53,6 +60,15 @@ export const POINT_RULES = {
   roomRead: 3,
   correctQuizAnswer: KNOWLEDGE_CHECK_CORRECT_POINTS,
   strongSecondAnswer: 6,
+  hotspotHit: 3,
+  debateArgument: 1,
+  debateSpotlight: 3,
+  /** Closest band first; an estimate earns the points of the first band it falls within. */
+  estimateProximity: [
+    { withinPercent: 5, amount: 5, label: 'Estimate within 5%' },
+    { withinPercent: 15, amount: 3, label: 'Estimate within 15%' },
+    { withinPercent: 30, amount: 1, label: 'Estimate within 30%' },
+  ],
   questions: {
     asked: { id: 'question-asked', amount: 1, label: 'Asked a question' },
     supported: { id: 'question-upvotes-2', amount: 2, label: 'Question supported by classmates', threshold: 2 },
@@ -71,6 +87,11 @@ export function getParticipationPoints(type: string) {
   return POINT_RULES.participation[type as keyof typeof POINT_RULES.participation] || 0;
 }
 
+export function getEstimateProximityRule(value: number, answer: number) {
+  const error = estimateError(value, answer) * 100;
+  return POINT_RULES.estimateProximity.find((band) => error <= band.withinPercent) || null;
+}
+
 export function createInitialRewardState(): StudentRewardState {
   return {
     seminarPoints: 0,
@@ -83,6 +104,7 @@ export function createInitialRewardState(): StudentRewardState {
   };
 }
 
+// Live classes keep points in the server ledger; only the demo room still keeps them in this browser.
 function storageKey(scope: string) {
   // Demo builds previously seeded invented progress. Keep demo storage on a new
   // key so those values cannot be mistaken for student activity.
@@ -115,6 +137,44 @@ export function saveRewardState(scope: string, state: StudentRewardState) {
   window.localStorage.setItem(storageKey(scope), JSON.stringify(state));
 }
 
+const ledgerStorageKey = (scope: string) => `classfully-reward-ledger:${scope}`;
+
+/** Remembers which server ledger this device is linked to, so the balance still loads after the class ends. */
+export function rememberRewardLedger(scope: string, ledgerId: string) {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(ledgerStorageKey(scope), ledgerId);
+}
+
+export function rememberedRewardLedger(scope: string) {
+  if (typeof window === 'undefined') return '';
+  return window.localStorage.getItem(ledgerStorageKey(scope)) || '';
+}
+
+export function toRewardLedgerEntry(entry: Pick<RewardLedgerEntryRecord, 'id' | 'eventKey' | 'balance' | 'amount' | 'label'> & { createdAt: RewardLedgerEntryRecord['createdAt'] | number }): RewardLedgerEntry {
+  return {
+    id: entry.id,
+    eventKey: entry.eventKey,
+    balance: entry.balance,
+    amount: entry.amount,
+    label: entry.label,
+    createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : entry.createdAt?.toMillis?.() || 0,
+  };
+}
+
+/** The device's view of the server ledger. Balances come from the ledger; the alias and runs stay local. */
+export function rewardStateFromLedger(
+  current: StudentRewardState,
+  ledger: Pick<RewardLedger, 'seminarPoints' | 'classScore'> | null,
+  entries: RewardLedgerEntryRecord[],
+): StudentRewardState {
+  return {
+    ...current,
+    seminarPoints: ledger?.seminarPoints ?? 0,
+    classScore: ledger?.classScore ?? 0,
+    ledger: entries.map(toRewardLedgerEntry),
+  };
+}
+
 export function applyReward(
   state: StudentRewardState,
   reward: Omit<RewardLedgerEntry, 'id' | 'createdAt'>,
@@ -25,7 +25,7 @@ const sections = [
   {
     icon: ShieldCheck,
     title: 'Optional Class Pulse prompts',
-    content: 'Personal pulse questions are optional. You can choose “Prefer not to say” or wait without answering. They should be used to adjust teaching, never for grades, rewards, discipline, or public rankings.',
+    content: 'Personal pulse questions are optional. You can choose “Prefer not to say” or wait without answering. They should be used to adjust teaching, never for grades, rewards, discipline, or public rankings. When a class uses the anonymous pulse, only class totals are kept and they are shown once enough people have answered.',
   },
   {
     icon: FileText,
@@ -35,7 +35,7 @@ const sections = [
   {
     icon: Trash2,
     title: 'Retention and deletion',
-    content: 'Classfully runs a daily cleanup that removes live classroom data 90 days after its last recorded update. Instructors can delete a session and its live attendance, response, vote, and presence data sooner. Reward requests follow the course retention period set by your university or instructor.',
+    content: 'Classfully runs a daily cleanup that removes live classroom data on the schedule your instructor sets for each kind of record, by default 90 days after its last recorded update. Instructors can delete a session and its live attendance, response, vote, and presence data sooner. Reward points and requests follow the course retention period set by your university or instructor.',
   },
   {
     icon: Scale,
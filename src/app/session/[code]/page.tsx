@@ -7,7 +7,7 @@ import { Timestamp } from 'firebase/firestore';
 import { studentAuth } from '@/lib/firebase/student-config';
 import { 
   getSessionByCodeStudent as getSessionByCode, 
-  getCaseStudyStudent as getCaseStudy, 
+  getCaseStudyForSessionStudent as getCaseStudyForSession,
   createStudentStudent as createStudent,
   getStudentByStudentIdStudent as getStudentByStudentId,
   joinSessionStudent as joinSession,
@@ -37,6 +37,7 @@ import {
   calculateAndUpdateOverallProgress
 } from '@/lib/firebase/student-firestore';
 import { normalizeStudentId } from '@/lib/utils';
+import { homeworkDueAt, homeworkSubmissionState, nextHomeworkRelease, withHomeworkReleases } from '@/lib/homework';
 import { getUserFacingError } from '@/lib/user-facing-error';
 
 interface StudentSessionPageProps {
@@ -253,24 +254,28 @@ export default function StudentSessionPage({ params }: StudentSessionPageProps)
           clearStoredSession(); // Clear stored session for inactive session
           return;
         }
+        console.log('LOAD: Fetching case study data...');
+        const caseStudyData = await getCaseStudyForSession(sessionData);
+
         // Handle legacy sessions that might not have releasedSections field
-        if (!sessionData.releasedSections) {
+        if (!sessionData.releasedSections && !sessionData.homework) {
           console.log('LEGACY: Session missing releasedSections, defaulting to all sections released');
           // For compatibility, release all sections initially for legacy sessions
-          const caseStudyData = sessionData.caseStudyId ? await getCaseStudy(sessionData.caseStudyId) : null;
           const totalSections = caseStudyData?.sections.length || 2;
           sessionData.releasedSections = Array.from({ length: totalSections }, (_, i) => i);
           sessionData.currentReleasedSection = totalSections - 1;
           console.log('LEGACY: Set released sections to:', sessionData.releasedSections);
         }
+        // Self-paced homework opens sections on its timetable rather than waiting for the instructor.
+        if (sessionData.homework && caseStudyData) {
+          Object.assign(sessionData, withHomeworkReleases(sessionData, caseStudyData.sections.length, new Date()));
+        }
         
         setSession(sessionData);
         
         // Track initial released sections to detect live releases later
         setInitialReleasedSections(sessionData.releasedSections || []);
         
-        console.log('LOAD: Fetching case study data...');
-        const caseStudyData = sessionData.caseStudyId ? await getCaseStudy(sessionData.caseStudyId) : null;
         if (!caseStudyData) {
           console.error('LOAD: Case study not found');
           setError('This activity is not available yet. Ask your instructor what to open next.');
@@ -356,7 +361,10 @@ export default function StudentSessionPage({ params }: StudentSessionPageProps)
   useEffect(() => {
     if (!session?.id || !['reading', 'review', 'waiting'].includes(step)) return;
 
-    const unsubscribe = subscribeToSessionStudent(session.id, (latestSession) => {
+    const unsubscribe = subscribeToSessionStudent(session.id, (snapshotSession) => {
+      const latestSession = snapshotSession && caseStudy
+        ? withHomeworkReleases(snapshotSession, caseStudy.sections.length, new Date())
+        : snapshotSession;
       if (latestSession?.releasedSections) {
         // Update local session state with latest released sections
         setSession(prev => prev ? {
@@ -373,7 +381,27 @@ export default function StudentSessionPage({ params }: StudentSessionPageProps)
     });
 
     return () => unsubscribe();
-  }, [session?.id, step, initialReleasedSections]);
+  }, [session?.id, step, initialReleasedSections, caseStudy]);
+
+  // Open the next timetabled homework section when its time arrives.
+  const nextScheduledRelease = session?.homework ? nextHomeworkRelease(session.homework, new Date())?.getTime() : undefined;
+  useEffect(() => {
+    if (!nextScheduledRelease || !caseStudy) return;
+    // setTimeout delays above about 24.8 days overflow, so wait in steps of at most a day.
+    const timeout = window.setTimeout(() => {
+      setSession((current) => {
+        if (!current) return current;
+        const next = withHomeworkReleases(current, caseStudy.sections.length, new Date());
+        const latestSection = next.releasedSections[next.releasedSections.length - 1];
+        if (next.releasedSections.length > current.releasedSections.length && latestSection !== undefined) {
+          setNewSectionIndex(latestSection);
+          setNewSectionAvailable(true);
+        }
+        return next;
+      });
+    }, Math.min(24 * 60 * 60 * 1000, Math.max(1000, nextScheduledRelease - Date.now())));
+    return () => window.clearTimeout(timeout);
+  }, [caseStudy, nextScheduledRelease]);
 
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -535,6 +563,10 @@ export default function StudentSessionPage({ params }: StudentSessionPageProps)
 
   const handleSubmitSection = async () => {
     if (!session || !caseStudy || !student) return;
+    if (session.homework && homeworkSubmissionState(session.homework, student.id, new Date()) === 'closed') {
+      setError('This assignment is past its due date and no longer accepts answers. Ask your instructor if you need an extension.');
+      return;
+    }
 
     const currentSectionData = caseStudy.sections[currentSection];
     setSubmitLoading(true);
@@ -544,18 +576,13 @@ export default function StudentSessionPage({ params }: StudentSessionPageProps)
         const response = currentResponses[question.id] || '';
         
         if (response.trim() || question.type === 'multiple-choice' || question.type === 'multiple-choice-feedback') {
-          // For multiple choice, calculate points automatically
-          let points: number | undefined;
+          // Choice answers are scored by Cloud Functions from the option picked; the client never sends points
+          let optionIndex: number | undefined;
           let responseText = response.trim();
           
-          if (question.type === 'multiple-choice' && question.correctAnswer !== undefined) {
+          if (question.type === 'multiple-choice' || question.type === 'multiple-choice-feedback') {
             const selectedIndex = parseInt(response);
-            points = selectedIndex === question.correctAnswer ? question.points : 0;
-            responseText = question.options?.[selectedIndex] || response;
-          } else if (question.type === 'multiple-choice-feedback') {
-            // For feedback questions, all answers are correct and get full points
-            const selectedIndex = parseInt(response);
-            points = question.points;
+            if (Number.isInteger(selectedIndex)) optionIndex = selectedIndex;
             responseText = question.options?.[selectedIndex] || response;
           }
 
@@ -569,7 +596,7 @@ export default function StudentSessionPage({ params }: StudentSessionPageProps)
             questionId: question.id,
             response: responseText,
             maxPoints: question.points,
-            ...(points !== undefined && { points })
+            ...(optionIndex !== undefined && { optionIndex })
           });
 
           // Response saved to Firestore only - teacher dashboard will get real-time updates via Firestore subscription
@@ -590,6 +617,7 @@ export default function StudentSessionPage({ params }: StudentSessionPageProps)
                   studentId: student.id,
                   sessionId: session.id,
                   questionId: question.id,
+                  caseStudyId: caseStudy.id,
                   context: {
                     question: question.text,
                     caseStudyContent: currentSectionData.content,
@@ -2074,6 +2102,18 @@ This summary was generated using AI analysis of your responses and performance.
                   Section {currentSection + 1} of {caseStudy.sections.length}
                 </p>
               )}
+              {!isHeaderCollapsed && session?.homework && (() => {
+                const homework = session.homework;
+                const submissionState = homeworkSubmissionState(homework, student?.id, new Date());
+                const due = homeworkDueAt(homework, student?.id).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+                return (
+                  <p className={`mt-1 text-xs ${submissionState === 'open' ? 'text-gray-400' : 'text-amber-700'}`}>
+                    {submissionState === 'open' && `Due ${due}`}
+                    {submissionState === 'late' && `Was due ${due}. Answers are still accepted but count as late.`}
+                    {submissionState === 'closed' && `Was due ${due}. This assignment no longer accepts answers.`}
+                  </p>
+                );
+              })()}
               {isHeaderCollapsed && (
                 <p className="text-xs text-gray-400">
                   {currentSection + 1}/{caseStudy.sections.length} • {Math.round(progress)}%
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import {
   ArrowRight,
+  Award,
   Check,
   ChevronLeft,
   Dices,
@@ -19,6 +20,8 @@ import {
   X,
 } from 'lucide-react';
 import MarkdownContent from '@/components/live/MarkdownContent';
+import { CONTRIBUTION_MARK_LABELS, type LiveContributionStudent } from '@/lib/contribution-marks';
+import type { ContributionMarkLevel } from '@/types';
 import type { InteractionResults, LiveInteraction, LiveQuestion, LiveSessionContext, LiveTimer } from '@/app/live/live-data';
 import ProjectorPreflight from './ProjectorPreflight';
 import './classfully-remote.css';
@@ -55,6 +58,17 @@ type ClassfullyRemoteProps = {
   onLaunchUnplanned: (prompt: string) => void;
   onStartTimer: (durationSeconds: number) => void;
   onClearTimer: () => void;
+  /** Contribution tagging, present when the class has a course to log marks against. */
+  contributions?: {
+    students: LiveContributionStudent[];
+    markCount: number;
+    saving: boolean;
+    error?: string;
+    /** Name on the most recent mark this class, for the undo row. */
+    lastMarkedName: string | null;
+    onMark: (student: LiveContributionStudent, mark: ContributionMarkLevel) => void;
+    onUndo: () => void;
+  };
 };
 
 export default function ClassfullyRemote({
@@ -82,10 +96,13 @@ export default function ClassfullyRemote({
   onLaunchUnplanned,
   onStartTimer,
   onClearTimer,
+  contributions,
 }: ClassfullyRemoteProps) {
   const [stage, setStage] = useState<'shell' | 'content' | 'actions'>('shell');
   const [showPlan, setShowPlan] = useState(!activeInteraction);
   const [showQuestions, setShowQuestions] = useState(false);
+  const [showContributions, setShowContributions] = useState(false);
+  const [contributionSearch, setContributionSearch] = useState('');
   const [quickAskOpen, setQuickAskOpen] = useState(false);
   const [quickToolsOpen, setQuickToolsOpen] = useState(false);
   const [quickAsk, setQuickAsk] = useState('');
@@ -129,10 +146,16 @@ export default function ClassfullyRemote({
   );
   const activePlanIndex = activeInteraction ? plan.findIndex((interaction) => interaction.id === activeInteraction.id) : -1;
   const nextInteraction = activePlanIndex >= 0 ? plan[activePlanIndex + 1] || null : plan[0] || null;
+  const contributionStudents = useMemo(() => {
+    const search = contributionSearch.trim().toLocaleLowerCase();
+    const students = contributions?.students || [];
+    return search ? students.filter((student) => `${student.name} ${student.studentNumber}`.toLocaleLowerCase().includes(search)) : students;
+  }, [contributionSearch, contributions?.students]);
   const topQuestions = useMemo(() => [...questions].sort((a, b) => b.votes - a.votes).slice(0, 4), [questions]);
   const timerSeconds = timer ? Math.max(0, Math.ceil((timer.endsAt - clockNow) / 1000)) : 0;
   const timerText = `${Math.floor(timerSeconds / 60)}:${String(timerSeconds % 60).padStart(2, '0')}`;
   const isPeerLearning = activeInteraction?.type === 'peer-learning';
+  const isDebate = activeInteraction?.type === 'debate';
   const isClock = activeInteraction?.type === 'timer';
   const isGroupWork = activeInteraction?.type === 'group-work';
   const isTeamFormation = activeInteraction?.type === 'team-formation';
@@ -181,9 +204,32 @@ export default function ClassfullyRemote({
           <div className="remote-room-stats">
             <span><Users size={15} /> {connectedStudents} connected</span>
             <button type="button" className={questionCount ? 'has-questions' : ''} onClick={() => setShowQuestions((open) => !open)} aria-expanded={showQuestions}><Radio size={14} /> {questionCount} questions</button>
+            {contributions && <button type="button" onClick={() => setShowContributions((open) => !open)} aria-expanded={showContributions}><Award size={14} /> {contributions.markCount} {contributions.markCount === 1 ? 'mark' : 'marks'}</button>}
           </div>
         </section>
 
+        {contributions && showContributions && (
+          <section className="remote-question-panel remote-contribution-panel" aria-label="Mark contributions">
+            <div className="remote-question-heading"><div><small>Contributions</small><strong>{activeInteraction ? `During ${activeInteraction.title}` : 'Tap a student to mark'}</strong></div><button type="button" onClick={() => setShowContributions(false)} aria-label="Close contributions"><X size={17} /></button></div>
+            {(contributions.students.length > 8 || contributionSearch) && <input className="remote-contribution-search" value={contributionSearch} onChange={(event) => setContributionSearch(event.target.value)} placeholder="Find a student" aria-label="Find a student" />}
+            {contributions.error && <p className="remote-contribution-error" role="alert">{contributions.error}</p>}
+            <div className="remote-question-list">
+              {contributionStudents.length ? contributionStudents.map((student) => (
+                <article key={student.studentNumber}>
+                  <p><strong>{student.name}</strong></p>
+                  <div>
+                    <span>{student.lastMark ? `${student.marks} this class · last ${CONTRIBUTION_MARK_LABELS[student.lastMark].toLowerCase()}` : 'No marks yet'}</span>
+                    <div className="remote-question-actions">
+                      {([3, 2, 1] as const).map((level) => <button type="button" key={level} disabled={contributions.saving} onClick={() => contributions.onMark(student, level)}>{CONTRIBUTION_MARK_LABELS[level]}</button>)}
+                    </div>
+                  </div>
+                </article>
+              )) : <p className="remote-no-questions">{contributions.students.length ? 'No one matches that search.' : 'Students appear here after they check in with their student number.'}</p>}
+            </div>
+            {contributions.lastMarkedName && <div className="remote-question-undo" role="status"><span>Marked {contributions.lastMarkedName}</span><button type="button" disabled={contributions.saving} onClick={contributions.onUndo}>Undo</button></div>}
+          </section>
+        )}
+
         {showQuestions && (
           <section className="remote-question-panel" aria-label="Top student questions">
             <div className="remote-question-heading"><div><small>Student questions</small><strong>What the room wants discussed</strong></div><button type="button" onClick={() => setShowQuestions(false)} aria-label="Close student questions"><X size={17} /></button></div>
@@ -210,25 +256,27 @@ export default function ClassfullyRemote({
                 <strong key={results.responseCount}>{results.responseCount}</strong>
                 <span>{isTeamFormation ? 'students joined a team' : isGroupWork ? 'team submissions' : `of ${responseTarget || 'the class'} responded`}</span>
               </div>
-              <span className="remote-response-status">{isPeerLearning && peerPhase === 'discuss' ? 'Partner discussion' : isPeerLearning && peerPhase === 'respond-again' ? 'Second answer' : results.open ? 'Collecting' : results.revealed ? 'Revealed' : 'Locked'}</span>
+              <span className="remote-response-status">{isPeerLearning && peerPhase === 'discuss' ? 'Partner discussion' : isPeerLearning && peerPhase === 'respond-again' ? 'Second answer' : isDebate && peerPhase === 'discuss' ? 'Arguments' : isDebate && peerPhase === 'respond-again' ? 'Closing vote' : results.open ? 'Collecting' : results.revealed ? 'Revealed' : 'Locked'}</span>
             </div>}
             {!isClock && !isWheel && <div className="remote-progress" aria-label={`${responseProgress}% of connected students responded`}>
               <i style={{ width: `${responseProgress}%` }} />
             </div>}
 
             {isPeerLearning && <div className="remote-module-steps" aria-label="Peer learning stages"><span className="is-complete">1 Answer</span><span className={peerPhase === 'discuss' || peerPhase === 'respond-again' || peerPhase === 'complete' ? 'is-complete' : ''}>2 Discuss</span><span className={peerPhase === 'respond-again' || peerPhase === 'complete' ? 'is-complete' : ''}>3 Answer again</span></div>}
+            {isDebate && <div className="remote-module-steps" aria-label="Debate stages"><span className="is-complete">1 Opening vote</span><span className={peerPhase === 'discuss' || peerPhase === 'respond-again' || peerPhase === 'complete' ? 'is-complete' : ''}>2 Argue</span><span className={peerPhase === 'respond-again' || peerPhase === 'complete' ? 'is-complete' : ''}>3 Closing vote</span></div>}
             {isGroupWork && <p className="remote-module-note">Groups of about {activeInteraction.groupSize || 4}. Ask each group to choose one note-taker.</p>}
             {isClock && <div className="remote-clock-focus"><Timer size={22} /><span><small>{timerSeconds === 0 ? 'Time is up' : 'Shared clock'}</small><strong>{timerText}</strong></span></div>}
             {isWheel && <div className="remote-wheel-focus"><Dices size={22} /><span><small>{results.wheelSelectedLabel ? 'Selected' : `${results.wheelItems?.length || 0} items ready`}</small><strong>{results.wheelSelectedLabel || 'Ready to spin'}</strong></span></div>}
 
             <div className="remote-primary-actions">
-              {!isClock && !isPeerLearning && !isWheel && <button type="button" className="remote-lock" onClick={onToggleResponses}>
+              {!isClock && !isPeerLearning && !isDebate && !isWheel && <button type="button" className="remote-lock" onClick={onToggleResponses}>
                 {results.open ? <Pause size={18} /> : <Play size={18} />}
                 <span>{results.open ? 'Lock responses' : 'Reopen responses'}</span>
               </button>}
               {isPeerLearning && peerPhase !== 'complete' && <button type="button" className="remote-reveal" onClick={onAdvanceModule} disabled={peerPhase !== 'discuss' && !results.responseCount}><ArrowRight size={18} /><span>{peerPhase === 'respond' ? 'Start partner discussion' : peerPhase === 'discuss' ? 'Ask again' : 'Show the shift'}</span></button>}
+              {isDebate && peerPhase !== 'complete' && <button type="button" className="remote-reveal" onClick={onAdvanceModule} disabled={peerPhase !== 'discuss' && !results.responseCount}><ArrowRight size={18} /><span>{peerPhase === 'respond' ? 'Open the argument board' : peerPhase === 'discuss' ? 'Take the closing vote' : 'Show the shift'}</span></button>}
               {isWheel && <button type="button" className="remote-reveal" onClick={onSpinWheel} disabled={!results.wheelItems?.length}><Dices size={18} /><span>{results.wheelSpinCount ? 'Spin again' : 'Spin the wheel'}</span></button>}
-              {!isPeerLearning && activeInteraction.resultVisibility === 'after-reveal' && !results.revealed && (
+              {!isPeerLearning && !isDebate && activeInteraction.resultVisibility === 'after-reveal' && !results.revealed && (
                 <button type="button" className="remote-reveal" onClick={onReveal} disabled={!results.responseCount}>
                   <Sparkles size={18} />
                   <span>{activeInteraction.type === 'quiz' ? 'Reveal answer' : 'Reveal result'}</span>
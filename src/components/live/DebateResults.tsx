@@ -0,0 +1,78 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import { debateSideLabels, debateStanceShare, debateStanceShift, type DebateArgument } from '@/lib/debate';
+import type { InteractionResults, LiveInteraction } from '@/app/live/live-data';
+import './debate-results.css';
+
+type DebateResultsProps = {
+  interaction: Pick<LiveInteraction, 'options'>;
+  results: Pick<InteractionResults, 'phase' | 'optionCounts' | 'firstOptionCounts' | 'debateArguments' | 'featuredArgumentId'>;
+  projector?: boolean;
+  /** False while stance results are held back from the room; the argument board still shows. */
+  showStance?: boolean;
+  /** Shown on the instructor console: each argument gets a button that puts it on the projector. */
+  onSpotlight?: (argumentId: string) => void;
+};
+
+export default function DebateResults({ interaction, results, projector = false, showStance = true, onSpotlight }: DebateResultsProps) {
+  const sides = debateSideLabels(interaction.options);
+  // The opening vote becomes the "before" marker once the room votes again.
+  const hasBefore = Boolean(results.firstOptionCounts) && results.phase !== 'respond';
+  const currentCounts = results.phase === 'discuss' ? results.firstOptionCounts || results.optionCounts : results.optionCounts;
+  const share = debateStanceShare(currentCounts);
+  const before = hasBefore && results.phase !== 'discuss' ? debateStanceShare(results.firstOptionCounts) : null;
+  const shift = before === null ? null : debateStanceShift(results.firstOptionCounts, results.optionCounts);
+  const items = results.debateArguments || [];
+  const featured = items.find((item) => item.id === results.featuredArgumentId);
+  const perSide = projector ? 3 : items.length;
+
+  const argumentCard = (item: DebateArgument) => (
+    <li key={item.id} className={item.id === results.featuredArgumentId ? 'is-featured' : ''}>
+      <p>{item.text}</p>
+      <span>
+        <small>{item.votes} {item.votes === 1 ? 'upvote' : 'upvotes'}</small>
+        {onSpotlight && <button type="button" onClick={() => onSpotlight(item.id)}>{item.id === results.featuredArgumentId ? 'Remove' : 'Show on display'}</button>}
+      </span>
+    </li>
+  );
+
+  return (
+    <div className={`debate-results ${projector ? 'is-projector' : ''}`}>
+      {showStance && <div className="debate-tug" role="img" aria-label={share === null ? 'No stance votes yet' : `${share}% ${sides[0]}, ${100 - share}% ${sides[1]}${before !== null ? `; ${before}% ${sides[0]} before the debate` : ''}`}>
+        <div className="debate-tug-labels"><strong>{sides[0]}</strong><strong>{sides[1]}</strong></div>
+        <div className="debate-tug-rope" style={{ '--debate-share': `${share ?? 50}%` } as CSSProperties}>
+          <i className="debate-tug-fill" />
+          {before !== null && <i className="debate-tug-before" style={{ left: `${before}%` }} />}
+          <b className="debate-tug-knot" />
+        </div>
+        <div className="debate-tug-labels">
+          <span>{share === null ? 'Waiting for votes' : `${share}%`}</span>
+          {shift !== null && <em>{shift === 0 ? 'No shift' : `${Math.abs(shift)} pts toward ${shift > 0 ? sides[0] : sides[1]}`}</em>}
+          <span>{share === null ? '' : `${100 - share}%`}</span>
+        </div>
+      </div>}
+
+      {featured && (
+        <blockquote className={`debate-spotlight is-side-${featured.side}`}>
+          <small>{sides[featured.side]}</small>
+          <p>{featured.text}</p>
+        </blockquote>
+      )}
+
+      {(results.phase !== 'respond' || items.length > 0) && (
+        <div className="debate-board">
+          {sides.map((label, side) => {
+            const sideItems = items.filter((item) => item.side === side);
+            return (
+              <section key={label} className={`is-side-${side}`} aria-label={`Arguments ${label.toLowerCase()}`}>
+                <h3>{label} <small>{sideItems.length}</small></h3>
+                {sideItems.length ? <ol>{sideItems.slice(0, perSide).map(argumentCard)}</ol> : <p className="debate-board-empty">No arguments yet.</p>}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
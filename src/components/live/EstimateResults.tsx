@@ -0,0 +1,63 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import {
+  estimateHistogram,
+  formatEstimate,
+  summarizeEstimates,
+  usesLogScale,
+  type EstimateSettings,
+} from '@/lib/numeric-estimates';
+import './estimate-results.css';
+
+type EstimateResultsProps = {
+  interaction: EstimateSettings;
+  values: number[];
+  /** Show the true value; until then only the class spread is drawn. */
+  revealed: boolean;
+  projector?: boolean;
+};
+
+export default function EstimateResults({ interaction, values, revealed, projector = false }: EstimateResultsProps) {
+  const unit = interaction.estimateUnit || '';
+  const answer = revealed && typeof interaction.estimateAnswer === 'number' ? interaction.estimateAnswer : undefined;
+  const summary = summarizeEstimates(values);
+  const buckets = estimateHistogram(values, answer);
+  const tallest = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  const log = usesLogScale(typeof answer === 'number' ? [...values, answer] : values);
+
+  if (!summary) return null;
+
+  const low = buckets[0]?.from ?? summary.min;
+  const high = buckets[buckets.length - 1]?.to ?? summary.max;
+  const position = (value: number) => {
+    const scale = (point: number) => (log ? Math.log10(point) : point);
+    return high === low ? 50 : ((scale(value) - scale(low)) / (scale(high) - scale(low))) * 100;
+  };
+
+  return (
+    <div className={`estimate-results ${projector ? 'is-projector' : ''}`}>
+      <div className="estimate-histogram" role="img" aria-label={buckets.map((bucket) => `${formatEstimate(bucket.from, unit)} to ${formatEstimate(bucket.to, unit)}: ${bucket.count}`).join(', ')}>
+        {buckets.map((bucket) => (
+          <span key={bucket.from} className={bucket.containsAnswer ? 'contains-answer' : ''} style={{ '--estimate-height': `${(bucket.count / tallest) * 100}%` } as CSSProperties}>
+            {bucket.count > 0 && <small>{bucket.count}</small>}
+          </span>
+        ))}
+        {typeof answer === 'number' && <i className="estimate-answer-line" style={{ left: `${position(answer)}%` }} aria-hidden="true" />}
+      </div>
+      <div className="estimate-box" aria-hidden="true">
+        <i className="estimate-box-whisker" style={{ left: `${position(summary.min)}%`, width: `${position(summary.max) - position(summary.min)}%` }} />
+        <i className="estimate-box-body" style={{ left: `${position(summary.q1)}%`, width: `${Math.max(0.5, position(summary.q3) - position(summary.q1))}%` }} />
+        <i className="estimate-box-median" style={{ left: `${position(summary.median)}%` }} />
+        {summary.outliers.map((outlier, index) => <b key={`${outlier}-${index}`} style={{ left: `${position(outlier)}%` }} />)}
+      </div>
+      <div className="estimate-scale"><span>{formatEstimate(low, unit)}</span>{log && <em>Log scale</em>}<span>{formatEstimate(high, unit)}</span></div>
+      <dl className="estimate-stats">
+        <div><dt>Median</dt><dd>{formatEstimate(summary.median, unit)}</dd></div>
+        <div><dt>Middle half</dt><dd>{formatEstimate(summary.q1, unit)} – {formatEstimate(summary.q3, unit)}</dd></div>
+        <div><dt>Outliers</dt><dd>{summary.outliers.length || 'None'}</dd></div>
+        {typeof answer === 'number' && <div className="is-answer"><dt>True value</dt><dd>{formatEstimate(answer, unit)}</dd></div>}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import Image from 'next/image';
+import type { CSSProperties } from 'react';
+import { clusterHotspotPoints, hotspotHitPercent } from '@/lib/hotspots';
+import type { HotspotImage, HotspotPoint, HotspotRegion } from '@/types';
+import './hotspot-results.css';
+
+type HotspotResultsProps = {
+  image: HotspotImage;
+  points: HotspotPoint[];
+  /** Present once the instructor reveals them; outlined on the exhibit. */
+  regions?: HotspotRegion[];
+  projector?: boolean;
+};
+
+export default function HotspotResults({ image, points, regions = [], projector = false }: HotspotResultsProps) {
+  const clusters = clusterHotspotPoints(points, regions);
+  const largest = Math.max(1, ...clusters.map((cluster) => cluster.count));
+  const hitPercent = hotspotHitPercent(points, regions);
+
+  return (
+    <figure className={`hotspot-results ${projector ? 'is-projector' : ''}`}>
+      <div className="hotspot-results-frame" style={{ aspectRatio: `${image.width} / ${image.height}`, '--hotspot-ratio': image.width / image.height } as CSSProperties}>
+        <Image src={image.url} alt={image.alt || 'Exhibit'} fill sizes={projector ? '90vw' : '640px'} unoptimized />
+        {regions.map((region, index) => (
+          <span
+            key={`${region.x}-${region.y}-${index}`}
+            className="hotspot-results-region"
+            style={{ left: `${region.x * 100}%`, top: `${region.y * 100}%`, width: `${region.width * 100}%`, height: `${region.height * 100}%` }}
+          />
+        ))}
+        <div className="hotspot-results-heat" aria-hidden="true">
+          {points.map((point, index) => <i key={index} style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }} />)}
+        </div>
+        {clusters.slice(0, 5).filter((cluster) => cluster.count > 1 || clusters.length <= 3).map((cluster) => (
+          <b
+            key={`${cluster.x}-${cluster.y}`}
+            className={`hotspot-results-cluster ${regions.length ? cluster.hitsRegion ? 'is-hit' : 'is-miss' : ''}`}
+            style={{ left: `${cluster.x * 100}%`, top: `${cluster.y * 100}%`, '--cluster-size': `${1.6 + (cluster.count / largest) * 1.6}em` } as CSSProperties}
+          >
+            {cluster.share}%
+          </b>
+        ))}
+      </div>
+      <figcaption>
+        <span>{points.length} {points.length === 1 ? 'tap' : 'taps'} · {clusters.length} {clusters.length === 1 ? 'cluster' : 'clusters'}</span>
+        {hitPercent !== null && <strong>{hitPercent}% in a correct region</strong>}
+      </figcaption>
+    </figure>
+  );
+}
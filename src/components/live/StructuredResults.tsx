@@ -0,0 +1,100 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import {
+  DEFAULT_MATRIX_AXES,
+  MATRIX_QUADRANTS,
+  matrixQuadrantLabel,
+  matrixSummary,
+  rankingSummary,
+  scaleLabelsFor,
+  scaleSummary,
+  type MatrixAxes,
+  type StructuredResults as StructuredResultCounts,
+} from '@/lib/structured-interactions';
+import './structured-results.css';
+
+type StructuredResultsProps = {
+  interaction: {
+    type: string;
+    options?: string[];
+    scaleLabels?: string[];
+    matrixAxes?: MatrixAxes;
+  };
+  results: StructuredResultCounts & { responseCount: number };
+  projector?: boolean;
+};
+
+/** Low points run coral to high points in violet, whatever the number of points. */
+function scaleColor(point: number, points: number) {
+  const hues = ['#df664e', '#ec9a7a', '#d7d9e2', '#a59cf2', '#5146e5'];
+  const position = points > 1 ? point / (points - 1) : 0;
+  return hues[Math.round(position * (hues.length - 1))];
+}
+
+function RankingResults({ options, results }: { options: string[]; results: StructuredResultsProps['results'] }) {
+  const summary = rankingSummary(options, results.rankingTotals, results.responseCount);
+  return (
+    <ol className="structured-ranking">
+      {summary.map((item, position) => (
+        <li key={item.index} style={{ '--structured-share': `${item.averageRank ? ((options.length - item.averageRank + 1) / options.length) * 100 : 0}%` } as CSSProperties}>
+          <b>{position + 1}</b>
+          <span><strong>{item.label}</strong><i aria-hidden="true" /></span>
+          <small>{item.averageRank === null ? '—' : `avg. ${item.averageRank.toFixed(1)}`}</small>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function ScaleResults({ interaction, results }: Pick<StructuredResultsProps, 'interaction' | 'results'>) {
+  const labels = scaleLabelsFor(interaction);
+  const summary = scaleSummary(interaction.options || [], results.ratingCounts, labels.length);
+  return (
+    <div className="structured-scale">
+      <div className="structured-scale-legend" aria-hidden="true">
+        {labels.map((label, point) => <span key={label}><i style={{ background: scaleColor(point, labels.length) }} />{label}</span>)}
+      </div>
+      {summary.map((statement) => (
+        <article key={statement.index}>
+          <div><strong>{statement.label}</strong><small>{statement.mean === null ? 'No ratings yet' : `${statement.mean.toFixed(1)} of ${labels.length}`}</small></div>
+          <span className="structured-scale-bar" role="img" aria-label={labels.map((label, point) => `${label}: ${statement.counts[point]}`).join(', ')}>
+            {statement.counts.map((count, point) => count > 0 && (
+              <i key={labels[point]} style={{ width: `${(count / statement.total) * 100}%`, background: scaleColor(point, labels.length) }} />
+            ))}
+          </span>
+        </article>
+      ))}
+    </div>
+  );
+}
+
+function MatrixResults({ interaction, results }: Pick<StructuredResultsProps, 'interaction' | 'results'>) {
+  const axes = interaction.matrixAxes || DEFAULT_MATRIX_AXES;
+  const summary = matrixSummary(interaction.options || [], results.quadrantCounts);
+  return (
+    <div className="structured-matrix">
+      <span className="structured-matrix-y">{axes.y} →</span>
+      <div className="structured-matrix-grid">
+        {MATRIX_QUADRANTS.map((quadrant) => (
+          <section key={quadrant} aria-label={matrixQuadrantLabel(axes, quadrant)}>
+            {summary.filter((item) => item.quadrant === quadrant).map((item) => (
+              <span key={item.index} title={`${item.agreement}% placed it here`}>{item.label}<small>{item.agreement}%</small></span>
+            ))}
+          </section>
+        ))}
+      </div>
+      <span className="structured-matrix-x">{axes.x} →</span>
+    </div>
+  );
+}
+
+export default function StructuredResults({ interaction, results, projector = false }: StructuredResultsProps) {
+  return (
+    <div className={`structured-results ${projector ? 'is-projector' : ''}`}>
+      {interaction.type === 'ranking' && <RankingResults options={interaction.options || []} results={results} />}
+      {interaction.type === 'scale' && <ScaleResults interaction={interaction} results={results} />}
+      {interaction.type === 'matrix' && <MatrixResults interaction={interaction} results={results} />}
+    </div>
+  );
+}
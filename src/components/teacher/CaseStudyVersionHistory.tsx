@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { getCaseStudyVersions, restoreCaseStudyVersion } from '@/lib/firebase/firestore';
+import { diffCaseStudyVersions, type SectionDiff } from '@/lib/case-study-versions';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import type { CaseStudyVersion } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Dialog from '@/components/ui/Dialog';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { History, RotateCcw } from 'lucide-react';
+
+interface CaseStudyVersionHistoryProps {
+  caseStudyId: string;
+  /** Changes whenever the case study is saved, so the list reloads. */
+  currentVersion?: number;
+  onRestored: () => void;
+}
+
+const CHANGE_STYLES: Record<SectionDiff['change'], string> = {
+  added: 'bg-[#e9f7ee] text-[#23623a]',
+  removed: 'bg-[#fff0ec] text-[#a2412c]',
+  changed: 'bg-[#f4f2ff] text-[#5146e5]',
+  unchanged: 'bg-[#f4f5f8] text-[#697087]',
+};
+
+const CHANGE_LABELS: Record<SectionDiff['change'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function sectionSummary(section: SectionDiff) {
+  const parts = [...section.fields];
+  if (section.moved) parts.push('Moved');
+  if (section.questions.added) parts.push(`${plural(section.questions.added, 'question')} added`);
+  if (section.questions.removed) parts.push(`${plural(section.questions.removed, 'question')} removed`);
+  if (section.questions.edited) parts.push(`${plural(section.questions.edited, 'question')} edited`);
+  return parts.join(' · ');
+}
+
+export default function CaseStudyVersionHistory({ caseStudyId, currentVersion, onRestored }: CaseStudyVersionHistoryProps) {
+  const [versions, setVersions] = useState<CaseStudyVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<CaseStudyVersion | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getCaseStudyVersions(caseStudyId)
+      .then((list) => {
+        if (cancelled) return;
+        setVersions(list);
+        setSelectedVersion(list[0]?.version ?? null);
+        setBaseVersion(list[1]?.version ?? null);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(getUserFacingError(loadError, 'Version history could not be loaded. Refresh and try again.'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [caseStudyId, currentVersion]);
+
+  const selected = versions.find((version) => version.version === selectedVersion);
+  const base = versions.find((version) => version.version === baseVersion);
+  const diff = useMemo(() => selected && base ? diffCaseStudyVersions(base, selected) : null, [base, selected]);
+  const latestVersion = versions[0]?.version;
+
+  const selectVersion = (version: number) => {
+    setSelectedVersion(version);
+    setBaseVersion(versions.find((item) => item.version < version)?.version ?? null);
+  };
+
+  const confirmRestore = async () => {
+    if (!restoreTarget) return;
+    setError('');
+    try {
+      await restoreCaseStudyVersion(caseStudyId, restoreTarget);
+      setRestoreTarget(null);
+      onRestored();
+    } catch (restoreError) {
+      setRestoreTarget(null);
+      setError(getUserFacingError(restoreError, 'This version could not be restored. Try again.'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><History className="h-5 w-5 text-[#5146e5]" /> Version history</CardTitle>
+        <CardDescription>Every save is kept. Sessions show the version they ran with, even after you edit the case.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <InlineMessage message={error} />}
+        {loading ? (
+          <p className="text-sm text-[#697087]">Loading versions…</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-[#697087]">This case study has no saved versions yet. The next save starts its history.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+            <ul className="space-y-1">
+              {versions.map((version) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => selectVersion(version.version)}
+                    className={`seminar-focus w-full rounded-xl border px-3 py-2 text-left text-sm transition-colors ${version.version === selectedVersion ? 'border-[#5146e5] bg-[#f7f6ff]' : 'border-[#e3e5ed] hover:bg-[#f8f7fb]'}`}
+                  >
+                    <span className="flex items-center justify-between gap-2">
+                      <strong className="text-[#101a38]">Version {version.version}</strong>
+                      {version.version === latestVersion && <span className="text-xs font-semibold text-[#5146e5]">Current</span>}
+                    </span>
+                    <span className="block text-xs text-[#697087]">
+                      {version.createdAt?.toDate?.().toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      {version.restoredFrom ? ` · Restored from ${version.restoredFrom}` : ''}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-end justify-between gap-3">
+                  <div className="space-y-1.5">
+                    <label htmlFor="version-compare-base" className="block text-sm font-semibold text-[#313950]">Compare version {selected.version} with</label>
+                    <select
+                      id="version-compare-base"
+                      className="seminar-focus h-10 rounded-xl border border-[#d7dae5] bg-white px-3 text-sm text-[#101a38]"
+                      value={baseVersion ?? ''}
+                      onChange={(event) => setBaseVersion(event.target.value ? Number(event.target.value) : null)}
+                    >
+                      <option value="">Nothing</option>
+                      {versions.filter((version) => version.version !== selected.version).map((version) => (
+                        <option key={version.id} value={version.version}>Version {version.version}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {selected.version !== latestVersion && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setRestoreTarget(selected)}>
+                      <RotateCcw className="mr-2 h-4 w-4" /> Restore version {selected.version}
+                    </Button>
+                  )}
+                </div>
+
+                {!diff ? (
+                  <p className="text-sm text-[#697087]">Version {selected.version} is the first saved version: {plural(selected.sections.length, 'section')}, {selected.totalPoints} points.</p>
+                ) : (
+                  <>
+                    {diff.fields.length > 0 && <p className="text-sm text-[#313950]">Also changed: {diff.fields.join(', ')}</p>}
+                    <ul className="divide-y divide-[#e3e5ed] rounded-xl border border-[#e3e5ed]">
+                      {diff.sections.map((section) => (
+                        <li key={section.sectionId} className="flex items-start justify-between gap-3 px-3 py-2.5 text-sm">
+                          <span className="min-w-0">
+                            <strong className="block truncate text-[#101a38]">{section.index + 1}. {section.title || 'Untitled section'}</strong>
+                            {sectionSummary(section) && <span className="block text-xs text-[#697087]">{sectionSummary(section)}</span>}
+                          </span>
+                          <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-semibold ${CHANGE_STYLES[section.change]}`}>{CHANGE_LABELS[section.change]}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        isOpen={Boolean(restoreTarget)}
+        onClose={() => setRestoreTarget(null)}
+        onConfirm={confirmRestore}
+        title={`Restore version ${restoreTarget?.version ?? ''}`}
+        message="The case study goes back to this version's content, saved as a new version. Unsaved changes in the editor are discarded. Sessions that already ran keep the version they used."
+        confirmText="Restore"
+      />
+    </Card>
+  );
+}
@@ -18,6 +18,7 @@ import {
   UserCheck,
   GraduationCap,
   Library,
+  ClipboardCheck,
 } from 'lucide-react';
 
 interface DashboardLayoutProps {
@@ -28,6 +29,7 @@ const primaryNavigation = [
   { name: 'Home', href: '/dashboard', icon: Home },
   { name: 'Classes', href: '/dashboard/classes', icon: GraduationCap },
   { name: 'Student progress', href: '/dashboard/progress', icon: UserCheck },
+  { name: 'Grading', href: '/dashboard/grading', icon: ClipboardCheck },
   { name: 'Review', href: '/dashboard/analytics', icon: BarChart },
 ];
 
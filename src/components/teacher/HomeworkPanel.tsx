@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { getCourse, getStudentsByIds, updateSession } from '@/lib/firebase/firestore';
+import { homeworkDueAt } from '@/lib/homework';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import type { CaseStudy, Session, SessionHomework, Student } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import InlineMessage from '@/components/ui/InlineMessage';
+import HomeworkSettings, { homeworkDraft, homeworkFromDraft, toDateTimeLocal } from '@/components/teacher/HomeworkSettings';
+import { CalendarClock, Trash2 } from 'lucide-react';
+
+interface HomeworkPanelProps {
+  session: Session;
+  caseStudy: CaseStudy;
+  onSaved: (homework: SessionHomework) => void;
+}
+
+const formatDate = (date: Date) => date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function HomeworkPanel({ session, caseStudy, onSaved }: HomeworkPanelProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => homeworkDraft(session.homework, caseStudy.sections.length));
+  const [roster, setRoster] = useState<Student[]>([]);
+  const [extensionStudentId, setExtensionStudentId] = useState('');
+  const [extensionDueAt, setExtensionDueAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const homework = session.homework;
+
+  useEffect(() => {
+    if (!homework) return;
+    let cancelled = false;
+    const loadRoster = async () => {
+      try {
+        const course = session.courseId ? await getCourse(session.courseId) : null;
+        const ids = Array.from(new Set([...(course?.studentIds || []), ...(session.studentsJoined || [])]));
+        const students = ids.length ? await getStudentsByIds(ids) : [];
+        if (!cancelled) setRoster(students.sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (loadError) {
+        console.error('Error loading homework roster:', loadError);
+      }
+    };
+    void loadRoster();
+    return () => { cancelled = true; };
+  }, [homework, session.courseId, session.studentsJoined]);
+
+  const extensions = useMemo(() => Object.entries(homework?.extensions || {})
+    .map(([studentId, dueAt]) => ({ studentId, dueAt: dueAt.toDate(), student: roster.find((student) => student.id === studentId) }))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime()), [homework, roster]);
+
+  const save = async (next: SessionHomework) => {
+    setSaving(true);
+    setError('');
+    try {
+      await updateSession(session.id, { homework: next });
+      onSaved(next);
+      return true;
+    } catch (saveError) {
+      setError(getUserFacingError(saveError, 'The homework settings could not be saved. Try again.'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveSettings = async () => {
+    const next = homeworkFromDraft(draft, homework?.extensions);
+    if (typeof next === 'string') return setError(next);
+    if (await save(next)) setEditing(false);
+  };
+
+  const grantExtension = async () => {
+    if (!homework || !extensionStudentId || !extensionDueAt) return;
+    const dueAt = new Date(extensionDueAt);
+    if (Number.isNaN(dueAt.getTime())) return setError('Choose a new due date for the extension.');
+    if (await save({ ...homework, extensions: { ...(homework.extensions || {}), [extensionStudentId]: Timestamp.fromDate(dueAt) } })) {
+      setExtensionStudentId('');
+      setExtensionDueAt('');
+    }
+  };
+
+  const removeExtension = async (studentId: string) => {
+    if (!homework) return;
+    const rest = { ...(homework.extensions || {}) };
+    delete rest[studentId];
+    const settings = { ...homework };
+    delete settings.extensions;
+    await save(Object.keys(rest).length ? { ...settings, extensions: rest } : settings);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2"><CalendarClock className="h-5 w-5 text-[#5146e5]" /> Homework</CardTitle>
+          <CardDescription>
+            {homework
+              ? `Self-paced until ${formatDate(homeworkDueAt(homework))}. ${session.active ? 'Students answer with the class code in their own time.' : 'Start the session so students can open it with the class code.'}`
+              : 'Let students work through this case in their own time, with a due date.'}
+          </CardDescription>
+        </div>
+        {!editing && (
+          <Button variant="outline" size="sm" onClick={() => { setDraft(homeworkDraft(homework, caseStudy.sections.length)); setEditing(true); }}>
+            {homework ? 'Edit settings' : 'Assign as homework'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {error && <InlineMessage message={error} />}
+
+        {editing && (
+          <div className="space-y-4">
+            <HomeworkSettings value={draft} onChange={setDraft} sectionTitles={caseStudy.sections.map((section) => section.title)} disabled={saving} />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setEditing(false)} disabled={saving}>Cancel</Button>
+              <Button onClick={saveSettings} loading={saving}>Save homework</Button>
+            </div>
+          </div>
+        )}
+
+        {homework && !editing && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-[#313950]">Extensions</h3>
+            {extensions.length ? (
+              <ul className="divide-y divide-[#e3e5ed] rounded-xl border border-[#e3e5ed]">
+                {extensions.map((extension) => (
+                  <li key={extension.studentId} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <span className="min-w-0 truncate text-[#101a38]">{extension.student?.name || extension.studentId}</span>
+                    <span className="flex shrink-0 items-center gap-2 text-[#697087]">
+                      {formatDate(extension.dueAt)}
+                      <button type="button" className="seminar-focus rounded-lg p-1 hover:bg-[#f4f5f8]" aria-label={`Remove extension for ${extension.student?.name || extension.studentId}`} disabled={saving} onClick={() => void removeExtension(extension.studentId)}>
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-[#697087]">No student has an extension.</p>
+            )}
+            <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+              <div className="space-y-1.5">
+                <label htmlFor="homework-extension-student" className="block text-sm font-semibold text-[#313950]">Student</label>
+                <select
+                  id="homework-extension-student"
+                  className="seminar-focus h-11 w-full rounded-xl border border-[#d7dae5] bg-white px-3 text-sm text-[#101a38]"
+                  value={extensionStudentId}
+                  onChange={(event) => {
+                    setExtensionStudentId(event.target.value);
+                    if (!extensionDueAt) setExtensionDueAt(toDateTimeLocal(homeworkDueAt(homework, event.target.value)));
+                  }}
+                >
+                  <option value="">Choose a student</option>
+                  {roster.map((student) => (
+                    <option key={student.id} value={student.id}>{student.name} ({student.studentId})</option>
+                  ))}
+                </select>
+              </div>
+              <Input label="New due date" type="datetime-local" value={extensionDueAt} onChange={(event) => setExtensionDueAt(event.target.value)} />
+              <Button onClick={grantExtension} loading={saving} disabled={!extensionStudentId || !extensionDueAt}>Grant extension</Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { Timestamp } from 'firebase/firestore';
+import type { HomeworkLatePolicy, HomeworkReleaseMode, SessionHomework } from '@/types';
+import Input from '@/components/ui/Input';
+
+/** Form state for homework settings; dates are `datetime-local` strings in this computer's time zone. */
+export interface HomeworkDraft {
+  release: HomeworkReleaseMode;
+  sectionReleaseAt: string[];
+  dueAt: string;
+  latePolicy: HomeworkLatePolicy;
+  latePenaltyPercent: string;
+}
+
+export const toDateTimeLocal = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export function homeworkDraft(homework: SessionHomework | undefined, sectionCount: number): HomeworkDraft {
+  const weekFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  weekFromNow.setHours(23, 59, 0, 0);
+  return {
+    release: homework?.release || 'all',
+    sectionReleaseAt: Array.from({ length: sectionCount }, (_, index) => {
+      const opensAt = homework?.sectionReleaseAt?.[index];
+      return opensAt ? toDateTimeLocal(opensAt.toDate()) : '';
+    }),
+    dueAt: toDateTimeLocal(homework?.dueAt?.toDate() || weekFromNow),
+    latePolicy: homework?.latePolicy || 'accept',
+    latePenaltyPercent: homework?.latePenaltyPercent !== undefined ? String(homework.latePenaltyPercent) : '',
+  };
+}
+
+/** Converts the form into stored settings, or returns a message explaining what to fix. */
+export function homeworkFromDraft(draft: HomeworkDraft, extensions?: SessionHomework['extensions']): SessionHomework | string {
+  const dueAt = new Date(draft.dueAt);
+  if (!draft.dueAt || Number.isNaN(dueAt.getTime())) return 'Choose a due date.';
+  const penalty = draft.latePenaltyPercent.trim() ? Number(draft.latePenaltyPercent) : undefined;
+  if (penalty !== undefined && (!Number.isFinite(penalty) || penalty < 0 || penalty > 100)) {
+    return 'Late penalty must be between 0 and 100 percent.';
+  }
+  const sectionReleaseAt = draft.sectionReleaseAt.map((value) => value ? Timestamp.fromDate(new Date(value)) : null);
+  return {
+    release: draft.release,
+    ...(draft.release === 'timetable' ? { sectionReleaseAt } : {}),
+    dueAt: Timestamp.fromDate(dueAt),
+    latePolicy: draft.latePolicy,
+    ...(draft.latePolicy === 'penalty' && penalty !== undefined ? { latePenaltyPercent: penalty } : {}),
+    ...(extensions && Object.keys(extensions).length ? { extensions } : {}),
+  };
+}
+
+interface HomeworkSettingsProps {
+  value: HomeworkDraft;
+  onChange: (value: HomeworkDraft) => void;
+  sectionTitles: string[];
+  disabled?: boolean;
+}
+
+const LATE_POLICIES: Array<{ value: HomeworkLatePolicy; label: string; description: string }> = [
+  { value: 'accept', label: 'Accept late work', description: 'Late answers are marked late in the gradebook.' },
+  { value: 'penalty', label: 'Deduct a penalty', description: 'Late answers lose a share of their points.' },
+  { value: 'closed', label: 'Close at the deadline', description: 'Students cannot answer after the due date.' },
+];
+
+export default function HomeworkSettings({ value, onChange, sectionTitles, disabled = false }: HomeworkSettingsProps) {
+  const update = (changes: Partial<HomeworkDraft>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-5">
+      <Input
+        label="Due"
+        type="datetime-local"
+        value={value.dueAt}
+        disabled={disabled}
+        onChange={(event) => update({ dueAt: event.target.value })}
+        helperText="In this computer's time zone."
+      />
+
+      <fieldset className="space-y-2" disabled={disabled}>
+        <legend className="text-sm font-semibold text-[#313950]">Sections</legend>
+        <label className="flex items-start gap-3 rounded-xl border border-[#e3e5ed] p-3">
+          <input type="radio" className="seminar-focus mt-0.5 h-4 w-4 accent-[#5146e5]" checked={value.release === 'all'} onChange={() => update({ release: 'all' })} />
+          <span><strong className="block text-sm text-[#101a38]">All at once</strong><span className="mt-0.5 block text-xs leading-5 text-[#697087]">Students can read the whole case as soon as it is assigned.</span></span>
+        </label>
+        <label className="flex items-start gap-3 rounded-xl border border-[#e3e5ed] p-3">
+          <input type="radio" className="seminar-focus mt-0.5 h-4 w-4 accent-[#5146e5]" checked={value.release === 'timetable'} onChange={() => update({ release: 'timetable' })} />
+          <span><strong className="block text-sm text-[#101a38]">On a timetable</strong><span className="mt-0.5 block text-xs leading-5 text-[#697087]">Each section opens at its time. Leave a time blank to open the section straight away.</span></span>
+        </label>
+        {value.release === 'timetable' && (
+          <div className="grid gap-3 pt-1 sm:grid-cols-2">
+            {sectionTitles.map((title, index) => (
+              <Input
+                key={index}
+                label={`${index + 1}. ${title || 'Untitled section'}`}
+                type="datetime-local"
+                value={value.sectionReleaseAt[index] || ''}
+                disabled={disabled}
+                onChange={(event) => {
+                  const sectionReleaseAt = sectionTitles.map((_, position) => value.sectionReleaseAt[position] || '');
+                  sectionReleaseAt[index] = event.target.value;
+                  update({ sectionReleaseAt });
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </fieldset>
+
+      <fieldset className="space-y-2" disabled={disabled}>
+        <legend className="text-sm font-semibold text-[#313950]">After the due date</legend>
+        {LATE_POLICIES.map((policy) => (
+          <label key={policy.value} className="flex items-start gap-3 rounded-xl border border-[#e3e5ed] p-3">
+            <input type="radio" className="seminar-focus mt-0.5 h-4 w-4 accent-[#5146e5]" checked={value.latePolicy === policy.value} onChange={() => update({ latePolicy: policy.value })} />
+            <span><strong className="block text-sm text-[#101a38]">{policy.label}</strong><span className="mt-0.5 block text-xs leading-5 text-[#697087]">{policy.description}</span></span>
+          </label>
+        ))}
+        {value.latePolicy === 'penalty' && (
+          <Input
+            label="Late penalty (%)"
+            type="number"
+            min={0}
+            max={100}
+            value={value.latePenaltyPercent}
+            disabled={disabled}
+            onChange={(event) => update({ latePenaltyPercent: event.target.value })}
+            helperText="Leave blank to use the class gradebook's late penalty."
+          />
+        )}
+      </fieldset>
+    </div>
+  );
+}
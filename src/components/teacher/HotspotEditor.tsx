@@ -0,0 +1,108 @@
+'use client';
+
+import Image from 'next/image';
+import { useRef, useState, type PointerEvent } from 'react';
+import { ImagePlus, Loader2, Trash2, X } from 'lucide-react';
+import { uploadExhibitImage } from '@/lib/firebase/exhibit-images';
+import { MAX_HOTSPOT_REGIONS, normalizeHotspotPoint, regionFromCorners } from '@/lib/hotspots';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import type { HotspotImage, HotspotPoint, HotspotRegion } from '@/types';
+
+interface HotspotEditorProps {
+  image?: HotspotImage;
+  regions?: HotspotRegion[];
+  onChange: (value: { hotspotImage?: HotspotImage; hotspotRegions?: HotspotRegion[] }) => void;
+}
+
+/** Uploads the exhibit for a hotspot question and lets the instructor drag out the correct regions on it. */
+export default function HotspotEditor({ image, regions = [], onChange }: HotspotEditorProps) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [dragStart, setDragStart] = useState<HotspotPoint | null>(null);
+  const [dragEnd, setDragEnd] = useState<HotspotPoint | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const upload = async (file?: File) => {
+    if (!file) return;
+    setError('');
+    setUploading(true);
+    try {
+      onChange({ hotspotImage: await uploadExhibitImage(file, image?.alt), hotspotRegions: [] });
+    } catch (uploadIssue: unknown) {
+      setError(getUserFacingError(uploadIssue, 'The exhibit could not be uploaded. Check your connection and try again.'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const pointFrom = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = frameRef.current?.getBoundingClientRect();
+    if (!bounds) return null;
+    return normalizeHotspotPoint((event.clientX - bounds.left) / bounds.width, (event.clientY - bounds.top) / bounds.height);
+  };
+
+  const finishRegion = () => {
+    if (dragStart && dragEnd) {
+      const region = regionFromCorners(dragStart, dragEnd);
+      // A click without a drag is not a region.
+      if (region.width > 0.01 && region.height > 0.01 && regions.length < MAX_HOTSPOT_REGIONS) {
+        onChange({ hotspotImage: image, hotspotRegions: [...regions, region] });
+      }
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const draft = dragStart && dragEnd ? regionFromCorners(dragStart, dragEnd) : null;
+
+  return (
+    <div className="grid gap-3 rounded-lg bg-[#f7f6ff] px-3 py-3 text-xs font-semibold text-[#4f576d]">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span>Exhibit</span>
+        <label className="inline-flex cursor-pointer items-center gap-1.5 rounded-lg border border-[#d7dae5] bg-white px-3 py-1.5 text-[#5146e5]">
+          {uploading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ImagePlus className="h-3.5 w-3.5" />}
+          {image ? 'Replace image' : 'Upload image'}
+          <input type="file" accept="image/jpeg,image/png,image/webp" className="sr-only" disabled={uploading} onChange={(event) => { void upload(event.target.files?.[0]); event.target.value = ''; }} />
+        </label>
+      </div>
+      {error && <p role="alert" className="font-normal text-[#b42318]">{error}</p>}
+      {image ? (
+        <>
+          <div
+            ref={frameRef}
+            className="relative touch-none select-none overflow-hidden rounded-lg border border-[#d7dae5] bg-white"
+            style={{ aspectRatio: `${image.width} / ${image.height}`, cursor: regions.length < MAX_HOTSPOT_REGIONS ? 'crosshair' : 'default' }}
+            onPointerDown={(event) => { const point = pointFrom(event); if (!point) return; event.currentTarget.setPointerCapture(event.pointerId); setDragStart(point); setDragEnd(point); }}
+            onPointerMove={(event) => { if (dragStart) setDragEnd(pointFrom(event)); }}
+            onPointerUp={finishRegion}
+            onPointerCancel={() => { setDragStart(null); setDragEnd(null); }}
+          >
+            <Image src={image.url} alt={image.alt || 'Exhibit'} fill sizes="(max-width: 768px) 100vw, 640px" draggable={false} className="object-contain" unoptimized />
+            {[...regions, ...(draft ? [draft] : [])].map((region, index) => (
+              <span
+                key={`${region.x}-${region.y}-${index}`}
+                className="absolute rounded border-2 border-[#12805c] bg-[#12805c]/15"
+                style={{ left: `${region.x * 100}%`, top: `${region.y * 100}%`, width: `${region.width * 100}%`, height: `${region.height * 100}%` }}
+              />
+            ))}
+          </div>
+          <p className="font-normal text-[#697087]">Drag on the image to mark up to {MAX_HOTSPOT_REGIONS} correct regions. Leave it unmarked for a question without a right answer.</p>
+          {regions.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {regions.map((region, index) => (
+                <li key={`${region.x}-${region.y}-${index}`} className="inline-flex items-center gap-1 rounded-full bg-[#e7f6ef] py-1 pl-2.5 pr-1 text-[#12805c]">
+                  Region {index + 1}
+                  <button type="button" aria-label={`Remove region ${index + 1}`} onClick={() => onChange({ hotspotImage: image, hotspotRegions: regions.filter((_, itemIndex) => itemIndex !== index) })} className="rounded-full p-0.5 hover:bg-white"><X className="h-3 w-3" /></button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <label className="grid gap-1.5">Image description <input aria-label="Image description" value={image.alt || ''} onChange={(event) => onChange({ hotspotImage: { ...image, alt: event.target.value.slice(0, 200) }, hotspotRegions: regions })} placeholder="For example: organization chart of the regional sales team" className="min-h-10 rounded-lg border border-[#d7dae5] bg-white px-3 text-sm font-normal text-[#313950]" /></label>
+          <button type="button" onClick={() => onChange({ hotspotImage: undefined, hotspotRegions: [] })} className="inline-flex items-center gap-1.5 justify-self-start font-normal text-[#8a4d40]"><Trash2 className="h-3.5 w-3.5" /> Remove image</button>
+        </>
+      ) : (
+        <p className="font-normal text-[#697087]">Upload a chart, org chart, or floor plan. Students tap a point on it from their phones.</p>
+      )}
+    </div>
+  );
+}
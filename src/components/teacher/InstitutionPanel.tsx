@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createInstitution, getInstitutionMembership, joinInstitution } from '@/lib/firebase/institution';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import type { InstitutionMembershipSummary } from '@/types';
+import Button from '@/components/ui/Button';
+import { ArrowRight, Building2, Check, KeyRound, Plus, ShieldCheck } from 'lucide-react';
+
+export default function InstitutionPanel() {
+  const [membership, setMembership] = useState<InstitutionMembershipSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [domain, setDomain] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMembership(await getInstitutionMembership());
+      setError('');
+    } catch (loadError) {
+      setError(getUserFacingError(loadError, 'Your institution could not be loaded. Refresh and try again.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { void load(); }, [load]);
+
+  const join = async () => {
+    setSaving(true); setError(''); setNotice('');
+    try {
+      await joinInstitution();
+      await load();
+      setNotice(`You joined ${membership?.joinable?.name || 'your institution'}.`);
+    } catch (joinError) {
+      setError(getUserFacingError(joinError, 'You could not join this institution. Try again.'));
+    } finally { setSaving(false); }
+  };
+
+  const create = async () => {
+    if (!name.trim() || !domain.trim()) return;
+    setSaving(true); setError(''); setNotice('');
+    try {
+      await createInstitution(name.trim(), domain.trim());
+      await load();
+      setCreating(false); setName(''); setDomain('');
+      setNotice('Institution created. Verify your domain in the admin console so colleagues can join.');
+    } catch (createError) {
+      setError(getUserFacingError(createError, 'The institution could not be created. Check the name and domain and try again.'));
+    } finally { setSaving(false); }
+  };
+
+  const institution = membership?.institution;
+
+  return <section className="overflow-hidden rounded-3xl border border-[#e3e5ed] bg-white" aria-labelledby="institution-title">
+    <div className="flex flex-col gap-5 border-b border-[#e3e5ed] px-6 py-6 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-4">
+        <span className="grid h-12 w-12 shrink-0 place-items-center rounded-2xl bg-[#e9e7ff] text-[#5146e5]" aria-hidden="true"><Building2 className="h-5 w-5" /></span>
+        <div><p className="seminar-eyebrow mb-1">Organization</p><h2 id="institution-title" className="seminar-display text-2xl text-[#101a38]">Institution</h2><p className="mt-1 max-w-xl text-sm leading-6 text-[#697087]">Instructors on your school&apos;s verified email domain share a seat pool, a sign-in policy and default settings.</p></div>
+      </div>
+      {membership?.role === 'admin' && <Link href="/dashboard/institution" className="seminar-focus inline-flex shrink-0 items-center gap-1 rounded-lg text-sm font-semibold text-[#5146e5]">Open admin console <ArrowRight className="h-4 w-4" /></Link>}
+    </div>
+    {error && <p role="alert" className="mx-6 mt-5 rounded-xl border border-[#efc8bf] bg-[#fff6f2] px-4 py-3 text-sm text-[#a44534]">{error}</p>}
+    {notice && <p role="status" className="mx-6 mt-5 flex items-center gap-2 rounded-xl bg-[#edf8ef] px-4 py-3 text-sm text-[#2f6f43]"><Check className="h-4 w-4" />{notice}</p>}
+    <div className="px-6 py-5">
+      {loading ? <div className="py-3 text-center text-sm text-[#697087]">Checking your institution…</div> : institution ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <strong className="text-sm text-[#101a38]">{institution.name}</strong>
+          <span className="rounded-full bg-[#f0efff] px-3 py-1 text-xs font-bold text-[#5146e5]">{membership?.role === 'admin' ? 'Admin' : 'Instructor'}</span>
+          <span className={`rounded-full px-3 py-1 text-xs font-bold ${membership?.seat ? 'bg-[#edf8ef] text-[#2f6f43]' : 'bg-[#fff6df] text-[#8a6113]'}`}>{membership?.seat ? 'Institution seat' : 'No seat assigned'}</span>
+          {institution.sso?.required && <span className="inline-flex items-center gap-1 rounded-full bg-[#eef3ff] px-3 py-1 text-xs font-bold text-[#31508f]"><KeyRound className="h-3.5 w-3.5" /> Single sign-on required</span>}
+        </div>
+      ) : membership?.joinable ? (
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm leading-6 text-[#4f5770]"><strong className="text-[#101a38]">{membership.joinable.name}</strong> has verified your email domain.{membership.joinable.canJoin ? '' : ' To join, sign out and sign in again with Use single sign-on, or verify your email address first.'}</p>
+          {membership.joinable.canJoin && <Button onClick={join} loading={saving} className="shrink-0 gap-2"><ShieldCheck className="h-4 w-4" /> Join institution</Button>}
+        </div>
+      ) : creating ? (
+        <div className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <label className="grid gap-2 text-sm font-bold text-[#313950]">Institution name<input value={name} onChange={(event) => setName(event.target.value)} placeholder="Example University" className="min-h-11 rounded-xl border border-[#d7dae5] bg-white px-4 font-normal outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" /></label>
+          <label className="grid gap-2 text-sm font-bold text-[#313950]">Email domain<input value={domain} onChange={(event) => setDomain(event.target.value)} placeholder="university.edu" className="min-h-11 rounded-xl border border-[#d7dae5] bg-white px-4 font-normal outline-none focus:border-[#5146e5] focus:ring-2 focus:ring-[#dcd8ff]" /></label>
+          <div className="flex gap-2"><Button variant="ghost" onClick={() => setCreating(false)} disabled={saving}>Cancel</Button><Button onClick={create} loading={saving} disabled={!name.trim() || !domain.trim()}>Create</Button></div>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm leading-6 text-[#697087]">You are not part of an institution. Set one up if you administer Classfully for your school.</p>
+          <Button variant="outline" onClick={() => { setCreating(true); setError(''); setNotice(''); }} className="shrink-0 gap-2"><Plus className="h-4 w-4" /> Set up institution</Button>
+        </div>
+      )}
+    </div>
+  </section>;
+}
@@ -0,0 +1,103 @@
+import type { ItemAnalysis, ItemAnalysisFlag } from '@/lib/item-analysis';
+import { Check } from 'lucide-react';
+
+interface ItemAnalysisReportProps {
+  items: ItemAnalysis[];
+}
+
+const FLAG_LABELS: Record<ItemAnalysisFlag, { label: string; detail: string }> = {
+  'possible-miskey': { label: 'Check the answer key', detail: 'A wrong choice drew more answers than the marked answer.' },
+  'too-easy': { label: 'Too easy', detail: 'Nearly everyone answered correctly on the first try.' },
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+function OptionDistribution({ item }: { item: ItemAnalysis }) {
+  const preTotal = item.preOptionCounts?.reduce((sum, count) => sum + count, 0) || 0;
+  return (
+    <ul className="space-y-2.5">
+      {item.options.map((option, index) => {
+        const correct = index === item.correctOptionIndex;
+        const share = item.responseCount ? Math.round(((item.optionCounts[index] || 0) / item.responseCount) * 100) : 0;
+        const preShare = preTotal ? Math.round(((item.preOptionCounts?.[index] || 0) / preTotal) * 100) : null;
+        return (
+          <li key={`${item.runId}-${index}`}>
+            <div className="flex items-baseline justify-between gap-3 text-xs">
+              <span className={`min-w-0 truncate ${correct ? 'font-bold text-[#101a38]' : 'text-[#4f576d]'}`}>
+                <b className="mr-1.5">{letter(index)}</b>{option}{correct && <Check className="ml-1 inline h-3.5 w-3.5 text-[#16835c]" aria-label="Correct answer" />}
+              </span>
+              <span className="shrink-0 font-semibold text-[#697087]">{preShare !== null && <>{preShare}% → </>}{share}%</span>
+            </div>
+            <div className="mt-1 h-2 overflow-hidden rounded-full bg-[#f1f2f6]">
+              <div className={`h-full rounded-full ${correct ? 'bg-[#16835c]' : 'bg-[#c9c5f5]'}`} style={{ width: `${share}%` }} />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function AnswerTimes({ item }: { item: ItemAnalysis }) {
+  const peak = Math.max(1, ...item.answerTimes.map((bucket) => bucket.count));
+  return (
+    <figure>
+      <div className="flex h-20 items-end gap-1.5" role="img" aria-label={`Answer times. ${item.answerTimes.map((bucket) => `${bucket.label}: ${bucket.count}`).join(', ')}`}>
+        {item.answerTimes.map((bucket) => (
+          <div key={bucket.label} className="flex flex-1 flex-col items-center justify-end gap-1">
+            <span className="text-[10px] font-semibold text-[#697087]">{bucket.count || ''}</span>
+            <div className="w-full rounded-t-md bg-[#5146e5]" style={{ height: `${Math.max(bucket.count ? 6 : 2, (bucket.count / peak) * 56)}px`, opacity: bucket.count ? 1 : 0.15 }} />
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex gap-1.5 text-[10px] text-[#8a90a2]">{item.answerTimes.map((bucket) => <span key={bucket.label} className="flex-1 text-center">{bucket.label}</span>)}</div>
+      <figcaption className="mt-2 text-xs text-[#697087]">{item.medianSeconds === null ? 'No answer times were recorded.' : `Median answer time: ${item.medianSeconds}s`}</figcaption>
+    </figure>
+  );
+}
+
+function SwitchMatrix({ item }: { item: ItemAnalysis }) {
+  if (!item.switches) return null;
+  const cell = 'px-3 py-2 text-center font-bold';
+  return (
+    <table className="w-full text-xs">
+      <caption className="mb-2 text-left font-bold text-[#313950]">First answer → second answer</caption>
+      <thead><tr className="text-[#697087]"><th /><th className="px-3 py-1 font-semibold">Right after</th><th className="px-3 py-1 font-semibold">Wrong after</th></tr></thead>
+      <tbody>
+        <tr className="border-t border-[#eceef3]"><th scope="row" className="py-2 text-left font-semibold text-[#697087]">Right before</th><td className={`${cell} text-[#101a38]`}>{item.switches.rightToRight}</td><td className={`${cell} text-[#b64936]`}>{item.switches.rightToWrong}</td></tr>
+        <tr className="border-t border-[#eceef3]"><th scope="row" className="py-2 text-left font-semibold text-[#697087]">Wrong before</th><td className={`${cell} text-[#16835c]`}>{item.switches.wrongToRight}</td><td className={`${cell} text-[#101a38]`}>{item.switches.wrongToWrong}</td></tr>
+      </tbody>
+    </table>
+  );
+}
+
+export default function ItemAnalysisReport({ items }: ItemAnalysisReportProps) {
+  return (
+    <div className="divide-y divide-[#eceef3]">
+      {items.map((item) => (
+        <article key={item.runId} className="py-6 first:pt-0 last:pb-0">
+          <header className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+            <div className="min-w-0">
+              <p className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#5146e5]">{item.type === 'peer-learning' ? 'Peer learning' : 'Knowledge check'}</p>
+              <h3 className="mt-1 font-semibold text-[#101a38]">{item.title}</h3>
+              <p className="mt-1 text-xs text-[#697087]">
+                {item.prePercentCorrect !== undefined ? `${item.prePercentCorrect}% → ${item.percentCorrect}% correct` : `${item.percentCorrect}% correct`} · {item.responseCount} answers · {item.participationPercent}% of peak participation
+                {typeof item.normalizedGain === 'number' && ` · normalized gain ${item.normalizedGain.toFixed(2)}`}
+              </p>
+            </div>
+            {item.flags.length > 0 && (
+              <div className="flex shrink-0 flex-wrap gap-1.5">
+                {item.flags.map((flag) => <span key={flag} title={FLAG_LABELS[flag].detail} className="rounded-full bg-[#fff5f1] px-2.5 py-1 text-[11px] font-bold text-[#a2412c]">{FLAG_LABELS[flag].label}</span>)}
+              </div>
+            )}
+          </header>
+          <div className={`mt-4 grid gap-6 ${item.switches ? 'lg:grid-cols-[minmax(0,1.3fr)_minmax(0,1fr)_minmax(0,1fr)]' : 'md:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]'}`}>
+            <OptionDistribution item={item} />
+            {item.switches && <SwitchMatrix item={item} />}
+            <AnswerTimes item={item} />
+          </div>
+        </article>
+      ))}
+    </div>
+  );
+}
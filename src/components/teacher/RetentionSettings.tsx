@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Archive, Eye } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import InlineMessage from '@/components/ui/InlineMessage';
+import { getCoursesByTeacher } from '@/lib/firebase/firestore';
+import {
+  getInstitutionRetentionPolicy,
+  getWorkspaceRetentionPolicy,
+  previewRetentionPurge,
+  saveCourseRetentionPolicy,
+  saveWorkspaceRetentionPolicy,
+} from '@/lib/firebase/retention';
+import {
+  MAX_RETENTION_DAYS,
+  RETENTION_ANCHORS,
+  RETENTION_CATEGORIES,
+  describeRetentionRule,
+  resolveRetentionPolicy,
+} from '@/lib/retention';
+import { getUserFacingError } from '@/lib/user-facing-error';
+import type { Course, CourseRetentionPolicy, RetentionCategory, RetentionPolicy, RetentionPreview, RetentionRule } from '@/types';
+
+const WORKSPACE = '';
+
+type LiveCategory = keyof RetentionPreview['rooms'][number]['records'];
+
+function formatDate(value: number) {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+}
+
+export default function RetentionSettings({ ownerUid }: { ownerUid?: string }) {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [workspacePolicy, setWorkspacePolicy] = useState<RetentionPolicy>({});
+  const [institutionPolicy, setInstitutionPolicy] = useState<RetentionPolicy>({});
+  const [scope, setScope] = useState(WORKSPACE);
+  const [draft, setDraft] = useState<CourseRetentionPolicy>({});
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const course = courses.find((item) => item.id === scope);
+  // A course inherits the workspace rules until it sets its own, and the workspace inherits the institution's.
+  const inherited = resolveRetentionPolicy(course ? workspacePolicy : undefined, undefined, institutionPolicy);
+  const effective = resolveRetentionPolicy(course ? workspacePolicy : undefined, draft, institutionPolicy);
+
+  useEffect(() => {
+    if (!ownerUid) return;
+    Promise.all([getWorkspaceRetentionPolicy(), getCoursesByTeacher(ownerUid, true), getInstitutionRetentionPolicy()])
+      .then(([policy, ownCourses, institutionRules]) => {
+        setWorkspacePolicy(policy);
+        setInstitutionPolicy(institutionRules);
+        setDraft(policy);
+        setCourses(ownCourses);
+      })
+      .catch((loadError) => setError(getUserFacingError(loadError, 'Retention settings could not be loaded. Try again.')));
+  }, [ownerUid]);
+
+  const chooseScope = (value: string) => {
+    setScope(value);
+    setNotice('');
+    setDraft(value === WORKSPACE ? workspacePolicy : courses.find((item) => item.id === value)?.retention || {});
+  };
+
+  const setRule = (category: RetentionCategory, rule: RetentionRule) => {
+    setDraft((current) => ({ ...current, [category]: rule }));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      if (course) {
+        await saveCourseRetentionPolicy(course.id, draft);
+        setCourses((current) => current.map((item) => (item.id === course.id ? { ...item, retention: draft } : item)));
+      } else {
+        await saveWorkspaceRetentionPolicy(draft);
+        setWorkspacePolicy(draft);
+      }
+      setPreview(null);
+      setNotice(course ? `${course.code || course.name} now follows these rules.` : 'Classes without their own rules now follow these.');
+    } catch (saveError) {
+      setError(getUserFacingError(saveError, 'Retention rules could not be saved. Try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetCourse = () => {
+    setDraft({ courseEndsOn: draft.courseEndsOn });
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    setError('');
+    try {
+      setPreview(await previewRetentionPurge());
+    } catch (previewError) {
+      setError(getUserFacingError(previewError, 'The dry run could not be prepared. Try again.'));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  return (
+    <Card id="retention" className="scroll-mt-8 overflow-hidden">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5 text-[#5146e5]" />
+          Data retention
+        </CardTitle>
+        <CardDescription>Choose how long each kind of student record is kept. The nightly purge at 03:00 Bangkok time follows these rules.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <label className="block max-w-sm">
+          <span className="text-sm font-semibold text-[#313950]">Rules for</span>
+          <select
+            value={scope}
+            onChange={(event) => chooseScope(event.target.value)}
+            className="mt-2 w-full rounded-xl border border-[#e3e5ed] bg-white px-3 py-2.5 text-sm text-[#101a38]"
+          >
+            <option value={WORKSPACE}>All classes</option>
+            {courses.map((item) => <option key={item.id} value={item.id}>{item.code ? `${item.code} · ${item.name}` : item.name}</option>)}
+          </select>
+        </label>
+
+        <ul className="divide-y divide-[#eceef3] rounded-2xl border border-[#e3e5ed]">
+          {RETENTION_CATEGORIES.map((category) => {
+            // The draft rule, even half-typed, so the days field does not snap back while it is edited.
+            const rule = draft[category.id] || effective[category.id];
+            const own = Boolean(draft[category.id]);
+            return (
+              <li key={category.id} className="grid gap-3 p-4 sm:grid-cols-[1fr_auto] sm:items-center">
+                <div>
+                  <p className="text-sm font-bold text-[#101a38]">{category.label}</p>
+                  <p className="mt-0.5 text-xs leading-5 text-[#697087]">
+                    {category.description} {course && !own ? `Following all classes: ${describeRetentionRule(inherited[category.id]).toLowerCase()}.` : ''}
+                    {!course && !own && institutionPolicy[category.id] ? `Following your institution: ${describeRetentionRule(inherited[category.id]).toLowerCase()}.` : ''}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {rule.after !== 'never' && (
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_RETENTION_DAYS}
+                      value={Number.isFinite(rule.days) ? rule.days : ''}
+                      aria-label={`${category.label} days`}
+                      onChange={(event) => setRule(category.id, { ...rule, days: Number(event.target.value) })}
+                      className="w-24 rounded-xl border border-[#e3e5ed] bg-white px-3 py-2 text-sm text-[#101a38]"
+                    />
+                  )}
+                  {rule.after !== 'never' && <span className="text-sm text-[#4f5770]">days</span>}
+                  <select
+                    value={rule.after}
+                    aria-label={`${category.label} retention`}
+                    onChange={(event) => {
+                      const after = event.target.value as RetentionRule['after'];
+                      setRule(category.id, { after, days: after === 'never' ? 0 : rule.days || 90 });
+                    }}
+                    className="rounded-xl border border-[#e3e5ed] bg-white px-3 py-2 text-sm text-[#101a38]"
+                  >
+                    {RETENTION_ANCHORS.map((anchor) => <option key={anchor.id} value={anchor.id}>{anchor.label}</option>)}
+                  </select>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {course && (
+          <label className="block max-w-sm">
+            <span className="text-sm font-semibold text-[#313950]">Course ends on</span>
+            <input
+              type="date"
+              value={draft.courseEndsOn || ''}
+              onChange={(event) => setDraft((current) => ({ ...current, courseEndsOn: event.target.value || undefined }))}
+              className="mt-2 w-full rounded-xl border border-[#e3e5ed] bg-white px-3 py-2.5 text-sm text-[#101a38]"
+            />
+            <span className="mt-1 block text-xs leading-5 text-[#697087]">
+              {course.meetingPattern?.endDate ? `Defaults to the last scheduled meeting, ${course.meetingPattern.endDate}.` : 'Rules that count from the course end wait until this is set.'}
+            </span>
+          </label>
+        )}
+
+        {notice && <InlineMessage tone="info" message={notice} />}
+        {error && <InlineMessage tone="error" message={error} />}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" loading={saving} onClick={save}>Save rules</Button>
+          {course && <Button type="button" variant="outline" onClick={resetCourse}>Follow all classes</Button>}
+          <Button type="button" variant="outline" loading={previewing} onClick={runPreview} className="gap-2"><Eye className="h-4 w-4" />Preview next purge</Button>
+        </div>
+
+        {preview && (
+          <section className="rounded-2xl border border-[#e3e5ed] bg-[#fbfbfd] p-5">
+            <h3 className="font-bold text-[#101a38]">Next purge · {formatDate(preview.runAt)}</h3>
+            {preview.rooms.length === 0 && preview.rewards.length === 0 ? (
+              <p className="mt-2 text-sm text-[#697087]">Nothing in your workspace is due for deletion.</p>
+            ) : (
+              <ul className="mt-3 divide-y divide-[#eceef3]">
+                {preview.rooms.map((room) => (
+                  <li key={room.sessionId} className="py-3 text-sm">
+                    <p className="font-semibold text-[#101a38]">{room.courseCode ? `${room.courseCode} · ` : ''}{room.sessionTitle || 'Untitled class'}</p>
+                    <p className="mt-0.5 text-xs leading-5 text-[#697087]">
+                      {room.wholeRoom ? 'Whole class room. ' : ''}
+                      {RETENTION_CATEGORIES.filter((category) => category.id !== 'rewards' && room.records[category.id as LiveCategory] > 0)
+                        .map((category) => `${room.records[category.id as LiveCategory]} ${category.label.toLowerCase()}`)
+                        .join(', ') || 'No student records'}
+                      {room.lastRecordedAt ? ` · last used ${formatDate(room.lastRecordedAt)}` : ''}
+                    </p>
+                  </li>
+                ))}
+                {preview.rewards.map((reward) => (
+                  <li key={reward.courseId} className="py-3 text-sm">
+                    <p className="font-semibold text-[#101a38]">{reward.courseCode || 'Class'} · rewards</p>
+                    <p className="mt-0.5 text-xs leading-5 text-[#697087]">{reward.requests} reward requests and {reward.ledgers} point ledgers</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-3 text-xs leading-5 text-[#697087]">A dry run only. Nothing has been deleted.</p>
+          </section>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
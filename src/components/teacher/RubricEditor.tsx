@@ -0,0 +1,212 @@
+'use client';
+
+import type { Rubric, RubricCriterion, RubricLevel } from '@/types';
+import { createRubric, createRubricCriterion, getCriterionMaxPoints, getRubricMaxPoints } from '@/lib/rubrics';
+import { generateId } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Textarea from '@/components/ui/Textarea';
+import { ClipboardList, Plus, Trash2 } from 'lucide-react';
+
+interface RubricEditorProps {
+  rubrics: Rubric[];
+  onChange: (rubrics: Rubric[]) => void;
+  /** Number of questions that reference each rubric, so instructors see what a delete affects. */
+  usage?: Record<string, number>;
+}
+
+export default function RubricEditor({ rubrics, onChange, usage = {} }: RubricEditorProps) {
+  const updateRubric = (rubricId: string, changes: Partial<Rubric>) => {
+    onChange(rubrics.map((rubric) => rubric.id === rubricId ? { ...rubric, ...changes } : rubric));
+  };
+
+  const updateCriterion = (rubric: Rubric, criterionId: string, changes: Partial<RubricCriterion>) => {
+    updateRubric(rubric.id, {
+      criteria: rubric.criteria.map((criterion) => criterion.id === criterionId ? { ...criterion, ...changes } : criterion),
+    });
+  };
+
+  const updateLevel = (rubric: Rubric, criterion: RubricCriterion, levelId: string, changes: Partial<RubricLevel>) => {
+    updateCriterion(rubric, criterion.id, {
+      levels: criterion.levels.map((level) => level.id === levelId ? { ...level, ...changes } : level),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Grading Rubrics</CardTitle>
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange([...rubrics, createRubric()])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Rubric
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Attach a rubric to a short answer or essay question and AI grading scores each criterion against your level descriptors.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rubrics.length === 0 && (
+          <div className="flex items-center gap-3 rounded-md bg-gray-50 p-4 text-sm text-gray-600">
+            <ClipboardList className="w-5 h-5 text-gray-400" />
+            No rubrics yet. Questions without a rubric are graded against the default learning milestones.
+          </div>
+        )}
+
+        {rubrics.map((rubric) => (
+          <Card key={rubric.id} className="bg-gray-50">
+            <CardContent className="p-4 space-y-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1">
+                  <Input
+                    label="Rubric Title"
+                    value={rubric.title}
+                    onChange={(e) => updateRubric(rubric.id, { title: e.target.value })}
+                    placeholder="e.g., Case analysis essay"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(rubrics.filter((item) => item.id !== rubric.id))}
+                  className="text-red-600 hover:text-red-700 mt-7"
+                  title={usage[rubric.id] ? `Used by ${usage[rubric.id]} question${usage[rubric.id] === 1 ? '' : 's'}` : 'Remove rubric'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <Textarea
+                label="Description (Optional)"
+                value={rubric.description || ''}
+                onChange={(e) => updateRubric(rubric.id, { description: e.target.value })}
+                placeholder="What this rubric is for and how the criteria fit together"
+                rows={2}
+              />
+
+              <p className="text-xs text-gray-500">
+                {rubric.criteria.length} criteria, {getRubricMaxPoints(rubric)} points in total
+                {usage[rubric.id] ? `, used by ${usage[rubric.id]} question${usage[rubric.id] === 1 ? '' : 's'}` : ''}.
+                Criterion scores are scaled to each question&apos;s points.
+              </p>
+
+              {rubric.criteria.map((criterion, criterionIndex) => (
+                <div key={criterion.id} className="rounded-md border border-gray-200 bg-white p-3 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 grid grid-cols-1 gap-3 md:grid-cols-2">
+                      <Input
+                        label={`Criterion ${criterionIndex + 1}`}
+                        value={criterion.name}
+                        onChange={(e) => updateCriterion(rubric, criterion.id, { name: e.target.value })}
+                        placeholder="e.g., Use of case evidence"
+                      />
+                      <Input
+                        label="What it measures"
+                        value={criterion.description || ''}
+                        onChange={(e) => updateCriterion(rubric, criterion.id, { description: e.target.value })}
+                        placeholder="Optional"
+                      />
+                    </div>
+                    {rubric.criteria.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateRubric(rubric.id, { criteria: rubric.criteria.filter((item) => item.id !== criterion.id) })}
+                        className="text-red-600 hover:text-red-700 mt-7"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-[minmax(0,1fr)_4.5rem_4.5rem_minmax(0,2fr)_2.5rem] gap-2 text-xs font-medium text-gray-500">
+                      <span>Level</span>
+                      <span>Min</span>
+                      <span>Max</span>
+                      <span>Descriptor</span>
+                      <span />
+                    </div>
+                    {criterion.levels.map((level) => (
+                      <div key={level.id} className="grid grid-cols-[minmax(0,1fr)_4.5rem_4.5rem_minmax(0,2fr)_2.5rem] gap-2 items-start">
+                        <input
+                          type="text"
+                          value={level.label}
+                          onChange={(e) => updateLevel(rubric, criterion, level.id, { label: e.target.value })}
+                          placeholder="Label"
+                          className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          value={level.minPoints}
+                          onChange={(e) => updateLevel(rubric, criterion, level.id, { minPoints: Number(e.target.value) || 0 })}
+                          aria-label={`${level.label} minimum points`}
+                          className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          value={level.maxPoints}
+                          onChange={(e) => updateLevel(rubric, criterion, level.id, { maxPoints: Number(e.target.value) || 0 })}
+                          aria-label={`${level.label} maximum points`}
+                          className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <textarea
+                          value={level.descriptor}
+                          onChange={(e) => updateLevel(rubric, criterion, level.id, { descriptor: e.target.value })}
+                          placeholder="What work at this level looks like"
+                          rows={2}
+                          className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={criterion.levels.length <= 2}
+                          onClick={() => updateCriterion(rubric, criterion.id, { levels: criterion.levels.filter((item) => item.id !== level.id) })}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateCriterion(rubric, criterion.id, {
+                          levels: [...criterion.levels, { id: generateId(), label: '', descriptor: '', minPoints: 0, maxPoints: 0 }],
+                        })}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Level
+                      </Button>
+                      <span className="text-xs text-gray-500">Up to {getCriterionMaxPoints(criterion)} points</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateRubric(rubric.id, { criteria: [...rubric.criteria, createRubricCriterion()] })}
+                className="w-full"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Criterion
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,10 +4,13 @@ import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { X, Check, X as XIcon, Clock, BookOpen } from 'lucide-react';
 import Button from '@/components/ui/Button';
-import { updateResponse, getCaseStudiesByTeacher, getSessionsByTeacher, COLLECTIONS } from '@/lib/firebase/firestore';
-import type { Response, CaseStudy, Session } from '@/types';
+import { saveGradeDecisions, getCaseStudiesByTeacher, getCaseStudyVersion, getSessionsByTeacher, COLLECTIONS } from '@/lib/firebase/firestore';
+import { applyCaseStudyVersion } from '@/lib/case-study-versions';
+import type { Response, CaseStudy, CaseStudyVersion, Session } from '@/types';
 import { Timestamp, collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { getAiSuggestedPoints, needsReview } from '@/lib/grading-queue';
 
 interface StudentResponseModalProps {
   isOpen: boolean;
@@ -24,6 +27,8 @@ interface ResponseWithContext extends Response {
   questionText?: string;
   questionType?: string;
   sessionCode?: string;
+  /** Owner of the session the response belongs to, who the grade audit is filed under. */
+  sessionTeacherId?: string;
 }
 
 export default function StudentResponseModal({
@@ -34,6 +39,7 @@ export default function StudentResponseModal({
   studentName,
   teacherId
 }: StudentResponseModalProps) {
+  const { user } = useAuth();
   const [mounted, setMounted] = useState(false);
   const [responses, setResponses] = useState<ResponseWithContext[]>([]);
   const [loading, setLoading] = useState(false);
@@ -86,11 +92,27 @@ export default function StudentResponseModal({
           });
         });
         
+        // Question text comes from the case study version each session ran
+        const pinnedVersions = new Map<string, CaseStudyVersion | null>();
+        await Promise.all(Array.from(new Set(Array.from(allResponses.values()).flatMap((response) => {
+          const session = sessionMap.get(response.sessionId);
+          const current = caseStudyMap.get(response.caseStudyId);
+          return session?.caseStudyVersion && current && session.caseStudyVersion !== current.currentVersion
+            ? [`${response.caseStudyId}:${session.caseStudyVersion}`]
+            : [];
+        }))).map(async (key) => {
+          const [caseStudyId, version] = key.split(':');
+          pinnedVersions.set(key, await getCaseStudyVersion(caseStudyId, Number(version)).catch(() => null));
+        }));
+
         // Convert to array and add context
         const responsesWithContext: ResponseWithContext[] = [];
         for (const response of allResponses.values()) {
           const session = sessionMap.get(response.sessionId);
-          const caseStudy = caseStudyMap.get(response.caseStudyId);
+          const current = caseStudyMap.get(response.caseStudyId);
+          const caseStudy = current && session?.caseStudyVersion
+            ? applyCaseStudyVersion(current, pinnedVersions.get(`${response.caseStudyId}:${session.caseStudyVersion}`))
+            : current;
           const section = caseStudy?.sections?.find(s => s.id === response.sectionId);
           const question = section?.questions?.find(q => q.id === response.questionId);
           
@@ -100,7 +122,8 @@ export default function StudentResponseModal({
             sectionTitle: section?.title || 'Unknown Section', 
             questionText: question?.text || 'Unknown Question',
             questionType: question?.type || 'unknown',
-            sessionCode: session?.sessionCode || 'Unknown Session'
+            sessionCode: session?.sessionCode || 'Unknown Session',
+            sessionTeacherId: session?.teacherId
           });
         }
         
@@ -122,53 +145,47 @@ export default function StudentResponseModal({
     loadResponses();
   }, [isOpen, studentId, studentDocId, teacherId]);
 
-  const handleApprove = async (responseId: string, maxPoints: number) => {
-    setProcessing(responseId);
+  const saveGrade = async (response: ResponseWithContext, points: number) => {
+    // The signed-in instructor grades, who may be a co-instructor; the audit belongs to the session owner
+    if (!user) return;
+    const graderUid = user.uid;
+    setProcessing(response.id);
     try {
-      await updateResponse(responseId, {
-        points: maxPoints,
-        gradedAt: Timestamp.now(),
-        gradedBy: teacherId
-      });
+      const gradedAt = await saveGradeDecisions([{
+        response,
+        points,
+        action: getAiSuggestedPoints(response) === points ? 'approve-ai' : 'override'
+      }], { uid: graderUid, name: user.name }, response.sessionTeacherId || teacherId);
 
       // Update local state
       setResponses(prev => prev.map(r => 
-        r.id === responseId 
-          ? { ...r, points: maxPoints, gradedAt: Timestamp.now(), gradedBy: teacherId }
+        r.id === response.id 
+          ? { ...r, points, gradedAt, gradedBy: graderUid, gradeStatus: getAiSuggestedPoints(r) === points ? 'approved' : 'overridden' }
           : r
       ));
     } catch (error) {
-      console.error('Error approving response:', error);
+      console.error('Error grading response:', error);
     } finally {
       setProcessing(null);
     }
   };
 
-  const handleDisapprove = async (responseId: string) => {
-    setProcessing(responseId);
-    try {
-      await updateResponse(responseId, {
-        points: 0,
-        gradedAt: Timestamp.now(),
-        gradedBy: teacherId
-      });
+  const handleApprove = (response: ResponseWithContext) => saveGrade(response, response.maxPoints);
 
-      // Update local state
-      setResponses(prev => prev.map(r => 
-        r.id === responseId 
-          ? { ...r, points: 0, gradedAt: Timestamp.now(), gradedBy: teacherId }
-          : r
-      ));
-    } catch (error) {
-      console.error('Error disapproving response:', error);
-    } finally {
-      setProcessing(null);
-    }
-  };
+  const handleDisapprove = (response: ResponseWithContext) => saveGrade(response, 0);
 
   const getStatusBadge = (response: ResponseWithContext) => {
     const isOpenEnded = response.questionType === 'text' || response.questionType === 'essay';
     
+    if (isOpenEnded && response.points !== undefined && needsReview(response)) {
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+          <Clock className="w-3 h-3 mr-1" />
+          AI Suggested
+        </span>
+      );
+    }
+
     if (response.points === undefined) {
       if (isOpenEnded) {
         return (
@@ -277,13 +294,15 @@ export default function StudentResponseModal({
                   </div>
 
                   {/* Grading Actions for Open-ended Questions */}
-                  {(response.questionType === 'text' || response.questionType === 'essay') && response.points === undefined && (
+                  {(response.questionType === 'text' || response.questionType === 'essay') && needsReview(response) && (
                     <div className="flex items-center gap-2 pt-3 border-t border-gray-200">
-                      <span className="text-sm text-gray-600 mr-2">Grade this response:</span>
+                      <span className="text-sm text-gray-600 mr-2">
+                        {getAiSuggestedPoints(response) !== null ? `AI suggests ${getAiSuggestedPoints(response)} pts:` : 'Grade this response:'}
+                      </span>
                       <Button
                         size="sm"
                         variant="secondary"
-                        onClick={() => handleApprove(response.id, response.maxPoints)}
+                        onClick={() => handleApprove(response)}
                         loading={processing === response.id}
                         disabled={!!processing}
                         className="flex items-center gap-1"
@@ -294,7 +313,7 @@ export default function StudentResponseModal({
                       <Button
                         size="sm"
                         variant="destructive"
-                        onClick={() => handleDisapprove(response.id)}
+                        onClick={() => handleDisapprove(response)}
                         loading={processing === response.id}
                         disabled={!!processing}
                         className="flex items-center gap-1"
@@ -306,7 +325,7 @@ export default function StudentResponseModal({
                   )}
 
                   {/* Already Graded Info */}
-                  {response.points !== undefined && (
+                  {response.points !== undefined && !needsReview(response) && (
                     <div className="pt-3 border-t border-gray-200">
                       <p className="text-sm text-gray-600">
                         Grade: {response.points}/{response.maxPoints} points
@@ -0,0 +1,127 @@
+import type { AssessmentProviderId, RubricCriterionScore } from '@/types';
+import {
+  assessStudentResponse,
+  DEFAULT_MILESTONES,
+  type AssessmentRequest,
+  type AssessmentResult,
+  type MilestoneDefinitions,
+} from './assessment';
+import { distributeScoreAcrossRubric, scoreWithRubric } from '@/lib/rubrics';
+
+export type { AssessmentProviderId };
+
+export interface AssessmentProvider {
+  id: AssessmentProviderId;
+  promptVersion: string;
+  assess: (request: AssessmentRequest, milestones: MilestoneDefinitions) => Promise<AssessmentResult>;
+}
+
+export interface RecordedAssessment extends Omit<AssessmentResult, 'criteria'> {
+  rubricId?: string;
+  criteria?: Record<string, RubricCriterionScore>;
+  provider: AssessmentProviderId;
+  promptVersion: string;
+  assessedAt: string;
+  fallbackFrom?: AssessmentProviderId;
+}
+
+/** Bump when the Gemini assessment prompt or its output contract changes. */
+export const GEMINI_ASSESSMENT_PROMPT_VERSION = 'gemini-assessment-v3';
+export const HEURISTIC_ASSESSMENT_PROMPT_VERSION = 'heuristic-v1';
+export const STUB_ASSESSMENT_PROMPT_VERSION = 'stub-v1';
+
+const ASSESSMENT_PROVIDER_IDS: AssessmentProviderId[] = ['gemini', 'heuristic', 'stub'];
+
+export const geminiAssessmentProvider: AssessmentProvider = {
+  id: 'gemini',
+  promptVersion: GEMINI_ASSESSMENT_PROMPT_VERSION,
+  async assess(request, milestones) {
+    // gemini.ts refuses to load without an API key, so keep it out of offline providers.
+    const { assessWithGemini } = await import('./gemini');
+    return assessWithGemini(request, milestones);
+  },
+};
+
+export const heuristicAssessmentProvider: AssessmentProvider = {
+  id: 'heuristic',
+  promptVersion: HEURISTIC_ASSESSMENT_PROMPT_VERSION,
+  assess: (request, milestones) => assessStudentResponse(request, milestones),
+};
+
+export const stubAssessmentProvider: AssessmentProvider = {
+  id: 'stub',
+  promptVersion: STUB_ASSESSMENT_PROMPT_VERSION,
+  async assess(request, milestones) {
+    const answered = request.studentResponse.trim().length > 0;
+    return {
+      score: answered ? Math.floor(request.maxPoints / 2) : 0,
+      feedback: answered ? 'Stub assessment: response received.' : 'Stub assessment: no response text.',
+      milestones: Object.fromEntries(
+        Object.keys(milestones).map((key) => [key, { achieved: answered, evidence: 'Stub assessment', confidence: 0 }]),
+      ),
+    };
+  },
+};
+
+const PROVIDERS: Record<AssessmentProviderId, AssessmentProvider> = {
+  gemini: geminiAssessmentProvider,
+  heuristic: heuristicAssessmentProvider,
+  stub: stubAssessmentProvider,
+};
+
+function isAssessmentProviderId(value: string): value is AssessmentProviderId {
+  return (ASSESSMENT_PROVIDER_IDS as string[]).includes(value);
+}
+
+/**
+ * Reads ASSESSMENT_PROVIDER. Without an explicit choice, Gemini is used when a key is configured and
+ * the heuristic scorer otherwise, so local and CI environments still grade offline.
+ */
+export function resolveAssessmentProviderId(env: Partial<Record<string, string | undefined>> = process.env): AssessmentProviderId {
+  const configured = env.ASSESSMENT_PROVIDER?.trim().toLowerCase() || '';
+  if (isAssessmentProviderId(configured)) return configured;
+  if (configured) console.warn(`Unknown ASSESSMENT_PROVIDER "${configured}". Falling back to the default provider.`);
+  return env.GEMINI_API_KEY ? 'gemini' : 'heuristic';
+}
+
+export function getAssessmentProvider(id: AssessmentProviderId = resolveAssessmentProviderId()) {
+  return PROVIDERS[id];
+}
+
+function normalizeAssessment(result: AssessmentResult, request: AssessmentRequest): Omit<RecordedAssessment, 'provider' | 'promptVersion' | 'assessedAt'> {
+  const { maxPoints, rubric } = request;
+  const score = Number.isFinite(result.score) ? Math.min(maxPoints, Math.max(0, result.score)) : 0;
+  const base = { score, feedback: result.feedback || '', milestones: result.milestones || {} };
+  if (!rubric) return base;
+  // Providers that read the rubric return per-criterion scores; the others are spread across criteria.
+  const rubricScore = result.criteria && Object.keys(result.criteria).length
+    ? scoreWithRubric(rubric, result.criteria, maxPoints)
+    : distributeScoreAcrossRubric(rubric, maxPoints ? score / maxPoints : 0, maxPoints, 'Estimated from the overall score.');
+  return { ...base, ...rubricScore, rubricId: rubric.id };
+}
+
+/**
+ * Scores a response with the configured provider and stamps which provider and prompt version produced
+ * it. With a rubric, the score is the scaled sum of the criterion scores. A failed Gemini call falls back
+ * to the heuristic scorer and records the fallback, never a silent zero.
+ */
+export async function runAssessment(
+  request: AssessmentRequest,
+  milestones: MilestoneDefinitions = DEFAULT_MILESTONES,
+  provider: AssessmentProvider = getAssessmentProvider(),
+): Promise<RecordedAssessment> {
+  try {
+    const result = await provider.assess(request, milestones);
+    return {
+      ...normalizeAssessment(result, request),
+      provider: provider.id,
+      promptVersion: provider.promptVersion,
+      assessedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (provider.id !== 'gemini') throw error;
+    console.error('Gemini assessment failed; using the heuristic scorer:', error);
+    const fallback = await runAssessment(request, milestones, heuristicAssessmentProvider);
+    return { ...fallback, fallbackFrom: provider.id };
+  }
+}
@@ -1,11 +1,16 @@
 // AI Assessment Integration
-// This module provides AI-powered assessment of student responses
+// Shared assessment types, default milestones and the offline heuristic scorer.
+// Provider selection (Gemini, heuristic, stub) lives in ./assessment-providers.
+
+import type { Rubric } from '@/types';
+import type { RawCriterionScore } from '@/lib/rubrics';
 
 interface AssessmentRequest {
   studentResponse: string;
   question: string;
   context: string;
   maxPoints: number;
+  rubric?: Rubric; // Instructor rubric attached to the question, when there is one
 }
 
 interface AssessmentResult {
@@ -18,6 +23,7 @@ interface AssessmentResult {
       confidence: number;
     };
   };
+  criteria?: Record<string, RawCriterionScore>; // Per-criterion scores keyed by rubric criterion id
 }
 
 interface MilestoneDefinitions {
@@ -57,15 +63,13 @@ const DEFAULT_MILESTONES: MilestoneDefinitions = {
   }
 };
 
-// Mock AI assessment function - in production, this would call an actual AI API
+// Keyword heuristic scorer. Used offline and as the fallback when the Gemini provider fails;
+// it does not read the response for meaning, so prefer runAssessment for anything graded.
 export async function assessStudentResponse(
   request: AssessmentRequest,
   milestones: MilestoneDefinitions = DEFAULT_MILESTONES
 ): Promise<AssessmentResult> {
   
-  // TODO: Replace with actual AI API call (e.g., OpenAI, Claude, etc.)
-  // For now, we'll simulate AI assessment with some basic heuristics
-  
   const response = request.studentResponse.toLowerCase();
   const wordCount = response.split(/\s+/).length;
   
@@ -74,7 +78,7 @@ export async function assessStudentResponse(
   let feedback = "";
   const assessedMilestones: AssessmentResult['milestones'] = {};
   
-  // Basic scoring heuristics (replace with actual AI)
+  // Basic scoring heuristics
   if (wordCount >= 50) score += 2; // Adequate length
   if (response.includes('because') || response.includes('therefore') || response.includes('however')) score += 2; // Reasoning words
   if (response.includes('data') || response.includes('evidence') || response.includes('research')) score += 2; // Evidence-based
@@ -61,15 +61,18 @@ export async function extractPdfTeachingText(data: string, fileName: string): Pr
 
 /**
  * Assesses a student's response using the Gemini Pro model, providing a score, feedback, and milestone analysis.
+ * When the request carries an instructor rubric, the model also scores each rubric criterion.
  *
- * @param {AssessmentRequest} request - The student's response and assessment context.
+ * @param {AssessmentRequest} request - The student's response, assessment context, and optional rubric.
  * @param {MilestoneDefinitions} milestones - The milestones to assess against.
  * @returns {Promise<AssessmentResult>} - A promise that resolves to the detailed assessment result.
+ * @throws When the API call fails or the model output is not a usable assessment, so callers can fall back.
  */
 export async function assessWithGemini(
   request: AssessmentRequest,
   milestones: MilestoneDefinitions = DEFAULT_MILESTONES
 ): Promise<AssessmentResult> {
+  const rubric = request.rubric;
   // Constructs a detailed prompt for the Gemini model to perform the assessment.
   const prompt = `
     Please act as an expert educator and assess the following student response based on the provided context and milestones.
@@ -82,18 +85,32 @@ export async function assessWithGemini(
     ${Object.entries(milestones)
       .map(
         ([key, milestone]) => `
-      - **${milestone.name}**: ${milestone.description} (Criteria: ${milestone.criteria})
+      - **${key}** (${milestone.name}): ${milestone.description} (Criteria: ${milestone.criteria})
     `
       )
       .join("")}
 
+    ${rubric ? `**Instructor Rubric: ${rubric.title}**
+    ${rubric.description || ''}
+    ${rubric.criteria
+      .map(
+        (criterion) => `
+      - **${criterion.id}** (${criterion.name})${criterion.description ? `: ${criterion.description}` : ''}
+        ${criterion.levels
+          .map((level) => `- Level **${level.id}** "${level.label}" (${level.minPoints}-${level.maxPoints} points): ${level.descriptor || 'No descriptor provided'}`)
+          .join("\n        ")}
+    `
+      )
+      .join("")}` : ''}
+
     **Instructions:**
-    1.  **Score:** Provide a score from 0 to ${request.maxPoints}.
+    1.  **Score:** Provide a whole-number score from 0 to ${request.maxPoints}.
     2.  **Feedback:** Offer constructive feedback for the student, highlighting strengths and areas for improvement.
     3.  **Milestone Analysis:** For each milestone, determine if it was achieved, provide evidence from the response, and a confidence score (0.0 to 1.0).
+    ${rubric ? `4.  **Rubric Scoring:** For each rubric criterion, choose the level whose descriptor best matches the response, give a score inside that level's point band, and quote the evidence. Grade only against the rubric; do not reward length.` : ''}
 
     **Output Format:**
-    Return a single JSON object with the following structure:
+    Return only a single JSON object, with no commentary, using the milestone${rubric ? ' and criterion' : ''} keys listed above:
     {
       "score": number,
       "feedback": "string",
@@ -104,7 +121,15 @@ export async function assessWithGemini(
           "confidence": number
         },
         ...
-      }
+      }${rubric ? `,
+      "criteria": {
+        "criterion_key": {
+          "levelId": "string",
+          "score": number,
+          "evidence": "string"
+        },
+        ...
+      }` : ''}
     }
   `;
 
@@ -119,35 +144,23 @@ export async function assessWithGemini(
     },
   ];
 
-  try {
-    const response = await genAI.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents,
-    });
+  const response = await genAI.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents,
+  });
 
-    let responseText = response.text || '{}';
-    
-    // Remove markdown code blocks if present
-    responseText = responseText.replace(/```json\s*|\s*```/g, '');
-    
-    const jsonResponse = JSON.parse(responseText);
-    return jsonResponse as AssessmentResult;
-  } catch (error: any) {
-    console.error("Error assessing with Gemini:", error);
-    console.error("Error details:", {
-      message: error.message,
-      status: error.status,
-      cause: error.cause
-    });
-    
-    // Returns a default error response if the API call fails.
-    return {
-      score: 0,
-      feedback:
-        "There was an error processing the assessment. Please try again.",
-      milestones: {},
-    };
+  // Remove markdown code blocks if present
+  const responseText = (response.text || '').replace(/```json\s*|\s*```/g, '');
+  const jsonResponse = JSON.parse(responseText) as Partial<AssessmentResult>;
+  if (typeof jsonResponse.score !== 'number' || typeof jsonResponse.feedback !== 'string') {
+    throw new Error('Gemini assessment response is missing a numeric score or feedback.');
   }
+  return {
+    score: jsonResponse.score,
+    feedback: jsonResponse.feedback,
+    milestones: jsonResponse.milestones || {},
+    ...(jsonResponse.criteria ? { criteria: jsonResponse.criteria } : {}),
+  };
 }
 
 /**
@@ -19,7 +19,7 @@ import { sendEvent, setUserId, setUserProperties } from './gtag';
  */
 
 export type VisitorType = 'visitor' | 'instructor' | 'student';
-export type AuthMethod = 'email' | 'google';
+export type AuthMethod = 'email' | 'google' | 'sso';
 export type ContentSource = 'manual' | 'ai';
 export type PlanId = 'pilot' | 'instructor_term' | 'instructor_annual' | 'institution';
 
@@ -0,0 +1,194 @@
+import { toCsv } from '@/lib/gradebook-export';
+import type { InstructorClassroomRecords, StoredAttendanceClaim } from '@/lib/firebase/live-classroom';
+import type { AttendanceMark, CourseAttendanceSettings, Session, Student } from '@/types';
+
+export type AttendanceRegisterState = 'present' | 'late' | 'excused' | 'absent';
+
+export type AttendanceRegisterStudent = Pick<Student, 'id' | 'studentId' | 'name'>;
+
+export type AttendanceRegisterColumn = {
+  sessionId: string;
+  title: string;
+  date: Date | null;
+  /** Live sessions have attendance claims and responses; others only have a joined list. */
+  live: boolean;
+};
+
+export type AttendanceRegisterCell = {
+  sessionId: string;
+  state: AttendanceRegisterState;
+  /** The student checked in, whether or not that met the attendance policy. */
+  joined: boolean;
+  interactions: number;
+  /** Attendance claim key in the live room, when the student checked in there. */
+  studentUid?: string;
+  mark?: AttendanceMark;
+};
+
+export type AttendanceRegisterRow = {
+  student: AttendanceRegisterStudent;
+  cells: Record<string, AttendanceRegisterCell>;
+  present: number;
+  late: number;
+  excused: number;
+  /** Present (including late) as a share of sessions that were not excused, or null when none count. */
+  rate: number | null;
+};
+
+export type AttendanceRegister = {
+  columns: AttendanceRegisterColumn[];
+  rows: AttendanceRegisterRow[];
+};
+
+export function attendanceMarkKey(studentDocId: string, sessionId: string) {
+  return `${studentDocId}:${sessionId}`;
+}
+
+/** Student number an attendance claim counts toward, including nicknames reconciled with the roster. */
+export function claimStudentNumber(claim: Pick<StoredAttendanceClaim, 'participationMode' | 'studentNumber' | 'rosterStudentNumber'>) {
+  if (claim.participationMode === 'anonymous') return '';
+  return (claim.participationMode === 'session-name' ? claim.rosterStudentNumber : claim.studentNumber) || '';
+}
+
+const numberKey = (value: string) => value.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+function sessionDate(session: Session) {
+  return session.startedAt?.toDate?.() || session.endedAt?.toDate?.() || session.createdAt?.toDate?.() || null;
+}
+
+function claimState(claim: StoredAttendanceClaim, interactions: number, minInteractions: number): AttendanceRegisterState {
+  if (claim.status === 'excused') return 'excused';
+  if (claim.status === 'confirmed') return 'present';
+  return interactions >= minInteractions ? 'present' : 'absent';
+}
+
+/**
+ * Builds the course attendance register. In a live session a student is present when their attendance
+ * claim has at least `minInteractions` responses, or when the claim was confirmed in the room; in other
+ * sessions joining is enough. An instructor's mark replaces whatever the records show. Excused sessions
+ * drop out of the student's attendance rate.
+ */
+export function buildAttendanceRegister({
+  sessions,
+  students,
+  records,
+  settings,
+}: {
+  sessions: Session[];
+  students: AttendanceRegisterStudent[];
+  records: Record<string, Pick<InstructorClassroomRecords, 'attendance' | 'responses'> | null | undefined>;
+  settings?: CourseAttendanceSettings;
+}): AttendanceRegister {
+  const minInteractions = Math.max(0, Math.floor(settings?.minInteractions ?? 0));
+  const columns = sessions.map((session): AttendanceRegisterColumn => ({
+    sessionId: session.id,
+    title: session.title || session.caseStudyTitle || 'Class session',
+    date: sessionDate(session),
+    live: Boolean(records[session.id]),
+  }));
+
+  const sessionClaims = new Map(sessions.map((session) => {
+    const record = records[session.id];
+    const byNumber = new Map<string, { studentUid: string; claim: StoredAttendanceClaim; interactions: number }>();
+    const byStudentDoc = new Map<string, { studentUid: string; claim: StoredAttendanceClaim; interactions: number }>();
+    Object.entries(record?.attendance || {}).forEach(([studentUid, claim]) => {
+      const interactions = Object.values(record?.responses || {}).filter((runResponses) => runResponses?.[studentUid]).length;
+      const entry = { studentUid, claim, interactions };
+      const number = numberKey(claimStudentNumber(claim));
+      if (number) byNumber.set(number, entry);
+      if (claim.participationMode === 'session-name' && claim.rosterStudentId) byStudentDoc.set(claim.rosterStudentId, entry);
+    });
+    return [session.id, { byNumber, byStudentDoc }];
+  }));
+
+  const rows = students.map((student): AttendanceRegisterRow => {
+    const cells: Record<string, AttendanceRegisterCell> = {};
+    let present = 0;
+    let late = 0;
+    let excused = 0;
+    sessions.forEach((session) => {
+      const mark = settings?.marks?.[attendanceMarkKey(student.id, session.id)];
+      const claims = sessionClaims.get(session.id);
+      const found = claims?.byStudentDoc.get(student.id) || claims?.byNumber.get(numberKey(student.studentId));
+      const joinedList = Boolean(session.studentsJoined?.includes(student.id) || session.studentsJoined?.some((value) => numberKey(value) === numberKey(student.studentId)));
+      const recorded: AttendanceRegisterState = found
+        ? claimState(found.claim, found.interactions, minInteractions)
+        : joinedList ? 'present' : 'absent';
+      const state: AttendanceRegisterState = !mark
+        ? recorded
+        : mark.status === 'confirmed' ? (mark.late ? 'late' : 'present') : mark.status;
+      if (state === 'present') present += 1;
+      if (state === 'late') late += 1;
+      if (state === 'excused') excused += 1;
+      cells[session.id] = {
+        sessionId: session.id,
+        state,
+        joined: Boolean(found) || joinedList,
+        interactions: found?.interactions || 0,
+        ...(found ? { studentUid: found.studentUid } : {}),
+        ...(mark ? { mark } : {}),
+      };
+    });
+    const counted = sessions.length - excused;
+    return {
+      student,
+      cells,
+      present,
+      late,
+      excused,
+      rate: counted ? Math.round(((present + late) / counted) * 100) : null,
+    };
+  }).sort((a, b) => a.student.name.localeCompare(b.student.name) || a.student.studentId.localeCompare(b.student.studentId));
+
+  return { columns, rows };
+}
+
+/** Returns the marks map with each key set to `mark`, or cleared when `mark` is null. */
+export function applyAttendanceMarks(marks: Record<string, AttendanceMark> | undefined, keys: string[], mark: AttendanceMark | null) {
+  const next = { ...(marks || {}) };
+  keys.forEach((key) => {
+    if (mark) next[key] = mark;
+    else delete next[key];
+  });
+  return next;
+}
+
+const STATE_LABELS: Record<AttendanceRegisterState, string> = {
+  present: 'Present',
+  late: 'Late',
+  excused: 'Excused',
+  absent: 'Absent',
+};
+
+export function attendanceStateLabel(cell: AttendanceRegisterCell) {
+  const label = STATE_LABELS[cell.state];
+  return cell.state === 'excused' && cell.mark?.reason ? `${label}: ${cell.mark.reason}` : label;
+}
+
+/** One row per student and one column per session, followed by the counts and attendance rate. */
+export function exportAttendanceCsv(register: AttendanceRegister) {
+  const dateFormat = new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit' });
+  return toCsv([
+    [
+      'Student ID',
+      'Name',
+      ...register.columns.map((column) => column.date ? `${column.title} (${dateFormat.format(column.date)})` : column.title),
+      'Present',
+      'Late',
+      'Excused',
+      'Attendance %',
+    ],
+    ...register.rows.map((row) => [
+      row.student.studentId,
+      row.student.name,
+      ...register.columns.map((column) => {
+        const cell = row.cells[column.sessionId];
+        return cell ? attendanceStateLabel(cell) : '';
+      }),
+      row.present + row.late,
+      row.late,
+      row.excused,
+      row.rate === null ? '' : row.rate,
+    ]),
+  ]);
+}
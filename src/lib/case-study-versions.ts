@@ -0,0 +1,144 @@
+import type { CaseStudy, CaseStudyVersion, Question, Section } from '@/types';
+
+/** Case study fields that make up a version. Everything else (owner, course, archive state) is not versioned. */
+export const VERSIONED_CASE_STUDY_FIELDS = ['title', 'description', 'sections', 'totalPoints', 'conclusionGuidance', 'rubrics'] as const;
+
+export type CaseStudyVersionContent = Pick<CaseStudyVersion, (typeof VERSIONED_CASE_STUDY_FIELDS)[number]>;
+
+export type SectionChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type SectionDiff = {
+  sectionId: string;
+  title: string;
+  change: SectionChange;
+  /** Position in the newer version, or in the older one for removed sections. */
+  index: number;
+  moved: boolean;
+  /** Labels of the section fields that differ, such as "Title" or "Reading". */
+  fields: string[];
+  questions: { added: number; removed: number; edited: number };
+};
+
+export type CaseStudyVersionDiff = {
+  /** Labels of case-level fields that differ. */
+  fields: string[];
+  sections: SectionDiff[];
+};
+
+/** JSON with sorted keys, so content read back from Firestore compares equal to what was written. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const same = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+/** The versioned fields of a case study or update, leaving out the ones that are not set. */
+export function caseStudyVersionContent(source: Partial<CaseStudyVersionContent>): Partial<CaseStudyVersionContent> {
+  const content: Partial<CaseStudyVersionContent> = {};
+  VERSIONED_CASE_STUDY_FIELDS.forEach((field) => {
+    if (source[field] !== undefined) (content as Record<string, unknown>)[field] = source[field];
+  });
+  return content;
+}
+
+export function touchesVersionedContent(update: Partial<CaseStudyVersionContent>) {
+  return VERSIONED_CASE_STUDY_FIELDS.some((field) => update[field] !== undefined);
+}
+
+export function sameCaseStudyContent(a: Partial<CaseStudyVersionContent>, b: Partial<CaseStudyVersionContent>) {
+  return same(caseStudyVersionContent(a), caseStudyVersionContent(b));
+}
+
+/** The case study as it was at `version`; a missing version leaves the current content in place. */
+export function applyCaseStudyVersion(caseStudy: CaseStudy, version: CaseStudyVersion | null | undefined): CaseStudy {
+  if (!version) return caseStudy;
+  return {
+    ...caseStudy,
+    title: version.title,
+    description: version.description,
+    sections: version.sections,
+    totalPoints: version.totalPoints,
+    conclusionGuidance: version.conclusionGuidance,
+    rubrics: version.rubrics,
+    currentVersion: version.version,
+  };
+}
+
+const CASE_FIELD_LABELS: Array<[keyof CaseStudyVersionContent, string]> = [
+  ['title', 'Title'],
+  ['description', 'Description'],
+  ['conclusionGuidance', 'Conclusion guidance'],
+  ['rubrics', 'Rubrics'],
+];
+
+const SECTION_FIELD_LABELS: Array<[keyof Section, string]> = [
+  ['title', 'Title'],
+  ['type', 'Section type'],
+  ['content', 'Reading'],
+  ['discussionPrompt', 'Discussion prompt'],
+  ['activityInstructions', 'Activity instructions'],
+];
+
+function diffQuestions(before: Question[], after: Question[]) {
+  const previous = new Map(before.map((question) => [question.id, question]));
+  const next = new Set(after.map((question) => question.id));
+  return {
+    added: after.filter((question) => !previous.has(question.id)).length,
+    removed: before.filter((question) => !next.has(question.id)).length,
+    edited: after.filter((question) => previous.has(question.id) && !same(previous.get(question.id), question)).length,
+  };
+}
+
+/**
+ * Section-by-section differences from `before` to `after`. Sections are matched by id, so a renamed or
+ * moved section shows as changed rather than as one removed and one added. Removed sections come last.
+ */
+export function diffCaseStudyVersions(before: CaseStudyVersionContent, after: CaseStudyVersionContent): CaseStudyVersionDiff {
+  const fields = CASE_FIELD_LABELS
+    .filter(([field]) => !same(before[field] || (field === 'rubrics' ? [] : ''), after[field] || (field === 'rubrics' ? [] : '')))
+    .map(([, label]) => label);
+  const previousSections = new Map(before.sections.map((section) => [section.id, section]));
+  const nextIds = new Set(after.sections.map((section) => section.id));
+  const previousOrder = before.sections.filter((section) => nextIds.has(section.id)).map((section) => section.id);
+  const keptOrder = after.sections.filter((section) => previousSections.has(section.id)).map((section) => section.id);
+
+  const sections = after.sections.map((section, index): SectionDiff => {
+    const previous = previousSections.get(section.id);
+    if (!previous) {
+      return { sectionId: section.id, title: section.title, change: 'added', index, moved: false, fields: [], questions: { added: section.questions.length, removed: 0, edited: 0 } };
+    }
+    const sectionFields = SECTION_FIELD_LABELS
+      .filter(([field]) => !same(previous[field] || '', section[field] || ''))
+      .map(([, label]) => label);
+    const questions = diffQuestions(previous.questions || [], section.questions || []);
+    const keptQuestionIds = (list: Question[], other: Question[]) => list.filter((question) => other.some((item) => item.id === question.id)).map((question) => question.id);
+    if (!same(keptQuestionIds(previous.questions || [], section.questions || []), keptQuestionIds(section.questions || [], previous.questions || []))) {
+      sectionFields.push('Question order');
+    }
+    const moved = previousOrder.indexOf(section.id) !== keptOrder.indexOf(section.id);
+    return {
+      sectionId: section.id,
+      title: section.title,
+      change: moved || sectionFields.length || questions.added + questions.removed + questions.edited ? 'changed' : 'unchanged',
+      index,
+      moved,
+      fields: sectionFields,
+      questions,
+    };
+  });
+
+  before.sections.forEach((section, index) => {
+    if (nextIds.has(section.id)) return;
+    sections.push({ sectionId: section.id, title: section.title, change: 'removed', index, moved: false, fields: [], questions: { added: 0, removed: section.questions.length, edited: 0 } });
+  });
+
+  return { fields, sections };
+}
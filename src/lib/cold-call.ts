@@ -0,0 +1,185 @@
+import { claimStudentNumber } from '@/lib/attendance-register';
+import { toCsv } from '@/lib/gradebook-export';
+import type { StoredAttendanceClaim } from '@/lib/firebase/live-classroom';
+import type { ColdCallEntry, ColdCallQuality, RewardDefinition, RewardRequest } from '@/types';
+
+export const COLD_CALL_QUALITY_LABELS: Record<ColdCallQuality, string> = {
+  3: 'Strong',
+  2: 'Solid',
+  1: 'Not yet',
+};
+
+/** Wheel entries for one student, with the student number kept back from the projector. */
+export type ColdCallCandidate = { label: string; studentNumber: string };
+
+export type ColdCallSummary = {
+  calls: number;
+  answered: number;
+  passed: number;
+  absent: number;
+  /** Mean of the 1–3 marks on answered calls, or null before any were marked. */
+  averageQuality: number | null;
+  lastCalledAt: number | null;
+};
+
+export function coldCallKey(studentNumber: string) {
+  return studentNumber.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/** Turns each student has had this term. A call while the student was out of the room does not use one up. */
+export function coldCallCounts(entries: Array<Pick<ColdCallEntry, 'studentNumber' | 'outcome'>>) {
+  const counts: Record<string, number> = {};
+  for (const entry of entries) {
+    const key = coldCallKey(entry.studentNumber);
+    if (!key || entry.outcome === 'absent') continue;
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+}
+
+/** Students checked in to the live room under a course record. Excused and anonymous check-ins cannot be called on. */
+export function coldCallCandidates(attendance: Array<Pick<StoredAttendanceClaim, 'status' | 'participationMode' | 'studentNumber' | 'rosterStudentNumber' | 'studentDisplayName'>>): ColdCallCandidate[] {
+  return attendance.flatMap((claim) => {
+    const studentNumber = claim.status === 'excused' ? '' : claimStudentNumber(claim);
+    return studentNumber ? [{ label: claim.studentDisplayName?.trim() || '', studentNumber }] : [];
+  });
+}
+
+/**
+ * Falls off with the square of previous calls: a student who has not been called yet is four times as likely
+ * to come up as one called once, and nine times as likely as one called twice.
+ */
+export function coldCallWeight(calls: number) {
+  return 1 / (Math.max(0, calls) + 1) ** 2;
+}
+
+/**
+ * The cold-call wheel: everyone checked in with a course record who has not opted out, weighted by how often
+ * they have been called this term. Labels stay unique so the wheel can remove a selection by name.
+ */
+export function buildColdCallWheel(candidates: ColdCallCandidate[], counts: Record<string, number> = {}, optedOut: string[] = []) {
+  const skipped = new Set(optedOut.map(coldCallKey));
+  const seenStudents = new Set<string>();
+  const seenLabels = new Set<string>();
+  const wheel = { items: [] as string[], weights: [] as number[], studentNumbers: [] as string[] };
+  for (const candidate of candidates) {
+    const key = coldCallKey(candidate.studentNumber);
+    if (!key || skipped.has(key) || seenStudents.has(key)) continue;
+    seenStudents.add(key);
+    const name = candidate.label.trim() || `Student •${candidate.studentNumber.slice(-4)}`;
+    const label = seenLabels.has(name.toLocaleLowerCase()) ? `${name} •${candidate.studentNumber.slice(-4)}` : name;
+    seenLabels.add(label.toLocaleLowerCase());
+    wheel.items.push(label);
+    wheel.weights.push(coldCallWeight(counts[key] || 0));
+    wheel.studentNumbers.push(candidate.studentNumber);
+    if (wheel.items.length === 40) break;
+  }
+  return wheel;
+}
+
+/** Picks a wheel sector for a random `fraction` in [0, 1). Without usable weights every sector is equally likely. */
+export function pickWeightedIndex(itemCount: number, fraction: number, weights?: number[]) {
+  if (itemCount <= 0) return -1;
+  const usable = weights?.length === itemCount && weights.every((weight) => Number.isFinite(weight) && weight >= 0)
+    ? weights
+    : null;
+  const total = usable?.reduce((sum, weight) => sum + weight, 0) || 0;
+  if (!usable || total <= 0) return Math.min(itemCount - 1, Math.floor(fraction * itemCount));
+  let threshold = fraction * total;
+  for (let index = 0; index < itemCount; index += 1) {
+    threshold -= usable[index];
+    if (threshold < 0) return index;
+  }
+  return itemCount - 1;
+}
+
+export function summarizeColdCalls(entries: Array<Pick<ColdCallEntry, 'studentNumber' | 'outcome' | 'quality' | 'calledAt'>>) {
+  const summaries: Record<string, ColdCallSummary> = {};
+  const qualityTotals: Record<string, { sum: number; count: number }> = {};
+  for (const entry of entries) {
+    const key = coldCallKey(entry.studentNumber);
+    if (!key) continue;
+    const summary = summaries[key] ||= { calls: 0, answered: 0, passed: 0, absent: 0, averageQuality: null, lastCalledAt: null };
+    summary[entry.outcome] += 1;
+    if (entry.outcome !== 'absent') summary.calls += 1;
+    if (entry.outcome === 'answered' && entry.quality) {
+      const totals = qualityTotals[key] ||= { sum: 0, count: 0 };
+      totals.sum += entry.quality;
+      totals.count += 1;
+      summary.averageQuality = Math.round((totals.sum / totals.count) * 10) / 10;
+    }
+    const calledAt = entry.calledAt?.toMillis?.() ?? null;
+    if (calledAt !== null && (summary.lastCalledAt === null || calledAt > summary.lastCalledAt)) summary.lastCalledAt = calledAt;
+  }
+  return summaries;
+}
+
+/** Approved pass rewards the student can still spend on a cold call, earliest approval first. */
+export function unusedColdCallPasses(
+  requests: RewardRequest[],
+  definitions: Pick<RewardDefinition, 'id' | 'kind'>[],
+  studentNumber: string,
+) {
+  const passRewardIds = new Set(definitions.filter((definition) => definition.kind === 'pass').map((definition) => definition.id));
+  const key = coldCallKey(studentNumber);
+  return requests
+    .filter((request) => request.status === 'approved' && passRewardIds.has(request.rewardId) && coldCallKey(request.studentNumber) === key)
+    .sort((a, b) => (a.reviewedAt?.toMillis?.() || 0) - (b.reviewedAt?.toMillis?.() || 0));
+}
+
+export type ColdCallRow<Entry> = {
+  studentNumber: string;
+  name: string;
+  /** False for a student who was called in class but is not on the imported roster. */
+  onRoster: boolean;
+  optedOut: boolean;
+  summary: ColdCallSummary;
+  /** This student's calls, newest first. */
+  entries: Entry[];
+};
+
+const EMPTY_SUMMARY: ColdCallSummary = { calls: 0, answered: 0, passed: 0, absent: 0, averageQuality: null, lastCalledAt: null };
+
+/** One row per roster student, followed by anyone called in class who is not on the roster. */
+export function buildColdCallRows<Entry extends Pick<ColdCallEntry, 'studentNumber' | 'studentName' | 'outcome' | 'quality' | 'calledAt'>>(
+  students: Array<{ studentId: string; name: string }>,
+  entries: Entry[],
+  optedOut: string[] = [],
+): ColdCallRow<Entry>[] {
+  const skipped = new Set(optedOut.map(coldCallKey));
+  const summaries = summarizeColdCalls(entries);
+  const byStudent = new Map<string, Entry[]>();
+  for (const entry of [...entries].sort((a, b) => (b.calledAt?.toMillis?.() || 0) - (a.calledAt?.toMillis?.() || 0))) {
+    const key = coldCallKey(entry.studentNumber);
+    if (key) byStudent.set(key, [...(byStudent.get(key) || []), entry]);
+  }
+  const row = (studentNumber: string, name: string, onRoster: boolean): ColdCallRow<Entry> => {
+    const key = coldCallKey(studentNumber);
+    return { studentNumber, name, onRoster, optedOut: skipped.has(key), summary: summaries[key] || EMPTY_SUMMARY, entries: byStudent.get(key) || [] };
+  };
+  const rosterKeys = new Set(students.map((student) => coldCallKey(student.studentId)));
+  const rosterRows = [...students]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((student) => row(student.studentId, student.name, true));
+  const otherRows = [...byStudent.entries()]
+    .filter(([key]) => !rosterKeys.has(key))
+    .map(([, studentEntries]) => row(studentEntries[0].studentNumber, studentEntries[0].studentName, false))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...rosterRows, ...otherRows];
+}
+
+export function exportColdCallCsv(rows: ColdCallRow<unknown>[]) {
+  return toCsv([
+    ['Student ID', 'Name', 'Calls', 'Answered', 'Passes used', 'Not here', 'Average mark (1-3)', 'Opted out'],
+    ...rows.map((row) => [
+      row.studentNumber,
+      row.name,
+      row.summary.calls,
+      row.summary.answered,
+      row.summary.passed,
+      row.summary.absent,
+      row.summary.averageQuality ?? '',
+      row.optedOut ? 'Yes' : '',
+    ]),
+  ]);
+}
@@ -0,0 +1,166 @@
+import { coldCallKey, type ColdCallCandidate } from '@/lib/cold-call';
+import { toCsv } from '@/lib/gradebook-export';
+import type { ContributionMark, ContributionMarkLevel, Student, StudentGrade } from '@/types';
+
+export const CONTRIBUTION_MARK_LABELS: Record<ContributionMarkLevel, string> = {
+  3: 'Insightful',
+  2: 'Building',
+  1: 'Factual',
+};
+
+export const CONTRIBUTION_MARK_HINTS: Record<ContributionMarkLevel, string> = {
+  3: 'Moved the discussion somewhere new',
+  2: 'Extended or challenged a classmate',
+  1: 'Added a fact or clarified the case',
+};
+
+export type ContributionSummary = {
+  marks: number;
+  points: number;
+  /** How many marks were given at each level. */
+  levels: Record<ContributionMarkLevel, number>;
+  /** Mean of the 1–3 marks, or null before any were given. */
+  averageMark: number | null;
+  /** Live sessions with at least one mark. */
+  sessions: number;
+  lastMarkedAt: number | null;
+};
+
+/** Student numbers are matched the same way as in the cold-call history. */
+export const contributionKey = coldCallKey;
+
+const emptySummary = (): ContributionSummary => ({ marks: 0, points: 0, levels: { 1: 0, 2: 0, 3: 0 }, averageMark: null, sessions: 0, lastMarkedAt: null });
+
+export function summarizeContributions(entries: Array<Pick<ContributionMark, 'studentNumber' | 'sessionId' | 'mark' | 'markedAt'>>) {
+  const summaries: Record<string, ContributionSummary> = {};
+  const sessions: Record<string, Set<string>> = {};
+  for (const entry of entries) {
+    const key = contributionKey(entry.studentNumber);
+    if (!key || !CONTRIBUTION_MARK_LABELS[entry.mark]) continue;
+    const summary = summaries[key] ||= emptySummary();
+    summary.marks += 1;
+    summary.points += entry.mark;
+    summary.levels[entry.mark] += 1;
+    summary.averageMark = Math.round((summary.points / summary.marks) * 10) / 10;
+    (sessions[key] ||= new Set()).add(entry.sessionId);
+    summary.sessions = sessions[key].size;
+    const markedAt = entry.markedAt?.toMillis?.() ?? null;
+    if (markedAt !== null && (summary.lastMarkedAt === null || markedAt > summary.lastMarkedAt)) summary.lastMarkedAt = markedAt;
+  }
+  return summaries;
+}
+
+/** A checked-in student on the live tagging list, with what they have earned so far this class. */
+export type LiveContributionStudent = {
+  studentNumber: string;
+  name: string;
+  marks: number;
+  lastMark: ContributionMarkLevel | null;
+};
+
+/**
+ * The live tagging list: each checked-in student with a course record once, alphabetically, with this
+ * session's marks counted against them.
+ */
+export function liveContributionStudents(
+  candidates: ColdCallCandidate[],
+  sessionMarks: Array<Pick<ContributionMark, 'studentNumber' | 'mark' | 'markedAt'>>,
+): LiveContributionStudent[] {
+  const latestFirst = [...sessionMarks].sort((a, b) => (b.markedAt?.toMillis?.() || 0) - (a.markedAt?.toMillis?.() || 0));
+  const seen = new Set<string>();
+  return candidates.flatMap((candidate) => {
+    const key = contributionKey(candidate.studentNumber);
+    if (!key || seen.has(key)) return [];
+    seen.add(key);
+    const marks = latestFirst.filter((mark) => contributionKey(mark.studentNumber) === key);
+    return [{
+      studentNumber: candidate.studentNumber,
+      name: candidate.label.trim() || `Student •${candidate.studentNumber.slice(-4)}`,
+      marks: marks.length,
+      lastMark: marks[0]?.mark ?? null,
+    }];
+  }).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export type ContributionRow<Entry> = {
+  studentNumber: string;
+  name: string;
+  /** The roster student's document id, or null for someone marked in class who is not on the roster. */
+  studentDocId: string | null;
+  summary: ContributionSummary;
+  /** This student's marks, newest first. */
+  entries: Entry[];
+};
+
+/** One row per roster student, followed by anyone marked in class who is not on the roster. */
+export function buildContributionRows<Entry extends Pick<ContributionMark, 'studentNumber' | 'studentName' | 'sessionId' | 'mark' | 'markedAt'>>(
+  students: Array<Pick<Student, 'id' | 'studentId' | 'name'>>,
+  entries: Entry[],
+): ContributionRow<Entry>[] {
+  const summaries = summarizeContributions(entries);
+  const byStudent = new Map<string, Entry[]>();
+  for (const entry of [...entries].sort((a, b) => (b.markedAt?.toMillis?.() || 0) - (a.markedAt?.toMillis?.() || 0))) {
+    const key = contributionKey(entry.studentNumber);
+    if (key) byStudent.set(key, [...(byStudent.get(key) || []), entry]);
+  }
+  const row = (studentNumber: string, name: string, studentDocId: string | null): ContributionRow<Entry> => {
+    const key = contributionKey(studentNumber);
+    return { studentNumber, name, studentDocId, summary: summaries[key] || emptySummary(), entries: byStudent.get(key) || [] };
+  };
+  const rosterKeys = new Set(students.map((student) => contributionKey(student.studentId)));
+  const rosterRows = [...students]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((student) => row(student.studentId, student.name, student.id));
+  const otherRows = [...byStudent.entries()]
+    .filter(([key]) => !rosterKeys.has(key))
+    .map(([, studentEntries]) => row(studentEntries[0].studentNumber, studentEntries[0].studentName, null))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...rosterRows, ...otherRows];
+}
+
+/** Points that earn full participation credit when the instructor has not set a target: the class's top contributor. */
+export function defaultContributionTarget(rows: ContributionRow<unknown>[]) {
+  return Math.max(0, ...rows.filter((row) => row.studentDocId).map((row) => row.summary.points));
+}
+
+/** Participation percentage for `points` against the full-credit target, or null when there is no target yet. */
+export function contributionRate(points: number, fullCreditPoints: number) {
+  if (!Number.isFinite(fullCreditPoints) || fullCreditPoints <= 0) return null;
+  return Math.min(100, Math.round((Math.max(0, points) / fullCreditPoints) * 100));
+}
+
+/**
+ * Grade records for roster students, ready for `saveContributionRates`. Students with no marks get 0%,
+ * since in a contribution-graded course silence is part of the record.
+ */
+export function toContributionGrades(rows: ContributionRow<unknown>[], fullCreditPoints: number): Array<{ studentId: string; contribution: NonNullable<StudentGrade['contribution']> }> {
+  if (contributionRate(0, fullCreditPoints) === null) return [];
+  return rows.flatMap((row) => row.studentDocId ? [{
+    studentId: row.studentDocId,
+    contribution: {
+      rate: contributionRate(row.summary.points, fullCreditPoints) ?? 0,
+      marks: row.summary.marks,
+      points: row.summary.points,
+      averageMark: row.summary.averageMark,
+      sessions: row.summary.sessions,
+    },
+  }] : []);
+}
+
+export function exportContributionCsv(rows: ContributionRow<unknown>[], fullCreditPoints: number) {
+  return toCsv([
+    ['Student ID', 'Name', 'Marks', CONTRIBUTION_MARK_LABELS[3], CONTRIBUTION_MARK_LABELS[2], CONTRIBUTION_MARK_LABELS[1], 'Points', 'Average mark (1-3)', 'Classes', 'Participation %'],
+    ...rows.map((row) => [
+      row.studentNumber,
+      row.name,
+      row.summary.marks,
+      row.summary.levels[3],
+      row.summary.levels[2],
+      row.summary.levels[1],
+      row.summary.points,
+      row.summary.averageMark ?? '',
+      row.summary.sessions,
+      contributionRate(row.summary.points, fullCreditPoints) ?? '',
+    ]),
+  ]);
+}
@@ -0,0 +1,92 @@
+export type DebateSide = 0 | 1;
+
+export type DebateSideSource = 'random' | 'teams';
+
+/** An argument as it appears on the board; `votes` counts classmates who upvoted it. */
+export type DebateArgument = {
+  id: string;
+  side: DebateSide;
+  text: string;
+  votes: number;
+  submittedAt: number;
+};
+
+export const DEFAULT_DEBATE_SIDES = ['For', 'Against'] as const;
+export const MAX_DEBATE_ARGUMENT_LENGTH = 200;
+export const MAX_DEBATE_ARGUMENTS_PER_STUDENT = 3;
+/** Arguments kept on the shared board; the rest stay with the instructor. */
+export const MAX_DEBATE_BOARD_ARGUMENTS = 24;
+
+export function debateSideLabels(options?: string[]): [string, string] {
+  return [
+    options?.[0]?.trim() || DEFAULT_DEBATE_SIDES[0],
+    options?.[1]?.trim() || DEFAULT_DEBATE_SIDES[1],
+  ];
+}
+
+function hash(value: string) {
+  let result = 2166136261;
+  for (let index = 0; index < value.length; index += 1) {
+    result ^= value.charCodeAt(index);
+    result = Math.imul(result, 16777619);
+  }
+  return result >>> 0;
+}
+
+/**
+ * Splits course teams across the two sides, largest team first onto whichever side has fewer students so far,
+ * so the room stays roughly even when teams differ in size.
+ */
+export function assignTeamDebateSides(teams: Array<{ id: string; memberCount?: number; members?: unknown[] }>): Record<string, DebateSide> {
+  const totals = [0, 0];
+  const sides: Record<string, DebateSide> = {};
+  [...teams]
+    .map((team) => ({ id: team.id, size: team.members?.length ?? team.memberCount ?? 0 }))
+    .sort((a, b) => b.size - a.size || a.id.localeCompare(b.id))
+    .forEach((team) => {
+      const side: DebateSide = totals[0] <= totals[1] ? 0 : 1;
+      sides[team.id] = side;
+      totals[side] += Math.max(1, team.size);
+    });
+  return sides;
+}
+
+/**
+ * The side a student argues. A student on a team that was given a side follows the team; everyone else is
+ * placed by a hash of their id and the debate, so the same phone keeps its side through every round.
+ */
+export function debateSideFor(studentUid: string, seed: string, teamId?: string, teamSides?: Record<string, DebateSide>): DebateSide {
+  const teamSide = teamId ? teamSides?.[teamId] : undefined;
+  if (teamSide === 0 || teamSide === 1) return teamSide;
+  return (hash(`${seed}:${studentUid}`) % 2) as DebateSide;
+}
+
+export function normalizeDebateArgument(text: string) {
+  return text.trim().replace(/\s+/g, ' ').slice(0, MAX_DEBATE_ARGUMENT_LENGTH);
+}
+
+/** Most upvoted first; ties go to the earlier argument so the board does not reshuffle on every post. */
+export function rankDebateArguments(
+  items: Array<Omit<DebateArgument, 'votes'>>,
+  votes: Record<string, number> = {},
+  limit = MAX_DEBATE_BOARD_ARGUMENTS,
+): DebateArgument[] {
+  return items
+    .filter((item) => (item.side === 0 || item.side === 1) && item.text.trim())
+    .map((item) => ({ ...item, votes: votes[item.id] || 0 }))
+    .sort((a, b) => b.votes - a.votes || a.submittedAt - b.submittedAt)
+    .slice(0, limit);
+}
+
+/** Share of stance votes on the first side, or null before anyone has voted. */
+export function debateStanceShare(optionCounts: number[] = []) {
+  const total = (optionCounts[0] || 0) + (optionCounts[1] || 0);
+  return total ? Math.round(((optionCounts[0] || 0) / total) * 100) : null;
+}
+
+/** How far the room moved toward the first side between the opening and closing votes, in percentage points. */
+export function debateStanceShift(before: number[] = [], after: number[] = []) {
+  const start = debateStanceShare(before);
+  const end = debateStanceShare(after);
+  return start === null || end === null ? null : end - start;
+}
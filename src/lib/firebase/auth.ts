@@ -6,6 +6,8 @@ import {
   signInWithPopup,
   signOut,
   onAuthStateChanged,
+  SAMLAuthProvider,
+  signInWithCustomToken,
   User,
   updateProfile
 } from 'firebase/auth';
@@ -15,6 +17,7 @@ import { auth, db, functions } from './config';
 import type { AuthUser, Teacher } from '@/types';
 import { COLLECTIONS } from './firestore';
 import { getUserFacingError } from '@/lib/user-facing-error';
+import { satisfiesSsoPolicy } from '@/lib/institution';
 
 const googleProvider = new GoogleAuthProvider();
 googleProvider.setCustomParameters({ prompt: 'select_account' });
@@ -24,6 +27,28 @@ const registerInstructorCall = httpsCallable<
   { teacherId: string; name: string; email: string; created: boolean }
 >(functions, 'getInstructorBilling');
 
+const institutionSignInCall = httpsCallable<
+  { action: 'start'; email: string } | { action: 'redeem'; ticket: string },
+  { protocol: 'oidc'; institutionName: string; authorizationUrl: string }
+    | { protocol: 'saml'; institutionName: string; providerId: string }
+    | { token: string }
+>(functions, 'institutionSignIn');
+
+const joinInstitutionCall = httpsCallable<{ action: 'join' }, { institutionId: string }>(functions, 'manageInstitution');
+
+export const SSO_REQUIRED_MESSAGE = 'Your institution requires single sign-on. Choose Use single sign-on and enter your institution email.';
+
+/**
+ * Signs out a session that does not meet the institution's SSO policy. The functions and security rules
+ * refuse it anyway; this makes the sign-in fail with a clear message instead of every later read.
+ */
+const assertSsoPolicy = async (user: User) => {
+  const { claims } = await user.getIdTokenResult();
+  if (satisfiesSsoPolicy(claims)) return;
+  await signOut(auth);
+  throw new Error(SSO_REQUIRED_MESSAGE);
+};
+
 const getBrowserTimeZone = (): string => {
   try {
     return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
@@ -95,6 +120,7 @@ export const signInTeacher = async (email: string, password: string): Promise<Au
     }
   }
   
+  await assertSsoPolicy(user);
   const teacherData = teacherDoc.data() as Teacher;
   await saveMissingTeacherTimeZone(teacherRef, teacherData);
   
@@ -120,6 +146,7 @@ export const signInTeacherWithGoogle = async (invitationToken?: string): Promise
   const teacherSnapshot = await getDoc(teacherRef);
 
   if (teacherSnapshot.exists()) {
+    await assertSsoPolicy(user);
     const teacher = teacherSnapshot.data() as Teacher;
     await saveMissingTeacherTimeZone(teacherRef, teacher);
     return { ...toTeacherAuthUser(user, teacher), createdAccount: false };
@@ -219,6 +246,57 @@ export const signUpTeacher = async (
   };
 };
 
+/**
+ * Starts a sign-in through the institution that verified the email's domain. OIDC leaves the page for
+ * the identity provider and returns through /login/sso, so it resolves to null. SAML signs in with a
+ * popup, creates the instructor profile on first use and joins the institution.
+ */
+export const signInTeacherWithInstitution = async (email: string): Promise<AuthUser | null> => {
+  const start = (await institutionSignInCall({ action: 'start', email: email.trim() })).data;
+  if ('authorizationUrl' in start) {
+    window.location.assign(start.authorizationUrl);
+    return null;
+  }
+  if (!('providerId' in start)) throw new Error('Single sign-on could not start. Try again.');
+
+  const userCredential = await signInWithPopup(auth, new SAMLAuthProvider(start.providerId));
+  const user = userCredential.user;
+  if (!user.email) {
+    await signOut(auth);
+    throw new Error(`${start.institutionName} did not share your email address. Contact your administrator.`);
+  }
+  const teacherRef = doc(db, COLLECTIONS.TEACHERS, user.uid);
+  try {
+    if (!(await getDoc(teacherRef)).exists()) {
+      await registerInstructorProfile(user.displayName?.trim() || user.email.split('@')[0]);
+    }
+    await joinInstitutionCall({ action: 'join' });
+    await user.getIdToken(true);
+  } catch (error) {
+    await signOut(auth);
+    throw error;
+  }
+  const teacherDoc = await getDoc(teacherRef);
+  if (!teacherDoc.exists()) {
+    await signOut(auth);
+    throw new Error('Your instructor profile could not be completed. Try again.');
+  }
+  return toTeacherAuthUser(user, teacherDoc.data() as Teacher);
+};
+
+/** Finishes an OIDC sign-in with the one-time ticket the identity provider callback issued. */
+export const completeInstitutionSignIn = async (ticket: string): Promise<AuthUser> => {
+  const redeemed = (await institutionSignInCall({ action: 'redeem', ticket })).data;
+  if (!('token' in redeemed)) throw new Error('This sign-in has expired. Sign in with single sign-on again.');
+  const { user } = await signInWithCustomToken(auth, redeemed.token);
+  const teacherDoc = await waitForInstructorProfile(doc(db, COLLECTIONS.TEACHERS, user.uid));
+  if (!teacherDoc.exists()) {
+    await signOut(auth);
+    throw new Error('Your instructor profile could not be completed. Try again.');
+  }
+  return toTeacherAuthUser(user, teacherDoc.data() as Teacher);
+};
+
 export const signOutUser = async (): Promise<void> => {
   await signOut(auth);
 };
@@ -249,6 +327,12 @@ export const onAuthChange = (callback: (user: AuthUser | null) => void): () => v
         teacherDoc = await waitForInstructorProfile(teacherRef);
       }
       
+      if (teacherDoc.exists() && !satisfiesSsoPolicy((await user.getIdTokenResult()).claims)) {
+        // The institution began requiring SSO after this session started.
+        await signOut(auth);
+        return;
+      }
+
       if (teacherDoc.exists()) {
         const teacherData = teacherDoc.data() as Teacher;
         await saveMissingTeacherTimeZone(teacherRef, teacherData);
@@ -0,0 +1,113 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  setDoc,
+  Timestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { auth, db } from './config';
+import { getRewardDefinitionsByTeacher, getRewardRequestsForInstructor, reviewRewardRequest } from './rewards';
+import { coldCallCounts, coldCallKey, unusedColdCallPasses } from '@/lib/cold-call';
+import type { ColdCallEntry, ColdCallOutcome, ColdCallQuality, Course, RewardRequest } from '@/types';
+
+const coldCallCollection = (courseId: string) => collection(db, 'courses', courseId, 'coldCalls');
+
+/** What the live console needs to weight the wheel and offer passes, loaded once per class. */
+export type ColdCallContext = {
+  counts: Record<string, number>;
+  optedOut: string[];
+  /** Unspent pass rewards by normalized student number. Empty for co-instructors, who cannot read the reward queue. */
+  passes: Record<string, RewardRequest[]>;
+};
+
+function requireInstructor() {
+  const instructor = auth.currentUser;
+  if (!instructor || instructor.isAnonymous) throw new Error('Instructor sign-in required.');
+  return instructor;
+}
+
+export async function getColdCalls(courseId: string): Promise<ColdCallEntry[]> {
+  const snapshot = await getDocs(coldCallCollection(courseId));
+  return snapshot.docs
+    .map((callDoc) => ({ id: callDoc.id, ...callDoc.data() } as ColdCallEntry))
+    .sort((a, b) => (b.calledAt?.toMillis?.() || 0) - (a.calledAt?.toMillis?.() || 0));
+}
+
+export async function getColdCallContext(course: Pick<Course, 'id' | 'code' | 'teacherId' | 'coldCall'>): Promise<ColdCallContext> {
+  const instructor = requireInstructor();
+  const entries = await getColdCalls(course.id);
+  const passes: Record<string, RewardRequest[]> = {};
+  if (instructor.uid === course.teacherId) {
+    try {
+      const [definitions, requests] = await Promise.all([
+        getRewardDefinitionsByTeacher(course.teacherId),
+        getRewardRequestsForInstructor(course.teacherId),
+      ]);
+      const courseRequests = requests.filter((request) => request.courseId === course.id || request.courseCode === course.code);
+      for (const request of courseRequests) {
+        const key = coldCallKey(request.studentNumber);
+        if (key && !passes[key]) {
+          const unused = unusedColdCallPasses(courseRequests, definitions, request.studentNumber);
+          if (unused.length) passes[key] = unused;
+        }
+      }
+    } catch (passError) {
+      console.warn('Pass rewards could not be loaded for cold calls:', passError);
+    }
+  }
+  return { counts: coldCallCounts(entries), optedOut: course.coldCall?.optedOut || [], passes };
+}
+
+/**
+ * Logs one call. A pass is spent on the server first, which marks the reward request used and takes the
+ * points from the student's ledger; the server refuses a second spend if the console retries.
+ */
+export async function logColdCall(
+  course: Pick<Course, 'id' | 'teacherId'>,
+  input: {
+    sessionId: string;
+    studentNumber: string;
+    studentName: string;
+    outcome: ColdCallOutcome;
+    quality?: ColdCallQuality;
+    passRequestId?: string;
+  },
+): Promise<string> {
+  const instructor = requireInstructor();
+  if (input.outcome === 'passed' && input.passRequestId) {
+    await reviewRewardRequest(input.passRequestId, 'used', 'Used to pass on a cold call.');
+  }
+  const callRef = doc(coldCallCollection(course.id));
+  await setDoc(callRef, {
+    courseId: course.id,
+    teacherId: course.teacherId,
+    sessionId: input.sessionId,
+    studentNumber: input.studentNumber,
+    studentName: input.studentName,
+    outcome: input.outcome,
+    ...(input.outcome === 'answered' && input.quality ? { quality: input.quality } : {}),
+    ...(input.outcome === 'passed' && input.passRequestId ? { passRequestId: input.passRequestId } : {}),
+    calledBy: instructor.uid,
+    calledAt: Timestamp.now(),
+  });
+  return callRef.id;
+}
+
+export async function deleteColdCall(courseId: string, callId: string): Promise<void> {
+  requireInstructor();
+  await deleteDoc(doc(coldCallCollection(courseId), callId));
+}
+
+export async function setColdCallOptOut(courseId: string, studentNumber: string, optedOut: boolean): Promise<void> {
+  requireInstructor();
+  const key = coldCallKey(studentNumber);
+  if (!key) return;
+  await updateDoc(doc(db, 'courses', courseId), {
+    'coldCall.optedOut': optedOut ? arrayUnion(key) : arrayRemove(key),
+    updatedAt: Timestamp.now(),
+  });
+}
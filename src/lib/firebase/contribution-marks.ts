@@ -0,0 +1,60 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  setDoc,
+  Timestamp,
+} from 'firebase/firestore';
+import { auth, db } from './config';
+import type { ContributionMark, ContributionMarkLevel, Course } from '@/types';
+
+const contributionCollection = (courseId: string) => collection(db, 'courses', courseId, 'contributionMarks');
+
+function requireInstructor() {
+  const instructor = auth.currentUser;
+  if (!instructor || instructor.isAnonymous) throw new Error('Instructor sign-in required.');
+  return instructor;
+}
+
+export async function getContributionMarks(courseId: string): Promise<ContributionMark[]> {
+  const snapshot = await getDocs(contributionCollection(courseId));
+  return snapshot.docs
+    .map((markDoc) => ({ id: markDoc.id, ...markDoc.data() } as ContributionMark))
+    .sort((a, b) => (b.markedAt?.toMillis?.() || 0) - (a.markedAt?.toMillis?.() || 0));
+}
+
+/** Saves one tagged contribution and returns it as stored, so the console can count it without a reload. */
+export async function logContributionMark(
+  course: Pick<Course, 'id' | 'teacherId'>,
+  input: {
+    sessionId: string;
+    studentNumber: string;
+    studentName: string;
+    mark: ContributionMarkLevel;
+    interactionId?: string;
+    interactionTitle?: string;
+  },
+): Promise<ContributionMark> {
+  const instructor = requireInstructor();
+  const markRef = doc(contributionCollection(course.id));
+  const mark: Omit<ContributionMark, 'id'> = {
+    courseId: course.id,
+    teacherId: course.teacherId,
+    sessionId: input.sessionId,
+    ...(input.interactionId ? { interactionId: input.interactionId } : {}),
+    ...(input.interactionTitle ? { interactionTitle: input.interactionTitle.slice(0, 160) } : {}),
+    studentNumber: input.studentNumber,
+    studentName: input.studentName,
+    mark: input.mark,
+    markedBy: instructor.uid,
+    markedAt: Timestamp.now(),
+  };
+  await setDoc(markRef, mark);
+  return { id: markRef.id, ...mark };
+}
+
+export async function deleteContributionMark(courseId: string, markId: string): Promise<void> {
+  requireInstructor();
+  await deleteDoc(doc(contributionCollection(courseId), markId));
+}
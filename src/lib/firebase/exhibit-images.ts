@@ -0,0 +1,77 @@
+'use client';
+
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { auth, storage } from './config';
+import type { HotspotImage } from '@/types';
+
+const ALLOWED_EXHIBIT_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+const MAX_SOURCE_BYTES = 12 * 1024 * 1024;
+const MAX_EXHIBIT_EDGE = 1800;
+
+export function validateExhibitImage(file: File): void {
+  if (!ALLOWED_EXHIBIT_IMAGE_TYPES.has(file.type)) {
+    throw new Error('Choose a JPG, PNG, or WebP image.');
+  }
+
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw new Error('Choose an image smaller than 12 MB.');
+  }
+}
+
+/** Scales the exhibit so its longest edge fits a projector and re-encodes it as WebP, keeping its shape. */
+async function prepareExhibitImage(file: File): Promise<{ file: File; width: number; height: number }> {
+  validateExhibitImage(file);
+
+  const objectURL = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.decoding = 'async';
+    image.src = objectURL;
+    await image.decode();
+
+    if (!image.naturalWidth || !image.naturalHeight) throw new Error('That image could not be read. Choose another file.');
+    const scale = Math.min(1, MAX_EXHIBIT_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('That image could not be prepared. Choose another file.');
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0, width, height);
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (result) => result ? resolve(result) : reject(new Error('That image could not be prepared. Choose another file.')),
+        'image/webp',
+        0.9,
+      );
+    });
+
+    return { file: new File([blob], 'exhibit.webp', { type: 'image/webp' }), width, height };
+  } finally {
+    URL.revokeObjectURL(objectURL);
+  }
+}
+
+/** Uploads an exhibit for a hotspot question. Students load it through its download URL. */
+export async function uploadExhibitImage(file: File, alt = ''): Promise<HotspotImage> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in again to upload an exhibit.');
+
+  const prepared = await prepareExhibitImage(file);
+  const snapshot = await uploadBytes(ref(storage, `interaction-exhibits/${user.uid}/${crypto.randomUUID()}.webp`), prepared.file, {
+    contentType: prepared.file.type,
+    cacheControl: 'public,max-age=86400',
+  });
+  return {
+    url: await getDownloadURL(snapshot.ref),
+    width: prepared.width,
+    height: prepared.height,
+    ...(alt.trim() ? { alt: alt.trim().slice(0, 200) } : {}),
+  };
+}
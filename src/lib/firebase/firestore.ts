@@ -17,18 +17,31 @@ import {
   writeBatch,
   arrayUnion,
   deleteField,
+  runTransaction,
+  serverTimestamp,
 } from 'firebase/firestore';
-import { db } from './config';
+import { auth, db } from './config';
 import type {
   CaseStudy,
+  CaseStudyVersion,
   Session,
   Student,
   Response,
   StudentGrade,
   Teacher,
   Course,
-  Highlight
+  Highlight,
+  GradeAuditAction,
+  GradeAuditEntry
 } from '@/types';
+import type { RosterPlan } from '@/lib/roster-import';
+import {
+  applyCaseStudyVersion,
+  caseStudyVersionContent,
+  sameCaseStudyContent,
+  touchesVersionedContent,
+  type CaseStudyVersionContent,
+} from '@/lib/case-study-versions';
 
 // Collections
 export const COLLECTIONS = {
@@ -39,18 +52,35 @@ export const COLLECTIONS = {
   STUDENT_GRADES: 'studentGrades',
   TEACHERS: 'teachers',
   COURSES: 'courses',
-  HIGHLIGHTS: 'highlights'
+  HIGHLIGHTS: 'highlights',
+  GRADE_AUDITS: 'gradeAudits'
 } as const;
 
 // Case Studies
+const caseStudyVersionRef = (caseStudyId: string, version: number) =>
+  doc(db, COLLECTIONS.CASE_STUDIES, caseStudyId, 'versions', String(version));
+
+const versionRecord = (content: Partial<CaseStudyVersionContent>, version: number, createdBy: string, createdAt: Timestamp, restoredFrom?: number) => omitUndefinedValues({
+  ...caseStudyVersionContent(content),
+  version,
+  createdBy,
+  createdAt,
+  ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+});
+
 export const createCaseStudy = async (caseStudy: Omit<CaseStudy, 'id' | 'createdAt' | 'updatedAt'>) => {
   const now = Timestamp.now();
-  const docRef = await addDoc(collection(db, COLLECTIONS.CASE_STUDIES), {
+  const docRef = doc(collection(db, COLLECTIONS.CASE_STUDIES));
+  const batch = writeBatch(db);
+  batch.set(docRef, {
     ...caseStudy,
     archived: false, // Ensure new case studies are not archived
+    currentVersion: 1,
     createdAt: now,
     updatedAt: now
   });
+  batch.set(caseStudyVersionRef(docRef.id, 1), versionRecord(caseStudy, 1, caseStudy.teacherId, now));
+  await batch.commit();
   return docRef.id;
 };
 
@@ -64,15 +94,79 @@ export const getCaseStudy = async (id: string): Promise<CaseStudy | null> => {
   return null;
 };
 
-export const updateCaseStudy = async (id: string, caseStudy: Partial<Omit<CaseStudy, 'id' | 'createdAt'>>) => {
+/**
+ * Saves case study edits. A change to its content also records a new version, so sessions that pinned an
+ * earlier one keep showing what students saw. Case studies from before versioning get their previous
+ * content recorded as version 1 first.
+ */
+export const updateCaseStudy = async (
+  id: string,
+  caseStudy: Partial<Omit<CaseStudy, 'id' | 'createdAt'>>,
+  options: { restoredFrom?: number } = {},
+) => {
   const docRef = doc(db, COLLECTIONS.CASE_STUDIES, id);
   const now = Timestamp.now();
-  await updateDoc(docRef, {
-    ...caseStudy,
-    updatedAt: now
+  if (!touchesVersionedContent(caseStudy)) {
+    await updateDoc(docRef, {
+      ...caseStudy,
+      updatedAt: now
+    });
+    return;
+  }
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists()) throw new Error('Case study not found');
+    const existing = snapshot.data() as CaseStudy;
+    const editor = auth.currentUser?.uid || existing.teacherId;
+    const next = { ...existing, ...caseStudy };
+    let currentVersion = existing.currentVersion || 0;
+    if (!currentVersion) {
+      currentVersion = 1;
+      transaction.set(caseStudyVersionRef(id, currentVersion), versionRecord(existing, currentVersion, existing.teacherId, existing.updatedAt || now));
+    }
+    if (!sameCaseStudyContent(existing, next)) {
+      currentVersion += 1;
+      transaction.set(caseStudyVersionRef(id, currentVersion), versionRecord(next, currentVersion, editor, now, options.restoredFrom));
+    }
+    transaction.update(docRef, {
+      ...caseStudy,
+      currentVersion,
+      updatedAt: now
+    });
   });
 };
 
+/** Saved versions, newest first. */
+export const getCaseStudyVersions = async (caseStudyId: string): Promise<CaseStudyVersion[]> => {
+  const snapshot = await getDocs(collection(db, COLLECTIONS.CASE_STUDIES, caseStudyId, 'versions'));
+  return snapshot.docs
+    .map((versionDoc) => ({ id: versionDoc.id, ...versionDoc.data() }) as CaseStudyVersion)
+    .sort((a, b) => b.version - a.version);
+};
+
+export const getCaseStudyVersion = async (caseStudyId: string, version: number): Promise<CaseStudyVersion | null> => {
+  const snapshot = await getDoc(caseStudyVersionRef(caseStudyId, version));
+  return snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as CaseStudyVersion : null;
+};
+
+/** Restoring saves the older content as a new version, so the history only ever grows. */
+export const restoreCaseStudyVersion = async (caseStudyId: string, version: CaseStudyVersion) => {
+  const content = caseStudyVersionContent(version);
+  await updateCaseStudy(caseStudyId, {
+    ...content,
+    conclusionGuidance: version.conclusionGuidance || '',
+    rubrics: version.rubrics || [],
+  }, { restoredFrom: version.version });
+};
+
+/** The case study a session ran, at the version it pinned when it has one. */
+export const getCaseStudyForSession = async (session: Pick<Session, 'caseStudyId' | 'caseStudyVersion'>): Promise<CaseStudy | null> => {
+  if (!session.caseStudyId) return null;
+  const caseStudy = await getCaseStudy(session.caseStudyId);
+  if (!caseStudy || !session.caseStudyVersion || session.caseStudyVersion === caseStudy.currentVersion) return caseStudy;
+  return applyCaseStudyVersion(caseStudy, await getCaseStudyVersion(session.caseStudyId, session.caseStudyVersion));
+};
+
 export const getCaseStudiesByTeacher = async (teacherId: string, includeArchived = false): Promise<CaseStudy[]> => {
   const q = query(
     collection(db, COLLECTIONS.CASE_STUDIES),
@@ -110,6 +204,7 @@ export const duplicateCaseStudy = async (caseStudyId: string): Promise<string> =
     title: `(Copy) ${originalCaseStudy.title}`,
     archived: false, // Ensure copies are not archived
     archivedAt: null,
+    currentVersion: 1,
     createdAt: now,
     updatedAt: now
   };
@@ -117,7 +212,12 @@ export const duplicateCaseStudy = async (caseStudyId: string): Promise<string> =
   // Remove the id field since it will be auto-generated
   const { id, ...caseStudyData } = duplicatedCaseStudy;
 
-  const docRef = await addDoc(collection(db, COLLECTIONS.CASE_STUDIES), caseStudyData);
+  // The copy starts its own history rather than inheriting the original's versions
+  const docRef = doc(collection(db, COLLECTIONS.CASE_STUDIES));
+  const batch = writeBatch(db);
+  batch.set(docRef, caseStudyData);
+  batch.set(caseStudyVersionRef(docRef.id, 1), versionRecord(caseStudyData, 1, auth.currentUser?.uid || caseStudyData.teacherId, now));
+  await batch.commit();
   return docRef.id;
 };
 
@@ -413,42 +513,6 @@ export const releaseNextSection = async (sessionId: string, nextSectionIndex: nu
   }
 };
 
-export const checkAndTimeoutInactiveSessions = async (teacherId: string) => {
-  const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-  
-  // Get all active sessions first, then filter in JavaScript
-  const q = query(
-    collection(db, COLLECTIONS.SESSIONS),
-    where('teacherId', '==', teacherId),
-    where('active', '==', true)
-  );
-  
-  const querySnapshot = await getDocs(q);
-  const batch = writeBatch(db);
-  let timeoutCount = 0;
-  
-  querySnapshot.docs.forEach(doc => {
-    const data = doc.data();
-    const lastActivity = data.lastActivityAt?.toDate?.()
-      || data.startedAt?.toDate?.()
-      || data.createdAt?.toDate?.()
-      || new Date(0);
-    
-    if (lastActivity < fiveMinutesAgo) {
-      batch.update(doc.ref, {
-        active: false,
-        endedAt: new Date()
-      });
-      timeoutCount++;
-    }
-  });
-  
-  if (timeoutCount > 0) {
-    await batch.commit();
-    console.log(`Timed out ${timeoutCount} inactive sessions`);
-  }
-};
-
 export const joinSession = async (sessionId: string, studentId: string) => {
   const sessionRef = doc(db, COLLECTIONS.SESSIONS, sessionId);
   const sessionDoc = await getDoc(sessionRef);
@@ -579,12 +643,71 @@ export const getStudentsByIds = async (studentIds: string[]): Promise<Student[]>
   return Array.from(students.values());
 };
 
+export const getStudentsByNormalizedIds = async (normalizedIds: string[]): Promise<Student[]> => {
+  const uniqueIds = [...new Set(normalizedIds.filter(Boolean))];
+  const batchSize = 30;
+  const snapshots = await Promise.all(Array.from({ length: Math.ceil(uniqueIds.length / batchSize) }, (_, index) => getDocs(query(
+    collection(db, COLLECTIONS.STUDENTS),
+    where('studentIdNormalized', 'in', uniqueIds.slice(index * batchSize, (index + 1) * batchSize)),
+  ))));
+  return snapshots.flatMap((snapshot) => snapshot.docs.map((item) => ({ id: item.id, ...item.data() }) as Student));
+};
+
+/**
+ * Applies a previewed roster import: creates new students, updates matched ones and adds everyone to the
+ * class. Writes are chunked so large class lists stay under the batch limit.
+ */
+export const importRoster = async (courseId: string, plan: RosterPlan) => {
+  const now = Timestamp.now();
+  const studentIds: string[] = [];
+  const writes: Array<(batch: WriteBatch) => void> = [];
+  plan.items.forEach((item) => {
+    if (!item.entry || item.action === 'skip') {
+      if (item.existing && item.existing.courseIds?.includes(courseId)) studentIds.push(item.existing.id);
+      return;
+    }
+    const { entry } = item;
+    if (item.action === 'create') {
+      const studentRef = doc(collection(db, COLLECTIONS.STUDENTS));
+      studentIds.push(studentRef.id);
+      writes.push((batch) => batch.set(studentRef, {
+        studentId: entry.studentId,
+        studentIdNormalized: entry.studentIdNormalized,
+        name: entry.name,
+        ...(entry.email ? { email: entry.email } : {}),
+        courseIds: [courseId],
+        createdAt: now,
+      }));
+    } else if (item.existing) {
+      const studentId = item.existing.id;
+      studentIds.push(studentId);
+      writes.push((batch) => batch.update(doc(db, COLLECTIONS.STUDENTS, studentId), {
+        name: entry.name,
+        ...(entry.email ? { email: entry.email } : {}),
+        courseIds: arrayUnion(courseId),
+      }));
+    }
+  });
+  for (let index = 0; index < writes.length; index += 450) {
+    const batch = writeBatch(db);
+    writes.slice(index, index + 450).forEach((write) => write(batch));
+    await batch.commit();
+  }
+  if (studentIds.length) {
+    await updateDoc(doc(db, COLLECTIONS.COURSES, courseId), {
+      studentIds: arrayUnion(...studentIds),
+      updatedAt: now,
+    });
+  }
+  return { created: plan.counts.create, updated: plan.counts.update, studentIds };
+};
+
 // Responses
 export const createResponse = async (response: Omit<Response, 'id' | 'submittedAt'>) => {
   const now = Timestamp.now();
   const docRef = await addDoc(collection(db, COLLECTIONS.RESPONSES), {
     ...response,
-    submittedAt: now
+    submittedAt: serverTimestamp()
   });
   
   // Update session activity when student submits response
@@ -684,8 +807,69 @@ export const updateResponse = async (id: string, updates: Partial<Response>) =>
   await updateDoc(docRef, updates);
 };
 
+// Grading decisions update the response and append an audit entry in the same batch
+export type GradeDecision = {
+  response: Response;
+  points: number;
+  feedback?: string;
+  action: GradeAuditAction;
+};
+
+export const saveGradeDecisions = async (
+  decisions: GradeDecision[],
+  grader: { uid: string; name?: string },
+  teacherId: string
+) => {
+  const now = Timestamp.now();
+  // Two writes per decision keeps each batch under Firestore's 500-write limit
+  for (let start = 0; start < decisions.length; start += 200) {
+    const batch = writeBatch(db);
+    decisions.slice(start, start + 200).forEach(({ response, points, feedback, action }) => {
+      const trimmedFeedback = feedback?.trim();
+      batch.update(doc(db, COLLECTIONS.RESPONSES, response.id), {
+        points,
+        gradedAt: now,
+        gradedBy: grader.uid,
+        gradeStatus: action === 'override' ? 'overridden' : 'approved',
+        ...(trimmedFeedback !== undefined ? { instructorFeedback: trimmedFeedback } : {})
+      });
+      batch.set(doc(collection(db, COLLECTIONS.GRADE_AUDITS)), {
+        responseId: response.id,
+        sessionId: response.sessionId,
+        questionId: response.questionId,
+        studentId: response.studentId,
+        teacherId,
+        gradedBy: grader.uid,
+        ...(grader.name ? { gradedByName: grader.name } : {}),
+        action,
+        previousPoints: response.points ?? null,
+        points,
+        aiSuggestedPoints: response.assessment?.score ?? null,
+        ...(trimmedFeedback ? { feedback: trimmedFeedback } : {}),
+        createdAt: now
+      });
+    });
+    await batch.commit();
+  }
+  return now;
+};
+
+export const getGradeAuditsBySession = async (sessionId: string, teacherId: string): Promise<GradeAuditEntry[]> => {
+  const q = query(
+    collection(db, COLLECTIONS.GRADE_AUDITS),
+    where('sessionId', '==', sessionId),
+    where('teacherId', '==', teacherId)
+  );
+  const querySnapshot = await getDocs(q);
+  const audits = querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  })) as GradeAuditEntry[];
+  return audits.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+};
+
 // Student Grades
-export const updateStudentGrade = async (studentGrade: Omit<StudentGrade, 'id'>) => {
+export const updateStudentGrade = async (studentGrade: Omit<StudentGrade, 'id' | 'lastUpdated'>) => {
   const q = query(
     collection(db, COLLECTIONS.STUDENT_GRADES),
     where('studentId', '==', studentGrade.studentId),
@@ -709,6 +893,52 @@ export const updateStudentGrade = async (studentGrade: Omit<StudentGrade, 'id'>)
   }
 };
 
+/**
+ * Writes one set of participation fields onto each student's grade record. Students without a record get
+ * one with no points yet, so the gradebook can weight their participation.
+ */
+const saveGradeParticipation = async (
+  courseId: string,
+  updates: Array<{ studentId: string; fields: Pick<StudentGrade, 'participationRate' | 'contribution'> }>,
+) => {
+  const existing = await getDocs(query(collection(db, COLLECTIONS.STUDENT_GRADES), where('courseId', '==', courseId)));
+  const refsByStudent = new Map(existing.docs.map((item) => [item.data().studentId as string, item.ref]));
+  const now = Timestamp.now();
+  for (let index = 0; index < updates.length; index += 450) {
+    const batch = writeBatch(db);
+    updates.slice(index, index + 450).forEach(({ studentId, fields }) => {
+      const gradeRef = refsByStudent.get(studentId);
+      if (gradeRef) {
+        batch.update(gradeRef, { ...fields, lastUpdated: now });
+      } else {
+        batch.set(doc(collection(db, COLLECTIONS.STUDENT_GRADES)), {
+          studentId,
+          courseId,
+          totalPoints: 0,
+          maxTotalPoints: 0,
+          ...fields,
+          sessions: [],
+          achievementBonusPoints: 0,
+          achievementBonusPercentage: 0,
+          achievementBonuses: [],
+          lastUpdated: now,
+        } satisfies Omit<StudentGrade, 'id'>);
+      }
+    });
+    await batch.commit();
+  }
+};
+
+/** Records attendance-register rates as each student's `participationRate`. */
+export const saveParticipationRates = (courseId: string, rates: Array<{ studentId: string; participationRate: number }>) => (
+  saveGradeParticipation(courseId, rates.map(({ studentId, participationRate }) => ({ studentId, fields: { participationRate } })))
+);
+
+/** Records contribution rates and their breakdown as each student's `contribution`, leaving attendance alone. */
+export const saveContributionRates = (courseId: string, grades: Array<{ studentId: string; contribution: NonNullable<StudentGrade['contribution']> }>) => (
+  saveGradeParticipation(courseId, grades.map(({ studentId, contribution }) => ({ studentId, fields: { contribution } })))
+);
+
 export const getStudentGrades = async (courseId: string): Promise<StudentGrade[]> => {
   const q = query(
     collection(db, COLLECTIONS.STUDENT_GRADES),
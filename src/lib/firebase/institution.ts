@@ -0,0 +1,79 @@
+'use client';
+
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from './config';
+import type { InstitutionConsole, InstitutionDefaults, InstitutionMembershipSummary, InstitutionRole, InstitutionSsoSettings } from '@/types';
+
+const institutionCall = httpsCallable<Record<string, unknown>, unknown>(functions, 'manageInstitution');
+
+async function manageInstitution<T>(action: string, input: Record<string, unknown> = {}): Promise<T> {
+  return (await institutionCall({ action, ...input })).data as T;
+}
+
+/** Membership changes arrive as custom claims, which only reach the app with a fresh ID token. */
+async function refreshClaims() {
+  await auth.currentUser?.getIdToken(true);
+}
+
+export async function getInstitutionMembership() {
+  return manageInstitution<InstitutionMembershipSummary>('membership');
+}
+
+export async function joinInstitution() {
+  const result = await manageInstitution<{ institutionId: string }>('join');
+  await refreshClaims();
+  return result;
+}
+
+export async function createInstitution(name: string, domain: string) {
+  const result = await manageInstitution<{ institutionId: string }>('create', { name, domain });
+  await refreshClaims();
+  return result;
+}
+
+export async function getInstitutionConsole() {
+  return manageInstitution<InstitutionConsole>('console');
+}
+
+export async function addInstitutionDomain(domain: string) {
+  return manageInstitution<{ domain: string; record: string }>('add-domain', { domain });
+}
+
+/** Looks up the domain's TXT records now. DNS changes can take up to an hour to appear. */
+export async function verifyInstitutionDomain(domain: string) {
+  return manageInstitution<{ domain: string; verified: boolean }>('verify-domain', { domain });
+}
+
+export async function removeInstitutionDomain(domain: string) {
+  return manageInstitution<{ domain: string }>('remove-domain', { domain });
+}
+
+export async function assignInstitutionSeat(uid: string) {
+  return manageInstitution<{ uid: string }>('assign-seat', { uid });
+}
+
+export async function releaseInstitutionSeat(uid: string) {
+  return manageInstitution<{ uid: string }>('release-seat', { uid });
+}
+
+export async function setInstitutionRole(uid: string, role: InstitutionRole) {
+  return manageInstitution<{ uid: string }>('set-role', { uid, role });
+}
+
+export async function removeInstitutionMember(uid: string) {
+  return manageInstitution<{ uid: string }>('remove-member', { uid });
+}
+
+/**
+ * Saves the sign-in provider, or removes it with `null`. The OIDC client secret is sent only when it
+ * changes; the server keeps it out of every response.
+ */
+export async function saveInstitutionSso(sso: InstitutionSsoSettings | null, clientSecret?: string) {
+  const result = await manageInstitution<{ sso: InstitutionSsoSettings | null }>('save-sso', { sso, ...(clientSecret ? { clientSecret } : {}) });
+  await refreshClaims();
+  return result;
+}
+
+export async function saveInstitutionDefaults(defaults: InstitutionDefaults) {
+  return manageInstitution<{ defaults: InstitutionDefaults }>('save-defaults', { defaults });
+}
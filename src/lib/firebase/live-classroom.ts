@@ -11,18 +11,27 @@ import {
   type Database,
   type DataSnapshot,
 } from 'firebase/database';
-import { auth, realtimeDb } from './config';
+import { auth, functions, realtimeDb } from './config';
 import { ensureStudentAnonymousAuth, studentAuth, studentRealtimeDb } from './student-config';
 import { httpsCallable } from 'firebase/functions';
 import { studentFunctions } from './student-config';
 import type {
   InteractionResponse,
   LessonDisplayState,
+  LiveInteraction,
   LiveQuestion,
   LiveSessionContext,
 } from '@/app/live/live-data';
 import type { SessionParticipationMode } from '@/types';
+import type { PublishedPulseCounts } from '@/lib/wellbeing-pulse';
 import { getQuestionPointRule, type QuestionPointRuleKey } from '@/app/live/student/rewards';
+import {
+  MAX_DEBATE_ARGUMENTS_PER_STUDENT,
+  normalizeDebateArgument,
+  rankDebateArguments,
+  type DebateArgument,
+  type DebateSide,
+} from '@/lib/debate';
 
 export type StoredLiveResponse = InteractionResponse & {
   studentUid: string;
@@ -51,6 +60,23 @@ export type StoredQuestionPointClaim = {
   createdAt: number;
 };
 
+export type StoredDebateArgument = {
+  id: string;
+  runId: string;
+  side: DebateSide;
+  text: string;
+  studentUid: string;
+  submittedAt: number;
+};
+
+/** Points the scoring function awarded for a revealed knowledge check, keyed by `${runId}:correct` or `${runId}:speed`. */
+export type StoredQuizAward = {
+  runId: string;
+  amount: number;
+  label: string;
+  createdAt: number;
+};
+
 export type AttendanceStatus = 'claimed' | 'participated' | 'confirmed' | 'excused';
 
 export type StoredAttendanceClaim = {
@@ -64,6 +90,9 @@ export type StoredAttendanceClaim = {
   participatedAt?: number;
   privacyNoticeVersion?: string;
   privacyNoticeAcknowledgedAt?: number;
+  /** Roster student an instructor matched to a `session-name` nickname after class. */
+  rosterStudentNumber?: string;
+  rosterStudentId?: string;
 };
 
 export type InstructorClassroomRecords = {
@@ -85,6 +114,8 @@ type InstructorClassroomArchive = {
   dismissedQuestions?: Record<string, true>;
   questionPointClaims?: Record<string, Record<string, StoredQuestionPointClaim>>;
   recognizedQuestions?: Record<string, true>;
+  debateArguments?: Record<string, Record<string, Record<string, StoredDebateArgument>>>;
+  debateVotes?: Record<string, Record<string, Record<string, true>>>;
 };
 
 export type LiveJoinRecord = {
@@ -367,7 +398,7 @@ export async function resetInstructorClassroom(
   const basePath = roomPath(ownerUid, sessionId);
   const now = Date.now();
   const archiveId = `reset-${now}`;
-  const [metaSnapshot, responsesSnapshot, welcomeSnapshot, questionsSnapshot, votesSnapshot, dismissedSnapshot, pointClaimsSnapshot, recognizedSnapshot] = await Promise.all([
+  const [metaSnapshot, responsesSnapshot, welcomeSnapshot, questionsSnapshot, votesSnapshot, dismissedSnapshot, pointClaimsSnapshot, recognizedSnapshot, debateArgumentsSnapshot, debateVotesSnapshot] = await Promise.all([
     get(ref(realtimeDb, `${basePath}/meta`)),
     get(ref(realtimeDb, `${basePath}/responses`)),
     get(ref(realtimeDb, `${basePath}/welcomeResponses`)),
@@ -376,6 +407,8 @@ export async function resetInstructorClassroom(
     get(ref(realtimeDb, `${basePath}/dismissedQuestions`)),
     get(ref(realtimeDb, `${basePath}/questionPointClaims`)),
     get(ref(realtimeDb, `${basePath}/recognizedQuestions`)),
+    get(ref(realtimeDb, `${basePath}/debateArguments`)),
+    get(ref(realtimeDb, `${basePath}/debateVotes`)),
   ]);
   const currentMeta = metaSnapshot.val() as LiveClassroomMeta | null;
   if (!currentMeta || currentMeta.ownerUid !== ownerUid) {
@@ -393,6 +426,8 @@ export async function resetInstructorClassroom(
     dismissedQuestions: dismissedSnapshot.val() || {},
     questionPointClaims: pointClaimsSnapshot.val() || {},
     recognizedQuestions: recognizedSnapshot.val() || {},
+    debateArguments: debateArgumentsSnapshot.val() || {},
+    debateVotes: debateVotesSnapshot.val() || {},
   } satisfies InstructorClassroomArchive);
   const meta: LiveClassroomMeta = {
     ...currentMeta,
@@ -407,11 +442,15 @@ export async function resetInstructorClassroom(
     [`${basePath}/archives/${archiveId}`]: archive,
     [`${basePath}/responses`]: null,
     [`${basePath}/welcomeResponses`]: null,
+    [`${basePath}/pulseCounts`]: null,
+    [`${basePath}/pulseTallies`]: null,
     [`${basePath}/studentQuestions`]: null,
     [`${basePath}/questionVotes`]: null,
     [`${basePath}/dismissedQuestions`]: null,
     [`${basePath}/questionPointClaims`]: null,
     [`${basePath}/recognizedQuestions`]: null,
+    [`${basePath}/debateArguments`]: null,
+    [`${basePath}/debateVotes`]: null,
     [`${basePath}/publicState`]: cleanFirebaseValue({ ...resetState, updatedAt: now }),
     [`${basePath}/meta`]: meta,
   });
@@ -479,9 +518,59 @@ export async function getInstructorClassroomRecords(
   };
 }
 
-export async function publishInstructorState(ownerUid: string, sessionId: string, state: LessonDisplayState) {
+const isScoredInteraction = (interaction: LiveInteraction | null | undefined) => interaction?.type === 'quiz' || interaction?.type === 'peer-learning';
+const publishedAnswerKeys = new Set<string>();
+const scoredRuns = new Set<string>();
+
+/** The state students may read: knowledge check answers, estimate true values and hotspot regions stay out until the instructor reveals them. */
+function withoutAnswerKey(state: LessonDisplayState): LessonDisplayState {
+  const interaction = state.activeInteraction;
+  if (!interaction || state.interactionResults?.revealed) return state;
+  if (!isScoredInteraction(interaction) && interaction.type !== 'estimate' && interaction.type !== 'hotspot') return state;
+  const publicInteraction = { ...interaction };
+  delete publicInteraction.correctOptionIndex;
+  delete publicInteraction.explanation;
+  delete publicInteraction.estimateAnswer;
+  delete publicInteraction.hotspotRegions;
+  return { ...state, activeInteraction: publicInteraction };
+}
+
+/**
+ * Publishes the room state. `privateInteraction` is the instructor's copy of the active interaction; its
+ * answer key goes to the instructor-only answerKeys node when a knowledge check opens, and revealing
+ * the answer asks the server to score the run.
+ */
+export async function publishInstructorState(
+  ownerUid: string,
+  sessionId: string,
+  state: LessonDisplayState,
+  privateInteraction: LiveInteraction | null = state.activeInteraction,
+) {
   await requireInstructorRoomAccess(ownerUid, sessionId, undefined, true);
-  await set(ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/publicState`), cleanFirebaseValue(state));
+  const results = state.interactionResults;
+  const scoredRunId = results && privateInteraction && isScoredInteraction(privateInteraction) && privateInteraction.id === state.activeInteraction?.id
+    ? results.runId
+    : '';
+  const runKey = `${ownerUid}/${sessionId}/${scoredRunId}`;
+  if (scoredRunId && privateInteraction && typeof privateInteraction.correctOptionIndex === 'number' && !publishedAnswerKeys.has(runKey)) {
+    publishedAnswerKeys.add(runKey);
+    // The first instructor device to open the run writes the key; the rules reject any later copy.
+    await set(ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/answerKeys/${scoredRunId}`), cleanFirebaseValue({
+      interactionId: privateInteraction.id,
+      correctOptionIndex: privateInteraction.correctOptionIndex,
+      explanation: privateInteraction.explanation,
+      openedAt: serverTimestamp(),
+    })).catch(() => undefined);
+  }
+  await set(ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/publicState`), cleanFirebaseValue(withoutAnswerKey(state)));
+  if (scoredRunId && results?.revealed && !scoredRuns.has(runKey)) {
+    scoredRuns.add(runKey);
+    const callable = httpsCallable<{ ownerUid: string; sessionId: string; runId: string }, { awarded: number }>(functions, 'scoreLiveQuizRun');
+    await callable({ ownerUid, sessionId, runId: scoredRunId }).catch((error: { code?: string }) => {
+      // Try again on the next publish unless the server refused this run outright.
+      if (error?.code !== 'functions/failed-precondition' && error?.code !== 'functions/permission-denied') scoredRuns.delete(runKey);
+    });
+  }
 }
 
 export async function getLiveClassroomByCode(sessionCode: string) {
@@ -548,9 +637,19 @@ export async function submitStudentInteractionResponse(
   response: InteractionResponse,
 ) {
   const student = await ensureStudentAnonymousAuth();
-  const answer = typeof response.optionIndex === 'number'
-    ? { optionIndex: response.optionIndex }
-    : { text: response.text?.trim().slice(0, 280) || '' };
+  const answer = response.ranking
+    ? { ranking: response.ranking }
+    : response.ratings
+      ? { ratings: response.ratings }
+      : response.placements
+        ? { placements: response.placements }
+        : typeof response.value === 'number'
+          ? { value: response.value }
+          : response.point
+            ? { point: { x: response.point.x, y: response.point.y } }
+            : typeof response.optionIndex === 'number'
+              ? { optionIndex: response.optionIndex }
+              : { text: response.text?.trim().slice(0, 280) || '' };
   const storedResponse: StoredLiveResponse = cleanFirebaseValue({
     id: `${response.runId}:${student.uid}`,
     runId: response.runId,
@@ -572,11 +671,35 @@ export async function submitStudentInteractionResponse(
   return (result.snapshot.val() || storedResponse) as StoredLiveResponse;
 }
 
+/** Knowledge check answers are stored by the server, which records when it received them. */
+export async function submitStudentQuizResponse(
+  ownerUid: string,
+  sessionId: string,
+  response: InteractionResponse,
+) {
+  await ensureStudentAnonymousAuth();
+  const callable = httpsCallable<{
+    ownerUid: string;
+    sessionId: string;
+    runId: string;
+    optionIndex?: number;
+  }, StoredLiveResponse>(studentFunctions, 'submitLiveQuizResponse');
+  const stored = (await callable({ ownerUid, sessionId, runId: response.runId, optionIndex: response.optionIndex })).data;
+  await markCurrentStudentParticipated(ownerUid, sessionId).catch(() => undefined);
+  return stored;
+}
+
+/** Anonymous pulse answers are kept only on this device, so the student still sees what they chose. */
+function anonymousPulseKey(ownerUid: string, sessionId: string, runId: number) {
+  return `classfully-anonymous-pulse:${ownerUid}:${sessionId}:${runId}`;
+}
+
 export async function submitStudentWelcomeResponse(
   ownerUid: string,
   sessionId: string,
   runId: number,
   mood: keyof LessonDisplayState['onboardingMoodCounts'],
+  anonymous = false,
 ) {
   const student = await ensureStudentAnonymousAuth();
   const response: StoredWelcomeResponse = {
@@ -585,6 +708,17 @@ export async function submitStudentWelcomeResponse(
     studentUid: student.uid,
     submittedAt: Date.now(),
   };
+  if (anonymous) {
+    const callable = httpsCallable<{ ownerUid: string; sessionId: string; runId: number; mood: string }, { counted: boolean }>(studentFunctions, 'submitAnonymousPulse');
+    try {
+      await callable({ ownerUid, sessionId, runId, mood });
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'functions/already-exists') throw error;
+    }
+    window.sessionStorage.setItem(anonymousPulseKey(ownerUid, sessionId, runId), mood);
+    await markCurrentStudentParticipated(ownerUid, sessionId).catch(() => undefined);
+    return response;
+  }
   await set(
     ref(studentRealtimeDb, `${roomPath(ownerUid, sessionId)}/welcomeResponses/${runId}/${student.uid}`),
     { ...response, submittedAt: serverTimestamp() },
@@ -615,6 +749,18 @@ export function subscribeToInstructorWelcomeResponses(
   return () => off(responsesRef);
 }
 
+/** Class totals for an anonymous pulse. Breakdowns arrive only in steps of the class's minimum group size. */
+export function subscribeToInstructorPulseCounts(
+  ownerUid: string,
+  sessionId: string,
+  runId: number,
+  callback: (counts: PublishedPulseCounts | null) => void,
+) {
+  const countsRef = ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/pulseCounts/${runId}`);
+  onValue(countsRef, (snapshot) => callback(snapshot.val()));
+  return () => off(countsRef);
+}
+
 export function subscribeToInstructorQuestionVotes(
   ownerUid: string,
   sessionId: string,
@@ -722,6 +868,34 @@ export function subscribeToStudentQuestionPointClaims(
   return () => off(claimsRef);
 }
 
+export function subscribeToStudentQuizAwards(
+  ownerUid: string,
+  sessionId: string,
+  callback: (awards: Record<string, StoredQuizAward>) => void,
+) {
+  const student = studentAuth.currentUser;
+  if (!student) throw new Error('Student sign-in required.');
+  const awardsRef = ref(studentRealtimeDb, `${roomPath(ownerUid, sessionId)}/quizAwards/${student.uid}`);
+  onValue(awardsRef, (snapshot) => callback(snapshot.val() || {}), () => callback({}));
+  return () => off(awardsRef);
+}
+
+export async function setInstructorAttendanceRosterMatch(
+  ownerUid: string,
+  sessionId: string,
+  studentUid: string,
+  student: { id: string; studentId: string } | null,
+) {
+  await requireInstructorRoomAccess(ownerUid, sessionId, undefined, true);
+  const rosterStudentNumber = student ? normalizeStudentNumber(student.studentId) : '';
+  if (student && !rosterStudentNumber) throw new Error('This student has no usable student number.');
+  await update(ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/attendanceClaims/${studentUid}`), {
+    rosterStudentNumber: rosterStudentNumber || null,
+    rosterStudentId: student?.id || null,
+    updatedAt: Date.now(),
+  });
+}
+
 export async function setInstructorQuestionRecognized(ownerUid: string, sessionId: string, questionId: number) {
   await requireInstructorRoomAccess(ownerUid, sessionId, undefined, true);
   await set(ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/recognizedQuestions/${questionId}`), true);
@@ -786,17 +960,96 @@ export async function setInstructorQuestionDismissed(
   );
 }
 
+export async function getCurrentStudentDebateArguments(ownerUid: string, sessionId: string, runId: string): Promise<StoredDebateArgument[]> {
+  const student = await ensureStudentAnonymousAuth();
+  const snapshot = await get(ref(studentRealtimeDb, `${roomPath(ownerUid, sessionId)}/debateArguments/${runId}/${student.uid}`));
+  return Object.values((snapshot.val() || {}) as Record<string, StoredDebateArgument>);
+}
+
+export async function submitStudentDebateArgument(
+  ownerUid: string,
+  sessionId: string,
+  runId: string,
+  side: DebateSide,
+  rawText: string,
+): Promise<StoredDebateArgument> {
+  const student = await ensureStudentAnonymousAuth();
+  const text = normalizeDebateArgument(rawText);
+  if (!text) throw new Error('Write an argument before posting it.');
+  const existing = await getCurrentStudentDebateArguments(ownerUid, sessionId, runId);
+  if (existing.length >= MAX_DEBATE_ARGUMENTS_PER_STUDENT) {
+    throw new Error(`You can post up to ${MAX_DEBATE_ARGUMENTS_PER_STUDENT} arguments in a debate.`);
+  }
+  const argument: StoredDebateArgument = {
+    id: `${Date.now()}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+    runId,
+    side,
+    text,
+    studentUid: student.uid,
+    submittedAt: Date.now(),
+  };
+  await set(ref(studentRealtimeDb, `${roomPath(ownerUid, sessionId)}/debateArguments/${runId}/${student.uid}/${argument.id}`), argument);
+  return argument;
+}
+
+export async function getStudentDebateVotes(ownerUid: string, sessionId: string, runId: string, argumentIds: string[]) {
+  const student = await ensureStudentAnonymousAuth();
+  const votes = await Promise.all(argumentIds.map(async (argumentId) => {
+    const snapshot = await get(ref(studentRealtimeDb, `${roomPath(ownerUid, sessionId)}/debateVotes/${runId}/${argumentId}/${student.uid}`));
+    return snapshot.val() === true ? argumentId : null;
+  }));
+  return votes.filter((argumentId): argumentId is string => argumentId !== null);
+}
+
+export async function setStudentDebateVote(ownerUid: string, sessionId: string, runId: string, argumentId: string, voted: boolean) {
+  const student = await ensureStudentAnonymousAuth();
+  await set(ref(studentRealtimeDb, `${roomPath(ownerUid, sessionId)}/debateVotes/${runId}/${argumentId}/${student.uid}`), voted ? true : null);
+}
+
+/** The ranked argument board for a debate, rebuilt whenever a student posts or votes. */
+export function subscribeToInstructorDebate(
+  ownerUid: string,
+  sessionId: string,
+  runId: string,
+  callback: (debateArguments: DebateArgument[]) => void,
+) {
+  const argumentsRef = ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/debateArguments/${runId}`);
+  const votesRef = ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/debateVotes/${runId}`);
+  let byStudent: Record<string, Record<string, StoredDebateArgument>> = {};
+  let voteMap: Record<string, Record<string, true>> = {};
+
+  const emit = () => {
+    const items = Object.values(byStudent).flatMap((studentArguments) => Object.values(studentArguments || {}));
+    const votes = Object.fromEntries(Object.entries(voteMap).map(([argumentId, voters]) => [argumentId, Object.keys(voters || {}).length]));
+    callback(rankDebateArguments(items.map(({ id, side, text, submittedAt }) => ({ id, side, text, submittedAt })), votes));
+  };
+
+  onValue(argumentsRef, (snapshot) => {
+    byStudent = (snapshot.val() || {}) as Record<string, Record<string, StoredDebateArgument>>;
+    emit();
+  });
+  onValue(votesRef, (snapshot) => {
+    voteMap = (snapshot.val() || {}) as Record<string, Record<string, true>>;
+    emit();
+  });
+  return () => {
+    off(argumentsRef);
+    off(votesRef);
+  };
+}
+
 export function subscribeToInstructorPresence(
   ownerUid: string,
   sessionId: string,
-  callback: (connectedStudents: number) => void,
+  callback: (connectedStudents: number, connectedStudentUids: string[]) => void,
 ) {
   const presenceRef = ref(realtimeDb, `${roomPath(ownerUid, sessionId)}/presence`);
   onValue(presenceRef, (snapshot) => {
     const presence = (snapshot.val() || {}) as Record<string, Record<string, { connected?: boolean }>>;
-    callback(Object.values(presence).filter((connections) => (
-      Object.values(connections || {}).some((connection) => connection.connected)
-    )).length);
+    const connectedUids = Object.entries(presence)
+      .filter(([, connections]) => Object.values(connections || {}).some((connection) => connection.connected))
+      .map(([studentUid]) => studentUid);
+    callback(connectedUids.length, connectedUids);
   });
   return () => off(presenceRef);
 }
@@ -852,8 +1105,12 @@ export async function getStudentResponse(ownerUid: string, sessionId: string, ru
   return responseSnapshot.val() as StoredLiveResponse | null;
 }
 
-export async function getStudentWelcomeResponse(ownerUid: string, sessionId: string, runId: number) {
+export async function getStudentWelcomeResponse(ownerUid: string, sessionId: string, runId: number, anonymous = false) {
   const student = await ensureStudentAnonymousAuth();
+  if (anonymous) {
+    const mood = window.sessionStorage.getItem(anonymousPulseKey(ownerUid, sessionId, runId));
+    return mood ? { runId, mood, studentUid: student.uid, submittedAt: 0 } as StoredWelcomeResponse : null;
+  }
   const responseSnapshot = await get(ref(studentRealtimeDb, `${roomPath(ownerUid, sessionId)}/welcomeResponses/${runId}/${student.uid}`));
   return responseSnapshot.val() as StoredWelcomeResponse | null;
 }
@@ -0,0 +1,59 @@
+'use client';
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './config';
+
+export type LtiLaunchTicket = {
+  messageType: 'LtiResourceLinkRequest' | 'LtiDeepLinkingRequest';
+  platformId: string;
+  userName: string;
+  context: { id: string; label: string; title: string } | null;
+  resourceLink: { id: string; title: string } | null;
+  target: { type: 'session' | 'caseStudy'; id: string } | null;
+  linkedCourseId: string | null;
+  acceptMultiple: boolean;
+};
+
+export type LtiDeepLinkItem = {
+  type: 'session' | 'caseStudy';
+  id: string;
+  title: string;
+  scoreMaximum?: number;
+};
+
+export type LtiGradeSyncResult = { posted: number; skipped: number; failed: number };
+
+const getTicketCall = httpsCallable<{ ticket: string }, LtiLaunchTicket>(functions, 'getLtiLaunchTicket');
+const linkCourseCall = httpsCallable<{ ticket: string; courseId: string }, { courseId: string }>(functions, 'linkLtiCourse');
+const deepLinkCall = httpsCallable<{ ticket: string; items: LtiDeepLinkItem[] }, { returnUrl: string; jwt: string }>(functions, 'createLtiDeepLinkResponse');
+const syncGradesCall = httpsCallable<{ courseId: string }, LtiGradeSyncResult>(functions, 'syncLtiGrades');
+
+export async function getLtiLaunchTicket(ticket: string) {
+  return (await getTicketCall({ ticket })).data;
+}
+
+export async function linkLtiCourse(ticket: string, courseId: string) {
+  return (await linkCourseCall({ ticket, courseId })).data;
+}
+
+/**
+ * Signs the chosen items and hands them back to the LMS. The platform expects a browser form post of
+ * the JWT to its return URL, so this navigates away from Classfully.
+ */
+export async function submitLtiDeepLink(ticket: string, items: LtiDeepLinkItem[]) {
+  const { data } = await deepLinkCall({ ticket, items });
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = data.returnUrl;
+  const input = document.createElement('input');
+  input.type = 'hidden';
+  input.name = 'JWT';
+  input.value = data.jwt;
+  form.appendChild(input);
+  document.body.appendChild(form);
+  form.submit();
+}
+
+export async function syncLtiGrades(courseId: string) {
+  return (await syncGradesCall({ courseId })).data;
+}
@@ -0,0 +1,139 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  runTransaction,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { auth, db } from './config';
+import {
+  QUESTION_BANK_USAGE_LIMIT,
+  expandQuestionBankDraws,
+  mergeQuestionBankStats,
+  recentBankSessionIds,
+  sessionItemStatistics,
+  type SessionItemResponse,
+} from '@/lib/question-bank';
+import type { LiveInteraction } from '@/app/live/live-data';
+import type { QuestionBankItem, SessionInteraction } from '@/types';
+
+export type QuestionBankItemInput = Pick<QuestionBankItem, 'prompt' | 'options' | 'correctOptionIndex' | 'tags' | 'difficulty'>
+  & Partial<Pick<QuestionBankItem, 'explanation' | 'learningObjective'>>;
+
+const bankCollection = (courseId: string) => collection(db, 'courses', courseId, 'questionBank');
+
+function requireInstructor() {
+  const instructor = auth.currentUser;
+  if (!instructor || instructor.isAnonymous) throw new Error('Instructor sign-in required.');
+  return instructor;
+}
+
+function itemFields(input: QuestionBankItemInput) {
+  return {
+    prompt: input.prompt.trim(),
+    options: input.options.map((option) => option.trim()).filter(Boolean),
+    correctOptionIndex: input.correctOptionIndex,
+    tags: input.tags,
+    difficulty: input.difficulty,
+    ...(input.explanation?.trim() ? { explanation: input.explanation.trim() } : {}),
+    ...(input.learningObjective?.trim() ? { learningObjective: input.learningObjective.trim() } : {}),
+  };
+}
+
+export async function getQuestionBankItems(courseId: string): Promise<QuestionBankItem[]> {
+  const snapshot = await getDocs(bankCollection(courseId));
+  return snapshot.docs
+    .map((itemDoc) => ({ id: itemDoc.id, ...itemDoc.data() } as QuestionBankItem))
+    .sort((a, b) => (b.updatedAt || b.createdAt).toMillis() - (a.updatedAt || a.createdAt).toMillis());
+}
+
+/** `teacherId` is the class owner, so co-instructors add items to the owner's bank. */
+export async function createQuestionBankItem(courseId: string, teacherId: string, input: QuestionBankItemInput) {
+  requireInstructor();
+  const now = Timestamp.now();
+  const itemRef = await addDoc(bankCollection(courseId), { ...itemFields(input), courseId, teacherId, createdAt: now, updatedAt: now });
+  return itemRef.id;
+}
+
+export async function updateQuestionBankItem(courseId: string, itemId: string, input: QuestionBankItemInput) {
+  requireInstructor();
+  const fields = itemFields(input);
+  await updateDoc(doc(bankCollection(courseId), itemId), {
+    ...fields,
+    explanation: fields.explanation ?? deleteField(),
+    learningObjective: fields.learningObjective ?? deleteField(),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+export async function deleteQuestionBankItem(courseId: string, itemId: string) {
+  requireInstructor();
+  await deleteDoc(doc(bankCollection(courseId), itemId));
+}
+
+/**
+ * Draws questions for every question bank draw in a session plan, saves the drawn plan on the session and
+ * records the use on each item. Plans without draws come back unchanged and nothing is written.
+ */
+export async function drawQuestionBankForSession<T extends SessionInteraction | LiveInteraction>(
+  courseId: string,
+  sessionId: string,
+  interactions: T[],
+) {
+  requireInstructor();
+  if (!interactions.some((interaction) => interaction.bankDraw)) return { interactions, shortfalls: [] };
+  const items = await getQuestionBankItems(courseId);
+  const draws = interactions.filter((interaction) => interaction.bankDraw);
+  const avoid = Math.max(0, ...draws.map((interaction) => interaction.bankDraw?.avoidRecentSessions || 0));
+  const result = expandQuestionBankDraws(interactions, items, recentBankSessionIds(items, avoid, sessionId));
+  if (!result.drawnItems.length) return { interactions, shortfalls: result.shortfalls };
+
+  const usedAt = Timestamp.now();
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'sessions', sessionId), { interactions: JSON.parse(JSON.stringify(result.interactions)) });
+  result.drawnItems.forEach((item) => {
+    batch.update(doc(bankCollection(courseId), item.id), {
+      usage: [{ sessionId, usedAt }, ...(item.usage || []).filter((use) => use.sessionId !== sessionId)].slice(0, QUESTION_BANK_USAGE_LIMIT),
+    });
+  });
+  await batch.commit();
+  return { interactions: result.interactions, shortfalls: result.shortfalls };
+}
+
+/**
+ * Adds a finished session's answers to the statistics of the bank items it used. Each session is counted
+ * once per item, so ending a class twice does not double its answers.
+ */
+export async function recordQuestionBankStatistics(
+  courseId: string,
+  sessionId: string,
+  interactions: Pick<SessionInteraction, 'id' | 'bankItemId' | 'correctOptionIndex'>[],
+  responses: SessionItemResponse[],
+) {
+  requireInstructor();
+  const sessionStats = sessionItemStatistics(interactions, responses);
+  const itemIds = Object.keys(sessionStats);
+  if (!itemIds.length) return 0;
+  return runTransaction(db, async (transaction) => {
+    const snapshots = await Promise.all(itemIds.map((itemId) => transaction.get(doc(bankCollection(courseId), itemId))));
+    let recorded = 0;
+    snapshots.forEach((snapshot) => {
+      if (!snapshot.exists()) return;
+      const item = snapshot.data() as Omit<QuestionBankItem, 'id'>;
+      const usage = item.usage || [];
+      const use = usage.find((entry) => entry.sessionId === sessionId);
+      if (!use || use.statsRecorded) return;
+      transaction.update(snapshot.ref, {
+        stats: { ...mergeQuestionBankStats(item.stats, sessionStats[snapshot.id]), updatedAt: Timestamp.now() },
+        usage: usage.map((entry) => entry.sessionId === sessionId ? { ...entry, statsRecorded: true } : entry),
+      });
+      recorded += 1;
+    });
+    return recorded;
+  });
+}
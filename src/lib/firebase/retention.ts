@@ -0,0 +1,54 @@
+'use client';
+
+import { deleteField, doc, getDoc, serverTimestamp, Timestamp, updateDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { cleanRetentionPolicy } from '@/lib/retention';
+import type { CourseRetentionPolicy, Institution, RetentionPolicy, RetentionPreview, Teacher } from '@/types';
+import { auth, db, functions } from './config';
+import { COLLECTIONS } from './firestore';
+
+const previewCall = httpsCallable<void, RetentionPreview>(functions, 'previewRetentionPurge');
+
+function requireInstructor() {
+  const instructor = auth.currentUser;
+  if (!instructor || instructor.isAnonymous) throw new Error('Sign in again to manage data retention.');
+  return instructor;
+}
+
+export async function getWorkspaceRetentionPolicy(): Promise<RetentionPolicy> {
+  const snapshot = await getDoc(doc(db, COLLECTIONS.TEACHERS, requireInstructor().uid));
+  return (snapshot.data() as Teacher | undefined)?.retention || {};
+}
+
+/** The institution's default rules, which sit beneath the workspace's. Empty outside an institution. */
+export async function getInstitutionRetentionPolicy(): Promise<RetentionPolicy> {
+  const teacher = (await getDoc(doc(db, COLLECTIONS.TEACHERS, requireInstructor().uid))).data() as Teacher | undefined;
+  if (!teacher?.institutionId) return {};
+  const snapshot = await getDoc(doc(db, 'institutions', teacher.institutionId));
+  return (snapshot.data() as Institution | undefined)?.defaults?.retention || {};
+}
+
+export async function saveWorkspaceRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+  const rules = cleanRetentionPolicy(policy);
+  delete rules.courseEndsOn;
+  await updateDoc(doc(db, COLLECTIONS.TEACHERS, requireInstructor().uid), {
+    retention: rules,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/** Saves the course's own rules. An empty policy removes the override so the workspace rules apply again. */
+export async function saveCourseRetentionPolicy(courseId: string, policy: CourseRetentionPolicy): Promise<void> {
+  requireInstructor();
+  const cleaned = cleanRetentionPolicy(policy);
+  await updateDoc(doc(db, COLLECTIONS.COURSES, courseId), {
+    retention: Object.keys(cleaned).length ? cleaned : deleteField(),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+/** What the next scheduled purge would delete from this workspace. Nothing is deleted. */
+export async function previewRetentionPurge(): Promise<RetentionPreview> {
+  requireInstructor();
+  return (await previewCall()).data;
+}
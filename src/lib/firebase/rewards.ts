@@ -4,17 +4,56 @@ import {
   deleteDoc,
   doc,
   getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
   query,
   Timestamp,
   updateDoc,
   where,
+  type Unsubscribe,
 } from 'firebase/firestore';
-import { auth, db } from './config';
-import { ensureStudentAnonymousAuth, studentDb } from './student-config';
-import type { RewardDefinition, RewardKind, RewardRequest, RewardRequestStatus } from '@/types';
+import { httpsCallable } from 'firebase/functions';
+import { auth, db, functions } from './config';
+import { ensureStudentAnonymousAuth, studentDb, studentFunctions } from './student-config';
+import type { RewardDefinition, RewardKind, RewardLedger, RewardLedgerEntryRecord, RewardRequest, RewardRequestStatus } from '@/types';
 
 const REWARD_DEFINITIONS = 'rewardDefinitions';
 const REWARD_REQUESTS = 'rewardRequests';
+const REWARD_LEDGERS = 'rewardLedgers';
+/** Ledger lines a device keeps in view; the balance itself is always the full total. */
+const LEDGER_ENTRY_LIMIT = 60;
+
+type LiveRoom = { ownerUid: string; sessionId: string };
+
+const linkLedgerCall = httpsCallable<LiveRoom, { ledgerId: string; pending: boolean; devices: number }>(studentFunctions, 'linkStudentRewardLedger');
+const recordRewardCall = httpsCallable<
+  LiveRoom & { eventKey: string; optionIndex?: number },
+  { created: boolean; entry: Omit<RewardLedgerEntryRecord, 'createdAt' | 'sessionId' | 'optionIndex'> & { createdAt: number } }
+>(studentFunctions, 'recordStudentReward');
+const requestRewardCall = httpsCallable<LiveRoom & { rewardId: string }, { requestId: string }>(studentFunctions, 'requestStudentReward');
+const reviewRequestCall = httpsCallable<
+  { requestId: string; status: Exclude<RewardRequestStatus, 'pending'>; instructorNote?: string },
+  { status: RewardRequestStatus }
+>(functions, 'reviewStudentRewardRequest');
+const reviewDeviceCall = httpsCallable<
+  { ledgerId: string; deviceUid: string; decision: 'approve' | 'decline' },
+  { decision: 'approve' | 'decline'; devices: number }
+>(functions, 'reviewRewardLedgerDevice');
+
+/**
+ * Reward refusals explain themselves (too few points, an open request), so pass the server's wording
+ * through instead of letting the generic callable error mapping replace it.
+ */
+async function withRewardMessage<T>(call: Promise<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (error) {
+    const { code, message } = error as { code?: string; message?: string };
+    if (message && (code === 'functions/failed-precondition' || code === 'functions/already-exists' || code === 'functions/not-found')) throw new Error(message);
+    throw error;
+  }
+}
 
 function requireInstructor() {
   const instructor = auth.currentUser;
@@ -67,13 +106,23 @@ export async function getRewardRequestsForInstructor(teacherId: string): Promise
     .sort((a, b) => (b.requestedAt?.toMillis?.() || 0) - (a.requestedAt?.toMillis?.() || 0));
 }
 
+/** Approving is refused when the student's ledger no longer covers the reward; marking it used spends the points. */
 export async function reviewRewardRequest(requestId: string, status: Exclude<RewardRequestStatus, 'pending'>, instructorNote?: string): Promise<void> {
   requireInstructor();
-  await updateDoc(doc(db, REWARD_REQUESTS, requestId), {
-    status,
-    reviewedAt: Timestamp.now(),
-    instructorNote: instructorNote?.trim() || '',
-  });
+  await withRewardMessage(reviewRequestCall({ requestId, status, ...(instructorNote?.trim() ? { instructorNote: instructorNote.trim() } : {}) }));
+}
+
+/** Ledgers with devices waiting to be confirmed as the student's own before they can use the points. */
+export async function getRewardLedgersAwaitingApproval(teacherId: string): Promise<RewardLedger[]> {
+  const snapshot = await getDocs(query(collection(db, REWARD_LEDGERS), where('teacherId', '==', teacherId)));
+  return snapshot.docs
+    .map((ledgerDoc) => ({ id: ledgerDoc.id, ...ledgerDoc.data() } as RewardLedger))
+    .filter((ledger) => ledger.pendingDevices?.length);
+}
+
+export async function reviewRewardLedgerDevice(ledgerId: string, deviceUid: string, decision: 'approve' | 'decline'): Promise<void> {
+  requireInstructor();
+  await withRewardMessage(reviewDeviceCall({ ledgerId, deviceUid, decision }));
 }
 
 export async function getAvailableRewardsForStudent(teacherId: string, courseIdOrCode: string): Promise<RewardDefinition[]> {
@@ -89,47 +138,67 @@ export async function getAvailableRewardsForStudent(teacherId: string, courseIdO
 
 export async function getStudentRewardRequests(teacherId: string, courseIdOrCode: string): Promise<RewardRequest[]> {
   const student = await ensureStudentAnonymousAuth();
-  const snapshot = await getDocs(query(collection(studentDb, REWARD_REQUESTS), where('authorUid', '==', student.uid)));
-  return snapshot.docs
-    .map((requestDoc) => ({ id: requestDoc.id, ...requestDoc.data() } as RewardRequest))
+  // Requests made before the server ledger are only linked to the device that made them.
+  const [linked, ownDevice] = await Promise.all([
+    getDocs(query(collection(studentDb, REWARD_REQUESTS), where('deviceUids', 'array-contains', student.uid))),
+    getDocs(query(collection(studentDb, REWARD_REQUESTS), where('authorUid', '==', student.uid))),
+  ]);
+  const requests = new Map([...linked.docs, ...ownDevice.docs].map((requestDoc) => [requestDoc.id, { id: requestDoc.id, ...requestDoc.data() } as RewardRequest]));
+  return [...requests.values()]
     .filter((request) => request.teacherId === teacherId && (request.courseId === courseIdOrCode || request.courseCode === courseIdOrCode))
     .sort((a, b) => (b.requestedAt?.toMillis?.() || 0) - (a.requestedAt?.toMillis?.() || 0));
 }
 
-export async function requestReward(input: {
-  teacherId: string;
-  courseId: string;
-  courseCode: string;
-  studentNumber: string;
-  studentDisplayName?: string;
-  reward: RewardDefinition;
-  pointsAtRequest: number;
-}): Promise<string> {
-  const student = await ensureStudentAnonymousAuth();
-  const existing = await getStudentRewardRequests(input.teacherId, input.courseId);
-  if (existing.some((request) => request.rewardId === input.reward.id && (request.status === 'pending' || request.status === 'approved'))) {
-    throw new Error('You already have an active request for this reward.');
-  }
-  const usedCount = existing.filter((request) => request.rewardId === input.reward.id && request.status === 'used').length;
-  if (usedCount >= (input.reward.limitPerStudent || 1)) {
-    throw new Error('You have already used the available limit for this reward.');
-  }
-  if (input.pointsAtRequest < input.reward.pointsRequired) {
-    throw new Error(`You need ${input.reward.pointsRequired - input.pointsAtRequest} more points to request this reward.`);
-  }
-  const requestDoc = await addDoc(collection(studentDb, REWARD_REQUESTS), {
-    authorUid: student.uid,
-    teacherId: input.teacherId,
-    courseId: input.courseId,
-    courseCode: input.courseCode,
-    studentNumber: input.studentNumber,
-    ...(input.studentDisplayName ? { studentDisplayName: input.studentDisplayName } : {}),
-    rewardId: input.reward.id,
-    rewardName: input.reward.name,
-    pointsRequired: input.reward.pointsRequired,
-    pointsAtRequest: input.pointsAtRequest,
-    status: 'pending',
-    requestedAt: Timestamp.now(),
-  });
-  return requestDoc.id;
+/** Asks for a reward from the live class. The server checks the ledger balance and any open requests. */
+export async function requestReward(room: LiveRoom, rewardId: string): Promise<string> {
+  await ensureStudentAnonymousAuth();
+  return (await withRewardMessage(requestRewardCall({ ...room, rewardId }))).data.requestId;
+}
+
+/**
+ * Links this device to the student's ledger for the room's reward scope. A device that finds a ledger
+ * started on another device comes back `pending`, with no ledger id, until the instructor approves it.
+ */
+export async function linkStudentRewardLedger(room: LiveRoom): Promise<{ ledgerId: string; pending: boolean }> {
+  await ensureStudentAnonymousAuth();
+  const { ledgerId, pending } = (await linkLedgerCall(room)).data;
+  return { ledgerId, pending };
+}
+
+/**
+ * Asks the server to record a reward for something that just happened in class. The server decides the
+ * amount; recording the same event again returns the existing entry with `created: false`.
+ */
+export async function recordStudentReward(room: LiveRoom, eventKey: string, optionIndex?: number) {
+  await ensureStudentAnonymousAuth();
+  return (await recordRewardCall({ ...room, eventKey, ...(optionIndex !== undefined ? { optionIndex } : {}) })).data;
+}
+
+export function subscribeToStudentRewardLedger(
+  ledgerId: string,
+  callback: (ledger: RewardLedger | null, entries: RewardLedgerEntryRecord[]) => void,
+  onError?: (error: Error) => void,
+): Unsubscribe {
+  const ledgerRef = doc(studentDb, REWARD_LEDGERS, ledgerId);
+  let ledger: RewardLedger | null = null;
+  let entries: RewardLedgerEntryRecord[] = [];
+  let ledgerLoaded = false;
+  let entriesLoaded = false;
+  const emit = () => {
+    if (ledgerLoaded && entriesLoaded) callback(ledger, entries);
+  };
+  const stopLedger = onSnapshot(ledgerRef, (snapshot) => {
+    ledger = snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as RewardLedger : null;
+    ledgerLoaded = true;
+    emit();
+  }, onError);
+  const stopEntries = onSnapshot(query(collection(ledgerRef, 'entries'), orderBy('createdAt', 'desc'), limit(LEDGER_ENTRY_LIMIT)), (snapshot) => {
+    entries = snapshot.docs.map((entryDoc) => ({ id: entryDoc.id, ...entryDoc.data() } as RewardLedgerEntryRecord));
+    entriesLoaded = true;
+    emit();
+  }, onError);
+  return () => {
+    stopLedger();
+    stopEntries();
+  };
 }
@@ -0,0 +1,55 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  setDoc,
+  Timestamp,
+} from 'firebase/firestore';
+import { auth, db } from './config';
+import { clampSeatingDimension, fitSeatsToLayout } from '@/lib/seating-chart';
+import type { Course, SeatingChart } from '@/types';
+
+const seatingCollection = (courseId: string) => collection(db, 'courses', courseId, 'seatingCharts');
+
+function requireInstructor() {
+  const instructor = auth.currentUser;
+  if (!instructor || instructor.isAnonymous) throw new Error('Instructor sign-in required.');
+  return instructor;
+}
+
+/** Saved rooms for a class, most recently edited first. */
+export async function getSeatingCharts(courseId: string): Promise<SeatingChart[]> {
+  const snapshot = await getDocs(seatingCollection(courseId));
+  return snapshot.docs
+    .map((chartDoc) => ({ id: chartDoc.id, ...chartDoc.data() } as SeatingChart))
+    .sort((a, b) => (b.updatedAt?.toMillis?.() || 0) - (a.updatedAt?.toMillis?.() || 0));
+}
+
+/** Creates the chart when it has no id yet. Assignments to seats outside the layout are dropped on save. */
+export async function saveSeatingChart(
+  course: Pick<Course, 'id' | 'teacherId'>,
+  chart: Pick<SeatingChart, 'room' | 'layout' | 'rows' | 'columns' | 'seats'> & { id?: string },
+): Promise<SeatingChart> {
+  const instructor = requireInstructor();
+  const room = chart.room.trim().slice(0, 80);
+  if (!room) throw new Error('Name the room before saving its seating chart.');
+  const chartRef = chart.id ? doc(seatingCollection(course.id), chart.id) : doc(seatingCollection(course.id));
+  const layout = { layout: chart.layout, rows: clampSeatingDimension(chart.rows), columns: clampSeatingDimension(chart.columns) };
+  const saved: Omit<SeatingChart, 'id'> = {
+    courseId: course.id,
+    teacherId: course.teacherId,
+    room,
+    ...layout,
+    seats: fitSeatsToLayout(chart.seats, layout).seats,
+    updatedBy: instructor.uid,
+    updatedAt: Timestamp.now(),
+  };
+  await setDoc(chartRef, saved);
+  return { id: chartRef.id, ...saved };
+}
+
+export async function deleteSeatingChart(courseId: string, chartId: string): Promise<void> {
+  requireInstructor();
+  await deleteDoc(doc(seatingCollection(courseId), chartId));
+}
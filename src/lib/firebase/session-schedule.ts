@@ -0,0 +1,17 @@
+'use client';
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './config';
+
+export type GeneratedSessionsResult = { created: number; skipped: number; timeZone: string };
+
+const generateSessionsCall = httpsCallable<{ courseId: string; timeZone?: string }, GeneratedSessionsResult>(functions, 'generateCourseSessions');
+
+/**
+ * Creates draft sessions for every upcoming meeting in the course pattern that does not have one yet.
+ * Meeting times use the owner's saved time zone; this browser's zone is sent for owners without one.
+ */
+export async function generateCourseSessions(courseId: string) {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return (await generateSessionsCall({ courseId, ...(timeZone ? { timeZone } : {}) })).data;
+}
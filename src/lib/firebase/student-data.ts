@@ -0,0 +1,54 @@
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './config';
+import type { DataSubjectRequest, DeletionReceipt, StudentDataBundle, StudentErasurePreview } from '@/types';
+
+/** Log entries kept in view on the data requests page. */
+const REQUEST_HISTORY_LIMIT = 25;
+
+/** A student is looked up by the number they join with, or by one device ID from an export or support ticket. */
+export type StudentDataLookup = { studentNumber: string } | { studentUid: string };
+
+const exportCall = httpsCallable<StudentDataLookup, StudentDataBundle>(functions, 'exportStudentData');
+const previewEraseCall = httpsCallable<StudentDataLookup, StudentErasurePreview>(functions, 'previewStudentErasure');
+const eraseCall = httpsCallable<StudentDataLookup & { identityFingerprint: string }, DeletionReceipt>(functions, 'eraseStudentData');
+
+/**
+ * Data request refusals name the problem (no records, no permission, receipts not set up), so pass the
+ * server's wording through instead of the generic callable error mapping.
+ */
+async function withRequestMessage<T>(call: Promise<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (error) {
+    const { code, message } = error as { code?: string; message?: string };
+    if (message && ['functions/not-found', 'functions/permission-denied', 'functions/failed-precondition', 'functions/invalid-argument'].includes(code || '')) {
+      throw new Error(message);
+    }
+    throw error;
+  }
+}
+
+export async function exportStudentData(lookup: StudentDataLookup) {
+  return (await withRequestMessage(exportCall(lookup))).data;
+}
+
+/** The student numbers and devices an erasure would cover, and how many records they hold. Nothing changes. */
+export async function previewStudentErasure(lookup: StudentDataLookup) {
+  return (await withRequestMessage(previewEraseCall(lookup))).data;
+}
+
+/** Erases the student's records in every class in the workspace, for the previewed identities only. This cannot be undone. */
+export async function eraseStudentData(lookup: StudentDataLookup, preview: StudentErasurePreview) {
+  return (await withRequestMessage(eraseCall({ ...lookup, identityFingerprint: preview.identityFingerprint }))).data;
+}
+
+export async function getDataSubjectRequests(ownerUid: string): Promise<DataSubjectRequest[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'dataSubjectRequests'),
+    where('ownerUid', '==', ownerUid),
+    orderBy('createdAt', 'desc'),
+    limit(REQUEST_HISTORY_LIMIT),
+  ));
+  return snapshot.docs.map((requestDoc) => ({ id: requestDoc.id, ...requestDoc.data() } as DataSubjectRequest));
+}
@@ -16,6 +16,7 @@ import {
 import { ensureStudentAnonymousAuth, studentDb, studentAuth } from './student-config';
 import type {
   CaseStudy,
+  CaseStudyVersion,
   Session,
   Student,
   Response,
@@ -24,6 +25,7 @@ import type {
   StudentOverallProgress,
 } from '@/types';
 import { normalizeStudentId } from '@/lib/utils';
+import { applyCaseStudyVersion } from '@/lib/case-study-versions';
 
 // Collections - same as main firestore
 export const COLLECTIONS = {
@@ -64,6 +66,21 @@ export const getSessionByCodeStudent = async (sessionCode: string): Promise<Sess
   return { id: docData.id, ...docData.data() } as Session;
 };
 
+/** Open homework assignments in a course, soonest due first. */
+export const getCourseHomeworkStudent = async (courseId: string): Promise<Session[]> => {
+  await ensureStudentAnonymousAuth();
+  const q = query(
+    collection(studentDb, COLLECTIONS.SESSIONS),
+    where('courseId', '==', courseId),
+    where('sessionType', '==', 'case-study')
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map((docData) => ({ id: docData.id, ...docData.data() }) as Session)
+    .filter((session) => session.active && session.homework)
+    .sort((a, b) => (a.homework?.dueAt?.toMillis?.() || 0) - (b.homework?.dueAt?.toMillis?.() || 0));
+};
+
 export const getCaseStudyStudent = async (id: string): Promise<CaseStudy | null> => {
   const docRef = doc(studentDb, COLLECTIONS.CASE_STUDIES, id);
   const docSnap = await getDoc(docRef);
@@ -74,6 +91,15 @@ export const getCaseStudyStudent = async (id: string): Promise<CaseStudy | null>
   return null;
 };
 
+/** The case study at the version the session pinned, so edits made later do not change what students read. */
+export const getCaseStudyForSessionStudent = async (session: Pick<Session, 'caseStudyId' | 'caseStudyVersion'>): Promise<CaseStudy | null> => {
+  if (!session.caseStudyId) return null;
+  const caseStudy = await getCaseStudyStudent(session.caseStudyId);
+  if (!caseStudy || !session.caseStudyVersion || session.caseStudyVersion === caseStudy.currentVersion) return caseStudy;
+  const versionSnap = await getDoc(doc(studentDb, COLLECTIONS.CASE_STUDIES, session.caseStudyId, 'versions', String(session.caseStudyVersion)));
+  return applyCaseStudyVersion(caseStudy, versionSnap.exists() ? { id: versionSnap.id, ...versionSnap.data() } as CaseStudyVersion : null);
+};
+
 export const getSessionStudent = async (id: string): Promise<Session | null> => {
   const docRef = doc(studentDb, COLLECTIONS.SESSIONS, id);
   const docSnap = await getDoc(docRef);
@@ -153,11 +179,11 @@ export const getResponsesByStudentStudent = async (studentId: string, sessionId:
 
 export const createResponseStudent = async (response: Omit<Response, 'id' | 'submittedAt'>) => {
   const user = await ensureStudentAnonymousAuth();
-  const now = Timestamp.now();
+  // The rules accept only the server's time here, since homework late penalties are based on it
   const docRef = await addDoc(collection(studentDb, COLLECTIONS.RESPONSES), {
     ...response,
     authorUid: user.uid,
-    submittedAt: now
+    submittedAt: serverTimestamp()
   });
   return docRef.id;
 };
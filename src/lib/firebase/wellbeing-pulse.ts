@@ -0,0 +1,23 @@
+'use client';
+
+import { collection, doc, getDocs, query, Timestamp, updateDoc, where } from 'firebase/firestore';
+import { priorPulseCounts, sessionPulseSummary, type PulseCounts } from '@/lib/wellbeing-pulse';
+import type { Session } from '@/types';
+import { db } from './config';
+import { COLLECTIONS } from './firestore';
+
+/** Pulse totals from the course's previous class, read from the saved aggregates. */
+export async function getPriorPulseCounts(courseId: string, sessionId: string): Promise<PulseCounts | null> {
+  const snapshot = await getDocs(query(collection(db, COLLECTIONS.SESSIONS), where('courseId', '==', courseId)));
+  return priorPulseCounts(snapshot.docs.map((sessionDoc) => ({ id: sessionDoc.id, ...sessionDoc.data() } as Session)), sessionId);
+}
+
+/**
+ * Saves this class's pulse totals for later comparisons. Anonymous pulses are saved by
+ * `submitAnonymousPulse` instead, from the published breakdown.
+ */
+export async function saveSessionPulseSummary(sessionId: string, runId: number, counts: PulseCounts) {
+  await updateDoc(doc(db, COLLECTIONS.SESSIONS, sessionId), {
+    wellbeingPulse: { ...sessionPulseSummary(runId, counts), recordedAt: Timestamp.now() },
+  });
+}
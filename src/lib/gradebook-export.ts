@@ -0,0 +1,112 @@
+import { getFinalPercentage, type Gradebook, type GradebookCell, type GradebookColumn, type GradebookStudent } from '@/lib/gradebook';
+
+export type GradebookExportFormat = 'canvas' | 'moodle' | 'blackboard';
+
+export const GRADEBOOK_EXPORT_FORMATS: Array<{ id: GradebookExportFormat; label: string; description: string }> = [
+  { id: 'canvas', label: 'Canvas', description: 'Grades > Import. Students are matched on SIS User ID.' },
+  { id: 'moodle', label: 'Moodle', description: 'Grades > Import > CSV file. Map "ID number" to the user ID number field.' },
+  { id: 'blackboard', label: 'Blackboard', description: 'Grade Center > Work Offline > Upload. Students are matched on Username.' },
+];
+
+const BONUS_TITLE = 'Achievement bonus';
+const TOTAL_TITLE = 'Course total';
+
+export function toCsv(rows: Array<Array<string | number>>) {
+  return rows.map((row) => row.map((cell) => `"${String(cell).replaceAll('"', '""')}"`).join(',')).join('\n');
+}
+
+/** LMS imports match grade columns by title, so repeated session titles get a numeric suffix. */
+function uniqueTitles(columns: GradebookColumn[]) {
+  const seen = new Map<string, number>();
+  return columns.map((column) => {
+    const count = (seen.get(column.title) || 0) + 1;
+    seen.set(column.title, count);
+    return count === 1 ? column.title : `${column.title} (${count})`;
+  });
+}
+
+function splitName(student: GradebookStudent) {
+  const parts = student.name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length < 2) return { first: parts[0] || '', last: '' };
+  return { first: parts.slice(0, -1).join(' '), last: parts[parts.length - 1] };
+}
+
+function formatPoints(value: number) {
+  return String(Math.round(value * 10) / 10);
+}
+
+function cellValue(cell: GradebookCell | undefined, excused: string) {
+  if (!cell) return '';
+  if (cell.status === 'excused') return excused;
+  return cell.points === null ? '' : formatPoints(cell.points);
+}
+
+/**
+ * Serializes the gradebook in the column layout each LMS gradebook import expects. Every format
+ * identifies students by `Student.studentId`, which stays stable when names are edited.
+ */
+export function exportGradebookCsv(gradebook: Gradebook, format: GradebookExportFormat) {
+  const titles = uniqueTitles(gradebook.columns);
+  const studentRows = gradebook.rows.map((row) => {
+    const final = getFinalPercentage(row);
+    return {
+      row,
+      name: splitName(row.student),
+      total: final === null ? '' : formatPoints(final),
+    };
+  });
+
+  if (format === 'canvas') {
+    return toCsv([
+      ['Student', 'ID', 'SIS User ID', 'SIS Login ID', 'Section', ...titles, BONUS_TITLE, `${TOTAL_TITLE} (%)`],
+      ['Points Possible', '', '', '', '', ...gradebook.columns.map((column) => formatPoints(column.maxPoints)), '0', '100'],
+      ...studentRows.map(({ row, name, total }) => [
+        name.last ? `${name.last}, ${name.first}` : name.first,
+        '',
+        row.student.studentId,
+        '',
+        '',
+        ...gradebook.columns.map((column) => cellValue(row.cells[column.sessionId], 'EX')),
+        formatPoints(row.bonusPoints),
+        total,
+      ]),
+    ]);
+  }
+
+  if (format === 'moodle') {
+    return toCsv([
+      ['First name', 'Last name', 'ID number', 'Email address', ...titles, BONUS_TITLE, `${TOTAL_TITLE} (%)`],
+      ...studentRows.map(({ row, name, total }) => [
+        name.first,
+        name.last,
+        row.student.studentId,
+        row.student.email || '',
+        // Moodle reads "-" as "no grade", which leaves an excused item out of the category total.
+        ...gradebook.columns.map((column) => cellValue(row.cells[column.sessionId], '-')),
+        formatPoints(row.bonusPoints),
+        total,
+      ]),
+    ]);
+  }
+
+  return toCsv([
+    [
+      'Last Name',
+      'First Name',
+      'Username',
+      'Student ID',
+      ...gradebook.columns.map((column, index) => `${titles[index]} [Total Pts: ${formatPoints(column.maxPoints)} Score]`),
+      `${BONUS_TITLE} [Total Pts: 0 Score]`,
+      `${TOTAL_TITLE} [Total Pts: 100 Score]`,
+    ],
+    ...studentRows.map(({ row, name, total }) => [
+      name.last,
+      name.first,
+      row.student.studentId,
+      row.student.studentId,
+      ...gradebook.columns.map((column) => cellValue(row.cells[column.sessionId], '')),
+      formatPoints(row.bonusPoints),
+      total,
+    ]),
+  ]);
+}
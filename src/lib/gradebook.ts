@@ -0,0 +1,251 @@
+import type {
+  CaseStudy,
+  CourseGradebookSettings,
+  GradebookOverride,
+  Response,
+  Session,
+  Student,
+  StudentGrade,
+} from '@/types';
+import { homeworkLatePenaltyPercent, isLateHomeworkSubmission } from '@/lib/homework';
+
+export type GradebookCellStatus = 'graded' | 'pending' | 'missing' | 'late' | 'excused';
+
+export type GradebookStudent = Pick<Student, 'id' | 'studentId' | 'name'> & { email?: string };
+
+export type GradebookColumn = {
+  sessionId: string;
+  title: string;
+  date: Date | null;
+  maxPoints: number;
+  weight: number;
+};
+
+export type GradebookCell = {
+  sessionId: string;
+  /** Points after overrides; null when the session does not count for this student. */
+  points: number | null;
+  rawPoints: number | null;
+  maxPoints: number;
+  status: GradebookCellStatus;
+  override?: GradebookOverride;
+};
+
+export type GradebookRow = {
+  student: GradebookStudent;
+  cells: Record<string, GradebookCell>;
+  sessionPoints: number;
+  maxPoints: number;
+  bonusPoints: number;
+  totalPoints: number;
+  /** Attendance rate: the register's when one was sent, otherwise the share of counted sessions answered. */
+  attendanceRate: number | null;
+  contributionRate: number | null;
+  /** What the participation share is worked from: attendance and contribution averaged when both exist. */
+  participationRate: number | null;
+  /** Weighted course grade, 0-100 before bonus, or null when nothing counts yet. */
+  percentage: number | null;
+};
+
+export type Gradebook = {
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+};
+
+export const DEFAULT_LATE_PENALTY_PERCENT = 10;
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+const clampPercent = (value: number) => Math.min(100, Math.max(0, Number.isFinite(value) ? value : 0));
+
+export function gradebookOverrideKey(studentDocId: string, sessionId: string) {
+  return `${studentDocId}:${sessionId}`;
+}
+
+export function getSessionWeight(settings: CourseGradebookSettings | undefined, sessionId: string) {
+  const weight = settings?.sessionWeights?.[sessionId];
+  return typeof weight === 'number' && Number.isFinite(weight) && weight >= 0 ? weight : 1;
+}
+
+function caseStudyMaxPoints(caseStudy: Pick<CaseStudy, 'sections'> | undefined) {
+  return (caseStudy?.sections || []).reduce((total, section) => total + (section.questions || []).reduce((sum, question) => sum + (question.points || 0), 0), 0);
+}
+
+function sessionDate(session: Session) {
+  const scheduled = session.scheduledFor ? new Date(session.scheduledFor) : null;
+  return session.startedAt?.toDate?.()
+    || (scheduled && !Number.isNaN(scheduled.getTime()) ? scheduled : null)
+    || session.createdAt?.toDate?.()
+    || null;
+}
+
+/**
+ * Builds the course gradebook from saved case study responses. Sessions keep the order they are passed
+ * in, so callers apply the course teaching sequence first. Only sessions with points available become
+ * columns. A late override applies the penalty to the earned points; an excused session drops out of the
+ * student's earned points, possible points and attendance rate. Homework answered after the student's
+ * due date counts as late under the assignment's late policy unless an override says otherwise.
+ */
+export function buildGradebook({
+  sessions,
+  caseStudies,
+  students,
+  responses,
+  grades = [],
+  settings,
+}: {
+  sessions: Session[];
+  caseStudies: Record<string, Pick<CaseStudy, 'sections'>>;
+  students: GradebookStudent[];
+  responses: Response[];
+  grades?: Pick<StudentGrade, 'studentId' | 'participationRate' | 'contribution' | 'achievementBonusPoints'>[];
+  settings?: CourseGradebookSettings;
+}): Gradebook {
+  const responsesBySession = new Map<string, Response[]>();
+  responses.forEach((response) => {
+    const list = responsesBySession.get(response.sessionId) || [];
+    list.push(response);
+    responsesBySession.set(response.sessionId, list);
+  });
+
+  const homeworkBySession = new Map(sessions.flatMap((session) => session.homework ? [[session.id, session.homework]] : []));
+  const columns = sessions.flatMap((session): GradebookColumn[] => {
+    const sessionResponses = responsesBySession.get(session.id) || [];
+    const fromCaseStudy = session.caseStudyId ? caseStudyMaxPoints(caseStudies[session.caseStudyId]) : 0;
+    // Without the case study, the most any one student could have earned stands in for the total.
+    const fromResponses = Array.from(sessionResponses.reduce((byStudent, response) => (
+      byStudent.set(response.studentId, (byStudent.get(response.studentId) || 0) + (response.maxPoints || 0))
+    ), new Map<string, number>()).values()).reduce((max, value) => Math.max(max, value), 0);
+    const maxPoints = fromCaseStudy || fromResponses;
+    if (!maxPoints) return [];
+    return [{
+      sessionId: session.id,
+      title: session.title || session.caseStudyTitle || 'Class session',
+      date: sessionDate(session),
+      maxPoints,
+      weight: getSessionWeight(settings, session.id),
+    }];
+  });
+
+  const gradesByStudent = new Map(grades.map((grade) => [grade.studentId, grade]));
+  const defaultPenalty = settings?.latePenaltyPercent ?? DEFAULT_LATE_PENALTY_PERCENT;
+  const participationShare = clampPercent(settings?.participationWeight ?? 0) / 100;
+  const includeBonus = settings?.includeAchievementBonus ?? true;
+
+  const rows = students.map((student): GradebookRow => {
+    const cells: Record<string, GradebookCell> = {};
+    let sessionPoints = 0;
+    let maxPoints = 0;
+    let weightedTotal = 0;
+    let weightSum = 0;
+    let respondedSessions = 0;
+    let countedSessions = 0;
+
+    columns.forEach((column) => {
+      const studentResponses = (responsesBySession.get(column.sessionId) || []).filter((response) => response.studentId === student.id);
+      const override = settings?.overrides?.[gradebookOverrideKey(student.id, column.sessionId)];
+      const graded = studentResponses.filter((response) => typeof response.points === 'number');
+      const rawPoints = studentResponses.length ? roundToTenth(graded.reduce((sum, response) => sum + (response.points || 0), 0)) : null;
+      if (override?.status === 'excused') {
+        cells[column.sessionId] = { sessionId: column.sessionId, points: null, rawPoints, maxPoints: column.maxPoints, status: 'excused', override };
+        return;
+      }
+
+      let status: GradebookCellStatus = !studentResponses.length
+        ? 'missing'
+        : graded.length < studentResponses.length ? 'pending' : 'graded';
+      let points = rawPoints ?? 0;
+      const homework = homeworkBySession.get(column.sessionId);
+      if (override?.status === 'late') {
+        const penalty = clampPercent(override.latePenaltyPercent ?? defaultPenalty);
+        points = roundToTenth(points * (1 - penalty / 100));
+        status = 'late';
+      } else if (!override && homework && studentResponses.some((response) => isLateHomeworkSubmission(homework, student.id, response.submittedAt))) {
+        points = roundToTenth(points * (1 - homeworkLatePenaltyPercent(homework, defaultPenalty) / 100));
+        status = 'late';
+      }
+      points = Math.min(points, column.maxPoints);
+      countedSessions += 1;
+      if (studentResponses.length) respondedSessions += 1;
+
+      cells[column.sessionId] = { sessionId: column.sessionId, points, rawPoints, maxPoints: column.maxPoints, status, ...(override ? { override } : {}) };
+      sessionPoints += points;
+      maxPoints += column.maxPoints;
+      weightedTotal += column.weight * (points / column.maxPoints);
+      weightSum += column.weight;
+    });
+
+    const grade = gradesByStudent.get(student.id);
+    const attendanceRate = typeof grade?.participationRate === 'number'
+      ? clampPercent(grade.participationRate)
+      : countedSessions ? Math.round((respondedSessions / countedSessions) * 100) : null;
+    const contributionRate = typeof grade?.contribution?.rate === 'number' ? clampPercent(grade.contribution.rate) : null;
+    const participationRate = attendanceRate === null || contributionRate === null
+      ? attendanceRate ?? contributionRate
+      : roundToTenth((attendanceRate + contributionRate) / 2);
+    const sessionPercent = weightSum ? (weightedTotal / weightSum) * 100 : null;
+    const basePercent = sessionPercent === null
+      ? null
+      : participationRate === null || !participationShare
+        ? sessionPercent
+        : sessionPercent * (1 - participationShare) + participationRate * participationShare;
+    const bonusPoints = includeBonus ? grade?.achievementBonusPoints || 0 : 0;
+
+    return {
+      student,
+      cells,
+      sessionPoints: roundToTenth(sessionPoints),
+      maxPoints,
+      bonusPoints,
+      totalPoints: roundToTenth(sessionPoints + bonusPoints),
+      attendanceRate,
+      contributionRate,
+      participationRate,
+      percentage: basePercent === null ? null : roundToTenth(basePercent),
+    };
+  }).sort((a, b) => a.student.name.localeCompare(b.student.name) || a.student.studentId.localeCompare(b.student.studentId));
+
+  return { columns, rows };
+}
+
+/** Course grade with achievement bonus points added on top of the weighted percentage. */
+export function getFinalPercentage(row: GradebookRow) {
+  if (row.percentage === null) return null;
+  const bonusPercent = row.maxPoints ? (row.bonusPoints / row.maxPoints) * 100 : 0;
+  return roundToTenth(row.percentage + bonusPercent);
+}
+
+/**
+ * The StudentGrade record for one gradebook row, as sent to the LMS. Session points and possible points
+ * come from the gradebook; achievement bonuses, a recorded attendance rate and contribution marks are
+ * carried over from the existing record so saving never drops them.
+ */
+export function toStudentGradeRecord(
+  row: GradebookRow,
+  courseId: string,
+  sessions: Pick<Session, 'id' | 'caseStudyId' | 'createdAt' | 'startedAt' | 'endedAt'>[],
+  existing?: StudentGrade,
+): Omit<StudentGrade, 'id' | 'lastUpdated'> {
+  const sessionsById = new Map(sessions.map((session) => [session.id, session]));
+  return {
+    studentId: row.student.id,
+    courseId,
+    totalPoints: row.sessionPoints,
+    maxTotalPoints: row.maxPoints,
+    participationRate: existing?.participationRate ?? row.attendanceRate ?? 0,
+    ...(existing?.contribution ? { contribution: existing.contribution } : {}),
+    sessions: Object.values(row.cells).flatMap((cell) => {
+      const session = sessionsById.get(cell.sessionId);
+      if (!session || cell.points === null || cell.status === 'missing') return [];
+      return [{
+        sessionId: cell.sessionId,
+        caseStudyId: session.caseStudyId || '',
+        points: cell.points,
+        maxPoints: cell.maxPoints,
+        completedAt: session.endedAt || session.startedAt || session.createdAt,
+      }];
+    }),
+    achievementBonusPoints: existing?.achievementBonusPoints || 0,
+    achievementBonusPercentage: existing?.achievementBonusPercentage || 0,
+    achievementBonuses: existing?.achievementBonuses || [],
+  };
+}
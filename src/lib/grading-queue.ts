@@ -0,0 +1,87 @@
+import type { CaseStudy, Question, Response, Section } from '@/types';
+
+export type GradingState = 'ungraded' | 'ai-suggested' | 'approved' | 'overridden';
+export type GradingFilter = 'needs-review' | 'all';
+
+export type GradingQueueQuestion = {
+  section: Section;
+  question: Question;
+  responses: Response[];
+  needsReview: number;
+};
+
+const GRADABLE_QUESTION_TYPES = new Set<Question['type']>(['text', 'essay']);
+
+export function isGradableQuestion(question: Pick<Question, 'type'>) {
+  return GRADABLE_QUESTION_TYPES.has(question.type);
+}
+
+/** Legacy responses graded before gradeStatus existed count as approved when an instructor is recorded. */
+export function getGradingState(response: Response): GradingState {
+  if (response.gradeStatus === 'approved' || response.gradeStatus === 'overridden') return response.gradeStatus;
+  if (response.gradedBy) return 'approved';
+  if (response.gradeStatus === 'ai-suggested' || response.assessment) return 'ai-suggested';
+  return 'ungraded';
+}
+
+export function needsReview(response: Response) {
+  const state = getGradingState(response);
+  return state === 'ungraded' || state === 'ai-suggested';
+}
+
+/**
+ * What an AI assessment run writes. The suggestion is always refreshed, but the score and status only
+ * while no instructor has graded the response, so a rerun never replaces an instructor's grade.
+ */
+export function assessmentUpdate(response: Response, assessment: NonNullable<Response['assessment']>, gradedAt: Response['submittedAt']): Partial<Response> {
+  const state = getGradingState(response);
+  if (state === 'approved' || state === 'overridden') return { assessment };
+  return { points: assessment.score, assessment, gradeStatus: 'ai-suggested', gradedAt };
+}
+
+export function getAiSuggestedPoints(response: Response): number | null {
+  const score = response.assessment?.score;
+  return typeof score === 'number' && Number.isFinite(score) ? score : null;
+}
+
+/** Open-ended questions in teaching order with their responses, oldest submission first. */
+export function buildGradingQueue(caseStudy: Pick<CaseStudy, 'sections'>, responses: Response[], filter: GradingFilter = 'needs-review'): GradingQueueQuestion[] {
+  const sections = [...(caseStudy.sections || [])].sort((a, b) => a.order - b.order);
+  return sections.flatMap((section) => (section.questions || []).filter(isGradableQuestion).map((question) => {
+    const questionResponses = responses
+      .filter((response) => response.questionId === question.id)
+      .sort((a, b) => (a.submittedAt?.toMillis?.() || 0) - (b.submittedAt?.toMillis?.() || 0));
+    return {
+      section,
+      question,
+      responses: filter === 'all' ? questionResponses : questionResponses.filter(needsReview),
+      needsReview: questionResponses.filter(needsReview).length,
+    };
+  }));
+}
+
+function hashId(value: string) {
+  let hash = 2166136261;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Blind grading shows responses in an order unrelated to who answered first and labels them
+ * "Response 1..n". The order is stable for a given set of responses so a reload keeps positions.
+ */
+export function orderForBlindGrading(responses: Response[]) {
+  const ordered = [...responses].sort((a, b) => hashId(a.id) - hashId(b.id) || a.id.localeCompare(b.id));
+  return ordered.map((response, index) => ({ response, label: `Response ${index + 1}` }));
+}
+
+/** Returns an error message, or null when the points can be saved for this response. */
+export function validateGradePoints(points: number, maxPoints: number): string | null {
+  if (!Number.isFinite(points)) return 'Enter a number of points.';
+  if (points < 0) return 'Points cannot be negative.';
+  if (points > maxPoints) return `Points cannot exceed ${maxPoints}.`;
+  return null;
+}
@@ -0,0 +1,84 @@
+import type { Session, SessionHomework } from '@/types';
+
+export type HomeworkSubmissionState = 'open' | 'late' | 'closed';
+
+export type HomeworkDueState = 'upcoming' | 'due-soon' | 'overdue';
+
+/** Assignments due within this many hours show as due soon to students. */
+export const HOMEWORK_DUE_SOON_HOURS = 48;
+
+type TimestampLike = { toMillis: () => number } | null | undefined;
+
+const toMillis = (value: TimestampLike) => (value && typeof value.toMillis === 'function' ? value.toMillis() : 0);
+
+/** The student's due date, including an extension when one is set for their student document. */
+export function homeworkDueAt(homework: Pick<SessionHomework, 'dueAt' | 'extensions'>, studentDocId?: string) {
+  const extension = studentDocId ? toMillis(homework.extensions?.[studentDocId]) : 0;
+  return new Date(extension || toMillis(homework.dueAt));
+}
+
+/**
+ * Sections a student can open now. Sections an instructor released by hand stay open, so an assignment can
+ * still be taken over live in class. With the timetable, a section opens at its time, or at once when it has
+ * none; sections before an open one open with it, because students read them in order.
+ */
+export function homeworkReleasedSections(
+  session: Partial<Pick<Session, 'releasedSections' | 'homework'>>,
+  sectionCount: number,
+  now: Date,
+) {
+  const released = new Set(session.releasedSections || []);
+  const homework = session.homework;
+  if (homework) {
+    for (let index = 0; index < sectionCount; index += 1) {
+      const opensAt = toMillis(homework.sectionReleaseAt?.[index]);
+      if (homework.release === 'all' || opensAt <= now.getTime()) released.add(index);
+    }
+  }
+  const latest = Math.max(-1, ...Array.from(released));
+  return Array.from({ length: latest + 1 }, (_, index) => index);
+}
+
+/** The session with timetabled sections merged into `releasedSections`, for pages that read it directly. */
+export function withHomeworkReleases<T extends Pick<Session, 'releasedSections' | 'currentReleasedSection' | 'homework'>>(
+  session: T,
+  sectionCount: number,
+  now: Date,
+): T {
+  if (!session.homework) return session;
+  const releasedSections = homeworkReleasedSections(session, sectionCount, now);
+  return { ...session, releasedSections, currentReleasedSection: releasedSections.length - 1 };
+}
+
+/** When the next timetabled section opens, or null when nothing else is waiting. */
+export function nextHomeworkRelease(homework: SessionHomework | undefined, now: Date) {
+  if (!homework || homework.release !== 'timetable') return null;
+  const upcoming = (homework.sectionReleaseAt || [])
+    .map((value) => toMillis(value))
+    .filter((millis) => millis > now.getTime());
+  return upcoming.length ? new Date(Math.min(...upcoming)) : null;
+}
+
+/** Whether a student can still answer, and whether an answer now would be late. */
+export function homeworkSubmissionState(homework: SessionHomework, studentDocId: string | undefined, now: Date): HomeworkSubmissionState {
+  if (now.getTime() <= homeworkDueAt(homework, studentDocId).getTime()) return 'open';
+  return homework.latePolicy === 'closed' ? 'closed' : 'late';
+}
+
+export function isLateHomeworkSubmission(homework: SessionHomework, studentDocId: string, submittedAt: TimestampLike) {
+  const submitted = toMillis(submittedAt);
+  return submitted > 0 && submitted > homeworkDueAt(homework, studentDocId).getTime();
+}
+
+/** Penalty applied to late work under this assignment's policy; the course default fills in when none is set. */
+export function homeworkLatePenaltyPercent(homework: SessionHomework, courseDefault: number) {
+  if (homework.latePolicy !== 'penalty') return 0;
+  const penalty = homework.latePenaltyPercent ?? courseDefault;
+  return Math.min(100, Math.max(0, Number.isFinite(penalty) ? penalty : 0));
+}
+
+export function homeworkDueState(dueAt: Date, now: Date): HomeworkDueState {
+  const remaining = dueAt.getTime() - now.getTime();
+  if (remaining < 0) return 'overdue';
+  return remaining <= HOMEWORK_DUE_SOON_HOURS * 60 * 60 * 1000 ? 'due-soon' : 'upcoming';
+}
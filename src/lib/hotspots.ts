@@ -0,0 +1,83 @@
+import type { HotspotPoint, HotspotRegion } from '@/types';
+
+export type HotspotCluster = HotspotPoint & { count: number; share: number; hitsRegion: boolean };
+
+/** Taps closer than this, in the normalized coordinates of the image, join the same cluster. */
+export const HOTSPOT_CLUSTER_RADIUS = 0.06;
+export const MAX_HOTSPOT_REGIONS = 6;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number) => Math.round(value * 10_000) / 10_000;
+
+export function normalizeHotspotPoint(x: number, y: number): HotspotPoint {
+  return { x: round(clamp(x)), y: round(clamp(y)) };
+}
+
+export function isHotspotPoint(value: unknown): value is HotspotPoint {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y } = value as Record<string, unknown>;
+  return typeof x === 'number' && typeof y === 'number' && x >= 0 && x <= 1 && y >= 0 && y <= 1;
+}
+
+/** A region from two corners of a drag, in either direction. */
+export function regionFromCorners(start: HotspotPoint, end: HotspotPoint): HotspotRegion {
+  const x = clamp(Math.min(start.x, end.x));
+  const y = clamp(Math.min(start.y, end.y));
+  return {
+    x: round(x),
+    y: round(y),
+    width: round(clamp(Math.max(start.x, end.x)) - x),
+    height: round(clamp(Math.max(start.y, end.y)) - y),
+  };
+}
+
+export function isPointInRegion(point: HotspotPoint, region: HotspotRegion) {
+  return point.x >= region.x && point.x <= region.x + region.width && point.y >= region.y && point.y <= region.y + region.height;
+}
+
+export function isHotspotHit(point: HotspotPoint, regions: HotspotRegion[] = []) {
+  return regions.some((region) => isPointInRegion(point, region));
+}
+
+/**
+ * Groups nearby taps, largest cluster first. Each tap joins the nearest cluster whose centre is within the radius,
+ * and the centre moves to the mean of its taps, so a crowded spot on the exhibit reads as one label on the projector.
+ */
+export function clusterHotspotPoints(points: HotspotPoint[], regions: HotspotRegion[] = [], radius = HOTSPOT_CLUSTER_RADIUS): HotspotCluster[] {
+  const clusters: Array<{ x: number; y: number; count: number }> = [];
+  for (const point of points.filter(isHotspotPoint)) {
+    let nearest: (typeof clusters)[number] | null = null;
+    let nearestDistance = radius;
+    for (const cluster of clusters) {
+      const distance = Math.hypot(cluster.x - point.x, cluster.y - point.y);
+      if (distance <= nearestDistance) {
+        nearest = cluster;
+        nearestDistance = distance;
+      }
+    }
+    if (nearest) {
+      nearest.x = (nearest.x * nearest.count + point.x) / (nearest.count + 1);
+      nearest.y = (nearest.y * nearest.count + point.y) / (nearest.count + 1);
+      nearest.count += 1;
+    } else {
+      clusters.push({ ...point, count: 1 });
+    }
+  }
+  const total = clusters.reduce((sum, cluster) => sum + cluster.count, 0);
+  return clusters
+    .map((cluster) => ({
+      x: round(cluster.x),
+      y: round(cluster.y),
+      count: cluster.count,
+      share: total ? Math.round((cluster.count / total) * 100) : 0,
+      hitsRegion: isHotspotHit(cluster, regions),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Share of taps inside any correct region, or null when the exhibit has none. */
+export function hotspotHitPercent(points: HotspotPoint[], regions: HotspotRegion[] = []) {
+  const valid = points.filter(isHotspotPoint);
+  if (!regions.length || !valid.length) return null;
+  return Math.round((valid.filter((point) => isHotspotHit(point, regions)).length / valid.length) * 100);
+}
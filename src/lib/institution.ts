@@ -0,0 +1,38 @@
+import type { InstitutionDefaults, SessionParticipationMode } from '@/types';
+
+// Mirrors ASSESSMENT_PROVIDERS in functions/institution.js.
+export const INSTITUTION_ASSESSMENT_PROVIDERS: Array<{ id: NonNullable<InstitutionDefaults['assessmentProvider']>; label: string; description: string }> = [
+  { id: 'gemini', label: 'Gemini', description: 'Answers are sent to Google Gemini for scoring and feedback.' },
+  { id: 'heuristic', label: 'Built-in scorer', description: 'Answers are scored inside Classfully and never leave it.' },
+];
+
+export const PARTICIPATION_MODE_OPTIONS: Array<{ id: SessionParticipationMode; label: string }> = [
+  { id: 'course-record', label: 'Course record' },
+  { id: 'session-name', label: 'Names for this session' },
+  { id: 'anonymous', label: 'Anonymous participation' },
+];
+
+/** The token fields the SSO policy reads: custom claims, the custom-token claim and the Firebase sign-in provider. */
+export type SsoPolicyClaims = {
+  institutionId?: unknown;
+  ssoPolicy?: unknown;
+  ssoInstitutionId?: unknown;
+  firebase?: { sign_in_provider?: unknown };
+};
+
+/**
+ * Whether a sign-in meets the institution's SSO policy. Mirrors satisfiesSsoPolicy in
+ * functions/institution.js, which the functions and security rules enforce; the app uses it to sign
+ * out early instead of failing on every read.
+ */
+export function satisfiesSsoPolicy(claims: SsoPolicyClaims) {
+  const policy = claims.ssoPolicy;
+  if (!policy) return true;
+  if (policy === 'oidc') return Boolean(claims.institutionId) && claims.ssoInstitutionId === claims.institutionId;
+  return claims.firebase?.sign_in_provider === policy;
+}
+
+export function emailDomain(email: string) {
+  const at = email.lastIndexOf('@');
+  return at > 0 ? email.slice(at + 1).trim().toLowerCase() : '';
+}
@@ -0,0 +1,190 @@
+import type { SessionInteraction, SessionInteractionRun } from '@/types';
+import type { InstructorClassroomRecords, StoredLiveResponse } from '@/lib/firebase/live-classroom';
+import type { SessionParticipationSummary } from '@/lib/session-response-summary';
+
+type ResponseRuns = InstructorClassroomRecords['responses'];
+
+export type ItemAnalysisFlag = 'possible-miskey' | 'too-easy';
+
+export type AnswerTimeBucket = { label: string; maxSeconds: number; count: number };
+
+/** Students who answered both peer learning rounds, by whether each answer was correct. */
+export type AnswerSwitchMatrix = {
+  rightToRight: number;
+  rightToWrong: number;
+  wrongToRight: number;
+  wrongToWrong: number;
+};
+
+export type ItemAnalysis = {
+  runId: string;
+  interactionId: string;
+  type: 'quiz' | 'peer-learning';
+  title: string;
+  options: string[];
+  correctOptionIndex: number;
+  participationPercent: number;
+  /** Final answers per option; the second round for peer learning. */
+  optionCounts: number[];
+  responseCount: number;
+  percentCorrect: number;
+  /** First round answers per option, from each student's record or the counts saved when discussion began. */
+  preOptionCounts?: number[];
+  prePercentCorrect?: number;
+  switches?: AnswerSwitchMatrix;
+  /** Share of the possible improvement the discussion achieved; null when it was already at 100%. */
+  normalizedGain?: number | null;
+  answerTimes: AnswerTimeBucket[];
+  medianSeconds: number | null;
+  flags: ItemAnalysisFlag[];
+};
+
+const ANALYZED_TYPES = new Set<SessionInteraction['type']>(['quiz', 'peer-learning']);
+
+/** Fewer answers than this say more about who was in the room than about the question. */
+export const MIN_FLAGGED_RESPONSES = 5;
+export const TOO_EASY_PERCENT = 90;
+
+const ANSWER_TIME_BUCKETS = [
+  { label: '0-10s', maxSeconds: 10 },
+  { label: '10-20s', maxSeconds: 20 },
+  { label: '20-30s', maxSeconds: 30 },
+  { label: '30-60s', maxSeconds: 60 },
+  { label: '1-2m', maxSeconds: 120 },
+  { label: '2m+', maxSeconds: Infinity },
+];
+
+const isSecondRound = (run: SessionInteractionRun) => run.resultState?.phase === 'respond-again' || run.id.endsWith('-again');
+
+const percent = (part: number, total: number) => total ? Math.round((part / total) * 100) : 0;
+
+function countOptions(responses: StoredLiveResponse[], optionCount: number) {
+  const counts = Array.from({ length: optionCount }, () => 0);
+  responses.forEach((response) => {
+    if (typeof response.optionIndex === 'number' && response.optionIndex >= 0 && response.optionIndex < optionCount) counts[response.optionIndex] += 1;
+  });
+  return counts;
+}
+
+export function answerTimeHistogram(responses: StoredLiveResponse[], startedAt: number) {
+  const buckets = ANSWER_TIME_BUCKETS.map((bucket) => ({ ...bucket, count: 0 }));
+  const seconds = responses
+    .map((response) => (response.submittedAt - startedAt) / 1000)
+    .filter((value) => Number.isFinite(value) && value >= 0)
+    .sort((a, b) => a - b);
+  seconds.forEach((value) => {
+    const bucket = buckets.find((candidate) => value <= candidate.maxSeconds);
+    if (bucket) bucket.count += 1;
+  });
+  const middle = Math.floor(seconds.length / 2);
+  const medianSeconds = seconds.length
+    ? Math.round(seconds.length % 2 ? seconds[middle] : (seconds[middle - 1] + seconds[middle]) / 2)
+    : null;
+  return { answerTimes: buckets, medianSeconds };
+}
+
+export function normalizedGain(prePercent: number, postPercent: number) {
+  if (prePercent >= 100) return null;
+  return Math.round(((postPercent - prePercent) / (100 - prePercent)) * 100) / 100;
+}
+
+function switchMatrix(first: StoredLiveResponse[], second: StoredLiveResponse[], correctOptionIndex: number): AnswerSwitchMatrix {
+  const firstByStudent = new Map(first.map((response) => [response.studentUid, response.optionIndex === correctOptionIndex]));
+  const matrix = { rightToRight: 0, rightToWrong: 0, wrongToRight: 0, wrongToWrong: 0 };
+  second.forEach((response) => {
+    const wasRight = firstByStudent.get(response.studentUid);
+    if (wasRight === undefined) return;
+    const isRight = response.optionIndex === correctOptionIndex;
+    if (wasRight && isRight) matrix.rightToRight += 1;
+    else if (wasRight) matrix.rightToWrong += 1;
+    else if (isRight) matrix.wrongToRight += 1;
+    else matrix.wrongToWrong += 1;
+  });
+  return matrix;
+}
+
+/**
+ * A question looks miskeyed when one distractor outdraws the keyed answer, and too easy when nearly everyone
+ * gets it right before any discussion.
+ */
+export function itemAnalysisFlags(optionCounts: number[], correctOptionIndex: number, firstRoundPercentCorrect: number) {
+  const total = optionCounts.reduce((sum, count) => sum + count, 0);
+  if (total < MIN_FLAGGED_RESPONSES) return [];
+  const flags: ItemAnalysisFlag[] = [];
+  const keyed = optionCounts[correctOptionIndex] || 0;
+  if (optionCounts.some((count, index) => index !== correctOptionIndex && count > keyed)) flags.push('possible-miskey');
+  if (firstRoundPercentCorrect >= TOO_EASY_PERCENT) flags.push('too-easy');
+  return flags;
+}
+
+/**
+ * Item analysis for each knowledge check and peer learning question in a session. Runs come from the
+ * participation summary so each question is reported once per time it was asked; a peer learning second
+ * round is reported together with the first round before it.
+ */
+export function buildItemAnalysis(
+  summary: SessionParticipationSummary,
+  runs: SessionInteractionRun[] = [],
+  interactions: SessionInteraction[] = [],
+  responseRuns: ResponseRuns = {},
+): ItemAnalysis[] {
+  const interactionsById = new Map(interactions.map((interaction) => [interaction.id, interaction]));
+  const runsById = new Map(runs.map((run) => [run.id, run]));
+  const pairedFirstRounds = new Set<string>();
+  const analyses: ItemAnalysis[] = [];
+
+  [...summary.interactions].reverse().forEach((entry) => {
+    const interaction = interactionsById.get(entry.interactionId);
+    const run = runsById.get(entry.runId);
+    if (!interaction || !run || !ANALYZED_TYPES.has(interaction.type) || pairedFirstRounds.has(run.id)) return;
+    if (!interaction.options?.length || typeof interaction.correctOptionIndex !== 'number') return;
+    const options = interaction.options;
+    const correctOptionIndex = interaction.correctOptionIndex;
+    const responses = Object.values(responseRuns[run.id] || {}).filter((response) => typeof response.optionIndex === 'number');
+    const optionCounts = responses.length ? countOptions(responses, options.length) : [];
+    const responseCount = optionCounts.reduce((sum, count) => sum + count, 0);
+    if (!responseCount) return;
+    const percentCorrect = percent(optionCounts[correctOptionIndex] || 0, responseCount);
+    const analysis: ItemAnalysis = {
+      runId: run.id,
+      interactionId: interaction.id,
+      type: interaction.type as ItemAnalysis['type'],
+      title: interaction.title,
+      options,
+      correctOptionIndex,
+      participationPercent: entry.participationPercent,
+      optionCounts,
+      responseCount,
+      percentCorrect,
+      ...answerTimeHistogram(responses, run.startedAt),
+      flags: [],
+    };
+
+    let firstRoundPercentCorrect = percentCorrect;
+    if (interaction.type === 'peer-learning' && isSecondRound(run)) {
+      const firstRun = runs
+        .filter((candidate) => candidate.interactionId === run.interactionId && candidate.startedAt < run.startedAt && !isSecondRound(candidate))
+        .sort((a, b) => b.startedAt - a.startedAt)[0];
+      const firstResponses = firstRun
+        ? Object.values(responseRuns[firstRun.id] || {}).filter((response) => typeof response.optionIndex === 'number')
+        : [];
+      const preOptionCounts = firstResponses.length
+        ? countOptions(firstResponses, options.length)
+        : run.resultState?.firstOptionCounts || firstRun?.resultState?.firstOptionCounts;
+      if (firstRun) pairedFirstRounds.add(firstRun.id);
+      if (preOptionCounts?.length) {
+        const preTotal = preOptionCounts.reduce((sum, count) => sum + count, 0);
+        const prePercentCorrect = percent(preOptionCounts[correctOptionIndex] || 0, preTotal);
+        firstRoundPercentCorrect = prePercentCorrect;
+        analysis.preOptionCounts = preOptionCounts;
+        analysis.prePercentCorrect = prePercentCorrect;
+        analysis.normalizedGain = preTotal ? normalizedGain(prePercentCorrect, percentCorrect) : null;
+        if (firstResponses.length) analysis.switches = switchMatrix(firstResponses, responses, correctOptionIndex);
+      }
+    }
+    analysis.flags = itemAnalysisFlags(optionCounts, correctOptionIndex, firstRoundPercentCorrect);
+    analyses.push(analysis);
+  });
+
+  return analyses.reverse();
+}
@@ -0,0 +1,118 @@
+export type EstimateSettings = {
+  estimateUnit?: string;
+  estimateMin?: number;
+  estimateMax?: number;
+  /** The true value, shown on the projector and used for proximity points once the answer is revealed. */
+  estimateAnswer?: number;
+};
+
+export type EstimateSummary = {
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  /** Answers more than 1.5 interquartile ranges outside the middle half. */
+  outliers: number[];
+};
+
+export type EstimateBucket = { from: number; to: number; count: number; containsAnswer: boolean };
+
+const SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, bn: 1e9, t: 1e12 };
+
+/** Reads a typed estimate such as "1,200", "4.5k", "$3m" or "12%". Returns null when it is not a number. */
+export function parseEstimate(input: string): number | null {
+  const cleaned = input.trim().toLowerCase().replace(/[\s,$€£¥%]/g, '');
+  const match = cleaned.match(/^(-?\d*\.?\d+(?:e[+-]?\d+)?)(k|m|bn|b|t)?$/);
+  if (!match) return null;
+  const value = Number(match[1]) * (match[2] ? SUFFIXES[match[2]] : 1);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function isEstimateInBounds(settings: EstimateSettings, value: number) {
+  if (!Number.isFinite(value)) return false;
+  if (typeof settings.estimateMin === 'number' && value < settings.estimateMin) return false;
+  if (typeof settings.estimateMax === 'number' && value > settings.estimateMax) return false;
+  return true;
+}
+
+export function formatEstimate(value: number, unit = '') {
+  const formatted = new Intl.NumberFormat('en', { notation: Math.abs(value) >= 100_000 ? 'compact' : 'standard', maximumFractionDigits: Math.abs(value) < 10 ? 2 : 1 }).format(value);
+  return unit ? `${formatted} ${unit}` : formatted;
+}
+
+export function estimateRangeLabel(settings: EstimateSettings) {
+  const { estimateMin: min, estimateMax: max, estimateUnit: unit } = settings;
+  if (typeof min === 'number' && typeof max === 'number') return `Between ${formatEstimate(min)} and ${formatEstimate(max, unit)}`;
+  if (typeof min === 'number') return `At least ${formatEstimate(min, unit)}`;
+  if (typeof max === 'number') return `At most ${formatEstimate(max, unit)}`;
+  return '';
+}
+
+function quantile(sorted: number[], fraction: number) {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function summarizeEstimates(values: number[]): EstimateSummary | null {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (!sorted.length) return null;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = (q3 - q1) * 1.5;
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    outliers: sorted.filter((value) => value < q1 - fence || value > q3 + fence),
+  };
+}
+
+/**
+ * Whether answers spread over orders of magnitude, as Fermi estimates usually do; the histogram then uses
+ * logarithmic buckets so one wild guess does not squash everyone else into the first bar.
+ */
+export function usesLogScale(values: number[]) {
+  const finite = values.filter(Number.isFinite);
+  return finite.length > 1 && finite.every((value) => value > 0) && Math.max(...finite) / Math.min(...finite) >= 100;
+}
+
+/** Equal-width buckets over the answers and, once revealed, the true value. */
+export function estimateHistogram(values: number[], answer?: number, bucketCount = 8): EstimateBucket[] {
+  const finite = values.filter(Number.isFinite);
+  if (!finite.length) return [];
+  const span = typeof answer === 'number' && Number.isFinite(answer) ? [...finite, answer] : finite;
+  const log = usesLogScale(span);
+  const scale = (value: number) => (log ? Math.log10(value) : value);
+  const unscale = (value: number) => (log ? 10 ** value : value);
+  const low = scale(Math.min(...span));
+  const high = scale(Math.max(...span));
+  if (low === high) {
+    return [{ from: unscale(low), to: unscale(high), count: finite.length, containsAnswer: typeof answer === 'number' }];
+  }
+  const width = (high - low) / bucketCount;
+  const bucketFor = (value: number) => Math.min(bucketCount - 1, Math.floor((scale(value) - low) / width));
+  const buckets: EstimateBucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+    from: unscale(low + width * index),
+    to: unscale(low + width * (index + 1)),
+    count: 0,
+    containsAnswer: false,
+  }));
+  finite.forEach((value) => { buckets[bucketFor(value)].count += 1; });
+  if (typeof answer === 'number' && Number.isFinite(answer)) buckets[bucketFor(answer)].containsAnswer = true;
+  return buckets;
+}
+
+/** How far an estimate is from the true value, as a share of the true value. */
+export function estimateError(value: number, answer: number) {
+  if (answer === 0) return Math.abs(value);
+  return Math.abs(value - answer) / Math.abs(answer);
+}
@@ -0,0 +1,213 @@
+import type { QuestionBankDraw, QuestionBankItem, QuestionBankItemStats, SessionInteraction } from '@/types';
+
+/** How many recent uses each bank item keeps; older ones no longer affect draws. */
+export const QUESTION_BANK_USAGE_LIMIT = 20;
+
+/** Share of a class in each of the upper and lower groups used for discrimination. */
+const DISCRIMINATION_GROUP_SHARE = 0.27;
+const MIN_DISCRIMINATION_RESPONDENTS = 4;
+
+export const DEFAULT_QUESTION_BANK_DRAW: QuestionBankDraw = { tags: [], count: 3, avoidRecentSessions: 2, shuffleOptions: true };
+
+/** Fields shared by stored session interactions and the live plan, so draws work on either. */
+type DrawableInteraction = Pick<SessionInteraction, 'id' | 'title' | 'prompt' | 'options' | 'correctOptionIndex' | 'explanation' | 'bankDraw' | 'bankItemId' | 'shuffleOptions'>;
+
+export type QuestionBankShortfall = { interactionId: string; title: string; requested: number; drawn: number };
+
+export type SessionItemResponse = { interactionId: string; studentUid: string; optionIndex?: number; submittedAt?: number };
+
+export type SessionItemStats = { attempts: number; correct: number; discrimination: number | null; discriminationSamples: number };
+
+type Millis = { toMillis: () => number };
+
+export function normalizeBankTags(value: string | string[]) {
+  const tags = Array.isArray(value) ? value : value.split(',');
+  return Array.from(new Set(tags.map((tag) => tag.trim().toLocaleLowerCase()).filter(Boolean))).slice(0, 12);
+}
+
+export function bankTagsInUse(items: Pick<QuestionBankItem, 'tags'>[]) {
+  return Array.from(new Set(items.flatMap((item) => item.tags))).sort((a, b) => a.localeCompare(b));
+}
+
+/** The course's most recent sessions that used the bank, newest first, leaving out `currentSessionId`. */
+export function recentBankSessionIds(items: Pick<QuestionBankItem, 'usage'>[], limit: number, currentSessionId?: string) {
+  if (limit <= 0) return [];
+  const lastUsed = new Map<string, number>();
+  items.forEach((item) => (item.usage || []).forEach((use) => {
+    if (use.sessionId === currentSessionId) return;
+    lastUsed.set(use.sessionId, Math.max(lastUsed.get(use.sessionId) || 0, (use.usedAt as Millis).toMillis()));
+  }));
+  return [...lastUsed.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([sessionId]) => sessionId);
+}
+
+function lastUsedAt(item: Pick<QuestionBankItem, 'usage'>) {
+  return Math.max(0, ...(item.usage || []).map((use) => (use.usedAt as Millis).toMillis()));
+}
+
+function shuffle<T>(list: T[], random: () => number) {
+  const copy = [...list];
+  for (let index = copy.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [copy[index], copy[swap]] = [copy[swap], copy[index]];
+  }
+  return copy;
+}
+
+/**
+ * Picks up to `draw.count` items from the tagged pool. Items from the recent sessions are only used when
+ * the rest of the pool runs out, least recently used first.
+ */
+export function drawQuestionBankItems(
+  items: QuestionBankItem[],
+  draw: QuestionBankDraw,
+  recentSessionIds: string[],
+  random: () => number = Math.random,
+) {
+  const tags = normalizeBankTags(draw.tags);
+  const pool = items.filter((item) => (
+    (!tags.length || item.tags.some((tag) => tags.includes(tag)))
+    && (!draw.difficulty || item.difficulty === draw.difficulty)
+  ));
+  const recent = new Set(recentSessionIds);
+  const usedRecently = (item: QuestionBankItem) => (item.usage || []).some((use) => recent.has(use.sessionId));
+  const fresh = shuffle(pool.filter((item) => !usedRecently(item)), random);
+  const fallback = pool.filter(usedRecently).sort((a, b) => lastUsedAt(a) - lastUsedAt(b));
+  return [...fresh, ...fallback].slice(0, Math.max(0, Math.floor(draw.count)));
+}
+
+/**
+ * Replaces each question bank draw with one knowledge check per drawn item. Draws that find nothing stay in
+ * place so they can be drawn again once the bank has matching questions.
+ */
+export function expandQuestionBankDraws<T extends DrawableInteraction>(
+  interactions: T[],
+  items: QuestionBankItem[],
+  recentSessionIds: string[],
+  random: () => number = Math.random,
+) {
+  const drawnItems: QuestionBankItem[] = [];
+  const shortfalls: QuestionBankShortfall[] = [];
+  const expanded = interactions.flatMap((interaction): T[] => {
+    const draw = interaction.bankDraw;
+    if (!draw) return [interaction];
+    const available = items.filter((item) => !drawnItems.some((drawn) => drawn.id === item.id));
+    const picked = drawQuestionBankItems(available, draw, recentSessionIds, random);
+    if (picked.length < draw.count) shortfalls.push({ interactionId: interaction.id, title: interaction.title, requested: draw.count, drawn: picked.length });
+    if (!picked.length) return [interaction];
+    drawnItems.push(...picked);
+    return picked.map((item, index) => {
+      const drawn: T = {
+        ...interaction,
+        id: `${interaction.id}-${item.id}`,
+        title: picked.length > 1 ? `${interaction.title} (${index + 1} of ${picked.length})` : interaction.title,
+        prompt: item.prompt,
+        options: item.options,
+        correctOptionIndex: item.correctOptionIndex,
+        explanation: item.explanation,
+        bankItemId: item.id,
+        shuffleOptions: draw.shuffleOptions,
+      };
+      delete drawn.bankDraw;
+      return drawn;
+    });
+  });
+  return { interactions: expanded, drawnItems, shortfalls };
+}
+
+/** A stable string hash, so a student sees the same order after a refresh. */
+function hashSeed(seed: string) {
+  let hash = 2166136261;
+  for (let index = 0; index < seed.length; index += 1) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function seededRandom(seed: string) {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Display order of the choices as original indexes; the identity order unless `shuffle` is set. */
+export function optionDisplayOrder(optionCount: number, shuffleOptions: boolean | undefined, seed: string) {
+  const order = Array.from({ length: optionCount }, (_, index) => index);
+  return shuffleOptions ? shuffle(order, seededRandom(seed)) : order;
+}
+
+/**
+ * Percent correct and upper-lower discrimination for each bank item answered in one session. Students are
+ * ranked by how many of the session's knowledge checks they answered correctly; each student's first answer
+ * to an item counts.
+ */
+export function sessionItemStatistics(
+  interactions: Pick<SessionInteraction, 'id' | 'bankItemId' | 'correctOptionIndex'>[],
+  responses: SessionItemResponse[],
+): Record<string, SessionItemStats> {
+  const scored = new Map(interactions
+    .filter((interaction) => typeof interaction.correctOptionIndex === 'number')
+    .map((interaction) => [interaction.id, interaction]));
+  const firstAnswers = new Map<string, SessionItemResponse>();
+  [...responses]
+    .filter((response) => scored.has(response.interactionId) && typeof response.optionIndex === 'number')
+    .sort((a, b) => (a.submittedAt || 0) - (b.submittedAt || 0))
+    .forEach((response) => {
+      const key = `${response.interactionId}\u0000${response.studentUid}`;
+      if (!firstAnswers.has(key)) firstAnswers.set(key, response);
+    });
+
+  const isCorrect = (response: SessionItemResponse) => response.optionIndex === scored.get(response.interactionId)?.correctOptionIndex;
+  const totals = new Map<string, number>();
+  firstAnswers.forEach((response) => totals.set(response.studentUid, (totals.get(response.studentUid) || 0) + (isCorrect(response) ? 1 : 0)));
+
+  const stats: Record<string, SessionItemStats> = {};
+  scored.forEach((interaction) => {
+    if (!interaction.bankItemId) return;
+    const answers = [...firstAnswers.values()].filter((response) => response.interactionId === interaction.id);
+    if (!answers.length) return;
+    const correct = answers.filter(isCorrect).length;
+    let discrimination: number | null = null;
+    if (answers.length >= MIN_DISCRIMINATION_RESPONDENTS) {
+      const ranked = [...answers].sort((a, b) => (totals.get(b.studentUid) || 0) - (totals.get(a.studentUid) || 0));
+      const groupSize = Math.max(1, Math.round(answers.length * DISCRIMINATION_GROUP_SHARE));
+      const share = (group: SessionItemResponse[]) => group.filter(isCorrect).length / group.length;
+      discrimination = share(ranked.slice(0, groupSize)) - share(ranked.slice(-groupSize));
+    }
+    const previous = stats[interaction.bankItemId];
+    stats[interaction.bankItemId] = previous
+      ? mergeSessionItemStats(previous, { attempts: answers.length, correct, discrimination, discriminationSamples: discrimination === null ? 0 : answers.length })
+      : { attempts: answers.length, correct, discrimination, discriminationSamples: discrimination === null ? 0 : answers.length };
+  });
+  return stats;
+}
+
+function mergeSessionItemStats(a: SessionItemStats, b: SessionItemStats): SessionItemStats {
+  const samples = a.discriminationSamples + b.discriminationSamples;
+  return {
+    attempts: a.attempts + b.attempts,
+    correct: a.correct + b.correct,
+    discrimination: samples
+      ? ((a.discrimination || 0) * a.discriminationSamples + (b.discrimination || 0) * b.discriminationSamples) / samples
+      : null,
+    discriminationSamples: samples,
+  };
+}
+
+/** Adds one session to an item's running statistics; discrimination is averaged over the students behind it. */
+export function mergeQuestionBankStats(
+  existing: Omit<QuestionBankItemStats, 'updatedAt'> | undefined,
+  session: SessionItemStats,
+): Omit<QuestionBankItemStats, 'updatedAt'> {
+  const merged = mergeSessionItemStats(existing || { attempts: 0, correct: 0, discrimination: null, discriminationSamples: 0 }, session);
+  return {
+    ...merged,
+    discrimination: merged.discrimination === null ? null : Math.round(merged.discrimination * 100) / 100,
+    percentCorrect: merged.attempts ? Math.round((merged.correct / merged.attempts) * 100) : 0,
+  };
+}
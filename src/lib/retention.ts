@@ -0,0 +1,66 @@
+import type { CourseRetentionPolicy, RetentionAnchor, RetentionCategory, RetentionPolicy, RetentionRule } from '@/types';
+
+export const RETENTION_DAYS = 90;
+export const MAX_RETENTION_DAYS = 3650;
+
+// Mirrors LIVE_CATEGORY_NODES and planSavedRetention in functions/retention.js.
+export const RETENTION_CATEGORIES: Array<{ id: RetentionCategory; label: string; description: string }> = [
+  { id: 'attendance', label: 'Attendance', description: 'Check-ins, who was in the room, and register marks.' },
+  { id: 'wellbeing', label: 'Wellbeing pulses', description: 'Welcome check-in answers and the class totals saved with each session.' },
+  { id: 'responses', label: 'Class responses', description: 'Answers, case study and homework responses, questions, votes, debate arguments and quiz awards.' },
+  { id: 'rewards', label: 'Reward points and requests', description: 'Point ledgers and reward requests, kept for course credit.' },
+];
+
+export const RETENTION_ANCHORS: Array<{ id: RetentionAnchor; label: string }> = [
+  { id: 'last-activity', label: 'after the class was last used' },
+  { id: 'course-end', label: 'after the course ends' },
+  { id: 'never', label: 'Keep until erased' },
+];
+
+// Mirrors DEFAULT_RETENTION_POLICY in functions/retention.js.
+export const DEFAULT_RETENTION_POLICY: Record<RetentionCategory, RetentionRule> = {
+  attendance: { after: 'last-activity', days: RETENTION_DAYS },
+  wellbeing: { after: 'last-activity', days: RETENTION_DAYS },
+  responses: { after: 'last-activity', days: RETENTION_DAYS },
+  rewards: { after: 'never', days: 0 },
+};
+
+export function normalizeRetentionRule(rule: Partial<RetentionRule> | undefined): RetentionRule | undefined {
+  if (!rule || !RETENTION_ANCHORS.some((anchor) => anchor.id === rule.after)) return undefined;
+  if (rule.after === 'never') return { after: 'never', days: 0 };
+  const days = Math.floor(Number(rule.days));
+  if (!Number.isFinite(days) || days < 1) return undefined;
+  return { after: rule.after as RetentionAnchor, days: Math.min(MAX_RETENTION_DAYS, days) };
+}
+
+/** A complete policy: the course's rule for each category, else the workspace's, else the institution's, else the default. */
+export function resolveRetentionPolicy(
+  workspace?: RetentionPolicy,
+  course?: CourseRetentionPolicy,
+  institution?: RetentionPolicy,
+): Record<RetentionCategory, RetentionRule> {
+  return Object.fromEntries(RETENTION_CATEGORIES.map(({ id }) => [
+    id,
+    normalizeRetentionRule(course?.[id])
+      || normalizeRetentionRule(workspace?.[id])
+      || normalizeRetentionRule(institution?.[id])
+      || DEFAULT_RETENTION_POLICY[id],
+  ])) as Record<RetentionCategory, RetentionRule>;
+}
+
+/** Only the valid rules, for saving. Keeps the course end date when there is one. */
+export function cleanRetentionPolicy(policy: CourseRetentionPolicy): CourseRetentionPolicy {
+  const cleaned: CourseRetentionPolicy = {};
+  for (const { id } of RETENTION_CATEGORIES) {
+    const rule = normalizeRetentionRule(policy[id]);
+    if (rule) cleaned[id] = rule;
+  }
+  if (policy.courseEndsOn && /^\d{4}-\d{2}-\d{2}$/.test(policy.courseEndsOn)) cleaned.courseEndsOn = policy.courseEndsOn;
+  return cleaned;
+}
+
+export function describeRetentionRule(rule: RetentionRule) {
+  if (rule.after === 'never') return 'Kept until erased';
+  const period = rule.days % 365 === 0 ? `${rule.days / 365} year${rule.days === 365 ? '' : 's'}` : `${rule.days} day${rule.days === 1 ? '' : 's'}`;
+  return `Deleted ${period} ${rule.after === 'course-end' ? 'after the course ends' : 'after the class was last used'}`;
+}
@@ -0,0 +1,272 @@
+import { normalizeStudentId } from '@/lib/utils';
+import type { Student } from '@/types';
+
+export type RosterField = 'studentId' | 'name' | 'firstName' | 'lastName' | 'email';
+
+export const ROSTER_FIELDS: Array<{ id: RosterField; label: string; hint: string }> = [
+  { id: 'studentId', label: 'Student number', hint: 'Required. Matched against existing students.' },
+  { id: 'name', label: 'Full name', hint: 'Or map first and last name instead.' },
+  { id: 'firstName', label: 'First name', hint: '' },
+  { id: 'lastName', label: 'Last name', hint: '' },
+  { id: 'email', label: 'Email', hint: 'Optional.' },
+];
+
+/** Column index for each roster field; unmapped fields are absent. */
+export type RosterColumnMapping = Partial<Record<RosterField, number>>;
+
+export type RosterEntry = {
+  /** 1-based row in the uploaded file, for messages the instructor can find. */
+  row: number;
+  studentId: string;
+  studentIdNormalized: string;
+  name: string;
+  email?: string;
+};
+
+export type RosterAction = 'create' | 'update' | 'skip';
+
+export type RosterPlanItem = {
+  row: number;
+  action: RosterAction;
+  reason: string;
+  entry: RosterEntry | null;
+  existing?: Student;
+  /** Students whose names look like this entry's but who have a different student number. */
+  nearDuplicates: Array<Pick<Student, 'id' | 'studentId' | 'name'>>;
+};
+
+export type RosterPlan = {
+  items: RosterPlanItem[];
+  counts: Record<RosterAction, number>;
+};
+
+const HEADER_SYNONYMS: Record<RosterField, string[]> = {
+  studentId: ['student id', 'student number', 'student no', 'id number', 'sis user id', 'sis id', 'matric', 'matriculation number', 'registration number', 'emplid', 'username', 'id'],
+  name: ['name', 'full name', 'student name', 'student', 'display name'],
+  firstName: ['first name', 'given name', 'forename', 'preferred name', 'first'],
+  lastName: ['last name', 'surname', 'family name', 'last'],
+  email: ['email', 'email address', 'e-mail', 'mail', 'university email'],
+};
+
+/** Parses RFC 4180 CSV, including quoted commas, escaped quotes and line breaks inside quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+  // Registrar exports from European locales separate columns with semicolons.
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length || 0) > (firstLine.match(/,/g)?.length || 0) ? ';' : ',';
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+const headerKey = (value: string) => value.toLowerCase().replace(/[_.#:]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/** Suggests a mapping from the header row; exact synonyms win over partial matches. */
+export function guessColumnMapping(headers: string[]): RosterColumnMapping {
+  const keys = headers.map(headerKey);
+  const mapping: RosterColumnMapping = {};
+  const used = new Set<number>();
+  // Specific headers claim their columns first, so "Surname" is never taken as a full name.
+  (['studentId', 'firstName', 'lastName', 'email', 'name'] as RosterField[]).forEach((field) => {
+    const synonyms = HEADER_SYNONYMS[field];
+    let index = keys.findIndex((key, position) => !used.has(position) && synonyms.includes(key));
+    if (index < 0) index = keys.findIndex((key, position) => !used.has(position) && synonyms.some((synonym) => synonym.length > 3 && key.includes(synonym)));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+}
+
+export function isRosterMappingComplete(mapping: RosterColumnMapping) {
+  return mapping.studentId !== undefined && (mapping.name !== undefined || mapping.firstName !== undefined || mapping.lastName !== undefined);
+}
+
+function cellAt(cells: string[], index: number | undefined) {
+  return index === undefined ? '' : (cells[index] || '').trim().replace(/\s+/g, ' ');
+}
+
+/** Reads mapped rows into roster entries. Rows without a student number or name become skipped plan items. */
+export function readRosterEntries(rows: string[][], mapping: RosterColumnMapping, { hasHeader = true } = {}) {
+  const entries: RosterEntry[] = [];
+  const invalid: RosterPlanItem[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, offset) => {
+    const row = offset + (hasHeader ? 2 : 1);
+    const studentId = cellAt(cells, mapping.studentId);
+    const name = cellAt(cells, mapping.name) || [cellAt(cells, mapping.firstName), cellAt(cells, mapping.lastName)].filter(Boolean).join(' ');
+    const email = cellAt(cells, mapping.email).toLowerCase();
+    const studentIdNormalized = normalizeStudentId(studentId);
+    if (!studentIdNormalized || !name) {
+      invalid.push({ row, action: 'skip', reason: !studentIdNormalized ? 'No student number' : 'No name', entry: null, nearDuplicates: [] });
+      return;
+    }
+    entries.push({ row, studentId, studentIdNormalized, name, ...(email.includes('@') ? { email } : {}) });
+  });
+  return { entries, invalid };
+}
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv']);
+
+/** Lowercase, accent-free name with its words sorted, so "Lee, Ana" and "Ana Lee" compare equal. */
+export function nameKey(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !NAME_SUFFIXES.has(word))
+    .sort()
+    .join(' ');
+}
+
+function editDistance(a: string, b: string) {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/** Similarity from 0 to 1 between two names, ignoring case, accents, punctuation and word order. */
+export function nameSimilarity(a: string, b: string) {
+  const left = nameKey(a);
+  const right = nameKey(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+/**
+ * Compares the file against existing students. A matching normalized student number updates the existing
+ * record (adding it to the class, filling in a changed name or email) or skips it when nothing would
+ * change. A repeated student number inside the file is skipped after its first row. Every entry is also
+ * checked for near-duplicate names under a different student number, in the file and among existing students.
+ */
+export function planRosterImport({
+  entries,
+  invalid = [],
+  existingStudents,
+  courseId,
+}: {
+  entries: RosterEntry[];
+  invalid?: RosterPlanItem[];
+  existingStudents: Student[];
+  courseId: string;
+}): RosterPlan {
+  const byNormalizedId = new Map<string, Student>();
+  existingStudents.forEach((student) => {
+    const normalized = student.studentIdNormalized || normalizeStudentId(student.studentId);
+    if (normalized && !byNormalizedId.has(normalized)) byNormalizedId.set(normalized, student);
+  });
+  const seen = new Set<string>();
+  const candidates: Array<Pick<Student, 'id' | 'studentId' | 'name'> & { normalized: string }> = [
+    ...existingStudents.map((student) => ({ id: student.id, studentId: student.studentId, name: student.name, normalized: student.studentIdNormalized || normalizeStudentId(student.studentId) })),
+    ...entries.map((entry) => ({ id: `row-${entry.row}`, studentId: entry.studentId, name: entry.name, normalized: entry.studentIdNormalized })),
+  ];
+
+  const items = entries.map((entry): RosterPlanItem => {
+    const nearDuplicates = candidates
+      .filter((candidate) => candidate.normalized !== entry.studentIdNormalized && nameSimilarity(candidate.name, entry.name) >= NEAR_DUPLICATE_THRESHOLD)
+      .map(({ id, studentId, name }) => ({ id, studentId, name }));
+    if (seen.has(entry.studentIdNormalized)) {
+      return { row: entry.row, action: 'skip', reason: 'Repeats an earlier row', entry, nearDuplicates: [] };
+    }
+    seen.add(entry.studentIdNormalized);
+    const existing = byNormalizedId.get(entry.studentIdNormalized);
+    if (!existing) return { row: entry.row, action: 'create', reason: 'New student', entry, nearDuplicates };
+    const changes = [
+      ...(!existing.courseIds?.includes(courseId) ? ['add to class'] : []),
+      ...(existing.name !== entry.name ? ['name'] : []),
+      ...(entry.email && existing.email !== entry.email ? ['email'] : []),
+    ];
+    return changes.length
+      ? { row: entry.row, action: 'update', reason: `Update ${changes.join(', ')}`, entry, existing, nearDuplicates }
+      : { row: entry.row, action: 'skip', reason: 'Already on the roster', entry, existing, nearDuplicates };
+  });
+
+  const allItems = [...items, ...invalid].sort((a, b) => a.row - b.row);
+  return {
+    items: allItems,
+    counts: {
+      create: allItems.filter((item) => item.action === 'create').length,
+      update: allItems.filter((item) => item.action === 'update').length,
+      skip: allItems.filter((item) => item.action === 'skip').length,
+    },
+  };
+}
+
+export type SessionNameClaim = { studentUid: string; studentDisplayName?: string };
+
+export type ClaimMatchSuggestion = {
+  studentUid: string;
+  displayName: string;
+  student: Pick<Student, 'id' | 'studentId' | 'name'> | null;
+  similarity: number;
+};
+
+/**
+ * Suggests the roster student behind each nickname used in a `session-name` class. Only a single clear
+ * best match is suggested; ties and weak matches are left for the instructor to choose.
+ */
+export function suggestClaimMatches(claims: SessionNameClaim[], roster: Array<Pick<Student, 'id' | 'studentId' | 'name'>>, threshold = 0.75) {
+  return claims.map((claim): ClaimMatchSuggestion => {
+    const displayName = claim.studentDisplayName || '';
+    const scored = roster
+      .map((student) => ({ student, similarity: Math.max(nameSimilarity(displayName, student.name), firstNameSimilarity(displayName, student.name)) }))
+      .filter((candidate) => candidate.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity);
+    const [best, runnerUp] = scored;
+    const clear = best && (!runnerUp || best.similarity - runnerUp.similarity >= 0.05);
+    return { studentUid: claim.studentUid, displayName, student: clear ? best.student : null, similarity: clear ? best.similarity : 0 };
+  });
+}
+
+/** Students often join with a first name only; a unique first-name match counts a little below a full match. */
+function firstNameSimilarity(displayName: string, rosterName: string) {
+  const entered = nameKey(displayName);
+  if (!entered || entered.includes(' ')) return 0;
+  const words = nameKey(rosterName).split(' ');
+  return words.includes(entered) ? 0.8 : 0;
+}
@@ -0,0 +1,112 @@
+import { generateId } from '@/lib/utils';
+import type { CaseStudy, Question, Rubric, RubricCriterion, RubricCriterionScore, RubricLevel } from '@/types';
+
+export type RawCriterionScore = { score?: number; levelId?: string; evidence?: string };
+
+const DEFAULT_LEVELS: Array<Omit<RubricLevel, 'id'>> = [
+  { label: 'Exemplary', descriptor: '', minPoints: 9, maxPoints: 10 },
+  { label: 'Proficient', descriptor: '', minPoints: 7, maxPoints: 8 },
+  { label: 'Developing', descriptor: '', minPoints: 4, maxPoints: 6 },
+  { label: 'Beginning', descriptor: '', minPoints: 0, maxPoints: 3 },
+];
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+export function createRubricCriterion(name = ''): RubricCriterion {
+  return {
+    id: generateId(),
+    name,
+    description: '',
+    levels: DEFAULT_LEVELS.map((level) => ({ ...level, id: generateId() })),
+  };
+}
+
+export function createRubric(title = ''): Rubric {
+  return { id: generateId(), title, description: '', criteria: [createRubricCriterion()] };
+}
+
+export function getCriterionMaxPoints(criterion: RubricCriterion) {
+  return criterion.levels.reduce((max, level) => Math.max(max, level.maxPoints), 0);
+}
+
+export function getRubricMaxPoints(rubric: Rubric) {
+  return rubric.criteria.reduce((total, criterion) => total + getCriterionMaxPoints(criterion), 0);
+}
+
+/** Returns the level whose band contains the score; a score between bands stays in the lower band. */
+export function findRubricLevel(criterion: RubricCriterion, score: number): RubricLevel | undefined {
+  const containing = criterion.levels.find((level) => score >= level.minPoints && score <= level.maxPoints);
+  if (containing) return containing;
+  const ascending = [...criterion.levels].sort((a, b) => a.minPoints - b.minPoints);
+  return ascending.filter((level) => level.minPoints <= score).pop() || ascending[0];
+}
+
+/** Returns the first problem that would make the rubric unusable for grading, or null. */
+export function validateRubric(rubric: Rubric): string | null {
+  const title = rubric.title.trim();
+  if (!title) return 'Every rubric needs a title.';
+  if (!rubric.criteria.length) return `${title} needs at least one criterion.`;
+  for (const criterion of rubric.criteria) {
+    const name = criterion.name.trim();
+    if (!name) return `Every criterion in ${title} needs a name.`;
+    if (criterion.levels.length < 2) return `${name} in ${title} needs at least two levels.`;
+    const bands = [...criterion.levels].sort((a, b) => a.minPoints - b.minPoints);
+    for (const [index, level] of bands.entries()) {
+      if (!level.label.trim()) return `Every level of ${name} in ${title} needs a label.`;
+      if (!Number.isFinite(level.minPoints) || !Number.isFinite(level.maxPoints) || level.minPoints < 0 || level.minPoints > level.maxPoints) {
+        return `${level.label} in ${name} needs a point band from a lower to a higher number.`;
+      }
+      const previous = bands[index - 1];
+      if (previous && level.minPoints <= previous.maxPoints) {
+        return `${previous.label} and ${level.label} in ${name} have overlapping point bands.`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Clamps each criterion into its band range, resolves the matching level, and scales the rubric
+ * total onto the question's points so a 20-point rubric can grade a 10-point question.
+ */
+export function scoreWithRubric(rubric: Rubric, raw: Record<string, RawCriterionScore>, maxPoints: number) {
+  const criteria: Record<string, RubricCriterionScore> = {};
+  let earned = 0;
+  for (const criterion of rubric.criteria) {
+    const criterionMax = getCriterionMaxPoints(criterion);
+    const entry = raw[criterion.id] || {};
+    const chosenLevel = criterion.levels.find((level) => level.id === entry.levelId);
+    const requested = Number.isFinite(entry.score)
+      ? Number(entry.score)
+      : chosenLevel
+        ? (chosenLevel.minPoints + chosenLevel.maxPoints) / 2
+        : 0;
+    const score = roundToTenth(Math.min(criterionMax, Math.max(0, requested)));
+    const level = findRubricLevel(criterion, score);
+    criteria[criterion.id] = {
+      score,
+      maxPoints: criterionMax,
+      ...(level ? { levelId: level.id } : {}),
+      evidence: entry.evidence || '',
+    };
+    earned += score;
+  }
+  const rubricMax = getRubricMaxPoints(rubric);
+  return { score: rubricMax ? roundToTenth((earned / rubricMax) * maxPoints) : 0, criteria };
+}
+
+/** Spreads an overall fraction evenly across criteria, for scorers that cannot read a rubric. */
+export function distributeScoreAcrossRubric(rubric: Rubric, fraction: number, maxPoints: number, evidence: string) {
+  const safeFraction = Math.min(1, Math.max(0, Number.isFinite(fraction) ? fraction : 0));
+  const raw = Object.fromEntries(rubric.criteria.map((criterion) => [
+    criterion.id,
+    { score: getCriterionMaxPoints(criterion) * safeFraction, evidence },
+  ]));
+  return scoreWithRubric(rubric, raw, maxPoints);
+}
+
+export function findQuestionRubric(caseStudy: Pick<CaseStudy, 'sections' | 'rubrics'>, questionId: string): { question?: Question; rubric?: Rubric } {
+  const question = (caseStudy.sections || []).flatMap((section) => section.questions || []).find((item) => item.id === questionId);
+  const rubric = question?.rubricId ? (caseStudy.rubrics || []).find((item) => item.id === question.rubricId) : undefined;
+  return { question, rubric };
+}
@@ -0,0 +1,154 @@
+import { claimStudentNumber } from '@/lib/attendance-register';
+import { coldCallKey } from '@/lib/cold-call';
+import type { StoredAttendanceClaim } from '@/lib/firebase/live-classroom';
+import type { SeatingAssignment, SeatingChart, SeatingLayoutKind } from '@/types';
+
+export const SEATING_LAYOUTS: Array<{ id: SeatingLayoutKind; label: string; rowsLabel: string; columnsLabel: string; defaults: [number, number] }> = [
+  { id: 'rows', label: 'Rows', rowsLabel: 'Rows', columnsLabel: 'Seats per row', defaults: [5, 8] },
+  { id: 'u-shape', label: 'U-shape', rowsLabel: 'Seats down each side', columnsLabel: 'Seats across the base', defaults: [6, 8] },
+  { id: 'pods', label: 'Pods', rowsLabel: 'Pods', columnsLabel: 'Seats per pod', defaults: [6, 4] },
+];
+
+export const MAX_SEATING_DIMENSION = 24;
+
+/** One seat and where it sits on the chart grid. Row 1 is nearest the front of the room. */
+export type SeatPosition = {
+  id: string;
+  label: string;
+  gridRow: number;
+  gridColumn: number;
+};
+
+export function clampSeatingDimension(value: number) {
+  return Number.isFinite(value) ? Math.min(MAX_SEATING_DIMENSION, Math.max(1, Math.floor(value))) : 1;
+}
+
+/** Every seat in a layout, in reading order, with its chart grid cell. */
+export function seatingSeats(chart: Pick<SeatingChart, 'layout' | 'rows' | 'columns'>): SeatPosition[] {
+  const rows = clampSeatingDimension(chart.rows);
+  const columns = clampSeatingDimension(chart.columns);
+  if (chart.layout === 'u-shape') {
+    // Arms run back from the front on the left and right; the base closes the U at the back.
+    const left = Array.from({ length: rows }, (_, index) => ({ id: `l${index + 1}`, label: `Left ${index + 1}`, gridRow: index + 1, gridColumn: 1 }));
+    const base = Array.from({ length: columns }, (_, index) => ({ id: `b${index + 1}`, label: `Back ${index + 1}`, gridRow: rows + 1, gridColumn: index + 2 }));
+    const right = Array.from({ length: rows }, (_, index) => ({ id: `r${index + 1}`, label: `Right ${index + 1}`, gridRow: index + 1, gridColumn: columns + 2 }));
+    return [...left, ...base, ...right];
+  }
+  if (chart.layout === 'pods') {
+    // Pods sit three across with a spacer row and column between them; each pod is two seats wide.
+    const podDepth = Math.ceil(columns / 2);
+    return Array.from({ length: rows }, (_, pod) => Array.from({ length: columns }, (_, seat) => ({
+      id: `p${pod + 1}-${seat + 1}`,
+      label: `Pod ${pod + 1}, seat ${seat + 1}`,
+      gridRow: Math.floor(pod / 3) * (podDepth + 1) + Math.floor(seat / 2) + 1,
+      gridColumn: (pod % 3) * 3 + (seat % 2) + 1,
+    }))).flat();
+  }
+  return Array.from({ length: rows }, (_, row) => Array.from({ length: columns }, (_, seat) => ({
+    id: `r${row + 1}-s${seat + 1}`,
+    label: `Row ${row + 1}, seat ${seat + 1}`,
+    gridRow: row + 1,
+    gridColumn: seat + 1,
+  }))).flat();
+}
+
+/** CSS grid tracks for a chart: seat tracks share the width, and the aisles between pods stay narrow. */
+export function seatingGridTemplate(seats: Array<Pick<SeatPosition, 'gridRow' | 'gridColumn'>>) {
+  const track = (used: number[], seat: string, aisle: string) => Array.from(
+    { length: Math.max(1, ...used) },
+    (_, index) => used.includes(index + 1) ? seat : aisle,
+  ).join(' ');
+  return {
+    gridTemplateColumns: track(seats.map((seat) => seat.gridColumn), 'minmax(0, 1fr)', '18px'),
+    gridTemplateRows: track(seats.map((seat) => seat.gridRow), 'auto', '14px'),
+  };
+}
+
+/** The seat a student is in, or null. */
+export function seatOf(seats: Record<string, SeatingAssignment>, studentNumber: string) {
+  const key = coldCallKey(studentNumber);
+  return Object.entries(seats).find(([, assignment]) => coldCallKey(assignment.studentNumber) === key)?.[0] || null;
+}
+
+/**
+ * Puts a student in a seat. A student moving from another seat swaps with whoever was sitting there; a
+ * student coming from the unseated list sends the previous occupant back to it.
+ */
+export function assignSeat(seats: Record<string, SeatingAssignment>, seatId: string, student: SeatingAssignment) {
+  const next = { ...seats };
+  const fromSeat = seatOf(seats, student.studentNumber);
+  if (fromSeat === seatId) return next;
+  const occupant = next[seatId];
+  if (fromSeat) delete next[fromSeat];
+  if (fromSeat && occupant) next[fromSeat] = occupant;
+  next[seatId] = student;
+  return next;
+}
+
+export function unassignStudent(seats: Record<string, SeatingAssignment>, studentNumber: string) {
+  const fromSeat = seatOf(seats, studentNumber);
+  if (!fromSeat) return seats;
+  const next = { ...seats };
+  delete next[fromSeat];
+  return next;
+}
+
+/** Drops assignments to seats a smaller or different layout no longer has, returning who lost a seat. */
+export function fitSeatsToLayout(seats: Record<string, SeatingAssignment>, layout: Pick<SeatingChart, 'layout' | 'rows' | 'columns'>) {
+  const valid = new Set(seatingSeats(layout).map((seat) => seat.id));
+  const kept: Record<string, SeatingAssignment> = {};
+  const unseated: SeatingAssignment[] = [];
+  for (const [seatId, assignment] of Object.entries(seats)) {
+    if (valid.has(seatId)) kept[seatId] = assignment;
+    else unseated.push(assignment);
+  }
+  return { seats: kept, unseated };
+}
+
+/** Fills empty seats front to back with the students who do not have one yet, in the order given. */
+export function fillEmptySeats(seats: Record<string, SeatingAssignment>, layout: Pick<SeatingChart, 'layout' | 'rows' | 'columns'>, students: SeatingAssignment[]) {
+  const next = { ...seats };
+  const waiting = students.filter((student) => !seatOf(next, student.studentNumber));
+  const empty = seatingSeats(layout)
+    .filter((seat) => !next[seat.id])
+    .sort((a, b) => a.gridRow - b.gridRow || a.gridColumn - b.gridColumn);
+  empty.forEach((seat, index) => {
+    if (waiting[index]) next[seat.id] = waiting[index];
+  });
+  return next;
+}
+
+export type LiveSeatStatus = 'empty' | 'here' | 'away' | 'not-checked-in';
+
+export type LiveSeat = SeatPosition & {
+  assignment: SeatingAssignment | null;
+  status: LiveSeatStatus;
+  /** Answered the activity on screen. */
+  responded: boolean;
+};
+
+/**
+ * The chart as the live console sees it. A student is `here` while their device is connected, `away` when
+ * they checked in but have dropped off, and `not-checked-in` when there is no claim for them this session.
+ */
+export function buildLiveSeating(
+  chart: Pick<SeatingChart, 'layout' | 'rows' | 'columns' | 'seats'>,
+  attendance: Array<Pick<StoredAttendanceClaim, 'studentUid' | 'status' | 'participationMode' | 'studentNumber' | 'rosterStudentNumber'>>,
+  connectedUids: Iterable<string>,
+  respondedUids: Iterable<string>,
+): LiveSeat[] {
+  const connected = new Set(connectedUids);
+  const responded = new Set(respondedUids);
+  const claimsByStudent = new Map<string, string[]>();
+  for (const claim of attendance) {
+    const key = coldCallKey(claimStudentNumber(claim));
+    if (key && claim.status !== 'excused') claimsByStudent.set(key, [...(claimsByStudent.get(key) || []), claim.studentUid]);
+  }
+  return seatingSeats(chart).map((seat) => {
+    const assignment = chart.seats[seat.id] || null;
+    if (!assignment) return { ...seat, assignment, status: 'empty', responded: false };
+    const uids = claimsByStudent.get(coldCallKey(assignment.studentNumber)) || [];
+    const status: LiveSeatStatus = !uids.length ? 'not-checked-in' : uids.some((uid) => connected.has(uid)) ? 'here' : 'away';
+    return { ...seat, assignment, status, responded: uids.some((uid) => responded.has(uid)) };
+  });
+}
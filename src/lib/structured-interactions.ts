@@ -0,0 +1,152 @@
+/** Interactions where each student answers every item in `options` instead of choosing one of them. */
+export const STRUCTURED_INTERACTION_TYPES = ['ranking', 'scale', 'matrix'] as const;
+
+export type StructuredInteractionType = (typeof STRUCTURED_INTERACTION_TYPES)[number];
+
+export const DEFAULT_SCALE_LABELS = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+export const MIN_SCALE_POINTS = 3;
+export const MAX_SCALE_POINTS = 7;
+
+export const DEFAULT_MATRIX_AXES = { x: 'Effort', y: 'Impact' };
+
+/** Quadrants in reading order: top left, top right, bottom left, bottom right. The y axis runs low to high upwards. */
+export const MATRIX_QUADRANTS = [0, 1, 2, 3] as const;
+
+export type MatrixAxes = { x: string; y: string };
+
+type StructuredInteraction = {
+  type: string;
+  options?: string[];
+  scaleLabels?: string[];
+};
+
+/** One student's answer, positional like the interaction's `options`. */
+export type StructuredAnswer = {
+  /** Option indexes from first to last. */
+  ranking?: number[];
+  /** A 1-based point on the scale for each statement. */
+  ratings?: number[];
+  /** A quadrant for each item. */
+  placements?: number[];
+};
+
+export type StructuredResults = {
+  /** Sum of the 1-based positions each option was given; lower is ranked higher. */
+  rankingTotals?: number[];
+  /** Counts for each point of the scale, per statement. */
+  ratingCounts?: number[][];
+  /** Counts for each quadrant, per item. */
+  quadrantCounts?: number[][];
+};
+
+export function isStructuredInteractionType(type: string): type is StructuredInteractionType {
+  return (STRUCTURED_INTERACTION_TYPES as readonly string[]).includes(type);
+}
+
+export function scaleLabelsFor(interaction: Pick<StructuredInteraction, 'scaleLabels'>) {
+  const labels = (interaction.scaleLabels || []).map((label) => label.trim()).filter(Boolean);
+  return labels.length >= MIN_SCALE_POINTS ? labels.slice(0, MAX_SCALE_POINTS) : DEFAULT_SCALE_LABELS;
+}
+
+export function matrixQuadrantLabel(axes: MatrixAxes | undefined, quadrant: number) {
+  const { x, y } = axes || DEFAULT_MATRIX_AXES;
+  const yLevel = quadrant < 2 ? 'High' : 'Low';
+  const xLevel = quadrant % 2 ? 'high' : 'low';
+  return `${yLevel} ${y.toLocaleLowerCase()}, ${xLevel} ${x.toLocaleLowerCase()}`;
+}
+
+export function emptyStructuredResults(interaction: StructuredInteraction): StructuredResults {
+  const items = interaction.options || [];
+  if (interaction.type === 'ranking') return { rankingTotals: items.map(() => 0) };
+  if (interaction.type === 'scale') return { ratingCounts: items.map(() => scaleLabelsFor(interaction).map(() => 0)) };
+  if (interaction.type === 'matrix') return { quadrantCounts: items.map(() => MATRIX_QUADRANTS.map(() => 0)) };
+  return {};
+}
+
+const isIndex = (value: unknown, length: number): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+/** Only the structured fields of a saved response or draft, ready to send or restore. */
+export function structuredAnswerFrom(value: StructuredAnswer | null | undefined): StructuredAnswer {
+  const answer: StructuredAnswer = {};
+  if (Array.isArray(value?.ranking)) answer.ranking = value.ranking;
+  if (Array.isArray(value?.ratings)) answer.ratings = value.ratings;
+  if (Array.isArray(value?.placements)) answer.placements = value.placements;
+  return answer;
+}
+
+/** Whether an answer covers every item exactly as its interaction type needs. */
+export function isCompleteStructuredAnswer(interaction: StructuredInteraction, answer: StructuredAnswer) {
+  const count = interaction.options?.length || 0;
+  if (!count) return false;
+  if (interaction.type === 'ranking') {
+    return answer.ranking?.length === count
+      && answer.ranking.every((index) => isIndex(index, count))
+      && new Set(answer.ranking).size === count;
+  }
+  if (interaction.type === 'scale') {
+    const points = scaleLabelsFor(interaction).length;
+    return answer.ratings?.length === count && answer.ratings.every((rating) => Number.isInteger(rating) && rating >= 1 && rating <= points);
+  }
+  if (interaction.type === 'matrix') {
+    return answer.placements?.length === count && answer.placements.every((quadrant) => isIndex(quadrant, MATRIX_QUADRANTS.length));
+  }
+  return false;
+}
+
+/** Adds one complete answer to the running results; incomplete answers leave them unchanged. */
+export function addStructuredAnswer(results: StructuredResults, interaction: StructuredInteraction, answer: StructuredAnswer): StructuredResults {
+  if (!isCompleteStructuredAnswer(interaction, answer)) return results;
+  const base = { ...emptyStructuredResults(interaction), ...results };
+  if (interaction.type === 'ranking' && answer.ranking) {
+    const totals = [...(base.rankingTotals || [])];
+    answer.ranking.forEach((optionIndex, position) => { totals[optionIndex] = (totals[optionIndex] || 0) + position + 1; });
+    return { ...results, rankingTotals: totals };
+  }
+  if (interaction.type === 'scale' && answer.ratings) {
+    const counts = (base.ratingCounts || []).map((row) => [...row]);
+    answer.ratings.forEach((rating, statement) => { if (counts[statement]) counts[statement][rating - 1] += 1; });
+    return { ...results, ratingCounts: counts };
+  }
+  if (interaction.type === 'matrix' && answer.placements) {
+    const counts = (base.quadrantCounts || []).map((row) => [...row]);
+    answer.placements.forEach((quadrant, item) => { if (counts[item]) counts[item][quadrant] += 1; });
+    return { ...results, quadrantCounts: counts };
+  }
+  return results;
+}
+
+export function aggregateStructuredAnswers(interaction: StructuredInteraction, answers: StructuredAnswer[]) {
+  return answers.reduce<StructuredResults>((results, answer) => addStructuredAnswer(results, interaction, answer), emptyStructuredResults(interaction));
+}
+
+/** Options from highest to lowest average rank; ties keep the original order. */
+export function rankingSummary(options: string[], totals: number[] = [], responseCount: number) {
+  return options
+    .map((label, index) => ({ index, label, averageRank: responseCount ? Math.round(((totals[index] || 0) / responseCount) * 10) / 10 : null }))
+    .sort((a, b) => (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity) || a.index - b.index);
+}
+
+export function scaleSummary(statements: string[], counts: number[][] = [], points: number) {
+  return statements.map((label, index) => {
+    const row = Array.from({ length: points }, (_, point) => counts[index]?.[point] || 0);
+    const total = row.reduce((sum, count) => sum + count, 0);
+    const mean = total ? Math.round((row.reduce((sum, count, point) => sum + count * (point + 1), 0) / total) * 10) / 10 : null;
+    return { index, label, counts: row, total, mean };
+  });
+}
+
+/** Each item's most common quadrant and the share of the class that put it there. */
+export function matrixSummary(items: string[], counts: number[][] = []) {
+  return items.map((label, index) => {
+    const row = MATRIX_QUADRANTS.map((quadrant) => counts[index]?.[quadrant] || 0);
+    const total = row.reduce((sum, count) => sum + count, 0);
+    const quadrant = total ? row.indexOf(Math.max(...row)) : null;
+    return { index, label, counts: row, total, quadrant, agreement: total && quadrant !== null ? Math.round((row[quadrant] / total) * 100) : 0 };
+  });
+}
+
+export const STRUCTURED_TYPE_HINTS: Record<StructuredInteractionType, { itemsLabel: string; itemPlaceholder: string }> = {
+  ranking: { itemsLabel: 'Items to rank', itemPlaceholder: 'Item' },
+  scale: { itemsLabel: 'Statements to rate', itemPlaceholder: 'Statement' },
+  matrix: { itemsLabel: 'Items to place', itemPlaceholder: 'Item' },
+};
@@ -0,0 +1,54 @@
+import type { Session, SessionWellbeingPulse, WellbeingMood } from '@/types';
+
+// Mirrors DEFAULT_PULSE_MINIMUM in functions/wellbeing-pulse.js.
+export const DEFAULT_PULSE_MINIMUM = 5;
+export const MAX_PULSE_MINIMUM = 50;
+
+export type PulseCounts = Record<WellbeingMood, number>;
+
+/** What `submitAnonymousPulse` publishes for a run under `pulseCounts/<runId>`. */
+export type PublishedPulseCounts = {
+  counts: PulseCounts;
+  /** Answers in the published breakdown. It moves in steps of at least `minimum`. */
+  total: number;
+  /** Answers counted so far, including any not yet in the breakdown. */
+  received: number;
+  minimum: number;
+};
+
+export function emptyPulseCounts(): PulseCounts {
+  return { energized: 0, steady: 0, tired: 0, overwhelmed: 0, private: 0 };
+}
+
+export function pulseTotal(counts: PulseCounts) {
+  return Object.values(counts).reduce((sum, value) => sum + (Number(value) || 0), 0);
+}
+
+/** k for a class. Below 2 a breakdown would be one student's answer. */
+export function clampPulseMinimum(value: unknown) {
+  const minimum = Math.floor(Number(value));
+  return Number.isFinite(minimum) && minimum >= 2 ? Math.min(MAX_PULSE_MINIMUM, minimum) : DEFAULT_PULSE_MINIMUM;
+}
+
+/** The breakdown a view may show: the counts, or all zeros while fewer than `minimum` students have answered. */
+export function visiblePulseCounts(counts: PulseCounts, minimum?: number): { counts: PulseCounts; withheld: boolean } {
+  if (!minimum || pulseTotal(counts) >= minimum) return { counts, withheld: false };
+  return { counts: emptyPulseCounts(), withheld: true };
+}
+
+/** The class totals saved on a session when its pulse closes. */
+export function sessionPulseSummary(runId: number, counts: PulseCounts, minimum?: number): Omit<SessionWellbeingPulse, 'recordedAt'> {
+  return { runId, counts: { ...counts }, total: pulseTotal(counts), anonymous: Boolean(minimum), ...(minimum ? { minimum } : {}) };
+}
+
+/**
+ * The latest pulse totals another class in the course saved, for the week-over-week comparison. Built from
+ * the saved aggregates only; a total below its own k is skipped rather than shown.
+ */
+export function priorPulseCounts(sessions: Array<Pick<Session, 'id' | 'wellbeingPulse'>>, currentSessionId: string): PulseCounts | null {
+  const prior = sessions
+    .filter((session) => session.id !== currentSessionId && session.wellbeingPulse?.total)
+    .filter((session) => !session.wellbeingPulse?.minimum || (session.wellbeingPulse.total >= session.wellbeingPulse.minimum))
+    .sort((a, b) => (b.wellbeingPulse?.recordedAt?.toMillis?.() || 0) - (a.wellbeingPulse?.recordedAt?.toMillis?.() || 0))[0];
+  return prior?.wellbeingPulse ? { ...emptyPulseCounts(), ...prior.wellbeingPulse.counts } : null;
+}
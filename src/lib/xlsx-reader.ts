@@ -0,0 +1,116 @@
+/**
+ * Reads the first worksheet of an .xlsx file into rows of cell text. Registrar exports only need values,
+ * so formulas, styles and dates are not interpreted. The workbook zip is unpacked with the platform
+ * DecompressionStream, which browsers and Node 18+ both provide.
+ */
+
+type ZipEntry = { name: string; method: number; compressedSize: number; localOffset: number };
+
+const textDecoder = new TextDecoder();
+
+function readZipEntries(view: DataView): ZipEntry[] {
+  let end = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65_557); offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('This file is not a valid .xlsx workbook.');
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('This .xlsx workbook is damaged.');
+    const nameLength = view.getUint16(offset + 28, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+      name: textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return entries;
+}
+
+async function readZipText(view: DataView, entry: ZipEntry) {
+  const start = entry.localOffset + 30 + view.getUint16(entry.localOffset + 26, true) + view.getUint16(entry.localOffset + 28, true);
+  const data = new Uint8Array(view.buffer as ArrayBuffer, view.byteOffset + start, entry.compressedSize);
+  if (entry.method === 0) return textDecoder.decode(data);
+  if (entry.method !== 8) throw new Error('This .xlsx workbook uses an unsupported compression method.');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => String.fromCodePoint(Number(decimal)))
+    .replaceAll('&lt;', '<')
+    .replaceAll('&gt;', '>')
+    .replaceAll('&quot;', '"')
+    .replaceAll('&apos;', "'")
+    .replaceAll('&amp;', '&');
+}
+
+/** Text of every <t> run inside an element, which is how rich text cells are stored. */
+function runText(xml: string) {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+}
+
+function attribute(tag: string, name: string) {
+  return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+}
+
+function columnIndex(reference: string) {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return letters.split('').reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+async function firstSheetPath(view: DataView, entries: Map<string, ZipEntry>) {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) return 'xl/worksheets/sheet1.xml';
+  const sheetTag = (await readZipText(view, workbook)).match(/<sheet\s[^>]*>/)?.[0] || '';
+  const relationId = attribute(sheetTag, 'r:id');
+  const relationTag = Array.from((await readZipText(view, rels)).matchAll(/<Relationship\s[^>]*>/g), (match) => match[0])
+    .find((tag) => attribute(tag, 'Id') === relationId);
+  const target = relationTag ? attribute(relationTag, 'Target') : undefined;
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = new Map(readZipEntries(view).map((entry) => [entry.name, entry]));
+  const sheet = entries.get(await firstSheetPath(view, entries));
+  if (!sheet) throw new Error('This workbook has no worksheet to import.');
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from((await readZipText(view, sharedStringsEntry)).matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => runText(match[1]))
+    : [];
+
+  const rows: string[][] = [];
+  const sheetXml = await readZipText(view, sheet);
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1;
+    const cells: string[] = [];
+    for (const cellMatch of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellMatch[1], 'r');
+      const type = attribute(cellMatch[1], 't');
+      const body = cellMatch[2] || '';
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      const text = type === 's'
+        ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr'
+          ? runText(body)
+          : type === 'b'
+            ? value === '1' ? 'TRUE' : 'FALSE'
+            : decodeXml(value || '');
+      cells[reference ? columnIndex(reference) : cells.length] = text;
+    }
+    rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? '');
+  }
+  return Array.from(rows, (row) => row ?? []).filter((cells) => cells.some((value) => value.trim()));
+}
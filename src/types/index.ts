@@ -8,6 +8,29 @@ export interface Question {
   correctAnswer?: number; // Index of the correct option (for multiple-choice)
   correctAnswerExplanation?: string; // Explanation for why the correct answer is correct
   points: number;
+  rubricId?: string; // Rubric from CaseStudy.rubrics used to grade text and essay answers
+}
+
+export interface RubricLevel {
+  id: string;
+  label: string; // e.g. "Exemplary"
+  descriptor: string; // What work at this level looks like
+  minPoints: number;
+  maxPoints: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description?: string;
+  levels: RubricLevel[]; // Highest band first
+}
+
+export interface Rubric {
+  id: string;
+  title: string;
+  description?: string;
+  criteria: RubricCriterion[];
 }
 
 export type SectionType = 'reading' | 'discussion' | 'activity';
@@ -36,10 +59,29 @@ export interface CaseStudy {
   archived: boolean; // Soft delete - hide from normal views but preserve for sessions
   archivedAt?: Timestamp;
   conclusionGuidance?: string; // Optional guidance for AI-generated conclusions
+  rubrics?: Rubric[]; // Instructor-authored rubrics that questions reference by rubricId
+  /** Latest saved version in `casestudies/{id}/versions`; missing on case studies saved before versioning. */
+  currentVersion?: number;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+/** Case study content as it was saved. Versions are never edited, so sessions can pin the one they ran. */
+export interface CaseStudyVersion {
+  id: string;
+  version: number;
+  title: string;
+  description: string;
+  sections: Section[];
+  totalPoints: number;
+  conclusionGuidance?: string;
+  rubrics?: Rubric[];
+  createdAt: Timestamp;
+  createdBy: string;
+  /** Set when this version was saved by restoring an older one. */
+  restoredFrom?: number;
+}
+
 export type SessionType = 'case-study' | 'standalone';
 
 export type SessionParticipationMode = 'course-record' | 'session-name' | 'anonymous';
@@ -55,9 +97,29 @@ export type SessionInteractionType =
   | 'group-work'
   | 'timer'
   | 'spin-wheel'
+  | 'ranking'
+  | 'scale'
+  | 'matrix'
+  | 'estimate'
+  | 'hotspot'
+  | 'debate'
   | 'reflection'
   | 'case-study';
 
+/** A tap on an exhibit, as a share of the image width and height from the top left. */
+export type HotspotPoint = { x: number; y: number };
+
+/** A rectangle on an exhibit in the same normalized coordinates as a tap. */
+export type HotspotRegion = { x: number; y: number; width: number; height: number; label?: string };
+
+export type HotspotImage = {
+  url: string;
+  width: number;
+  height: number;
+  /** Describes the exhibit for screen readers. */
+  alt?: string;
+};
+
 export interface SessionInteraction {
   id: string;
   type: SessionInteractionType;
@@ -76,10 +138,81 @@ export interface SessionInteraction {
   groupSize?: number;
   teamTags?: string[];
   requireTeamTag?: boolean;
-  wheelSource?: 'students' | 'teams' | 'custom';
+  wheelSource?: 'students' | 'teams' | 'custom' | 'cold-call';
   wheelItems?: string[];
   wheelRemoveSelected?: boolean;
+  /** Point labels for a scale question, lowest first. */
+  scaleLabels?: string[];
+  /** Axis names for a matrix question; each item is placed high or low on both. */
+  matrixAxes?: { x: string; y: string };
+  /** Unit shown after a numeric estimate, such as "$m" or "units". */
+  estimateUnit?: string;
+  estimateMin?: number;
+  estimateMax?: number;
+  /** The true value of a numeric estimate; students only see it once it is revealed. */
+  estimateAnswer?: number;
+  /** Award points for estimates close to `estimateAnswer`. */
+  estimateProximityPoints?: boolean;
+  /** The exhibit students tap on in a hotspot question. */
+  hotspotImage?: HotspotImage;
+  /** Correct areas of the exhibit; a hotspot question without them is not scored. */
+  hotspotRegions?: HotspotRegion[];
+  /** How a debate splits the room: at random, or by the course teams. */
+  debateSideSource?: 'random' | 'teams';
   resultVisibility?: 'live' | 'after-reveal' | 'instructor-only';
+  /** Set on a knowledge check that draws its questions from the course question bank when class starts. */
+  bankDraw?: QuestionBankDraw;
+  /** The bank item a drawn knowledge check came from. */
+  bankItemId?: string;
+  /** Each student sees the choices in their own order. */
+  shuffleOptions?: boolean;
+}
+
+export type QuestionBankDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuestionBankDraw {
+  /** Items with any of these tags are in the pool; no tags means the whole bank. */
+  tags: string[];
+  difficulty?: QuestionBankDifficulty;
+  count: number;
+  /** Items used in this many of the course's most recent sessions are drawn only if the pool runs short. */
+  avoidRecentSessions: number;
+  shuffleOptions: boolean;
+}
+
+export interface QuestionBankUsage {
+  sessionId: string;
+  usedAt: Timestamp;
+  /** Whether this session's answers are already counted in the item statistics. */
+  statsRecorded?: boolean;
+}
+
+export interface QuestionBankItemStats {
+  attempts: number;
+  correct: number;
+  percentCorrect: number;
+  /** Upper minus lower group percent correct, from -1 to 1; null until a class is large enough to tell. */
+  discrimination: number | null;
+  discriminationSamples: number;
+  updatedAt: Timestamp;
+}
+
+export interface QuestionBankItem {
+  id: string;
+  courseId: string;
+  teacherId: string;
+  prompt: string;
+  options: string[];
+  correctOptionIndex: number;
+  explanation?: string;
+  tags: string[];
+  difficulty: QuestionBankDifficulty;
+  learningObjective?: string;
+  /** Most recent first. */
+  usage?: QuestionBankUsage[];
+  stats?: QuestionBankItemStats;
+  createdAt: Timestamp;
+  updatedAt?: Timestamp;
 }
 
 export type SessionInteractionRunStatus = 'active' | 'paused' | 'completed' | 'archived';
@@ -100,11 +233,15 @@ export interface SessionInteractionRun {
     firstOptionCounts?: number[];
     wheelItems?: string[];
     wheelItemColors?: string[];
+    wheelItemWeights?: number[];
     wheelSelectedIndex?: number | null;
     wheelSelectedLabel?: string | null;
     wheelSpinCount?: number;
     wheelRotation?: number;
     wheelHistory?: string[];
+    debateSeed?: string;
+    debateTeamSides?: Record<string, 0 | 1>;
+    featuredArgumentId?: string | null;
   };
   timerState?: {
     label: string;
@@ -113,23 +250,77 @@ export interface SessionInteractionRun {
   };
 }
 
+export type HomeworkReleaseMode = 'all' | 'timetable';
+
+/** What happens to answers after a student's due date: accepted as is, accepted with a penalty, or refused. */
+export type HomeworkLatePolicy = 'accept' | 'penalty' | 'closed';
+
+/** Self-paced settings for a case study session that students complete outside class. */
+export interface SessionHomework {
+  release: HomeworkReleaseMode;
+  /** Opening time for each section by index, used with the timetable. A missing time opens with the assignment. */
+  sectionReleaseAt?: Array<Timestamp | null>;
+  dueAt: Timestamp;
+  latePolicy: HomeworkLatePolicy;
+  /** Replaces the course late penalty for this assignment when the policy is `penalty`. */
+  latePenaltyPercent?: number;
+  /** Individual due dates, keyed by student document id. */
+  extensions?: Record<string, Timestamp>;
+}
+
+export type WellbeingMood = 'energized' | 'steady' | 'tired' | 'overwhelmed' | 'private';
+
+/** Class totals from a session's arrival pulse, kept so later classes can compare. Never per student. */
+export interface SessionWellbeingPulse {
+  runId: number;
+  counts: Record<WellbeingMood, number>;
+  total: number;
+  /** Fewest answers a breakdown may describe. Set for anonymous pulses. */
+  minimum?: number;
+  anonymous: boolean;
+  recordedAt: Timestamp;
+}
+
 export interface Session {
   id: string;
   sessionCode: string;
   sessionType: SessionType;
   caseStudyId?: string; // Optional for standalone sessions
   caseStudyTitle?: string; // Store title to avoid orphaned references
+  /** Case study version this session runs; sessions without one show the current case study. */
+  caseStudyVersion?: number;
   teacherId: string;
   courseId?: string;
   courseCode?: string;
   rewardScopeId?: string;
   courseName?: string;
+  /** Local meeting time as `YYYY-MM-DDTHH:mm`, shown to the instructor. */
   scheduledFor?: string;
+  /** When the scheduler opens the join code; only used while `autoOpen` is set. */
+  opensAt?: Timestamp;
+  /** Pending automatic open. The scheduler clears it once it opens the session or gives up. */
+  autoOpen?: boolean;
+  /** Why the scheduler could not open the session, shown so the instructor can start it by hand. */
+  scheduleError?: string;
+  /** Minutes without activity before a live session closes itself. Defaults to 15. */
+  idleCloseMinutes?: number;
+  closedReason?: 'idle';
+  /** Generated from the course meeting pattern and not yet reviewed by an instructor. */
+  draft?: boolean;
+  /** Local meeting date (`YYYY-MM-DD`) a generated session belongs to. */
+  meetingDate?: string;
   presentationMode?: 'external';
   participationMode?: SessionParticipationMode;
+  /** Who scores AI-assessed answers. Set from the institution default; otherwise ASSESSMENT_PROVIDER decides. */
+  assessmentProvider?: AssessmentProviderId;
+  /** Present when a case study session is self-paced homework rather than released live. */
+  homework?: SessionHomework;
   interactions?: SessionInteraction[];
   courseSourceIds?: string[];
   interactionRuns?: SessionInteractionRun[];
+  wellbeingPulse?: SessionWellbeingPulse;
+  /** Set by the retention purge once the session's saved responses have been deleted. */
+  responsesPurgedAt?: Timestamp;
   active: boolean;
   studentsJoined: string[];
   releasedSections: number[]; // Array of section indices that have been released (0-based)
@@ -190,11 +381,15 @@ export interface Response {
   sectionId: string;
   questionId: string;
   response: string;
+  /** The option picked for a choice question. Cloud Functions score it into `points`. */
+  optionIndex?: number;
   points?: number;
   maxPoints: number;
   submittedAt: Timestamp;
   gradedAt?: Timestamp;
   gradedBy?: string;
+  gradeStatus?: ResponseGradeStatus;
+  instructorFeedback?: string;
   assessment?: {
     score: number;
     feedback: string;
@@ -205,16 +400,69 @@ export interface Response {
         confidence: number;
       };
     };
+    rubricId?: string;
+    criteria?: {
+      [criterionId: string]: RubricCriterionScore;
+    };
+    provider?: AssessmentProviderId;
+    promptVersion?: string;
+    assessedAt?: string; // ISO timestamp of when the provider scored the response
+    fallbackFrom?: AssessmentProviderId;
   };
 }
 
+export type AssessmentProviderId = 'gemini' | 'heuristic' | 'stub';
+
+/** ai-suggested: scored by an assessment provider and waiting for an instructor. */
+export type ResponseGradeStatus = 'ai-suggested' | 'approved' | 'overridden';
+export type GradeAuditAction = 'approve-ai' | 'override' | 'bulk-approve-ai';
+
+/** Append-only record of one instructor grading decision on a Response. */
+export interface GradeAuditEntry {
+  id: string;
+  responseId: string;
+  sessionId: string;
+  questionId: string;
+  studentId: string;
+  teacherId: string; // Owner of the session, so the owner can review co-instructor changes
+  gradedBy: string;
+  gradedByName?: string;
+  action: GradeAuditAction;
+  previousPoints: number | null;
+  points: number;
+  aiSuggestedPoints: number | null;
+  feedback?: string;
+  createdAt: Timestamp;
+}
+
+export interface RubricCriterionScore {
+  score: number;
+  maxPoints: number;
+  levelId?: string;
+  evidence: string;
+}
+
 export interface StudentGrade {
   id: string;
   studentId: string;
   courseId: string;
   totalPoints: number;
   maxTotalPoints: number;
-  participationRate: number;
+  /**
+   * Attendance-register rate, as last sent from the class Attendance page or carried over from the
+   * gradebook. Missing when only contribution marks have been sent.
+   */
+  participationRate?: number;
+  /** Contribution marks from live discussion, as last sent from the class Contributions page. */
+  contribution?: {
+    /** Points against the full-credit target, 0-100. */
+    rate: number;
+    marks: number;
+    points: number;
+    /** Mean of the 1–3 marks, or null when the student has none. */
+    averageMark: number | null;
+    sessions: number;
+  };
   sessions: {
     sessionId: string;
     caseStudyId: string;
@@ -235,6 +483,189 @@ export interface StudentGrade {
   lastUpdated: Timestamp;
 }
 
+export type GradebookOverrideStatus = 'late' | 'excused';
+
+export interface GradebookOverride {
+  status: GradebookOverrideStatus;
+  /** Replaces the course late penalty for this one submission. */
+  latePenaltyPercent?: number;
+  note?: string;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export interface CourseGradebookSettings {
+  /** Relative weight of each session column; sessions without an entry weigh 1. */
+  sessionWeights?: Record<string, number>;
+  /** Share of the course grade, 0-100, that comes from participation rather than session scores. */
+  participationWeight?: number;
+  latePenaltyPercent?: number;
+  includeAchievementBonus?: boolean;
+  /** Keyed by `${studentDocId}:${sessionId}`. */
+  overrides?: Record<string, GradebookOverride>;
+}
+
+export type AttendanceMarkStatus = 'confirmed' | 'excused' | 'absent';
+
+/** An instructor's register entry for one student in one session; it replaces what the live record shows. */
+export interface AttendanceMark {
+  status: AttendanceMarkStatus;
+  /** Only meaningful with `confirmed`: present, but arrived late. */
+  late?: boolean;
+  reason?: string;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export interface CourseAttendanceSettings {
+  /** Live responses a student needs in a session to count as present; 0 means checking in is enough. */
+  minInteractions?: number;
+  /** Keyed by `${studentDocId}:${sessionId}`. */
+  marks?: Record<string, AttendanceMark>;
+}
+
+export type ColdCallOutcome = 'answered' | 'passed' | 'absent';
+export type ColdCallQuality = 1 | 2 | 3;
+
+/** One cold call from a live session, kept in `courses/{courseId}/coldCalls` for the term's history. */
+export interface ColdCallEntry {
+  id: string;
+  courseId: string;
+  /** The class owner, so co-instructors add to the same history. */
+  teacherId: string;
+  sessionId: string;
+  studentNumber: string;
+  studentName: string;
+  outcome: ColdCallOutcome;
+  /** Instructor's mark for an answered call. */
+  quality?: ColdCallQuality;
+  /** The approved `pass` reward request the student spent instead of answering. */
+  passRequestId?: string;
+  calledBy: string;
+  calledAt: Timestamp;
+}
+
+export type ContributionMarkLevel = 1 | 2 | 3;
+
+/** One spoken contribution tagged from the live console or remote, kept in `courses/{courseId}/contributionMarks`. */
+export interface ContributionMark {
+  id: string;
+  courseId: string;
+  /** The class owner, so co-instructors add to the same record. */
+  teacherId: string;
+  sessionId: string;
+  /** The interaction on screen when the mark was given, if any. */
+  interactionId?: string;
+  interactionTitle?: string;
+  studentNumber: string;
+  studentName: string;
+  mark: ContributionMarkLevel;
+  markedBy: string;
+  markedAt: Timestamp;
+}
+
+export type SeatingLayoutKind = 'rows' | 'u-shape' | 'pods';
+
+/** A seat's occupant. The name is copied from the roster so the live console can show it without loading the roster. */
+export interface SeatingAssignment {
+  studentNumber: string;
+  name: string;
+}
+
+/**
+ * A saved seating layout for one room, kept in `courses/{courseId}/seatingCharts`. For `rows`, `rows` by
+ * `columns`; for `u-shape`, `rows` seats down each arm and `columns` across the base; for `pods`, `rows` pods
+ * of `columns` seats each.
+ */
+export interface SeatingChart {
+  id: string;
+  courseId: string;
+  /** The class owner, so co-instructors edit the same charts. */
+  teacherId: string;
+  room: string;
+  layout: SeatingLayoutKind;
+  rows: number;
+  columns: number;
+  /** Occupants by seat id, as produced by `seatingSeats`. */
+  seats: Record<string, SeatingAssignment>;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export interface CourseColdCallSettings {
+  /** Student numbers, normalized, that the cold-call wheel never lands on. */
+  optedOut?: string[];
+}
+
+export type RetentionCategory = 'attendance' | 'wellbeing' | 'responses' | 'rewards';
+/** What a retention period counts from. `never` keeps the records until they are erased by hand. */
+export type RetentionAnchor = 'last-activity' | 'course-end' | 'never';
+
+export interface RetentionRule {
+  after: RetentionAnchor;
+  /** Whole days after the anchor, 1–3650. Ignored for `never`. */
+  days: number;
+}
+
+/** Rules by category. A missing category falls back to the workspace rule, then the institution's, then the default. */
+export type RetentionPolicy = Partial<Record<RetentionCategory, RetentionRule>>;
+
+export interface CourseRetentionPolicy extends RetentionPolicy {
+  /** `YYYY-MM-DD`, the last day of the course. Overrides `meetingPattern.endDate` for course-end rules. */
+  courseEndsOn?: string;
+}
+
+/** What the next scheduled purge would delete from the workspace. Returned by `previewRetentionPurge`. */
+export interface RetentionPreview {
+  runAt: number;
+  rooms: Array<{
+    sessionId: string;
+    sessionTitle: string;
+    courseId: string;
+    courseCode: string;
+    lastRecordedAt: number;
+    /** The whole room goes, join code included, rather than some categories of it. */
+    wholeRoom: boolean;
+    /** Live records plus saved responses, the session's pulse totals and register marks for the session. */
+    records: Record<Exclude<RetentionCategory, 'rewards'>, number>;
+  }>;
+  rewards: Array<{ courseId: string; courseCode: string; requests: number; ledgers: number }>;
+}
+
+export interface CourseWellbeingSettings {
+  /** Pulse answers go straight into class totals through a Cloud Function; no per-student record is kept. */
+  anonymousPulse?: boolean;
+  /** k: breakdowns stay hidden until at least this many students answer. Defaults to 5. */
+  minimumResponses?: number;
+}
+
+/** Recurring meeting times in the owner's `Teacher.timeZone`, used to generate draft sessions. */
+export interface CourseMeetingPattern {
+  /** 0 is Sunday. */
+  weekdays: number[];
+  /** `HH:mm`, 24-hour. */
+  startTime: string;
+  /** `YYYY-MM-DD`, inclusive. */
+  startDate: string;
+  endDate: string;
+  autoOpen: boolean;
+  idleCloseMinutes?: number;
+}
+
+/** LMS course this class is connected to through an LTI 1.3 launch. Written by Cloud Functions only. */
+export interface CourseLtiLink {
+  platformId: string;
+  contextId: string;
+  contextTitle: string;
+  /** AGS line items endpoint from the most recent graded launch. */
+  lineItemsUrl?: string;
+  /** The course-total column Classfully posts to. */
+  lineItemUrl?: string;
+  linkedBy: string;
+  linkedAt: Timestamp;
+  lastGradeSyncAt?: Timestamp;
+}
+
 export interface Teacher {
   id: string;
   email: string;
@@ -243,6 +674,10 @@ export interface Teacher {
   timeZone?: string;
   notificationPreferences?: TeacherNotificationPreferences;
   billing?: TeacherBilling;
+  /** Workspace default; each course can override it. */
+  retention?: RetentionPolicy;
+  /** Written by the institution callables when the instructor joins or leaves an institution. */
+  institutionId?: string;
   courseIds: string[];
   createdAt: Timestamp;
   signupContext?: {
@@ -276,6 +711,99 @@ export interface InstructorMembership {
   acceptedAt?: Timestamp;
 }
 
+export type InstitutionRole = 'admin' | 'instructor';
+export type SsoProtocol = 'oidc' | 'saml';
+
+/** Defaults for every member's workspace. Their own workspace and course settings still win. */
+export interface InstitutionDefaults {
+  retention?: RetentionPolicy;
+  /** The stub provider is for tests and is not offered to institutions. */
+  assessmentProvider?: Exclude<AssessmentProviderId, 'stub'>;
+  participationMode?: SessionParticipationMode;
+}
+
+export interface InstitutionSsoSettings {
+  protocol: SsoProtocol;
+  /** While true, members can only use Classfully after signing in through this provider. */
+  required: boolean;
+  /** OIDC issuer and client registered for Classfully. */
+  issuer?: string;
+  clientId?: string;
+  /** Firebase SAML provider ID, such as `saml.university`. */
+  providerId?: string;
+}
+
+/** `institutions/{id}` as members may read it. Domain tokens and the OIDC client secret stay server-side. */
+export interface Institution {
+  id: string;
+  name: string;
+  verifiedDomains: string[];
+  adminUids: string[];
+  seatLimit: number;
+  seatsAssigned: number;
+  sso?: InstitutionSsoSettings;
+  defaults?: InstitutionDefaults;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface InstitutionDomain {
+  domain: string;
+  verified: boolean;
+  /** The DNS TXT value that proves the institution controls the domain. */
+  record: string;
+  verifiedAt: string | null;
+}
+
+/** Returned by `manageInstitution` with `action: 'membership'`. */
+export interface InstitutionMembershipSummary {
+  institution: {
+    id: string;
+    name: string;
+    sso: Pick<InstitutionSsoSettings, 'protocol' | 'required'> | null;
+    defaults: InstitutionDefaults;
+  } | null;
+  role: InstitutionRole | null;
+  seat: boolean;
+  /** An institution that verified the instructor's email domain and that they have not joined. */
+  joinable: { id: string; name: string; canJoin: boolean } | null;
+}
+
+/** Returned by `manageInstitution` with `action: 'console'`, for admins only. */
+export interface InstitutionConsole {
+  institution: {
+    id: string;
+    name: string;
+    domains: InstitutionDomain[];
+    seatLimit: number;
+    seatsAssigned: number;
+    sso: InstitutionSsoSettings | null;
+    defaults: InstitutionDefaults;
+  };
+  hasClientSecret: boolean;
+  /** The redirect URI to register with the OIDC provider. */
+  callbackUrl: string;
+  members: Array<{
+    uid: string;
+    email: string;
+    name: string;
+    role: InstitutionRole;
+    seat: boolean;
+    joinedAt: string | null;
+    lastSsoSignInAt: string | null;
+    courseCount: number;
+  }>;
+  courses: Array<{
+    id: string;
+    name: string;
+    code: string;
+    term: string;
+    teacherId: string;
+    archived: boolean;
+    studentCount: number;
+  }>;
+}
+
 export type BillingPlan = 'pilot' | 'instructor_term' | 'instructor_annual' | 'institution';
 export type BillingStatus = 'pilot' | 'trialing' | 'active' | 'past_due' | 'unpaid' | 'canceled' | 'paused' | 'inactive' | 'incomplete' | 'incomplete_expired';
 
@@ -340,6 +868,13 @@ export interface Course {
   /** Session ids in the instructor-defined teaching sequence, from first to last. */
   sessionOrder?: string[];
   courseSources?: CourseSource[];
+  gradebook?: CourseGradebookSettings;
+  attendance?: CourseAttendanceSettings;
+  coldCall?: CourseColdCallSettings;
+  meetingPattern?: CourseMeetingPattern;
+  retention?: CourseRetentionPolicy;
+  wellbeing?: CourseWellbeingSettings;
+  lti?: CourseLtiLink;
   teamTags?: string[];
   teams?: Array<{
     id: string;
@@ -521,9 +1056,97 @@ export interface RewardRequest {
   rewardId: string;
   rewardName: string;
   pointsRequired: number;
+  /** The student's ledger balance when they asked, as recorded by the server. */
   pointsAtRequest: number;
   status: RewardRequestStatus;
   requestedAt: Timestamp;
   reviewedAt?: Timestamp;
   instructorNote?: string;
+  /** The reward ledger the points come from. Requests made before the server ledger have none. */
+  ledgerId?: string;
+  /** Devices linked to that ledger, which may all read the request. */
+  deviceUids?: string[];
+}
+
+/**
+ * A student's points for one instructor reward scope, written only by Cloud Functions. Every device the
+ * student joins from with the same student number is linked to the same ledger.
+ */
+export interface RewardLedger {
+  id: string;
+  teacherId: string;
+  rewardScopeId: string;
+  courseId: string;
+  courseCode: string;
+  studentNumber: string;
+  studentDisplayName?: string;
+  deviceUids: string[];
+  /** Devices that joined with this student number after the ledger started. They wait for the instructor. */
+  pendingDevices?: Array<{ uid: string; studentDisplayName?: string; requestedAt: Timestamp }>;
+  /** Spendable seminar points: everything earned, less rewards marked used. */
+  seminarPoints: number;
+  classScore: number;
+  spentPoints: number;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/** One append-only ledger line. Redemptions are negative seminar entries keyed `redemption:<requestId>`. */
+export interface RewardLedgerEntryRecord {
+  id: string;
+  eventKey: string;
+  sessionId?: string;
+  balance: 'seminar' | 'score';
+  amount: number;
+  label: string;
+  optionIndex?: number;
+  createdAt: Timestamp;
+}
+
+/** One export or erasure of a student's records, logged by Cloud Functions without the records themselves. */
+export interface DataSubjectRequest {
+  id: string;
+  type: 'access' | 'erasure';
+  ownerUid: string;
+  requestedBy: string;
+  /** SHA-256 of the workspace and the student number or device ID that was entered. */
+  subjectHash: string;
+  /** Records found per collection, e.g. `liveV2/responses` or `firestore/rewardRequests`. */
+  counts: Record<string, number>;
+  receipt?: DeletionReceipt;
+  createdAt: Timestamp;
+}
+
+/** Issued when a student's records are erased. `signature` is an HMAC over the other fields. */
+export interface DeletionReceipt {
+  receiptId: string;
+  ownerUid: string;
+  requestedBy: string;
+  subjectHash: string;
+  erasedAt: string;
+  counts: Record<string, number>;
+  liveDeleted: number;
+  firestoreDeleted: number;
+  firestorePseudonymized: number;
+  algorithm: 'HMAC-SHA256';
+  signature: string;
+}
+
+/** Who an erasure resolved to, from `previewStudentErasure`. The instructor confirms it before anything is deleted. */
+export interface StudentErasurePreview {
+  subject: { studentNumbers: string[]; deviceUids: string[] };
+  /** Records found per collection, e.g. `liveV2/responses` or `firestore/rewardRequests`. */
+  counts: Record<string, number>;
+  /** Sent back with the erasure so it runs only for these identities. */
+  identityFingerprint: string;
+}
+
+/** Everything held about one student in a workspace, as returned by `exportStudentData`. */
+export interface StudentDataBundle {
+  format: 'classfully-student-data/1';
+  generatedAt: string;
+  ownerUid: string;
+  subject: { studentNumbers: string[]; deviceUids: string[] };
+  realtimeDatabase: Array<{ path: string; value: unknown }>;
+  firestore: Array<{ path: string; data: Record<string, unknown> }>;
 }